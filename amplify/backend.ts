@@ -18,6 +18,7 @@ import { deleteFormationSafe } from './functions/delete-formation-safe/resource'
 import { deleteGameSafe } from './functions/delete-game-safe/resource';
 import { deleteTeamSafe } from './functions/delete-team-safe/resource';
 import { deletePlayerSafe } from './functions/delete-player-safe/resource';
+import { getFamilyPortal } from './functions/get-family-portal/resource';
 
 const backend = defineBackend({
   auth,
@@ -36,6 +37,7 @@ const backend = defineBackend({
   deleteGameSafe,
   deleteTeamSafe,
   deletePlayerSafe,
+  getFamilyPortal,
 });
 
 // Add deployment ID to outputs
@@ -99,6 +101,13 @@ const playerAvailabilityTable = backend.data.resources.tables['PlayerAvailabilit
 const gamePlanTable = backend.data.resources.tables['GamePlan'];
 const plannedRotationTable = backend.data.resources.tables['PlannedRotation'];
 const queuedSubstitutionTable = backend.data.resources.tables['QueuedSubstitution'];
+const shootoutKickTable = backend.data.resources.tables['ShootoutKick'];
+const gameEventTable = backend.data.resources.tables['GameEvent'];
+const tournamentTable = backend.data.resources.tables['Tournament'];
+const opponentTable = backend.data.resources.tables['Opponent'];
+const seasonTable = backend.data.resources.tables['Season'];
+const practiceSessionTable = backend.data.resources.tables['PracticeSession'];
+const practiceAttendanceTable = backend.data.resources.tables['PracticeAttendance'];
 teamTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
 teamInvitationTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
 playerTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
@@ -106,6 +115,11 @@ formationTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
 formationPositionTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
 teamRosterTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
 gameTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
+tournamentTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
+opponentTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
+seasonTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
+practiceSessionTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
+practiceAttendanceTable.grantReadWriteData(backend.acceptInvitation.resources.lambda);
 
 // Add table names as environment variables
 backend.acceptInvitation.addEnvironment('TEAM_TABLE', teamTable.tableName);
@@ -115,6 +129,11 @@ backend.acceptInvitation.addEnvironment('FORMATION_TABLE', formationTable.tableN
 backend.acceptInvitation.addEnvironment('FORMATION_POSITION_TABLE', formationPositionTable.tableName);
 backend.acceptInvitation.addEnvironment('TEAM_ROSTER_TABLE', teamRosterTable.tableName);
 backend.acceptInvitation.addEnvironment('GAME_TABLE', gameTable.tableName);
+backend.acceptInvitation.addEnvironment('TOURNAMENT_TABLE', tournamentTable.tableName);
+backend.acceptInvitation.addEnvironment('OPPONENT_TABLE', opponentTable.tableName);
+backend.acceptInvitation.addEnvironment('SEASON_TABLE', seasonTable.tableName);
+backend.acceptInvitation.addEnvironment('PRACTICE_SESSION_TABLE', practiceSessionTable.tableName);
+backend.acceptInvitation.addEnvironment('PRACTICE_ATTENDANCE_TABLE', practiceAttendanceTable.tableName);
 
 // Grant Cognito access for acceptInvitation Lambda to fetch user email if missing in claims
 backend.acceptInvitation.addEnvironment(
@@ -238,6 +257,8 @@ playerAvailabilityTable.grantReadWriteData(backend.deleteGameSafe.resources.lamb
 gamePlanTable.grantReadWriteData(backend.deleteGameSafe.resources.lambda);
 plannedRotationTable.grantReadWriteData(backend.deleteGameSafe.resources.lambda);
 queuedSubstitutionTable.grantReadWriteData(backend.deleteGameSafe.resources.lambda);
+shootoutKickTable.grantReadWriteData(backend.deleteGameSafe.resources.lambda);
+gameEventTable.grantReadWriteData(backend.deleteGameSafe.resources.lambda);
 backend.deleteGameSafe.addEnvironment('GAME_TABLE', gameTable.tableName);
 backend.deleteGameSafe.addEnvironment('PLAY_TIME_RECORD_TABLE', playTimeRecordTable.tableName);
 backend.deleteGameSafe.addEnvironment('GOAL_TABLE', goalTable.tableName);
@@ -248,6 +269,8 @@ backend.deleteGameSafe.addEnvironment('PLAYER_AVAILABILITY_TABLE', playerAvailab
 backend.deleteGameSafe.addEnvironment('GAME_PLAN_TABLE', gamePlanTable.tableName);
 backend.deleteGameSafe.addEnvironment('PLANNED_ROTATION_TABLE', plannedRotationTable.tableName);
 backend.deleteGameSafe.addEnvironment('QUEUED_SUBSTITUTION_TABLE', queuedSubstitutionTable.tableName);
+backend.deleteGameSafe.addEnvironment('SHOOTOUT_KICK_TABLE', shootoutKickTable.tableName);
+backend.deleteGameSafe.addEnvironment('GAME_EVENT_TABLE', gameEventTable.tableName);
 
 // Grant table access for deleteTeamSafe Lambda (authoritative team delete with rollback)
 teamTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
@@ -262,6 +285,13 @@ lineupAssignmentTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda
 playerAvailabilityTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
 gamePlanTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
 plannedRotationTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
+shootoutKickTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
+gameEventTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
+tournamentTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
+opponentTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
+seasonTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
+practiceSessionTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
+practiceAttendanceTable.grantReadWriteData(backend.deleteTeamSafe.resources.lambda);
 backend.deleteTeamSafe.addEnvironment('TEAM_TABLE', teamTable.tableName);
 backend.deleteTeamSafe.addEnvironment('GAME_TABLE', gameTable.tableName);
 backend.deleteTeamSafe.addEnvironment('TEAM_ROSTER_TABLE', teamRosterTable.tableName);
@@ -274,6 +304,13 @@ backend.deleteTeamSafe.addEnvironment('LINEUP_ASSIGNMENT_TABLE', lineupAssignmen
 backend.deleteTeamSafe.addEnvironment('PLAYER_AVAILABILITY_TABLE', playerAvailabilityTable.tableName);
 backend.deleteTeamSafe.addEnvironment('GAME_PLAN_TABLE', gamePlanTable.tableName);
 backend.deleteTeamSafe.addEnvironment('PLANNED_ROTATION_TABLE', plannedRotationTable.tableName);
+backend.deleteTeamSafe.addEnvironment('SHOOTOUT_KICK_TABLE', shootoutKickTable.tableName);
+backend.deleteTeamSafe.addEnvironment('GAME_EVENT_TABLE', gameEventTable.tableName);
+backend.deleteTeamSafe.addEnvironment('TOURNAMENT_TABLE', tournamentTable.tableName);
+backend.deleteTeamSafe.addEnvironment('OPPONENT_TABLE', opponentTable.tableName);
+backend.deleteTeamSafe.addEnvironment('SEASON_TABLE', seasonTable.tableName);
+backend.deleteTeamSafe.addEnvironment('PRACTICE_SESSION_TABLE', practiceSessionTable.tableName);
+backend.deleteTeamSafe.addEnvironment('PRACTICE_ATTENDANCE_TABLE', practiceAttendanceTable.tableName);
 
 // Grant table access for deletePlayerSafe Lambda (authoritative player delete with rollback)
 playerTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda);
@@ -282,9 +319,29 @@ playTimeRecordTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda
 goalTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda);
 gameNoteTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda);
 playerAvailabilityTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda);
+gameEventTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda);
+shootoutKickTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda);
+practiceAttendanceTable.grantReadWriteData(backend.deletePlayerSafe.resources.lambda);
 backend.deletePlayerSafe.addEnvironment('PLAYER_TABLE', playerTable.tableName);
 backend.deletePlayerSafe.addEnvironment('TEAM_ROSTER_TABLE', teamRosterTable.tableName);
 backend.deletePlayerSafe.addEnvironment('PLAY_TIME_RECORD_TABLE', playTimeRecordTable.tableName);
 backend.deletePlayerSafe.addEnvironment('GOAL_TABLE', goalTable.tableName);
 backend.deletePlayerSafe.addEnvironment('GAME_NOTE_TABLE', gameNoteTable.tableName);
 backend.deletePlayerSafe.addEnvironment('PLAYER_AVAILABILITY_TABLE', playerAvailabilityTable.tableName);
+backend.deletePlayerSafe.addEnvironment('GAME_EVENT_TABLE', gameEventTable.tableName);
+backend.deletePlayerSafe.addEnvironment('SHOOTOUT_KICK_TABLE', shootoutKickTable.tableName);
+backend.deletePlayerSafe.addEnvironment('PRACTICE_ATTENDANCE_TABLE', practiceAttendanceTable.tableName);
+
+// Grant table access for getFamilyPortal Lambda (read-only parent portal)
+teamTable.grantReadData(backend.getFamilyPortal.resources.lambda);
+teamRosterTable.grantReadData(backend.getFamilyPortal.resources.lambda);
+playerTable.grantReadData(backend.getFamilyPortal.resources.lambda);
+gameTable.grantReadData(backend.getFamilyPortal.resources.lambda);
+playTimeRecordTable.grantReadData(backend.getFamilyPortal.resources.lambda);
+goalTable.grantReadData(backend.getFamilyPortal.resources.lambda);
+backend.getFamilyPortal.addEnvironment('TEAM_TABLE', teamTable.tableName);
+backend.getFamilyPortal.addEnvironment('TEAM_ROSTER_TABLE', teamRosterTable.tableName);
+backend.getFamilyPortal.addEnvironment('PLAYER_TABLE', playerTable.tableName);
+backend.getFamilyPortal.addEnvironment('GAME_TABLE', gameTable.tableName);
+backend.getFamilyPortal.addEnvironment('PLAY_TIME_RECORD_TABLE', playTimeRecordTable.tableName);
+backend.getFamilyPortal.addEnvironment('GOAL_TABLE', goalTable.tableName);
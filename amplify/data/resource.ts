@@ -11,6 +11,7 @@ import { deleteFormationSafe } from "../functions/delete-formation-safe/resource
 import { deleteGameSafe } from "../functions/delete-game-safe/resource";
 import { deleteTeamSafe } from "../functions/delete-team-safe/resource";
 import { deletePlayerSafe } from "../functions/delete-player-safe/resource";
+import { getFamilyPortal } from "../functions/get-family-portal/resource";
 
 /*== Soccer Game Management App Schema ===================================
 This schema defines the data models for a soccer coaching app:
@@ -50,15 +51,29 @@ const schema = a.schema({
     .model({
       name: a.string().required(),
       coaches: a.string().array(), // Array of user IDs who can access this team
+      // Family members linked via accepted PARENT invitations. Not an owner field:
+      // parents get no model access and read only through getFamilyPortal.
+      parents: a.string().array(),
       formationId: a.id(),
       formation: a.belongsTo('Formation', 'formationId'),
       maxPlayersOnField: a.integer().required(),
-      halfLengthMinutes: a.integer().default(30),
+      halfLengthMinutes: a.integer().default(30), // Length of one period (a half, quarter, ...)
       sport: a.string().default("Soccer"),
-      gameFormat: a.string().default("Halves"),
+      gameFormat: a.string().default("Halves"), // 'Halves' | 'Quarters' | 'Periods'
+      periodCount: a.integer(), // Number of periods when gameFormat is 'Periods'; 4 for 'Quarters' (null = legacy half length)
+      fairnessWindow: a.string().default('game'), // 'game' | 'recent' | 'season' — past minutes counted by auto-generated rotations
+      fairnessWindowGames: a.integer().default(3), // Number of completed games used when fairnessWindow is 'recent'
+      currentSeasonId: a.id(), // Season new games join; games with no seasonId also belong to it
+      recapSettings: a.json(), // {includeScorers, includeAssists, includeGoalMinutes, includeGoldStars, includeCards, privacyMode} for shared game recaps
+      starterRanking: a.string().default('position'), // 'position' | 'practice' — how the planner orders starting lineup candidates
+      leagueRules: a.json(), // {preset, rules: [{type: 'min-play'|'bench-periods'|'break-subs', value?}]} checked when planning, live and after the game
       roster: a.hasMany('TeamRoster', 'teamId'),
       positions: a.hasMany('FieldPosition', 'teamId'),
       games: a.hasMany('Game', 'teamId'),
+      tournaments: a.hasMany('Tournament', 'teamId'),
+      opponents: a.hasMany('Opponent', 'teamId'),
+      seasons: a.hasMany('Season', 'teamId'),
+      practiceSessions: a.hasMany('PracticeSession', 'teamId'),
       invitations: a.hasMany('TeamInvitation', 'teamId'),
     })
     .authorization((allow) => [
@@ -80,8 +95,11 @@ const schema = a.schema({
       playTimeRecords: a.hasMany('PlayTimeRecord', 'playerId'),
       goalsScored: a.hasMany('Goal', 'scorerId'),
       assists: a.hasMany('Goal', 'assistId'),
+      shootoutKicks: a.hasMany('ShootoutKick', 'takerId'),
+      gameEvents: a.hasMany('GameEvent', 'playerId'),
       gameNotes: a.hasMany('GameNote', 'playerId'),
       playerAvailabilities: a.hasMany('PlayerAvailability', 'playerId'),
+      practiceAttendances: a.hasMany('PracticeAttendance', 'playerId'),
     })
     .authorization((allow) => [
       // Delete is intentionally disallowed on the model. Use deletePlayerSafe.
@@ -96,8 +114,10 @@ const schema = a.schema({
       player: a.belongsTo('Player', 'playerId'),
       playerNumber: a.integer().required(),
       preferredPositions: a.string(), // Comma-separated formation position IDs
+      positionConstraints: a.json(), // Hard rotation rules: [{ group, rule: 'never'|'min'|'max', rotations? }]
       isActive: a.boolean().default(true),
       coaches: a.string().array(), // Team coaches who can access this roster entry
+      parents: a.string().array(), // Family members linked to this player (read via getFamilyPortal only)
     })
     .authorization((allow) => [
       allow.ownersDefinedIn('coaches'), // Only team coaches can access roster
@@ -119,18 +139,114 @@ const schema = a.schema({
       allow.ownersDefinedIn('coaches'), // Only team coaches can access positions
     ]),
 
+  Tournament: a
+    .model({
+      teamId: a.id().required(),
+      team: a.belongsTo('Team', 'teamId'),
+      name: a.string().required(),
+      startDate: a.date(),
+      endDate: a.date(),
+      location: a.string(),
+      format: a.string().default('pool'), // 'pool' | 'bracket' — how the summary screen lays out results
+      availability: a.json(), // Array of {playerId, status} applied to every unplayed game in the tournament
+      games: a.hasMany('Game', 'tournamentId'),
+      coaches: a.string().array(), // Team coaches who can access this tournament
+    })
+    .authorization((allow) => [
+      allow.ownersDefinedIn('coaches'), // Deleting a tournament keeps its games; they are detached first
+    ]),
+
+  Season: a
+    .model({
+      teamId: a.id().required(),
+      team: a.belongsTo('Team', 'teamId'),
+      name: a.string().required(), // e.g. 'Fall 2025'
+      startDate: a.date(),
+      endDate: a.date(),
+      archived: a.boolean().default(false), // Set by rollover; archived games leave the Games list but stay in reports
+      roster: a.json(), // Array of {playerId, playerNumber} snapshotted at rollover; null while the season is current
+      games: a.hasMany('Game', 'seasonId'),
+      practiceSessions: a.hasMany('PracticeSession', 'seasonId'),
+      coaches: a.string().array(), // Team coaches who can access this season
+    })
+    .authorization((allow) => [
+      allow.ownersDefinedIn('coaches'), // Only team coaches can access seasons
+    ]),
+
+  PracticeSession: a
+    .model({
+      teamId: a.id().required(),
+      team: a.belongsTo('Team', 'teamId'),
+      seasonId: a.id(), // Null means the team's current season
+      season: a.belongsTo('Season', 'seasonId'),
+      practiceDate: a.datetime().required(),
+      location: a.string(),
+      focus: a.string(), // e.g. 'Passing', 'Defending set pieces'
+      durationMinutes: a.integer(),
+      attendance: a.hasMany('PracticeAttendance', 'practiceSessionId'),
+      coaches: a.string().array(), // Team coaches who can access this session
+    })
+    .authorization((allow) => [
+      allow.ownersDefinedIn('coaches'), // Only team coaches can access practices
+    ]),
+
+  PracticeAttendance: a
+    .model({
+      practiceSessionId: a.id().required(),
+      practiceSession: a.belongsTo('PracticeSession', 'practiceSessionId'),
+      teamId: a.id().required(), // Denormalized so team-wide loads, backfills and deletes need one scan
+      playerId: a.id().required(),
+      player: a.belongsTo('Player', 'playerId'),
+      status: a.string().required(), // Same values as PlayerAvailability: 'available', 'absent', 'injured', 'late-arrival'
+      markedAt: a.datetime().required(), // When status was changed
+      notes: a.string(),
+      coaches: a.string().array(), // Team coaches who can access this record
+    })
+    .authorization((allow) => [
+      allow.ownersDefinedIn('coaches'), // Only team coaches can access attendance
+    ]),
+
+  Opponent: a
+    .model({
+      teamId: a.id().required(),
+      team: a.belongsTo('Team', 'teamId'),
+      name: a.string().required(),
+      club: a.string(),
+      colors: a.string(), // Free text, e.g. 'Red / white'
+      notes: a.string(), // Scouting notes kept across meetings
+      games: a.hasMany('Game', 'opponentId'),
+      coaches: a.string().array(), // Team coaches who can access this opponent
+    })
+    .authorization((allow) => [
+      allow.ownersDefinedIn('coaches'), // Deleting an opponent keeps its games; they are detached first
+    ]),
+
   Game: a
     .model({
       teamId: a.id().required(),
       team: a.belongsTo('Team', 'teamId'),
-      opponent: a.string().required(),
+      tournamentId: a.id(), // Set when the game is part of a tournament; the tournament is one fairness unit
+      tournament: a.belongsTo('Tournament', 'tournamentId'),
+      tournamentStage: a.string(), // e.g. 'Pool A', 'Quarter-final', 'Final'
+      seasonId: a.id(), // Null means the team's current season
+      season: a.belongsTo('Season', 'seasonId'),
+      opponentId: a.id(), // Directory entry for the opponent; null for games not yet matched
+      opponentTeam: a.belongsTo('Opponent', 'opponentId'),
+      opponent: a.string().required(), // Display name, kept in sync with the directory entry
       isHome: a.boolean().required(),
       gameDate: a.datetime(),
-      status: a.string().default('scheduled'), // scheduled, in-progress, halftime, completed
-      currentHalf: a.integer().default(1), // 1 or 2
+      status: a.string().default('scheduled'), // scheduled, in-progress, halftime (any period break), shootout, completed
+      currentHalf: a.integer().default(1), // Current period, 1..periodCount
       elapsedSeconds: a.integer().default(0),
       lastStartTime: a.string(), // ISO timestamp when timer last started
-      halfLengthMinutes: a.integer(), // Per-game override; null = use team default
+      halfLengthMinutes: a.integer(), // Per-game period length override; null = use team default
+      addedTimeMode: a.boolean(), // When true the clock runs on past the end of a period until the coach ends it
+      addedTimeSeconds: a.integer().array(), // Seconds played past the nominal end of each period, indexed by period - 1
+      extraTimePeriods: a.integer(), // Knockout games: extra-time periods played if level after regulation (0/null = none)
+      extraTimeLengthMinutes: a.integer(), // Length of each extra-time period
+      hasShootout: a.boolean(), // Knockout games: decide a draw with a penalty shootout
+      shootoutOurScore: a.integer(), // Shootout result snapshot, written when the game completes
+      shootoutOpponentScore: a.integer(),
       ourScore: a.integer().default(0),
       opponentScore: a.integer().default(0),
       coaches: a.string().array(), // Team coaches who can access this game
@@ -139,6 +255,8 @@ const schema = a.schema({
       queuedSubstitutions: a.hasMany('QueuedSubstitution', 'gameId'),
       playTimeRecords: a.hasMany('PlayTimeRecord', 'gameId'),
       goals: a.hasMany('Goal', 'gameId'),
+      shootoutKicks: a.hasMany('ShootoutKick', 'gameId'),
+      gameEvents: a.hasMany('GameEvent', 'gameId'),
       gameNotes: a.hasMany('GameNote', 'gameId'),
       playerAvailability: a.hasMany('PlayerAvailability', 'gameId'),
       gamePlan: a.hasOne('GamePlan', 'gameId'),
@@ -170,9 +288,10 @@ const schema = a.schema({
       gameId: a.id().required(),
       game: a.belongsTo('Game', 'gameId'),
       rotationIntervalMinutes: a.integer().required(), // e.g., 5, 10, 15
-      totalRotations: a.integer().required(), // Calculated based on half length
+      totalRotations: a.integer().required(), // Calculated based on period length and count
       startingLineup: a.json(), // Array of {playerId, positionId} for the starting lineup
-      halftimeLineup: a.json(), // Array of {playerId, positionId} for the second-half starting lineup
+      halftimeLineup: a.json(), // Array of {playerId, positionId} for the lineup after the halftime break
+      keeperPlan: a.json(), // {eligibleKeeperIds, schedule: 'half' | 'quarter' | 'minutes', intervalMinutes} for goalkeeper swaps
       createdAt: a.datetime().required(),
       updatedAt: a.datetime().required(),
       coaches: a.string().array(), // Team coaches who can access this plan
@@ -188,7 +307,7 @@ const schema = a.schema({
       gamePlan: a.belongsTo('GamePlan', 'gamePlanId'),
       rotationNumber: a.integer().required(), // 1, 2, 3, etc.
       gameMinute: a.integer().required(), // When this rotation should occur (e.g., 5, 10, 15)
-      half: a.integer().required(), // 1 or 2
+      half: a.integer().required(), // Period number (1-based)
       plannedSubstitutions: a.json().required(), // Array of {playerOutId, playerInId, positionId}
       viewedAt: a.datetime(), // When coach last viewed this during game
       coaches: a.string().array(), // Team coaches who can access this rotation
@@ -256,7 +375,7 @@ const schema = a.schema({
       game: a.belongsTo('Game', 'gameId'),
       scoredByUs: a.boolean().required(), // true if our team scored, false if opponent
       gameSeconds: a.integer().required(), // Game time in seconds when goal was scored
-      half: a.integer().required(), // 1 or 2
+      half: a.integer().required(), // Period number (1-based)
       scorerId: a.id(), // Player who scored (only if scoredByUs is true)
       scorer: a.belongsTo('Player', 'scorerId'),
       assistId: a.id(), // Player who assisted (optional)
@@ -269,6 +388,39 @@ const schema = a.schema({
       allow.ownersDefinedIn('coaches'), // Only team coaches can access goals
     ]),
 
+  ShootoutKick: a
+    .model({
+      gameId: a.id().required(),
+      game: a.belongsTo('Game', 'gameId'),
+      kickNumber: a.integer().required(), // Order of the kick within the shootout (1-based, both teams)
+      scoredByUs: a.boolean().required(), // true for our kick, false for the opponent's
+      takerId: a.id(), // Player who took the kick (only if scoredByUs is true)
+      taker: a.belongsTo('Player', 'takerId'),
+      scored: a.boolean().required(),
+      timestamp: a.datetime().required(), // Real-world timestamp when the kick was recorded
+      coaches: a.string().array(), // Team coaches who can access this kick
+    })
+    .authorization((allow) => [
+      allow.ownersDefinedIn('coaches'), // Only team coaches can access shootout kicks
+    ]),
+
+  GameEvent: a
+    .model({
+      gameId: a.id().required(),
+      game: a.belongsTo('Game', 'gameId'),
+      eventType: a.string().required(), // 'shot-on-target', 'shot-off-target', 'save', 'corner', 'free-kick', 'offside', 'foul'
+      forUs: a.boolean().required(), // true if the event belongs to our team (our shot, our keeper's save), false for the opponent
+      playerId: a.id(), // Player involved (optional; only for our events)
+      player: a.belongsTo('Player', 'playerId'),
+      gameSeconds: a.integer().required(), // Game time in seconds when the event happened
+      half: a.integer().required(), // Period number (1-based)
+      timestamp: a.datetime().required(), // Real-world timestamp when the event was recorded
+      coaches: a.string().array(), // Team coaches who can access this event
+    })
+    .authorization((allow) => [
+      allow.ownersDefinedIn('coaches'), // Only team coaches can access game events
+    ]),
+
   GameNote: a
     .model({
       gameId: a.id().required(),
@@ -349,6 +501,7 @@ const schema = a.schema({
       teamName: a.string(), // Denormalized team name for display during acceptance
       email: a.string().required(),
       role: a.enum(['OWNER', 'COACH', 'PARENT']),
+      playerId: a.id(), // Child linked to a PARENT invitation (required for that role)
       status: a.enum(['PENDING', 'ACCEPTED', 'DECLINED', 'EXPIRED']),
       invitedBy: a.string().required(), // userId who sent invite
       invitedAt: a.datetime().required(),
@@ -388,6 +541,15 @@ const schema = a.schema({
     .authorization((allow) => [allow.authenticated()])
     .handler(a.handler.function(acceptInvitation)), // Pass the imported function object directly
 
+  // Read-only family portal for users linked through PARENT invitations.
+  // Parents are never added to `coaches`; this query is their only read path to
+  // Game, Goal, PlayTimeRecord and TeamRoster data, scoped to their own child.
+  getFamilyPortal: a
+    .query()
+    .returns(a.json())
+    .authorization((allow) => [allow.authenticated()])
+    .handler(a.handler.function(getFamilyPortal)),
+
   // Custom query for getting current user's invitations
   getUserInvitations: a
     .query()
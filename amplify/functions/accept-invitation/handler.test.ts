@@ -60,6 +60,11 @@ describe('accept invitation handler', () => {
     process.env.FORMATION_TABLE = 'FormationTable';
     process.env.FORMATION_POSITION_TABLE = 'FormationPositionTable';
     process.env.GAME_TABLE = 'GameTable';
+    process.env.TOURNAMENT_TABLE = 'TournamentTable';
+    process.env.OPPONENT_TABLE = 'OpponentTable';
+    process.env.SEASON_TABLE = 'SeasonTable';
+    process.env.PRACTICE_SESSION_TABLE = 'PracticeSessionTable';
+    process.env.PRACTICE_ATTENDANCE_TABLE = 'PracticeAttendanceTable';
   });
 
   afterEach(() => {
@@ -194,6 +199,11 @@ describe('accept invitation handler', () => {
       process.env.FORMATION_TABLE!,
       process.env.FORMATION_POSITION_TABLE!,
       process.env.GAME_TABLE!,
+      process.env.TOURNAMENT_TABLE!,
+      process.env.OPPONENT_TABLE!,
+      process.env.SEASON_TABLE!,
+      process.env.PRACTICE_SESSION_TABLE!,
+      process.env.PRACTICE_ATTENDANCE_TABLE!,
     ];
 
     const updatedTables = new Set<string>();
@@ -254,6 +264,36 @@ describe('accept invitation handler', () => {
             Items: [{ id: 'game-1', coaches: ['owner-a'] }],
           };
         }
+
+        if (table === 'TournamentTable') {
+          return {
+            Items: [{ id: 'tournament-1', coaches: ['owner-a'] }],
+          };
+        }
+
+        if (table === 'OpponentTable') {
+          return {
+            Items: [{ id: 'opponent-1', coaches: ['owner-a'] }],
+          };
+        }
+
+        if (table === 'SeasonTable') {
+          return {
+            Items: [{ id: 'season-1', coaches: ['owner-a'] }],
+          };
+        }
+
+        if (table === 'PracticeSessionTable') {
+          return {
+            Items: [{ id: 'practice-1', coaches: ['owner-a'] }],
+          };
+        }
+
+        if (table === 'PracticeAttendanceTable') {
+          return {
+            Items: [{ id: 'attendance-1', coaches: ['owner-a'] }],
+          };
+        }
       }
 
       if (command.__type === 'UpdateCommand') {
@@ -756,4 +796,131 @@ describe('accept invitation handler', () => {
 
     await expect(invokeHandler(event as HandlerEvent)).rejects.toThrow('Invitation has expired');
   });
+
+  it('links PARENT invitations to the team and child roster entry without granting coach access', async () => {
+    const updateInputs: Array<Record<string, unknown>> = [];
+
+    mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
+      if (command.__type === 'GetCommand') {
+        const table = command.input.TableName;
+        if (table === 'TeamInvitationTable') {
+          return {
+            Item: {
+              id: 'invite-1',
+              teamId: 'team-1',
+              email: 'parent@example.com',
+              role: 'PARENT',
+              playerId: 'player-2',
+              status: 'PENDING',
+              expiresAt: '2099-01-01T00:00:00.000Z',
+            },
+          };
+        }
+        if (table === 'TeamTable') {
+          return { Item: { id: 'team-1', coaches: ['owner-a'], parents: ['parent-b'] } };
+        }
+      }
+
+      if (command.__type === 'ScanCommand' && command.input.TableName === 'TeamRosterTable') {
+        return {
+          Items: [
+            { id: 'roster-1', playerId: 'player-1', coaches: ['owner-a'] },
+            { id: 'roster-2', playerId: 'player-2', coaches: ['owner-a'] },
+          ],
+        };
+      }
+
+      if (command.__type === 'UpdateCommand') {
+        updateInputs.push(command.input);
+        return {};
+      }
+
+      return {};
+    });
+
+    const event = {
+      arguments: { invitationId: 'invite-1' },
+      identity: { sub: 'parent-b', claims: { email: 'parent@example.com' } },
+    };
+
+    await expect(invokeHandler(event as HandlerEvent)).resolves.toBeTruthy();
+
+    const coachUpdates = updateInputs.filter((update) =>
+      String(update.UpdateExpression ?? '').includes('coaches')
+    );
+    expect(coachUpdates).toHaveLength(0);
+
+    const parentUpdates = updateInputs.filter((update) =>
+      String(update.UpdateExpression ?? '').includes('parents')
+    );
+    expect(parentUpdates.map((update) => update.TableName)).toEqual(['TeamTable', 'TeamRosterTable']);
+    expect(parentUpdates[1].Key).toEqual({ id: 'roster-2' });
+    expect(parentUpdates[0].ConditionExpression).toBe('attribute_not_exists(parents) OR NOT contains(parents, :parentId)');
+  });
+
+  it('rejects PARENT invitations without a linked player before claiming them', async () => {
+    const updateInputs: Array<Record<string, unknown>> = [];
+
+    mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
+      if (command.__type === 'GetCommand' && command.input.TableName === 'TeamInvitationTable') {
+        return {
+          Item: {
+            id: 'invite-1',
+            teamId: 'team-1',
+            email: 'parent@example.com',
+            role: 'PARENT',
+            status: 'PENDING',
+            expiresAt: '2099-01-01T00:00:00.000Z',
+          },
+        };
+      }
+      if (command.__type === 'UpdateCommand') {
+        updateInputs.push(command.input);
+      }
+      return {};
+    });
+
+    const event = {
+      arguments: { invitationId: 'invite-1' },
+      identity: { sub: 'parent-b', claims: { email: 'parent@example.com' } },
+    };
+
+    await expect(invokeHandler(event as HandlerEvent)).rejects.toThrow('Parent invitation is not linked to a player');
+    expect(updateInputs).toHaveLength(0);
+  });
+
+  it('rejects PARENT invitations whose player is no longer on the roster', async () => {
+    const updateInputs: Array<Record<string, unknown>> = [];
+
+    mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
+      if (command.__type === 'GetCommand' && command.input.TableName === 'TeamInvitationTable') {
+        return {
+          Item: {
+            id: 'invite-1',
+            teamId: 'team-1',
+            email: 'parent@example.com',
+            role: 'PARENT',
+            playerId: 'player-gone',
+            status: 'PENDING',
+            expiresAt: '2099-01-01T00:00:00.000Z',
+          },
+        };
+      }
+      if (command.__type === 'ScanCommand') {
+        return { Items: [{ id: 'roster-1', playerId: 'player-1' }] };
+      }
+      if (command.__type === 'UpdateCommand') {
+        updateInputs.push(command.input);
+      }
+      return {};
+    });
+
+    const event = {
+      arguments: { invitationId: 'invite-1' },
+      identity: { sub: 'parent-b', claims: { email: 'parent@example.com' } },
+    };
+
+    await expect(invokeHandler(event as HandlerEvent)).rejects.toThrow('Linked player is not on this team roster');
+    expect(updateInputs).toHaveLength(0);
+  });
 });
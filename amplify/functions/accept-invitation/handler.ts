@@ -32,6 +32,8 @@ type InvitationRecord = {
   id: string;
   teamId: string;
   email?: string;
+  role?: 'OWNER' | 'COACH' | 'PARENT' | string | null;
+  playerId?: string | null;
   status: 'PENDING' | 'ACCEPTED' | 'DECLINED' | 'EXPIRED' | string;
   acceptedBy?: string;
   expiresAt?: string;
@@ -185,6 +187,37 @@ async function getRecordById<T extends Record<string, unknown>>(
   return (response.Item as T | undefined) ?? null;
 }
 
+/**
+ * Append a user to a record's `parents` list. Conditional so concurrent or
+ * repeated acceptances stay idempotent.
+ */
+async function appendParentIfMissing(
+  tableName: string,
+  id: string,
+  userId: string,
+  updatedAtIso: string,
+): Promise<void> {
+  try {
+    await docClient.send(new UpdateCommand({
+      TableName: tableName,
+      Key: { id },
+      UpdateExpression: 'SET parents = list_append(if_not_exists(parents, :emptyParents), :parentToAdd), updatedAt = :updatedAt',
+      ConditionExpression: 'attribute_not_exists(parents) OR NOT contains(parents, :parentId)',
+      ExpressionAttributeValues: {
+        ':emptyParents': [],
+        ':parentToAdd': [userId],
+        ':parentId': userId,
+        ':updatedAt': updatedAtIso,
+      },
+    }));
+  } catch (error) {
+    if (!isConditionalCheckFailed(error)) {
+      throw error;
+    }
+    // Already linked. Continue idempotently.
+  }
+}
+
 export const handler: Schema['acceptInvitation']['functionHandler'] = async (event) => {
   const { invitationId } = event.arguments;
   
@@ -243,6 +276,11 @@ export const handler: Schema['acceptInvitation']['functionHandler'] = async (eve
   const formationTable = process.env.FORMATION_TABLE;
   const formationPositionTable = process.env.FORMATION_POSITION_TABLE;
   const gameTable = process.env.GAME_TABLE;
+  const tournamentTable = process.env.TOURNAMENT_TABLE;
+  const opponentTable = process.env.OPPONENT_TABLE;
+  const seasonTable = process.env.SEASON_TABLE;
+  const practiceSessionTable = process.env.PRACTICE_SESSION_TABLE;
+  const practiceAttendanceTable = process.env.PRACTICE_ATTENDANCE_TABLE;
 
   if (
     !teamInvitationTable ||
@@ -251,7 +289,12 @@ export const handler: Schema['acceptInvitation']['functionHandler'] = async (eve
     !playerTable ||
     !formationTable ||
     !formationPositionTable ||
-    !gameTable
+    !gameTable ||
+    !tournamentTable ||
+    !opponentTable ||
+    !seasonTable ||
+    !practiceSessionTable ||
+    !practiceAttendanceTable
   ) {
     throw new Error('Required environment variables not set');
   }
@@ -273,6 +316,30 @@ export const handler: Schema['acceptInvitation']['functionHandler'] = async (eve
     throw new Error('Invitation recipient mismatch');
   }
 
+  // Role and linked child are immutable after creation; capture them before the
+  // claim step, whose conflict path re-reads only status fields.
+  const isParentInvitation = invitation.role === 'PARENT';
+  const linkedPlayerId = typeof invitation.playerId === 'string' ? invitation.playerId : '';
+  if (isParentInvitation && !linkedPlayerId) {
+    throw new Error('Parent invitation is not linked to a player');
+  }
+
+  // Resolve the child's roster entries before claiming so a stale link cannot
+  // consume the invitation.
+  let childRosterRecords: TeamRosterBackfillRecord[] = [];
+  if (isParentInvitation) {
+    const teamRosterRecords = await scanByField<TeamRosterBackfillRecord>(
+      teamRosterTable,
+      'teamId',
+      invitation.teamId,
+      ['id', 'coaches', 'playerId'],
+    );
+    childRosterRecords = teamRosterRecords.filter((record) => record.playerId === linkedPlayerId);
+    if (childRosterRecords.length === 0) {
+      throw new Error('Linked player is not on this team roster');
+    }
+  }
+
   // 2. Claim invitation with conditional semantics to avoid cross-user races.
   //    If another request already claimed it for this same user, treat as idempotent retry.
   if (invitation.status === 'PENDING') {
@@ -367,8 +434,30 @@ export const handler: Schema['acceptInvitation']['functionHandler'] = async (eve
     throw toInvitationStateError(invitation.status);
   }
 
-  // 3. Concurrency-safe team coach merge. Append the accepting coach atomically if needed.
   const updatedAtIso = new Date().toISOString();
+
+  // 3a. PARENT invitations never touch `coaches`. The parent is linked to the team
+  //     and to their child's roster entry, which is what getFamilyPortal authorizes on.
+  if (isParentInvitation) {
+    await appendParentIfMissing(teamTable, invitation.teamId, userId, updatedAtIso);
+    await Promise.all(childRosterRecords.map((record) =>
+      appendParentIfMissing(teamRosterTable, record.id, userId, updatedAtIso)
+    ));
+
+    const parentTeamResponse = await docClient.send(new GetCommand({
+      TableName: teamTable,
+      Key: { id: invitation.teamId },
+    }));
+
+    if (!parentTeamResponse.Item) {
+      throw new Error('Team not found');
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return parentTeamResponse.Item as any;
+  }
+
+  // 3b. Concurrency-safe team coach merge. Append the accepting coach atomically if needed.
   try {
     await docClient.send(new UpdateCommand({
       TableName: teamTable,
@@ -468,6 +557,62 @@ export const handler: Schema['acceptInvitation']['functionHandler'] = async (eve
     updateRecordCoachesIfNeeded(gameTable, record, mergedTeamCoaches, updatedAtIso)
   );
 
+  // Backfill Tournament coaches so shared users can see the team's tournaments.
+  const tournamentRecords = await scanByField<CoachScopedRecord>(
+    tournamentTable,
+    'teamId',
+    invitation.teamId,
+    ['id', 'coaches'],
+  );
+
+  await Promise.all(
+    tournamentRecords.map((record) =>
+      updateRecordCoachesIfNeeded(tournamentTable, record, mergedTeamCoaches, updatedAtIso)
+    )
+  );
+
+  // Backfill Opponent coaches so shared users see the same opponent directory.
+  const opponentRecords = await scanByField<CoachScopedRecord>(
+    opponentTable,
+    'teamId',
+    invitation.teamId,
+    ['id', 'coaches'],
+  );
+
+  await Promise.all(
+    opponentRecords.map((record) =>
+      updateRecordCoachesIfNeeded(opponentTable, record, mergedTeamCoaches, updatedAtIso)
+    )
+  );
+
+  // Backfill Season coaches so shared users can pick the team's seasons in reports.
+  const seasonRecords = await scanByField<CoachScopedRecord>(
+    seasonTable,
+    'teamId',
+    invitation.teamId,
+    ['id', 'coaches'],
+  );
+
+  await Promise.all(
+    seasonRecords.map((record) =>
+      updateRecordCoachesIfNeeded(seasonTable, record, mergedTeamCoaches, updatedAtIso)
+    )
+  );
+
+  // Backfill practice sessions and attendance so shared users see the attendance history.
+  for (const table of [practiceSessionTable, practiceAttendanceTable]) {
+    const practiceRecords = await scanByField<CoachScopedRecord>(
+      table,
+      'teamId',
+      invitation.teamId,
+      ['id', 'coaches'],
+    );
+
+    await withBoundedConcurrency(practiceRecords, 10, (record) =>
+      updateRecordCoachesIfNeeded(table, record, mergedTeamCoaches, updatedAtIso)
+    );
+  }
+
   // 4. Return the updated team
   const teamResponse = await docClient.send(new GetCommand({
     TableName: teamTable,
@@ -49,6 +49,8 @@ describe('delete-game-safe handler', () => {
     process.env.GAME_PLAN_TABLE = 'GamePlanTable';
     process.env.PLANNED_ROTATION_TABLE = 'PlannedRotationTable';
   process.env.QUEUED_SUBSTITUTION_TABLE = 'QueuedSubstitutionTable';
+    process.env.SHOOTOUT_KICK_TABLE = 'ShootoutKickTable';
+    process.env.GAME_EVENT_TABLE = 'GameEventTable';
 
     mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
       if (command.__type === 'GetCommand') {
@@ -88,8 +88,10 @@ export const handler: Handler = async (event) => {
   const gamePlanTable = process.env.GAME_PLAN_TABLE;
   const plannedRotationTable = process.env.PLANNED_ROTATION_TABLE;
   const queuedSubstitutionTable = process.env.QUEUED_SUBSTITUTION_TABLE;
+  const shootoutKickTable = process.env.SHOOTOUT_KICK_TABLE;
+  const gameEventTable = process.env.GAME_EVENT_TABLE;
 
-  if (!gameTable || !playTimeRecordTable || !goalTable || !gameNoteTable || !substitutionTable || !lineupAssignmentTable || !playerAvailabilityTable || !gamePlanTable || !plannedRotationTable || !queuedSubstitutionTable) {
+  if (!gameTable || !playTimeRecordTable || !goalTable || !gameNoteTable || !substitutionTable || !lineupAssignmentTable || !playerAvailabilityTable || !gamePlanTable || !plannedRotationTable || !queuedSubstitutionTable || !shootoutKickTable || !gameEventTable) {
     throw new Error('Required environment variables are not set');
   }
 
@@ -111,7 +113,7 @@ export const handler: Handler = async (event) => {
   const rollbackStack: SnapshotRecord[] = [];
 
   try {
-    const [playTimeRecords, goals, gameNotes, substitutions, lineupAssignments, playerAvailabilities, gamePlans, queuedSubstitutions] = await Promise.all([
+    const [playTimeRecords, goals, gameNotes, substitutions, lineupAssignments, playerAvailabilities, gamePlans, queuedSubstitutions, shootoutKicks, gameEvents] = await Promise.all([
       scanAll(playTimeRecordTable, 'gameId = :gameId', { ':gameId': gameId }),
       scanAll(goalTable, 'gameId = :gameId', { ':gameId': gameId }),
       scanAll(gameNoteTable, 'gameId = :gameId', { ':gameId': gameId }),
@@ -120,6 +122,8 @@ export const handler: Handler = async (event) => {
       scanAll(playerAvailabilityTable, 'gameId = :gameId', { ':gameId': gameId }),
       scanAll(gamePlanTable, 'gameId = :gameId', { ':gameId': gameId }),
       scanAll(queuedSubstitutionTable, 'gameId = :gameId', { ':gameId': gameId }),
+      scanAll(shootoutKickTable, 'gameId = :gameId', { ':gameId': gameId }),
+      scanAll(gameEventTable, 'gameId = :gameId', { ':gameId': gameId }),
     ]);
 
     const plannedRotations: DbItem[] = [];
@@ -140,6 +144,12 @@ export const handler: Handler = async (event) => {
     for (const item of goals) {
       await deleteWithSnapshot(goalTable, item, rollbackStack);
     }
+    for (const item of shootoutKicks) {
+      await deleteWithSnapshot(shootoutKickTable, item, rollbackStack);
+    }
+    for (const item of gameEvents) {
+      await deleteWithSnapshot(gameEventTable, item, rollbackStack);
+    }
     for (const item of gameNotes) {
       await deleteWithSnapshot(gameNoteTable, item, rollbackStack);
     }
@@ -165,6 +175,8 @@ export const handler: Handler = async (event) => {
         queuedSubstitutions: queuedSubstitutions.length,
         playTimeRecords: playTimeRecords.length,
         goals: goals.length,
+        shootoutKicks: shootoutKicks.length,
+        gameEvents: gameEvents.length,
         gameNotes: gameNotes.length,
         substitutions: substitutions.length,
         lineupAssignments: lineupAssignments.length,
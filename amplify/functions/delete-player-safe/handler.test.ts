@@ -46,6 +46,9 @@ describe('delete-player-safe handler', () => {
     process.env.GOAL_TABLE = 'GoalTable';
     process.env.GAME_NOTE_TABLE = 'GameNoteTable';
     process.env.PLAYER_AVAILABILITY_TABLE = 'PlayerAvailabilityTable';
+    process.env.GAME_EVENT_TABLE = 'GameEventTable';
+    process.env.SHOOTOUT_KICK_TABLE = 'ShootoutKickTable';
+    process.env.PRACTICE_ATTENDANCE_TABLE = 'PracticeAttendanceTable';
 
     mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
       if (command.__type === 'GetCommand') {
@@ -91,6 +94,114 @@ describe('delete-player-safe handler', () => {
     expect(lastDeleteTable).toBe('PlayerTable');
   });
 
+  it('keeps game events but clears their player link', async () => {
+    mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
+      if (command.__type === 'GetCommand') {
+        return { Item: { id: 'player-1', coaches: ['coach-1'] } };
+      }
+      if (command.__type === 'ScanCommand') {
+        if (command.input.TableName === 'GameEventTable') {
+          return { Items: [{ id: 'event-1', playerId: 'player-1' }] };
+        }
+        return { Items: [] };
+      }
+      return {};
+    });
+
+    const result = await invoke(createEvent());
+
+    expect(result).toEqual(expect.objectContaining({
+      deletedCounts: expect.objectContaining({ gameEventLinksCleared: 1 }),
+    }));
+    const updateTables = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'UpdateCommand')
+      .map(([cmd]) => (cmd.input as { TableName: string }).TableName);
+    expect(updateTables).toEqual(['GameEventTable']);
+    const deleteTables = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'DeleteCommand')
+      .map(([cmd]) => (cmd.input as { TableName: string }).TableName);
+    expect(deleteTables).not.toContain('GameEventTable');
+  });
+
+  it('keeps shootout kicks but clears their taker', async () => {
+    mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
+      if (command.__type === 'GetCommand') {
+        return { Item: { id: 'player-1', coaches: ['coach-1'] } };
+      }
+      if (command.__type === 'ScanCommand') {
+        if (command.input.TableName === 'ShootoutKickTable') {
+          return { Items: [{ id: 'kick-1', takerId: 'player-1', scored: true }] };
+        }
+        return { Items: [] };
+      }
+      return {};
+    });
+
+    const result = await invoke(createEvent());
+
+    expect(result).toEqual(expect.objectContaining({
+      deletedCounts: expect.objectContaining({ shootoutKickLinksCleared: 1 }),
+    }));
+    const kickScan = mockSend.mock.calls.find(([cmd]) => cmd.__type === 'ScanCommand' && cmd.input.TableName === 'ShootoutKickTable');
+    expect(kickScan?.[0].input).toMatchObject({ FilterExpression: 'takerId = :playerId' });
+    const updates = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'UpdateCommand')
+      .map(([cmd]) => cmd.input as { TableName: string; ExpressionAttributeValues: Record<string, unknown> });
+    expect(updates).toEqual([
+      expect.objectContaining({ TableName: 'ShootoutKickTable', ExpressionAttributeValues: { ':takerId': null } }),
+    ]);
+  });
+
+  it('restores cleared kick takers when a later delete fails', async () => {
+    mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
+      if (command.__type === 'GetCommand') {
+        return { Item: { id: 'player-1', coaches: ['coach-1'] } };
+      }
+      if (command.__type === 'ScanCommand') {
+        if (command.input.TableName === 'ShootoutKickTable') {
+          return { Items: [{ id: 'kick-1', takerId: 'player-1' }] };
+        }
+        return { Items: [] };
+      }
+      if (command.__type === 'DeleteCommand') {
+        throw new Error('boom');
+      }
+      return {};
+    });
+
+    await expect(invoke(createEvent())).rejects.toThrow(/rolled back/i);
+
+    const puts = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'PutCommand')
+      .map(([cmd]) => cmd.input as { TableName: string; Item: Record<string, unknown> });
+    expect(puts).toEqual([{ TableName: 'ShootoutKickTable', Item: { id: 'kick-1', takerId: 'player-1' } }]);
+  });
+
+  it('deletes the player\'s practice attendance', async () => {
+    mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
+      if (command.__type === 'GetCommand') {
+        return { Item: { id: 'player-1', coaches: ['coach-1'] } };
+      }
+      if (command.__type === 'ScanCommand') {
+        if (command.input.TableName === 'PracticeAttendanceTable') {
+          return { Items: [{ id: 'attendance-1', playerId: 'player-1' }, { id: 'attendance-2', playerId: 'player-1' }] };
+        }
+        return { Items: [] };
+      }
+      return {};
+    });
+
+    const result = await invoke(createEvent());
+
+    expect(result).toEqual(expect.objectContaining({
+      deletedCounts: expect.objectContaining({ practiceAttendances: 2 }),
+    }));
+    const deleteTables = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'DeleteCommand')
+      .map(([cmd]) => (cmd.input as { TableName: string }).TableName);
+    expect(deleteTables.filter(t => t === 'PracticeAttendanceTable')).toHaveLength(2);
+  });
+
   it('rolls back prior deletes when a later delete fails', async () => {
     let deleteCount = 0;
     mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
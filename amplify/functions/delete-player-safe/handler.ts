@@ -85,8 +85,11 @@ export const handler: Handler = async (event) => {
   const goalTable = process.env.GOAL_TABLE;
   const gameNoteTable = process.env.GAME_NOTE_TABLE;
   const playerAvailabilityTable = process.env.PLAYER_AVAILABILITY_TABLE;
+  const gameEventTable = process.env.GAME_EVENT_TABLE;
+  const shootoutKickTable = process.env.SHOOTOUT_KICK_TABLE;
+  const practiceAttendanceTable = process.env.PRACTICE_ATTENDANCE_TABLE;
 
-  if (!playerTable || !teamRosterTable || !playTimeRecordTable || !goalTable || !gameNoteTable || !playerAvailabilityTable) {
+  if (!playerTable || !teamRosterTable || !playTimeRecordTable || !goalTable || !gameNoteTable || !playerAvailabilityTable || !gameEventTable || !shootoutKickTable || !practiceAttendanceTable) {
     throw new Error('Required environment variables are not set');
   }
 
@@ -108,13 +111,16 @@ export const handler: Handler = async (event) => {
   const rollbackStack: SnapshotRecord[] = [];
 
   try {
-    const [teamRosters, playTimeRecords, goalsAsScorer, goalsAsAssist, gameNotes, playerAvailabilities] = await Promise.all([
+    const [teamRosters, playTimeRecords, goalsAsScorer, goalsAsAssist, gameNotes, playerAvailabilities, gameEvents, shootoutKicks, practiceAttendances] = await Promise.all([
       scanAll(teamRosterTable, 'playerId = :playerId', { ':playerId': playerId }),
       scanAll(playTimeRecordTable, 'playerId = :playerId', { ':playerId': playerId }),
       scanAll(goalTable, 'scorerId = :playerId', { ':playerId': playerId }),
       scanAll(goalTable, 'assistId = :playerId', { ':playerId': playerId }),
       scanAll(gameNoteTable, 'playerId = :playerId', { ':playerId': playerId }),
       scanAll(playerAvailabilityTable, 'playerId = :playerId', { ':playerId': playerId }),
+      scanAll(gameEventTable, 'playerId = :playerId', { ':playerId': playerId }),
+      scanAll(shootoutKickTable, 'takerId = :playerId', { ':playerId': playerId }),
+      scanAll(practiceAttendanceTable, 'playerId = :playerId', { ':playerId': playerId }),
     ]);
 
     for (const goal of goalsAsAssist) {
@@ -130,6 +136,34 @@ export const handler: Handler = async (event) => {
       rollbackStack.push({ tableName: goalTable, item: goal });
     }
 
+    // Events stay in the team totals; only the link to the player is dropped
+    for (const gameEvent of gameEvents) {
+      await docClient.send(new UpdateCommand({
+        TableName: gameEventTable,
+        Key: { id: gameEvent.id },
+        UpdateExpression: 'SET playerId = :playerId',
+        ExpressionAttributeValues: {
+          ':playerId': null,
+        },
+        ConditionExpression: 'attribute_exists(id)',
+      }));
+      rollbackStack.push({ tableName: gameEventTable, item: gameEvent });
+    }
+
+    // Kicks still count in the shootout score; only the taker is dropped
+    for (const kick of shootoutKicks) {
+      await docClient.send(new UpdateCommand({
+        TableName: shootoutKickTable,
+        Key: { id: kick.id },
+        UpdateExpression: 'SET takerId = :takerId',
+        ExpressionAttributeValues: {
+          ':takerId': null,
+        },
+        ConditionExpression: 'attribute_exists(id)',
+      }));
+      rollbackStack.push({ tableName: shootoutKickTable, item: kick });
+    }
+
     for (const item of teamRosters) {
       await deleteWithSnapshot(teamRosterTable, item, rollbackStack);
     }
@@ -145,6 +179,9 @@ export const handler: Handler = async (event) => {
     for (const item of playerAvailabilities) {
       await deleteWithSnapshot(playerAvailabilityTable, item, rollbackStack);
     }
+    for (const item of practiceAttendances) {
+      await deleteWithSnapshot(practiceAttendanceTable, item, rollbackStack);
+    }
 
     await deleteWithSnapshot(playerTable, player, rollbackStack);
 
@@ -156,7 +193,10 @@ export const handler: Handler = async (event) => {
         goalsAsScorer: goalsAsScorer.length,
         gameNotes: gameNotes.length,
         playerAvailabilities: playerAvailabilities.length,
+        practiceAttendances: practiceAttendances.length,
         assistLinksCleared: goalsAsAssist.length,
+        gameEventLinksCleared: gameEvents.length,
+        shootoutKickLinksCleared: shootoutKicks.length,
       },
     };
   } catch (error) {
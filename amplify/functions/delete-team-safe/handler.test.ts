@@ -51,6 +51,13 @@ describe('delete-team-safe handler', () => {
     process.env.PLAYER_AVAILABILITY_TABLE = 'PlayerAvailabilityTable';
     process.env.GAME_PLAN_TABLE = 'GamePlanTable';
     process.env.PLANNED_ROTATION_TABLE = 'PlannedRotationTable';
+    process.env.SHOOTOUT_KICK_TABLE = 'ShootoutKickTable';
+    process.env.GAME_EVENT_TABLE = 'GameEventTable';
+    process.env.TOURNAMENT_TABLE = 'TournamentTable';
+    process.env.OPPONENT_TABLE = 'OpponentTable';
+    process.env.SEASON_TABLE = 'SeasonTable';
+    process.env.PRACTICE_SESSION_TABLE = 'PracticeSessionTable';
+    process.env.PRACTICE_ATTENDANCE_TABLE = 'PracticeAttendanceTable';
 
     mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
       if (command.__type === 'GetCommand') {
@@ -68,6 +75,21 @@ describe('delete-team-safe handler', () => {
         if (table === 'TeamInvitationTable') {
           return { Items: [{ id: 'invite-1', teamId: 'team-1' }] };
         }
+        if (table === 'TournamentTable') {
+          return { Items: [{ id: 'tournament-1', teamId: 'team-1' }] };
+        }
+        if (table === 'OpponentTable') {
+          return { Items: [{ id: 'opponent-1', teamId: 'team-1' }] };
+        }
+        if (table === 'SeasonTable') {
+          return { Items: [{ id: 'season-1', teamId: 'team-1' }, { id: 'season-2', teamId: 'team-1' }] };
+        }
+        if (table === 'PracticeSessionTable') {
+          return { Items: [{ id: 'practice-1', teamId: 'team-1' }] };
+        }
+        if (table === 'PracticeAttendanceTable') {
+          return { Items: [{ id: 'attendance-1', teamId: 'team-1', practiceSessionId: 'practice-1' }] };
+        }
         return { Items: [] };
       }
 
@@ -96,6 +118,55 @@ describe('delete-team-safe handler', () => {
     expect(deleteTables[deleteTables.length - 1]).toBe('TeamTable');
   });
 
+  it('deletes the team\'s tournaments', async () => {
+    const result = await invoke(createEvent());
+
+    expect(result).toEqual(expect.objectContaining({
+      deletedCounts: expect.objectContaining({ tournaments: 1 }),
+    }));
+    const deleteTables = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'DeleteCommand')
+      .map(([cmd]) => (cmd.input as { TableName: string }).TableName);
+    expect(deleteTables).toContain('TournamentTable');
+  });
+
+  it('deletes the team\'s opponent directory', async () => {
+    const result = await invoke(createEvent());
+
+    expect(result).toEqual(expect.objectContaining({
+      deletedCounts: expect.objectContaining({ opponents: 1 }),
+    }));
+    const deleteTables = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'DeleteCommand')
+      .map(([cmd]) => (cmd.input as { TableName: string }).TableName);
+    expect(deleteTables).toContain('OpponentTable');
+  });
+
+  it('deletes the team\'s seasons', async () => {
+    const result = await invoke(createEvent());
+
+    expect(result).toEqual(expect.objectContaining({
+      deletedCounts: expect.objectContaining({ seasons: 2 }),
+    }));
+    const deleteTables = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'DeleteCommand')
+      .map(([cmd]) => (cmd.input as { TableName: string }).TableName);
+    expect(deleteTables.filter(t => t === 'SeasonTable')).toHaveLength(2);
+  });
+
+  it('deletes practice attendance before the practice sessions', async () => {
+    const result = await invoke(createEvent());
+
+    expect(result).toEqual(expect.objectContaining({
+      deletedCounts: expect.objectContaining({ practiceSessions: 1 }),
+    }));
+    const deleteTables = mockSend.mock.calls
+      .filter(([cmd]) => cmd.__type === 'DeleteCommand')
+      .map(([cmd]) => (cmd.input as { TableName: string }).TableName);
+    expect(deleteTables.indexOf('PracticeAttendanceTable')).toBeGreaterThan(-1);
+    expect(deleteTables.indexOf('PracticeAttendanceTable')).toBeLessThan(deleteTables.indexOf('PracticeSessionTable'));
+  });
+
   it('rolls back prior deletes when a later delete fails', async () => {
     let deleteCount = 0;
     mockSend.mockImplementation(async (command: { __type: string; input: Record<string, unknown> }) => {
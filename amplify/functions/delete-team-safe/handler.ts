@@ -90,8 +90,15 @@ export const handler: Handler = async (event) => {
   const playerAvailabilityTable = process.env.PLAYER_AVAILABILITY_TABLE;
   const gamePlanTable = process.env.GAME_PLAN_TABLE;
   const plannedRotationTable = process.env.PLANNED_ROTATION_TABLE;
-
-  if (!teamTable || !gameTable || !teamRosterTable || !teamInvitationTable || !playTimeRecordTable || !goalTable || !gameNoteTable || !substitutionTable || !lineupAssignmentTable || !playerAvailabilityTable || !gamePlanTable || !plannedRotationTable) {
+  const shootoutKickTable = process.env.SHOOTOUT_KICK_TABLE;
+  const gameEventTable = process.env.GAME_EVENT_TABLE;
+  const tournamentTable = process.env.TOURNAMENT_TABLE;
+  const opponentTable = process.env.OPPONENT_TABLE;
+  const seasonTable = process.env.SEASON_TABLE;
+  const practiceSessionTable = process.env.PRACTICE_SESSION_TABLE;
+  const practiceAttendanceTable = process.env.PRACTICE_ATTENDANCE_TABLE;
+
+  if (!teamTable || !gameTable || !teamRosterTable || !teamInvitationTable || !playTimeRecordTable || !goalTable || !gameNoteTable || !substitutionTable || !lineupAssignmentTable || !playerAvailabilityTable || !gamePlanTable || !plannedRotationTable || !shootoutKickTable || !gameEventTable || !tournamentTable || !opponentTable || !seasonTable || !practiceSessionTable || !practiceAttendanceTable) {
     throw new Error('Required environment variables are not set');
   }
 
@@ -113,15 +120,22 @@ export const handler: Handler = async (event) => {
   const rollbackStack: SnapshotRecord[] = [];
 
   try {
-    const [games, teamRosters, teamInvitations] = await Promise.all([
+    const [games, teamRosters, teamInvitations, tournaments, opponents, seasons, practiceSessions, practiceAttendances] = await Promise.all([
       scanAll(gameTable, 'teamId = :teamId', { ':teamId': teamId }),
       scanAll(teamRosterTable, 'teamId = :teamId', { ':teamId': teamId }),
       scanAll(teamInvitationTable, 'teamId = :teamId', { ':teamId': teamId }),
+      scanAll(tournamentTable, 'teamId = :teamId', { ':teamId': teamId }),
+      scanAll(opponentTable, 'teamId = :teamId', { ':teamId': teamId }),
+      scanAll(seasonTable, 'teamId = :teamId', { ':teamId': teamId }),
+      scanAll(practiceSessionTable, 'teamId = :teamId', { ':teamId': teamId }),
+      scanAll(practiceAttendanceTable, 'teamId = :teamId', { ':teamId': teamId }),
     ]);
 
     const gameChildren = [] as Array<{
       playTimeRecords: DbItem[];
       goals: DbItem[];
+      shootoutKicks: DbItem[];
+      gameEvents: DbItem[];
       gameNotes: DbItem[];
       substitutions: DbItem[];
       lineupAssignments: DbItem[];
@@ -131,7 +145,7 @@ export const handler: Handler = async (event) => {
     }>;
 
     for (const game of games) {
-      const [playTimeRecords, goals, gameNotes, substitutions, lineupAssignments, playerAvailabilities, gamePlans] = await Promise.all([
+      const [playTimeRecords, goals, gameNotes, substitutions, lineupAssignments, playerAvailabilities, gamePlans, shootoutKicks, gameEvents] = await Promise.all([
         scanAll(playTimeRecordTable, 'gameId = :gameId', { ':gameId': game.id }),
         scanAll(goalTable, 'gameId = :gameId', { ':gameId': game.id }),
         scanAll(gameNoteTable, 'gameId = :gameId', { ':gameId': game.id }),
@@ -139,6 +153,8 @@ export const handler: Handler = async (event) => {
         scanAll(lineupAssignmentTable, 'gameId = :gameId', { ':gameId': game.id }),
         scanAll(playerAvailabilityTable, 'gameId = :gameId', { ':gameId': game.id }),
         scanAll(gamePlanTable, 'gameId = :gameId', { ':gameId': game.id }),
+        scanAll(shootoutKickTable, 'gameId = :gameId', { ':gameId': game.id }),
+        scanAll(gameEventTable, 'gameId = :gameId', { ':gameId': game.id }),
       ]);
 
       const plannedRotations: DbItem[] = [];
@@ -150,6 +166,8 @@ export const handler: Handler = async (event) => {
       gameChildren.push({
         playTimeRecords,
         goals,
+        shootoutKicks,
+        gameEvents,
         gameNotes,
         substitutions,
         lineupAssignments,
@@ -172,6 +190,12 @@ export const handler: Handler = async (event) => {
       for (const item of child.goals) {
         await deleteWithSnapshot(goalTable, item, rollbackStack);
       }
+      for (const item of child.shootoutKicks) {
+        await deleteWithSnapshot(shootoutKickTable, item, rollbackStack);
+      }
+      for (const item of child.gameEvents) {
+        await deleteWithSnapshot(gameEventTable, item, rollbackStack);
+      }
       for (const item of child.gameNotes) {
         await deleteWithSnapshot(gameNoteTable, item, rollbackStack);
       }
@@ -197,6 +221,21 @@ export const handler: Handler = async (event) => {
     for (const item of teamInvitations) {
       await deleteWithSnapshot(teamInvitationTable, item, rollbackStack);
     }
+    for (const item of tournaments) {
+      await deleteWithSnapshot(tournamentTable, item, rollbackStack);
+    }
+    for (const item of opponents) {
+      await deleteWithSnapshot(opponentTable, item, rollbackStack);
+    }
+    for (const item of practiceAttendances) {
+      await deleteWithSnapshot(practiceAttendanceTable, item, rollbackStack);
+    }
+    for (const item of practiceSessions) {
+      await deleteWithSnapshot(practiceSessionTable, item, rollbackStack);
+    }
+    for (const item of seasons) {
+      await deleteWithSnapshot(seasonTable, item, rollbackStack);
+    }
 
     await deleteWithSnapshot(teamTable, team, rollbackStack);
 
@@ -206,6 +245,10 @@ export const handler: Handler = async (event) => {
         games: games.length,
         teamRosters: teamRosters.length,
         teamInvitations: teamInvitations.length,
+        tournaments: tournaments.length,
+        opponents: opponents.length,
+        seasons: seasons.length,
+        practiceSessions: practiceSessions.length,
       },
     };
   } catch (error) {
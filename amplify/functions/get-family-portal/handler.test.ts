@@ -0,0 +1,146 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const mockSend = vi.hoisted(() => vi.fn());
+
+vi.mock('@aws-sdk/client-dynamodb', () => ({
+  DynamoDBClient: vi.fn(function () {
+    return {};
+  }),
+}));
+
+vi.mock('@aws-sdk/lib-dynamodb', () => ({
+  DynamoDBDocumentClient: {
+    from: vi.fn(() => ({ send: mockSend })),
+  },
+  GetCommand: vi.fn(function (input) { return { __type: 'GetCommand', input }; }),
+  ScanCommand: vi.fn(function (input) { return { __type: 'ScanCommand', input }; }),
+}));
+
+import { handler, summarizeChildPlayTime, type FamilyPortalResponse } from './handler';
+
+type HandlerEvent = Parameters<typeof handler>[0];
+type HandlerContext = Parameters<typeof handler>[1];
+type HandlerCallback = Parameters<typeof handler>[2];
+
+async function invokeHandler(sub?: string): Promise<FamilyPortalResponse> {
+  const event = { arguments: {}, identity: sub ? { sub } : undefined } as unknown as HandlerEvent;
+  const callback: HandlerCallback = () => undefined;
+  return (await handler(event, {} as HandlerContext, callback)) as FamilyPortalResponse;
+}
+
+type Command = { __type: string; input: Record<string, unknown> };
+
+function mockTables(overrides: Partial<Record<string, unknown[]>> = {}) {
+  const tables: Record<string, unknown[]> = {
+    TeamTable: [{ id: 'team-1', name: 'Eagles', parents: ['parent-1'] }],
+    TeamRosterTable: [{ id: 'roster-2', teamId: 'team-1', playerId: 'player-2', playerNumber: 7, parents: ['parent-1'] }],
+    GameTable: [
+      { id: 'game-upcoming', teamId: 'team-1', opponent: 'Hawks', isHome: true, gameDate: '2099-05-01T10:00:00.000Z', status: 'scheduled', ourScore: 0, opponentScore: 0 },
+      { id: 'game-old', teamId: 'team-1', opponent: 'Rapids', isHome: false, gameDate: '2024-04-01T10:00:00.000Z', status: 'completed', ourScore: 2, opponentScore: 1 },
+      { id: 'game-recent', teamId: 'team-1', opponent: 'Lions', isHome: true, gameDate: '2024-04-08T10:00:00.000Z', status: 'completed', ourScore: 0, opponentScore: 3 },
+    ],
+    PlayTimeRecordTable: [
+      { id: 'ptr-1', gameId: 'game-old', playerId: 'player-2', startGameSeconds: 0, endGameSeconds: 600 },
+      { id: 'ptr-2', gameId: 'game-old', playerId: 'player-2', startGameSeconds: 1800, endGameSeconds: 2400 },
+      { id: 'ptr-3', gameId: 'other-team-game', playerId: 'player-2', startGameSeconds: 0, endGameSeconds: 900 },
+    ],
+    GoalTable: [
+      { id: 'goal-1', gameId: 'game-old', scorerId: 'player-2', assistId: 'player-9' },
+      { id: 'goal-2', gameId: 'game-old', scorerId: 'player-9', assistId: 'player-2' },
+    ],
+    ...overrides,
+  };
+
+  mockSend.mockImplementation(async (command: Command) => {
+    if (command.__type === 'ScanCommand') {
+      return { Items: tables[command.input.TableName as string] ?? [] };
+    }
+    if (command.__type === 'GetCommand' && command.input.TableName === 'PlayerTable') {
+      return { Item: { id: 'player-2', firstName: 'Sam', lastName: 'Rivera' } };
+    }
+    return {};
+  });
+}
+
+describe('getFamilyPortal handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    process.env.TEAM_TABLE = 'TeamTable';
+    process.env.TEAM_ROSTER_TABLE = 'TeamRosterTable';
+    process.env.PLAYER_TABLE = 'PlayerTable';
+    process.env.GAME_TABLE = 'GameTable';
+    process.env.PLAY_TIME_RECORD_TABLE = 'PlayTimeRecordTable';
+    process.env.GOAL_TABLE = 'GoalTable';
+  });
+
+  it('rejects unauthenticated callers', async () => {
+    await expect(invokeHandler()).rejects.toThrow('User not authenticated');
+  });
+
+  it('returns upcoming games, final scores and only the linked child play time', async () => {
+    mockTables();
+
+    const result = await invokeHandler('parent-1');
+
+    expect(result.teams).toHaveLength(1);
+    const [team] = result.teams;
+    expect(team.teamName).toBe('Eagles');
+    expect(team.children).toEqual([
+      { playerId: 'player-2', firstName: 'Sam', lastName: 'Rivera', playerNumber: 7 },
+    ]);
+
+    expect(team.upcomingGames.map((game) => game.gameId)).toEqual(['game-upcoming']);
+    expect(team.upcomingGames[0].ourScore).toBeNull();
+    expect(team.upcomingGames[0].children).toEqual([]);
+
+    // Most recent completed game first
+    expect(team.completedGames.map((game) => game.gameId)).toEqual(['game-recent', 'game-old']);
+    const oldGame = team.completedGames[1];
+    expect(oldGame.ourScore).toBe(2);
+    expect(oldGame.opponentScore).toBe(1);
+    expect(oldGame.children).toEqual([
+      { playerId: 'player-2', playTimeSeconds: 1200, goals: 1, assists: 1 },
+    ]);
+  });
+
+  it('scopes roster and play time scans to the caller', async () => {
+    mockTables();
+
+    await invokeHandler('parent-1');
+
+    const scans = mockSend.mock.calls
+      .map(([command]) => command as Command)
+      .filter((command) => command.__type === 'ScanCommand');
+
+    const teamScan = scans.find((command) => command.input.TableName === 'TeamTable');
+    expect(teamScan?.input.FilterExpression).toBe('contains(parents, :sub)');
+    expect(teamScan?.input.ExpressionAttributeValues).toEqual({ ':sub': 'parent-1' });
+
+    const rosterScan = scans.find((command) => command.input.TableName === 'TeamRosterTable');
+    expect(rosterScan?.input.FilterExpression).toBe('teamId = :teamId AND contains(parents, :sub)');
+
+    const playTimeScan = scans.find((command) => command.input.TableName === 'PlayTimeRecordTable');
+    expect(playTimeScan?.input.FilterExpression).toBe('playerId IN (:p0)');
+    expect(playTimeScan?.input.ExpressionAttributeValues).toEqual({ ':p0': 'player-2' });
+  });
+
+  it('skips teams where the caller has no linked roster entry', async () => {
+    mockTables({ TeamRosterTable: [] });
+
+    const result = await invokeHandler('parent-1');
+
+    expect(result.teams).toEqual([]);
+  });
+});
+
+describe('summarizeChildPlayTime', () => {
+  it('ignores open records and sums per game and player', () => {
+    const totals = summarizeChildPlayTime([
+      { id: 'a', gameId: 'g1', playerId: 'p1', startGameSeconds: 0, endGameSeconds: 300 },
+      { id: 'b', gameId: 'g1', playerId: 'p1', startGameSeconds: 600, endGameSeconds: 900 },
+      { id: 'c', gameId: 'g1', playerId: 'p1', startGameSeconds: 1000, endGameSeconds: null },
+    ]);
+
+    expect(totals.get('g1:p1')).toBe(600);
+  });
+});
@@ -0,0 +1,280 @@
+import type { AppSyncIdentityCognito } from 'aws-lambda';
+import { DynamoDBClient } from '@aws-sdk/client-dynamodb';
+import {
+  DynamoDBDocumentClient,
+  GetCommand,
+  ScanCommand,
+} from '@aws-sdk/lib-dynamodb';
+import type { Schema } from '../../data/resource';
+
+const dynamoClient = new DynamoDBClient({});
+const docClient = DynamoDBDocumentClient.from(dynamoClient);
+
+type DbItem = Record<string, unknown> & { id: string };
+
+interface TeamRecord extends DbItem {
+  name?: string;
+  parents?: string[];
+}
+
+interface RosterRecord extends DbItem {
+  playerId: string;
+  playerNumber?: number | null;
+  parents?: string[];
+}
+
+interface GameRecord extends DbItem {
+  opponent?: string;
+  isHome?: boolean;
+  gameDate?: string | null;
+  status?: string | null;
+  ourScore?: number | null;
+  opponentScore?: number | null;
+  shootoutOurScore?: number | null;
+  shootoutOpponentScore?: number | null;
+}
+
+interface PlayTimeRecordItem extends DbItem {
+  gameId: string;
+  playerId: string;
+  startGameSeconds: number;
+  endGameSeconds?: number | null;
+}
+
+interface GoalItem extends DbItem {
+  gameId: string;
+  scorerId?: string | null;
+  assistId?: string | null;
+}
+
+export interface FamilyPortalChild {
+  playerId: string;
+  firstName: string;
+  lastName: string | null;
+  playerNumber: number | null;
+}
+
+export interface FamilyPortalChildStats {
+  playerId: string;
+  playTimeSeconds: number;
+  goals: number;
+  assists: number;
+}
+
+export interface FamilyPortalGame {
+  gameId: string;
+  opponent: string;
+  isHome: boolean;
+  gameDate: string | null;
+  status: string;
+  ourScore: number | null;
+  opponentScore: number | null;
+  shootoutOurScore: number | null;
+  shootoutOpponentScore: number | null;
+  children: FamilyPortalChildStats[];
+}
+
+export interface FamilyPortalTeam {
+  teamId: string;
+  teamName: string;
+  children: FamilyPortalChild[];
+  upcomingGames: FamilyPortalGame[];
+  completedGames: FamilyPortalGame[];
+}
+
+export interface FamilyPortalResponse {
+  teams: FamilyPortalTeam[];
+}
+
+const LIVE_STATUSES = new Set(['in-progress', 'halftime', 'shootout']);
+
+async function scanAll<T extends DbItem>(
+  tableName: string,
+  filterExpression: string,
+  expressionAttributeValues: Record<string, unknown>,
+): Promise<T[]> {
+  const results: T[] = [];
+  let exclusiveStartKey: Record<string, unknown> | undefined;
+
+  do {
+    const response = await docClient.send(new ScanCommand({
+      TableName: tableName,
+      FilterExpression: filterExpression,
+      ExpressionAttributeValues: expressionAttributeValues,
+      ExclusiveStartKey: exclusiveStartKey,
+    }));
+
+    if (response.Items) {
+      results.push(...(response.Items as T[]));
+    }
+
+    exclusiveStartKey = response.LastEvaluatedKey as Record<string, unknown> | undefined;
+  } while (exclusiveStartKey);
+
+  return results;
+}
+
+/**
+ * Build an `attr IN (:p0, :p1, …)` filter for the given player IDs.
+ * Only the caller's linked children are ever passed here, so the list is small.
+ */
+function buildPlayerInFilter(attribute: string, playerIds: string[], prefix: string) {
+  const values: Record<string, unknown> = {};
+  const placeholders = playerIds.map((playerId, index) => {
+    const key = `:${prefix}${index}`;
+    values[key] = playerId;
+    return key;
+  });
+  return { expression: `${attribute} IN (${placeholders.join(', ')})`, values };
+}
+
+function toGameDateValue(game: GameRecord): number {
+  return game.gameDate ? new Date(game.gameDate).getTime() : 0;
+}
+
+/**
+ * Sum completed play time per (gameId, playerId). Open records are ignored:
+ * the portal only reports minutes for games that have finished.
+ */
+export function summarizeChildPlayTime(records: PlayTimeRecordItem[]): Map<string, number> {
+  const totals = new Map<string, number>();
+  for (const record of records) {
+    if (record.endGameSeconds === null || record.endGameSeconds === undefined) continue;
+    const duration = Math.max(0, record.endGameSeconds - record.startGameSeconds);
+    const key = `${record.gameId}:${record.playerId}`;
+    totals.set(key, (totals.get(key) ?? 0) + duration);
+  }
+  return totals;
+}
+
+function toPortalGame(
+  game: GameRecord,
+  childIds: string[],
+  playTimeTotals: Map<string, number>,
+  goals: GoalItem[],
+): FamilyPortalGame {
+  const status = game.status || 'scheduled';
+  const showScore = status === 'completed' || LIVE_STATUSES.has(status);
+  const gameGoals = goals.filter((goal) => goal.gameId === game.id);
+
+  return {
+    gameId: game.id,
+    opponent: game.opponent ?? '',
+    isHome: game.isHome ?? true,
+    gameDate: game.gameDate ?? null,
+    status,
+    ourScore: showScore ? game.ourScore ?? 0 : null,
+    opponentScore: showScore ? game.opponentScore ?? 0 : null,
+    shootoutOurScore: status === 'completed' ? game.shootoutOurScore ?? null : null,
+    shootoutOpponentScore: status === 'completed' ? game.shootoutOpponentScore ?? null : null,
+    children: status === 'completed'
+      ? childIds.map((playerId) => ({
+        playerId,
+        playTimeSeconds: playTimeTotals.get(`${game.id}:${playerId}`) ?? 0,
+        goals: gameGoals.filter((goal) => goal.scorerId === playerId).length,
+        assists: gameGoals.filter((goal) => goal.assistId === playerId).length,
+      }))
+      : [],
+  };
+}
+
+type Handler = Schema['getFamilyPortal']['functionHandler'];
+
+export const handler: Handler = async (event) => {
+  const identity = event.identity as AppSyncIdentityCognito;
+  const callerSub = identity?.sub;
+
+  if (!callerSub) {
+    throw new Error('User not authenticated');
+  }
+
+  const teamTable = process.env.TEAM_TABLE;
+  const teamRosterTable = process.env.TEAM_ROSTER_TABLE;
+  const playerTable = process.env.PLAYER_TABLE;
+  const gameTable = process.env.GAME_TABLE;
+  const playTimeRecordTable = process.env.PLAY_TIME_RECORD_TABLE;
+  const goalTable = process.env.GOAL_TABLE;
+
+  if (!teamTable || !teamRosterTable || !playerTable || !gameTable || !playTimeRecordTable || !goalTable) {
+    throw new Error('Required environment variables are not set');
+  }
+
+  // 1. Teams where the caller was linked through an accepted PARENT invitation.
+  const teams = await scanAll<TeamRecord>(teamTable, 'contains(parents, :sub)', { ':sub': callerSub });
+
+  const portalTeams: FamilyPortalTeam[] = [];
+
+  for (const team of teams) {
+    // 2. Only the roster entries the caller is linked to — never the whole roster.
+    const rosterEntries = await scanAll<RosterRecord>(
+      teamRosterTable,
+      'teamId = :teamId AND contains(parents, :sub)',
+      { ':teamId': team.id, ':sub': callerSub },
+    );
+
+    if (rosterEntries.length === 0) continue;
+
+    const childIds = Array.from(new Set(rosterEntries.map((entry) => entry.playerId)));
+
+    const players = await Promise.all(childIds.map(async (playerId) => {
+      const response = await docClient.send(new GetCommand({
+        TableName: playerTable,
+        Key: { id: playerId },
+        ProjectionExpression: 'id, firstName, lastName',
+      }));
+      return response.Item as { id: string; firstName?: string; lastName?: string } | undefined;
+    }));
+
+    const children: FamilyPortalChild[] = childIds.map((playerId, index) => {
+      const player = players[index];
+      const rosterEntry = rosterEntries.find((entry) => entry.playerId === playerId);
+      return {
+        playerId,
+        firstName: player?.firstName ?? 'Player',
+        lastName: player?.lastName ?? null,
+        playerNumber: rosterEntry?.playerNumber ?? null,
+      };
+    });
+
+    const playTimeFilter = buildPlayerInFilter('playerId', childIds, 'p');
+    const scorerFilter = buildPlayerInFilter('scorerId', childIds, 's');
+    const assistFilter = buildPlayerInFilter('assistId', childIds, 'a');
+
+    const [games, playTimeRecords, goals] = await Promise.all([
+      scanAll<GameRecord>(gameTable, 'teamId = :teamId', { ':teamId': team.id }),
+      scanAll<PlayTimeRecordItem>(playTimeRecordTable, playTimeFilter.expression, playTimeFilter.values),
+      scanAll<GoalItem>(
+        goalTable,
+        `${scorerFilter.expression} OR ${assistFilter.expression}`,
+        { ...scorerFilter.values, ...assistFilter.values },
+      ),
+    ]);
+
+    const teamGameIds = new Set(games.map((game) => game.id));
+    const playTimeTotals = summarizeChildPlayTime(
+      playTimeRecords.filter((record) => teamGameIds.has(record.gameId)),
+    );
+    const teamGoals = goals.filter((goal) => teamGameIds.has(goal.gameId));
+
+    const upcomingGames = games
+      .filter((game) => game.status !== 'completed')
+      .sort((a, b) => toGameDateValue(a) - toGameDateValue(b))
+      .map((game) => toPortalGame(game, childIds, playTimeTotals, teamGoals));
+
+    const completedGames = games
+      .filter((game) => game.status === 'completed')
+      .sort((a, b) => toGameDateValue(b) - toGameDateValue(a))
+      .map((game) => toPortalGame(game, childIds, playTimeTotals, teamGoals));
+
+    portalTeams.push({
+      teamId: team.id,
+      teamName: team.name ?? 'Team',
+      children,
+      upcomingGames,
+      completedGames,
+    });
+  }
+
+  const response: FamilyPortalResponse = { teams: portalTeams };
+  return response;
+};
@@ -0,0 +1,9 @@
+import { defineFunction } from '@aws-amplify/backend';
+
+export const getFamilyPortal = defineFunction({
+  name: 'get-family-portal-handler',
+  entry: './handler.ts',
+  runtime: 22,
+  timeoutSeconds: 30,
+  resourceGroupName: 'data',
+});
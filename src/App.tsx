@@ -20,11 +20,32 @@ const Management = lazy(() =>
 const UserProfile = lazy(() =>
   import("./components/UserProfile").then((m) => ({ default: m.UserProfile }))
 );
+const FamilyPortal = lazy(() =>
+  import("./components/FamilyPortal").then((m) => ({ default: m.FamilyPortal }))
+);
 const SeasonReportRoute = lazy(() =>
   import("./components/routes/SeasonReportRoute").then((m) => ({
     default: m.SeasonReportRoute,
   }))
 );
+const TournamentRoute = lazy(() =>
+  import("./components/routes/TournamentRoute").then((m) => ({
+    default: m.TournamentRoute,
+  }))
+);
+const PracticeSessions = lazy(() =>
+  import("./components/PracticeSessions").then((m) => ({ default: m.PracticeSessions }))
+);
+const OfflineQueueInspector = lazy(() =>
+  import("./components/OfflineQueueInspector").then((m) => ({
+    default: m.OfflineQueueInspector,
+  }))
+);
+const GameSummaryRoute = lazy(() =>
+  import("./components/routes/GameSummaryRoute").then((m) => ({
+    default: m.GameSummaryRoute,
+  }))
+);
 
 function App() {
   return (
@@ -38,10 +59,15 @@ function App() {
           <Route index element={<HomeOrLegacyRedirect />} />
           <Route path="game/:gameId" element={<GameManagementRoute />} />
           <Route path="game/:gameId/plan" element={<GamePlannerRoute />} />
+          <Route path="game/:gameId/summary" element={<GameSummaryRoute />} />
+          <Route path="tournament/:tournamentId" element={<TournamentRoute />} />
           <Route path="reports" element={<SeasonReportRoute />} />
           <Route path="reports/:teamId" element={<SeasonReportRoute />} />
+          <Route path="practices" element={<PracticeSessions />} />
           <Route path="manage" element={<Management />} />
           <Route path="profile" element={<UserProfile />} />
+          <Route path="family" element={<FamilyPortal />} />
+          <Route path="sync" element={<OfflineQueueInspector />} />
         </Route>
 
         {/* Catch-all redirect to home */}
@@ -10,10 +10,20 @@ import { useEffect } from "react";
 import { trackPageView } from "../utils/analytics";
 import { useOfflineMutations } from "../hooks/useOfflineMutations";
 import { useOfflineQueueDrain } from "../hooks/useOfflineQueueDrain";
+import { clearBackgroundSyncAuth } from "../services/offlineQueueService";
+import { clearGameSnapshots } from "../services/gameSnapshotStore";
 
 export function AppLayout() {
   const location = useLocation();
-  const { signOut } = useAuthenticator();
+  const { signOut: authSignOut } = useAuthenticator();
+
+  // Once a coach signs out, the service worker must stop syncing with their
+  // token and the games saved for offline use must not outlive their session
+  const signOut = () => {
+    void clearBackgroundSyncAuth().catch(() => {});
+    void clearGameSnapshots().catch(() => {});
+    authSignOut();
+  };
 
   // Track page views on every route change
   useEffect(() => {
@@ -22,7 +32,8 @@ export function AppLayout() {
 
   // Trigger startup drain of any pending offline mutations (e.g., game status
   // changes queued while offline). Runs once on mount; safe alongside the
-  // instance used in GameManagement/GamePlanner — dequeueAll() is atomic.
+  // instance used in GameManagement/GamePlanner — claimPending() hands each
+  // queued item to one drain at a time.
   useOfflineMutations();
 
   // Drain the offline queue on startup and reconnect for all model types
@@ -469,7 +469,7 @@ describe("BugReport – debugContext", () => {
     const stepsTextarea = screen.getByRole("textbox", { name: /steps to reproduce/i });
     const value = (stepsTextarea as HTMLTextAreaElement).value;
     expect(value).toContain('Rotation interval: 10 min');
-    expect(value).toContain('Half length: 30 min');
+    expect(value).toContain('Period length: 30 min');
     expect(value).toContain('Max players on field: 7');
     expect(value).toContain('Available players: 9');
   });
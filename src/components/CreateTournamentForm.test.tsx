@@ -0,0 +1,86 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const { mockCreateTournament } = vi.hoisted(() => ({
+  mockCreateTournament: vi.fn(),
+}));
+
+vi.mock('../services/tournamentService', () => ({
+  createTournament: mockCreateTournament,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showWarning: vi.fn(),
+  showSuccess: vi.fn(),
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  handleApiError: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: { TOURNAMENT_CREATED: { category: 'tournament', action: 'create' } },
+}));
+
+import { CreateTournamentForm } from './CreateTournamentForm';
+import { showWarning } from '../utils/toast';
+
+const teams = [{ id: 'team-1', name: 'Eagles', coaches: ['coach-2'] }] as any[];
+
+const renderForm = () => {
+  const onCreated = vi.fn();
+  render(<CreateTournamentForm teams={teams} currentUserId="coach-1" onCreated={onCreated} onCancel={vi.fn()} />);
+  return { onCreated };
+};
+
+describe('CreateTournamentForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCreateTournament.mockResolvedValue({ id: 'tournament-1', name: 'Fall Cup' });
+  });
+
+  it('requires a name, a team and at least one opponent', async () => {
+    const user = userEvent.setup();
+    renderForm();
+
+    await user.click(screen.getByText('Create Tournament'));
+    expect(showWarning).toHaveBeenCalledWith('Please enter a tournament name and select a team');
+
+    await user.selectOptions(screen.getByLabelText('Team'), 'team-1');
+    await user.type(screen.getByPlaceholderText('Tournament Name *'), 'Fall Cup');
+    await user.click(screen.getByText('Create Tournament'));
+    expect(showWarning).toHaveBeenCalledWith('Add at least one game with an opponent');
+    expect(mockCreateTournament).not.toHaveBeenCalled();
+  });
+
+  it('creates the tournament with every filled-in game', async () => {
+    const user = userEvent.setup();
+    const { onCreated } = renderForm();
+
+    await user.selectOptions(screen.getByLabelText('Team'), 'team-1');
+    await user.type(screen.getByPlaceholderText('Tournament Name *'), 'Fall Cup');
+    await user.type(screen.getByPlaceholderText('Opponent 1'), 'Hawks');
+    await user.type(screen.getByPlaceholderText('Opponent 2'), 'Owls');
+    await user.click(screen.getByText('+ Add Game'));
+    await user.type(screen.getByPlaceholderText('Opponent 4'), 'Falcons');
+    const stageInputs = screen.getAllByPlaceholderText('Stage (e.g. Pool A, Semi-final)');
+    await user.clear(stageInputs[3]);
+    await user.type(stageInputs[3], 'Final');
+    await user.click(screen.getByText('Create Tournament'));
+
+    await waitFor(() => expect(onCreated).toHaveBeenCalledWith(expect.objectContaining({ id: 'tournament-1' })));
+    expect(mockCreateTournament).toHaveBeenCalledWith(
+      'team-1',
+      expect.objectContaining({ name: 'Fall Cup', format: 'pool' }),
+      [
+        expect.objectContaining({ opponent: 'Hawks', tournamentStage: 'Pool' }),
+        expect.objectContaining({ opponent: 'Owls', tournamentStage: 'Pool' }),
+        expect.objectContaining({ opponent: 'Falcons', tournamentStage: 'Final' }),
+      ],
+      ['coach-2', 'coach-1'],
+    );
+  });
+});
@@ -0,0 +1,192 @@
+import { useState } from 'react';
+import type { Team, Tournament, TournamentFormat } from '../types/schema';
+import { createTournament } from '../services/tournamentService';
+import { showWarning, showSuccess } from '../utils/toast';
+import { handleApiError } from '../utils/errorHandler';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+
+interface GameRow {
+  opponent: string;
+  gameDate: string; // datetime-local value
+  isHome: boolean;
+  stage: string;
+}
+
+const emptyRow = (stage = ''): GameRow => ({ opponent: '', gameDate: '', isHome: true, stage });
+
+interface CreateTournamentFormProps {
+  teams: Team[];
+  currentUserId: string | undefined;
+  onCreated: (tournament: Tournament) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Creates a tournament together with all of its games, replacing one
+ * "Schedule New Game" round trip per game on tournament weekends.
+ */
+export function CreateTournamentForm({ teams, currentUserId, onCreated, onCancel }: CreateTournamentFormProps) {
+  const [teamId, setTeamId] = useState('');
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [location, setLocation] = useState('');
+  const [format, setFormat] = useState<TournamentFormat>('pool');
+  const [rows, setRows] = useState<GameRow[]>([emptyRow('Pool'), emptyRow('Pool'), emptyRow('Pool')]);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const updateRow = (index: number, changes: Partial<GameRow>) => {
+    setRows(prev => prev.map((row, i) => (i === index ? { ...row, ...changes } : row)));
+  };
+
+  const handleCreate = async () => {
+    if (!currentUserId) {
+      showWarning('User not found. Please refresh.');
+      return;
+    }
+    const team = teams.find(t => t.id === teamId);
+    const games = rows.filter(row => row.opponent.trim());
+    if (!team || !name.trim()) {
+      showWarning('Please enter a tournament name and select a team');
+      return;
+    }
+    if (games.length === 0) {
+      showWarning('Add at least one game with an opponent');
+      return;
+    }
+
+    // Same stale-team guard as scheduling a single game
+    const coaches = (team.coaches ?? []).filter((c): c is string => !!c);
+    if (!coaches.includes(currentUserId)) coaches.push(currentUserId);
+
+    setIsSaving(true);
+    try {
+      const tournament = await createTournament(
+        team.id,
+        { name, startDate, endDate, location, format },
+        games.map(row => ({
+          opponent: row.opponent,
+          isHome: row.isHome,
+          gameDate: row.gameDate ? new Date(row.gameDate).toISOString() : undefined,
+          tournamentStage: row.stage,
+        })),
+        coaches,
+      );
+      trackEvent(AnalyticsEvents.TOURNAMENT_CREATED.category, AnalyticsEvents.TOURNAMENT_CREATED.action);
+      showSuccess(`${tournament.name} created with ${games.length} game${games.length === 1 ? '' : 's'}`);
+      onCreated(tournament);
+    } catch (error) {
+      handleApiError(error, 'Failed to create tournament');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="create-form">
+      <h3>New Tournament</h3>
+      <select value={teamId} onChange={(e) => setTeamId(e.target.value)} aria-label="Team">
+        <option value="">Select Team *</option>
+        {teams.map((team) => (
+          <option key={team.id} value={team.id}>
+            {team.name}
+          </option>
+        ))}
+      </select>
+      <input
+        type="text"
+        placeholder="Tournament Name *"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={100}
+      />
+      <div className="tournament-form__dates">
+        <label>
+          Starts
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </label>
+        <label>
+          Ends
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </label>
+      </div>
+      <input
+        type="text"
+        placeholder="Location"
+        value={location}
+        onChange={(e) => setLocation(e.target.value)}
+        maxLength={100}
+      />
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as TournamentFormat)}
+        aria-label="Format"
+      >
+        <option value="pool">Pool play</option>
+        <option value="bracket">Knockout bracket</option>
+      </select>
+
+      <div className="tournament-form__games">
+        <h4>Games</h4>
+        {rows.map((row, index) => (
+          <div key={index} className="tournament-form__game-row">
+            <input
+              type="text"
+              placeholder={`Opponent ${index + 1}`}
+              value={row.opponent}
+              onChange={(e) => updateRow(index, { opponent: e.target.value })}
+              maxLength={100}
+            />
+            <input
+              type="datetime-local"
+              value={row.gameDate}
+              onChange={(e) => updateRow(index, { gameDate: e.target.value })}
+              aria-label={`Kick-off ${index + 1}`}
+            />
+            <input
+              type="text"
+              placeholder="Stage (e.g. Pool A, Semi-final)"
+              value={row.stage}
+              onChange={(e) => updateRow(index, { stage: e.target.value })}
+              maxLength={50}
+            />
+            <label className="checkbox-label">
+              <input
+                type="checkbox"
+                checked={row.isHome}
+                onChange={(e) => updateRow(index, { isHome: e.target.checked })}
+              />
+              Home
+            </label>
+            {rows.length > 1 && (
+              <button
+                type="button"
+                className="btn-link"
+                onClick={() => setRows(prev => prev.filter((_, i) => i !== index))}
+                aria-label={`Remove game ${index + 1}`}
+              >
+                Remove
+              </button>
+            )}
+          </div>
+        ))}
+        <button
+          type="button"
+          className="btn-secondary"
+          onClick={() => setRows(prev => [...prev, emptyRow(prev[prev.length - 1]?.stage ?? '')])}
+        >
+          + Add Game
+        </button>
+      </div>
+
+      <div className="form-actions">
+        <button onClick={handleCreate} className="btn-primary" disabled={isSaving}>
+          {isSaving ? 'Creating…' : 'Create Tournament'}
+        </button>
+        <button onClick={onCancel} className="btn-secondary" disabled={isSaving}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
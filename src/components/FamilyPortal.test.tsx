@@ -0,0 +1,87 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { FamilyPortal } from './FamilyPortal';
+import type { FamilyPortalTeam } from '../services/familyPortalService';
+
+const { mockFetchFamilyPortal, mockLogError } = vi.hoisted(() => ({
+  mockFetchFamilyPortal: vi.fn(),
+  mockLogError: vi.fn(),
+}));
+
+vi.mock('../services/familyPortalService', () => ({
+  fetchFamilyPortal: (...args: unknown[]) => mockFetchFamilyPortal(...args),
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  logError: (...args: unknown[]) => mockLogError(...args),
+}));
+
+const team: FamilyPortalTeam = {
+  teamId: 'team-1',
+  teamName: 'Eagles',
+  children: [{ playerId: 'player-2', firstName: 'Sam', lastName: 'Rivera', playerNumber: 7 }],
+  upcomingGames: [
+    {
+      gameId: 'game-next',
+      opponent: 'Hawks',
+      isHome: true,
+      gameDate: '2099-05-01T10:00:00.000Z',
+      status: 'scheduled',
+      ourScore: null,
+      opponentScore: null,
+      shootoutOurScore: null,
+      shootoutOpponentScore: null,
+      children: [],
+    },
+  ],
+  completedGames: [
+    {
+      gameId: 'game-old',
+      opponent: 'Rapids',
+      isHome: false,
+      gameDate: '2024-04-01T10:00:00.000Z',
+      status: 'completed',
+      ourScore: 2,
+      opponentScore: 1,
+      shootoutOurScore: null,
+      shootoutOpponentScore: null,
+      children: [{ playerId: 'player-2', playTimeSeconds: 1200, goals: 1, assists: 0 }],
+    },
+  ],
+};
+
+describe('FamilyPortal', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('shows upcoming games, results and the child minutes', async () => {
+    mockFetchFamilyPortal.mockResolvedValue([team]);
+
+    render(<FamilyPortal />);
+
+    expect(await screen.findByRole('heading', { name: 'Eagles' })).toBeInTheDocument();
+    expect(screen.getByText('Following: #7 Sam')).toBeInTheDocument();
+    expect(screen.getByText('vs Hawks')).toBeInTheDocument();
+    expect(screen.getByText(/2 - 1 vs Rapids/)).toBeInTheDocument();
+    expect(screen.getByText('W')).toBeInTheDocument();
+    expect(screen.getByText(/#7 Sam: 20m played/)).toBeInTheDocument();
+  });
+
+  it('shows an empty state when the user follows no players', async () => {
+    mockFetchFamilyPortal.mockResolvedValue([]);
+
+    render(<FamilyPortal />);
+
+    expect(await screen.findByText("You're not following any players yet.")).toBeInTheDocument();
+  });
+
+  it('shows an error state when loading fails', async () => {
+    mockFetchFamilyPortal.mockRejectedValue(new Error('boom'));
+
+    render(<FamilyPortal />);
+
+    expect(await screen.findByText(/Could not load the family view/)).toBeInTheDocument();
+    expect(mockLogError).toHaveBeenCalledWith('FamilyPortal.load', expect.any(Error));
+  });
+});
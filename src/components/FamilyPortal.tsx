@@ -0,0 +1,165 @@
+import { useEffect, useState } from 'react';
+import { logError } from '../utils/errorHandler';
+import { formatPlayTime } from '../utils/playTimeCalculations';
+import { formatShootoutResult, getResultLabel } from '../utils/gameCalculations';
+import {
+  fetchFamilyPortal,
+  type FamilyPortalChild,
+  type FamilyPortalGame,
+  type FamilyPortalTeam,
+} from '../services/familyPortalService';
+
+function formatGameDate(iso: string | null): string {
+  if (!iso) return 'Date TBD';
+  const date = new Date(iso);
+  if (isNaN(date.getTime())) return 'Date TBD';
+  return date.toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatResultScore(game: FamilyPortalGame): string {
+  const shootout = formatShootoutResult(game);
+  return `${game.ourScore} - ${game.opponentScore}${shootout ? ` (${shootout})` : ''}`;
+}
+
+function childLabel(child: FamilyPortalChild | undefined): string {
+  if (!child) return 'Player';
+  return child.playerNumber != null ? `#${child.playerNumber} ${child.firstName}` : child.firstName;
+}
+
+interface FamilyTeamSectionProps {
+  team: FamilyPortalTeam;
+}
+
+function FamilyTeamSection({ team }: FamilyTeamSectionProps) {
+  const childById = new Map(team.children.map((child) => [child.playerId, child]));
+
+  return (
+    <section className="family-team" aria-label={team.teamName}>
+      <h2 className="family-team-name">{team.teamName}</h2>
+      <p className="family-team-children">
+        Following: {team.children.map((child) => childLabel(child)).join(', ')}
+      </p>
+
+      <div className="games-group">
+        <h3 className="games-group-title">Upcoming Games</h3>
+        {team.upcomingGames.length === 0 ? (
+          <p className="empty-message">No upcoming games scheduled.</p>
+        ) : (
+          team.upcomingGames.map((game) => (
+            <div key={game.gameId} className="game-card">
+              <div className="game-card-content">
+                <div className="game-info">
+                  <h4>vs {game.opponent}</h4>
+                  <p className="game-meta">
+                    {game.isHome ? '🏠 Home' : '✈️ Away'} • {formatGameDate(game.gameDate)}
+                  </p>
+                  {game.ourScore !== null && (
+                    <p className="family-live-score">
+                      ⚽ In progress: {game.ourScore} - {game.opponentScore}
+                    </p>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      <div className="games-group">
+        <h3 className="games-group-title">Results</h3>
+        {team.completedGames.length === 0 ? (
+          <p className="empty-message">No completed games yet.</p>
+        ) : (
+          team.completedGames.map((game) => (
+            <div key={game.gameId} className="game-card completed-game">
+              <div className="game-card-content">
+                <div className="game-info">
+                  <h4>
+                    <span className="family-result">{getResultLabel(game)}</span>{' '}
+                    {formatResultScore(game)} vs {game.opponent}
+                  </h4>
+                  <p className="game-meta">
+                    {game.isHome ? '🏠 Home' : '✈️ Away'} • {formatGameDate(game.gameDate)}
+                  </p>
+                  {game.children.map((stats) => (
+                    <p key={stats.playerId} className="family-child-stats">
+                      {childLabel(childById.get(stats.playerId))}: {formatPlayTime(stats.playTimeSeconds, 'long')} played
+                      {stats.goals > 0 && ` • ⚽ ${stats.goals}`}
+                      {stats.assists > 0 && ` • 🅰️ ${stats.assists}`}
+                    </p>
+                  ))}
+                </div>
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+    </section>
+  );
+}
+
+/**
+ * Read-only family view for users who joined through a PARENT invitation.
+ * All data comes from the getFamilyPortal query; nothing here can write.
+ */
+export function FamilyPortal() {
+  const [teams, setTeams] = useState<FamilyPortalTeam[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    fetchFamilyPortal()
+      .then((result) => {
+        if (!cancelled) setTeams(result);
+      })
+      .catch((error) => {
+        logError('FamilyPortal.load', error);
+        if (!cancelled) setLoadError(true);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  if (loading) {
+    return (
+      <div style={{ padding: '2rem', textAlign: 'center' }}>
+        <p>Loading...</p>
+      </div>
+    );
+  }
+
+  if (loadError) {
+    return (
+      <div className="empty-state">
+        <p>Could not load the family view. Check your connection and try again.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="family-portal">
+      <h1 className="family-portal-title">👪 Family View</h1>
+      {teams.length === 0 ? (
+        <div className="empty-state">
+          <p>You're not following any players yet.</p>
+          <p>Ask your coach to send you a parent invitation.</p>
+        </div>
+      ) : (
+        teams.map((team) => <FamilyTeamSection key={team.teamId} team={team} />)
+      )}
+    </div>
+  );
+}
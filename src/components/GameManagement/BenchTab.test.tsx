@@ -458,4 +458,23 @@ describe("BenchTab", () => {
     });
     expect(mockShowSuccess).toHaveBeenCalledWith("Player status updated.");
   });
+
+  it("lists league rule alerts above the bench", () => {
+    render(
+      <BenchTab
+        {...defaultProps}
+        players={[makePlayer("p1", 7, "Jordan")] as any}
+        leagueRuleAlerts={[{
+          type: "min-play",
+          playerId: "p1",
+          deadlineSeconds: 2280,
+          message: "#7 Jordan will miss the 50% minimum unless subbed in by 38'",
+        }]}
+      />,
+    );
+
+    expect(screen.getByRole("status", { name: "League rule alerts" })).toHaveTextContent(
+      "#7 Jordan will miss the 50% minimum unless subbed in by 38'",
+    );
+  });
 });
@@ -10,6 +10,7 @@ import type { GameMutationInput } from "../../hooks/useOfflineMutations";
 import { trackEvent, AnalyticsEvents } from "../../utils/analytics";
 import { showError, showInfo, showSuccess, showWarning } from "../../utils/toast";
 import { getPlayerAvailabilityStatus } from "../../utils/availabilityUtils";
+import type { LeagueRuleAlert } from "../../utils/leagueRuleUtils";
 import type {
   PlayerWithRoster,
   LineupAssignment,
@@ -29,6 +30,7 @@ interface BenchTabProps {
   mutations?: GameMutationInput;
   isOnline?: boolean;
   allowSubstitution?: boolean;
+  leagueRuleAlerts?: LeagueRuleAlert[];
   onInjuryMutationPendingChange?: (isPending: boolean) => void;
   onSelectPlayer: (playerId: string) => void;
 }
@@ -78,6 +80,7 @@ export function BenchTab({
   mutations,
   isOnline = navigator.onLine,
   allowSubstitution = true,
+  leagueRuleAlerts = [],
   onInjuryMutationPendingChange,
   onSelectPlayer,
 }: BenchTabProps) {
@@ -321,6 +324,14 @@ export function BenchTab({
   return (
     <div className="bench-tab">
       <div className="sr-only" aria-live="polite">{announcement}</div>
+      {leagueRuleAlerts.length > 0 && (
+        <div className="bench-tab__rule-alerts" role="status" aria-label="League rule alerts">
+          {leagueRuleAlerts.map((alert) => (
+            <p key={`${alert.type}-${alert.playerId}`} className="bench-tab__rule-alert">⚠️ {alert.message}</p>
+          ))}
+        </div>
+      )}
+
       {benchPlayers.length === 0 && (
         <p className="empty-state" style={{ padding: "1rem" }}>
           No bench players available.
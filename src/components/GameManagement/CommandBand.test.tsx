@@ -91,6 +91,29 @@ describe("CommandBand", () => {
     expect(screen.getByText("2nd Half")).toBeInTheDocument();
   });
 
+  // ── Added time ───────────────────────────────────────────────────────────
+  it("holds the clock at the end of the half and shows added time separately", () => {
+    const { container } = render(
+      <CommandBand
+        {...baseProps}
+        currentTime={1935}
+        gameState={makeGameState({ addedTimeMode: true }) as any}
+      />
+    );
+    expect(container.querySelector(".command-band__timer")?.textContent).toBe("30:00+2:15");
+  });
+
+  it("shows the second half on the nominal clock after first-half added time", () => {
+    const { container } = render(
+      <CommandBand
+        {...baseProps}
+        currentTime={2520}
+        gameState={makeGameState({ currentHalf: 2, addedTimeSeconds: [120] }) as any}
+      />
+    );
+    expect(container.querySelector(".command-band__timer")?.textContent).toBe("40:00");
+  });
+
   // ── Pause / Resume ───────────────────────────────────────────────────────
   it("shows Pause button when in-progress and isRunning is true", () => {
     render(<CommandBand {...baseProps} isRunning={true} />);
@@ -190,6 +213,30 @@ describe("CommandBand", () => {
     expect(screen.getByText(/Final/)).toBeInTheDocument();
   });
 
+  it("shows the Penalties badge and live tally during a shootout", () => {
+    render(
+      <CommandBand
+        {...baseProps}
+        gameState={makeGameState({ status: "shootout", ourScore: 1, opponentScore: 1 }) as any}
+        shootoutScore={{ ourScore: 3, opponentScore: 2 }}
+      />
+    );
+    expect(screen.getByText("Penalties")).toBeInTheDocument();
+    expect(screen.getByText("(3–2 pens)")).toBeInTheDocument();
+  });
+
+  it("shows the shootout result once the game is completed", () => {
+    render(
+      <CommandBand
+        {...baseProps}
+        gameState={makeGameState({
+          status: "completed", ourScore: 2, opponentScore: 2, shootoutOurScore: 4, shootoutOpponentScore: 5,
+        }) as any}
+      />
+    );
+    expect(screen.getByText("(4–5 pens)")).toBeInTheDocument();
+  });
+
   // ── Rotation badge ───────────────────────────────────────────────────────
   it("shows rotation badge instead of Live when in-progress with a game plan and pending rotation", () => {
     render(
@@ -1,4 +1,7 @@
 import { formatPlayTime } from "../../utils/playTimeCalculations";
+import { formatBreakLabel, formatPeriodLabel, isExtraTimePeriod } from "../../utils/periodUtils";
+import { getAddedTimeInPeriod, toNominalSeconds } from "../../utils/gameTimeUtils";
+import { formatShootoutResult } from "../../utils/gameCalculations";
 import type { Game, GamePlan, PlannedRotation } from "./types";
 
 interface CommandBandProps {
@@ -7,12 +10,15 @@ interface CommandBandProps {
   currentTime: number;
   isRunning: boolean;
   halfLengthSeconds: number;
+  periodCount?: number;
   gamePlan: GamePlan | null;
   plannedRotations: PlannedRotation[];
   onPauseTimer: () => void;
   onResumeTimer: () => void;
   onShowRotationModal: () => void;
   onAddNote?: (trigger: HTMLElement | null) => void;
+  /** Live tally while a penalty shootout is in progress */
+  shootoutScore?: { ourScore: number; opponentScore: number } | null;
 }
 
 export function CommandBand({
@@ -21,16 +27,27 @@ export function CommandBand({
   currentTime,
   isRunning,
   halfLengthSeconds,
+  periodCount = 2,
   gamePlan,
   plannedRotations,
   onPauseTimer,
   onResumeTimer,
   onShowRotationModal,
   onAddNote,
+  shootoutScore,
 }: CommandBandProps) {
+  const currentPeriod = gameState.currentHalf ?? 1;
+  const nominalTime = toNominalSeconds(currentTime, currentPeriod, gameState.addedTimeSeconds);
+  const addedTime = getAddedTimeInPeriod(currentTime, currentPeriod, {
+    periodLengthSeconds: halfLengthSeconds,
+    addedTime: gameState.addedTimeSeconds,
+    periodCount,
+    extraTimeLengthSeconds: (gameState.extraTimeLengthMinutes ?? 0) * 60,
+  });
+
   const getNextRotation = (): PlannedRotation | null => {
     if (!gamePlan || plannedRotations.length === 0) return null;
-    const currentMinutes = Math.floor(currentTime / 60);
+    const currentMinutes = Math.floor(nominalTime / 60);
     return (
       plannedRotations.find(
         (r) =>
@@ -41,7 +58,7 @@ export function CommandBand({
 
   const nextRotation = getNextRotation();
   const minutesUntilRotation = nextRotation
-    ? nextRotation.gameMinute - Math.floor(currentTime / 60)
+    ? nextRotation.gameMinute - Math.floor(nominalTime / 60)
     : null;
 
   const renderRightCell = () => {
@@ -91,7 +108,14 @@ export function CommandBand({
     if (gameState.status === "halftime") {
       return (
         <span className="command-band__status-badge command-band__status-halftime">
-          Halftime
+          {formatBreakLabel(gameState.currentHalf ?? 1, periodCount)}
+        </span>
+      );
+    }
+    if (gameState.status === "shootout") {
+      return (
+        <span className="command-band__status-badge command-band__status-halftime">
+          Penalties
         </span>
       );
     }
@@ -109,8 +133,13 @@ export function CommandBand({
     );
   };
 
-  const halfLabel =
-    gameState.currentHalf === 2 ? "2nd Half" : "1st Half";
+  const halfLabel = formatPeriodLabel(gameState.currentHalf ?? 1, periodCount);
+  const periodLengthSeconds = isExtraTimePeriod(currentPeriod, periodCount)
+    ? (gameState.extraTimeLengthMinutes ?? 0) * 60
+    : halfLengthSeconds;
+  const shootoutLabel = shootoutScore
+    ? `${shootoutScore.ourScore}–${shootoutScore.opponentScore} pens`
+    : formatShootoutResult(gameState);
 
   return (
     <div className="command-band">
@@ -132,13 +161,19 @@ export function CommandBand({
           <div className="command-band__score-label">
             vs {gameState.opponent}
           </div>
+          {shootoutLabel && (
+            <div className="command-band__shootout">({shootoutLabel})</div>
+          )}
         </div>
       </div>
 
       {/* Center: timer */}
       <div className="command-band__center">
         <div className="command-band__timer">
-          {formatPlayTime(currentTime, "short")}
+          {formatPlayTime(nominalTime - addedTime, "short")}
+          {addedTime > 0 && (
+            <span className="command-band__added-time">+{formatPlayTime(addedTime, "short")}</span>
+          )}
         </div>
         <div className="command-band__timer-meta">
           <span className="command-band__half">{halfLabel}</span>
@@ -153,7 +188,7 @@ export function CommandBand({
           )}
         </div>
         <div className="command-band__time-limit">
-          / {formatPlayTime(halfLengthSeconds, "short")}
+          / {formatPlayTime(periodLengthSeconds, "short")}
         </div>
       </div>
 
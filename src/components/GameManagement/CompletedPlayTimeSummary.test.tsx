@@ -1,7 +1,7 @@
 import { describe, it, expect } from "vitest";
 import { render, screen } from "@testing-library/react";
 import { CompletedPlayTimeSummary } from "./CompletedPlayTimeSummary";
-import type { PlayerWithRoster, PlayTimeRecord } from "./types";
+import type { Goal, PlayerWithRoster, PlayTimeRecord } from "./types";
 
 // ---------------------------------------------------------------------------
 // Test data helpers
@@ -182,4 +182,32 @@ describe("CompletedPlayTimeSummary", () => {
     expect(rows[1]).toHaveTextContent("Alice Smith");
     expect(rows[2]).toHaveTextContent("Null Number");
   });
+
+  it("shows each player's plus/minus from goals scored while they were on", () => {
+    const players = [
+      makePlayer("p1", 5, "Alice", "Smith"),
+      makePlayer("p2", 7, "Bob", "Jones"),
+    ];
+    const records = [
+      makeRecord("r1", "p1", 0, 1800),
+      makeRecord("r2", "p2", 900, 1800),
+    ];
+    const goals = [
+      { id: "g1", gameId: "game-1", gameSeconds: 300, scoredByUs: true },
+      { id: "g2", gameId: "game-1", gameSeconds: 1200, scoredByUs: false },
+      { id: "g3", gameId: "game-1", gameSeconds: 1500, scoredByUs: false },
+    ] as Goal[];
+    render(
+      <CompletedPlayTimeSummary
+        players={players}
+        playTimeRecords={records}
+        gameEndSeconds={1800}
+        goals={goals}
+      />
+    );
+    const rows = screen.getAllByRole("row");
+    expect(rows[0]).toHaveTextContent("+/-");
+    expect(rows[1]).toHaveTextContent("−1");
+    expect(rows[2]).toHaveTextContent("−2");
+  });
 });
@@ -1,16 +1,19 @@
-import type { PlayerWithRoster, PlayTimeRecord } from "./types";
+import type { Goal, PlayerWithRoster, PlayTimeRecord } from "./types";
 import { calculatePlayerPlayTime, formatPlayTime } from "../../utils/playTimeCalculations";
+import { calculatePlayerPlusMinus, formatPlusMinus } from "../../utils/plusMinusCalculations";
 
 interface CompletedPlayTimeSummaryProps {
   players: PlayerWithRoster[];
   playTimeRecords: PlayTimeRecord[];
   gameEndSeconds: number;
+  goals?: Goal[];
 }
 
 export function CompletedPlayTimeSummary({
   players,
   playTimeRecords,
   gameEndSeconds,
+  goals = [],
 }: CompletedPlayTimeSummaryProps) {
   // Normalize records: treat null/undefined endGameSeconds as gameEndSeconds
   const normalizedRecords: PlayTimeRecord[] = playTimeRecords.map((r) => {
@@ -57,12 +60,20 @@ export function CompletedPlayTimeSummary({
               <th scope="col" className="completed-playtime-summary__col--time">
                 Time
               </th>
+              <th
+                scope="col"
+                className="completed-playtime-summary__col--plus-minus"
+                title="Goals for minus goals against while on the field"
+              >
+                +/-
+              </th>
             </tr>
           </thead>
           <tbody>
             {sortedPlayers.map((player) => {
               const seconds = calculatePlayerPlayTime(player.id, normalizedRecords);
               const hasTime = seconds > 0;
+              const { plusMinus } = calculatePlayerPlusMinus(player.id, goals, normalizedRecords);
               return (
                 <tr
                   key={player.id}
@@ -75,6 +86,9 @@ export function CompletedPlayTimeSummary({
                   <td className="completed-playtime-summary__col--time">
                     {hasTime ? formatPlayTime(seconds, "long") : "—"}
                   </td>
+                  <td className="completed-playtime-summary__col--plus-minus">
+                    {hasTime ? formatPlusMinus(plusMinus) : ""}
+                  </td>
                 </tr>
               );
             })}
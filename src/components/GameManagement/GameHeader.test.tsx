@@ -45,6 +45,21 @@ describe("GameHeader", () => {
     expect(screen.getAllByText("0")).toHaveLength(2);
   });
 
+  it("shows the penalty shootout result for a level game", () => {
+    render(
+      <GameHeader
+        gameState={makeGameState({ ourScore: 1, opponentScore: 1, shootoutOurScore: 4, shootoutOpponentScore: 3 }) as any}
+        onBack={() => {}}
+      />
+    );
+    expect(screen.getByText("(4–3 pens)")).toBeInTheDocument();
+  });
+
+  it("does not show a shootout result when there was none", () => {
+    render(<GameHeader gameState={makeGameState() as any} onBack={() => {}} />);
+    expect(screen.queryByText(/pens/)).not.toBeInTheDocument();
+  });
+
   it("calls onBack when back button clicked", async () => {
     const user = userEvent.setup();
     const onBack = vi.fn();
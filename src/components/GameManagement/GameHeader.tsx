@@ -1,3 +1,4 @@
+import { formatShootoutResult } from "../../utils/gameCalculations";
 import type { Game } from "./types";
 
 interface GameHeaderProps {
@@ -6,6 +7,8 @@ interface GameHeaderProps {
 }
 
 export function GameHeader({ gameState, onBack }: GameHeaderProps) {
+  const shootoutResult = formatShootoutResult(gameState);
+
   return (
     <>
       <div className="game-header">
@@ -32,6 +35,7 @@ export function GameHeader({ gameState, onBack }: GameHeaderProps) {
           <div className="score">{gameState.opponentScore || 0}</div>
         </div>
       </div>
+      {shootoutResult && <div className="score-shootout">({shootoutResult})</div>}
     </>
   );
 }
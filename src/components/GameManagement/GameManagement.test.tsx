@@ -9,6 +9,7 @@ import { GameManagement } from "./GameManagement";
 import type { PlannedSubstitution } from "../../services/rotationPlannerService";
 import { useWakeLock } from "../../hooks/useWakeLock";
 import { useGameNotification } from "../../hooks/useGameNotification";
+import { prefetchGameSummary } from "../../services/gameSummaryService";
 
 // ---------------------------------------------------------------------------
 // Hoisted Amplify mock functions – must use vi.hoisted so they are available
@@ -119,6 +120,7 @@ vi.mock("./LineupPanel", () => ({
   }),
 }));
 
+vi.mock("./GameRecapPanel", () => ({ GameRecapPanel: () => <div data-testid="game-recap-panel" /> }));
 vi.mock("./CompletedPlayTimeSummary", () => ({
   CompletedPlayTimeSummary: () => <div data-testid="completed-play-time-summary" />,
 }));
@@ -143,6 +145,10 @@ vi.mock("./hooks/useGameSubscriptions", () => ({
   useGameSubscriptions: mockUseGameSubscriptions,
 }));
 vi.mock("./hooks/useGameTimer", () => ({ useGameTimer: vi.fn().mockReturnValue({ resetAnchor: vi.fn() }) }));
+vi.mock("../../hooks/useGameReadCache", () => ({
+  useGameReadCache: () => ({ isOnline: true, savedAt: null }),
+}));
+
 vi.mock("../../hooks/useOfflineMutations", () => ({
   useOfflineMutations: vi.fn().mockReturnValue({
     mutations: {
@@ -156,6 +162,10 @@ vi.mock("../../hooks/useOfflineMutations", () => ({
       createGoal:             vi.fn().mockResolvedValue(undefined),
       deleteGoal:             vi.fn().mockResolvedValue(undefined),
       updateGoal:             vi.fn().mockResolvedValue(undefined),
+      createShootoutKick:     vi.fn().mockResolvedValue(undefined),
+      deleteShootoutKick:     vi.fn().mockResolvedValue(undefined),
+      createGameEvent:        vi.fn().mockResolvedValue(undefined),
+      deleteGameEvent:        vi.fn().mockResolvedValue(undefined),
       createGameNote:         (...args: unknown[]) => mockCreateGameNote(...args),
       updateGameNote:         (...args: unknown[]) => mockUpdateGameNote(...args),
       deleteGameNote:         (...args: unknown[]) => mockDeleteGameNote(...args),
@@ -167,6 +177,10 @@ vi.mock("../../hooks/useOfflineMutations", () => ({
     isOnline:     true,
     pendingCount: 0,
     isSyncing:    false,
+    deadLetterCount: 0,
+    conflicts:    [],
+    resolveConflict: vi.fn().mockResolvedValue(undefined),
+    syncNow:      vi.fn().mockResolvedValue(undefined),
   }),
 }));
 vi.mock("../../hooks/useTeamData", () => ({
@@ -204,6 +218,10 @@ vi.mock("../../utils/toast", () => ({
 vi.mock("../../utils/errorHandler",  () => ({ handleApiError: vi.fn() }));
 vi.mock("../../utils/gameTimeUtils", () => ({
   formatGameTimeDisplay: vi.fn().mockReturnValue("30:00"),
+  toNominalSeconds: (seconds: number) => seconds,
+  getAddedTimeInPeriod: () => 0,
+  getGameClock: () => ({ periodLengthSeconds: 1800 }),
+  recordAddedTime: vi.fn().mockReturnValue([0]),
 }));
 vi.mock("../ConfirmModal", () => ({
   useConfirm: () => vi.fn().mockResolvedValue(true),
@@ -215,9 +233,13 @@ vi.mock("../../services/substitutionService", () => ({
 vi.mock("../../services/cascadeDeleteService", () => ({
   deleteGameCascade: vi.fn().mockResolvedValue(undefined),
 }));
+vi.mock("../../services/gameSummaryService", () => ({
+  prefetchGameSummary: vi.fn().mockResolvedValue(undefined),
+}));
 vi.mock("../../services/rotationPlannerService", () => ({
   updatePlayerAvailability: vi.fn().mockResolvedValue(undefined),
   calculateFairRotations:   vi.fn().mockReturnValue({ rotations: [], warnings: [] }),
+  parseKeeperPlan:          vi.fn().mockReturnValue(null),
 }));
 vi.mock("../../contexts/AvailabilityContext", () => ({
   AvailabilityProvider: ({ children }: any) => children,
@@ -263,6 +285,8 @@ const defaultSubscription = {
   lineup:               makeLineup(),
   playTimeRecords:      [],
   goals:                [],
+  shootoutKicks:        [],
+  gameEvents:           [],
   gameNotes:            [],
   gamePlan:             null,
   plannedRotations:     [],
@@ -1303,6 +1327,11 @@ describe("completed state play time summary", () => {
     expect(screen.getByTestId("completed-play-time-summary")).toBeInTheDocument();
   });
 
+  it("renders the recap panel when gameState.status is 'completed'", () => {
+    renderWithRouter(<GameManagement game={{ ...mockGame, status: 'completed' }} team={mockTeam} onBack={vi.fn()} />);
+    expect(screen.getByTestId("game-recap-panel")).toBeInTheDocument();
+  });
+
   it("does NOT render CompletedPlayTimeSummary when game is in-progress", () => {
     mockUseGameSubscriptions.mockReturnValue({
       ...defaultSubscription,
@@ -1323,6 +1352,64 @@ describe("completed state play time summary", () => {
     expect(link).toBeInTheDocument();
     expect(link).toHaveAttribute("href", "/reports/team-abc");
   });
+
+  it("links to the game summary and saves it for offline use once completed", () => {
+    mockUseGameSubscriptions.mockReturnValue({
+      ...defaultSubscription,
+      gameState: { ...defaultSubscription.gameState, status: 'completed' },
+    });
+    renderWithRouter(<GameManagement game={{ ...mockGame, status: 'completed' }} team={mockTeam} onBack={vi.fn()} />);
+    expect(screen.getByRole("link", { name: /view game summary/i })).toHaveAttribute("href", `/game/${mockGame.id}/summary`);
+    expect(prefetchGameSummary).toHaveBeenCalledWith(mockGame.id);
+  });
+});
+
+// ---------------------------------------------------------------------------
+// Knockout games: extra time and penalty shootout
+// ---------------------------------------------------------------------------
+describe("GameManagement – knockout games", () => {
+  const renderAt = (gameOverrides: Record<string, unknown>) => {
+    const gameState = { ...mockGame, status: 'in-progress', ...gameOverrides };
+    mockUseGameSubscriptions.mockReturnValue({ ...defaultSubscription, gameState });
+    renderWithRouter(<GameManagement game={gameState} team={mockTeam} onBack={vi.fn()} />);
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockUseTeamData.mockReturnValue({ players: [], positions: [] });
+  });
+
+  it("offers extra time when level at the end of regulation", () => {
+    renderAt({ currentHalf: 2, extraTimePeriods: 2, extraTimeLengthMinutes: 10, hasShootout: true });
+    expect(screen.getByRole("button", { name: "Go to Extra Time" })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Penalty Shootout" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "End Game" })).toBeInTheDocument();
+  });
+
+  it("ends the first extra-time period like any other break", () => {
+    renderAt({ currentHalf: 3, extraTimePeriods: 2, extraTimeLengthMinutes: 10 });
+    expect(screen.getByRole("button", { name: "End Extra Time 1" })).toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "End Game" })).not.toBeInTheDocument();
+  });
+
+  it("starts the shootout when still level after extra time", async () => {
+    const user = userEvent.setup();
+    renderAt({ currentHalf: 4, extraTimePeriods: 2, extraTimeLengthMinutes: 10, hasShootout: true });
+
+    await user.click(screen.getByRole("button", { name: "Penalty Shootout" }));
+
+    expect(mockGameUpdate).toHaveBeenCalledWith("game-1", expect.objectContaining({
+      status: 'shootout',
+      lastStartTime: null,
+    }));
+  });
+
+  it("only offers to end the game when the score is not level", () => {
+    renderAt({ currentHalf: 2, ourScore: 2, opponentScore: 1, extraTimePeriods: 2, hasShootout: true });
+    expect(screen.queryByRole("button", { name: "Go to Extra Time" })).not.toBeInTheDocument();
+    expect(screen.queryByRole("button", { name: "Penalty Shootout" })).not.toBeInTheDocument();
+    expect(screen.getByRole("button", { name: "End Game" })).toBeInTheDocument();
+  });
 });
 
 // ---------------------------------------------------------------------------
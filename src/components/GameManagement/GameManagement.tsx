@@ -6,11 +6,13 @@ import type { Schema } from "../../../amplify/data/resource";
 import { trackEvent, AnalyticsEvents } from "../../utils/analytics";
 import { showError, showSuccess, showWarning } from "../../utils/toast";
 import { handleApiError } from "../../utils/errorHandler";
-import { isoToDatetimeLocal } from "../../utils/gameTimeUtils";
+import { getGameClock, isoToDatetimeLocal, recordAddedTime, toNominalSeconds } from "../../utils/gameTimeUtils";
+import { calculateShootoutScore } from "../../utils/gameCalculations";
 import { useConfirm } from "../ConfirmModal";
 import { closeActivePlayTimeRecords } from "../../services/substitutionService";
 import { deleteGameCascade } from "../../services/cascadeDeleteService";
-import { calculateFairRotations, type PlannedSubstitution } from "../../services/rotationPlannerService";
+import { prefetchGameSummary } from "../../services/gameSummaryService";
+import { calculateFairRotations, parseKeeperPlan, type PlannedSubstitution } from "../../services/rotationPlannerService";
 import { calculatePlayerPlayTime } from "../../utils/playTimeCalculations";
 import { useTeamData } from "../../hooks/useTeamData";
 import { useOfflineMutations } from "../../hooks/useOfflineMutations";
@@ -27,10 +29,15 @@ import { PreGameNotesPanel } from "./PreGameNotesPanel";
 import { CreateEditNoteModal } from "./CreateEditNoteModal";
 import { RotationWidget } from "./RotationWidget";
 import { SubstitutionPanel } from "./SubstitutionPanel";
+import { ShootoutPanel } from "./ShootoutPanel";
 import { LineupPanel } from "./LineupPanel";
 import { CompletedPlayTimeSummary } from "./CompletedPlayTimeSummary";
+import { LeagueRuleCompliance } from "./LeagueRuleCompliance";
+import { GameRecapPanel } from "./GameRecapPanel";
 import { PlayerAvailabilityGrid } from "../PlayerAvailabilityGrid";
 import { OfflineBanner } from "../OfflineBanner";
+import { SyncConflictPanel } from "../SyncConflictPanel";
+import { OfflineDataNotice } from "../OfflineDataNotice";
 import type { Game, Team, FormationPosition, SubQueue } from "./types";
 import { AvailabilityProvider } from "../../contexts/AvailabilityContext";
 import { useHelpFab } from "../../contexts/HelpFabContext";
@@ -39,7 +46,10 @@ import { buildFlatDebugSnapshot } from "../../utils/debugUtils";
 import { isSubEffectivelyExecuted } from "../../utils/rotationConflictUtils";
 import type { GameManagementDebugContext } from "../../types/debug";
 import { useWakeLock } from "../../hooks/useWakeLock";
+import { useGameReadCache } from "../../hooks/useGameReadCache";
 import { useGameNotification } from "../../hooks/useGameNotification";
+import { formatPeriodLabel, getPeriodCount, getRotationsPerPeriod } from "../../utils/periodUtils";
+import { buildPlayedRuleCheckInput, getLeagueRuleAlerts, parseLeagueRuleProfile } from "../../utils/leagueRuleUtils";
 
 // Used only for planning operations (PlannedRotation.update) — not live-game mutations.
 const client = generateClient<Schema>();
@@ -138,6 +148,9 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
   const [editGameOpponent, setEditGameOpponent] = useState('');
   const [editGameDate, setEditGameDate] = useState('');
   const [editGameIsHome, setEditGameIsHome] = useState(true);
+  const [editGameExtraTimePeriods, setEditGameExtraTimePeriods] = useState('0');
+  const [editGameExtraTimeLength, setEditGameExtraTimeLength] = useState('');
+  const [editGameHasShootout, setEditGameHasShootout] = useState(false);
   const [isSavingGameEdit, setIsSavingGameEdit] = useState(false);
   const editFormRef = useRef<HTMLDivElement>(null);
   const editGameButtonRef = useRef<HTMLButtonElement>(null);
@@ -164,6 +177,8 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     lineup,
     playTimeRecords,
     goals,
+    shootoutKicks,
+    gameEvents,
     gameNotes,
     gamePlan,
     plannedRotations,
@@ -179,9 +194,26 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     notesRefreshKey,
   });
 
-  // Use per-game half length override when set; fall back to team default.
+  // Use per-game period length override when set; fall back to team default.
   // gameState is live-updated via observeQuery so this recomputes reactively.
   const halfLengthSeconds = (gameState.halfLengthMinutes ?? team.halfLengthMinutes ?? 30) * 60;
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const currentPeriod = gameState.currentHalf ?? 1;
+  // Game clock without added time from earlier periods; planned rotation minutes use this clock
+  const nominalTime = toNominalSeconds(currentTime, currentPeriod, gameState.addedTimeSeconds);
+  const gameClock = getGameClock(gameState, team.halfLengthMinutes, periodCount);
+  const extraTimePeriods = gameState.extraTimePeriods ?? 0;
+  // Once extra time has started, its last period replaces the regulation one
+  const lastPeriod = currentPeriod > periodCount ? periodCount + extraTimePeriods : periodCount;
+
+  // League rule warnings for the bench, re-checked as the clock runs
+  const leagueRuleProfile = useMemo(() => parseLeagueRuleProfile(team.leagueRules), [team.leagueRules]);
+  const leagueRuleAlerts = useMemo(() => {
+    if (leagueRuleProfile.rules.length === 0 || gameState.status !== 'in-progress') return [];
+    const input = buildPlayedRuleCheckInput({ players, playTimeRecords, playerAvailabilities, currentSeconds: currentTime, clock: gameClock });
+    const onFieldIds = new Set(playTimeRecords.filter(r => r.endGameSeconds == null).map(r => r.playerId));
+    return getLeagueRuleAlerts(leagueRuleProfile.rules, input, currentTime, onFieldIds);
+  }, [leagueRuleProfile, gameState.status, players, playTimeRecords, playerAvailabilities, currentTime, gameClock]);
 
   // Merged substitution queue: backend records (FIFO) plus optimistic adds, minus optimistic removes
   const substitutionQueue = useMemo<SubQueue[]>(() => {
@@ -233,7 +265,28 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
 
   // Offline-aware mutation wrapper — routes writes to IndexedDB when offline,
   // drains automatically on reconnect (fixes issue #35).
-  const { mutations, isOnline, pendingCount: pendingMutationCount, isSyncing } = useOfflineMutations();
+  // Passing the game's server version lets replay catch edits another coach made meanwhile.
+  const {
+    mutations,
+    isOnline,
+    pendingCount: pendingMutationCount,
+    isSyncing,
+    deadLetterCount,
+    conflicts: syncConflicts,
+    resolveConflict,
+    backgroundSyncReport,
+    dismissBackgroundSyncReport,
+  } = useOfflineMutations({ game: gameState });
+  const gameSyncConflicts = useMemo(
+    () => syncConflicts.filter(c => c.mutation.payload.id === game.id),
+    [syncConflicts, game.id]
+  );
+
+  // Keep this game's offline copy in step with what the page shows
+  const { savedAt: offlineCopySavedAt } = useGameReadCache(
+    game.id,
+    [gameState.updatedAt, gamePlan?.updatedAt, plannedRotations.length, lineup.length, players.length].join('|')
+  );
 
   const { setHelpContext, setDebugContext } = useHelpFab();
 
@@ -256,6 +309,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
       'scheduled':   'game-scheduled',
       'in-progress': 'game-in-progress',
       'halftime':    'game-halftime',
+      'shootout':    'game-in-progress',
       'completed':   'game-completed',
     };
     // Guard against null/undefined status (Amplify fields can be null)
@@ -382,7 +436,9 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
           .sort()
           .join('|');
 
-    const currentGameMinute = Math.floor(currentTime / 60);
+    const currentGameMinute = Math.floor(
+      toNominalSeconds(currentTime, gameState.currentHalf ?? 1, gameState.addedTimeSeconds) / 60
+    );
     const nextPlannedRotation = plannedRotations
       .filter(r => (r.gameMinute ?? -1) > currentGameMinute)
       .sort((a, b) => {
@@ -470,7 +526,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
   }, [isEditingGame]);
 
   // Wake Lock: prevent screen sleep during active game
-  const isGameActive = gameState.status === 'in-progress' || gameState.status === 'halftime';
+  const isGameActive = gameState.status === 'in-progress' || gameState.status === 'halftime' || gameState.status === 'shootout';
   useWakeLock(isGameActive);
 
   // Persistent notification: show live score in notification shade
@@ -482,6 +538,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     ourScore: gameState.ourScore ?? 0,
     opponentScore: gameState.opponentScore ?? 0,
     currentHalf: gameState.currentHalf ?? 1,
+    periodCount,
     currentTime,
   });
 
@@ -556,7 +613,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
 
     // Check for playerIn already on the live field (in-progress only, future rotations only)
     if (gameState.status === 'in-progress') {
-      const currentMinutes = Math.floor(currentTime / 60);
+      const currentMinutes = Math.floor(nominalTime / 60);
       for (const rotation of plannedRotations) {
         if (rotation.gameMinute <= currentMinutes) continue; // skip past rotations
         try {
@@ -619,6 +676,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
           playerId: p.id,
           playerNumber: p.playerNumber || 0,
           preferredPositions: p.preferredPositions,
+          positionConstraints: p.positionConstraints,
         }));
 
       // Use live lineup instead of gamePlan.startingLineup for mid-game recalculations
@@ -642,7 +700,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
 
       const halfLengthMinutes = gameState.halfLengthMinutes ?? team.halfLengthMinutes ?? 30;
       const rotationIntervalMinutes = gamePlan.rotationIntervalMinutes || 10;
-      const rotationsPerHalf = Math.max(0, Math.floor(halfLengthMinutes / rotationIntervalMinutes) - 1);
+      const rotationsPerHalf = getRotationsPerPeriod(halfLengthMinutes, rotationIntervalMinutes);
 
       const goaliePos = positions.find(p => {
         const abbr = p.abbreviation?.toUpperCase();
@@ -665,11 +723,19 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
         team.maxPlayersOnField || positions.length,
         goaliePositionId,
         undefined,
-        { rotationIntervalMinutes, halfLengthMinutes, positions, playerAvailabilities, initialPlayTimeMinutes },
+        {
+          rotationIntervalMinutes,
+          halfLengthMinutes,
+          periodCount,
+          positions,
+          playerAvailabilities,
+          initialPlayTimeMinutes,
+          keeperPlan: parseKeeperPlan(gamePlan.keeperPlan),
+        },
       );
 
       // Update only future rotations with generated substitutions
-      const currentMinutes = Math.floor(currentTime / 60);
+      const currentMinutes = Math.floor(nominalTime / 60);
       const updates = plannedRotations
         .map((rotation, index) => ({ rotation, generated: generatedRotations[index] }))
         .filter(({ rotation }) => rotation.gameMinute > currentMinutes)
@@ -693,6 +759,9 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     setEditGameOpponent(game.opponent ?? '');
     setEditGameDate(isoToDatetimeLocal(game.gameDate));
     setEditGameIsHome(game.isHome ?? true);
+    setEditGameExtraTimePeriods(String(game.extraTimePeriods ?? 0));
+    setEditGameExtraTimeLength(game.extraTimeLengthMinutes ? String(game.extraTimeLengthMinutes) : '');
+    setEditGameHasShootout(game.hasShootout ?? false);
     setIsEditingGame(true);
   }, [game]);
 
@@ -701,6 +770,12 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
       showWarning('Please enter an opponent name');
       return;
     }
+    const extraTimePeriodsNum = parseInt(editGameExtraTimePeriods, 10) || 0;
+    const extraTimeLengthNum = parseInt(editGameExtraTimeLength, 10);
+    if (extraTimePeriodsNum > 0 && !(extraTimeLengthNum > 0)) {
+      showWarning('Please enter the length of each extra-time period');
+      return;
+    }
     setIsSavingGameEdit(true);
     const timeoutId = setTimeout(() => {
       setIsSavingGameEdit(false);
@@ -712,6 +787,9 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
         opponent: editGameOpponent.trim(),
         isHome: editGameIsHome,
         gameDate: editGameDate ? new Date(editGameDate).toISOString() : null,
+        extraTimePeriods: extraTimePeriodsNum || null,
+        extraTimeLengthMinutes: extraTimePeriodsNum > 0 ? extraTimeLengthNum : null,
+        hasShootout: editGameHasShootout,
       });
       clearTimeout(timeoutId);
       trackEvent(AnalyticsEvents.GAME_UPDATED.category, AnalyticsEvents.GAME_UPDATED.action);
@@ -723,7 +801,8 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
       setIsSavingGameEdit(false);
       handleApiError(error, 'Failed to update game');
     }
-  }, [game, editGameOpponent, editGameIsHome, editGameDate]);
+  }, [game, editGameOpponent, editGameIsHome, editGameDate,
+    editGameExtraTimePeriods, editGameExtraTimeLength, editGameHasShootout]);
 
   const handleCancelGameEdit = useCallback(() => {
     setIsEditingGame(false);
@@ -858,6 +937,17 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     }
   };
 
+  const handleToggleAddedTime = async () => {
+    const addedTimeMode = !gameState.addedTimeMode;
+    setGameState(prev => ({ ...prev, addedTimeMode }));
+    try {
+      await mutations.updateGame(game.id, { addedTimeMode });
+    } catch (error) {
+      setGameState(prev => ({ ...prev, addedTimeMode: !addedTimeMode }));
+      handleApiError(error, 'Failed to update added time');
+    }
+  };
+
   const handleHalftime = async () => {
     // Guard: prevent duplicate calls from auto-trigger + manual button click
     if (halftimeInProgressRef.current) {
@@ -868,6 +958,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     setIsRunning(false);
 
     const halftimeSeconds = currentTime; // Capture current time before any async operations
+    const addedTimeSeconds = recordAddedTime(currentPeriod, halftimeSeconds, gameClock);
 
     // CRITICAL: Write 'halftime' status to DynamoDB FIRST, before the
     // potentially-slow PTR closing pass. If PTR closing throws, the game
@@ -876,9 +967,10 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
       await mutations.updateGame(game.id, {
         status: 'halftime',
         elapsedSeconds: halftimeSeconds,
+        addedTimeSeconds,
         lastStartTime: null, // Clear so stale observeQuery cannot auto-resume
       });
-      setGameState(prev => ({ ...prev, status: 'halftime', elapsedSeconds: halftimeSeconds }));
+      setGameState(prev => ({ ...prev, status: 'halftime', elapsedSeconds: halftimeSeconds, addedTimeSeconds }));
       setCurrentTime(halftimeSeconds);
       trackEvent(AnalyticsEvents.GAME_HALFTIME.category, AnalyticsEvents.GAME_HALFTIME.action);
     } catch (error) {
@@ -900,6 +992,39 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     }
   };
 
+  const handleStartShootout = async () => {
+    manuallyPausedRef.current = true; // Prevent observeQuery from auto-resuming during the transition
+    setIsRunning(false);
+
+    const shootoutSeconds = currentTime;
+    const addedTimeSeconds = recordAddedTime(currentPeriod, shootoutSeconds, gameClock);
+
+    // Status first, as in handleHalftime, so a PTR failure cannot leave the game in-progress
+    try {
+      await mutations.updateGame(game.id, {
+        status: 'shootout',
+        elapsedSeconds: shootoutSeconds,
+        addedTimeSeconds,
+        lastStartTime: null,
+      });
+      setGameState(prev => ({ ...prev, status: 'shootout', elapsedSeconds: shootoutSeconds, addedTimeSeconds }));
+      setCurrentTime(shootoutSeconds);
+    } catch (error) {
+      handleApiError(error, 'Failed to start penalty shootout');
+      manuallyPausedRef.current = false;
+      return;
+    }
+
+    // Shootout kicks are not play time, so close the field players' records now
+    try {
+      await closeActivePlayTimeRecords(playTimeRecords, shootoutSeconds, undefined, game.id, mutations);
+    } catch (error) {
+      console.warn('[handleStartShootout] PTR closing failed; handleEndGame will retry.', error);
+    } finally {
+      manuallyPausedRef.current = false;
+    }
+  };
+
   const handleApplyHalftimeSub = async (sub: PlannedSubstitution) => {
     try {
       const currentAssignment = lineup.find(l => l.positionId === sub.positionId && l.isStarter);
@@ -919,7 +1044,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
         positionId: sub.positionId,
         playerOutId: sub.playerOutId,
         playerInId: sub.playerInId,
-        half: 1,
+        half: currentPeriod,
         gameSeconds: currentTime,
         coaches: team.coaches,
       });
@@ -944,9 +1069,10 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
       }
       
       // CRITICAL: Update gameState.currentHalf BEFORE starting the timer.
-      // Without this, the timer hook may see currentHalf===1 and re-trigger
-      // auto-halftime because the DB subscription hasn't propagated yet.
-      setGameState(prev => ({ ...prev, status: 'in-progress', currentHalf: 2 }));
+      // Without this, the timer hook may see the previous period and re-trigger
+      // the auto-break because the DB subscription hasn't propagated yet.
+      const nextPeriod = currentPeriod + 1;
+      setGameState(prev => ({ ...prev, status: 'in-progress', currentHalf: nextPeriod }));
       
       // Reset halftime guard so it could theoretically fire again if needed
       halftimeInProgressRef.current = false;
@@ -997,7 +1123,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
       // Update game status - keep resumeTime to continue from halftime
       await mutations.updateGame(game.id, {
         status: 'in-progress',
-        currentHalf: 2,
+        currentHalf: nextPeriod,
         lastStartTime: startTime,
         elapsedSeconds: resumeTime,
       });
@@ -1023,10 +1149,14 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     manuallyPausedRef.current = true; // Prevent observeQuery from auto-resuming during end-game transition (fixes #49)
 
     const endGameTime = currentTime;
+    const addedTimeSeconds = recordAddedTime(currentPeriod, endGameTime, gameClock);
     setIsRunning(false);
 
-    // Compute final score from goals at time of completion
+    // Compute final score from goals at time of completion; shootout kicks are kept separate
     const { ourScore, opponentScore } = computeScoreFromGoals(goals);
+    const shootout = gameState.status === 'shootout' ? calculateShootoutScore(shootoutKicks) : null;
+    const shootoutOurScore = shootout?.ourScore ?? null;
+    const shootoutOpponentScore = shootout?.opponentScore ?? null;
 
     // CRITICAL: Write 'completed' status + score snapshot to DynamoDB FIRST, before the
     // potentially-slow PTR closing pass. If PTR closing throws, the game
@@ -1035,11 +1165,17 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
       await mutations.updateGame(game.id, {
         status: 'completed',
         elapsedSeconds: endGameTime,
+        addedTimeSeconds,
         lastStartTime: null, // Clear so stale observeQuery cannot auto-resume
         ourScore,
         opponentScore,
+        shootoutOurScore,
+        shootoutOpponentScore,
       });
-      setGameState(prev => ({ ...prev, status: 'completed', elapsedSeconds: endGameTime, ourScore, opponentScore }));
+      setGameState(prev => ({
+        ...prev, status: 'completed', elapsedSeconds: endGameTime, addedTimeSeconds, ourScore, opponentScore,
+        shootoutOurScore, shootoutOpponentScore,
+      }));
       setCurrentTime(endGameTime);
       trackEvent(AnalyticsEvents.GAME_COMPLETED.category, AnalyticsEvents.GAME_COMPLETED.action);
     } catch (error) {
@@ -1065,6 +1201,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     game,
     gameState,
     halfLengthSeconds,
+    periodCount,
     currentTime,
     setCurrentTime,
     isRunning,
@@ -1095,6 +1232,15 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
   // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [gameState.status]);
 
+  // Save the game summary on the device once everything has synced, so it
+  // can be reviewed offline on the way home
+  useEffect(() => {
+    if (gameState.status !== 'completed' || !isOnline || pendingMutationCount > 0) return;
+    prefetchGameSummary(game.id).catch((err) => {
+      console.warn('[GameManagement] Failed to save game summary for offline use:', err);
+    });
+  }, [gameState.status, isOnline, pendingMutationCount, game.id]);
+
   useEffect(() => {
     if (gameState.status === 'in-progress' && activeTab === 'notes') {
       void refetchCoachProfiles();
@@ -1316,6 +1462,17 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     };
   }, [closeInjuryModal, injuryModalOpen, isInjuryMutationPending]);
 
+  const offlineBanner = (
+    <OfflineBanner
+      isOnline={isOnline}
+      pendingCount={pendingMutationCount}
+      isSyncing={isSyncing}
+      deadLetterCount={deadLetterCount}
+      backgroundSyncReport={backgroundSyncReport}
+      onDismissBackgroundSync={() => void dismissBackgroundSyncReport()}
+    />
+  );
+
   const deleteGameButton = (
     <div className="delete-game-section">
       <button
@@ -1361,6 +1518,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     team,
     players,
     goals,
+    gameEvents,
     currentTime,
     playTimeRecords,
     lineup,
@@ -1380,6 +1538,10 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
     onNoteSaved: () => setNotesRefreshKey(k => k + 1),
   };
 
+  // Knockout games that are level at the end go to extra time, then penalties
+  const isScoreLevel = (gameState.ourScore ?? 0) === (gameState.opponentScore ?? 0);
+  const canGoToExtraTime = currentPeriod === periodCount && extraTimePeriods > 0;
+
   const preGameNotes = gameNotes.filter(
     (note) => note.gameSeconds == null && note.half == null
   );
@@ -1395,12 +1557,14 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
           currentTime={currentTime}
           isRunning={isRunning}
           halfLengthSeconds={halfLengthSeconds}
+          periodCount={periodCount}
           gamePlan={gamePlan}
           plannedRotations={plannedRotations}
           onPauseTimer={handlePauseTimer}
           onResumeTimer={handleResumeTimer}
           onShowRotationModal={() => { setRotationModalOpen(true); trackEvent(AnalyticsEvents.ROTATION_WIDGET_OPENED.category, AnalyticsEvents.ROTATION_WIDGET_OPENED.action); }}
           onAddNote={(trigger) => openLiveNoteModal({ source: 'command-band', defaultType: 'other' }, trigger)}
+          shootoutScore={gameState.status === 'shootout' ? calculateShootoutScore(shootoutKicks) : null}
         />
 
         {/* Rotation and late-arrival modals (always mounted for in-progress) */}
@@ -1443,6 +1607,9 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
           mutations={mutations}
         />
 
+        <SyncConflictPanel conflicts={gameSyncConflicts} onResolve={resolveConflict} />
+        <OfflineDataNotice isOnline={isOnline} savedAt={offlineCopySavedAt} />
+
         {/* ── PRE-GAME ─────────────────────────────────────────────── */}
         {gameState.status === 'scheduled' && (
           <div className="pregame-layout">
@@ -1478,6 +1645,37 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
                   />
                   Home Game
                 </label>
+                <fieldset className="knockout-settings">
+                  <legend>Knockout settings (if level at full time)</legend>
+                  <label htmlFor="editGameExtraTime">Extra time</label>
+                  <select
+                    id="editGameExtraTime"
+                    value={editGameExtraTimePeriods}
+                    onChange={(e) => setEditGameExtraTimePeriods(e.target.value)}
+                  >
+                    <option value="0">No extra time</option>
+                    <option value="1">1 period</option>
+                    <option value="2">2 periods</option>
+                  </select>
+                  {editGameExtraTimePeriods !== '0' && (
+                    <input
+                      type="number"
+                      placeholder="Minutes per extra-time period *"
+                      value={editGameExtraTimeLength}
+                      onChange={(e) => setEditGameExtraTimeLength(e.target.value)}
+                      min="1"
+                      max="30"
+                    />
+                  )}
+                  <label className="checkbox-label">
+                    <input
+                      type="checkbox"
+                      checked={editGameHasShootout}
+                      onChange={(e) => setEditGameHasShootout(e.target.checked)}
+                    />
+                    Penalty shootout
+                  </label>
+                </fieldset>
                 <div className="form-actions">
                   <button
                     onClick={handleSaveGameEdit}
@@ -1552,7 +1750,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
         {/* ── IN-PROGRESS ──────────────────────────────────────────── */}
         {gameState.status === 'in-progress' && (
           <>
-            <OfflineBanner isOnline={isOnline} pendingCount={pendingMutationCount} isSyncing={isSyncing} />
+            {offlineBanner}
             <TabNav
               activeTab={activeTab}
               onTabChange={setActiveTab}
@@ -1585,16 +1783,34 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
                   </div>
                 )}
                 <div className="field-tab__action-bar">
-                  {gameState.currentHalf === 1 && (
+                  {currentPeriod < lastPeriod && (
+                    <button onClick={handleHalftime} className="btn-secondary">
+                      End {formatPeriodLabel(currentPeriod, periodCount, 'spelled')}
+                    </button>
+                  )}
+                  {currentPeriod >= lastPeriod && isScoreLevel && canGoToExtraTime && (
                     <button onClick={handleHalftime} className="btn-secondary">
-                      End First Half
+                      Go to Extra Time
                     </button>
                   )}
-                  {gameState.currentHalf === 2 && (
+                  {currentPeriod >= lastPeriod && isScoreLevel && !canGoToExtraTime && gameState.hasShootout && (
+                    <button onClick={() => { void handleStartShootout(); }} className="btn-secondary">
+                      Penalty Shootout
+                    </button>
+                  )}
+                  {currentPeriod >= lastPeriod && (
                     <button onClick={handleEndGame} className="btn-secondary">
                       End Game
                     </button>
                   )}
+                  <label className="added-time-toggle">
+                    <input
+                      type="checkbox"
+                      checked={!!gameState.addedTimeMode}
+                      onChange={() => { void handleToggleAddedTime(); }}
+                    />
+                    Play added time
+                  </label>
                 </div>
               </div>
             )}
@@ -1611,6 +1827,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
                 playerAvailabilities={playerAvailabilities}
                 mutations={mutations}
                 isOnline={isOnline}
+                leagueRuleAlerts={leagueRuleAlerts}
                 onSelectPlayer={() => {
                   const emptyPosition = positions.find(
                     pos => !lineup.some(l => l.positionId === pos.id && l.isStarter)
@@ -1631,7 +1848,7 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
         {/* ── HALFTIME ─────────────────────────────────────────────── */}
         {gameState.status === 'halftime' && (
           <div className="halftime-layout">
-            <OfflineBanner isOnline={isOnline} pendingCount={pendingMutationCount} isSyncing={isSyncing} />
+            {offlineBanner}
             <GameTimer
               gameState={gameState}
               game={game}
@@ -1679,12 +1896,29 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
             </div>
             <div className="halftime-start-cta">
               <button onClick={handleStartSecondHalf} className="btn-primary btn-large">
-                Start Second Half
+                Start {formatPeriodLabel(currentPeriod + 1, periodCount, 'spelled')}
               </button>
             </div>
           </div>
         )}
 
+        {/* ── PENALTY SHOOTOUT ─────────────────────────────────────── */}
+        {gameState.status === 'shootout' && (
+          <div className="shootout-layout">
+            {offlineBanner}
+            <ShootoutPanel
+              gameState={gameState}
+              game={game}
+              team={team}
+              players={players}
+              lineup={lineup}
+              kicks={shootoutKicks}
+              mutations={mutations}
+              onFinish={handleEndGame}
+            />
+          </div>
+        )}
+
         {/* ── COMPLETED ────────────────────────────────────────────── */}
         {gameState.status === 'completed' && (
           <div className="completed-layout">
@@ -1692,8 +1926,24 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
               players={players}
               playTimeRecords={playTimeRecords}
               gameEndSeconds={gameState.elapsedSeconds ?? 0}
+              goals={goals}
+            />
+            <LeagueRuleCompliance
+              profile={leagueRuleProfile}
+              players={players}
+              playTimeRecords={playTimeRecords}
+              playerAvailabilities={playerAvailabilities}
+              gameEndSeconds={gameState.elapsedSeconds ?? 0}
+              clock={gameClock}
             />
             <GoalTracker {...sharedGoalTrackerProps} />
+            <GameRecapPanel
+              gameState={gameState}
+              team={team}
+              players={players}
+              goals={goals}
+              gameNotes={gameNotes}
+            />
             <PreGameNotesPanel
               gameStatus={gameState.status}
               notes={preGameNotes}
@@ -1722,6 +1972,9 @@ export function GameManagement({ game, team, onBack }: GameManagementProps) {
 
         {gameState.status === 'completed' && (
           <div className="completed-footer">
+            <Link to={`/game/${game.id}/summary`} className="btn-link completed-report-link__anchor">
+              View Game Summary →
+            </Link>
             <Link to={`/reports/${team.id}`} className="btn-link completed-report-link__anchor">
               View Full Season Report →
             </Link>
@@ -0,0 +1,107 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach, afterEach } from "vitest";
+import { render, screen, waitFor } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { GameRecapPanel } from "./GameRecapPanel";
+
+const { mockTeamUpdate, mockShowSuccess } = vi.hoisted(() => ({
+  mockTeamUpdate: vi.fn(),
+  mockShowSuccess: vi.fn(),
+}));
+
+vi.mock("aws-amplify/data", () => ({
+  generateClient: () => ({
+    models: { Team: { update: mockTeamUpdate } },
+  }),
+}));
+
+vi.mock("../../utils/toast", () => ({
+  showSuccess: mockShowSuccess,
+}));
+
+vi.mock("../../utils/errorHandler", () => ({
+  handleApiError: vi.fn(),
+}));
+
+vi.mock("../../utils/analytics", () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: { GAME_RECAP_SHARED: { category: 'Sharing', action: 'Share Game Recap' } },
+}));
+
+const renderPanel = (teamOverrides: Record<string, any> = {}) => render(
+  <GameRecapPanel
+    gameState={{ id: "game-1", opponent: "Eagles", isHome: false, status: "completed", ourScore: 1, opponentScore: 0 } as any}
+    team={{ id: "team-1", name: "Hawks", halfLengthMinutes: 30, ...teamOverrides } as any}
+    players={[{ id: "p1", playerNumber: 10, firstName: "Alice", lastName: "Smith" }] as any}
+    goals={[{ id: "g1", scoredByUs: true, scorerId: "p1", gameSeconds: 600, half: 1 }] as any}
+    gameNotes={[{ id: "n1", noteType: "yellow-card", playerId: "p1" }] as any}
+  />
+);
+
+const preview = () => screen.getByLabelText("Recap preview").textContent;
+
+describe("GameRecapPanel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTeamUpdate.mockResolvedValue({ data: {} });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it("previews the recap in privacy mode by default", () => {
+    renderPanel();
+
+    expect(preview()).toContain("⚽ Hawks 1–0 Eagles");
+    expect(preview()).toContain("Goals: Alice 10'");
+    expect(preview()).not.toContain("Smith");
+    expect(screen.getByRole("checkbox", { name: "Cards" })).toBeDisabled();
+  });
+
+  it("starts from the team's saved settings and saves changes as the new default", async () => {
+    const user = userEvent.setup();
+    renderPanel({ recapSettings: JSON.stringify({ privacyMode: false, includeCards: true }) });
+
+    expect(preview()).toContain("Cards: 🟨 Alice Smith");
+    expect(screen.queryByRole("button", { name: "Save as team default" })).not.toBeInTheDocument();
+
+    await user.click(screen.getByRole("checkbox", { name: "Goal minutes" }));
+    expect(preview()).toContain("Goals: Alice Smith\n");
+
+    await user.click(screen.getByRole("button", { name: "Save as team default" }));
+    await waitFor(() => expect(mockTeamUpdate).toHaveBeenCalled());
+    expect(JSON.parse(mockTeamUpdate.mock.calls[0][0].recapSettings)).toMatchObject({
+      includeGoalMinutes: false,
+      includeCards: true,
+      privacyMode: false,
+    });
+    await waitFor(() =>
+      expect(screen.queryByRole("button", { name: "Save as team default" })).not.toBeInTheDocument()
+    );
+  });
+
+  it("uses the share sheet when the device has one", async () => {
+    const user = userEvent.setup();
+    const share = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal("navigator", { ...navigator, share });
+
+    renderPanel();
+    await user.click(screen.getByRole("button", { name: "Share" }));
+
+    expect(share).toHaveBeenCalledWith({ title: "Hawks 1–0 Eagles", text: expect.stringContaining("Goals: Alice 10'") });
+  });
+
+  it("copies the recap when sharing is not available", async () => {
+    const user = userEvent.setup();
+    const writeText = vi.fn().mockResolvedValue(undefined);
+    vi.stubGlobal("navigator", { ...navigator, share: undefined, clipboard: { writeText } });
+
+    renderPanel();
+    expect(screen.queryByRole("button", { name: "Share" })).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: "Copy" }));
+
+    await waitFor(() => expect(writeText).toHaveBeenCalledWith(expect.stringContaining("⚽ Hawks 1–0 Eagles")));
+    expect(mockShowSuccess).toHaveBeenCalledWith("Recap copied");
+  });
+});
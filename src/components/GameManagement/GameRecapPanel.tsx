@@ -0,0 +1,145 @@
+import { useMemo, useState } from "react";
+import { generateClient } from "aws-amplify/data";
+import type { Schema } from "../../../amplify/data/resource";
+import { handleApiError } from "../../utils/errorHandler";
+import { showSuccess } from "../../utils/toast";
+import { trackEvent, AnalyticsEvents } from "../../utils/analytics";
+import { getGameClock } from "../../utils/gameTimeUtils";
+import { getPeriodCount } from "../../utils/periodUtils";
+import {
+  buildGameRecap,
+  parseRecapSettings,
+  RECAP_SETTING_LABELS,
+} from "../../utils/gameRecapUtils";
+import type { Game, Team, PlayerWithRoster, Goal, GameNote } from "./types";
+import type { RecapSettings } from "../../types/schema";
+
+const client = generateClient<Schema>();
+
+interface GameRecapPanelProps {
+  gameState: Game;
+  team: Team;
+  players: PlayerWithRoster[];
+  goals: Goal[];
+  gameNotes: GameNote[];
+}
+
+/**
+ * Result message for the team group chat, shared through the Web Share API
+ * where available and copied to the clipboard otherwise. The included
+ * details can be saved as the team's default.
+ */
+export function GameRecapPanel({ gameState, team, players, goals, gameNotes }: GameRecapPanelProps) {
+  const [savedSettings, setSavedSettings] = useState<RecapSettings>(() => parseRecapSettings(team.recapSettings));
+  const [settings, setSettings] = useState<RecapSettings>(savedSettings);
+  const [isSavingDefaults, setIsSavingDefaults] = useState(false);
+
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const recap = useMemo(() => buildGameRecap({
+    game: gameState,
+    teamName: team.name,
+    players,
+    goals,
+    notes: gameNotes,
+    clock: getGameClock(gameState, team.halfLengthMinutes, periodCount),
+  }, settings), [gameState, team.name, team.halfLengthMinutes, periodCount, players, goals, gameNotes, settings]);
+
+  const settingsChanged = (Object.keys(settings) as Array<keyof RecapSettings>)
+    .some(key => settings[key] !== savedSettings[key]);
+  const canShare = typeof navigator !== 'undefined' && typeof navigator.share === 'function';
+
+  const toggle = (key: keyof RecapSettings) => {
+    setSettings(prev => ({ ...prev, [key]: !prev[key] }));
+  };
+
+  const handleShare = async () => {
+    try {
+      await navigator.share({ title: recap.title, text: recap.text });
+      trackEvent(AnalyticsEvents.GAME_RECAP_SHARED.category, AnalyticsEvents.GAME_RECAP_SHARED.action, 'share');
+    } catch (error) {
+      // Closing the share sheet rejects with AbortError; nothing to report
+      if (error instanceof DOMException && error.name === 'AbortError') return;
+      handleApiError(error, 'Failed to share recap');
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      if (typeof ClipboardItem !== 'undefined' && navigator.clipboard?.write) {
+        await navigator.clipboard.write([
+          new ClipboardItem({
+            'text/plain': new Blob([recap.text], { type: 'text/plain' }),
+            'text/html': new Blob([recap.html], { type: 'text/html' }),
+          }),
+        ]);
+      } else {
+        await navigator.clipboard.writeText(recap.text);
+      }
+      showSuccess('Recap copied');
+      trackEvent(AnalyticsEvents.GAME_RECAP_SHARED.category, AnalyticsEvents.GAME_RECAP_SHARED.action, 'copy');
+    } catch (error) {
+      handleApiError(error, 'Failed to copy recap');
+    }
+  };
+
+  const handleSaveDefaults = async () => {
+    setIsSavingDefaults(true);
+    try {
+      await client.models.Team.update({ id: team.id, recapSettings: JSON.stringify(settings) });
+      setSavedSettings(settings);
+      showSuccess('Recap settings saved for this team');
+    } catch (error) {
+      handleApiError(error, 'Failed to save recap settings');
+    } finally {
+      setIsSavingDefaults(false);
+    }
+  };
+
+  return (
+    <section className="game-recap" aria-labelledby="game-recap-heading">
+      <h3 id="game-recap-heading" className="game-recap__heading">📣 Share Recap</h3>
+
+      <label className="game-recap__privacy">
+        <input
+          type="checkbox"
+          checked={settings.privacyMode}
+          onChange={() => toggle('privacyMode')}
+        />
+        Privacy mode (first names only, no cards)
+      </label>
+
+      <fieldset className="game-recap__options">
+        <legend>Include</legend>
+        {(Object.keys(RECAP_SETTING_LABELS) as Array<keyof typeof RECAP_SETTING_LABELS>).map(key => (
+          <label key={key}>
+            <input
+              type="checkbox"
+              checked={settings[key]}
+              disabled={key === 'includeCards' && settings.privacyMode}
+              onChange={() => toggle(key)}
+            />
+            {RECAP_SETTING_LABELS[key]}
+          </label>
+        ))}
+      </fieldset>
+
+      <pre className="game-recap__preview" aria-label="Recap preview">{recap.text}</pre>
+
+      <div className="game-recap__actions">
+        {canShare && (
+          <button className="btn-primary" onClick={() => { void handleShare(); }}>
+            Share
+          </button>
+        )}
+        <button className={canShare ? 'btn-secondary' : 'btn-primary'} onClick={() => { void handleCopy(); }}>
+          Copy
+        </button>
+        {settingsChanged && (
+          <button className="btn-link" onClick={() => { void handleSaveDefaults(); }} disabled={isSavingDefaults}>
+            Save as team default
+          </button>
+        )}
+      </div>
+    </section>
+  );
+}
@@ -5,6 +5,8 @@ import {
 import { PlayerAvailabilityGrid } from "../PlayerAvailabilityGrid";
 import type { PlannedSubstitution } from "../../services/rotationPlannerService";
 import { useAvailability } from "../../contexts/AvailabilityContext";
+import { formatBreakLabel, formatPeriodLabel, getPeriodCount } from "../../utils/periodUtils";
+import { getAddedTimeInPeriod, toNominalSeconds } from "../../utils/gameTimeUtils";
 import type {
   Game,
   Team,
@@ -75,9 +77,23 @@ export function GameTimer({
   const { getPlayerAvailability } = useAvailability();
   const [isApplyingAll, setIsApplyingAll] = useState(false);
 
-  // Planned subs for the start of the second half
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const currentPeriod = gameState.currentHalf ?? 1;
+  const nextPeriod = currentPeriod + 1;
+  // Clock shown to the coach: stops at the end of the period, with any added time shown separately
+  const nominalTime = toNominalSeconds(currentTime, currentPeriod, gameState.addedTimeSeconds);
+  const addedTime = getAddedTimeInPeriod(currentTime, currentPeriod, {
+    periodLengthSeconds: halfLengthSeconds,
+    addedTime: gameState.addedTimeSeconds,
+    periodCount,
+    extraTimeLengthSeconds: (gameState.extraTimeLengthMinutes ?? 0) * 60,
+  });
+
+  // Planned subs for the start of the next period (its break rotation comes first)
   const halftimeSubs = (() => {
-    const rotation = plannedRotations.find(r => r.half === 2);
+    const rotation = plannedRotations
+      .filter(r => r.half === nextPeriod)
+      .sort((a, b) => a.rotationNumber - b.rotationNumber)[0];
     if (!rotation) return [];
     try {
       return JSON.parse(rotation.plannedSubstitutions as string) as PlannedSubstitution[];
@@ -107,10 +123,13 @@ export function GameTimer({
     <div className="game-timer-card">
       <div className="timer-display">
         <div className="half-indicator">
-          {gameState.currentHalf === 1 ? 'First Half' : 'Second Half'}
+          {formatPeriodLabel(currentPeriod, periodCount, 'spelled')}
         </div>
         <div className="time-display">
-          {formatPlayTime(currentTime, 'short')}
+          {formatPlayTime(nominalTime - addedTime, 'short')}
+          {addedTime > 0 && (
+            <span className="added-time-display">+{formatPlayTime(addedTime, 'short')}</span>
+          )}
         </div>
         <div className="time-limit">
           / {formatPlayTime(halfLengthSeconds, 'short')}
@@ -194,12 +213,12 @@ export function GameTimer({
                 ▶ Resume
               </button>
             )}
-            {gameState.currentHalf === 1 && (
+            {currentPeriod < periodCount && (
               <button onClick={onHalftime} className="btn-secondary">
-                End First Half
+                End {formatPeriodLabel(currentPeriod, periodCount, 'spelled')}
               </button>
             )}
-            {gameState.currentHalf === 2 && (
+            {currentPeriod >= periodCount && (
               <button onClick={onEndGame} className="btn-secondary">
                 End Game
               </button>
@@ -210,14 +229,14 @@ export function GameTimer({
         {gameState.status === 'halftime' && (
           <div className="halftime-controls">
             <div className="halftime-message">
-              <h3>⏸️ Halftime</h3>
-              <p>Apply 2nd half lineup changes, then start the second half</p>
+              <h3>⏸️ {formatBreakLabel(currentPeriod, periodCount)}</h3>
+              <p>Apply {formatPeriodLabel(nextPeriod, periodCount)} lineup changes, then start the {formatPeriodLabel(nextPeriod, periodCount, 'spelled').toLowerCase()}</p>
             </div>
 
             {halftimeSubs.length > 0 && (
               <div className="halftime-planned-subs">
                 <div className="halftime-subs-header">
-                  <h4>🔄 2nd Half Lineup Changes</h4>
+                  <h4>🔄 {formatPeriodLabel(nextPeriod, periodCount)} Lineup Changes</h4>
                   <button
                     onClick={handleApplyAll}
                     disabled={!canApplyAll || isApplyingAll}
@@ -275,7 +294,7 @@ export function GameTimer({
 
             {!hidePrimaryCta && (
               <button onClick={onStartSecondHalf} className="btn-primary btn-large">
-                Start Second Half
+                Start {formatPeriodLabel(nextPeriod, periodCount, 'spelled')}
               </button>
             )}
           </div>
@@ -33,6 +33,10 @@ vi.mock("../PlayerSelect", () => ({
   ),
 }));
 
+vi.mock("./MatchEventBar", () => ({
+  MatchEventBar: () => <div data-testid="match-event-bar" />,
+}));
+
 const makeGameState = (overrides = {}) => ({
   id: "game-1",
   status: "in-progress",
@@ -78,6 +82,7 @@ const defaultProps = {
   team: { coaches: ["coach-1"] } as any,
   players,
   goals: [] as any[],
+  gameEvents: [] as any[],
   currentTime: 600,
   mutations: makeMutations() as any,
   playTimeRecords: [] as any[],
@@ -99,6 +104,14 @@ describe("GoalTracker", () => {
       expect(screen.getByText(/Goal - Eagles/)).toBeInTheDocument();
     });
 
+    it("shows the match event buttons only while the clock runs", () => {
+      const { rerender } = render(<GoalTracker {...defaultProps} />);
+      expect(screen.getByTestId("match-event-bar")).toBeInTheDocument();
+
+      rerender(<GoalTracker {...defaultProps} gameState={makeGameState({ status: "halftime" }) as any} />);
+      expect(screen.queryByTestId("match-event-bar")).not.toBeInTheDocument();
+    });
+
     it("shows goal buttons when at halftime", () => {
       render(
         <GoalTracker
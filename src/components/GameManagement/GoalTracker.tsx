@@ -2,13 +2,15 @@ import { useState, useCallback } from "react";
 import { showWarning, showSuccess } from "../../utils/toast";
 import { trackEvent, AnalyticsEvents } from "../../utils/analytics";
 import { handleApiError } from "../../utils/errorHandler";
-import { formatGameTimeDisplay } from "../../utils/gameTimeUtils";
+import { formatGameMinute, formatGameTimeDisplay, getGameClock } from "../../utils/gameTimeUtils";
+import { formatPeriodLabel, getPeriodCount } from "../../utils/periodUtils";
 import { PlayerSelect } from "../PlayerSelect";
 import { isPlayerCurrentlyPlaying } from "../../utils/playTimeCalculations";
 import { isPlayerInLineup } from "../../utils/lineupUtils";
 import type { GameMutationInput, GoalUpdateFields } from "../../hooks/useOfflineMutations";
-import type { Game, Team, PlayerWithRoster, Goal, PlayTimeRecord, LineupAssignment } from "./types";
+import type { Game, Team, PlayerWithRoster, Goal, GameEvent, PlayTimeRecord, LineupAssignment } from "./types";
 import { GameActionRow } from "./actions/GameActionRow";
+import { MatchEventBar } from "./MatchEventBar";
 import type { GameActionDescriptor } from "./actions/actionContract";
 
 interface GoalTrackerProps {
@@ -17,6 +19,7 @@ interface GoalTrackerProps {
   team: Team;
   players: PlayerWithRoster[];
   goals: Goal[];
+  gameEvents: GameEvent[];
   currentTime: number;
   mutations: GameMutationInput;
   playTimeRecords: PlayTimeRecord[];
@@ -29,11 +32,14 @@ export function GoalTracker({
   team,
   players,
   goals,
+  gameEvents,
   currentTime,
   mutations,
   playTimeRecords,
   lineup,
 }: GoalTrackerProps) {
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const gameClock = getGameClock(gameState, team.halfLengthMinutes, periodCount);
   const [showGoalModal, setShowGoalModal] = useState(false);
   const [goalScoredByUs, setGoalScoredByUs] = useState(true);
   const [goalScorerId, setGoalScorerId] = useState("");
@@ -172,6 +178,21 @@ export function GoalTracker({
         </div>
       )}
 
+      {/* One-tap shots, saves, corners and fouls while the clock runs */}
+      {gameState.status === 'in-progress' && (
+        <MatchEventBar
+          gameState={gameState}
+          game={game}
+          team={team}
+          players={players}
+          goals={goals}
+          gameEvents={gameEvents}
+          currentTime={currentTime}
+          mutations={mutations}
+          onFieldPlayerIds={onFieldPlayerIds}
+        />
+      )}
+
       {/* Empty State for Completed */}
       {gameState.status === 'completed' && goals.length === 0 && (
         <div className="goals-empty-state">
@@ -220,8 +241,8 @@ export function GoalTracker({
                   <div className="goal-icon">⚽</div>
                   <div className="goal-info">
                     <div className="goal-header">
-                      <span className="goal-minute">{Math.floor(goal.gameSeconds / 60)}'</span>
-                      <span className="goal-half">({goal.half === 1 ? '1st' : '2nd'} Half)</span>
+                      <span className="goal-minute">{formatGameMinute(goal.gameSeconds, goal.half, gameClock)}</span>
+                      <span className="goal-half">({formatPeriodLabel(goal.half, periodCount)})</span>
                     </div>
                     {goal.scoredByUs ? (
                       <>
@@ -257,7 +278,7 @@ export function GoalTracker({
           <div className="modal-content" onClick={(e) => e.stopPropagation()}>
             <h2 id="record-goal-modal-title">Record Goal</h2>
             <p className="modal-subtitle">
-              {goalScoredByUs ? 'Our Goal' : `${gameState.opponent} Goal`} - {formatGameTimeDisplay(getCurrentGameTime(), gameState.currentHalf || 1)}
+              {goalScoredByUs ? 'Our Goal' : `${gameState.opponent} Goal`} - {formatGameTimeDisplay(getCurrentGameTime(), gameState.currentHalf || 1, periodCount, gameClock)}
             </p>
 
             {goalScoredByUs && (
@@ -341,7 +362,7 @@ export function GoalTracker({
             <p className="modal-subtitle">
               {editGoal.scoredByUs ? 'Our Goal' : `${gameState.opponent ?? 'Opponent'} Goal`}
               {' — '}
-              Half {editGoal.half}, {Math.floor((editGoal.gameSeconds ?? 0) / 60)}'
+              {formatPeriodLabel(editGoal.half, periodCount)}, {Math.floor((editGoal.gameSeconds ?? 0) / 60)}'
             </p>
 
             {editGoal.scoredByUs && (
@@ -0,0 +1,45 @@
+import { describe, it, expect } from "vitest";
+import { render, screen } from "@testing-library/react";
+import { LeagueRuleCompliance } from "./LeagueRuleCompliance";
+import type { PlayerWithRoster, PlayTimeRecord } from "./types";
+
+const makePlayer = (id: string, playerNumber: number, firstName: string) =>
+  ({ id, playerNumber, firstName, lastName: "Test", isActive: true } as PlayerWithRoster);
+
+const makeRecord = (playerId: string, startGameSeconds: number, endGameSeconds: number | null) =>
+  ({ id: `rec-${playerId}-${startGameSeconds}`, gameId: "game-1", playerId, startGameSeconds, endGameSeconds } as unknown as PlayTimeRecord);
+
+const clock = { periodLengthSeconds: 1200, periodCount: 2 };
+
+describe("LeagueRuleCompliance", () => {
+  it("renders nothing when the team has no league rules", () => {
+    const { container } = render(
+      <LeagueRuleCompliance
+        profile={{ preset: "none", rules: [] }}
+        players={[]}
+        playTimeRecords={[]}
+        playerAvailabilities={[]}
+        gameEndSeconds={2400}
+        clock={clock}
+      />,
+    );
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it("marks each rule as met or broken with the players who broke it", () => {
+    render(
+      <LeagueRuleCompliance
+        profile={{ preset: "rec-league", rules: [{ type: "min-play", value: 50 }, { type: "bench-periods", value: 2 }] }}
+        players={[makePlayer("p1", 7, "Jordan"), makePlayer("p2", 9, "Sam")]}
+        playTimeRecords={[makeRecord("p1", 0, null), makeRecord("p2", 1200, 1500)]}
+        playerAvailabilities={[]}
+        gameEndSeconds={2400}
+        clock={clock}
+      />,
+    );
+
+    expect(screen.getByRole("heading", { name: /League Rules — Rec league/ })).toBeInTheDocument();
+    expect(screen.getByText("#9 Sam plays 12% of the game, below the 50% minimum")).toBeInTheDocument();
+    expect(screen.getByText(/No player sits 2 halves in a row/)).toHaveTextContent("✅");
+  });
+});
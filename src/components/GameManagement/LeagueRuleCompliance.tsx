@@ -0,0 +1,68 @@
+import type { LeagueRuleProfile } from "../../types/schema";
+import type { GameClock } from "../../utils/gameTimeUtils";
+import {
+  buildPlayedRuleCheckInput,
+  describeLeagueRule,
+  findLeagueRuleViolations,
+  getLeagueRuleProfileLabel,
+} from "../../utils/leagueRuleUtils";
+import type { PlayerAvailability, PlayerWithRoster, PlayTimeRecord } from "./types";
+
+interface LeagueRuleComplianceProps {
+  profile: LeagueRuleProfile;
+  players: PlayerWithRoster[];
+  playTimeRecords: PlayTimeRecord[];
+  playerAvailabilities: PlayerAvailability[];
+  gameEndSeconds: number;
+  clock: GameClock;
+}
+
+/**
+ * Completed-game check of the team's league rules: one line per rule,
+ * with the players or substitutions that broke it
+ */
+export function LeagueRuleCompliance({
+  profile,
+  players,
+  playTimeRecords,
+  playerAvailabilities,
+  gameEndSeconds,
+  clock,
+}: LeagueRuleComplianceProps) {
+  if (profile.rules.length === 0) return null;
+
+  const input = buildPlayedRuleCheckInput({
+    players,
+    playTimeRecords,
+    playerAvailabilities,
+    currentSeconds: gameEndSeconds,
+    clock,
+  });
+  const violations = findLeagueRuleViolations(profile.rules, input);
+
+  return (
+    <section className="league-rule-compliance" aria-labelledby="league-rule-compliance-heading">
+      <h3 id="league-rule-compliance-heading" className="league-rule-compliance__heading">
+        📋 League Rules — {getLeagueRuleProfileLabel(profile)}
+      </h3>
+      <ul className="league-rule-compliance__list">
+        {profile.rules.map((rule) => {
+          const broken = violations.filter(v => v.type === rule.type);
+          return (
+            <li
+              key={rule.type}
+              className={broken.length > 0 ? "league-rule-compliance__rule--broken" : "league-rule-compliance__rule--met"}
+            >
+              <span>{broken.length > 0 ? '⚠️' : '✅'} {describeLeagueRule(rule, input.periodCount)}</span>
+              {broken.length > 0 && (
+                <ul>
+                  {broken.map((violation, i) => <li key={i}>{violation.message}</li>)}
+                </ul>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+    </section>
+  );
+}
@@ -11,6 +11,7 @@ import {
   isPlayerInLineup,
 } from "../../utils/lineupUtils";
 import { LineupBuilder } from "../LineupBuilder";
+import { formatPeriodLabel, getPeriodCount } from "../../utils/periodUtils";
 import type { GameMutationInput } from "../../hooks/useOfflineMutations";
 import type {
   Game,
@@ -157,13 +158,19 @@ export function LineupPanel({
     }
   };
 
+  const nextPeriodLabel = formatPeriodLabel(
+    (gameState.currentHalf ?? 1) + 1,
+    getPeriodCount(team.gameFormat, team.periodCount),
+    'spelled',
+  );
+
   return (
     <>
       {/* Position-based Lineup */}
       <div className="lineup-section">
         <div className="lineup-header">
           <h2>
-            {gameState.status === 'halftime' ? 'Second Half Lineup' : gameState.status === 'in-progress' ? 'Current Lineup' : 'Starting Lineup'} ({startersCount}/{team.maxPlayersOnField})
+            {gameState.status === 'halftime' ? `${nextPeriodLabel} Lineup` : gameState.status === 'in-progress' ? 'Current Lineup' : 'Starting Lineup'} ({startersCount}/{team.maxPlayersOnField})
           </h2>
           {gameState.status === 'halftime' && startersCount > 0 && (
             <button onClick={handleClearAllPositions} className="btn-clear-lineup">
@@ -173,7 +180,7 @@ export function LineupPanel({
         </div>
         {gameState.status === 'halftime' && (
           <p className="halftime-lineup-hint">
-            Make substitutions now for the start of the second half. Players will start with fresh play time tracking.
+            Make substitutions now for the start of the {nextPeriodLabel.toLowerCase()}. Players will start with fresh play time tracking.
           </p>
         )}
 
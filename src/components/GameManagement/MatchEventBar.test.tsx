@@ -0,0 +1,104 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { MatchEventBar } from "./MatchEventBar";
+
+vi.mock("../../utils/analytics", () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: { GAME_EVENT_RECORDED: { category: 'GameDay', action: 'Game Event Recorded' } },
+}));
+
+vi.mock("../PlayerSelect", () => ({
+  PlayerSelect: ({ id, placeholder, value, onChange }: any) => (
+    <select
+      data-testid={id ?? placeholder}
+      value={value ?? ''}
+      onChange={e => onChange?.(e.target.value)}
+    >
+      <option value="">{placeholder}</option>
+      <option value="p1">p1</option>
+    </select>
+  ),
+}));
+
+const mockCreateGameEvent = vi.fn();
+const mockDeleteGameEvent = vi.fn();
+
+const players = [
+  { id: "p1", playerNumber: 10, firstName: "Alice", lastName: "Smith" },
+] as any[];
+
+const renderBar = (overrides: Record<string, any> = {}) => render(
+  <MatchEventBar
+    gameState={{ id: "game-1", status: "in-progress", currentHalf: 2, opponent: "Eagles" } as any}
+    game={{ id: "game-1" } as any}
+    team={{ coaches: ["coach-1"] } as any}
+    players={players}
+    goals={[]}
+    gameEvents={[]}
+    currentTime={1500}
+    mutations={{ createGameEvent: mockCreateGameEvent, deleteGameEvent: mockDeleteGameEvent } as any}
+    onFieldPlayerIds={["p1"]}
+    {...overrides}
+  />
+);
+
+describe("MatchEventBar", () => {
+  beforeEach(() => {
+    mockCreateGameEvent.mockReset().mockResolvedValue(undefined);
+    mockDeleteGameEvent.mockReset().mockResolvedValue(undefined);
+  });
+
+  it("records our event with the selected player and the game clock", async () => {
+    const user = userEvent.setup();
+    renderBar();
+
+    await user.selectOptions(screen.getByTestId("eventPlayer"), "p1");
+    await user.click(screen.getByRole("button", { name: /Shot on target/ }));
+
+    expect(mockCreateGameEvent).toHaveBeenCalledWith(expect.objectContaining({
+      gameId: "game-1",
+      eventType: "shot-on-target",
+      forUs: true,
+      playerId: "p1",
+      gameSeconds: 1500,
+      half: 2,
+      coaches: ["coach-1"],
+    }));
+    expect(screen.getByTestId("eventPlayer")).toHaveValue("");
+  });
+
+  it("records opponent events without a player", async () => {
+    const user = userEvent.setup();
+    renderBar();
+
+    await user.click(screen.getByRole("button", { name: "Eagles" }));
+    expect(screen.queryByTestId("eventPlayer")).not.toBeInTheDocument();
+    await user.click(screen.getByRole("button", { name: /Corner/ }));
+
+    expect(mockCreateGameEvent).toHaveBeenCalledWith(expect.objectContaining({
+      eventType: "corner",
+      forUs: false,
+      playerId: undefined,
+    }));
+  });
+
+  it("shows the running tally and undoes the latest event", async () => {
+    const user = userEvent.setup();
+    renderBar({
+      goals: [{ id: "g1", gameId: "game-1", scoredByUs: true, gameSeconds: 300, half: 1 }],
+      gameEvents: [
+        { id: "e1", gameId: "game-1", eventType: "shot-off-target", forUs: true, gameSeconds: 100, half: 1, timestamp: "2026-01-01T10:00:00Z" },
+        { id: "e2", gameId: "game-1", eventType: "foul", forUs: false, gameSeconds: 200, half: 1, timestamp: "2026-01-01T10:05:00Z" },
+      ],
+    });
+
+    expect(screen.getByText("Shots 2 (1) – 0 (0)")).toBeInTheDocument();
+    expect(screen.getByText("Fouls 0 – 1")).toBeInTheDocument();
+    expect(screen.getByText(/Last: .*Foul · Eagles/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole("button", { name: "Undo" }));
+    expect(mockDeleteGameEvent).toHaveBeenCalledWith("e2");
+  });
+});
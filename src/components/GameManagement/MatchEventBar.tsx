@@ -0,0 +1,162 @@
+import { useState } from "react";
+import { trackEvent, AnalyticsEvents } from "../../utils/analytics";
+import { handleApiError } from "../../utils/errorHandler";
+import { formatGameMinute, getGameClock } from "../../utils/gameTimeUtils";
+import { getPeriodCount } from "../../utils/periodUtils";
+import {
+  calculateGameEventTotals,
+  GAME_EVENT_ICONS,
+  GAME_EVENT_LABELS,
+  GAME_EVENT_TYPES,
+} from "../../utils/gameEventUtils";
+import { PlayerSelect } from "../PlayerSelect";
+import type { GameMutationInput } from "../../hooks/useOfflineMutations";
+import type { Game, Team, PlayerWithRoster, Goal, GameEvent, GameEventType } from "./types";
+
+interface MatchEventBarProps {
+  gameState: Game;
+  game: Game;
+  team: Team;
+  players: PlayerWithRoster[];
+  goals: Goal[];
+  gameEvents: GameEvent[];
+  currentTime: number;
+  mutations: GameMutationInput;
+  onFieldPlayerIds: string[];
+}
+
+/**
+ * One-tap buttons for shots, saves, corners, free kicks, offsides and fouls.
+ * Events go through the offline mutation queue like goals, so they can be
+ * logged with no signal and sync later.
+ */
+export function MatchEventBar({
+  gameState,
+  game,
+  team,
+  players,
+  goals,
+  gameEvents,
+  currentTime,
+  mutations,
+  onFieldPlayerIds,
+}: MatchEventBarProps) {
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const gameClock = getGameClock(gameState, team.halfLengthMinutes, periodCount);
+  const opponentName = gameState.opponent ?? 'Opponent';
+  const [forUs, setForUs] = useState(true);
+  const [playerId, setPlayerId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const totals = calculateGameEventTotals(gameEvents, goals);
+  const lastEvent = gameEvents.reduce<GameEvent | null>(
+    (latest, e) => (!latest || e.timestamp > latest.timestamp ? e : latest),
+    null
+  );
+
+  const handleRecordEvent = async (eventType: GameEventType) => {
+    setIsSaving(true);
+    try {
+      await mutations.createGameEvent({
+        gameId: game.id,
+        eventType,
+        forUs,
+        playerId: forUs && playerId ? playerId : undefined,
+        gameSeconds: currentTime,
+        half: gameState.currentHalf || 1,
+        timestamp: new Date().toISOString(),
+        coaches: team.coaches,
+      });
+      setPlayerId("");
+      trackEvent(AnalyticsEvents.GAME_EVENT_RECORDED.category, AnalyticsEvents.GAME_EVENT_RECORDED.action, eventType);
+    } catch (error) {
+      handleApiError(error, 'Failed to record event');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleUndo = async (gameEvent: GameEvent) => {
+    try {
+      await mutations.deleteGameEvent(gameEvent.id);
+    } catch (error) {
+      handleApiError(error, 'Failed to undo event');
+    }
+  };
+
+  const describeEvent = (gameEvent: GameEvent) => {
+    const player = gameEvent.playerId ? players.find(p => p.id === gameEvent.playerId) : null;
+    const who = gameEvent.forUs
+      ? (player ? `#${player.playerNumber} ${player.firstName}` : 'Us')
+      : opponentName;
+    const type = gameEvent.eventType as GameEventType;
+    return `${GAME_EVENT_ICONS[type] ?? ''} ${GAME_EVENT_LABELS[type] ?? gameEvent.eventType} · ${who} · ${formatGameMinute(gameEvent.gameSeconds, gameEvent.half, gameClock)}`;
+  };
+
+  return (
+    <div className="match-event-bar">
+      <div className="match-event-bar__header">
+        <h3>Match Events</h3>
+        <div className="match-event-bar__tally" aria-live="polite">
+          <span>Shots {totals.us.shots} ({totals.us.shotsOnTarget}) – {totals.them.shots} ({totals.them.shotsOnTarget})</span>
+          <span>Corners {totals.us.corners} – {totals.them.corners}</span>
+          <span>Fouls {totals.us.fouls} – {totals.them.fouls}</span>
+        </div>
+      </div>
+
+      <div className="match-event-bar__side" role="group" aria-label="Whose event">
+        <button
+          className={`match-event-bar__side-btn ${forUs ? 'match-event-bar__side-btn--active' : ''}`}
+          aria-pressed={forUs}
+          onClick={() => setForUs(true)}
+        >
+          Us
+        </button>
+        <button
+          className={`match-event-bar__side-btn ${!forUs ? 'match-event-bar__side-btn--active' : ''}`}
+          aria-pressed={!forUs}
+          onClick={() => setForUs(false)}
+        >
+          {opponentName}
+        </button>
+      </div>
+
+      {forUs && (
+        <div className="form-group">
+          <label htmlFor="eventPlayer">Player (optional)</label>
+          <PlayerSelect
+            id="eventPlayer"
+            players={players}
+            value={playerId}
+            onChange={setPlayerId}
+            placeholder="No player"
+            className="w-full"
+            onFieldPlayerIds={onFieldPlayerIds}
+          />
+        </div>
+      )}
+
+      <div className="match-event-bar__buttons">
+        {GAME_EVENT_TYPES.map(eventType => (
+          <button
+            key={eventType}
+            onClick={() => { void handleRecordEvent(eventType); }}
+            className="match-event-bar__btn"
+            disabled={isSaving}
+          >
+            {GAME_EVENT_ICONS[eventType]} {GAME_EVENT_LABELS[eventType]}
+          </button>
+        ))}
+      </div>
+
+      {lastEvent && (
+        <div className="match-event-bar__last">
+          <span>Last: {describeEvent(lastEvent)}</span>
+          <button onClick={() => { void handleUndo(lastEvent); }} className="btn-link">
+            Undo
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { useCallback, useEffect, useRef, useState } from "react";
 import { handleApiError } from "../../utils/errorHandler";
-import { formatGameTimeDisplay } from "../../utils/gameTimeUtils";
+import { formatGameMinute, formatGameTimeDisplay, getGameClock } from "../../utils/gameTimeUtils";
+import { formatPeriodLabel, getPeriodCount } from "../../utils/periodUtils";
 import { showWarning } from "../../utils/toast";
 import { resolveAttributionLabel, type TeamCoachProfileDTO } from "../../services/coachDisplayNameService";
 import { PlayerSelect } from "../PlayerSelect";
@@ -64,6 +65,8 @@ export function PlayerNotesPanel({
     typeof onRequestOpenNote === "function" &&
     typeof onRequestCloseNote === "function";
 
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const gameClock = getGameClock(gameState, team.halfLengthMinutes, periodCount);
   const [internalModalOpen, setInternalModalOpen] = useState(false);
   const [noteType, setNoteType] = useState<LiveNoteType>("other");
   const [notePlayerId, setNotePlayerId] = useState("");
@@ -524,7 +527,7 @@ export function PlayerNotesPanel({
                     <div className="note-info">
                       <div className="note-header">
                         <span className="note-type">{getNoteLabel(noteTypeValue)}</span>
-                        <span className="note-time">{note.gameSeconds != null ? `${Math.floor(note.gameSeconds / 60)}'` : '--'} ({note.half === 1 ? '1st' : '2nd'} Half)</span>
+                        <span className="note-time">{note.gameSeconds != null ? formatGameMinute(note.gameSeconds, note.half ?? 1, gameClock) : '--'} ({formatPeriodLabel(note.half ?? 1, periodCount)})</span>
                       </div>
                       {notePlayer && (
                         <div className="note-player">
@@ -593,7 +596,7 @@ export function PlayerNotesPanel({
               </p>
             ) : (
               <p className="modal-subtitle">
-                {formatGameTimeDisplay(getCurrentGameTime(), gameState.currentHalf || 1)}
+                {formatGameTimeDisplay(getCurrentGameTime(), gameState.currentHalf || 1, periodCount, gameClock)}
               </p>
             )}
 
@@ -5,7 +5,8 @@ import { handleApiError } from "../../utils/errorHandler";
 import { useAvailability } from "../../contexts/AvailabilityContext";
 import type { PlannedSubstitution } from "../../services/rotationPlannerService";
 import { isRotationFullyExecuted, isSubEffectivelyExecuted } from "../../utils/rotationConflictUtils";
-import { formatGameTimeDisplay } from "../../utils/gameTimeUtils";
+import { formatGameTimeDisplay, getGameClock, toNominalSeconds } from "../../utils/gameTimeUtils";
+import { getPeriodCount } from "../../utils/periodUtils";
 import type {
   Game,
   Team,
@@ -80,10 +81,13 @@ export function RotationWidget({
   };
   const [showLateArrivalModal, setShowLateArrivalModal] = useState(false);
 
+  // Planned rotation minutes are on the nominal clock, without earlier added time
+  const nominalTime = toNominalSeconds(currentTime, gameState.currentHalf ?? 1, gameState.addedTimeSeconds);
+
   const getNextRotation = (): PlannedRotation | null => {
     if (!gamePlan || plannedRotations.length === 0) return null;
 
-    const currentMinutes = Math.floor(currentTime / 60);
+    const currentMinutes = Math.floor(nominalTime / 60);
     return plannedRotations.find(r => {
       if (r.half !== gameState.currentHalf) return false;
       if (r.gameMinute < currentMinutes - 2) return false;
@@ -132,12 +136,18 @@ export function RotationWidget({
   })() : false;
 
   const handleLateArrival = async (playerId: string) => {
+    const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
     try {
       await updatePlayerAvailability(
         game.id,
         playerId,
         'available',
-        `Arrived late at ${formatGameTimeDisplay(currentTime, gameState.currentHalf || 1)}`,
+        `Arrived late at ${formatGameTimeDisplay(
+          currentTime,
+          gameState.currentHalf || 1,
+          periodCount,
+          getGameClock(gameState, team.halfLengthMinutes, periodCount),
+        )}`,
         team.coaches || [],
         null,  // clear stale availableFromMinute — player has now arrived
         null   // clear availableUntilMinute — player is fully available
@@ -160,7 +170,7 @@ export function RotationWidget({
       {(() => {
         const nextRotation = getNextRotation();
         if (nextRotation) {
-          const currentMinutes = Math.floor(currentTime / 60);
+          const currentMinutes = Math.floor(nominalTime / 60);
           const minutesUntil = nextRotation.gameMinute - currentMinutes;
 
           const rotationConflicts = (() => {
@@ -0,0 +1,141 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from "vitest";
+import { render, screen } from "@testing-library/react";
+import userEvent from "@testing-library/user-event";
+import { showWarning } from "../../utils/toast";
+import { ShootoutPanel } from "./ShootoutPanel";
+
+vi.mock("../../utils/toast", () => ({
+  showWarning: vi.fn(),
+}));
+
+vi.mock("../PlayerSelect", () => ({
+  PlayerSelect: ({ id, placeholder, value, onChange }: any) => (
+    <select
+      data-testid={id ?? placeholder}
+      value={value ?? ''}
+      onChange={e => onChange?.(e.target.value)}
+    >
+      <option value="">{placeholder}</option>
+      <option value="p1">p1</option>
+      <option value="p2">p2</option>
+    </select>
+  ),
+}));
+
+const players = [
+  { id: "p1", playerNumber: 10, firstName: "Alice", lastName: "Smith" },
+  { id: "p2", playerNumber: 7, firstName: "Bob", lastName: "Jones" },
+] as any[];
+
+const mockCreateShootoutKick = vi.fn().mockResolvedValue(undefined);
+const mockDeleteShootoutKick = vi.fn().mockResolvedValue(undefined);
+
+const makeKick = (overrides = {}) => ({
+  id: "kick-1",
+  gameId: "game-1",
+  kickNumber: 1,
+  scoredByUs: true,
+  takerId: "p1",
+  scored: true,
+  ...overrides,
+});
+
+const renderPanel = (overrides: Record<string, any> = {}) => {
+  const onFinish = vi.fn();
+  render(
+    <ShootoutPanel
+      gameState={{ id: "game-1", status: "shootout", opponent: "Eagles" } as any}
+      game={{ id: "game-1" } as any}
+      team={{ coaches: ["coach-1"] } as any}
+      players={players}
+      lineup={[]}
+      kicks={[]}
+      mutations={{
+        createShootoutKick: mockCreateShootoutKick,
+        deleteShootoutKick: mockDeleteShootoutKick,
+      } as any}
+      onFinish={onFinish}
+      {...overrides}
+    />
+  );
+  return { onFinish };
+};
+
+describe("ShootoutPanel", () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it("shows the running tally from the recorded kicks", () => {
+    renderPanel({
+      kicks: [
+        makeKick(),
+        makeKick({ id: "kick-2", kickNumber: 2, scoredByUs: false, takerId: null, scored: false }),
+        makeKick({ id: "kick-3", kickNumber: 3, takerId: "p2", scored: false }),
+      ],
+    });
+    expect(screen.getByText("Us 1")).toBeInTheDocument();
+    expect(screen.getByText("0 Eagles")).toBeInTheDocument();
+    expect(screen.getByText("#10 Alice Smith")).toBeInTheDocument();
+  });
+
+  it("records our kick with the taker and the next kick number", async () => {
+    const user = userEvent.setup();
+    renderPanel({ kicks: [makeKick()] });
+
+    await user.selectOptions(screen.getByTestId("shootoutTaker"), "p2");
+    await user.click(screen.getByText("✗ We missed"));
+
+    expect(mockCreateShootoutKick).toHaveBeenCalledWith(expect.objectContaining({
+      gameId: "game-1",
+      kickNumber: 2,
+      scoredByUs: true,
+      takerId: "p2",
+      scored: false,
+      coaches: ["coach-1"],
+    }));
+  });
+
+  it("requires a taker for our kicks but not for the opponent's", async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.click(screen.getByText("✓ We scored"));
+    expect(showWarning).toHaveBeenCalledWith("Please select who took the kick");
+    expect(mockCreateShootoutKick).not.toHaveBeenCalled();
+
+    await user.click(screen.getByText("✓ Eagles scored"));
+    expect(mockCreateShootoutKick).toHaveBeenCalledWith(expect.objectContaining({
+      kickNumber: 1,
+      scoredByUs: false,
+      takerId: undefined,
+      scored: true,
+    }));
+  });
+
+  it("deletes a kick", async () => {
+    const user = userEvent.setup();
+    renderPanel({ kicks: [makeKick()] });
+
+    await user.click(screen.getByLabelText("Delete kick 1"));
+    expect(mockDeleteShootoutKick).toHaveBeenCalledWith("kick-1");
+  });
+
+  it("does not finish while the shootout is level", async () => {
+    const user = userEvent.setup();
+    const { onFinish } = renderPanel({ kicks: [makeKick(), makeKick({ id: "kick-2", kickNumber: 2, scoredByUs: false })] });
+
+    await user.click(screen.getByText("Finish Shootout"));
+    expect(onFinish).not.toHaveBeenCalled();
+    expect(showWarning).toHaveBeenCalled();
+  });
+
+  it("finishes once one side is ahead", async () => {
+    const user = userEvent.setup();
+    const { onFinish } = renderPanel({ kicks: [makeKick()] });
+
+    await user.click(screen.getByText("Finish Shootout"));
+    expect(onFinish).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,152 @@
+import { useState } from "react";
+import { showWarning } from "../../utils/toast";
+import { handleApiError } from "../../utils/errorHandler";
+import { calculateShootoutScore } from "../../utils/gameCalculations";
+import { PlayerSelect } from "../PlayerSelect";
+import type { GameMutationInput } from "../../hooks/useOfflineMutations";
+import type { Game, Team, PlayerWithRoster, ShootoutKick, LineupAssignment } from "./types";
+
+interface ShootoutPanelProps {
+  gameState: Game;
+  game: Game;
+  team: Team;
+  players: PlayerWithRoster[];
+  lineup: LineupAssignment[];
+  kicks: ShootoutKick[];
+  mutations: GameMutationInput;
+  onFinish: () => void | Promise<void>;
+}
+
+export function ShootoutPanel({
+  gameState,
+  game,
+  team,
+  players,
+  lineup,
+  kicks,
+  mutations,
+  onFinish,
+}: ShootoutPanelProps) {
+  const [takerId, setTakerId] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { ourScore, opponentScore } = calculateShootoutScore(kicks);
+  const opponentName = gameState.opponent ?? 'Opponent';
+  const onFieldPlayerIds = lineup
+    .filter(l => l.isStarter && l.playerId)
+    .map(l => l.playerId as string);
+
+  const handleRecordKick = async (scoredByUs: boolean, scored: boolean) => {
+    if (scoredByUs && !takerId) {
+      showWarning("Please select who took the kick");
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await mutations.createShootoutKick({
+        gameId: game.id,
+        kickNumber: kicks.reduce((max, k) => Math.max(max, k.kickNumber), 0) + 1,
+        scoredByUs,
+        takerId: scoredByUs ? takerId : undefined,
+        scored,
+        timestamp: new Date().toISOString(),
+        coaches: team.coaches,
+      });
+      if (scoredByUs) setTakerId("");
+    } catch (error) {
+      handleApiError(error, 'Failed to record shootout kick');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDeleteKick = async (kick: ShootoutKick) => {
+    try {
+      await mutations.deleteShootoutKick(kick.id);
+    } catch (error) {
+      handleApiError(error, 'Failed to delete shootout kick');
+    }
+  };
+
+  const handleFinish = () => {
+    if (ourScore === opponentScore) {
+      showWarning("The shootout is level. Record more kicks before finishing.");
+      return;
+    }
+    void onFinish();
+  };
+
+  return (
+    <div className="shootout-panel">
+      <h3>Penalty Shootout</h3>
+      <div className="shootout-tally" aria-live="polite">
+        <span>Us {ourScore}</span>
+        <span className="score-divider">–</span>
+        <span>{opponentScore} {opponentName}</span>
+      </div>
+
+      <div className="shootout-kick-form">
+        <div className="form-group">
+          <label htmlFor="shootoutTaker">Our kick taker</label>
+          <PlayerSelect
+            id="shootoutTaker"
+            players={players}
+            value={takerId}
+            onChange={setTakerId}
+            placeholder="Select player..."
+            className="w-full"
+            onFieldPlayerIds={onFieldPlayerIds}
+          />
+        </div>
+        <div className="goal-buttons">
+          <button onClick={() => handleRecordKick(true, true)} className="btn-goal btn-goal-us" disabled={isSaving}>
+            ✓ We scored
+          </button>
+          <button onClick={() => handleRecordKick(true, false)} className="btn-secondary" disabled={isSaving}>
+            ✗ We missed
+          </button>
+        </div>
+        <div className="goal-buttons">
+          <button onClick={() => handleRecordKick(false, true)} className="btn-goal btn-goal-opponent" disabled={isSaving}>
+            ✓ {opponentName} scored
+          </button>
+          <button onClick={() => handleRecordKick(false, false)} className="btn-secondary" disabled={isSaving}>
+            ✗ {opponentName} missed
+          </button>
+        </div>
+      </div>
+
+      {kicks.length > 0 && (
+        <ol className="shootout-kicks">
+          {kicks.map(kick => {
+            const taker = kick.takerId ? players.find(p => p.id === kick.takerId) : null;
+            return (
+              <li key={kick.id} className={`shootout-kick ${kick.scoredByUs ? 'goal-us' : 'goal-opponent'}`}>
+                <span className="shootout-kick__result">{kick.scored ? '✓' : '✗'}</span>
+                <span className="shootout-kick__taker">
+                  {kick.scoredByUs
+                    ? (taker ? `#${taker.playerNumber} ${taker.firstName} ${taker.lastName}` : 'Us')
+                    : opponentName}
+                </span>
+                <button
+                  onClick={() => { void handleDeleteKick(kick); }}
+                  className="shootout-kick__delete"
+                  aria-label={`Delete kick ${kick.kickNumber}`}
+                >
+                  ✕
+                </button>
+              </li>
+            );
+          })}
+        </ol>
+      )}
+
+      <div className="halftime-start-cta">
+        <button onClick={handleFinish} className="btn-primary btn-large">
+          Finish Shootout
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -225,6 +225,8 @@ const defaultProps = {
     createGoal: vi.fn(),
     updateGoal: vi.fn(),
     deleteGoal: vi.fn(),
+    createShootoutKick: vi.fn(),
+    deleteShootoutKick: vi.fn(),
     createGameNote: vi.fn(),
     updateGameNote: vi.fn(),
     deleteGameNote: vi.fn(),
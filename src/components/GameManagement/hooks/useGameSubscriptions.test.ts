@@ -34,6 +34,10 @@ const { mockHandleApiError } = vi.hoisted(() => ({
   mockHandleApiError: vi.fn(),
 }));
 
+const { mockGetCachedGameSnapshot } = vi.hoisted(() => ({
+  mockGetCachedGameSnapshot: vi.fn(),
+}));
+
 vi.mock('aws-amplify/data', () => ({
   generateClient: vi.fn(() => ({
     models: {
@@ -65,6 +69,10 @@ vi.mock('../../../utils/errorHandler', () => ({
   handleApiError: (...args: unknown[]) => mockHandleApiError(...args),
 }));
 
+vi.mock('../../../services/gameReadCacheService', () => ({
+  getCachedGameSnapshot: mockGetCachedGameSnapshot,
+}));
+
 // ---------------------------------------------------------------------------
 // Helpers
 // ---------------------------------------------------------------------------
@@ -628,4 +636,29 @@ describe('useGameSubscriptions — Game observeQuery handler', () => {
       expect(result.current.plannedRotations.map(r => r.rotationNumber)).toEqual([1, 2]);
     });
   });
+
+  describe('offline', () => {
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('starts from the saved plan, rotations and lineup and skips the lineup sync', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      mockGetCachedGameSnapshot.mockResolvedValue({
+        gamePlan: { id: 'gp-1', startingLineup: JSON.stringify([{ playerId: 'p1', positionId: 'pos-1' }]) },
+        plannedRotations: [{ id: 'r1', gamePlanId: 'gp-1', rotationNumber: 1 }],
+        lineup: [{ id: 'l1', playerId: 'p1', positionId: 'pos-1', isStarter: true }],
+      });
+      const props = createDefaultProps({ game: createDefaultGame({ status: 'scheduled' }) });
+
+      const { result } = renderHook(() => useGameSubscriptions(props));
+
+      await waitFor(() => expect(result.current.gamePlan?.id).toBe('gp-1'));
+      expect(result.current.plannedRotations.map(r => r.id)).toEqual(['r1']);
+      expect(result.current.lineup.map(l => l.id)).toEqual(['l1']);
+      expect(mockGetCachedGameSnapshot).toHaveBeenCalledWith('game-1');
+      expect(mockLineupList).not.toHaveBeenCalled();
+      expect(mockLineupCreate).not.toHaveBeenCalled();
+    });
+  });
 });
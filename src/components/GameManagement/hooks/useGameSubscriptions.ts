@@ -5,10 +5,12 @@ import type {
   Game,
   Team,
   GamePlan,
+  LineupAssignment,
   PlannedRotation,
 } from "../types";
 import { useAmplifyQuery } from "../../../hooks/useAmplifyQuery";
 import { handleApiError } from "../../../utils/errorHandler";
+import { getCachedGameSnapshot } from "../../../services/gameReadCacheService";
 
 const client = generateClient<Schema>();
 
@@ -32,11 +34,31 @@ export function useGameSubscriptions({
   const [gameState, setGameState] = useState(game);
   const [gamePlan, setGamePlan] = useState<GamePlan | null>(null);
   const [plannedRotations, setPlannedRotations] = useState<PlannedRotation[]>([]);
+  // Lineup saved by the game read cache, used while offline until live data arrives
+  const [cachedLineup, setCachedLineup] = useState<LineupAssignment[] | null>(null);
+
+  // observeQuery cannot reach AppSync offline, so start from the saved copy
+  useEffect(() => {
+    if (navigator.onLine) return;
+    let cancelled = false;
+    getCachedGameSnapshot(game.id)
+      .then((snapshot) => {
+        if (cancelled || !snapshot) return;
+        setCachedLineup(snapshot.lineup);
+        if (snapshot.gamePlan) {
+          setGamePlan(prev => prev ?? snapshot.gamePlan);
+          setPlannedRotations(prev => (prev.length > 0 ? prev : snapshot.plannedRotations));
+        }
+      })
+      .catch(() => { /* nothing saved on this device */ });
+    return () => { cancelled = true; };
+  }, [game.id]);
 
   // Simple data subscriptions via reusable hook
-  const { data: lineupRaw } = useAmplifyQuery('LineupAssignment', {
+  const { data: liveLineup } = useAmplifyQuery('LineupAssignment', {
     filter: { gameId: { eq: game.id } },
   }, [game.id]);
+  const lineupRaw = liveLineup.length === 0 && cachedLineup ? cachedLineup : liveLineup;
 
   // Deduplicate lineup assignments: when multiple assignments exist for the same
   // position (caused by a failed delete during substitution), keep only the most
@@ -86,6 +108,16 @@ export function useGameSubscriptions({
     sort: halfThenSeconds,
   }, [game.id]);
 
+  const { data: shootoutKicks } = useAmplifyQuery('ShootoutKick', {
+    filter: { gameId: { eq: game.id } },
+    sort: (a, b) => a.kickNumber - b.kickNumber,
+  }, [game.id]);
+
+  const { data: gameEvents } = useAmplifyQuery('GameEvent', {
+    filter: { gameId: { eq: game.id } },
+    sort: halfThenSeconds,
+  }, [game.id]);
+
   const { data: gameNotes } = useAmplifyQuery('GameNote', {
     filter: { gameId: { eq: game.id } },
     sort: nullSafeGameNotesSort,
@@ -148,21 +180,24 @@ export function useGameSubscriptions({
           }
 
           // Prevent a stale 'in-progress' subscription event from overwriting a
-          // locally-set halftime or completed state. This handles the race where the
+          // locally-set halftime, shootout or completed state. This handles the race where the
           // periodic saveInterval write (in-progress + lastStartTime) has a buffered
           // AppSync subscription event that arrives out-of-order after the halftime
           // or completed write's subscription event.
-          const isSecondHalfStartEvent =
-            updatedGame.status === 'in-progress' && updatedGame.currentHalf === 2;
+          const isNextPeriodStartEvent =
+            updatedGame.status === 'in-progress' &&
+            (updatedGame.currentHalf ?? 1) > (gameStateRef.current.currentHalf ?? 1);
+
+          const isPausedStatus = (status?: string | null) => status === 'halftime' || status === 'shootout';
 
           setGameState(prev => {
             if (prev.status === 'completed') {
               return prev;
             }
             if (
-              prev.status === 'halftime' &&
+              isPausedStatus(prev.status) &&
               updatedGame.status === 'in-progress' &&
-              !isSecondHalfStartEvent
+              !isNextPeriodStartEvent
             ) {
               return prev;
             }
@@ -174,9 +209,9 @@ export function useGameSubscriptions({
           if (gameStateRef.current.status === 'completed') {
             return;
           }
-            // Skip timer logic if local state is halftime unless this is a
-            // legitimate second-half start from another coach.
-            if (gameStateRef.current.status === 'halftime' && !isSecondHalfStartEvent) {
+            // Skip timer logic if local state is halftime or shootout unless this
+            // is a legitimate next-period start from another coach.
+            if (isPausedStatus(gameStateRef.current.status) && !isNextPeriodStartEvent) {
               return;
             }
 
@@ -272,6 +307,11 @@ export function useGameSubscriptions({
         return; // Only sync if game is scheduled
       }
 
+      // The existence check and creates below need the API
+      if (!navigator.onLine) {
+        return;
+      }
+
       if (!gamePlan.startingLineup) {
         console.log('Game plan has no starting lineup data');
         return;
@@ -337,6 +377,8 @@ export function useGameSubscriptions({
     lineup,
     playTimeRecords,
     goals,
+    shootoutKicks,
+    gameEvents,
     gameNotes,
     gamePlan,
     plannedRotations,
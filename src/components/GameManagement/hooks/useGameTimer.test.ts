@@ -203,6 +203,123 @@ describe('useGameTimer', () => {
     expect(mockOnHalftime).not.toHaveBeenCalled();
   });
 
+  it('pauses at the end of each quarter using the running game clock', () => {
+    const mockOnHalftime = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState.status = 'in-progress';
+    props.gameState.currentHalf = 2;
+    props.periodCount = 4;
+    props.halfLengthSeconds = 10;
+    // Second quarter ends at 2 × 10s of game time
+    props.currentTime = 19;
+    props.onHalftime = mockOnHalftime;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(1000); });
+    act(() => { vi.advanceTimersByTime(0); });
+    expect(mockOnHalftime).toHaveBeenCalledTimes(1);
+  });
+
+  it('does NOT pause mid-quarter once the first quarter length has passed', () => {
+    const mockOnHalftime = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState.status = 'in-progress';
+    props.gameState.currentHalf = 2;
+    props.periodCount = 4;
+    props.halfLengthSeconds = 10;
+    props.currentTime = 12;
+    props.onHalftime = mockOnHalftime;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(1000); });
+    act(() => { vi.advanceTimersByTime(0); });
+    expect(mockOnHalftime).not.toHaveBeenCalled();
+  });
+
+  it('keeps the period open past its length in added-time mode', () => {
+    const mockOnHalftime = vi.fn();
+    const mockSetCurrentTime = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState = { status: 'in-progress', currentHalf: 1, addedTimeMode: true } as Game;
+    props.halfLengthSeconds = 10;
+    props.currentTime = 9;
+    props.setCurrentTime = mockSetCurrentTime;
+    props.onHalftime = mockOnHalftime;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(3000); });
+    expect(mockOnHalftime).not.toHaveBeenCalled();
+    expect(mockSetCurrentTime).toHaveBeenLastCalledWith(12);
+  });
+
+  it('ends later periods on the nominal clock after earlier added time', () => {
+    const mockOnHalftime = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState = { status: 'in-progress', currentHalf: 2, addedTimeSeconds: [5] } as Game;
+    props.periodCount = 4;
+    props.halfLengthSeconds = 10;
+    // Nominal 2nd-quarter end is 20s; 5s of 1st-quarter added time moves it to 25s
+    props.currentTime = 21;
+    props.onHalftime = mockOnHalftime;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(1000); });
+    expect(mockOnHalftime).not.toHaveBeenCalled();
+    act(() => { vi.advanceTimersByTime(3000); });
+    expect(mockOnHalftime).toHaveBeenCalledTimes(1);
+  });
+
+  it('pauses between extra-time periods after their own length', () => {
+    const mockOnHalftime = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState = {
+      status: 'in-progress', currentHalf: 3, extraTimePeriods: 2, extraTimeLengthMinutes: 1,
+    } as Game;
+    props.halfLengthSeconds = 10;
+    // Regulation ends at 20s; the first extra-time period ends 60s later
+    props.currentTime = 78;
+    props.onHalftime = mockOnHalftime;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(1000); });
+    expect(mockOnHalftime).not.toHaveBeenCalled();
+    act(() => { vi.advanceTimersByTime(2000); });
+    expect(mockOnHalftime).toHaveBeenCalledTimes(1);
+  });
+
+  it('does NOT pause at the end of the last extra-time period', () => {
+    const mockOnHalftime = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState = {
+      status: 'in-progress', currentHalf: 4, extraTimePeriods: 2, extraTimeLengthMinutes: 1,
+    } as Game;
+    props.halfLengthSeconds = 10;
+    props.currentTime = 139;
+    props.onHalftime = mockOnHalftime;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(2000); });
+    expect(mockOnHalftime).not.toHaveBeenCalled();
+  });
+
   it('resets the halftime guard when gameState.currentHalf changes to 2', () => {
     const props = createDefaultProps();
     props.gameState.currentHalf = 1;
@@ -224,7 +341,8 @@ describe('useGameTimer', () => {
     const props = createDefaultProps();
     props.isRunning = true;
     props.gameState.status = 'in-progress';
-    props.halfLengthSeconds = 8000; // > 7200 so halftime check does not fire first
+    props.gameState.currentHalf = 2; // last period, so no break fires first
+    props.halfLengthSeconds = 1800;
     // Anchor at 7199s so 1s of wall-clock brings derived to 7200
     props.currentTime = 7199;
     props.setCurrentTime = mockSetCurrentTime;
@@ -247,7 +365,8 @@ describe('useGameTimer', () => {
     const props = createDefaultProps();
     props.isRunning = true;
     props.gameState.status = 'in-progress';
-    props.halfLengthSeconds = 8000; // > 7200 so halftime check does not fire first
+    props.gameState.currentHalf = 2; // last period, so no break fires first
+    props.halfLengthSeconds = 1800;
     props.currentTime = 7199; // Anchor at 7199s; after 1s derived = 7200 → end game fires
     props.setCurrentTime = mockSetCurrentTime;
     props.onEndGame = mockOnEndGame;
@@ -273,6 +392,45 @@ describe('useGameTimer', () => {
     expect(mockOnEndGame).toHaveBeenCalledTimes(1);
   });
 
+  it('keeps a knockout game running through extra time past 2 hours', () => {
+    const mockOnEndGame = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState = {
+      status: 'in-progress', currentHalf: 4, extraTimePeriods: 2, extraTimeLengthMinutes: 15,
+      addedTimeSeconds: [180, 240, 60],
+    } as Game;
+    props.halfLengthSeconds = 45 * 60;
+    // 118' on the nominal clock, after 8 minutes of added time in earlier periods
+    props.currentTime = 126 * 60;
+    props.onEndGame = mockOnEndGame;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(2000); });
+    expect(mockOnEndGame).not.toHaveBeenCalled();
+  });
+
+  it('ends a forgotten knockout game well after its scheduled end', () => {
+    const mockOnEndGame = vi.fn();
+
+    const props = createDefaultProps();
+    props.isRunning = true;
+    props.gameState = {
+      status: 'in-progress', currentHalf: 4, extraTimePeriods: 2, extraTimeLengthMinutes: 15,
+    } as Game;
+    props.halfLengthSeconds = 45 * 60;
+    // 120' scheduled plus the 30 minute grace
+    props.currentTime = 150 * 60 - 1;
+    props.onEndGame = mockOnEndGame;
+
+    renderHook(() => useGameTimer(props));
+
+    act(() => { vi.advanceTimersByTime(1000); });
+    expect(mockOnEndGame).toHaveBeenCalledTimes(1);
+  });
+
   it('clears the interval when isRunning becomes false', () => {
     const clearIntervalSpy = vi.spyOn(global, 'clearInterval');
     const props = createDefaultProps();
@@ -2,13 +2,20 @@ import { useEffect, useRef } from "react";
 import { generateClient } from "aws-amplify/data";
 import type { Schema } from "../../../../amplify/data/resource";
 import type { Game, GamePlan, PlannedRotation } from "../types";
+import { getPeriodEndSeconds, toNominalSeconds } from "../../../utils/gameTimeUtils";
 
 const client = generateClient<Schema>();
 
+// A clock left running ends the game once it is this far past the scheduled
+// end (extra time included), and never before the old 2-hour limit
+const AUTO_END_GRACE_SECONDS = 30 * 60;
+const MIN_AUTO_END_SECONDS = 7200;
+
 interface UseGameTimerParams {
   game: Game;
   gameState: Game;
-  halfLengthSeconds: number;
+  halfLengthSeconds: number; // length of one period
+  periodCount?: number; // defaults to 2 (halves)
   currentTime: number;
   setCurrentTime: React.Dispatch<React.SetStateAction<number>>;
   isRunning: boolean;
@@ -27,6 +34,7 @@ export function useGameTimer({
   game,
   gameState,
   halfLengthSeconds,
+  periodCount = 2,
   currentTime,
   setCurrentTime,
   isRunning,
@@ -44,9 +52,9 @@ export function useGameTimer({
   const startMsRef = useRef<number | null>(null);   // null = paused
   const startElapsedRef = useRef<number>(0);        // game seconds at last anchor
 
-  // Reset the halftime guard when we enter the second half
+  // Reset the break guard whenever a new period starts
   useEffect(() => {
-    if (gameState.currentHalf === 2) {
+    if ((gameState.currentHalf ?? 1) > 1) {
       halftimeTriggeredRef.current = false;
     }
   }, [gameState.currentHalf]);
@@ -82,10 +90,14 @@ export function useGameTimer({
       interval = setInterval(() => {
         if (startMsRef.current === null) return;
         const derived = startElapsedRef.current + Math.floor((Date.now() - startMsRef.current) / 1000);
+        const currentPeriod = gameState.currentHalf ?? 1;
+        // Planned minutes and period ends are on the nominal clock, which
+        // excludes added time played in earlier periods
+        const nominal = toNominalSeconds(derived, currentPeriod, gameState.addedTimeSeconds);
 
         // Check for upcoming rotations
         if (gamePlan && plannedRotations.length > 0) {
-          const currentMinutes = Math.floor(derived / 60);
+          const currentMinutes = Math.floor(nominal / 60);
           const nextRotation = plannedRotations.find(r => {
             return r.half === gameState.currentHalf &&
                    currentMinutes === r.gameMinute - 1 &&
@@ -99,14 +111,34 @@ export function useGameTimer({
           }
         }
 
-        // Auto-pause at halftime (only in first half, only once)
-        if (gameState.currentHalf === 1 && derived >= halfLengthSeconds && !halftimeTriggeredRef.current) {
+        // Once extra time has started, its last period replaces the regulation one
+        const lastPeriod = currentPeriod > periodCount
+          ? periodCount + (gameState.extraTimePeriods ?? 0)
+          : periodCount;
+        const clock = {
+          periodLengthSeconds: halfLengthSeconds,
+          periodCount,
+          extraTimeLengthSeconds: (gameState.extraTimeLengthMinutes ?? 0) * 60,
+        };
+        const periodEnd = getPeriodEndSeconds(currentPeriod, clock);
+
+        // Auto-pause at the end of each period except the last (only once per period).
+        // In added-time mode the period stays open until the coach ends it.
+        if (
+          currentPeriod < lastPeriod &&
+          !gameState.addedTimeMode &&
+          nominal >= periodEnd &&
+          !halftimeTriggeredRef.current
+        ) {
           halftimeTriggeredRef.current = true;
           void onHalftimeRef.current();
         }
 
-        // Auto-end game after 2 hours maximum (7200 seconds)
-        if (derived >= 7200 && !endGameTriggeredRef.current) {
+        // Auto-end a forgotten game. The nominal clock leaves out added time
+        // already played, so stoppages don't bring the cut-off forward.
+        const scheduledEnd = getPeriodEndSeconds(periodCount + (gameState.extraTimePeriods ?? 0), clock);
+        const autoEndSeconds = Math.max(MIN_AUTO_END_SECONDS, scheduledEnd + AUTO_END_GRACE_SECONDS);
+        if (nominal >= autoEndSeconds && !endGameTriggeredRef.current) {
           endGameTriggeredRef.current = true;
           void onEndGameRef.current();
         }
@@ -119,7 +151,8 @@ export function useGameTimer({
       if (interval) clearInterval(interval);
     };
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [isRunning, gameState.status, gameState.currentHalf, halfLengthSeconds, game.id]);
+  }, [isRunning, gameState.status, gameState.currentHalf, gameState.addedTimeMode, gameState.addedTimeSeconds,
+    gameState.extraTimePeriods, gameState.extraTimeLengthMinutes, halfLengthSeconds, periodCount, game.id]);
   // NOTE: currentTime removed from deps — timer derives from wall clock refs, not accumulated state
 
   /** Sync anchor refs after a programmatic jump in currentTime (e.g. test controls). */
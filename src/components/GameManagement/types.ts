@@ -6,6 +6,9 @@ export type {
   LineupAssignment,
   PlayTimeRecord,
   Goal,
+  ShootoutKick,
+  GameEvent,
+  GameEventType,
   GameNote,
   GamePlan,
   PlannedRotation,
@@ -131,6 +131,22 @@ const {
   })(),
 }));
 
+const {
+  mockGamePlanUpdate,
+  mockPlannedRotationUpdate,
+  mockCreateGamePlan,
+  mockCreatePlannedRotation,
+  mockPatchCachedGameSnapshot,
+  networkState,
+} = vi.hoisted(() => ({
+  mockGamePlanUpdate: vi.fn(),
+  mockPlannedRotationUpdate: vi.fn(),
+  mockCreateGamePlan: vi.fn(),
+  mockCreatePlannedRotation: vi.fn(),
+  mockPatchCachedGameSnapshot: vi.fn(),
+  networkState: { isOnline: true },
+}));
+
 const emitGamePlans = (setMockGamePlans as typeof setMockGamePlans & { emit: () => void }).emit;
 const emitRotations = (setMockRotations as typeof setMockRotations & { emit: () => void }).emit;
 const subscribeToGamePlans = (setMockGamePlans as typeof setMockGamePlans & {
@@ -154,7 +170,7 @@ vi.mock('aws-amplify/data', () => ({
           }),
         })),
         list: vi.fn().mockResolvedValue({ data: [mockGamePlan] }),
-        update: vi.fn().mockResolvedValue({ data: mockGamePlan }),
+        update: mockGamePlanUpdate,
         create: vi.fn().mockResolvedValue({ data: mockGamePlan }),
         delete: vi.fn().mockResolvedValue({ data: {} }),
       },
@@ -164,7 +180,7 @@ vi.mock('aws-amplify/data', () => ({
             unsubscribe: subscribeToRotations(next),
           }),
         })),
-        update: vi.fn().mockResolvedValue({ data: mockRotations[0] }),
+        update: mockPlannedRotationUpdate,
         create: vi.fn().mockResolvedValue({ data: mockRotations[0] }),
         delete: vi.fn().mockResolvedValue({ data: {} }),
       },
@@ -193,12 +209,32 @@ vi.mock('../hooks/useTeamCoachProfiles', () => ({
   })),
 }));
 
+vi.mock('../hooks/useGameReadCache', () => ({
+  useGameReadCache: () => ({ isOnline: networkState.isOnline, savedAt: null }),
+}));
+
+vi.mock('../services/gameReadCacheService', () => ({
+  getCachedGameSnapshot: vi.fn().mockResolvedValue(undefined),
+  patchCachedGameSnapshot: mockPatchCachedGameSnapshot,
+}));
+
+// Plan writes go through the offline-capable mutations; online they reach the
+// client mocks above so the assertions below see the same calls
 vi.mock('../hooks/useOfflineMutations', () => ({
   useOfflineMutations: vi.fn(() => ({
     mutations: {
       createGameNote: vi.fn(),
       updateGameNote: vi.fn(),
       deleteGameNote: vi.fn(),
+      updateGame: vi.fn().mockResolvedValue(undefined),
+      createGamePlan: mockCreateGamePlan,
+      updateGamePlan: (id: string, fields: object) => mockGamePlanUpdate({ id, ...fields }),
+      deleteGamePlan: vi.fn().mockResolvedValue(undefined),
+      createPlannedRotation: mockCreatePlannedRotation,
+      updatePlannedRotation: (id: string, fields: object) => mockPlannedRotationUpdate({ id, ...fields }),
+      deletePlannedRotation: vi.fn().mockResolvedValue(undefined),
+      createPlayerAvailability: vi.fn().mockResolvedValue(undefined),
+      updatePlayerAvailability: vi.fn().mockResolvedValue(undefined),
     },
   })),
 }));
@@ -253,12 +289,19 @@ vi.mock('../services/rotationPlannerService', () => ({
   calculatePlayTime: vi.fn(() => new Map()),
   calculateFairRotations: vi.fn(() => ({ rotations: [], warnings: [] })),
   copyGamePlan: vi.fn().mockResolvedValue(undefined),
+  fetchSeasonCatchUpMinutes: vi.fn().mockResolvedValue(undefined),
+  fetchTournamentCatchUpMinutes: vi.fn().mockResolvedValue(new Map()),
+  findPlanLeagueRuleViolations: vi.fn(() => []),
+  parseKeeperPlan: vi.fn(() => null),
+  DEFAULT_FAIRNESS_WINDOW_GAMES: 3,
 }));
 
-import { GamePlanner, type RotationTimelineItem } from './GamePlanner';
-import { reconcileSelectionKey } from '../utils/gamePlannerTimeline';
+import { GamePlanner } from './GamePlanner';
+import { calculateFairRotations, fetchSeasonCatchUpMinutes, findPlanLeagueRuleViolations } from '../services/rotationPlannerService';
+import { showWarning } from '../utils/toast';
+import { buildPrePlanTimelineItems, reconcileSelectionKey, type RotationTimelineItem } from '../utils/gamePlannerTimeline';
 
-function renderGamePlanner() {
+function renderGamePlanner(teamOverrides: Record<string, unknown> = {}) {
   return render(
     <GamePlanner
       game={{ id: 'game-1', opponent: 'Rivals FC', halfLengthMinutes: 30 } as never}
@@ -268,6 +311,7 @@ function renderGamePlanner() {
         coaches: ['coach-1'],
         halfLengthMinutes: 30,
         maxPlayersOnField: 2,
+        ...teamOverrides,
       } as never}
       onBack={vi.fn()}
     />,
@@ -282,6 +326,12 @@ describe('GamePlanner timeline interaction', () => {
     resetSubscriptions();
     setMockGamePlans([mockGamePlan]);
     setMockRotations(mockRotations);
+    mockGamePlanUpdate.mockResolvedValue({ data: mockGamePlan });
+    mockPlannedRotationUpdate.mockResolvedValue({ data: mockRotations[0] });
+    mockCreateGamePlan.mockResolvedValue(undefined);
+    mockCreatePlannedRotation.mockResolvedValue(undefined);
+    mockPatchCachedGameSnapshot.mockResolvedValue(undefined);
+    networkState.isOnline = true;
     originalScrollIntoView = Element.prototype.scrollIntoView;
     Element.prototype.scrollIntoView = vi.fn();
   });
@@ -310,6 +360,86 @@ describe('GamePlanner timeline interaction', () => {
     expect(startPill).toHaveAttribute('aria-selected', 'true');
   });
 
+  it('saves a keeper plan seeded with the starting keeper when a swap schedule is chosen', async () => {
+    const user = userEvent.setup();
+
+    renderGamePlanner();
+
+    const scheduleSelect = await screen.findByLabelText('Keeper swap schedule');
+    await user.selectOptions(scheduleSelect, 'half');
+
+    await waitFor(() => {
+      expect(mockGamePlanUpdate).toHaveBeenCalledWith(expect.objectContaining({
+        id: 'plan-1',
+        keeperPlan: JSON.stringify({ eligibleKeeperIds: ['player-1'], schedule: 'half' }),
+      }));
+    });
+    expect(screen.getByRole('group', { name: 'Eligible keepers' })).toBeInTheDocument();
+  });
+
+  it('saves the keeper swap interval when the field loses focus, not on every keystroke', async () => {
+    const user = userEvent.setup();
+
+    renderGamePlanner();
+
+    await user.selectOptions(await screen.findByLabelText('Keeper swap schedule'), 'minutes');
+    await waitFor(() => expect(mockGamePlanUpdate).toHaveBeenCalledTimes(1));
+
+    const intervalInput = screen.getByLabelText('Keeper swap interval in minutes');
+    await user.tripleClick(intervalInput);
+    await user.keyboard('15');
+    expect(intervalInput).toHaveValue(15);
+    expect(mockGamePlanUpdate).toHaveBeenCalledTimes(1);
+
+    await user.tab();
+    await waitFor(() => {
+      expect(mockGamePlanUpdate).toHaveBeenLastCalledWith(expect.objectContaining({
+        keeperPlan: JSON.stringify({ eligibleKeeperIds: ['player-1'], schedule: 'minutes', intervalMinutes: 15 }),
+      }));
+    });
+    expect(mockGamePlanUpdate).toHaveBeenCalledTimes(2);
+  });
+
+  it('shows auto-generate warnings before saving and saves nothing when the coach backs out', async () => {
+    const user = userEvent.setup();
+    vi.mocked(calculateFairRotations).mockReturnValueOnce({
+      rotations: [{ substitutions: [] }],
+      warnings: ['#10 should never play on defense (planned: 2 rotations)'],
+    });
+    mockConfirm.mockResolvedValueOnce(true).mockResolvedValueOnce(false);
+
+    renderGamePlanner();
+
+    await user.click(await screen.findByRole('button', { name: /Auto-Generate/i }));
+
+    await waitFor(() => {
+      expect(mockConfirm).toHaveBeenLastCalledWith(expect.objectContaining({
+        title: 'Review Plan Warnings',
+        message: expect.stringContaining('#10 should never play on defense (planned: 2 rotations)'),
+      }));
+    });
+    expect(mockPlannedRotationUpdate).not.toHaveBeenCalled();
+    expect(screen.getByText(/#10 should never play on defense/)).toBeInTheDocument();
+  });
+
+  it('still generates rotations when earlier play time cannot be loaded', async () => {
+    const user = userEvent.setup();
+    vi.mocked(fetchSeasonCatchUpMinutes).mockRejectedValueOnce(new Error('Network error'));
+
+    renderGamePlanner();
+
+    await user.click(await screen.findByRole('button', { name: /Auto-Generate/i }));
+
+    await waitFor(() => {
+      expect(mockPlannedRotationUpdate).toHaveBeenCalled();
+    });
+    expect(calculateFairRotations).toHaveBeenCalledWith(
+      expect.anything(), expect.anything(), expect.anything(), expect.anything(), expect.anything(),
+      expect.anything(), undefined, expect.objectContaining({ initialPlayTimeMinutes: undefined }),
+    );
+    expect(showWarning).toHaveBeenCalledWith('Could not load earlier play time, so these rotations only balance this game.');
+  });
+
   it('moves selection with keyboard arrows and keeps focus on selected pill', async () => {
     const user = userEvent.setup();
 
@@ -440,6 +570,22 @@ describe('GamePlanner timeline interaction', () => {
     expect(reconcileSelectionKey(syntheticTimeline, 'rotation-1-rotation-1-reloaded')).toBe('rotation-1-10-synthetic');
   });
 
+  it('keeps quarter-break selections when the pre-plan timeline is rebuilt', () => {
+    const quarterTimeline = buildPrePlanTimelineItems(12, 6, 4);
+
+    expect(quarterTimeline.map((item) => [item.label, item.variant])).toEqual([
+      ['Start', 'starting'],
+      ['R1', 'rotation'],
+      ['Q2', 'break'],
+      ['R3', 'rotation'],
+      ['HT', 'halftime'],
+      ['R5', 'rotation'],
+      ['Q4', 'break'],
+      ['R7', 'rotation'],
+    ]);
+    expect(reconcileSelectionKey(quarterTimeline, 'rotation-6-q4-reloaded')).toBe('rotation-6-36-synthetic');
+  });
+
   describe('planner controls and plan display', () => {
     it('interval input renders with accessible label', async () => {
       setMockGamePlans([]);
@@ -463,6 +609,38 @@ describe('GamePlanner timeline interaction', () => {
       ).toBeInTheDocument();
     });
 
+    it('builds a plan offline with ids made on the device and shows it straight away', async () => {
+      const user = userEvent.setup();
+      setMockGamePlans([]);
+      setMockRotations([]);
+      networkState.isOnline = false;
+
+      renderGamePlanner();
+
+      await user.click(await screen.findByRole('button', { name: /Create Game Plan/i }));
+
+      await waitFor(() => {
+        expect(mockCreateGamePlan).toHaveBeenCalledWith(expect.objectContaining({
+          id: expect.any(String),
+          gameId: 'game-1',
+          coaches: ['coach-1'],
+        }));
+      });
+      const planId = mockCreateGamePlan.mock.calls[0][0].id;
+      expect(mockCreatePlannedRotation).toHaveBeenCalled();
+      for (const [fields] of mockCreatePlannedRotation.mock.calls) {
+        expect(fields).toMatchObject({ id: expect.any(String), gamePlanId: planId });
+      }
+
+      // No server echo offline — the plan on screen comes from the local copy
+      expect(await screen.findByRole('button', { name: /Update Plan/i })).toBeInTheDocument();
+      await waitFor(() => {
+        expect(mockPatchCachedGameSnapshot).toHaveBeenCalledWith('game-1', expect.objectContaining({
+          gamePlan: expect.objectContaining({ id: planId }),
+        }));
+      });
+    });
+
     it('shows "Update Plan" button when a game plan already exists', async () => {
       // beforeEach already seeds mockGamePlan + mockRotations
       renderGamePlanner();
@@ -492,6 +670,23 @@ describe('GamePlanner timeline interaction', () => {
       expect(await screen.findByText(/Projected Play Time/i)).toBeInTheDocument();
     });
 
+    it('checks the plan against the team league rules', async () => {
+      vi.mocked(findPlanLeagueRuleViolations).mockReturnValue([
+        { type: 'min-play', playerId: 'player-3', message: '#3 plays 33% of the game, below the 50% minimum' },
+      ]);
+      renderGamePlanner({ leagueRules: JSON.stringify({ preset: 'min-play', rules: [] }) });
+
+      const check = await screen.findByLabelText('League rule check');
+      expect(check).toHaveTextContent('Plan breaks the league rules (Minimum play (50%))');
+      expect(check).toHaveTextContent('#3 plays 33% of the game, below the 50% minimum');
+      expect(findPlanLeagueRuleViolations).toHaveBeenCalledWith(
+        expect.any(Array),
+        expect.any(Array),
+        [{ type: 'min-play', value: 50 }],
+        expect.objectContaining({ totalGameMinutes: 60, periodCount: 2 }),
+      );
+    });
+
     it('rotation detail panel shows substitution display when rotation has planned subs', async () => {
       const user = userEvent.setup();
       // beforeEach already seeds mockGamePlan + mockRotations; mockRotations[0] has one planned sub
@@ -3,14 +3,22 @@ import { generateClient } from "aws-amplify/data";
 import type { Schema } from "../../amplify/data/resource";
 import type {
   Game, Team, FormationPosition, GamePlan, PlannedRotation, GameNote,
-  PlayerAvailability, PlayerWithRoster as PlayerWithRosterBase,
+  PlayerAvailability, PlayerWithRoster as PlayerWithRosterBase, KeeperPlan, KeeperSchedule,
 } from "../types/schema";
 import {
   calculatePlayTime,
   calculateFairRotations,
   copyGamePlan,
+  fetchSeasonCatchUpMinutes,
+  fetchTournamentCatchUpMinutes,
+  findPlanLeagueRuleViolations,
+  parseKeeperPlan,
+  updatePlayerAvailability,
+  DEFAULT_FAIRNESS_WINDOW_GAMES,
+  type FairnessWindow,
   type PlannedSubstitution,
 } from "../services/rotationPlannerService";
+import { fetchPracticeAttendanceRates } from "../services/practiceService";
 import { LineupBuilder } from "./LineupBuilder";
 import { PlayerAvailabilityGrid } from "./PlayerAvailabilityGrid";
 import { useTeamData } from "../hooks/useTeamData";
@@ -26,8 +34,40 @@ import { UI_CONSTANTS } from "../constants/ui";
 import { useAmplifyQuery } from "../hooks/useAmplifyQuery";
 import { useTeamCoachProfiles } from "../hooks/useTeamCoachProfiles";
 import { computeLineupAtRotation, computeLineupDiff } from "../utils/gamePlannerUtils";
-import { useOfflineMutations } from "../hooks/useOfflineMutations";
+import {
+  useOfflineMutations,
+  type GamePlanUpdateFields,
+  type PlannedRotationCreateFields,
+  type PlannedRotationUpdateFields,
+} from "../hooks/useOfflineMutations";
+import { getCachedGameSnapshot, patchCachedGameSnapshot } from "../services/gameReadCacheService";
+import { useGameReadCache } from "../hooks/useGameReadCache";
+import { OfflineDataNotice } from "./OfflineDataNotice";
 import { PreGameNotesPanel } from "./GameManagement/PreGameNotesPanel";
+import {
+  getBreakRotationNumber,
+  getHalftimeAfterPeriod,
+  getPeriodCount,
+  getPeriodName,
+  getRotationGameMinute,
+  getRotationPeriod,
+  getRotationsPerPeriod,
+  getTotalGameMinutes,
+  getTotalRotations,
+} from "../utils/periodUtils";
+import {
+  buildPrePlanTimelineItems,
+  buildRotationTimelineItems,
+  findTimelineItemBySemanticKey,
+  getBreakRotationLabels,
+  getSelectionKey,
+  getSemanticSelectionKey,
+  parsePlannedSubstitutions,
+  reconcileSelectionKey,
+  type RotationSelection,
+  type RotationTimelineItem,
+} from "../utils/gamePlannerTimeline";
+import { getLeagueRuleProfileLabel, parseLeagueRuleProfile } from "../utils/leagueRuleUtils";
 import { CreateEditNoteModal } from "./GameManagement/CreateEditNoteModal";
 
 const client = generateClient<Schema>();
@@ -43,18 +83,6 @@ interface GamePlannerProps {
   onBack: () => void;
 }
 
-export type RotationSelection = number | 'starting' | 'halftime';
-
-export interface RotationTimelineItem {
-  key: string;
-  label: string;
-  selection: RotationSelection;
-  substitutionsCount: number;
-  rotation?: PlannedRotation;
-  gameMinute?: number;
-  variant: 'starting' | 'rotation' | 'halftime';
-}
-
 interface PersistedLineupEntry {
   positionId: string;
   playerId: string;
@@ -98,213 +126,6 @@ function normalizeRotationsForHelperCalls<TRotation extends Pick<PlannedRotation
   }));
 }
 
-function parsePlannedSubstitutions(
-  plannedSubstitutions: PlannedRotation['plannedSubstitutions'],
-  errorContext?: string,
-): PlannedSubstitution[] {
-  try {
-    const parsed = JSON.parse((plannedSubstitutions as string) ?? '[]') as unknown;
-    return Array.isArray(parsed) ? parsed as PlannedSubstitution[] : [];
-  } catch (error) {
-    if (errorContext) {
-      logError(errorContext, error);
-    }
-    return [];
-  }
-}
-
-function getRotationSubstitutionsCount(rotation: Pick<PlannedRotation, 'plannedSubstitutions'>): number {
-  return parsePlannedSubstitutions(rotation.plannedSubstitutions).length;
-}
-
-function getRotationsPerHalf(halfLengthMinutes: number, intervalMinutes: number): number {
-  return Math.max(0, Math.floor(halfLengthMinutes / intervalMinutes) - 1);
-}
-
-function getRotationMinute(
-  rotationNumber: number,
-  rotationsPerHalf: number,
-  halfLengthMinutes: number,
-  rotationIntervalMinutes: number,
-): number {
-  if (rotationNumber <= rotationsPerHalf) {
-    return rotationNumber * rotationIntervalMinutes;
-  }
-
-  const secondHalfIndex = rotationNumber - rotationsPerHalf - 1;
-  return halfLengthMinutes + (secondHalfIndex * rotationIntervalMinutes);
-}
-
-function buildRotationTimelineItems(
-  rotations: PlannedRotation[],
-  halftimeRotationNumber?: number,
-): RotationTimelineItem[] {
-  const items: RotationTimelineItem[] = [
-    {
-      key: 'starting',
-      label: 'Start',
-      selection: 'starting',
-      substitutionsCount: 0,
-      variant: 'starting',
-    },
-  ];
-
-  if (rotations.length === 0) {
-    items.push({
-      key: 'halftime',
-      label: 'HT',
-      selection: 'halftime',
-      substitutionsCount: 0,
-      variant: 'halftime',
-    });
-    return items;
-  }
-
-  const seenHalftime = new Set<string>();
-  for (const rotation of rotations) {
-    const isHalftime = rotation.rotationNumber === halftimeRotationNumber;
-    if (isHalftime) {
-      const halftimeKey = rotation.id ? `halftime-${rotation.id}` : `halftime-${rotation.rotationNumber}-${rotation.gameMinute}`;
-      seenHalftime.add(halftimeKey);
-      items.push({
-        key: halftimeKey,
-        label: 'HT',
-        selection: 'halftime',
-        substitutionsCount: getRotationSubstitutionsCount(rotation),
-        rotation,
-        variant: 'halftime',
-      });
-      continue;
-    }
-
-    items.push({
-      key: rotation.id
-        ? `rotation-${rotation.rotationNumber}-${rotation.id}`
-        : `rotation-${rotation.rotationNumber}-${rotation.gameMinute}`,
-      label: `R${rotation.rotationNumber}`,
-      selection: rotation.rotationNumber,
-      substitutionsCount: getRotationSubstitutionsCount(rotation),
-      rotation,
-      gameMinute: rotation.gameMinute,
-      variant: 'rotation',
-    });
-  }
-
-  if (!items.some((item) => item.selection === 'halftime')) {
-    items.splice(1, 0, {
-      key: 'halftime',
-      label: 'HT',
-      selection: 'halftime',
-      substitutionsCount: 0,
-      variant: 'halftime',
-    });
-  }
-
-  return items;
-}
-
-function buildPrePlanTimelineItems(
-  halfLengthMinutes: number,
-  rotationIntervalMinutes: number,
-): RotationTimelineItem[] {
-  const rotationsPerHalf = getRotationsPerHalf(halfLengthMinutes, rotationIntervalMinutes);
-  const halftimeRotationNumber = rotationsPerHalf > 0 ? rotationsPerHalf + 1 : 1;
-  const totalRotations = rotationsPerHalf * 2 + 1;
-
-  const items: RotationTimelineItem[] = [
-    {
-      key: 'starting',
-      label: 'Start',
-      selection: 'starting',
-      substitutionsCount: 0,
-      variant: 'starting',
-    },
-  ];
-
-  for (let rotationNumber = 1; rotationNumber <= totalRotations; rotationNumber++) {
-    const gameMinute = getRotationMinute(
-      rotationNumber,
-      rotationsPerHalf,
-      halfLengthMinutes,
-      rotationIntervalMinutes,
-    );
-
-    if (rotationNumber === halftimeRotationNumber) {
-      items.push({
-        key: `halftime-${rotationNumber}-${gameMinute}`,
-        label: 'HT',
-        selection: 'halftime',
-        substitutionsCount: 0,
-        gameMinute,
-        variant: 'halftime',
-      });
-      continue;
-    }
-
-    items.push({
-      key: `rotation-${rotationNumber}-${gameMinute}-synthetic`,
-      label: `R${rotationNumber}`,
-      selection: rotationNumber,
-      substitutionsCount: 0,
-      gameMinute,
-      variant: 'rotation',
-    });
-  }
-
-  return items;
-}
-
-function getSelectionKey(item: RotationTimelineItem): string {
-  if (item.selection === 'starting') return 'starting';
-  if (item.selection === 'halftime') return 'halftime';
-  return `rotation-${item.selection}`;
-}
-
-function getSemanticSelectionKey(selectionKey: string): string | null {
-  if (selectionKey === 'starting') return 'starting';
-  if (selectionKey === 'halftime' || selectionKey.startsWith('halftime-')) return 'halftime';
-
-  const rotationMatch = /^rotation-(\d+)(?:-|$)/.exec(selectionKey);
-  if (rotationMatch) {
-    return `rotation-${rotationMatch[1]}`;
-  }
-
-  if (/^rotation-[^-]+$/.test(selectionKey)) {
-    return selectionKey;
-  }
-
-  return null;
-}
-
-function findTimelineItemBySemanticKey(
-  timelineItems: RotationTimelineItem[],
-  semanticSelectionKey: string,
-): RotationTimelineItem | undefined {
-  return timelineItems.find((item) => getSelectionKey(item) === semanticSelectionKey);
-}
-
-function reconcileSelectionKey(
-  timelineItems: RotationTimelineItem[],
-  currentSelectionKey: string,
-): string {
-  if (timelineItems.some((item) => item.key === currentSelectionKey)) {
-    return currentSelectionKey;
-  }
-
-  const semanticSelectionKey = getSemanticSelectionKey(currentSelectionKey);
-  if (semanticSelectionKey) {
-    const semanticMatch = findTimelineItemBySemanticKey(timelineItems, semanticSelectionKey);
-    if (semanticMatch) {
-      return semanticMatch.key;
-    }
-  }
-
-  const startItem = timelineItems.find((item) => item.selection === 'starting');
-  if (startItem) return startItem.key;
-
-  return timelineItems[0]?.key ?? 'starting';
-}
-
 function getTimelineTabId(itemKey: string): string {
   return `planner-timeline-tab-${itemKey}`;
 }
@@ -391,6 +212,11 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
   // Use a ref to store the current gamePlanId for use in subscriptions
   const gamePlanIdRef = useRef<string | null>(null);
 
+  // Set once a plan change is made offline. observeQuery never echoes those
+  // back, so they are applied to the plan on screen and empty results must
+  // not clear it until the device is online again.
+  const offlineEditsRef = useRef(false);
+
   // Track in-flight saves to prevent observeQuery from clobbering local state
   // with stale DynamoDB data while saves are pending.
   // When saves complete, we apply the latest buffered subscription data.
@@ -438,11 +264,29 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
   const [gamePlan, setGamePlan] = useState<GamePlan | null>(null);
   const [rotations, setRotations] = useState<PlannedRotation[]>([]);
   const { mutations } = useOfflineMutations();
+  // Save the plan for offline use each time it changes, so it is ready at the field
+  const { isOnline, savedAt: offlineCopySavedAt } = useGameReadCache(
+    game.id,
+    [gamePlan?.updatedAt, ...rotations.map(r => r.updatedAt)].join('|')
+  );
   const { profileMap } = useTeamCoachProfiles({ teamId: team.id, onFocusRefetch: true });
   const [notesRefreshKey, setNotesRefreshKey] = useState(0);
-  const { data: availabilities } = useAmplifyQuery('PlayerAvailability', {
+  const { data: liveAvailabilities } = useAmplifyQuery('PlayerAvailability', {
     filter: { gameId: { eq: game.id } },
   }, [game.id]);
+  // Availability marked offline (or read from the device copy) until the live query has it
+  const [offlineAvailabilities, setOfflineAvailabilities] = useState<PlayerAvailability[]>([]);
+  const availabilities = useMemo(() => (
+    offlineAvailabilities.length === 0
+      ? liveAvailabilities
+      : [
+        ...liveAvailabilities.filter(a => !offlineAvailabilities.some(o => o.playerId === a.playerId)),
+        ...offlineAvailabilities,
+      ]
+  ), [liveAvailabilities, offlineAvailabilities]);
+  useEffect(() => {
+    if (isOnline) setOfflineAvailabilities([]);
+  }, [isOnline, liveAvailabilities]);
   const { data: gameNotes } = useAmplifyQuery('GameNote', {
     filter: { gameId: { eq: game.id } },
     sort: (a, b) => {
@@ -453,6 +297,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
   }, [game.id, notesRefreshKey]);
   const [startingLineup, setStartingLineup] = useState<Map<string, string>>(new Map()); // positionId -> playerId
   const [halftimeLineup, setHalftimeLineup] = useState<Map<string, string> | null>(null); // positionId -> playerId for H2; null = not explicitly set (use fallback)
+  const [keeperPlan, setKeeperPlan] = useState<KeeperPlan | null>(null); // null = one keeper all game
   const [rotationIntervalMinutes, setRotationIntervalMinutes] = useState(10);
   // Display state for the rotations-per-half stepper. Kept separate from the
   // rotationIntervalMinutes source-of-truth so +/- always feels responsive even
@@ -461,9 +306,11 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
   const [rotationsPerHalfInput, setRotationsPerHalfInput] = useState(() =>
     Math.max(0, Math.floor((game.halfLengthMinutes ?? team.halfLengthMinutes ?? 30) / 10) - 1)
   );
-  // Per-game half length override. Initialised from game record (null → falls
+  // Per-game period length override. Initialised from game record (null → falls
   // back to team default). Saved to Game table immediately on change.
   const teamDefaultHalfLength = team.halfLengthMinutes || 30;
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const periodName = getPeriodName(periodCount);
   const [halfLengthMinutes, setHalfLengthMinutes] = useState(
     game.halfLengthMinutes ?? teamDefaultHalfLength
   );
@@ -569,39 +416,76 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     setPlayers(playersWithAvailability);
   }, [basePlayersData, availabilities]);
 
+  // Teams that rank starters by practice attendance see each candidate's rate in the lineup dropdowns
+  const ranksByPractice = team.starterRanking === 'practice';
+  const [practiceAttendanceRates, setPracticeAttendanceRates] = useState<Map<string, number | null> | undefined>(undefined);
+  useEffect(() => {
+    if (!ranksByPractice) return;
+    let cancelled = false;
+    fetchPracticeAttendanceRates({ id: team.id, currentSeasonId: team.currentSeasonId })
+      .then((rates) => { if (!cancelled) setPracticeAttendanceRates(rates); })
+      .catch((error) => logError('GamePlanner.fetchPracticeAttendanceRates', error));
+    return () => { cancelled = true; };
+  }, [ranksByPractice, team.id, team.currentSeasonId]);
+
   useEffect(() => {
+    let cancelled = false;
+    // Set once the offline copy is showing, so empty offline results don't clear it
+    let usingCache = false;
+    let hasLivePlan = false;
+
+    const applyGamePlan = (plan: GamePlan) => {
+      setGamePlan(plan);
+      setIsPrePlanHalftimeDirty(false);
+      gamePlanIdRef.current = plan.id; // Update ref for use in other subscriptions
+      setRotationIntervalMinutes(plan.rotationIntervalMinutes);
+      setRotationsPerHalfInput(Math.max(0, Math.floor(halfLengthMinutes / plan.rotationIntervalMinutes) - 1));
+
+      // Load starting lineup from GamePlan
+      // Skip if we have pending local saves to avoid clobbering optimistic state
+      if (pendingLineupSaves.current > 0) {
+        bufferedLineupData.current = plan.startingLineup ? plan.startingLineup as string : null;
+      } else if (plan.startingLineup) {
+        setStartingLineup(parsePersistedLineup(plan.startingLineup, 'Parse starting lineup'));
+      } else {
+        setStartingLineup(new Map());
+      }
+
+      // Load halftime lineup from GamePlan
+      if (pendingHalftimeSaves.current > 0) {
+        bufferedHalftimeData.current = plan.halftimeLineup ? plan.halftimeLineup as string : null;
+      } else if (plan.halftimeLineup) {
+        setHalftimeLineup(parsePersistedLineup(plan.halftimeLineup, 'Parse halftime lineup'));
+      } else {
+        setHalftimeLineup(null);
+      }
+
+      setKeeperPlan(parseKeeperPlan(plan.keeperPlan));
+    };
+
+    // observeQuery cannot reach AppSync offline, so start from the saved copy
+    if (!navigator.onLine) {
+      getCachedGameSnapshot(game.id)
+        .then((snapshot) => {
+          if (cancelled || !snapshot) return;
+          setOfflineAvailabilities(snapshot.availabilities ?? []);
+          if (hasLivePlan || !snapshot.gamePlan) return;
+          usingCache = true;
+          applyGamePlan(snapshot.gamePlan);
+          setRotations(snapshot.plannedRotations);
+        })
+        .catch(() => { /* nothing saved on this device */ });
+    }
+
     // Set up reactive subscriptions for game plan data (handles eventual consistency)
     const gamePlanSub = client.models.GamePlan.observeQuery({
       filter: { gameId: { eq: game.id } },
     }).subscribe({
       next: (data) => {
         if (data.items.length > 0) {
-          const plan = data.items[0];
-          setGamePlan(plan);
-          setIsPrePlanHalftimeDirty(false);
-          gamePlanIdRef.current = plan.id; // Update ref for use in other subscriptions
-          setRotationIntervalMinutes(plan.rotationIntervalMinutes);
-          setRotationsPerHalfInput(Math.max(0, Math.floor(halfLengthMinutes / plan.rotationIntervalMinutes) - 1));
-
-          // Load starting lineup from GamePlan
-          // Skip if we have pending local saves to avoid clobbering optimistic state
-          if (pendingLineupSaves.current > 0) {
-            bufferedLineupData.current = plan.startingLineup ? plan.startingLineup as string : null;
-          } else if (plan.startingLineup) {
-            setStartingLineup(parsePersistedLineup(plan.startingLineup, 'Parse starting lineup'));
-          } else {
-            setStartingLineup(new Map());
-          }
-
-          // Load halftime lineup from GamePlan
-          if (pendingHalftimeSaves.current > 0) {
-            bufferedHalftimeData.current = plan.halftimeLineup ? plan.halftimeLineup as string : null;
-          } else if (plan.halftimeLineup) {
-            setHalftimeLineup(parsePersistedLineup(plan.halftimeLineup, 'Parse halftime lineup'));
-          } else {
-            setHalftimeLineup(null);
-          }
-        } else {
+          hasLivePlan = true;
+          applyGamePlan(data.items[0]);
+        } else if (!usingCache && !offlineEditsRef.current) {
           setGamePlan(null);
           gamePlanIdRef.current = null;
           setStartingLineup(new Map());
@@ -622,6 +506,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
           ? data.items.filter(r => r.gamePlanId === currentPlanId)
           : [];
         const sorted = [...currentPlanRotations].sort((a, b) => a.rotationNumber - b.rotationNumber);
+        if ((usingCache || offlineEditsRef.current) && sorted.length === 0) return;
         // Skip if we have pending local rotation saves to avoid clobbering optimistic state
         if (pendingRotationSaves.current > 0) {
           bufferedRotationData.current = sorted;
@@ -635,6 +520,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     void loadPreviousGames();
 
     return () => {
+      cancelled = true;
       gamePlanSub.unsubscribe();
       rotationSub.unsubscribe();
     };
@@ -699,6 +585,12 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     });
   }, [players, getPlayerAvailability]);
 
+  // Goalkeeper slot: never auto-subbed except by the keeper plan
+  const goaliePositionId = useMemo(() => positions.find(p => {
+    const abbr = p.abbreviation?.toUpperCase();
+    return abbr === 'GK' || abbr === 'G' || abbr === 'GOL' || abbr === 'GOAL';
+  })?.id, [positions]);
+
   const normalizedRotationsForHelpers = useMemo(
     () => normalizeRotationsForHelperCalls(rotations, 'Normalize rotation subs for helper calls'),
     [rotations],
@@ -770,17 +662,23 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     return () => setHelpContext(null);
   }, [setHelpContext]);
 
-  const halftimeRotationNumber = useMemo(() => getRotationsPerHalf(halfLengthMinutes, rotationIntervalMinutes) + 1, [halfLengthMinutes, rotationIntervalMinutes]);
+  const totalGameMinutes = getTotalGameMinutes(halfLengthMinutes, periodCount);
+  const rotationsPerPeriod = getRotationsPerPeriod(halfLengthMinutes, rotationIntervalMinutes);
+  const halftimeRotationNumber = getBreakRotationNumber(getHalftimeAfterPeriod(periodCount), rotationsPerPeriod);
+  const breakRotationLabels = useMemo(
+    () => getBreakRotationLabels(rotationsPerPeriod, periodCount),
+    [rotationsPerPeriod, periodCount],
+  );
   const isTimelineLoading = gamePlan !== null && rotations.length === 0;
 
   const timelineItems = useMemo(() => {
     if (isTimelineLoading) return [];
     if (gamePlan) {
-      return buildRotationTimelineItems(rotations, halftimeRotationNumber);
+      return buildRotationTimelineItems(rotations, halftimeRotationNumber, breakRotationLabels);
     }
 
-    return buildPrePlanTimelineItems(halfLengthMinutes, rotationIntervalMinutes);
-  }, [gamePlan, rotations, halftimeRotationNumber, isTimelineLoading, halfLengthMinutes, rotationIntervalMinutes]);
+    return buildPrePlanTimelineItems(halfLengthMinutes, rotationIntervalMinutes, periodCount);
+  }, [gamePlan, rotations, halftimeRotationNumber, breakRotationLabels, isTimelineLoading, halfLengthMinutes, rotationIntervalMinutes, periodCount]);
 
   const resolvedSelectedTimelineKey = useMemo(
     () => (timelineItems.length > 0 ? reconcileSelectionKey(timelineItems, selectedTimelineKey) : ''),
@@ -835,9 +733,28 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
         positionId,
       })),
       rotationIntervalMinutes,
-      halfLengthMinutes * 2
+      totalGameMinutes,
+      goaliePositionId,
     );
-    }, [gamePlan, normalizedRotationsForHelpers, startingLineup, rotationIntervalMinutes, halfLengthMinutes, rotations.length]);
+    }, [gamePlan, normalizedRotationsForHelpers, startingLineup, rotationIntervalMinutes, totalGameMinutes, rotations.length, goaliePositionId]);
+
+  // League rules are re-checked against the plan on every edit
+  const leagueRuleProfile = useMemo(() => parseLeagueRuleProfile(team.leagueRules), [team.leagueRules]);
+  const leagueRulePlayers = useMemo(() => rotationPlayers.map(p => ({
+    playerId: p.id,
+    playerNumber: p.playerNumber || 0,
+    availableFromMinute: p.availability?.availableFromMinute ?? undefined,
+    availableUntilMinute: p.availability?.availableUntilMinute ?? undefined,
+  })), [rotationPlayers]);
+  const leagueRuleViolations = useMemo(() => {
+    if (!gamePlan || rotations.length === 0 || startingLineup.size === 0) return [];
+    return findPlanLeagueRuleViolations(
+      rotations,
+      Array.from(startingLineup.entries()).map(([positionId, playerId]) => ({ playerId, positionId })),
+      leagueRuleProfile.rules,
+      { totalGameMinutes, periodCount, players: leagueRulePlayers },
+    );
+  }, [gamePlan, rotations, startingLineup, leagueRuleProfile, totalGameMinutes, periodCount, leagueRulePlayers]);
 
   const halftimeLineupForDisplay = useMemo(() => {
     if (halftimeLineup !== null) return halftimeLineup;
@@ -861,6 +778,63 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     }
   }, [confirm, gamePlan, isPrePlanHalftimeDirty]);
 
+  useEffect(() => {
+    if (isOnline) offlineEditsRef.current = false;
+  }, [isOnline]);
+
+  const saveGamePlanFields = async (id: string, fields: GamePlanUpdateFields) => {
+    await mutations.updateGamePlan(id, fields);
+    if (isOnline) return;
+    offlineEditsRef.current = true;
+    setGamePlan(prev => (prev?.id === id ? { ...prev, ...fields } : prev));
+  };
+
+  const saveRotationFields = async (id: string, fields: PlannedRotationUpdateFields) => {
+    await mutations.updatePlannedRotation(id, fields);
+    if (isOnline) return;
+    offlineEditsRef.current = true;
+    setRotations(prev => prev.map(r => (r.id === id ? { ...r, ...fields } : r)));
+  };
+
+  // Keep the device copy in step with offline edits, so they survive a reload
+  useEffect(() => {
+    if (isOnline || !offlineEditsRef.current) return;
+    patchCachedGameSnapshot(game.id, { gamePlan, plannedRotations: rotations, availabilities })
+      .catch(error => console.warn('[GamePlanner] Failed to save offline edits on this device:', error));
+  }, [isOnline, game.id, gamePlan, rotations, availabilities]);
+
+  // Online, availability goes through the service, which looks up the existing
+  // record first. Offline, it is queued and shown from local state.
+  const handleSaveAvailability = async (
+    playerId: string,
+    status: 'available' | 'absent' | 'injured' | 'late-arrival',
+    availableFromMinute?: number | null,
+    availableUntilMinute?: number | null,
+  ) => {
+    const coaches = team.coaches || [];
+    if (isOnline) {
+      await updatePlayerAvailability(game.id, playerId, status, undefined, coaches, availableFromMinute, availableUntilMinute);
+      return;
+    }
+    const existing = availabilities.find(a => a.playerId === playerId);
+    const markedAt = new Date().toISOString();
+    const availabilityWindow = {
+      ...(availableFromMinute !== undefined && { availableFromMinute }),
+      ...(availableUntilMinute !== undefined && { availableUntilMinute }),
+    };
+    const id = existing?.id ?? crypto.randomUUID();
+    if (existing) {
+      await mutations.updatePlayerAvailability(id, { status, markedAt, ...availabilityWindow });
+    } else {
+      await mutations.createPlayerAvailability({ id, gameId: game.id, playerId, status, markedAt, coaches, ...availabilityWindow });
+    }
+    offlineEditsRef.current = true;
+    setOfflineAvailabilities(prev => [
+      ...prev.filter(a => a.playerId !== playerId),
+      { ...existing, id, gameId: game.id, playerId, status, markedAt, ...availabilityWindow } as PlayerAvailability,
+    ]);
+  };
+
   const handleLineupChange = async (positionId: string, playerId: string) => {
     const newLineup = new Map(startingLineup);
 
@@ -887,8 +861,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
           positionId,
         }));
 
-        await client.models.GamePlan.update({
-          id: gamePlan.id,
+        await saveGamePlanFields(gamePlan.id, {
           startingLineup: JSON.stringify(lineupArray),
           updatedAt: new Date().toISOString(),
         });
@@ -901,9 +874,9 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     }
   };
 
-  // Per-game half length handler — saves to the Game record immediately.
+  // Per-game period length handler — saves to the Game record immediately.
   // Keeps the rotations-per-half count constant and recalculates the interval
-  // so that both coupled inputs stay in sync with the new half length.
+  // so that both coupled inputs stay in sync with the new period length.
   const handleHalfLengthChange = async (newHalf: number) => {
     const clamped = Math.max(1, Math.min(newHalf, 99));
     if (clamped !== halfLengthMinutes) {
@@ -914,9 +887,9 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     setRotationIntervalMinutes(newInterval);
     setRotationsPerHalfInput(Math.max(0, Math.floor(clamped / newInterval) - 1));
     try {
-      await client.models.Game.update({ id: game.id, halfLengthMinutes: clamped });
+      await mutations.updateGame(game.id, { halfLengthMinutes: clamped });
     } catch (error) {
-      handleApiError(error, 'Failed to save half length');
+      handleApiError(error, `Failed to save ${periodName.toLowerCase()} length`);
     }
   };
 
@@ -929,9 +902,9 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     setRotationIntervalMinutes(newInterval);
     setRotationsPerHalfInput(Math.max(0, Math.floor(teamDefaultHalfLength / newInterval) - 1));
     try {
-      await client.models.Game.update({ id: game.id, halfLengthMinutes: null });
+      await mutations.updateGame(game.id, { halfLengthMinutes: null });
     } catch (error) {
-      handleApiError(error, 'Failed to reset half length');
+      handleApiError(error, `Failed to reset ${periodName.toLowerCase()} length`);
     }
   };
 
@@ -957,6 +930,42 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     setRotationsPerHalfInput(Math.max(0, Math.floor(halfLengthMinutes / clamped) - 1));
   };
 
+  // Keeper plan is saved immediately once a plan exists; before that it is kept
+  // locally and written with the plan by handleUpdatePlan.
+  const handleKeeperPlanChange = async (nextPlan: KeeperPlan | null) => {
+    setKeeperPlan(nextPlan);
+    if (!gamePlan) return;
+    try {
+      await saveGamePlanFields(gamePlan.id, {
+        keeperPlan: nextPlan ? JSON.stringify(nextPlan) : null,
+        updatedAt: new Date().toISOString(),
+      });
+    } catch (error) {
+      handleApiError(error, 'Failed to save keeper plan');
+    }
+  };
+
+  const handleKeeperScheduleChange = (schedule: KeeperSchedule | 'none') => {
+    if (schedule === 'none') {
+      void handleKeeperPlanChange(null);
+      return;
+    }
+    const startingKeeper = goaliePositionId ? startingLineup.get(goaliePositionId) : undefined;
+    void handleKeeperPlanChange({
+      eligibleKeeperIds: keeperPlan?.eligibleKeeperIds ?? (startingKeeper ? [startingKeeper] : []),
+      schedule,
+      ...(schedule === 'minutes' ? { intervalMinutes: keeperPlan?.intervalMinutes ?? rotationIntervalMinutes } : {}),
+    });
+  };
+
+  const handleToggleKeeper = (playerId: string) => {
+    if (!keeperPlan) return;
+    const eligibleKeeperIds = keeperPlan.eligibleKeeperIds.includes(playerId)
+      ? keeperPlan.eligibleKeeperIds.filter(id => id !== playerId)
+      : [...keeperPlan.eligibleKeeperIds, playerId];
+    void handleKeeperPlanChange({ ...keeperPlan, eligibleKeeperIds });
+  };
+
   const handleUpdatePlan = async () => {
     // Validate starting lineup
     if (startingLineup.size > maxPlayersOnField) {
@@ -974,45 +983,38 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
         positionId,
       }));
 
-      // Calculate total rotations
-      const rotationsPerHalf = Math.max(0, Math.floor(halfLengthMinutes / rotationIntervalMinutes) - 1);
-      // +1 for the halftime rotation itself (which sits at the half boundary)
-      const totalRotations = rotationsPerHalf * 2 + 1;
-
-      let currentPlan = gamePlan;
+      // Calculate total rotations (+1 break rotation at each period boundary)
+      const rotationsPerHalf = rotationsPerPeriod;
+      const totalRotations = getTotalRotations(rotationsPerHalf, periodCount);
 
       // Serialize halftime lineup for persistence (null state → omit field; explicitly-set map → always persist, even if empty)
       const halftimeLineupJson = halftimeLineup !== null
         ? JSON.stringify(Array.from(halftimeLineup.entries()).map(([posId, pid]) => ({ positionId: posId, playerId: pid })))
         : undefined;
 
-      // Create or update plan
-      if (!currentPlan) {
-        const gamePlanResult = await client.models.GamePlan.create({
+      const now = new Date().toISOString();
+      const planFields = {
+        rotationIntervalMinutes,
+        totalRotations,
+        startingLineup: JSON.stringify(lineupArray),
+        ...(halftimeLineupJson !== undefined && { halftimeLineup: halftimeLineupJson }),
+        keeperPlan: keeperPlan ? JSON.stringify(keeperPlan) : null,
+        updatedAt: now,
+      };
+
+      // Create or update plan. A new plan gets its id here, so its rotations
+      // can be written (or queued while offline) before the server answers.
+      const planId = gamePlan?.id ?? crypto.randomUUID();
+      if (!gamePlan) {
+        await mutations.createGamePlan({
+          id: planId,
           gameId: game.id,
-          rotationIntervalMinutes,
-          totalRotations,
-          startingLineup: JSON.stringify(lineupArray),
-          halftimeLineup: halftimeLineupJson,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString(),
+          ...planFields,
+          createdAt: now,
           coaches: team.coaches || [],
         });
-        currentPlan = gamePlanResult.data;
       } else {
-         const gamePlanResult = await client.models.GamePlan.update({
-          id: currentPlan.id,
-          rotationIntervalMinutes,
-          totalRotations,
-          startingLineup: JSON.stringify(lineupArray),
-          halftimeLineup: halftimeLineupJson,
-          updatedAt: new Date().toISOString(),
-        });
-        currentPlan = gamePlanResult.data;
-      }
-
-      if (!currentPlan) {
-        throw new Error('Failed to create/update game plan');
+        await mutations.updateGamePlan(planId, planFields);
       }
 
       // Handle rotations (Smart Update)
@@ -1022,28 +1024,23 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
       // but 'rotations' state is updated via loadData().
 
       const existingRotationsMap = new Map(rotations.map(r => [r.rotationNumber, r]));
-      const operations = [];
+      const operations: Promise<void>[] = [];
+      // The plan's rotations once these operations land
+      const rotationsByNum = new Map<number, PlannedRotation>();
 
       // 1. Delete rotations that are beyond the new total
       for (const rot of rotations) {
         if (rot.rotationNumber > totalRotations) {
-          operations.push(client.models.PlannedRotation.delete({ id: rot.id }));
+          operations.push(mutations.deletePlannedRotation(rot.id));
         }
       }
 
       // 2. Create or Update rotations
       for (let i = 1; i <= totalRotations; i++) {
-        const half = i <= rotationsPerHalf ? 1 : 2;
-        let gameMinute: number;
-        if (half === 1) {
-          gameMinute = i * rotationIntervalMinutes;
-        } else {
-          // Second-half rotations: the first one (i === rotationsPerHalf+1) is the
-          // halftime rotation at the half boundary, then each subsequent one adds
-          // another interval.
-          const secondHalfIndex = i - rotationsPerHalf - 1; // 0-based: 0 = halftime
-          gameMinute = halfLengthMinutes + secondHalfIndex * rotationIntervalMinutes;
-        }
+        // Each period after the first opens with its break rotation at the
+        // period boundary, then each subsequent one adds another interval.
+        const half = getRotationPeriod(i, rotationsPerHalf);
+        const gameMinute = getRotationGameMinute(i, rotationsPerHalf, halfLengthMinutes, rotationIntervalMinutes);
 
         const existingRotation = existingRotationsMap.get(i);
 
@@ -1051,52 +1048,32 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
           // Update gameMinute and half if either changed due to interval change.
           // We preserve plannedSubstitutions.
           if (existingRotation.gameMinute !== gameMinute || existingRotation.half !== half) {
-            operations.push(client.models.PlannedRotation.update({
-              id: existingRotation.id,
-              gameMinute,
-              half,
-            }));
+            operations.push(mutations.updatePlannedRotation(existingRotation.id, { gameMinute, half }));
           }
+          rotationsByNum.set(i, { ...existingRotation, gameMinute, half });
         } else {
           // Create new rotation
-          operations.push(client.models.PlannedRotation.create({
-            gamePlanId: currentPlan.id,
+          const newRotation: PlannedRotationCreateFields = {
+            id: crypto.randomUUID(),
+            gamePlanId: planId,
             rotationNumber: i,
             gameMinute,
             half,
             plannedSubstitutions: JSON.stringify([]),
             coaches: team.coaches || [],
-          }));
+          };
+          operations.push(mutations.createPlannedRotation(newRotation));
+          rotationsByNum.set(i, newRotation as unknown as PlannedRotation);
         }
       }
 
-      const operationResults = await Promise.all(operations);
+      await Promise.all(operations);
 
       // If we have an explicit H2 lineup, repopulate the halftime rotation's subs
       // from the diff of (end-of-H1 lineup) vs (halftimeLineup).
       // This is needed when creating a brand-new plan (rotations were just created above).
       if (halftimeLineup !== null && halftimeLineup.size > 0) {
-        const htRotNum = rotationsPerHalf + 1; // 1-based rotation number for halftime
-        // Collect newly-created rotations from operation results
-        const newlyCreatedRotations: PlannedRotation[] = [];
-        for (const result of operationResults) {
-          if (result && 'data' in result && result.data && 'rotationNumber' in result.data) {
-            newlyCreatedRotations.push(result.data as PlannedRotation);
-          }
-        }
-
-        // Build the combined list of rotations (existing + newly created)
-        const allRotations = [
-          ...rotations.filter(r => r.rotationNumber <= totalRotations),
-          ...newlyCreatedRotations,
-        ].sort((a, b) => a.rotationNumber - b.rotationNumber);
-
-        // De-duplicate (prefer newly created over existing for same rotationNumber)
-        const rotationsByNum = new Map<number, PlannedRotation>();
-        for (const rot of allRotations) {
-          rotationsByNum.set(rot.rotationNumber, rot);
-        }
-
+        const htRotNum = halftimeRotationNumber; // 1-based rotation number for halftime
         const htRotation = rotationsByNum.get(htRotNum);
         if (htRotation) {
           // Compute end-of-H1 lineup from startingLineup + first-half rotations
@@ -1113,15 +1090,23 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
             htRotNum - 1
           );
 
-          const htSubs = computeLineupDiff(endOfH1, halftimeLineup);
+          const htSubs = JSON.stringify(computeLineupDiff(endOfH1, halftimeLineup));
 
-          await client.models.PlannedRotation.update({
-            id: htRotation.id,
-            plannedSubstitutions: JSON.stringify(htSubs),
-          });
+          await mutations.updatePlannedRotation(htRotation.id, { plannedSubstitutions: htSubs });
+          rotationsByNum.set(htRotNum, { ...htRotation, plannedSubstitutions: htSubs });
         }
       }
 
+      if (!isOnline) {
+        offlineEditsRef.current = true;
+        gamePlanIdRef.current = planId;
+        setGamePlan({
+          ...(gamePlan ?? { id: planId, gameId: game.id, createdAt: now, coaches: team.coaches || [] }),
+          ...planFields,
+        } as GamePlan);
+        setRotations(Array.from(rotationsByNum.values()).sort((a, b) => a.rotationNumber - b.rotationNumber));
+      }
+
       // Data will update automatically via observeQuery subscriptions
 
       showSuccess(gamePlan ? "Plan updated!" : "Plan created! Now set up each rotation.");
@@ -1172,6 +1157,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
           playerId: p.id,
           playerNumber: p.playerNumber || 0,
           preferredPositions: p.preferredPositions,
+          positionConstraints: p.positionConstraints,
           availableFromMinute: availabilities.find(a => a.playerId === p.id)?.availableFromMinute ?? undefined,
           availableUntilMinute: availabilities.find(a => a.playerId === p.id)?.availableUntilMinute ?? undefined,
         }));
@@ -1181,46 +1167,79 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
         positionId,
       }));
 
-      const rotationsPerHalf = Math.max(0, Math.floor(halfLengthMinutes / rotationIntervalMinutes) - 1);
-
-      // Identify the goalkeeper position (never auto-subbed in regular rotations)
-      const goaliePos = positions.find(p => {
-        const abbr = p.abbreviation?.toUpperCase();
-        return abbr === 'GK' || abbr === 'G' || abbr === 'GOL' || abbr === 'GOAL';
-      });
-      const goaliePositionId = goaliePos?.id;
-
       // If the coach has already set the halftime lineup explicitly, keep it and build
-      // second-half rotations from that fixed starting point
+      // the rotations after the break from that fixed starting point
       let halftimeLineupArray: Array<{ playerId: string; positionId: string }> | undefined;
       if (halftimeLineup !== null && halftimeLineup.size > 0) {
         halftimeLineupArray = Array.from(halftimeLineup.entries()).map(([positionId, playerId]) => ({ playerId, positionId }));
       }
 
+      // Players behind their share of minutes get a head start. A tournament is one
+      // fairness unit, so its earlier games replace the team's season window.
+      // If past minutes can't be loaded (e.g. offline), plan this game on its own instead of failing.
+      const availablePlayerIds = availableRoster.map(p => p.playerId);
+      let initialPlayTimeMinutes: Map<string, number> | undefined;
+      try {
+        initialPlayTimeMinutes = game.tournamentId
+          ? await fetchTournamentCatchUpMinutes(
+            game.tournamentId,
+            game.id,
+            availablePlayerIds,
+            teamDefaultHalfLength,
+            periodCount,
+          )
+          : await fetchSeasonCatchUpMinutes(
+            team.id,
+            game.id,
+            (team.fairnessWindow as FairnessWindow | null) ?? 'game',
+            team.fairnessWindowGames ?? DEFAULT_FAIRNESS_WINDOW_GAMES,
+            availablePlayerIds,
+            team.currentSeasonId,
+          );
+      } catch (error) {
+        logError('GamePlanner.fetchCatchUpMinutes', error);
+        showWarning('Could not load earlier play time, so these rotations only balance this game.');
+      }
+
       const { rotations: generatedRotations, warnings: newWarnings } = calculateFairRotations(
         availableRoster,
         lineupArray,
         rotations.length,
-        rotationsPerHalf,
+        rotationsPerPeriod,
         team.maxPlayersOnField || positions.length,
         goaliePositionId,
         halftimeLineupArray,
-        { rotationIntervalMinutes, halfLengthMinutes, positions },
+        { rotationIntervalMinutes, halfLengthMinutes, periodCount, positions, initialPlayTimeMinutes, keeperPlan },
       );
 
+      const generatedPlan = rotations.map((rotation, idx) => ({
+        ...rotation,
+        plannedSubstitutions: JSON.stringify(generatedRotations[idx]?.substitutions || []),
+      }));
+      newWarnings.push(...findPlanLeagueRuleViolations(generatedPlan, lineupArray, leagueRuleProfile.rules, {
+        totalGameMinutes,
+        periodCount,
+        players: availableRoster,
+      }).map(v => v.message));
+
       setPlanWarnings(newWarnings);
       if (newWarnings.length > 0) {
-        newWarnings.forEach(w => showWarning(w));
+        // Let the coach review broken position rules and other problems before the plan is saved
+        const saveAnyway = await confirm({
+          title: 'Review Plan Warnings',
+          message: `The generated rotations have ${newWarnings.length === 1 ? 'a problem' : 'some problems'}:\n\n` +
+            newWarnings.map(w => `• ${w}`).join('\n') +
+            '\n\nSave these rotations anyway?',
+          confirmText: 'Save Anyway',
+          variant: 'warning',
+        });
+        if (!saveAnyway) return;
       }
 
       // Update each rotation with generated substitutions
-      const updates = rotations.map((rotation, idx) => {
-        const generated = generatedRotations[idx];
-        return client.models.PlannedRotation.update({
-          id: rotation.id,
-          plannedSubstitutions: JSON.stringify(generated?.substitutions || []),
-        });
-      });
+      const updates = generatedPlan.map((rotation) => saveRotationFields(rotation.id, {
+        plannedSubstitutions: rotation.plannedSubstitutions,
+      }));
 
       await Promise.all(updates);
 
@@ -1236,6 +1255,11 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
   };
 
   const handleCopyFromGame = async (sourceGameId: string) => {
+    if (!isOnline) {
+      setShowCopyModal(false);
+      showWarning('Copying a plan from another game needs a connection.');
+      return;
+    }
     try {
       setShowCopyModal(false);
       setIsGenerating(true);
@@ -1245,10 +1269,10 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
       // Delete existing plan if any
       if (gamePlan) {
         const deleteRotationPromises = rotations.map((r) =>
-          client.models.PlannedRotation.delete({ id: r.id })
+          mutations.deletePlannedRotation(r.id)
         );
         await Promise.all(deleteRotationPromises);
-        await client.models.GamePlan.delete({ id: gamePlan.id });
+        await mutations.deleteGamePlan(gamePlan.id);
       }
 
       await copyGamePlan(sourceGameId, game.id, team.coaches || []);
@@ -1300,14 +1324,14 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     try {
       // Serialize and save full H2 lineup to GamePlan
       const lineupArray = Array.from(newLineup.entries()).map(([posId, pid]) => ({ positionId: posId, playerId: pid }));
-      await client.models.GamePlan.update({ id: gamePlan.id, halftimeLineup: JSON.stringify(lineupArray) });
+      await saveGamePlanFields(gamePlan.id, { halftimeLineup: JSON.stringify(lineupArray) });
 
       // Compute diff: end-of-H1 lineup vs new H2 lineup
       const endOfH1 = computeLineupAtRotation(startingLineup, normalizedRotationsForHelpers, halftimeRotationNumber - 1);
       const subs = computeLineupDiff(endOfH1, newLineup);
 
       const subsJson = JSON.stringify(subs);
-      await client.models.PlannedRotation.update({ id: halftimeRotation.id, plannedSubstitutions: subsJson });
+      await saveRotationFields(halftimeRotation.id, { plannedSubstitutions: subsJson });
       await recalculateDownstreamRotations(halftimeRotationNumber, new Map([[halftimeRotationNumber, subsJson]]));
     } catch (error) {
       handleApiError(error, 'Failed to save halftime lineup');
@@ -1445,12 +1469,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
       // Only update if subs actually changed
       const oldSubsJson = rot.plannedSubstitutions as string;
       if (newSubsJson !== oldSubsJson) {
-        updateOps.push(
-          client.models.PlannedRotation.update({
-            id: rot.id,
-            plannedSubstitutions: newSubsJson,
-          })
-        );
+        updateOps.push(saveRotationFields(rot.id, { plannedSubstitutions: newSubsJson }));
       }
     }
 
@@ -1496,10 +1515,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     pendingRotationSaves.current++;
     try {
       const subsJson = JSON.stringify(subs);
-      await client.models.PlannedRotation.update({
-        id: rotation.id,
-        plannedSubstitutions: subsJson,
-      });
+      await saveRotationFields(rotation.id, { plannedSubstitutions: subsJson });
 
       // Recalculate downstream rotations so their subs stay consistent
       await recalculateDownstreamRotations(
@@ -1523,14 +1539,11 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
     pendingRotationSaves.current++;
     try {
       const emptySubsJson = JSON.stringify([]);
-      await client.models.PlannedRotation.update({
-        id: rotation.id,
-        plannedSubstitutions: emptySubsJson,
-      });
+      await saveRotationFields(rotation.id, { plannedSubstitutions: emptySubsJson });
 
       // If clearing the halftime rotation, also clear the GamePlan halftimeLineup field
       if (rotationNumber === halftimeRotationNumber && gamePlan) {
-        await client.models.GamePlan.update({ id: gamePlan.id, halftimeLineup: null });
+        await saveGamePlanFields(gamePlan.id, { halftimeLineup: null });
         setHalftimeLineup(null);
       }
 
@@ -1659,6 +1672,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
               lineup={startingLineup}
               onLineupChange={handleLineupChange}
               showPreferredPositions={true}
+              practiceAttendanceRates={ranksByPractice ? practiceAttendanceRates : undefined}
             />
           )}
         </div>
@@ -1928,7 +1942,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
 
                     timelineItemRefs.current.delete(item.key);
                   }}
-                  className={`planner-timeline-pill${item.variant === 'halftime' ? ' planner-timeline-pill--halftime' : ''}${isSelected ? ' planner-timeline-pill--active' : ''}`}
+                  className={`planner-timeline-pill${item.variant === 'halftime' || item.variant === 'break' ? ` planner-timeline-pill--${item.variant}` : ''}${isSelected ? ' planner-timeline-pill--active' : ''}`}
                   onClick={() => handleRotationClick(item.key)}
                   onKeyDown={(event) => handleTimelineKeyDown(event, index)}
                 >
@@ -1954,11 +1968,12 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
           .map((player) => {
             const data = playTimeData.get(player.id);
             const totalMinutes = data?.totalMinutes || 0;
-            const percentage = (totalMinutes / (halfLengthMinutes * 2)) * 100;
-            return { player, totalMinutes, percentage };
+            const keeperMinutes = data?.keeperMinutes || 0;
+            const percentage = (totalMinutes / totalGameMinutes) * 100;
+            return { player, totalMinutes, keeperMinutes, percentage };
           })
           .sort((a, b) => b.totalMinutes - a.totalMinutes)
-          .map(({ player, totalMinutes, percentage }) => (
+          .map(({ player, totalMinutes, keeperMinutes, percentage }) => (
             <div key={player.id} className="playtime-bar-container">
               <div className="playtime-label">
                 #{player.playerNumber} {player.firstName} {player.lastName}
@@ -1966,13 +1981,64 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
               <div className="playtime-bar-wrapper">
                 <div className="playtime-bar" style={{ width: `${Math.min(100, percentage)}%` }} />
               </div>
-              <div className="playtime-minutes">{totalMinutes}m</div>
+              <div className="playtime-minutes">
+                {totalMinutes}m
+                {keeperMinutes > 0 && <span className="playtime-keeper">🧤 {keeperMinutes}m</span>}
+              </div>
             </div>
           ))}
       </div>
     </div>
   );
 
+  const renderKeeperPlan = () => (
+    <div className="planner-setup-card">
+      <div className="planner-setup-label">Goalkeeper rotation</div>
+      <select
+        aria-label="Keeper swap schedule"
+        value={keeperPlan?.schedule ?? 'none'}
+        onChange={(e) => handleKeeperScheduleChange(e.target.value as KeeperSchedule | 'none')}
+      >
+        <option value="none">One keeper all game</option>
+        <option value="half">Swap keeper each half</option>
+        <option value="quarter">Swap keeper each quarter</option>
+        <option value="minutes">Swap keeper every few minutes</option>
+      </select>
+      {keeperPlan?.schedule === 'minutes' && (
+        <input
+          type="number"
+          className="rotation-stepper-input"
+          aria-label="Keeper swap interval in minutes"
+          inputMode="numeric"
+          min={1}
+          max={totalGameMinutes}
+          value={keeperPlan.intervalMinutes ?? rotationIntervalMinutes}
+          onChange={(e) => setKeeperPlan({ ...keeperPlan, intervalMinutes: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+          onBlur={() => {
+            // Saved once the coach leaves the field rather than on every keystroke
+            if (parseKeeperPlan(gamePlan?.keeperPlan)?.intervalMinutes !== keeperPlan.intervalMinutes) {
+              void handleKeeperPlanChange(keeperPlan);
+            }
+          }}
+        />
+      )}
+      {keeperPlan && (
+        <div className="keeper-plan-players" role="group" aria-label="Eligible keepers">
+          {rotationPlayers.map((player) => (
+            <label key={player.id} className="keeper-plan-player">
+              <input
+                type="checkbox"
+                checked={keeperPlan.eligibleKeeperIds.includes(player.id)}
+                onChange={() => handleToggleKeeper(player.id)}
+              />
+              #{player.playerNumber} {player.firstName}
+            </label>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+
   return (
     <AvailabilityProvider availabilities={availabilities}>
       <div className="game-planner-container">
@@ -1991,6 +2057,8 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
           </details>
         </div>
 
+        <OfflineDataNotice isOnline={isOnline} savedAt={offlineCopySavedAt} />
+
         {/* Tab Nav */}
         <nav className="planner-tab-nav" role="tablist">
           {(['availability', 'rotations'] as const).map((tab) => {
@@ -2025,6 +2093,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
               gameId={game.id}
               coaches={team.coaches || []}
               halfLengthMinutes={halfLengthMinutes}
+              onSaveAvailability={handleSaveAvailability}
             />
           </div>
         )}
@@ -2033,20 +2102,20 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
           <div className="planner-tab-panel">
             {/* Rotation interval + create/update plan — always at the top */}
             <div className="planner-setup-card">
-              {/* Half length override */}
+              {/* Period length override */}
               <div className="rotation-stepper-row">
                 <div className="rotation-stepper">
-                  <div className="planner-setup-label">Half length (min)</div>
+                  <div className="planner-setup-label">{periodName} length (min)</div>
                   <div className="rotation-stepper-controls">
                     <button
                       className="rotation-stepper-btn"
-                      aria-label="Decrease half length"
+                      aria-label={`Decrease ${periodName.toLowerCase()} length`}
                       onClick={() => { void handleHalfLengthChange(halfLengthMinutes - 1); }}
                     >−</button>
                     <input
                       type="number"
                       className="rotation-stepper-input"
-                      aria-label="Half length in minutes"
+                      aria-label={`${periodName} length in minutes`}
                       inputMode="numeric"
                       min={1}
                       max={99}
@@ -2055,7 +2124,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
                     />
                     <button
                       className="rotation-stepper-btn"
-                      aria-label="Increase half length"
+                      aria-label={`Increase ${periodName.toLowerCase()} length`}
                       onClick={() => { void handleHalfLengthChange(halfLengthMinutes + 1); }}
                     >+</button>
                   </div>
@@ -2069,17 +2138,17 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
               {/* Rotations / interval pair */}
               <div className="rotation-stepper-row">
                 <div className="rotation-stepper">
-                  <div className="planner-setup-label">Rotations / half</div>
+                  <div className="planner-setup-label">Rotations / {periodName.toLowerCase()}</div>
                   <div className="rotation-stepper-controls">
                     <button
                       className="rotation-stepper-btn"
-                      aria-label="Decrease rotations per half"
+                      aria-label={`Decrease rotations per ${periodName.toLowerCase()}`}
                       onClick={() => { void handleRotationsChange(rotationsPerHalfInput - 1); }}
                     >−</button>
                     <input
                       type="number"
                       className="rotation-stepper-input"
-                      aria-label="Rotations per half"
+                      aria-label={`Rotations per ${periodName.toLowerCase()}`}
                       inputMode="numeric"
                       min={0}
                       max={Math.floor(halfLengthMinutes / 2)}
@@ -2088,7 +2157,7 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
                     />
                     <button
                       className="rotation-stepper-btn"
-                      aria-label="Increase rotations per half"
+                      aria-label={`Increase rotations per ${periodName.toLowerCase()}`}
                       onClick={() => { void handleRotationsChange(rotationsPerHalfInput + 1); }}
                     >+</button>
                   </div>
@@ -2137,6 +2206,8 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
               )}
             </div>
 
+            {goaliePositionId && renderKeeperPlan()}
+
             {planWarnings.length > 0 && (
               <div className="plan-warnings-banner">
                 {planWarnings.map((w, i) => (
@@ -2145,6 +2216,22 @@ export function GamePlanner({ game, team, onBack }: GamePlannerProps) {
               </div>
             )}
 
+            {gamePlan && rotations.length > 0 && leagueRuleProfile.rules.length > 0 && (
+              <div
+                className={`league-rule-check${leagueRuleViolations.length > 0 ? ' league-rule-check--failing' : ''}`}
+                aria-label="League rule check"
+              >
+                <p className="league-rule-check__title">
+                  {leagueRuleViolations.length === 0
+                    ? `✅ Plan meets the league rules (${getLeagueRuleProfileLabel(leagueRuleProfile)})`
+                    : `⚠️ Plan breaks the league rules (${getLeagueRuleProfileLabel(leagueRuleProfile)})`}
+                </p>
+                {leagueRuleViolations.map((violation, i) => (
+                  <p key={i} className="plan-warning-item">{violation.message}</p>
+                ))}
+              </div>
+            )}
+
             {/* Timeline + selected detail + playtime */}
             {isTimelineLoading ? (
               <p className="planner-empty-hint">Loading timeline...</p>
@@ -0,0 +1,108 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { GameSummary } from './GameSummary';
+
+const mockSetHelpContext = vi.fn();
+
+vi.mock('../contexts/HelpFabContext', () => ({
+  useHelpFab: () => ({ setHelpContext: mockSetHelpContext }),
+}));
+
+const snapshot = {
+  gameId: 'game-1',
+  game: {
+    id: 'game-1', opponent: 'Eagles', isHome: true, gameDate: '2030-06-01T10:00:00Z', status: 'completed',
+    currentHalf: 2, elapsedSeconds: 3600, ourScore: 2, opponentScore: 1,
+  },
+  team: { id: 'team-1', name: 'Hawks', halfLengthMinutes: 30 },
+  players: [
+    { id: 'p1', playerNumber: 10, firstName: 'Alice', lastName: 'Smith' },
+    { id: 'p2', playerNumber: 7, firstName: 'Bea', lastName: 'Jones' },
+    { id: 'p3', playerNumber: 3, firstName: 'Cam', lastName: 'Lee' },
+  ],
+  positions: [
+    { id: 'gk', positionName: 'Goalkeeper', abbreviation: 'GK', sortOrder: 1 },
+    { id: 'st', positionName: 'Striker', abbreviation: 'ST', sortOrder: 2 },
+  ],
+  playTimeRecords: [
+    { playerId: 'p1', positionId: 'st', startGameSeconds: 0, endGameSeconds: 1200 },
+    { playerId: 'p2', positionId: 'gk', startGameSeconds: 0, endGameSeconds: null },
+    { playerId: 'p1', positionId: 'gk', startGameSeconds: 1800, endGameSeconds: 2400 },
+  ],
+  goals: [
+    { id: 'g1', gameSeconds: 600, half: 1, scoredByUs: true, scorerId: 'p1', assistId: 'p2', timestamp: '2030-06-01T10:10:00Z' },
+    { id: 'g2', gameSeconds: 2000, half: 2, scoredByUs: false, timestamp: '2030-06-01T10:45:00Z' },
+    { id: 'g3', gameSeconds: 3000, half: 2, scoredByUs: true, scorerId: 'p2', timestamp: '2030-06-01T11:00:00Z' },
+  ],
+  gameNotes: [
+    { id: 'n1', noteType: 'gold-star', playerId: 'p2', gameSeconds: 900, half: 1, notes: 'Great save' },
+    { id: 'n2', noteType: 'coaching-point', playerId: null, gameSeconds: null, half: null, notes: 'Press high' },
+  ],
+  substitutions: [
+    { id: 's1', playerInId: 'p3', playerOutId: 'p1', positionId: 'st', gameSeconds: 1200, half: 1 },
+  ],
+  gameEvents: [],
+  savedAt: Date.parse('2030-06-01T12:00:00Z'),
+} as any;
+
+describe('GameSummary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('lists goals, notes, substitutions and halftime in order', () => {
+    render(<GameSummary snapshot={snapshot} fromCache={false} onBack={vi.fn()} />);
+
+    const entries = within(screen.getByRole('list')).getAllByRole('listitem').map(li => li.textContent);
+    expect(entries).toEqual([
+      '🏁Kick-off',
+      "10'⚽Goal — #10 Alice Smith (assist #7 Bea Jones) · 1–0",
+      "15'⭐Gold Star · #7 Bea Jones · Great save",
+      "20'🔄#3 Cam Lee on for #10 Alice Smith (ST)",
+      "30'⏸️Halftime",
+      "33'⚽Eagles goal · 1–1",
+      "50'⚽Goal — #7 Bea Jones · 2–1",
+      "60'🏁Full time · 2–1",
+    ]);
+    expect(mockSetHelpContext).toHaveBeenCalledWith('game-completed');
+  });
+
+  it('shows minutes by position with open stints running to full time', () => {
+    render(<GameSummary snapshot={snapshot} fromCache={false} onBack={vi.fn()} />);
+
+    const table = screen.getByRole('table', { name: 'Minutes by position' });
+    const rows = within(table).getAllByRole('row').map(r => within(r).queryAllByRole('cell').map(c => c.textContent));
+    expect(rows.slice(1)).toEqual([
+      ['#7 Bea Jones', '60:00', '–', '60:00'],
+      ['#10 Alice Smith', '10:00', '20:00', '30:00'],
+    ]);
+    expect(screen.getByText('Did not play: #3 Cam')).toBeInTheDocument();
+  });
+
+  it('flags a saved copy and prints on request', async () => {
+    const user = userEvent.setup();
+    const print = vi.spyOn(window, 'print').mockImplementation(() => {});
+
+    render(<GameSummary snapshot={snapshot} fromCache onBack={vi.fn()} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent(/showing the copy saved on this device/);
+    await user.click(screen.getByRole('button', { name: /Print/ }));
+    expect(print).toHaveBeenCalled();
+  });
+
+  it('adds a box score when match events were logged', () => {
+    render(
+      <GameSummary
+        snapshot={{ ...snapshot, gameEvents: [{ eventType: 'corner', forUs: true, gameSeconds: 100 }] }}
+        fromCache={false}
+        onBack={vi.fn()}
+      />
+    );
+
+    expect(screen.getByRole('heading', { name: 'Box Score' })).toBeInTheDocument();
+    expect(within(screen.getByRole('row', { name: /Corners/ })).getAllByRole('cell').map(c => c.textContent))
+      .toEqual(['Corners', '1', '0']);
+  });
+});
@@ -0,0 +1,300 @@
+import { useEffect, useMemo } from "react";
+import { useHelpFab } from "../contexts/HelpFabContext";
+import type { GameSummarySnapshot } from "../services/gameSummaryService";
+import type { GameNote } from "../types/schema";
+import { calculateGameEventTotals, type GameEventTotals } from "../utils/gameEventUtils";
+import { formatShootoutResult } from "../utils/gameCalculations";
+import { formatGameMinute, getGameClock } from "../utils/gameTimeUtils";
+import { buildMatchTimeline, buildScoreProgression, type ScorePoint } from "../utils/matchTimelineUtils";
+import { getPeriodCount } from "../utils/periodUtils";
+import { calculatePlayTimeByPosition, formatPlayTime } from "../utils/playTimeCalculations";
+
+interface GameSummaryProps {
+  snapshot: GameSummarySnapshot;
+  fromCache: boolean;
+  onBack: () => void;
+}
+
+const NOTE_ICONS: Record<string, string> = {
+  'gold-star': '⭐',
+  'yellow-card': '🟨',
+  'red-card': '🟥',
+};
+
+const NOTE_LABELS: Record<string, string> = {
+  'gold-star': 'Gold Star',
+  'yellow-card': 'Yellow Card',
+  'red-card': 'Red Card',
+};
+
+const BOX_SCORE_ROWS: Array<[string, keyof GameEventTotals['us']]> = [
+  ['Shots', 'shots'],
+  ['On target', 'shotsOnTarget'],
+  ['Corners', 'corners'],
+  ['Free kicks', 'freeKicks'],
+  ['Offsides', 'offsides'],
+  ['Fouls', 'fouls'],
+  ['Saves', 'saves'],
+];
+
+/**
+ * Step chart of the score over the game, ours above theirs.
+ */
+function ScoreProgressionChart({ points, endSeconds, opponent }: {
+  points: ScorePoint[];
+  endSeconds: number;
+  opponent: string;
+}) {
+  const width = 320;
+  const height = 120;
+  const pad = 8;
+  const end = Math.max(endSeconds, points[points.length - 1].gameSeconds, 1);
+  const last = points[points.length - 1];
+  const maxGoals = Math.max(1, last.ourScore, last.opponentScore);
+  const x = (seconds: number) => pad + (seconds / end) * (width - pad * 2);
+  const y = (goals: number) => height - pad - (goals / maxGoals) * (height - pad * 2);
+
+  const stepPath = (score: (p: ScorePoint) => number) => {
+    let d = `M ${x(0)} ${y(0)}`;
+    points.slice(1).forEach(p => {
+      d += ` H ${x(p.gameSeconds)} V ${y(score(p))}`;
+    });
+    return `${d} H ${x(end)}`;
+  };
+
+  return (
+    <svg
+      className="game-summary__chart"
+      viewBox={`0 0 ${width} ${height}`}
+      role="img"
+      aria-label={`Score progression, final ${last.ourScore}–${last.opponentScore}`}
+    >
+      <line x1={x(0)} y1={y(0)} x2={x(end)} y2={y(0)} className="game-summary__chart-axis" />
+      <path d={stepPath(p => p.opponentScore)} className="game-summary__chart-line game-summary__chart-line--them">
+        <title>{opponent}</title>
+      </path>
+      <path d={stepPath(p => p.ourScore)} className="game-summary__chart-line game-summary__chart-line--us">
+        <title>Us</title>
+      </path>
+    </svg>
+  );
+}
+
+/**
+ * Read-only review of a completed game: score progression, match timeline,
+ * box score and minutes by position. Works from a saved snapshot, so it can
+ * be opened offline and printed.
+ */
+export function GameSummary({ snapshot, fromCache, onBack }: GameSummaryProps) {
+  const { game, team, players, positions, playTimeRecords, goals, gameNotes, substitutions, gameEvents } = snapshot;
+  const { setHelpContext } = useHelpFab();
+
+  useEffect(() => {
+    setHelpContext('game-completed');
+    return () => setHelpContext(null);
+  }, [setHelpContext]);
+
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const gameClock = useMemo(
+    () => getGameClock(game, team.halfLengthMinutes, periodCount),
+    [game, team.halfLengthMinutes, periodCount]
+  );
+  const endSeconds = game.elapsedSeconds ?? 0;
+  const shootoutResult = formatShootoutResult(game);
+
+  const playerById = useMemo(() => new Map(players.map(p => [p.id, p])), [players]);
+  const positionById = useMemo(() => new Map(positions.map(p => [p.id, p])), [positions]);
+
+  const timeline = useMemo(
+    () => buildMatchTimeline(game, goals, substitutions, gameNotes, gameClock, periodCount),
+    [game, goals, substitutions, gameNotes, gameClock, periodCount]
+  );
+  const progression = useMemo(() => buildScoreProgression(goals), [goals]);
+  const totals = useMemo(() => calculateGameEventTotals(gameEvents, goals), [gameEvents, goals]);
+
+  const positionColumns = useMemo(() => {
+    const used = new Set(playTimeRecords.map(r => (r.positionId && positionById.get(r.positionId)?.positionName) || 'Unknown'));
+    const columns = positions.filter(p => used.has(p.positionName)).map(p => ({ name: p.positionName, label: p.abbreviation || p.positionName }));
+    if (used.has('Unknown')) columns.push({ name: 'Unknown', label: '?' });
+    return columns;
+  }, [playTimeRecords, positions, positionById]);
+
+  const minutesRows = useMemo(() => [...players]
+    .sort((a, b) => (a.playerNumber ?? 999) - (b.playerNumber ?? 999))
+    .map(player => {
+      const byPosition = calculatePlayTimeByPosition(player.id, playTimeRecords, positionById, endSeconds);
+      const total = [...byPosition.values()].reduce((sum, s) => sum + s, 0);
+      return { player, byPosition, total };
+    }), [players, playTimeRecords, positionById, endSeconds]);
+
+  const playerLabel = (playerId: string | null | undefined) => {
+    if (!playerId) return null;
+    const player = playerById.get(playerId);
+    return player ? `#${player.playerNumber} ${player.firstName} ${player.lastName ?? ''}`.trim() : 'Former player';
+  };
+
+  const describeNote = (note: GameNote) => {
+    const who = playerLabel(note.playerId);
+    const label = NOTE_LABELS[note.noteType] ?? 'Note';
+    return [label, who, note.notes].filter(Boolean).join(' · ');
+  };
+
+  const played = minutesRows.filter(r => r.total > 0);
+  const didNotPlay = minutesRows.filter(r => r.total === 0);
+
+  return (
+    <div className="game-summary">
+      <div className="game-summary__header">
+        <button onClick={onBack} className="btn-back game-summary__no-print">
+          ← Back to Game
+        </button>
+        <h1>vs {game.opponent}</h1>
+        <p className="game-summary__meta">
+          {team.name} · {game.gameDate ? new Date(game.gameDate).toLocaleDateString() : 'No date'} · {game.isHome ? 'Home' : 'Away'}
+        </p>
+        <div className="game-summary__score" aria-label="Final score">
+          {game.ourScore ?? 0} – {game.opponentScore ?? 0}
+          {shootoutResult && <span className="game-summary__shootout"> ({shootoutResult})</span>}
+        </div>
+      </div>
+
+      {fromCache && (
+        <p className="game-summary__cached" role="status">
+          Offline — showing the copy saved on this device on {new Date(snapshot.savedAt).toLocaleString()}.
+        </p>
+      )}
+
+      <div className="game-summary__actions game-summary__no-print">
+        <button className="btn-secondary" onClick={() => window.print()}>
+          🖨️ Print
+        </button>
+      </div>
+
+      <section className="game-summary__section">
+        <h2>Score Progression</h2>
+        <ScoreProgressionChart points={progression} endSeconds={endSeconds} opponent={game.opponent} />
+        <div className="game-summary__legend">
+          <span className="game-summary__legend-item game-summary__legend-item--us">Us</span>
+          <span className="game-summary__legend-item game-summary__legend-item--them">{game.opponent}</span>
+        </div>
+      </section>
+
+      <section className="game-summary__section">
+        <h2>Timeline</h2>
+        <ol className="game-summary__timeline">
+          {timeline.map(entry => {
+            let icon = '';
+            let text = '';
+            switch (entry.kind) {
+              case 'kickoff':
+                icon = '🏁';
+                text = 'Kick-off';
+                break;
+              case 'goal': {
+                icon = '⚽';
+                const scorer = entry.goal.scoredByUs ? playerLabel(entry.goal.scorerId) : null;
+                const assist = entry.goal.scoredByUs ? playerLabel(entry.goal.assistId) : null;
+                text = entry.goal.scoredByUs
+                  ? `Goal${scorer ? ` — ${scorer}` : ''}${assist ? ` (assist ${assist})` : ''}`
+                  : `${game.opponent} goal`;
+                text += ` · ${entry.ourScore}–${entry.opponentScore}`;
+                break;
+              }
+              case 'substitution': {
+                icon = '🔄';
+                const position = entry.substitution.positionId ? positionById.get(entry.substitution.positionId) : null;
+                text = `${playerLabel(entry.substitution.playerInId)} on for ${playerLabel(entry.substitution.playerOutId)}`;
+                if (position) text += ` (${position.abbreviation || position.positionName})`;
+                break;
+              }
+              case 'note':
+                icon = NOTE_ICONS[entry.note.noteType] ?? '📝';
+                text = describeNote(entry.note);
+                break;
+              case 'break':
+                icon = '⏸️';
+                text = entry.label;
+                break;
+              case 'full-time':
+                icon = '🏁';
+                text = `Full time · ${game.ourScore ?? 0}–${game.opponentScore ?? 0}${shootoutResult ? ` (${shootoutResult})` : ''}`;
+                break;
+            }
+            return (
+              <li key={entry.key} className={`game-summary__entry game-summary__entry--${entry.kind}`}>
+                <span className="game-summary__minute">
+                  {entry.kind === 'kickoff' ? '' : formatGameMinute(entry.gameSeconds, entry.half, gameClock)}
+                </span>
+                <span className="game-summary__icon" aria-hidden="true">{icon}</span>
+                <span>{text}</span>
+              </li>
+            );
+          })}
+        </ol>
+      </section>
+
+      {gameEvents.length > 0 && (
+        <section className="game-summary__section">
+          <h2>Box Score</h2>
+          <table className="stats-table game-summary__box-score">
+            <thead>
+              <tr>
+                <th className="player-name"></th>
+                <th>Us</th>
+                <th>{game.opponent}</th>
+              </tr>
+            </thead>
+            <tbody>
+              {BOX_SCORE_ROWS.map(([label, key]) => (
+                <tr key={key}>
+                  <td className="player-name">{label}</td>
+                  <td>{totals.us[key]}</td>
+                  <td>{totals.them[key]}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </section>
+      )}
+
+      <section className="game-summary__section">
+        <h2>Minutes by Position</h2>
+        {played.length === 0 ? (
+          <p className="empty-state">No play time recorded.</p>
+        ) : (
+          <div className="stats-table-container">
+            <table className="stats-table game-summary__minutes" aria-label="Minutes by position">
+              <thead>
+                <tr>
+                  <th className="player-name">Player</th>
+                  {positionColumns.map(col => (
+                    <th key={col.name} title={col.name}>{col.label}</th>
+                  ))}
+                  <th>Total</th>
+                </tr>
+              </thead>
+              <tbody>
+                {played.map(({ player, byPosition, total }) => (
+                  <tr key={player.id}>
+                    <td className="player-name">#{player.playerNumber} {player.firstName} {player.lastName}</td>
+                    {positionColumns.map(col => (
+                      <td key={col.name}>
+                        {byPosition.get(col.name) ? formatPlayTime(byPosition.get(col.name) as number, 'short') : '–'}
+                      </td>
+                    ))}
+                    <td>{formatPlayTime(total, 'short')}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+        {didNotPlay.length > 0 && (
+          <p className="game-summary__dnp">
+            Did not play: {didNotPlay.map(r => `#${r.player.playerNumber} ${r.player.firstName}`).join(', ')}
+          </p>
+        )}
+      </section>
+    </div>
+  );
+}
@@ -0,0 +1,139 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const {
+  mockConfirm,
+  mockLinkGames,
+  mockUpdateOpponent,
+  mockDeleteOpponent,
+  queryResults,
+} = vi.hoisted(() => ({
+  mockConfirm: vi.fn(),
+  mockLinkGames: vi.fn(),
+  mockUpdateOpponent: vi.fn(),
+  mockDeleteOpponent: vi.fn(),
+  queryResults: { Opponent: [] as object[] },
+}));
+
+vi.mock('../hooks/useAmplifyQuery', () => ({
+  useAmplifyQuery: (modelName: 'Opponent') => ({ data: queryResults[modelName], isSynced: true }),
+}));
+
+vi.mock('./ConfirmModal', () => ({
+  useConfirm: () => mockConfirm,
+}));
+
+vi.mock('../services/opponentService', () => ({
+  linkGamesToOpponents: mockLinkGames,
+  updateOpponent: mockUpdateOpponent,
+  deleteOpponent: mockDeleteOpponent,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showSuccess: vi.fn(),
+  showWarning: vi.fn(),
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  handleApiError: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: {
+    OPPONENTS_MATCHED: { category: 'report', action: 'match' },
+  },
+}));
+
+import { HeadToHead } from './HeadToHead';
+import { showSuccess } from '../utils/toast';
+
+const team = { id: 'team-1', name: 'Eagles', coaches: ['coach-1'] } as any;
+const rapids = { id: 'opp-1', teamId: 'team-1', name: 'Rapids', club: 'Rapids SC', notes: 'Quick wingers' };
+
+const games = [
+  { id: 'g1', opponentId: 'opp-1', opponent: 'Rapids', status: 'completed', isHome: true, gameDate: '2025-09-06T10:00:00Z', ourScore: 2, opponentScore: 1 },
+  { id: 'g2', opponentId: 'opp-1', opponent: 'Rapids', status: 'completed', isHome: false, gameDate: '2025-10-04T10:00:00Z', ourScore: 0, opponentScore: 0 },
+  { id: 'g3', opponent: 'rapids u11', status: 'completed', isHome: true, gameDate: '2025-08-01T10:00:00Z', ourScore: 1, opponentScore: 3 },
+] as any[];
+
+const notes = [
+  { id: 'n1', gameId: 'g1', noteType: 'coaching-point', notes: 'Mark their #9 tightly' },
+  { id: 'n2', gameId: 'g1', noteType: 'gold-star', notes: 'Great save' },
+  { id: 'n3', gameId: 'g3', noteType: 'coaching-point', notes: 'Unlinked game note' },
+] as any[];
+
+describe('HeadToHead', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryResults.Opponent = [rapids];
+    mockLinkGames.mockResolvedValue({ linked: 1, created: 0 });
+    mockUpdateOpponent.mockResolvedValue(undefined);
+    mockDeleteOpponent.mockResolvedValue(undefined);
+  });
+
+  it('shows the record and goals against each linked opponent', () => {
+    render(<HeadToHead team={team} games={games} notes={notes} />);
+
+    const row = screen.getByText('Rapids').closest('tr')!;
+    expect(within(row).getAllByRole('cell').map(c => c.textContent)).toEqual(['Rapids', '2', '1-0-1', '2', '1']);
+  });
+
+  it('lists past meetings with their coaching notes', async () => {
+    const user = userEvent.setup();
+    render(<HeadToHead team={team} games={games} notes={notes} />);
+
+    await user.click(screen.getByText('Rapids'));
+
+    expect(screen.getByText('🤝 Meetings (2)')).toBeInTheDocument();
+    expect(screen.getByText('W 2–1')).toBeInTheDocument();
+    expect(screen.getByText('T 0–0')).toBeInTheDocument();
+    expect(screen.getByText('Mark their #9 tightly')).toBeInTheDocument();
+    expect(screen.queryByText('Great save')).not.toBeInTheDocument();
+    expect(screen.queryByText('Unlinked game note')).not.toBeInTheDocument();
+    expect(screen.getByDisplayValue('Quick wingers')).toBeInTheDocument();
+  });
+
+  it('matches unlinked games to the directory', async () => {
+    const user = userEvent.setup();
+    render(<HeadToHead team={team} games={games} notes={notes} />);
+
+    expect(screen.getByText('1 game is not matched to an opponent yet.')).toBeInTheDocument();
+    await user.click(screen.getByText('Match Past Games'));
+
+    expect(mockLinkGames).toHaveBeenCalledWith('team-1', games, [rapids], ['coach-1']);
+    await waitFor(() => {
+      expect(showSuccess).toHaveBeenCalledWith('Matched 1 game (0 new opponents)');
+    });
+  });
+
+  it('saves edited opponent details', async () => {
+    const user = userEvent.setup();
+    render(<HeadToHead team={team} games={games} notes={notes} />);
+
+    await user.click(screen.getByText('Rapids'));
+    await user.type(screen.getByPlaceholderText('Colors'), 'Blue / white');
+    await user.click(screen.getByText('Save'));
+
+    expect(mockUpdateOpponent).toHaveBeenCalledWith(
+      rapids,
+      { name: 'Rapids', club: 'Rapids SC', colors: 'Blue / white', notes: 'Quick wingers' },
+      games,
+    );
+  });
+
+  it('removes an opponent after confirmation', async () => {
+    const user = userEvent.setup();
+    mockConfirm.mockResolvedValue(true);
+    render(<HeadToHead team={team} games={games} notes={notes} />);
+
+    await user.click(screen.getByText('Rapids'));
+    await user.click(screen.getByText('Remove'));
+
+    await waitFor(() => {
+      expect(mockDeleteOpponent).toHaveBeenCalledWith('opp-1', games);
+    });
+  });
+});
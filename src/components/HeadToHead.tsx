@@ -0,0 +1,246 @@
+import { useMemo, useState } from 'react';
+import type { Game, GameNote, Opponent, Team } from '../types/schema';
+import { useAmplifyQuery } from '../hooks/useAmplifyQuery';
+import { useConfirm } from './ConfirmModal';
+import { deleteOpponent, linkGamesToOpponents, updateOpponent } from '../services/opponentService';
+import { summarizeHeadToHead } from '../utils/opponentUtils';
+import { formatShootoutResult, getResultLabel } from '../utils/gameCalculations';
+import { showSuccess, showWarning } from '../utils/toast';
+import { handleApiError } from '../utils/errorHandler';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+
+// Notes worth carrying into the next meeting; cards and stars are about our players
+const COACHING_NOTE_TYPES = new Set(['coaching-point', 'other']);
+
+interface HeadToHeadProps {
+  team: Team;
+  games: Game[];
+  notes: GameNote[];
+}
+
+/**
+ * Head-to-head view for the season report: the team's opponent directory with
+ * the record against each opponent, past meetings and the coaching notes from them.
+ */
+export function HeadToHead({ team, games, notes }: HeadToHeadProps) {
+  const confirm = useConfirm();
+  const { data: opponents } = useAmplifyQuery('Opponent', {
+    filter: { teamId: { eq: team.id } },
+    sort: (a, b) => a.name.localeCompare(b.name),
+  }, [team.id]);
+
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [form, setForm] = useState({ name: '', club: '', colors: '', notes: '' });
+  const [isSaving, setIsSaving] = useState(false);
+  const [isMatching, setIsMatching] = useState(false);
+
+  const unlinkedGames = games.filter(g => !g.opponentId);
+  const summaries = useMemo(
+    () => new Map(opponents.map(o => [o.id, summarizeHeadToHead(games.filter(g => g.opponentId === o.id))])),
+    [opponents, games]
+  );
+  const selected = opponents.find(o => o.id === selectedId) ?? null;
+  const selectedSummary = selected ? summaries.get(selected.id) : undefined;
+
+  const selectOpponent = (opponent: Opponent) => {
+    setSelectedId(opponent.id);
+    setForm({
+      name: opponent.name,
+      club: opponent.club ?? '',
+      colors: opponent.colors ?? '',
+      notes: opponent.notes ?? '',
+    });
+  };
+
+  const handleMatchGames = async () => {
+    setIsMatching(true);
+    try {
+      const coaches = (team.coaches ?? []).filter((c): c is string => !!c);
+      const { linked, created } = await linkGamesToOpponents(team.id, games, opponents, coaches);
+      trackEvent(AnalyticsEvents.OPPONENTS_MATCHED.category, AnalyticsEvents.OPPONENTS_MATCHED.action);
+      showSuccess(`Matched ${linked} game${linked === 1 ? '' : 's'} (${created} new opponent${created === 1 ? '' : 's'})`);
+    } catch (error) {
+      handleApiError(error, 'Failed to match games to opponents');
+    } finally {
+      setIsMatching(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!selected) return;
+    if (!form.name.trim()) {
+      showWarning('Please enter an opponent name');
+      return;
+    }
+    setIsSaving(true);
+    try {
+      await updateOpponent(selected, form, games);
+      showSuccess('Opponent saved');
+    } catch (error) {
+      handleApiError(error, 'Failed to save opponent');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selected) return;
+    const confirmed = await confirm({
+      title: 'Remove Opponent',
+      message: `Remove ${selected.name} from the directory? Past games keep the name but lose the link.`,
+      confirmText: 'Remove',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    try {
+      await deleteOpponent(selected.id, games);
+      setSelectedId(null);
+    } catch (error) {
+      handleApiError(error, 'Failed to remove opponent');
+    }
+  };
+
+  return (
+    <section className="head-to-head">
+      <h2>Head-to-Head</h2>
+
+      {unlinkedGames.length > 0 && (
+        <div className="head-to-head__unlinked">
+          <span>
+            {unlinkedGames.length} game{unlinkedGames.length === 1 ? ' is' : 's are'} not matched to an opponent yet.
+          </span>
+          <button
+            className="btn-secondary"
+            onClick={() => { void handleMatchGames(); }}
+            disabled={isMatching}
+          >
+            {isMatching ? 'Matching…' : 'Match Past Games'}
+          </button>
+        </div>
+      )}
+
+      {opponents.length === 0 ? (
+        <p className="empty-state">No opponents in the directory yet.</p>
+      ) : (
+        <div className="stats-table-container">
+          <table className="stats-table">
+            <thead>
+              <tr>
+                <th className="player-name">Opponent</th>
+                <th>GP</th>
+                <th>W-L-T</th>
+                <th>GF</th>
+                <th>GA</th>
+              </tr>
+            </thead>
+            <tbody>
+              {opponents.map((opponent) => {
+                const summary = summaries.get(opponent.id);
+                const { wins = 0, losses = 0, ties = 0 } = summary?.record ?? {};
+                return (
+                  <tr
+                    key={opponent.id}
+                    onClick={() => selectOpponent(opponent)}
+                    className={`clickable-row ${selectedId === opponent.id ? 'selected' : ''}`}
+                  >
+                    <td className="player-name">{opponent.name}</td>
+                    <td>{wins + losses + ties}</td>
+                    <td>{wins}-{losses}-{ties}</td>
+                    <td>{summary?.goalsFor ?? 0}</td>
+                    <td>{summary?.goalsAgainst ?? 0}</td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {selected && selectedSummary && (
+        <div className="player-details-section">
+          <div className="details-header">
+            <h2>vs {selected.name}</h2>
+            <button onClick={() => setSelectedId(null)} className="btn-secondary">
+              Close
+            </button>
+          </div>
+
+          <div className="details-content">
+            <div className="details-card">
+              <h3>📋 Opponent Details</h3>
+              <div className="head-to-head__form">
+                <input
+                  type="text"
+                  aria-label="Opponent name"
+                  value={form.name}
+                  onChange={(e) => setForm({ ...form, name: e.target.value })}
+                />
+                <input
+                  type="text"
+                  placeholder="Club"
+                  value={form.club}
+                  onChange={(e) => setForm({ ...form, club: e.target.value })}
+                />
+                <input
+                  type="text"
+                  placeholder="Colors"
+                  value={form.colors}
+                  onChange={(e) => setForm({ ...form, colors: e.target.value })}
+                />
+                <textarea
+                  placeholder="Scouting notes"
+                  value={form.notes}
+                  onChange={(e) => setForm({ ...form, notes: e.target.value })}
+                />
+                <div className="form-actions">
+                  <button className="btn-primary" onClick={() => { void handleSave(); }} disabled={isSaving}>
+                    {isSaving ? 'Saving…' : 'Save'}
+                  </button>
+                  <button className="btn-delete" onClick={() => { void handleDelete(); }}>
+                    Remove
+                  </button>
+                </div>
+              </div>
+            </div>
+
+            <div className="details-card">
+              <h3>🤝 Meetings ({selectedSummary.meetings.length})</h3>
+              {selectedSummary.meetings.length === 0 && (
+                <p className="empty-message">No games against {selected.name} yet.</p>
+              )}
+              <div className="event-list">
+                {selectedSummary.meetings.map((game) => {
+                  const result = getResultLabel(game);
+                  const shootout = formatShootoutResult(game);
+                  const gameNotes = notes.filter(n =>
+                    n.gameId === game.id && COACHING_NOTE_TYPES.has(n.noteType) && n.notes?.trim()
+                  );
+                  return (
+                    <div key={game.id} className="head-to-head__meeting">
+                      <div className="event-item">
+                        <span className="event-game">
+                          {game.gameDate ? new Date(game.gameDate).toLocaleDateString() : 'N/A'}
+                          {' • '}{game.isHome ? 'Home' : 'Away'}
+                        </span>
+                        <span className="event-time">
+                          {result
+                            ? `${result} ${game.ourScore ?? 0}–${game.opponentScore ?? 0}${shootout ? ` (${shootout})` : ''}`
+                            : 'Upcoming'}
+                        </span>
+                      </div>
+                      {gameNotes.length > 0 && (
+                        <ul className="head-to-head__notes">
+                          {gameNotes.map(note => <li key={note.id}>{note.notes}</li>)}
+                        </ul>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
+    </section>
+  );
+}
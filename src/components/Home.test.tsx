@@ -29,6 +29,11 @@ const {
   mockGameCreate,
   mockGetCurrentUser,
   mockCoachProfileGet,
+  mockFindOrCreateOpponent,
+  mockListPending,
+  mockCacheNewGameSnapshot,
+  mockShowInfo,
+  networkState,
 } = vi.hoisted(() => ({
   mockMarkWelcomed: vi.fn(),
   mockClearDismissed: vi.fn(),
@@ -38,11 +43,18 @@ const {
   mockGameCreate: vi.fn(),
   mockGetCurrentUser: vi.fn(),
   mockCoachProfileGet: vi.fn(),
+  mockFindOrCreateOpponent: vi.fn(),
+  mockListPending: vi.fn(),
+  mockCacheNewGameSnapshot: vi.fn(),
+  mockShowInfo: vi.fn(),
+  networkState: { isOnline: true },
 }));
 
 // Mutable query results — tests mutate these before rendering
 const teamQueryResult: { data: object[]; isSynced: boolean } = { data: [], isSynced: false };
 const gameQueryResult: { data: object[]; isSynced: boolean } = { data: [], isSynced: true };
+const opponentQueryResult: { data: object[]; isSynced: boolean } = { data: [], isSynced: true };
+const seasonQueryResult: { data: object[]; isSynced: boolean } = { data: [], isSynced: true };
 
 // Mutable onboarding state — tests set `welcomed` before rendering
 const onboardingState = {
@@ -64,6 +76,8 @@ vi.mock('../hooks/useAmplifyQuery', () => ({
   useAmplifyQuery: (modelName: string) => {
     if (modelName === 'Team') return teamQueryResult;
     if (modelName === 'Game') return gameQueryResult;
+    if (modelName === 'Opponent') return opponentQueryResult;
+    if (modelName === 'Season') return seasonQueryResult;
     return { data: [], isSynced: true };
   },
 }));
@@ -107,6 +121,26 @@ vi.mock('aws-amplify/data', () => ({
   }),
 }));
 
+vi.mock('../hooks/useOfflineMutations', () => ({
+  useOfflineMutations: () => ({
+    mutations: { createGame: mockGameCreate },
+    isOnline: networkState.isOnline,
+    pendingCount: 0,
+  }),
+}));
+
+vi.mock('../hooks/useQuarterLengthMigration', () => ({
+  useQuarterLengthMigration: vi.fn(),
+}));
+
+vi.mock('../services/offlineQueueService', () => ({
+  listPending: mockListPending,
+}));
+
+vi.mock('../services/gameReadCacheService', () => ({
+  cacheNewGameSnapshot: mockCacheNewGameSnapshot,
+}));
+
 vi.mock('../services/demoDataService', () => ({
   createDemoTeam: vi.fn(),
   removeDemoData: vi.fn(),
@@ -133,6 +167,7 @@ vi.mock('../utils/toast', () => ({
   showError: vi.fn(),
   showWarning: vi.fn(),
   showSuccess: vi.fn(),
+  showInfo: mockShowInfo,
 }));
 
 vi.mock('../utils/debugUtils', () => ({
@@ -151,6 +186,10 @@ vi.mock('./ConfirmModal', () => ({
   useConfirm: () => vi.fn().mockResolvedValue(false),
 }));
 
+vi.mock('../services/opponentService', () => ({
+  findOrCreateOpponent: mockFindOrCreateOpponent,
+}));
+
 vi.mock('../services/cascadeDeleteService', () => ({
   deleteGameCascade: vi.fn(),
 }));
@@ -179,6 +218,16 @@ function resetState() {
   teamQueryResult.isSynced = false;
   gameQueryResult.data = [];
   gameQueryResult.isSynced = true;
+  opponentQueryResult.data = [];
+  seasonQueryResult.data = [];
+  mockFindOrCreateOpponent.mockReset();
+  mockListPending.mockReset();
+  mockListPending.mockResolvedValue([]);
+  mockCacheNewGameSnapshot.mockReset();
+  mockCacheNewGameSnapshot.mockResolvedValue(undefined);
+  mockShowInfo.mockClear();
+  mockNavigate.mockClear();
+  networkState.isOnline = true;
   onboardingState.welcomed = false;
   onboardingState.dismissed = true;
   authState.authStatus = 'authenticated';
@@ -521,5 +570,130 @@ describe('Home — game status grouping (regression guard)', () => {
     expect(screen.getByText('Active Games')).toBeInTheDocument();
     expect(screen.queryByText('Past Games')).not.toBeInTheDocument();
   });
+
+  it('leaves games from archived seasons out of "Past Games"', () => {
+    teamQueryResult.data = [{ id: 't1', name: 'Eagles', coaches: ['test-user-id'] }];
+    teamQueryResult.isSynced = true;
+    seasonQueryResult.data = [
+      { id: 'fall', teamId: 't1', name: 'Fall 2025', archived: true },
+      { id: 'spring', teamId: 't1', name: 'Spring 2026', archived: false },
+    ];
+    gameQueryResult.data = [
+      { id: 'g1', status: 'completed', teamId: 't1', seasonId: 'fall', opponent: 'Old Rivals', isHome: true },
+      { id: 'g2', status: 'completed', teamId: 't1', seasonId: 'spring', opponent: 'New Rivals', isHome: true },
+    ];
+
+    render(<Home />);
+
+    expect(screen.getByText('Eagles vs New Rivals')).toBeInTheDocument();
+    expect(screen.queryByText('Eagles vs Old Rivals')).not.toBeInTheDocument();
+  });
 });
 
+
+describe('Home — opponent directory', () => {
+  beforeEach(resetState);
+
+  it('creates a game against an opponent picked from the team\'s directory', async () => {
+    teamQueryResult.data = [{ id: 'team-1', name: 'Eagles', coaches: ['test-user-id'], currentSeasonId: 'spring' }];
+    teamQueryResult.isSynced = true;
+    opponentQueryResult.data = [
+      { id: 'opp-1', teamId: 'team-1', name: 'Rapids', club: 'Rapids SC' },
+      { id: 'opp-2', teamId: 'team-2', name: 'Lions' },
+    ];
+    mockGameCreate.mockResolvedValue({ data: { id: 'game-1' } });
+
+    render(<Home />);
+    await waitFor(() => expect(mockGetCurrentUser).toHaveBeenCalled());
+
+    fireEvent.click(screen.getByRole('button', { name: /schedule new game/i }));
+    fireEvent.change(screen.getAllByRole('combobox')[0], { target: { value: 'team-1' } });
+
+    const opponentSelect = screen.getByLabelText('Opponent');
+    expect(screen.getByRole('option', { name: 'Rapids (Rapids SC)' })).toBeInTheDocument();
+    expect(screen.queryByRole('option', { name: 'Lions' })).not.toBeInTheDocument();
+    expect(screen.queryByPlaceholderText('Opponent Team Name *')).not.toBeInTheDocument();
+
+    fireEvent.change(opponentSelect, { target: { value: 'opp-1' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => {
+      expect(mockGameCreate).toHaveBeenCalledWith(expect.objectContaining({
+        teamId: 'team-1',
+        opponentId: 'opp-1',
+        opponent: 'Rapids',
+        seasonId: 'spring',
+      }));
+    });
+    expect(mockFindOrCreateOpponent).not.toHaveBeenCalled();
+  });
+
+  it('matches a typed opponent name against the directory before creating the game', async () => {
+    teamQueryResult.data = [{ id: 'team-1', name: 'Eagles', coaches: ['test-user-id'] }];
+    teamQueryResult.isSynced = true;
+    mockFindOrCreateOpponent.mockResolvedValue({ id: 'opp-3', teamId: 'team-1', name: 'Hawks' });
+    mockGameCreate.mockResolvedValue({ data: { id: 'game-1' } });
+
+    render(<Home />);
+    await waitFor(() => expect(mockGetCurrentUser).toHaveBeenCalled());
+
+    fireEvent.click(screen.getByRole('button', { name: /schedule new game/i }));
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'team-1' } });
+    fireEvent.change(screen.getByPlaceholderText('Opponent Team Name *'), { target: { value: 'hawks u11' } });
+    fireEvent.change(screen.getByPlaceholderText('Club (optional)'), { target: { value: 'Hawks FC' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => {
+      expect(mockGameCreate).toHaveBeenCalledWith(expect.objectContaining({
+        opponentId: 'opp-3',
+        opponent: 'Hawks',
+      }));
+    });
+    expect(mockFindOrCreateOpponent).toHaveBeenCalledWith(
+      'team-1',
+      { name: 'hawks u11', club: 'Hawks FC', colors: '' },
+      [],
+      ['test-user-id'],
+    );
+  });
+
+  it('creates a game offline with an id made on the device and opens its plan', async () => {
+    networkState.isOnline = false;
+    teamQueryResult.data = [{ id: 'team-1', name: 'Eagles', coaches: ['test-user-id'] }];
+    teamQueryResult.isSynced = true;
+    mockGameCreate.mockResolvedValue(undefined);
+
+    render(<Home />);
+    await waitFor(() => expect(mockGetCurrentUser).toHaveBeenCalled());
+
+    fireEvent.click(screen.getByRole('button', { name: /schedule new game/i }));
+    fireEvent.change(screen.getByRole('combobox'), { target: { value: 'team-1' } });
+    fireEvent.change(screen.getByPlaceholderText('Opponent Team Name *'), { target: { value: 'Rapids' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Create' }));
+
+    await waitFor(() => expect(mockNavigate).toHaveBeenCalled());
+    const created = mockGameCreate.mock.calls[0][0];
+    expect(created).toMatchObject({ teamId: 'team-1', opponentId: null, opponent: 'Rapids' });
+    expect(created.id).toEqual(expect.any(String));
+    expect(mockFindOrCreateOpponent).not.toHaveBeenCalled();
+    expect(mockCacheNewGameSnapshot).toHaveBeenCalledWith(created, expect.objectContaining({ id: 'team-1' }));
+    expect(mockNavigate).toHaveBeenCalledWith(`/game/${created.id}/plan`, expect.anything());
+  });
+
+  it('lists a game created offline as waiting to sync', async () => {
+    teamQueryResult.data = [{ id: 'team-1', name: 'Eagles', coaches: ['test-user-id'] }];
+    teamQueryResult.isSynced = true;
+    mockListPending.mockResolvedValue([{
+      id: 1,
+      model: 'Game',
+      operation: 'create',
+      payload: { id: 'game-new', teamId: 'team-1', opponent: 'Rapids', status: 'scheduled' },
+      enqueuedAt: 1,
+      retryCount: 0,
+    }]);
+
+    render(<Home />);
+
+    expect(await screen.findByText(/Waiting to sync/)).toBeInTheDocument();
+  });
+});
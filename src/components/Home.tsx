@@ -8,11 +8,13 @@ import { useAuthenticator } from '@aws-amplify/ui-react';
 import { getCurrentUser } from 'aws-amplify/auth';
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../amplify/data/resource';
-import type { Game } from '../types/schema';
-import { showError, showWarning } from '../utils/toast';
+import type { Game, Opponent, Team, Tournament } from '../types/schema';
+import { showError, showInfo, showWarning } from '../utils/toast';
 import { trackEvent, AnalyticsEvents } from '../utils/analytics';
 import { handleApiError } from '../utils/errorHandler';
 import { useAmplifyQuery } from '../hooks/useAmplifyQuery';
+import { useOfflineMutations, type GameCreateFields } from '../hooks/useOfflineMutations';
+import { useQuarterLengthMigration } from '../hooks/useQuarterLengthMigration';
 import { useHelpFab } from '../contexts/HelpFabContext';
 import { buildFlatDebugSnapshot } from '../utils/debugUtils';
 import type { HomeDebugContext } from '../types/debug';
@@ -20,9 +22,18 @@ import { useOnboarding } from '../contexts/OnboardingContext';
 import { removeDemoData } from '../services/demoDataService';
 import { WelcomeModal } from './Onboarding/WelcomeModal';
 import { QuickStartChecklist } from './Onboarding/QuickStartChecklist';
+import { CreateTournamentForm } from './CreateTournamentForm';
+import { ScheduleImportExport } from './ScheduleImportExport';
+import { findOrCreateOpponent } from '../services/opponentService';
+import { listPending } from '../services/offlineQueueService';
+import { cacheNewGameSnapshot } from '../services/gameReadCacheService';
+import { findMatchingOpponent } from '../utils/opponentUtils';
 
 const client = generateClient<Schema>();
 
+// Opponent picker value that reveals the new-opponent fields
+const NEW_OPPONENT = 'new';
+
 export function Home() {
   const navigate = useNavigate();
   const { authStatus } = useAuthenticator((context) => [context.authStatus]);
@@ -36,8 +47,13 @@ export function Home() {
   }, [setHelpContext]);
 
   const [isCreatingGame, setIsCreatingGame] = useState(false);
+  const [isCreatingTournament, setIsCreatingTournament] = useState(false);
+  const [isTransferringSchedule, setIsTransferringSchedule] = useState(false);
   const [selectedTeamForGame, setSelectedTeamForGame] = useState('');
   const [opponent, setOpponent] = useState('');
+  const [opponentChoice, setOpponentChoice] = useState('');
+  const [opponentClub, setOpponentClub] = useState('');
+  const [opponentColors, setOpponentColors] = useState('');
   const [gameDate, setGameDate] = useState('');
   const [isHome, setIsHome] = useState(true);
   const [currentUserId, setCurrentUserId] = useState<string | undefined>();
@@ -63,13 +79,14 @@ export function Home() {
 
   // Subscribe to teams, roster, and gamePlans for onboarding progress
   const { data: teams, isSynced: isTeamsSynced } = useAmplifyQuery('Team');
-  const { data: games, isSynced: isGamesSynced } = useAmplifyQuery('Game', {
+  useQuarterLengthMigration(teams, isTeamsSynced);
+  const { data: liveGames, isSynced: isGamesSynced } = useAmplifyQuery('Game', {
     sort: (a, b) => {
       const statusA = a.status || 'scheduled';
       const statusB = b.status || 'scheduled';
 
       const getPriority = (status: string) => {
-        if (status === 'in-progress' || status === 'halftime') return 1;
+        if (status === 'in-progress' || status === 'halftime' || status === 'shootout') return 1;
         if (status === 'scheduled') return 2;
         return 3; // completed
       };
@@ -97,6 +114,27 @@ export function Home() {
     },
   });
 
+  // Games created offline are listed from the queue until they sync
+  const { mutations, isOnline, pendingCount } = useOfflineMutations();
+  const [offlineGames, setOfflineGames] = useState<Game[]>([]);
+  useEffect(() => {
+    let cancelled = false;
+    listPending()
+      .then(items => {
+        if (cancelled) return;
+        setOfflineGames(items
+          .filter(item => item.model === 'Game' && item.operation === 'create')
+          .map(item => item.payload as unknown as Game));
+      })
+      .catch(() => { /* IndexedDB unavailable — nothing queued */ });
+    return () => { cancelled = true; };
+  }, [pendingCount]);
+  const offlineGameIds = useMemo(() => new Set(offlineGames.map(g => g.id)), [offlineGames]);
+  const games = useMemo(
+    () => [...liveGames, ...offlineGames.filter(g => !liveGames.some(live => live.id === g.id))],
+    [liveGames, offlineGames]
+  );
+
   // Auto-welcome users who already had teams before the onboarding feature launched.
   // Once teams have fully synced and the user has at least one team, skip the WelcomeModal.
   // This prevents existing coaches from accidentally loading unwanted demo data.
@@ -106,6 +144,20 @@ export function Home() {
     }
   }, [welcomed, isTeamsSynced, teams.length, markWelcomed]);
 
+  const { data: tournaments } = useAmplifyQuery('Tournament', {
+    sort: (a, b) => (b.startDate ?? '').localeCompare(a.startDate ?? ''),
+  });
+
+  const { data: seasons } = useAmplifyQuery('Season');
+  const archivedSeasonIds = useMemo(
+    () => new Set(seasons.filter(s => s.archived).map(s => s.id)),
+    [seasons]
+  );
+
+  const { data: opponents } = useAmplifyQuery('Opponent', {
+    sort: (a, b) => a.name.localeCompare(b.name),
+  });
+
   const { data: teamRosters, isSynced: isTeamRostersSynced } = useAmplifyQuery('TeamRoster');
   const { data: gamePlans, isSynced: isGamePlansSynced } = useAmplifyQuery('GamePlan');
 
@@ -196,7 +248,7 @@ export function Home() {
     teamCount: teams.length,
     gameCount: games.length,
     scheduledCount: games.filter(g => g.status === 'scheduled' || !g.status).length,
-    inProgressCount: games.filter(g => g.status === 'in-progress' || g.status === 'halftime').length,
+    inProgressCount: games.filter(g => g.status === 'in-progress' || g.status === 'halftime' || g.status === 'shootout').length,
     completedCount: games.filter(g => g.status === 'completed').length,
     isCreatingGame,
   }), [teams, games, isCreatingGame]);
@@ -254,7 +306,7 @@ export function Home() {
       }
       case 7: {
         // Navigate to first in-progress or scheduled game
-        const firstGame = games.find(g => g.status === 'in-progress' || g.status === 'halftime') ||
+        const firstGame = games.find(g => g.status === 'in-progress' || g.status === 'halftime' || g.status === 'shootout') ||
                           games.find(g => (g.status || 'scheduled') === 'scheduled');
         if (firstGame) {
           void navigate(`/game/${firstGame.id}`);
@@ -315,14 +367,31 @@ export function Home() {
     return teams.find(t => t.id === teamId);
   };
 
+  const getTeamOpponents = (teamId: string): Opponent[] => {
+    return opponents.filter(o => o.teamId === teamId);
+  };
+
+  const newGameOpponents = getTeamOpponents(selectedTeamForGame);
+  const isNewOpponent = newGameOpponents.length === 0 || opponentChoice === NEW_OPPONENT;
+
+  const resetCreateGameForm = () => {
+    setOpponent('');
+    setOpponentChoice('');
+    setOpponentClub('');
+    setOpponentColors('');
+    setGameDate('');
+    setIsHome(true);
+    setSelectedTeamForGame('');
+  };
+
   const handleCreateGame = async () => {
     if (!currentUserId) {
       showError('User not found. Please refresh.');
       return;
     }
 
-    if (!opponent.trim() || !selectedTeamForGame) {
-      showWarning('Please enter opponent name and select a team');
+    if ((isNewOpponent ? !opponent.trim() : !opponentChoice) || !selectedTeamForGame) {
+      showWarning('Please choose an opponent and select a team');
       return;
     }
 
@@ -340,26 +409,55 @@ export function Home() {
         ? [...team.coaches, currentUserId]
         : team.coaches || [];
 
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const gameData: any = {
+      // A typed name that fuzzily matches the directory reuses that opponent.
+      // Offline, a new name can't be added to the directory yet, so the game
+      // keeps the typed name until it is linked from the head-to-head page.
+      const gameOpponent: Pick<Opponent, 'name'> & { id: string | null } | undefined = isNewOpponent
+        ? isOnline
+          ? await findOrCreateOpponent(
+              selectedTeamForGame,
+              { name: opponent, club: opponentClub, colors: opponentColors },
+              newGameOpponents,
+              coachesArray.filter((c): c is string => !!c)
+            )
+          : findMatchingOpponent(opponent, newGameOpponents) ?? { id: null, name: opponent.trim() }
+        : newGameOpponents.find(o => o.id === opponentChoice);
+      if (!gameOpponent) {
+        showError('Opponent not found');
+        return;
+      }
+
+      // The id is made here so a plan can be built before the game syncs
+      const gameData: GameCreateFields = {
+        id: crypto.randomUUID(),
         teamId: selectedTeamForGame,
-        opponent,
+        opponentId: gameOpponent.id,
+        opponent: gameOpponent.name,
         isHome,
-        coaches: coachesArray,
+        coaches: coachesArray.filter((c): c is string => !!c),
       };
 
+      if (team.currentSeasonId) {
+        gameData.seasonId = team.currentSeasonId;
+      }
+
       if (gameDate) {
         gameData.gameDate = new Date(gameDate).toISOString();
       }
 
-      await client.models.Game.create(gameData);
-      setOpponent('');
-      setGameDate('');
-      setIsHome(true);
-      setSelectedTeamForGame('');
+      await mutations.createGame(gameData);
+      resetCreateGameForm();
       setIsCreatingGame(false);
       trackEvent(AnalyticsEvents.GAME_CREATED.category, AnalyticsEvents.GAME_CREATED.action);
       console.log('✓ Game created successfully:', gameData);
+
+      if (!isOnline) {
+        // Save it for the planner, which reads the device copy while offline
+        const newGame = gameData as unknown as Game;
+        await cacheNewGameSnapshot(newGame, team as Team);
+        showInfo("You're offline — the game is saved on this device and syncs when you reconnect");
+        handlePlanClick(newGame);
+      }
     } catch (error) {
       handleApiError(error, 'Failed to create game');
     }
@@ -402,6 +500,7 @@ export function Home() {
     if (!status || status === 'scheduled') return '📅 Scheduled';
     if (status === 'in-progress') return '⚽ In Progress';
     if (status === 'halftime') return '⏸️ Halftime';
+    if (status === 'shootout') return '🥅 Penalties';
     if (status === 'completed') return '✅ Completed';
     return status;
   };
@@ -436,9 +535,25 @@ export function Home() {
       showError('Could not confirm save — check your connection and try again.');
     }, 5000);
     try {
+      // A changed name is matched against the directory like a new game's opponent
+      const editedGame = games.find(g => g.id === editingGameId);
+      const name = editOpponent.trim();
+      let opponentFields: { opponentId?: string; opponent: string } = { opponent: name };
+      if (editedGame && name !== editedGame.opponent) {
+        const coaches = (teams.find(t => t.id === editedGame.teamId)?.coaches ?? editedGame.coaches ?? [])
+          .filter((c): c is string => !!c);
+        const matched = await findOrCreateOpponent(
+          editedGame.teamId,
+          { name },
+          opponents.filter(o => o.teamId === editedGame.teamId),
+          coaches
+        );
+        opponentFields = { opponentId: matched.id, opponent: matched.name };
+      }
+
       await client.models.Game.update({
         id: editingGameId,
-        opponent: editOpponent.trim(),
+        ...opponentFields,
         isHome: editIsHome,
         gameDate: editGameDate ? new Date(editGameDate).toISOString() : null,
       });
@@ -451,7 +566,7 @@ export function Home() {
       setIsSavingEdit(false);
       handleApiError(error, 'Failed to update game');
     }
-  }, [editingGameId, editOpponent, editIsHome, editGameDate]);
+  }, [editingGameId, editOpponent, editIsHome, editGameDate, games, teams, opponents]);
 
   const handleCancelEditGame = useCallback(() => {
     setEditingGameId(null);
@@ -475,6 +590,20 @@ export function Home() {
     }
   }, [closeSwipe, confirm]);
 
+  const handleTournamentClick = (tournament: Tournament) => {
+    const team = getTeam(tournament.teamId);
+    void navigate(`/tournament/${tournament.id}`, {
+      state: JSON.parse(JSON.stringify({ tournament, team: team || null })),
+    });
+  };
+
+  const getTournamentLabel = (game: Game) => {
+    if (!game.tournamentId) return '';
+    const tournament = tournaments.find(t => t.id === game.tournamentId);
+    const label = [tournament?.name, game.tournamentStage].filter(Boolean).join(' · ');
+    return label ? ` • 🏆 ${label}` : '';
+  };
+
   const handlePlanClick = (game: Game) => {
     const team = getTeam(game.teamId);
     void navigate(`/game/${game.id}/plan`, {
@@ -485,10 +614,13 @@ export function Home() {
   // Group games by status
   const inProgressGames = games.filter(g => {
     const status = g.status || 'scheduled';
-    return status === 'in-progress' || status === 'halftime';
+    return status === 'in-progress' || status === 'halftime' || status === 'shootout';
   });
   const scheduledGames = games.filter(g => (g.status || 'scheduled') === 'scheduled');
-  const completedGames = games.filter(g => g.status === 'completed');
+  // Games from archived seasons live on in Reports only
+  const completedGames = games.filter(g =>
+    g.status === 'completed' && !(g.seasonId && archivedSeasonIds.has(g.seasonId))
+  );
 
   if (authStatus !== 'authenticated') return null;
 
@@ -520,14 +652,55 @@ export function Home() {
         />
       )}
 
-      {!isCreatingGame && (
-        <button
-          ref={scheduleGameButtonRef}
-          onClick={() => setIsCreatingGame(true)}
-          className="btn-primary"
-        >
-          + Schedule New Game
-        </button>
+      {!isCreatingGame && !isCreatingTournament && !isTransferringSchedule && (
+        <div className="home-create-actions">
+          <button
+            ref={scheduleGameButtonRef}
+            onClick={() => setIsCreatingGame(true)}
+            className="btn-primary"
+          >
+            + Schedule New Game
+          </button>
+          <button
+            onClick={() => setIsCreatingTournament(true)}
+            className="btn-secondary"
+          >
+            + New Tournament
+          </button>
+          <button
+            onClick={() => setIsTransferringSchedule(true)}
+            className="btn-secondary"
+          >
+            Import / Export Schedule
+          </button>
+          <button
+            onClick={() => void navigate('/practices')}
+            className="btn-secondary"
+          >
+            Practices
+          </button>
+        </div>
+      )}
+
+      {isTransferringSchedule && (
+        <ScheduleImportExport
+          teams={teams}
+          games={games}
+          currentUserId={currentUserId}
+          onDone={() => setIsTransferringSchedule(false)}
+        />
+      )}
+
+      {isCreatingTournament && (
+        <CreateTournamentForm
+          teams={teams}
+          currentUserId={currentUserId}
+          onCreated={(tournament) => {
+            setIsCreatingTournament(false);
+            handleTournamentClick(tournament);
+          }}
+          onCancel={() => setIsCreatingTournament(false)}
+        />
       )}
 
       {isCreatingGame && (
@@ -535,7 +708,10 @@ export function Home() {
           <h3>Schedule New Game</h3>
           <select
             value={selectedTeamForGame}
-            onChange={(e) => setSelectedTeamForGame(e.target.value)}
+            onChange={(e) => {
+              setSelectedTeamForGame(e.target.value);
+              setOpponentChoice('');
+            }}
           >
             <option value="">Select Team *</option>
             {teams.map((team) => (
@@ -544,12 +720,43 @@ export function Home() {
               </option>
             ))}
           </select>
-          <input
-            type="text"
-            placeholder="Opponent Team Name *"
-            value={opponent}
-            onChange={(e) => setOpponent(e.target.value)}
-          />
+          {newGameOpponents.length > 0 && (
+            <select
+              aria-label="Opponent"
+              value={opponentChoice}
+              onChange={(e) => setOpponentChoice(e.target.value)}
+            >
+              <option value="">Select Opponent *</option>
+              {newGameOpponents.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.club ? `${o.name} (${o.club})` : o.name}
+                </option>
+              ))}
+              <option value={NEW_OPPONENT}>+ New opponent</option>
+            </select>
+          )}
+          {isNewOpponent && (
+            <>
+              <input
+                type="text"
+                placeholder="Opponent Team Name *"
+                value={opponent}
+                onChange={(e) => setOpponent(e.target.value)}
+              />
+              <input
+                type="text"
+                placeholder="Club (optional)"
+                value={opponentClub}
+                onChange={(e) => setOpponentClub(e.target.value)}
+              />
+              <input
+                type="text"
+                placeholder="Colors (optional)"
+                value={opponentColors}
+                onChange={(e) => setOpponentColors(e.target.value)}
+              />
+            </>
+          )}
           <input
             type="datetime-local"
             value={gameDate}
@@ -570,10 +777,7 @@ export function Home() {
             <button
               onClick={() => {
                 setIsCreatingGame(false);
-                setOpponent('');
-                setGameDate('');
-                setIsHome(true);
-                setSelectedTeamForGame('');
+                resetCreateGameForm();
               }}
               className="btn-secondary"
             >
@@ -583,10 +787,45 @@ export function Home() {
         </div>
       )}
 
-      {games.length === 0 && !isCreatingGame && (
+      {games.length === 0 && !isCreatingGame && !isCreatingTournament && !isTransferringSchedule && (
         <div className="empty-state">
           <p>No games scheduled yet.</p>
           <p>Click the button above to schedule your first game, or go to the Manage tab to create seasons and teams.</p>
+          <p>
+            Following a player as a parent?{' '}
+            <button className="btn-link" onClick={() => void navigate('/family')}>
+              Open the family view
+            </button>
+          </p>
+        </div>
+      )}
+
+      {tournaments.length > 0 && (
+        <div className="games-group">
+          <h3 className="games-group-title">Tournaments</h3>
+          {tournaments.map((tournament) => {
+            const team = getTeam(tournament.teamId);
+            const gameCount = games.filter(g => g.tournamentId === tournament.id).length;
+            return (
+              <div
+                key={tournament.id}
+                className="game-card tournament-card"
+                onClick={() => handleTournamentClick(tournament)}
+              >
+                <div className="game-card-content">
+                  <div className="game-info">
+                    <h4>🏆 {tournament.name}</h4>
+                    <p className="game-meta">
+                      {team?.name}
+                      {tournament.startDate && ` • ${tournament.startDate}`}
+                      {tournament.location && ` • ${tournament.location}`}
+                      {` • ${gameCount} game${gameCount === 1 ? '' : 's'}`}
+                    </p>
+                  </div>
+                </div>
+              </div>
+            );
+          })}
         </div>
       )}
 
@@ -611,6 +850,7 @@ export function Home() {
                   <p className="game-meta">
                     {game.isHome ? '🏠 Home' : '✈️ Away'}
                     {game.gameDate && ` • ${formatDate(game.gameDate)}`}
+                    {getTournamentLabel(game)}
                   </p>
                 </div>
               </div>
@@ -685,6 +925,8 @@ export function Home() {
                           <p className="game-meta">
                             {game.isHome ? '🏠 Home' : '✈️ Away'}
                             {game.gameDate && ` • ${formatDate(game.gameDate)}`}
+                            {getTournamentLabel(game)}
+                            {offlineGameIds.has(game.id) && ' • ⏳ Waiting to sync'}
                           </p>
                         </div>
                       </div>
@@ -753,6 +995,7 @@ export function Home() {
                   <p className="game-meta">
                     {game.isHome ? '🏠 Home' : '✈️ Away'}
                     {game.gameDate && ` • ${formatDate(game.gameDate)}`}
+                    {getTournamentLabel(game)}
                   </p>
                 </div>
               </div>
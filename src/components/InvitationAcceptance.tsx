@@ -11,7 +11,8 @@ const client = generateClient<Schema>();
 
 interface InvitationAcceptanceProps {
   invitationId: string;
-  onComplete?: () => void;
+  /** Called when the flow finishes; receives the accepted role so callers can route parents to the family view. */
+  onComplete?: (acceptedRole?: string) => void;
 }
 
 function InvitationAcceptance({ invitationId, onComplete }: InvitationAcceptanceProps) {
@@ -113,7 +114,7 @@ function InvitationAcceptance({ invitationId, onComplete }: InvitationAcceptance
       // Call onComplete callback after 2 seconds
       if (onComplete) {
         setTimeout(() => {
-          onComplete();
+          onComplete(invitation?.role);
         }, 2000);
       }
     } catch (error) {
@@ -211,7 +212,7 @@ function InvitationAcceptance({ invitationId, onComplete }: InvitationAcceptance
           <p className="invitation-description">
             As a {invitation.role === 'PARENT' ? 'parent' : 'coach'}, you'll be able to{' '}
             {invitation.role === 'PARENT'
-              ? 'view team information and game schedules'
+              ? "view the game schedule, final scores and your player's minutes"
               : 'help manage the roster, create lineups, and track games'}
             .
           </p>
@@ -9,6 +9,7 @@ const {
   mockTrackEvent,
   mockSendTeamInvitation,
   mockRevokeCoachAccess,
+  mockRevokeParentAccess,
   mockConfirm,
   mockUseAmplifyQuery,
 } = vi.hoisted(() => ({
@@ -18,6 +19,7 @@ const {
   mockTrackEvent: vi.fn(),
   mockSendTeamInvitation: vi.fn(),
   mockRevokeCoachAccess: vi.fn(),
+  mockRevokeParentAccess: vi.fn(),
   mockConfirm: vi.fn(),
   mockUseAmplifyQuery: vi.fn(),
 }));
@@ -45,6 +47,7 @@ vi.mock('../utils/analytics', () => ({
 vi.mock('../services/invitationService', () => ({
   sendTeamInvitation: (...args: unknown[]) => mockSendTeamInvitation(...args),
   revokeCoachAccess: (...args: unknown[]) => mockRevokeCoachAccess(...args),
+  revokeParentAccess: (...args: unknown[]) => mockRevokeParentAccess(...args),
 }));
 
 vi.mock('./ConfirmModal', () => ({
@@ -64,10 +67,11 @@ describe('InvitationManagement', () => {
     mockTeamInvitationDelete.mockResolvedValue({ data: {} });
     mockSendTeamInvitation.mockResolvedValue({});
     mockRevokeCoachAccess.mockResolvedValue({});
+    mockRevokeParentAccess.mockResolvedValue(true);
     mockConfirm.mockResolvedValue(true);
 
-    mockUseAmplifyQuery.mockReturnValue({
-      data: [
+    setQueryData({
+      TeamInvitation: [
         {
           id: 'inv-1',
           teamId: 'team-1',
@@ -86,10 +90,16 @@ describe('InvitationManagement', () => {
           expiresAt: '2030-01-01T00:00:00.000Z',
         },
       ],
-      isSynced: true,
     });
   });
 
+  function setQueryData(dataByModel: Record<string, unknown[]>) {
+    mockUseAmplifyQuery.mockImplementation((model: string) => ({
+      data: dataByModel[model] ?? [],
+      isSynced: true,
+    }));
+  }
+
   function renderComponent() {
     return render(
       <InvitationManagement
@@ -155,4 +165,56 @@ describe('InvitationManagement', () => {
 
     expect(await screen.findByText('Invitation cancelled')).toBeInTheDocument();
   });
+
+  it('requires a player for parent invitations and sends the linked player id', async () => {
+    setQueryData({
+      TeamRoster: [{ id: 'roster-1', teamId: 'team-1', playerId: 'player-1', playerNumber: 9, isActive: true }],
+      Player: [{ id: 'player-1', firstName: 'Sam', lastName: 'Rivera' }],
+    });
+    const { container } = renderComponent();
+
+    const emailInput = await screen.findByPlaceholderText('Email address');
+    fireEvent.change(emailInput, { target: { value: 'parent@example.com' } });
+    fireEvent.change(screen.getByDisplayValue('Coach (Can edit)'), { target: { value: 'PARENT' } });
+
+    fireEvent.submit(container.querySelector('form')!);
+    expect(await screen.findByText('Please select the player this parent will follow')).toBeInTheDocument();
+    expect(mockSendTeamInvitation).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByLabelText('Player this parent follows'), { target: { value: 'player-1' } });
+    fireEvent.submit(container.querySelector('form')!);
+
+    await waitFor(() => {
+      expect(mockSendTeamInvitation).toHaveBeenCalledWith('team-1', 'parent@example.com', 'PARENT', 'player-1');
+    });
+  });
+
+  it('lists family members and removes parent access after confirmation', async () => {
+    mockTeamGet.mockResolvedValue({ data: { coaches: ['coach-1'], parents: ['parent-1'] } });
+    setQueryData({
+      TeamInvitation: [{
+        id: 'inv-3',
+        teamId: 'team-1',
+        status: 'ACCEPTED',
+        email: 'family@example.com',
+        acceptedBy: 'parent-1',
+        role: 'PARENT',
+        playerId: 'player-1',
+      }],
+      TeamRoster: [{ id: 'roster-1', teamId: 'team-1', playerId: 'player-1', playerNumber: 9, parents: ['parent-1'] }],
+      Player: [{ id: 'player-1', firstName: 'Sam', lastName: 'Rivera' }],
+    });
+    renderComponent();
+
+    expect(await screen.findByText('Family Members (1)')).toBeInTheDocument();
+    expect(screen.getByText('family@example.com')).toBeInTheDocument();
+    expect(screen.getByText('Following: Sam Rivera')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove' }));
+
+    await waitFor(() => {
+      expect(mockRevokeParentAccess).toHaveBeenCalledWith('team-1', 'parent-1');
+    });
+    expect(await screen.findByText('Parent access removed')).toBeInTheDocument();
+  });
 });
@@ -6,6 +6,7 @@ import { trackEvent, AnalyticsEvents } from '../utils/analytics';
 import {
   sendTeamInvitation,
   revokeCoachAccess,
+  revokeParentAccess,
   type InvitationRole,
 } from '../services/invitationService';
 import { useConfirm } from './ConfirmModal';
@@ -27,7 +28,9 @@ export function InvitationManagement({
   const confirm = useConfirm();
   const [inviteEmail, setInviteEmail] = useState('');
   const [inviteRole, setInviteRole] = useState<InvitationRole>('COACH');
+  const [invitePlayerId, setInvitePlayerId] = useState('');
   const [coaches, setCoaches] = useState<string[]>([]);
+  const [parents, setParents] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [message, setMessage] = useState('');
   const [currentUserId, setCurrentUserId] = useState<string>('');
@@ -36,12 +39,18 @@ export function InvitationManagement({
     filter: { teamId: { eq: resourceId } },
   }, [resourceId]);
 
+  const { data: rosterEntries } = useAmplifyQuery('TeamRoster', {
+    filter: { teamId: { eq: resourceId } },
+  }, [resourceId]);
+  const { data: players } = useAmplifyQuery('Player');
+
   useEffect(() => {
     getCurrentUser().then(user => setCurrentUserId(user.userId)).catch(() => {});
 
     // Load team coaches (one-time fetch, team changes are rare)
     client.models.Team.get({ id: resourceId }).then(teamResponse => {
       setCoaches(teamResponse.data?.coaches || []);
+      setParents((teamResponse.data?.parents || []).filter((id): id is string => !!id));
     }).catch(error => {
       console.error('Error loading team:', error);
     });
@@ -51,6 +60,7 @@ export function InvitationManagement({
     try {
       const teamResponse = await client.models.Team.get({ id: resourceId });
       setCoaches(teamResponse.data?.coaches || []);
+      setParents((teamResponse.data?.parents || []).filter((id): id is string => !!id));
     } catch (error) {
       console.error('Error refreshing coaches:', error);
     }
@@ -71,14 +81,24 @@ export function InvitationManagement({
       return;
     }
 
+    if (inviteRole === 'PARENT' && !invitePlayerId) {
+      setMessage('Please select the player this parent will follow');
+      return;
+    }
+
     setLoading(true);
     setMessage('');
 
     try {
-      await sendTeamInvitation(resourceId, inviteEmail, inviteRole);
+      if (inviteRole === 'PARENT') {
+        await sendTeamInvitation(resourceId, inviteEmail, inviteRole, invitePlayerId);
+      } else {
+        await sendTeamInvitation(resourceId, inviteEmail, inviteRole);
+      }
       trackEvent(AnalyticsEvents.INVITATION_SENT.category, AnalyticsEvents.INVITATION_SENT.action);
       setMessage(`Invitation sent to ${inviteEmail}`);
       setInviteEmail('');
+      setInvitePlayerId('');
       // Invitations update automatically via observeQuery
     } catch (error) {
       setMessage(`Error: ${error instanceof Error ? error.message : 'Failed to send invitation'}`);
@@ -108,6 +128,27 @@ export function InvitationManagement({
     }
   }
 
+  async function handleRevokeParentAccess(userId: string) {
+    const confirmed = await confirm({
+      title: 'Remove Family Access',
+      message: 'Are you sure you want to remove this parent? They will no longer see games or play time.',
+      confirmText: 'Remove',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+
+    setLoading(true);
+    try {
+      await revokeParentAccess(resourceId, userId);
+      setMessage('Parent access removed');
+      await refreshCoaches();
+    } catch (error) {
+      setMessage(`Error: ${error instanceof Error ? error.message : 'Failed to remove access'}`);
+    } finally {
+      setLoading(false);
+    }
+  }
+
   async function handleCancelInvitation(invitationId: string) {
     const confirmed = await confirm({
       title: 'Cancel Invitation',
@@ -136,6 +177,32 @@ export function InvitationManagement({
     return acceptedInvite ? acceptedInvite.email : `User ID: ${userId}`;
   };
 
+  const getPlayerName = (playerId: string | null | undefined) => {
+    if (!playerId) return null;
+    const player = players.find((p) => p.id === playerId);
+    return player ? `${player.firstName} ${player.lastName}` : null;
+  };
+
+  const getParentDisplay = (userId: string) => {
+    const acceptedInvite = invitations.find(
+      (inv) => inv.status === 'ACCEPTED' && inv.acceptedBy === userId && inv.role === 'PARENT'
+    );
+    const followedPlayers = rosterEntries
+      .filter((roster) => (roster.parents || []).includes(userId))
+      .map((roster) => getPlayerName(roster.playerId))
+      .filter((name): name is string => !!name);
+    return {
+      label: acceptedInvite ? acceptedInvite.email : `User ID: ${userId}`,
+      following: followedPlayers.join(', '),
+    };
+  };
+
+  const invitablePlayers = rosterEntries
+    .filter((roster) => roster.isActive !== false)
+    .map((roster) => ({ roster, name: getPlayerName(roster.playerId) }))
+    .filter((entry): entry is { roster: typeof entry.roster; name: string } => !!entry.name)
+    .sort((a, b) => a.roster.playerNumber - b.roster.playerNumber);
+
   const pendingInvitations = invitations.filter((inv) => inv.status === 'PENDING');
 
   return (
@@ -163,6 +230,22 @@ export function InvitationManagement({
           <option value="COACH">Coach (Can edit)</option>
           <option value="PARENT">Parent (Read-only)</option>
         </select>
+        {inviteRole === 'PARENT' && (
+          <select
+            value={invitePlayerId}
+            onChange={(e) => setInvitePlayerId(e.target.value)}
+            disabled={loading}
+            aria-label="Player this parent follows"
+            required
+          >
+            <option value="">Select player *</option>
+            {invitablePlayers.map(({ roster, name }) => (
+              <option key={roster.id} value={roster.playerId}>
+                #{roster.playerNumber} {name}
+              </option>
+            ))}
+          </select>
+        )}
         <button type="submit" className="btn-primary" disabled={loading}>
           {loading ? 'Sending...' : 'Send Invitation'}
         </button>
@@ -202,6 +285,34 @@ export function InvitationManagement({
         </div>
       )}
 
+      {parents.length > 0 && (
+        <div className="permissions-section">
+          <h4>Family Members ({parents.length})</h4>
+          <div className="permissions-list">
+            {parents.map((userId) => {
+              const display = getParentDisplay(userId);
+              return (
+                <div key={userId} className="permission-item">
+                  <div className="permission-info">
+                    <span className="permission-user">{display.label}</span>
+                    {display.following && (
+                      <span className="permission-date">Following: {display.following}</span>
+                    )}
+                  </div>
+                  <button
+                    onClick={() => handleRevokeParentAccess(userId)}
+                    className="btn-secondary"
+                    disabled={loading}
+                  >
+                    Remove
+                  </button>
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
       {pendingInvitations.length > 0 && (
         <div className="invitations-section">
           <h4>Pending Invitations ({pendingInvitations.length})</h4>
@@ -213,6 +324,9 @@ export function InvitationManagement({
                   <span className="invitation-role">
                     {inv.role === 'PARENT' ? 'Parent (Read-only)' : inv.role}
                   </span>
+                  {inv.role === 'PARENT' && getPlayerName(inv.playerId) && (
+                    <span className="invitation-expiry">Following: {getPlayerName(inv.playerId)}</span>
+                  )}
                   <span className="invitation-expiry">
                     Expires: {new Date(inv.expiresAt).toLocaleDateString()}
                   </span>
@@ -234,7 +348,7 @@ export function InvitationManagement({
         </div>
       )}
 
-      {coaches.length === 0 && pendingInvitations.length === 0 && (
+      {coaches.length === 0 && parents.length === 0 && pendingInvitations.length === 0 && (
         <p className="empty-message">
           No coaches or pending invitations. Send an invitation to get started!
         </p>
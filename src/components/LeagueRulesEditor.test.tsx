@@ -0,0 +1,52 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { LeagueRulesEditor } from './LeagueRulesEditor';
+
+describe('LeagueRulesEditor', () => {
+  it('fills in the rules of a chosen preset and lists them', () => {
+    const onChange = vi.fn();
+    const { rerender } = render(
+      <LeagueRulesEditor profile={{ preset: 'none', rules: [] }} periodCount={4} onChange={onChange} />
+    );
+
+    fireEvent.change(screen.getByLabelText('League Rules'), { target: { value: 'rec-league' } });
+    const profile = onChange.mock.calls[0][0];
+    expect(profile).toEqual({
+      preset: 'rec-league',
+      rules: [{ type: 'min-play', value: 50 }, { type: 'bench-periods', value: 2 }],
+    });
+
+    rerender(<LeagueRulesEditor profile={profile} periodCount={4} onChange={onChange} />);
+    expect(screen.getByText('No player sits 2 quarters in a row')).toBeInTheDocument();
+  });
+
+  it('keeps the preset rules as a starting point for custom rules', () => {
+    const onChange = vi.fn();
+    render(
+      <LeagueRulesEditor profile={{ preset: 'min-play', rules: [{ type: 'min-play', value: 50 }] }} periodCount={2} onChange={onChange} />
+    );
+
+    fireEvent.change(screen.getByLabelText('League Rules'), { target: { value: 'custom' } });
+
+    expect(onChange).toHaveBeenCalledWith({ preset: 'custom', rules: [{ type: 'min-play', value: 50 }] });
+  });
+
+  it('edits, adds and removes custom rules', () => {
+    const onChange = vi.fn();
+    render(
+      <LeagueRulesEditor profile={{ preset: 'custom', rules: [{ type: 'min-play', value: 50 }] }} periodCount={4} onChange={onChange} />
+    );
+
+    fireEvent.change(screen.getByLabelText('Minimum percent of the game'), { target: { value: '60' } });
+    expect(onChange).toHaveBeenLastCalledWith({ preset: 'custom', rules: [{ type: 'min-play', value: 60 }] });
+
+    fireEvent.change(screen.getByLabelText('Add league rule'), { target: { value: 'bench-periods' } });
+    expect(onChange).toHaveBeenLastCalledWith({
+      preset: 'custom',
+      rules: [{ type: 'min-play', value: 50 }, { type: 'bench-periods', value: 2 }],
+    });
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove Minimum play time' }));
+    expect(onChange).toHaveBeenLastCalledWith({ preset: 'custom', rules: [] });
+  });
+});
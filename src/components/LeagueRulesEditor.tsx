@@ -0,0 +1,111 @@
+import type { LeagueRule, LeagueRulePreset, LeagueRuleProfile, LeagueRuleType } from '../types/schema';
+import { describeLeagueRule, LEAGUE_RULE_PRESETS, LEAGUE_RULE_TYPES } from '../utils/leagueRuleUtils';
+
+interface LeagueRulesEditorProps {
+  profile: LeagueRuleProfile;
+  periodCount: number;
+  onChange: (profile: LeagueRuleProfile) => void;
+}
+
+/**
+ * Picks a team's league rule profile. A preset brings its own rules; editing
+ * any rule turns the profile into custom rules the coach owns.
+ */
+export function LeagueRulesEditor({ profile, periodCount, onChange }: LeagueRulesEditorProps) {
+  const selectPreset = (preset: LeagueRulePreset) => {
+    if (preset === 'custom') {
+      onChange({ preset, rules: profile.rules });
+      return;
+    }
+    onChange({ preset, rules: LEAGUE_RULE_PRESETS.find(p => p.preset === preset)?.rules ?? [] });
+  };
+
+  const updateRules = (rules: LeagueRule[]) => onChange({ preset: 'custom', rules });
+
+  const update = (index: number, value: number) => {
+    updateRules(profile.rules.map((rule, i) => (i === index ? { ...rule, value } : rule)));
+  };
+
+  const unusedTypes = LEAGUE_RULE_TYPES.filter(t => !profile.rules.some(r => r.type === t.type));
+
+  const addRule = (type: LeagueRuleType) => {
+    const defaultValue = LEAGUE_RULE_TYPES.find(t => t.type === type)?.defaultValue;
+    updateRules([...profile.rules, defaultValue === undefined ? { type } : { type, value: defaultValue }]);
+  };
+
+  return (
+    <div className="league-rules">
+      <label>
+        League Rules
+        <select value={profile.preset} onChange={(e) => selectPreset(e.target.value as LeagueRulePreset)}>
+          {LEAGUE_RULE_PRESETS.map(({ preset, label }) => (
+            <option key={preset} value={preset}>{label}</option>
+          ))}
+          <option value="custom">Custom rules</option>
+        </select>
+      </label>
+      {profile.preset !== 'custom' && profile.rules.length > 0 && (
+        <ul className="league-rules__summary">
+          {profile.rules.map((rule) => (
+            <li key={rule.type}>{describeLeagueRule(rule, periodCount)}</li>
+          ))}
+        </ul>
+      )}
+      {profile.preset === 'custom' && (
+        <>
+          {profile.rules.map((rule, index) => (
+            <div key={rule.type} className="league-rules__row">
+              <span>{LEAGUE_RULE_TYPES.find(t => t.type === rule.type)?.label}</span>
+              {rule.type === 'min-play' && (
+                <>
+                  <input
+                    type="number"
+                    min={1}
+                    max={100}
+                    value={rule.value ?? 50}
+                    onChange={(e) => update(index, Math.min(100, Math.max(1, parseInt(e.target.value, 10) || 1)))}
+                    aria-label="Minimum percent of the game"
+                  />
+                  <span>% of the game</span>
+                </>
+              )}
+              {rule.type === 'bench-periods' && (
+                <>
+                  <input
+                    type="number"
+                    min={2}
+                    max={periodCount}
+                    value={rule.value ?? 2}
+                    onChange={(e) => update(index, Math.max(2, parseInt(e.target.value, 10) || 2))}
+                    aria-label="Periods in a row"
+                  />
+                  <span>in a row</span>
+                </>
+              )}
+              <button
+                type="button"
+                onClick={() => updateRules(profile.rules.filter((_, i) => i !== index))}
+                className="btn-delete"
+                aria-label={`Remove ${LEAGUE_RULE_TYPES.find(t => t.type === rule.type)?.label ?? 'rule'}`}
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+          {unusedTypes.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => { if (e.target.value) addRule(e.target.value as LeagueRuleType); }}
+              aria-label="Add league rule"
+            >
+              <option value="">+ Add rule</option>
+              {unusedTypes.map(({ type, label }) => (
+                <option key={type} value={type}>{label}</option>
+              ))}
+            </select>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
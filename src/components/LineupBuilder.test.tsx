@@ -137,6 +137,25 @@ describe("LineupBuilder", () => {
       expect(gkOptions[3]).toHaveTextContent("#7");   // Charlie (non-preferred)
     });
 
+    it("ranks by practice attendance after preferred position when rates are given", () => {
+      render(
+        <LineupBuilder
+          positions={positions}
+          availablePlayers={players}
+          lineup={emptyLineup}
+          onLineupChange={() => {}}
+          practiceAttendanceRates={new Map([["p1", 0.9], ["p4", 0.5], ["p3", 0.75]])}
+        />
+      );
+      const selects = screen.getAllByRole("combobox");
+      const gkOptions = Array.from(selects[0].querySelectorAll("option")).slice(1);
+      // Preferred for pos1 by rate: p1 (90%), p4 (50%) — then p3 (75%), p2 (no practices)
+      expect(gkOptions[0]).toHaveTextContent("#10 Alice Smith (GK) · 90% practice");
+      expect(gkOptions[1]).toHaveTextContent("#1");
+      expect(gkOptions[2]).toHaveTextContent("#7");
+      expect(gkOptions[3]).toHaveTextContent("#3 Bob Jones (DEF, FW) · — practice");
+    });
+
     it("shows star prefix for preferred position matches", () => {
       render(
         <LineupBuilder
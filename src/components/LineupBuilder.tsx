@@ -1,6 +1,7 @@
 import { useState } from 'react';
 import { getStatusColor, getStatusLabel } from './PlayerAvailabilityGrid';
 import { useAvailability } from '../contexts/AvailabilityContext';
+import { compareStartingCandidates, formatAttendanceRate } from '../utils/practiceAttendanceUtils';
 
 interface Player {
   id: string;
@@ -25,6 +26,8 @@ interface LineupBuilderProps {
   showPreferredPositions?: boolean;
   /** When provided, the ✕ remove button is only shown for positions in this set */
   removablePositionIds?: Set<string>;
+  /** Practice attendance rate per player; when provided, candidates are ranked by it after preferred position */
+  practiceAttendanceRates?: Map<string, number | null>;
 }
 
 export function LineupBuilder({
@@ -35,6 +38,7 @@ export function LineupBuilder({
   disabled = false,
   showPreferredPositions = true,
   removablePositionIds,
+  practiceAttendanceRates,
 }: LineupBuilderProps) {
   const { getPlayerAvailability } = useAvailability();
   const [draggedPlayer, setDraggedPlayer] = useState<Player | null>(null);
@@ -144,15 +148,7 @@ export function LineupBuilder({
                   {availablePlayers
                     .filter((p) => !Array.from(lineup.values()).includes(p.id))
                     .slice()
-                    .sort((a, b) => {
-                      // Sort players with this position as preferred to the top
-                      const aPreferred = a.preferredPositions?.split(',').map(s => s.trim()).includes(position.id) || false;
-                      const bPreferred = b.preferredPositions?.split(',').map(s => s.trim()).includes(position.id) || false;
-                      if (aPreferred && !bPreferred) return -1;
-                      if (!aPreferred && bPreferred) return 1;
-                      // Then sort by player number
-                      return (a.playerNumber || 0) - (b.playerNumber || 0);
-                    })
+                    .sort((a, b) => compareStartingCandidates(a, b, position.id, practiceAttendanceRates))
                     .map((player) => {
                       const preferredPos = getPreferredPositionsText(player);
                       const isPreferredForPosition = player.preferredPositions?.split(',').map(s => s.trim()).includes(position.id);
@@ -160,6 +156,7 @@ export function LineupBuilder({
                         <option key={player.id} value={player.id}>
                           {isPreferredForPosition ? '⭐ ' : ''}#{player.playerNumber || 0} {player.firstName} {player.lastName}
                           {preferredPos}
+                          {practiceAttendanceRates ? ` · ${formatAttendanceRate(practiceAttendanceRates.get(player.id))} practice` : ''}
                         </option>
                       );
                     })}
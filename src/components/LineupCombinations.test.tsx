@@ -0,0 +1,81 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { LineupCombinations } from './LineupCombinations';
+
+const positions = new Map([
+  ['lb', { abbreviation: 'LB' }],
+  ['rb', { abbreviation: 'RB' }],
+  ['cm', { abbreviation: 'CM' }],
+]);
+
+const playerLabels = new Map([
+  ['ana', '#2 Ana'],
+  ['ben', '#3 Ben'],
+  ['cal', '#4 Cal'],
+  ['dee', '#8 Dee'],
+]);
+
+const record = (playerId: string, positionId: string, start: number, end: number) => ({
+  gameId: 'game-1', playerId, positionId, startGameSeconds: start, endGameSeconds: end,
+});
+
+// Ana + Ben for 20 minutes, then Ana + Cal for 5 minutes
+const playTimeRecords = [
+  record('ana', 'lb', 0, 1500),
+  record('ben', 'rb', 0, 1200),
+  record('cal', 'rb', 1200, 1500),
+  record('dee', 'cm', 0, 1500),
+] as any[];
+
+const games = [{ id: 'game-1', status: 'completed', elapsedSeconds: 1500 }] as any[];
+const goals = [
+  { gameId: 'game-1', gameSeconds: 600, scoredByUs: false },
+  { gameId: 'game-1', gameSeconds: 1300, scoredByUs: true },
+] as any[];
+
+const renderCombinations = () => render(
+  <LineupCombinations
+    games={games}
+    playTimeRecords={playTimeRecords}
+    goals={goals}
+    positions={positions}
+    playerLabels={playerLabels}
+  />
+);
+
+const rowNames = () => screen.getAllByRole('row').slice(1).map(row => within(row).getAllByRole('cell')[0].textContent);
+
+describe('LineupCombinations', () => {
+  it('lists back lines with at least the minimum minutes together', () => {
+    renderCombinations();
+
+    expect(rowNames()).toEqual(['#2 Ana, #3 Ben']);
+    const row = screen.getByText('#2 Ana, #3 Ben').closest('tr')!;
+    expect(within(row).getAllByRole('cell').map(c => c.textContent)).toEqual(['#2 Ana, #3 Ben', '1', '20m', '0', '1', '−1', '−3']);
+  });
+
+  it('lowers the minimum and sorts by plus/minus', async () => {
+    const user = userEvent.setup();
+    renderCombinations();
+
+    await user.clear(screen.getByLabelText('Min. minutes together'));
+    await user.type(screen.getByLabelText('Min. minutes together'), '0');
+    expect(rowNames()).toEqual(['#2 Ana, #3 Ben', '#2 Ana, #4 Cal']);
+
+    await user.selectOptions(screen.getByLabelText('Sort by'), 'plusMinus');
+    expect(rowNames()).toEqual(['#2 Ana, #4 Cal', '#2 Ana, #3 Ben']);
+  });
+
+  it('switches between units', async () => {
+    const user = userEvent.setup();
+    renderCombinations();
+
+    await user.selectOptions(screen.getByLabelText('Unit'), 'field');
+    expect(rowNames()).toEqual(['#2 Ana, #3 Ben, #8 Dee']);
+
+    await user.selectOptions(screen.getByLabelText('Unit'), 'midfield');
+    expect(screen.getByText('No midfield combinations with at least 10 minutes together.')).toBeInTheDocument();
+  });
+});
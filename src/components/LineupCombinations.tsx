@@ -0,0 +1,116 @@
+import { useMemo, useState } from 'react';
+import type { Game, Goal, PlayTimeRecord } from '../types/schema';
+import {
+  calculateLineupCombinations,
+  LINEUP_UNIT_LABELS,
+  type LineupCombination,
+  type LineupUnit,
+} from '../utils/lineupCombinationUtils';
+import { formatPlayTime } from '../utils/playTimeCalculations';
+import { formatPlusMinus } from '../utils/plusMinusCalculations';
+
+type SortKey = 'minutes' | 'plusMinus' | 'per60';
+
+const SORTERS: Record<SortKey, (a: LineupCombination, b: LineupCombination) => number> = {
+  minutes: (a, b) => b.secondsTogether - a.secondsTogether,
+  plusMinus: (a, b) => b.plusMinus - a.plusMinus || b.secondsTogether - a.secondsTogether,
+  per60: (a, b) => (b.per60 ?? 0) - (a.per60 ?? 0) || b.secondsTogether - a.secondsTogether,
+};
+
+interface LineupCombinationsProps {
+  games: Game[];
+  playTimeRecords: PlayTimeRecord[];
+  goals: Goal[];
+  positions: Map<string, { abbreviation?: string | null }>;
+  /** Display label per player ID, e.g. "#7 Sam" */
+  playerLabels: Map<string, string>;
+}
+
+/**
+ * Season report tab listing the units (back lines, midfields, front lines and
+ * full outfield sets) that shared the field, with minutes together and the
+ * goal differential while they were on.
+ */
+export function LineupCombinations({ games, playTimeRecords, goals, positions, playerLabels }: LineupCombinationsProps) {
+  const [unit, setUnit] = useState<LineupUnit>('defense');
+  const [minMinutes, setMinMinutes] = useState(10);
+  const [sortKey, setSortKey] = useState<SortKey>('minutes');
+
+  const combinations = useMemo(
+    () => calculateLineupCombinations(games, playTimeRecords, goals, positions),
+    [games, playTimeRecords, goals, positions]
+  );
+
+  const visible = combinations
+    .filter(c => c.unit === unit && c.secondsTogether >= minMinutes * 60)
+    .sort(SORTERS[sortKey]);
+
+  return (
+    <div className="lineup-combinations">
+      <div className="lineup-combinations__filters">
+        <label>
+          Unit
+          <select value={unit} onChange={(e) => setUnit(e.target.value as LineupUnit)}>
+            {(Object.keys(LINEUP_UNIT_LABELS) as LineupUnit[]).map(key => (
+              <option key={key} value={key}>{LINEUP_UNIT_LABELS[key]}</option>
+            ))}
+          </select>
+        </label>
+        <label>
+          Min. minutes together
+          <input
+            type="number"
+            min={0}
+            value={minMinutes}
+            onChange={(e) => setMinMinutes(Math.max(0, Number(e.target.value) || 0))}
+          />
+        </label>
+        <label>
+          Sort by
+          <select value={sortKey} onChange={(e) => setSortKey(e.target.value as SortKey)}>
+            <option value="minutes">Minutes together</option>
+            <option value="plusMinus">Plus/minus</option>
+            <option value="per60">Per 60 minutes</option>
+          </select>
+        </label>
+      </div>
+
+      {visible.length === 0 ? (
+        <p className="empty-state">
+          No {LINEUP_UNIT_LABELS[unit].toLowerCase()} combinations with at least {minMinutes} minutes together.
+        </p>
+      ) : (
+        <div className="stats-table-container">
+          <table className="stats-table">
+            <thead>
+              <tr>
+                <th className="player-name">Players</th>
+                <th>GP</th>
+                <th>Time</th>
+                <th>GF</th>
+                <th>GA</th>
+                <th>+/-</th>
+                <th>/60</th>
+              </tr>
+            </thead>
+            <tbody>
+              {visible.map(combo => (
+                <tr key={combo.key}>
+                  <td className="player-name">
+                    {combo.playerIds.map(id => playerLabels.get(id) ?? 'Unknown').join(', ')}
+                  </td>
+                  <td>{combo.gamesTogether}</td>
+                  <td>{formatPlayTime(combo.secondsTogether, 'long')}</td>
+                  <td>{combo.goalsFor}</td>
+                  <td>{combo.goalsAgainst}</td>
+                  <td className="stat-plus-minus">{formatPlusMinus(combo.plusMinus)}</td>
+                  <td>{combo.per60 !== null ? formatPlusMinus(combo.per60) : '-'}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,11 @@
 import { useState, useEffect, useReducer, useMemo } from 'react';
-import { useSearchParams } from 'react-router-dom';
+import { Link, useSearchParams } from 'react-router-dom';
 import { generateClient } from 'aws-amplify/data';
 import { getCurrentUser } from 'aws-amplify/auth';
 import { InvitationManagement } from './InvitationManagement';
+import { RosterImport } from './RosterImport';
+import { PositionConstraintEditor } from './PositionConstraintEditor';
+import { LeagueRulesEditor } from './LeagueRulesEditor';
 import type { Schema } from '../../amplify/data/resource';
 import type { Team, Player, TeamRoster, Formation } from '../types/schema';
 import { FORMATION_TEMPLATES } from '../../amplify/data/formation-templates';
@@ -30,10 +33,18 @@ import {
 } from './managementReducers';
 import { useAmplifyQuery } from '../hooks/useAmplifyQuery';
 import { getAvailableBirthYears } from '../utils/rosterFilterUtils';
+import { describePositionConstraint, parsePositionConstraints } from '../utils/positionConstraintUtils';
 import { useHelpFab } from '../contexts/HelpFabContext';
 import type { HelpScreenKey } from '../help';
 import { buildFlatDebugSnapshot } from '../utils/debugUtils';
 import type { ManagementDebugContext } from '../types/debug';
+import {
+  formatPeriodStructure,
+  getPeriodCount,
+  getPeriodName,
+  MAX_PERIOD_COUNT,
+  MIN_PERIOD_COUNT,
+} from '../utils/periodUtils';
 
 const client = generateClient<Schema>();
 
@@ -57,7 +68,11 @@ async function confirmAndDelete(
 
 const BIRTH_YEAR_MAX = BIRTH_YEAR_MAX_FN();
 
-function validateTeamForm(form: { name: string; maxPlayers: string; halfLength: string }) {
+function validateTeamForm(form: {
+  name: string; maxPlayers: string; halfLength: string;
+  fairnessWindow: string; fairnessWindowGames: string;
+  gameFormat: string; periodCount: string;
+}) {
   const result = validateTeamFormData(form);
   if ('error' in result) { showWarning(result.error); return null; }
   return result;
@@ -160,6 +175,7 @@ export function Management() {
 
   const [rosterView, setRosterView] = useState<'roster' | 'positions'>('roster');
   const [birthYearFilters, setBirthYearFilters] = useState<string[]>([]);
+  const [importingRosterTeamId, setImportingRosterTeamId] = useState<string | null>(null);
 
   // Sharing state
   const [sharingResourceType, setSharingResourceType] = useState<'team' | null>(null);
@@ -168,6 +184,8 @@ export function Management() {
 
   // Form state (useReducer)
   const [teamForm, teamDispatch] = useReducer(teamFormReducer, initialTeamForm);
+  const formPeriodCount = getPeriodCount(teamForm.gameFormat, parseInt(teamForm.periodCount));
+  const formPeriodName = getPeriodName(formPeriodCount);
   const [rosterForm, rosterDispatch] = useReducer(rosterFormReducer, initialRosterForm);
 
   // Swipe-to-delete
@@ -228,6 +246,11 @@ export function Management() {
         halfLengthMinutes: validated.halfLengthNum,
         sport: teamForm.sport,
         gameFormat: teamForm.gameFormat,
+        periodCount: validated.periodCountNum ?? null,
+        fairnessWindow: teamForm.fairnessWindow,
+        fairnessWindowGames: validated.fairnessWindowGamesNum,
+        starterRanking: teamForm.starterRanking,
+        leagueRules: JSON.stringify(teamForm.leagueRules),
       });
       teamDispatch({ type: 'RESET' });
       trackEvent(AnalyticsEvents.TEAM_CREATED.category, AnalyticsEvents.TEAM_CREATED.action);
@@ -258,6 +281,11 @@ export function Management() {
         halfLengthMinutes: validated.halfLengthNum,
         sport: teamForm.sport,
         gameFormat: teamForm.gameFormat,
+        periodCount: validated.periodCountNum ?? null,
+        fairnessWindow: teamForm.fairnessWindow,
+        fairnessWindowGames: validated.fairnessWindowGamesNum,
+        starterRanking: teamForm.starterRanking,
+        leagueRules: JSON.stringify(teamForm.leagueRules),
       });
       teamDispatch({ type: 'RESET' });
     } catch (error) {
@@ -435,6 +463,9 @@ export function Management() {
         preferredPositions: rosterForm.preferredPositions.length > 0
           ? rosterForm.preferredPositions.join(', ')
           : undefined,
+        positionConstraints: rosterForm.positionConstraints.length > 0
+          ? JSON.stringify(rosterForm.positionConstraints)
+          : null,
       });
 
       rosterDispatch({ type: 'RESET' });
@@ -856,10 +887,10 @@ export function Management() {
                 />
               </label>
               <label>
-                Half Length (minutes) *
+                {formPeriodName} Length (minutes) *
                 <input
                   type="number"
-                  placeholder="Enter half length"
+                  placeholder={`Enter ${formPeriodName.toLowerCase()} length`}
                   value={teamForm.halfLength}
                   onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'halfLength', value: e.target.value })}
                   min="1"
@@ -882,8 +913,58 @@ export function Management() {
                 >
                   <option value="Halves">Halves</option>
                   <option value="Quarters">Quarters</option>
+                  <option value="Periods">Custom periods</option>
+                </select>
+              </label>
+              {teamForm.gameFormat === 'Periods' && (
+                <label>
+                  Number of Periods
+                  <input
+                    type="number"
+                    value={teamForm.periodCount}
+                    onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'periodCount', value: e.target.value })}
+                    min={MIN_PERIOD_COUNT}
+                    max={MAX_PERIOD_COUNT}
+                  />
+                </label>
+              )}
+              <label>
+                Rotation Fairness
+                <select
+                  value={teamForm.fairnessWindow}
+                  onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'fairnessWindow', value: e.target.value })}
+                >
+                  <option value="game">This game only</option>
+                  <option value="recent">Last few games</option>
+                  <option value="season">Whole season</option>
+                </select>
+              </label>
+              {teamForm.fairnessWindow === 'recent' && (
+                <label>
+                  Games to Balance Across
+                  <input
+                    type="number"
+                    value={teamForm.fairnessWindowGames}
+                    onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'fairnessWindowGames', value: e.target.value })}
+                    min="1"
+                  />
+                </label>
+              )}
+              <label>
+                Starting Lineup Ranking
+                <select
+                  value={teamForm.starterRanking}
+                  onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'starterRanking', value: e.target.value })}
+                >
+                  <option value="position">Preferred position</option>
+                  <option value="practice">Practice attendance</option>
                 </select>
               </label>
+              <LeagueRulesEditor
+                profile={teamForm.leagueRules}
+                periodCount={formPeriodCount}
+                onChange={(leagueRules) => teamDispatch({ type: 'SET_LEAGUE_RULES', leagueRules })}
+              />
               <label>
                 Formation
                 <select
@@ -944,10 +1025,10 @@ export function Management() {
                 />
               </label>
               <label>
-                Half Length (minutes) *
+                {formPeriodName} Length (minutes) *
                 <input
                   type="number"
-                  placeholder="Enter half length"
+                  placeholder={`Enter ${formPeriodName.toLowerCase()} length`}
                   value={teamForm.halfLength}
                   onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'halfLength', value: e.target.value })}
                   min="1"
@@ -970,8 +1051,58 @@ export function Management() {
                 >
                   <option value="Halves">Halves</option>
                   <option value="Quarters">Quarters</option>
+                  <option value="Periods">Custom periods</option>
                 </select>
               </label>
+              {teamForm.gameFormat === 'Periods' && (
+                <label>
+                  Number of Periods
+                  <input
+                    type="number"
+                    value={teamForm.periodCount}
+                    onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'periodCount', value: e.target.value })}
+                    min={MIN_PERIOD_COUNT}
+                    max={MAX_PERIOD_COUNT}
+                  />
+                </label>
+              )}
+              <label>
+                Rotation Fairness
+                <select
+                  value={teamForm.fairnessWindow}
+                  onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'fairnessWindow', value: e.target.value })}
+                >
+                  <option value="game">This game only</option>
+                  <option value="recent">Last few games</option>
+                  <option value="season">Whole season</option>
+                </select>
+              </label>
+              {teamForm.fairnessWindow === 'recent' && (
+                <label>
+                  Games to Balance Across
+                  <input
+                    type="number"
+                    value={teamForm.fairnessWindowGames}
+                    onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'fairnessWindowGames', value: e.target.value })}
+                    min="1"
+                  />
+                </label>
+              )}
+              <label>
+                Starting Lineup Ranking
+                <select
+                  value={teamForm.starterRanking}
+                  onChange={(e) => teamDispatch({ type: 'SET_FIELD', field: 'starterRanking', value: e.target.value })}
+                >
+                  <option value="position">Preferred position</option>
+                  <option value="practice">Practice attendance</option>
+                </select>
+              </label>
+              <LeagueRulesEditor
+                profile={teamForm.leagueRules}
+                periodCount={formPeriodCount}
+                onChange={(leagueRules) => teamDispatch({ type: 'SET_LEAGUE_RULES', leagueRules })}
+              />
               <label>
                 Formation
                 <select
@@ -1029,7 +1160,7 @@ export function Management() {
                         <div className="item-info">
                           <h3>{team.name}</h3>
                           <p className="item-meta">
-                            {team.maxPlayersOnField} players • {team.halfLengthMinutes} min halves
+                            {team.maxPlayersOnField} players • {formatPeriodStructure(getPeriodCount(team.gameFormat, team.periodCount), team.halfLengthMinutes ?? 30)}
                             {getFormationName(team.formationId) && (
                               <> • Formation: {getFormationName(team.formationId)}</>
                             )}
@@ -1156,14 +1287,32 @@ export function Management() {
                           </div>
                         ) : (
                         <>
-                        {!rosterForm.isAdding && !rosterForm.editing && (
-                          <button
-                            onClick={() => rosterDispatch({ type: 'START_ADD' })}
-                            className="btn-secondary" 
-                            style={{ marginBottom: '1rem' }}
-                          >
-                            + Add Player to Roster
-                          </button>
+                        {!rosterForm.isAdding && !rosterForm.editing && importingRosterTeamId !== team.id && (
+                          <div className="roster-actions">
+                            <button
+                              onClick={() => rosterDispatch({ type: 'START_ADD' })}
+                              className="btn-secondary"
+                            >
+                              + Add Player to Roster
+                            </button>
+                            <button
+                              onClick={() => setImportingRosterTeamId(team.id)}
+                              className="btn-secondary"
+                            >
+                              Import Roster (CSV)
+                            </button>
+                          </div>
+                        )}
+
+                        {importingRosterTeamId === team.id && (
+                          <RosterImport
+                            team={team}
+                            players={players}
+                            rosters={teamRosters}
+                            positions={getTeamFormationPositions(team.id)}
+                            currentUserId={currentUserId}
+                            onDone={() => setImportingRosterTeamId(null)}
+                          />
                         )}
                         
                         {rosterForm.isAdding && (
@@ -1326,6 +1475,10 @@ export function Management() {
                                         ))}
                                       </div>
                                     )}
+                                    <PositionConstraintEditor
+                                      constraints={rosterForm.positionConstraints}
+                                      onChange={(constraints) => rosterDispatch({ type: 'SET_POSITION_CONSTRAINTS', constraints })}
+                                    />
                                     <div className="form-actions">
                                       <button onClick={handleUpdateRoster} className="btn-primary">
                                         Update
@@ -1349,6 +1502,11 @@ export function Management() {
                                 }}>
                                   <span>
                                     #{roster.playerNumber} {player.firstName} {player.lastName}
+                                    {parsePositionConstraints(roster.positionConstraints).map((constraint, i) => (
+                                      <span key={i} className="roster-constraint-badge">
+                                        {describePositionConstraint(constraint)}
+                                      </span>
+                                    ))}
                                   </span>
                                   <div style={{ display: 'flex', gap: '0.5rem' }}>
                                     <button
@@ -1818,6 +1976,16 @@ export function Management() {
               </div>
             </div>
 
+            <div className="app-info-card" style={{ marginTop: '16px' }}>
+              <h3>🔄 Offline Changes</h3>
+              <p style={{ fontSize: '0.9rem', color: 'var(--text-secondary)', marginBottom: '12px' }}>
+                Changes made without a connection wait on this device until they sync. Review, retry, discard or export them.
+              </p>
+              <Link to="/sync" className="btn-secondary" style={{ display: 'inline-block', width: 'auto' }}>
+                Review offline changes
+              </Link>
+            </div>
+
             {demoTeamId && (
               <div className="app-info-card" style={{ marginTop: '16px' }}>
                 <h3>🧪 Demo Data</h3>
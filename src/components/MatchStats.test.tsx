@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { MatchStats } from './MatchStats';
+
+const games = [
+  { id: 'game-2', status: 'completed', opponent: 'Hawks', gameDate: '2030-06-08' },
+  { id: 'game-1', status: 'completed', opponent: 'Rivals', gameDate: '2030-06-01' },
+  { id: 'game-3', status: 'scheduled', opponent: 'Owls', gameDate: '2030-06-15' },
+] as any[];
+
+const goals = [
+  { gameId: 'game-1', scoredByUs: true, gameSeconds: 100 },
+  { gameId: 'game-2', scoredByUs: false, gameSeconds: 100 },
+] as any[];
+
+const event = (gameId: string, eventType: string, forUs: boolean) => ({ gameId, eventType, forUs, gameSeconds: 50 });
+
+const gameEvents = [
+  event('game-1', 'shot-on-target', true),
+  event('game-1', 'shot-off-target', false),
+  event('game-1', 'corner', true),
+  event('game-2', 'save', true),
+  event('game-2', 'foul', false),
+  event('game-3', 'corner', true),
+] as any[];
+
+const cells = (row: HTMLElement) => within(row).getAllByRole('cell').map(c => c.textContent);
+
+describe('MatchStats', () => {
+  it('lists completed games in date order with a totals row', () => {
+    render(<MatchStats games={games} goals={goals} gameEvents={gameEvents} />);
+
+    const rows = screen.getAllByRole('row').slice(1);
+    expect(rows).toHaveLength(3);
+    expect(cells(rows[0]).slice(1)).toEqual(['1–0', '2–1', '2–0', '1–0', '0–0', '0–0', '0–0']);
+    expect(rows[0]).toHaveTextContent('vs Rivals');
+    expect(cells(rows[1]).slice(1)).toEqual(['0–1', '0–1', '0–1', '0–0', '0–1', '0–0', '1–0']);
+    expect(cells(rows[2])).toEqual(['Total', '1–1', '2–2', '2–1', '1–0', '0–1', '0–0', '1–0']);
+  });
+
+  it('explains where the numbers come from before any events are logged', () => {
+    render(<MatchStats games={games} goals={goals} gameEvents={[]} />);
+
+    expect(screen.getByText(/Shots here are goals only/)).toBeInTheDocument();
+  });
+
+  it('shows an empty state without completed games', () => {
+    render(<MatchStats games={[games[2]]} goals={[]} gameEvents={[]} />);
+
+    expect(screen.getByText('No completed games yet.')).toBeInTheDocument();
+  });
+});
@@ -0,0 +1,95 @@
+import { useMemo } from 'react';
+import type { Game, GameEvent, Goal } from '../types/schema';
+import { calculateGameEventTotals, type GameEventTotals } from '../utils/gameEventUtils';
+
+interface MatchStatsProps {
+  games: Game[];
+  goals: Goal[];
+  gameEvents: GameEvent[];
+}
+
+const pair = (totals: GameEventTotals, key: keyof GameEventTotals['us']) =>
+  `${totals.us[key]}–${totals.them[key]}`;
+
+/**
+ * Season report tab with team totals (ours–theirs) for each completed game:
+ * shots, shots on target, corners, fouls, offsides and keeper saves.
+ */
+export function MatchStats({ games, goals, gameEvents }: MatchStatsProps) {
+  const rows = useMemo(() => games
+    .filter(game => game.status === 'completed')
+    .sort((a, b) => (a.gameDate || '').localeCompare(b.gameDate || ''))
+    .map(game => ({
+      game,
+      totals: calculateGameEventTotals(
+        gameEvents.filter(e => e.gameId === game.id),
+        goals.filter(g => g.gameId === game.id)
+      ),
+    })), [games, goals, gameEvents]);
+
+  const seasonTotals = useMemo(() => {
+    const completedIds = new Set(rows.map(r => r.game.id));
+    return calculateGameEventTotals(
+      gameEvents.filter(e => completedIds.has(e.gameId)),
+      goals.filter(g => completedIds.has(g.gameId))
+    );
+  }, [rows, goals, gameEvents]);
+
+  if (rows.length === 0) {
+    return <p className="empty-state">No completed games yet.</p>;
+  }
+
+  return (
+    <div className="match-stats">
+      {gameEvents.length === 0 && (
+        <p className="match-stats__hint">
+          Shots here are goals only. Use the match event buttons on the Goals tab during a game to log shots, saves, corners and fouls.
+        </p>
+      )}
+      <div className="stats-table-container">
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th className="player-name">Game</th>
+              <th>Score</th>
+              <th title="Shots, goals included (us–them)">Shots</th>
+              <th title="Shots on target, goals included (us–them)">On target</th>
+              <th>Corners</th>
+              <th>Fouls</th>
+              <th>Offsides</th>
+              <th title="Goalkeeper saves (us–them)">Saves</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ game, totals }) => (
+              <tr key={game.id}>
+                <td className="player-name">
+                  vs {game.opponent} ({game.gameDate ? new Date(game.gameDate).toLocaleDateString() : 'N/A'})
+                </td>
+                <td>{pair(totals, 'goals')}</td>
+                <td>{pair(totals, 'shots')}</td>
+                <td>{pair(totals, 'shotsOnTarget')}</td>
+                <td>{pair(totals, 'corners')}</td>
+                <td>{pair(totals, 'fouls')}</td>
+                <td>{pair(totals, 'offsides')}</td>
+                <td>{pair(totals, 'saves')}</td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot>
+            <tr className="match-stats__totals">
+              <td className="player-name">Total</td>
+              <td>{pair(seasonTotals, 'goals')}</td>
+              <td>{pair(seasonTotals, 'shots')}</td>
+              <td>{pair(seasonTotals, 'shotsOnTarget')}</td>
+              <td>{pair(seasonTotals, 'corners')}</td>
+              <td>{pair(seasonTotals, 'fouls')}</td>
+              <td>{pair(seasonTotals, 'offsides')}</td>
+              <td>{pair(seasonTotals, 'saves')}</td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+    </div>
+  );
+}
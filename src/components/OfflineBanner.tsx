@@ -1,17 +1,38 @@
+import { Link } from 'react-router-dom';
+import type { BackgroundSyncReport } from '../services/offlineQueueService';
+import { describeBackgroundSyncReport } from '../utils/offlineQueueUtils';
 import './OfflineBanner.css';
 
 interface OfflineBannerProps {
   isOnline: boolean;
   pendingCount: number;
   isSyncing: boolean;
+  /** Changes that gave up after every retry */
+  deadLetterCount?: number;
+  /** What the service worker synced while the app was closed */
+  backgroundSyncReport?: BackgroundSyncReport | null;
+  onDismissBackgroundSync?: () => void;
 }
 
-export function OfflineBanner({ isOnline, pendingCount, isSyncing }: OfflineBannerProps) {
+const plural = (count: number) => `change${count !== 1 ? 's' : ''}`;
+
+const reviewLink = (
+  <Link to="/sync" className="offline-banner__link">Review</Link>
+);
+
+export function OfflineBanner({
+  isOnline,
+  pendingCount,
+  isSyncing,
+  deadLetterCount = 0,
+  backgroundSyncReport,
+  onDismissBackgroundSync,
+}: OfflineBannerProps) {
   if (isSyncing) {
     return (
       <div className="offline-banner offline-banner--syncing" role="status" aria-live="polite">
         {pendingCount > 0
-          ? `Syncing ${pendingCount} change${pendingCount !== 1 ? 's' : ''}…`
+          ? `Syncing ${pendingCount} ${plural(pendingCount)}…`
           : 'Syncing…'}
       </div>
     );
@@ -21,11 +42,47 @@ export function OfflineBanner({ isOnline, pendingCount, isSyncing }: OfflineBann
     return (
       <div className="offline-banner" role="status" aria-live="polite">
         {pendingCount > 0
-          ? `You're offline — ${pendingCount} change${pendingCount !== 1 ? 's' : ''} saved locally`
+          ? <>You're offline — {pendingCount} {plural(pendingCount)} saved locally · {reviewLink}</>
           : "You're offline"}
       </div>
     );
   }
 
+  if (backgroundSyncReport) {
+    const needsReview = backgroundSyncReport.remainingCount > 0 || backgroundSyncReport.conflictCount > 0;
+    return (
+      <div className="offline-banner offline-banner--synced" role="status" aria-live="polite">
+        {describeBackgroundSyncReport(backgroundSyncReport)}
+        {needsReview && <> · {reviewLink}</>}
+        {onDismissBackgroundSync && (
+          <button
+            type="button"
+            className="offline-banner__dismiss"
+            onClick={onDismissBackgroundSync}
+            aria-label="Dismiss background sync summary"
+          >
+            ×
+          </button>
+        )}
+      </div>
+    );
+  }
+
+  if (deadLetterCount > 0) {
+    return (
+      <div className="offline-banner offline-banner--failed" role="status" aria-live="polite">
+        {deadLetterCount} {plural(deadLetterCount)} couldn't sync · {reviewLink}
+      </div>
+    );
+  }
+
+  if (pendingCount > 0) {
+    return (
+      <div className="offline-banner" role="status" aria-live="polite">
+        {pendingCount} {plural(pendingCount)} waiting to sync · {reviewLink}
+      </div>
+    );
+  }
+
   return null;
 }
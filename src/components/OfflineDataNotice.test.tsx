@@ -0,0 +1,38 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import { OfflineDataNotice } from './OfflineDataNotice';
+
+const NOW = new Date('2026-05-02T12:00:00Z').getTime();
+
+describe('OfflineDataNotice', () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('renders nothing while online', () => {
+    const { container } = render(<OfflineDataNotice isOnline savedAt={NOW} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('says how old the saved copy is', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(NOW);
+    render(<OfflineDataNotice isOnline={false} savedAt={NOW - 3 * 60 * 60 * 1000} />);
+
+    const notice = screen.getByRole('status');
+    expect(notice).toHaveTextContent('Offline — showing the copy saved on this device 3 h ago.');
+    expect(notice).not.toHaveTextContent('out of date');
+  });
+
+  it('warns when the copy is more than a day old', () => {
+    vi.spyOn(Date, 'now').mockReturnValue(NOW);
+    render(<OfflineDataNotice isOnline={false} savedAt={NOW - 3 * 24 * 60 * 60 * 1000} />);
+
+    expect(screen.getByRole('status')).toHaveTextContent('It may be out of date.');
+    expect(screen.getByRole('status')).toHaveClass('offline-data-notice--stale');
+  });
+
+  it('explains how to save a game that is missing from the device', () => {
+    render(<OfflineDataNotice isOnline={false} savedAt={null} />);
+    expect(screen.getByRole('status')).toHaveTextContent("this game isn't saved on this device");
+  });
+});
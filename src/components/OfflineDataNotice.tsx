@@ -0,0 +1,46 @@
+import './OfflineBanner.css';
+
+interface OfflineDataNoticeProps {
+  isOnline: boolean;
+  /** When the saved copy was fetched, null when nothing is saved */
+  savedAt: number | null;
+}
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+
+/** A saved copy older than this may be out of date */
+const STALE_AFTER_MS = 24 * HOUR_MS;
+
+function formatSavedAge(savedAt: number, now: number): string {
+  const age = now - savedAt;
+  if (age < MINUTE_MS) return 'just now';
+  if (age < HOUR_MS) return `${Math.floor(age / MINUTE_MS)} min ago`;
+  if (age < 24 * HOUR_MS) return `${Math.floor(age / HOUR_MS)} h ago`;
+  return `on ${new Date(savedAt).toLocaleString()}`;
+}
+
+/**
+ * Tells the coach, while offline, that the game page is running on the copy
+ * saved on this device and how old it is.
+ */
+export function OfflineDataNotice({ isOnline, savedAt }: OfflineDataNoticeProps) {
+  if (isOnline) return null;
+
+  if (savedAt === null) {
+    return (
+      <p className="offline-data-notice offline-data-notice--stale" role="status">
+        Offline — this game isn't saved on this device. Open it once while online so it's ready at the field.
+      </p>
+    );
+  }
+
+  const now = Date.now();
+  const stale = now - savedAt > STALE_AFTER_MS;
+  return (
+    <p className={`offline-data-notice${stale ? ' offline-data-notice--stale' : ''}`} role="status">
+      Offline — showing the copy saved on this device {formatSavedAge(savedAt, now)}.
+      {stale && ' It may be out of date.'}
+    </p>
+  );
+}
@@ -0,0 +1,215 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { MemoryRouter } from 'react-router-dom';
+
+const {
+  mockConfirm,
+  mockSyncNow,
+  mockListPending,
+  mockListDeadLetters,
+  mockRemovePending,
+  mockResetRetries,
+  mockRemoveDeadLetter,
+  mockRestoreDeadLetter,
+  mockDownloadTextFile,
+  offlineState,
+  queryResults,
+} = vi.hoisted(() => ({
+  mockConfirm: vi.fn(),
+  mockSyncNow: vi.fn(),
+  mockListPending: vi.fn(),
+  mockListDeadLetters: vi.fn(),
+  mockRemovePending: vi.fn(),
+  mockResetRetries: vi.fn(),
+  mockRemoveDeadLetter: vi.fn(),
+  mockRestoreDeadLetter: vi.fn(),
+  mockDownloadTextFile: vi.fn(),
+  offlineState: { isOnline: true },
+  queryResults: { Player: [] as object[], TeamRoster: [] as object[], Game: [] as object[] },
+}));
+
+vi.mock('../hooks/useAmplifyQuery', () => ({
+  useAmplifyQuery: (modelName: 'Player' | 'TeamRoster' | 'Game') => ({ data: queryResults[modelName], isSynced: true }),
+}));
+
+vi.mock('../hooks/useOfflineMutations', () => ({
+  useOfflineMutations: () => ({ isOnline: offlineState.isOnline, isSyncing: false, syncNow: mockSyncNow }),
+}));
+
+vi.mock('../services/offlineQueueService', () => ({
+  listPending: mockListPending,
+  listDeadLetters: mockListDeadLetters,
+  removePending: mockRemovePending,
+  resetRetries: mockResetRetries,
+  removeDeadLetter: mockRemoveDeadLetter,
+  restoreDeadLetter: mockRestoreDeadLetter,
+}));
+
+vi.mock('aws-amplify/auth', () => ({
+  fetchAuthSession: vi.fn().mockResolvedValue({ tokens: { idToken: { payload: { sub: 'coach-1' } } } }),
+}));
+
+vi.mock('../contexts/HelpFabContext', () => ({
+  useHelpFab: () => ({ setHelpContext: vi.fn() }),
+}));
+
+vi.mock('./ConfirmModal', () => ({
+  useConfirm: () => mockConfirm,
+}));
+
+vi.mock('../utils/reportExportUtils', () => ({
+  downloadTextFile: mockDownloadTextFile,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showInfo: vi.fn(),
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  handleApiError: vi.fn(),
+}));
+
+import { OfflineQueueInspector } from './OfflineQueueInspector';
+import { showInfo } from '../utils/toast';
+
+const substitution = {
+  id: 'q-sub',
+  model: 'Substitution',
+  operation: 'create',
+  payload: { gameId: 'g1', playerOutId: 'p7', playerInId: 'p12', gameSeconds: 872 },
+  enqueuedAt: 100,
+  retryCount: 2,
+  lastError: 'Network error',
+  ownerSub: 'coach-1',
+};
+
+const heldGoal = {
+  id: 'q-goal',
+  model: 'Goal',
+  operation: 'create',
+  payload: { gameId: 'g1', scoredByUs: true, gameSeconds: 600 },
+  enqueuedAt: 200,
+  retryCount: 0,
+  ownerSub: 'coach-2',
+};
+
+const deadGame = {
+  id: 'q-game',
+  model: 'Game',
+  operation: 'update',
+  payload: { id: 'g1', status: 'completed' },
+  enqueuedAt: 50,
+  retryCount: 5,
+  lastError: 'Unauthorized',
+  failedAt: 300,
+};
+
+function renderInspector() {
+  return render(
+    <MemoryRouter>
+      <OfflineQueueInspector />
+    </MemoryRouter>
+  );
+}
+
+describe('OfflineQueueInspector', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    offlineState.isOnline = true;
+    queryResults.Player = [{ id: 'p7', firstName: 'Ava' }, { id: 'p12', firstName: 'Ben' }];
+    queryResults.TeamRoster = [{ playerId: 'p7', playerNumber: 7 }, { playerId: 'p12', playerNumber: 12 }];
+    queryResults.Game = [{ id: 'g1', opponent: 'Rivals FC' }];
+    mockListPending.mockResolvedValue([substitution, heldGoal]);
+    mockListDeadLetters.mockResolvedValue([deadGame]);
+    mockSyncNow.mockResolvedValue(undefined);
+    mockResetRetries.mockResolvedValue(undefined);
+    mockRestoreDeadLetter.mockResolvedValue(undefined);
+    mockRemovePending.mockResolvedValue(undefined);
+    mockRemoveDeadLetter.mockResolvedValue(undefined);
+  });
+
+  it('lists failed, held and dead-lettered changes in plain language', async () => {
+    renderInspector();
+
+    const sub = (await screen.findByText('Substitution: #7 Ava → #12 Ben at 14:32')).closest('li')!;
+    expect(sub).toHaveTextContent('Failed, will retry');
+    expect(sub).toHaveTextContent('2 failed attempts');
+    expect(sub).toHaveTextContent('Last error: Network error');
+
+    await waitFor(() => {
+      const held = screen.getByText('Goal for us at 10:00').closest('li')!;
+      expect(held).toHaveTextContent('Held for another account');
+      expect(within(held).queryByRole('button', { name: /^Retry/ })).not.toBeInTheDocument();
+    });
+
+    const dead = screen.getByText('Game vs Rivals FC: game ended').closest('li')!;
+    expect(dead).toHaveTextContent('Gave up after every retry');
+    expect(dead).toHaveTextContent('Last error: Unauthorized');
+  });
+
+  it('shows an empty state when nothing is waiting', async () => {
+    mockListPending.mockResolvedValue([]);
+    mockListDeadLetters.mockResolvedValue([]);
+    renderInspector();
+
+    expect(await screen.findByText('Everything is synced. Nothing is waiting on this device.')).toBeInTheDocument();
+    expect(screen.getByRole('button', { name: 'Sync now' })).toBeDisabled();
+  });
+
+  it('retries a failed change and restores a dead letter, then syncs', async () => {
+    const user = userEvent.setup();
+    renderInspector();
+
+    await user.click(await screen.findByRole('button', { name: 'Retry Substitution: #7 Ava → #12 Ben at 14:32' }));
+    expect(mockResetRetries).toHaveBeenCalledWith('q-sub');
+    expect(mockSyncNow).toHaveBeenCalledTimes(1);
+
+    await user.click(screen.getByRole('button', { name: 'Retry Game vs Rivals FC: game ended' }));
+    expect(mockRestoreDeadLetter).toHaveBeenCalledWith('q-game');
+    expect(mockSyncNow).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits for a connection before syncing a retried change', async () => {
+    offlineState.isOnline = false;
+    const user = userEvent.setup();
+    renderInspector();
+
+    await user.click(await screen.findByRole('button', { name: 'Retry Substitution: #7 Ava → #12 Ben at 14:32' }));
+
+    expect(mockResetRetries).toHaveBeenCalledWith('q-sub');
+    expect(mockSyncNow).not.toHaveBeenCalled();
+    expect(showInfo).toHaveBeenCalledWith(expect.stringContaining("You're offline"));
+  });
+
+  it('discards only after confirmation', async () => {
+    const user = userEvent.setup();
+    renderInspector();
+
+    mockConfirm.mockResolvedValueOnce(false);
+    await user.click(await screen.findByRole('button', { name: 'Discard Goal for us at 10:00' }));
+    expect(mockRemovePending).not.toHaveBeenCalled();
+
+    mockConfirm.mockResolvedValueOnce(true);
+    await user.click(screen.getByRole('button', { name: 'Discard Goal for us at 10:00' }));
+    expect(mockConfirm).toHaveBeenLastCalledWith(expect.objectContaining({ title: 'Discard Change', variant: 'danger' }));
+    expect(mockRemovePending).toHaveBeenCalledWith('q-goal');
+
+    mockConfirm.mockResolvedValueOnce(true);
+    await user.click(screen.getByRole('button', { name: 'Discard Game vs Rivals FC: game ended' }));
+    expect(mockRemoveDeadLetter).toHaveBeenCalledWith('q-game');
+  });
+
+  it('exports a change as JSON', async () => {
+    const user = userEvent.setup();
+    renderInspector();
+
+    await user.click(await screen.findByRole('button', { name: 'Export Substitution: #7 Ava → #12 Ben at 14:32' }));
+
+    expect(mockDownloadTextFile).toHaveBeenCalledWith(
+      'teamtrack-offline-substitution-q-sub.json',
+      expect.stringContaining('"playerOutId": "p7"'),
+      'application/json'
+    );
+  });
+});
@@ -0,0 +1,226 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { Link } from 'react-router-dom';
+import { fetchAuthSession } from 'aws-amplify/auth';
+import { useAmplifyQuery } from '../hooks/useAmplifyQuery';
+import { useOfflineMutations } from '../hooks/useOfflineMutations';
+import { useHelpFab } from '../contexts/HelpFabContext';
+import {
+  listDeadLetters,
+  listPending,
+  removeDeadLetter,
+  removePending,
+  resetRetries,
+  restoreDeadLetter,
+  type DeadLetterMutation,
+  type QueuedMutation,
+} from '../services/offlineQueueService';
+import {
+  describeQueuedMutation,
+  getQueueItemState,
+  QUEUE_ITEM_STATE_LABELS,
+  type QueueItemState,
+} from '../utils/offlineQueueUtils';
+import { downloadTextFile } from '../utils/reportExportUtils';
+import { handleApiError } from '../utils/errorHandler';
+import { showInfo } from '../utils/toast';
+import { useConfirm } from './ConfirmModal';
+
+interface InspectorItem {
+  mutation: QueuedMutation | DeadLetterMutation;
+  state: QueueItemState;
+}
+
+const formatQueuedAt = (timestamp: number) =>
+  new Date(timestamp).toLocaleString(undefined, { month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+/**
+ * Sync screen: every write still waiting in the offline queue, the ones that
+ * keep failing, the ones held for another account on this device, and the
+ * ones that gave up after every retry. Each can be retried, discarded or
+ * exported as JSON.
+ */
+export function OfflineQueueInspector() {
+  const confirm = useConfirm();
+  const { setHelpContext } = useHelpFab();
+  const { isOnline, isSyncing, syncNow } = useOfflineMutations();
+
+  // @help-content: manage-app
+  useEffect(() => {
+    setHelpContext('manage-app');
+    return () => setHelpContext(null);
+  }, [setHelpContext]);
+
+  const [pending, setPending] = useState<QueuedMutation[]>([]);
+  const [deadLetters, setDeadLetters] = useState<DeadLetterMutation[]>([]);
+  const [currentSub, setCurrentSub] = useState<string | undefined>();
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  const { data: players } = useAmplifyQuery('Player');
+  const { data: rosters } = useAmplifyQuery('TeamRoster');
+  const { data: games } = useAmplifyQuery('Game');
+
+  const reload = useCallback(async () => {
+    try {
+      const [queued, dead] = await Promise.all([listPending(), listDeadLetters()]);
+      setPending(queued);
+      setDeadLetters(dead);
+    } catch (error) {
+      handleApiError(error, 'Failed to read the offline queue');
+    } finally {
+      setIsLoaded(true);
+    }
+  }, []);
+
+  useEffect(() => {
+    void fetchAuthSession()
+      .then(session => setCurrentSub(session.tokens?.idToken?.payload?.sub as string | undefined))
+      .catch(() => setCurrentSub(undefined));
+  }, []);
+
+  // Reload on mount and whenever a sync finishes
+  useEffect(() => {
+    if (!isSyncing) void reload();
+  }, [isSyncing, reload]);
+
+  const context = useMemo(() => ({
+    playerLabels: new Map(rosters.map(roster => {
+      const player = players.find(p => p.id === roster.playerId);
+      return [roster.playerId, `#${roster.playerNumber} ${player?.firstName ?? 'Unknown'}`];
+    })),
+    gameOpponents: new Map(games.map(game => [game.id, game.opponent])),
+  }), [rosters, players, games]);
+
+  const items = useMemo((): InspectorItem[] => [
+    ...pending.map(mutation => ({ mutation, state: getQueueItemState(mutation, currentSub) })),
+    ...deadLetters.map(mutation => ({ mutation, state: 'dead-letter' as const })),
+  ], [pending, deadLetters, currentSub]);
+
+  const runAction = async (id: string, action: () => Promise<void>, failureMessage: string) => {
+    setBusyId(id);
+    try {
+      await action();
+      await reload();
+    } catch (error) {
+      handleApiError(error, failureMessage);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRetry = (item: InspectorItem) => runAction(item.mutation.id, async () => {
+    if (item.state === 'dead-letter') {
+      await restoreDeadLetter(item.mutation.id);
+    } else {
+      await resetRetries(item.mutation.id);
+    }
+    if (isOnline) {
+      await syncNow();
+    } else {
+      showInfo("You're offline — this change will sync when you reconnect");
+    }
+  }, 'Failed to retry the change');
+
+  const handleDiscard = async (item: InspectorItem, description: string) => {
+    const confirmed = await confirm({
+      title: 'Discard Change',
+      message: `Discard "${description}"? It will never reach the server. Export it first if you might need it.`,
+      confirmText: 'Discard',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    await runAction(item.mutation.id, () => (
+      item.state === 'dead-letter' ? removeDeadLetter(item.mutation.id) : removePending(item.mutation.id)
+    ), 'Failed to discard the change');
+  };
+
+  const handleExport = (item: InspectorItem) => {
+    const { mutation } = item;
+    downloadTextFile(
+      `teamtrack-offline-${mutation.model.toLowerCase()}-${mutation.id}.json`,
+      JSON.stringify(mutation, null, 2),
+      'application/json'
+    );
+  };
+
+  return (
+    <div className="sync-page">
+      <div className="sync-page__header">
+        <h2>🔄 Offline Changes</h2>
+        <button
+          type="button"
+          className="btn-primary"
+          onClick={() => void syncNow()}
+          disabled={!isOnline || isSyncing || pending.length === 0}
+        >
+          {isSyncing ? 'Syncing…' : 'Sync now'}
+        </button>
+      </div>
+      {!isOnline && (
+        <p className="sync-page__hint">You're offline. Changes sync automatically when you reconnect.</p>
+      )}
+
+      {isLoaded && items.length === 0 ? (
+        <p className="empty-state">Everything is synced. Nothing is waiting on this device.</p>
+      ) : (
+        <ul className="sync-list">
+          {items.map((item) => {
+            const { mutation, state } = item;
+            const description = describeQueuedMutation(mutation, context);
+            const isBusy = busyId === mutation.id;
+            return (
+              <li key={mutation.id} className={`sync-item sync-item--${state}`}>
+                <div className="sync-item__description">{description}</div>
+                <div className="sync-item__meta">
+                  <span className="sync-item__state">{QUEUE_ITEM_STATE_LABELS[state]}</span>
+                  {' · '}queued {formatQueuedAt(mutation.enqueuedAt)}
+                  {mutation.retryCount > 0 && state !== 'dead-letter' && ` · ${mutation.retryCount} failed attempt${mutation.retryCount !== 1 ? 's' : ''}`}
+                </div>
+                {mutation.lastError && (
+                  <div className="sync-item__error">Last error: {mutation.lastError}</div>
+                )}
+                {state === 'held' && (
+                  <div className="sync-item__error">
+                    Made while another coach was signed in on this device. It syncs when they sign in again.
+                  </div>
+                )}
+                <div className="sync-item__actions">
+                  {state !== 'held' && (
+                    <button
+                      type="button"
+                      className="btn-secondary"
+                      onClick={() => void handleRetry(item)}
+                      disabled={isBusy || isSyncing}
+                      aria-label={`Retry ${description}`}
+                    >
+                      Retry
+                    </button>
+                  )}
+                  <button
+                    type="button"
+                    className="btn-secondary"
+                    onClick={() => handleExport(item)}
+                    aria-label={`Export ${description}`}
+                  >
+                    Export
+                  </button>
+                  <button
+                    type="button"
+                    className="btn-delete"
+                    onClick={() => void handleDiscard(item, description)}
+                    disabled={isBusy || isSyncing}
+                    aria-label={`Discard ${description}`}
+                  >
+                    Discard
+                  </button>
+                </div>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <Link to="/manage?section=app" className="sync-page__back">← Back to App settings</Link>
+    </div>
+  );
+}
@@ -14,7 +14,7 @@ interface PlayerAvailabilityGridProps {
   players: Player[];
   gameId: string;
   coaches: string[];
-  /** Half length in minutes — used to set availableFromMinute for late arrivals */
+  /** Period length in minutes — used to set availableFromMinute for late arrivals */
   halfLengthMinutes?: number;
   /** Current elapsed game minutes — used to set availableUntilMinute for injuries */
   elapsedGameMinutes?: number;
@@ -22,6 +22,14 @@ interface PlayerAvailabilityGridProps {
    * 'injured' status — a player on the field who is injured should be
    * substituted out rather than marked as injured in the availability grid. */
   lineupPlayerIds?: string[];
+  /** Saves a status change instead of the rotation planner service, e.g. so
+   * the game planner can queue it while offline */
+  onSaveAvailability?: (
+    playerId: string,
+    status: typeof STATUS_CYCLE[number],
+    availableFromMinute?: number | null,
+    availableUntilMinute?: number | null,
+  ) => Promise<void>;
 }
 
 // eslint-disable-next-line react-refresh/only-export-components
@@ -71,6 +79,7 @@ export function PlayerAvailabilityGrid({
   halfLengthMinutes,
   elapsedGameMinutes,
   lineupPlayerIds,
+  onSaveAvailability,
 }: PlayerAvailabilityGridProps) {
   const { getPlayerAvailability } = useAvailability();
   const handleToggle = async (playerId: string) => {
@@ -101,7 +110,11 @@ export function PlayerAvailabilityGrid({
         : undefined;
 
     try {
-      await updatePlayerAvailability(gameId, playerId, newStatus, undefined, coaches, availableFromMinute, availableUntilMinute);
+      if (onSaveAvailability) {
+        await onSaveAvailability(playerId, newStatus, availableFromMinute, availableUntilMinute);
+      } else {
+        await updatePlayerAvailability(gameId, playerId, newStatus, undefined, coaches, availableFromMinute, availableUntilMinute);
+      }
       trackEvent(AnalyticsEvents.AVAILABILITY_MARKED.category, AnalyticsEvents.AVAILABILITY_MARKED.action, newStatus);
     } catch (error) {
       handleApiError(error, 'Failed to update player availability');
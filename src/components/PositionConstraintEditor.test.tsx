@@ -0,0 +1,49 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen, fireEvent } from '@testing-library/react';
+import { PositionConstraintEditor } from './PositionConstraintEditor';
+
+describe('PositionConstraintEditor', () => {
+  it('adds a "never in goal" rule by default', () => {
+    const onChange = vi.fn();
+    render(<PositionConstraintEditor constraints={[]} onChange={onChange} />);
+
+    fireEvent.click(screen.getByRole('button', { name: '+ Add Rule' }));
+
+    expect(onChange).toHaveBeenCalledWith([{ group: 'GOALKEEPER', rule: 'never' }]);
+  });
+
+  it('asks for a rotation count once a rule becomes a minimum or maximum', () => {
+    const onChange = vi.fn();
+    render(<PositionConstraintEditor constraints={[{ group: 'GOALKEEPER', rule: 'never' }]} onChange={onChange} />);
+
+    expect(screen.queryByLabelText('Rotations for rule 1')).not.toBeInTheDocument();
+    fireEvent.change(screen.getByLabelText('Rule 1'), { target: { value: 'max' } });
+
+    expect(onChange).toHaveBeenCalledWith([{ group: 'GOALKEEPER', rule: 'max', rotations: 1 }]);
+  });
+
+  it('edits the count and group, and removes rules', () => {
+    const onChange = vi.fn();
+    render(
+      <PositionConstraintEditor
+        constraints={[{ group: 'STRIKER', rule: 'max', rotations: 2 }, { group: 'GOALKEEPER', rule: 'never' }]}
+        onChange={onChange}
+      />
+    );
+
+    fireEvent.change(screen.getByLabelText('Rotations for rule 1'), { target: { value: '3' } });
+    expect(onChange).toHaveBeenLastCalledWith([
+      { group: 'STRIKER', rule: 'max', rotations: 3 },
+      { group: 'GOALKEEPER', rule: 'never' },
+    ]);
+
+    fireEvent.change(screen.getByLabelText('Position group for rule 1'), { target: { value: 'DEFENDER' } });
+    expect(onChange).toHaveBeenLastCalledWith([
+      { group: 'DEFENDER', rule: 'max', rotations: 2 },
+      { group: 'GOALKEEPER', rule: 'never' },
+    ]);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Remove rule 2' }));
+    expect(onChange).toHaveBeenLastCalledWith([{ group: 'STRIKER', rule: 'max', rotations: 2 }]);
+  });
+});
@@ -0,0 +1,76 @@
+import type { PositionConstraint, PositionConstraintGroup, PositionConstraintRule } from '../types/schema';
+import { POSITION_CONSTRAINT_GROUPS, POSITION_CONSTRAINT_RULES } from '../utils/positionConstraintUtils';
+
+interface PositionConstraintEditorProps {
+  constraints: PositionConstraint[];
+  onChange: (constraints: PositionConstraint[]) => void;
+}
+
+/**
+ * Edits a roster entry's hard rotation rules ("never in goal", "at least 1
+ * rotation on defense", "at most 2 rotations as striker"). Unlike preferred
+ * positions, the rotation generator won't break these without warning.
+ */
+export function PositionConstraintEditor({ constraints, onChange }: PositionConstraintEditorProps) {
+  const update = (index: number, changes: Partial<PositionConstraint>) => {
+    onChange(constraints.map((c, i) => {
+      if (i !== index) return c;
+      const next = { ...c, ...changes };
+      return next.rule === 'never' ? { group: next.group, rule: next.rule } : { ...next, rotations: next.rotations ?? 1 };
+    }));
+  };
+
+  return (
+    <div className="position-constraints">
+      <label className="group-label">Position Rules (optional)</label>
+      {constraints.map((constraint, index) => (
+        <div key={index} className="position-constraints__row">
+          <select
+            value={constraint.rule}
+            onChange={(e) => update(index, { rule: e.target.value as PositionConstraintRule })}
+            aria-label={`Rule ${index + 1}`}
+          >
+            {POSITION_CONSTRAINT_RULES.map(({ rule, label }) => (
+              <option key={rule} value={rule}>{label}</option>
+            ))}
+          </select>
+          {constraint.rule !== 'never' && (
+            <input
+              type="number"
+              min={0}
+              max={20}
+              value={constraint.rotations ?? 0}
+              onChange={(e) => update(index, { rotations: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+              aria-label={`Rotations for rule ${index + 1}`}
+            />
+          )}
+          <span>{constraint.rule === 'never' ? '' : constraint.rotations === 1 ? 'rotation' : 'rotations'}</span>
+          <select
+            value={constraint.group}
+            onChange={(e) => update(index, { group: e.target.value as PositionConstraintGroup })}
+            aria-label={`Position group for rule ${index + 1}`}
+          >
+            {POSITION_CONSTRAINT_GROUPS.map(({ group, phrase }) => (
+              <option key={group} value={group}>{phrase}</option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => onChange(constraints.filter((_, i) => i !== index))}
+            className="btn-delete"
+            aria-label={`Remove rule ${index + 1}`}
+          >
+            ✕
+          </button>
+        </div>
+      ))}
+      <button
+        type="button"
+        onClick={() => onChange([...constraints, { group: 'GOALKEEPER', rule: 'never' }])}
+        className="btn-secondary"
+      >
+        + Add Rule
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import { render, screen, within } from '@testing-library/react';
+import { PracticeAttendanceReport } from './PracticeAttendanceReport';
+
+const practices = [
+  { id: 's1', practiceDate: '2020-06-01T17:00:00Z' },
+  { id: 's2', practiceDate: '2020-06-04T17:00:00Z' },
+  { id: 's3', practiceDate: '2999-06-08T17:00:00Z' },
+] as any[];
+
+const playerLabels = new Map([['p1', '#7 Ava'], ['p2', '#10 Ben']]);
+
+const cells = (row: HTMLElement) => within(row).getAllByRole('cell').map(c => c.textContent);
+
+describe('PracticeAttendanceReport', () => {
+  it('summarizes attendance at held practices for every rostered player', () => {
+    const attendance = [
+      { practiceSessionId: 's1', playerId: 'p1', status: 'available' },
+      { practiceSessionId: 's2', playerId: 'p1', status: 'absent' },
+      { practiceSessionId: 's3', playerId: 'p1', status: 'absent' },
+      { practiceSessionId: 's1', playerId: 'p2', status: 'injured' },
+    ] as any[];
+
+    render(<PracticeAttendanceReport practices={practices} attendance={attendance} playerLabels={playerLabels} />);
+
+    expect(screen.getByText(/2 practices held/)).toBeInTheDocument();
+    const rows = screen.getAllByRole('row').slice(1);
+    expect(cells(rows[0])).toEqual(['#7 Ava', '1', '0', '1', '0', '50%']);
+    expect(cells(rows[1])).toEqual(['#10 Ben', '0', '0', '0', '1', '—']);
+  });
+
+  it('shows an empty state before any practice is held', () => {
+    render(<PracticeAttendanceReport practices={[practices[2]]} attendance={[]} playerLabels={playerLabels} />);
+    expect(screen.getByText('No practices held this season yet.')).toBeInTheDocument();
+  });
+});
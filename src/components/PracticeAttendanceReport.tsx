@@ -0,0 +1,64 @@
+import { useMemo } from 'react';
+import type { PracticeAttendance, PracticeSession } from '../types/schema';
+import { formatAttendanceRate, summarizePracticeAttendance } from '../utils/practiceAttendanceUtils';
+
+interface PracticeAttendanceReportProps {
+  practices: PracticeSession[];
+  attendance: PracticeAttendance[];
+  /** Roster order and "#10 Name" labels, keyed by player ID */
+  playerLabels: Map<string, string>;
+}
+
+/**
+ * Season report tab with each player's practice attendance over the season's
+ * held practices. Injuries are excused and left out of the rate.
+ */
+export function PracticeAttendanceReport({ practices, attendance, playerLabels }: PracticeAttendanceReportProps) {
+  const heldCount = useMemo(
+    () => practices.filter(p => new Date(p.practiceDate).getTime() <= Date.now()).length,
+    [practices]
+  );
+
+  const rows = useMemo(() => {
+    const summaries = summarizePracticeAttendance(practices, attendance);
+    return [...playerLabels].map(([playerId, label]) => ({ playerId, label, summary: summaries.get(playerId) }));
+  }, [practices, attendance, playerLabels]);
+
+  if (heldCount === 0) {
+    return <p className="empty-state">No practices held this season yet.</p>;
+  }
+
+  return (
+    <div className="practice-report">
+      <p className="practice-report__hint">
+        {heldCount} practice{heldCount === 1 ? '' : 's'} held. Injured players are excused and don't count against their rate.
+      </p>
+      <div className="stats-table-container">
+        <table className="stats-table">
+          <thead>
+            <tr>
+              <th className="player-name">Player</th>
+              <th>Attended</th>
+              <th>Late</th>
+              <th>Absent</th>
+              <th>Injured</th>
+              <th title="Practices attended, on time or late, out of those not missed through injury">Rate</th>
+            </tr>
+          </thead>
+          <tbody>
+            {rows.map(({ playerId, label, summary }) => (
+              <tr key={playerId}>
+                <td className="player-name">{label}</td>
+                <td>{summary?.attended ?? 0}</td>
+                <td>{summary?.late ?? 0}</td>
+                <td>{summary?.absent ?? 0}</td>
+                <td>{summary?.injured ?? 0}</td>
+                <td>{formatAttendanceRate(summary?.rate)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
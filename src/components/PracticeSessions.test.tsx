@@ -0,0 +1,143 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const {
+  mockUseAmplifyQuery,
+  mockCreatePractice,
+  mockSetAttendance,
+  mockDeletePractice,
+  mockConfirm,
+  mockSetHelpContext,
+} = vi.hoisted(() => ({
+  mockUseAmplifyQuery: vi.fn(),
+  mockCreatePractice: vi.fn(),
+  mockSetAttendance: vi.fn(),
+  mockDeletePractice: vi.fn(),
+  mockConfirm: vi.fn(),
+  mockSetHelpContext: vi.fn(),
+}));
+
+vi.mock('../hooks/useAmplifyQuery', () => ({
+  useAmplifyQuery: (...args: unknown[]) => mockUseAmplifyQuery(...args),
+}));
+
+vi.mock('../services/practiceService', () => ({
+  createPracticeSession: mockCreatePractice,
+  setPracticeAttendance: mockSetAttendance,
+  deletePracticeSession: mockDeletePractice,
+}));
+
+vi.mock('../contexts/HelpFabContext', () => ({
+  useHelpFab: () => ({ setHelpContext: mockSetHelpContext }),
+}));
+
+vi.mock('./ConfirmModal', () => ({
+  useConfirm: () => mockConfirm,
+}));
+
+vi.mock('../services/rotationPlannerService', () => ({
+  updatePlayerAvailability: vi.fn(),
+}));
+
+vi.mock('../contexts/AvailabilityContext', () => ({
+  useAvailability: vi.fn(),
+}));
+
+vi.mock('../utils/toast', () => ({
+  showWarning: vi.fn(),
+  showSuccess: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: {
+    PRACTICE_CREATED: { category: 'Practice', action: 'Create Practice' },
+    PRACTICE_DELETED: { category: 'Practice', action: 'Delete Practice' },
+    PRACTICE_ATTENDANCE_MARKED: { category: 'Practice', action: 'Mark Attendance' },
+  },
+}));
+
+import { PracticeSessions } from './PracticeSessions';
+
+const team = { id: 'team-1', name: 'Eagles', coaches: ['coach-1'], currentSeasonId: 'season-2' };
+const practice = {
+  id: 'pr-1', teamId: 'team-1', seasonId: null, practiceDate: '2030-06-01T17:00:00.000Z', location: 'Field 2', focus: 'Passing',
+};
+
+let queryResults: Record<string, unknown[]>;
+
+describe('PracticeSessions', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryResults = {
+      Team: [team],
+      PracticeSession: [
+        practice,
+        { id: 'pr-old', teamId: 'team-1', seasonId: 'season-1', practiceDate: '2029-09-01T17:00:00.000Z', location: 'Old field' },
+      ],
+      PracticeAttendance: [
+        { id: 'att-1', practiceSessionId: 'pr-1', teamId: 'team-1', playerId: 'p1', status: 'available' },
+      ],
+      TeamRoster: [
+        { id: 'r2', teamId: 'team-1', playerId: 'p2', playerNumber: 10 },
+        { id: 'r1', teamId: 'team-1', playerId: 'p1', playerNumber: 7 },
+      ],
+      Player: [
+        { id: 'p1', firstName: 'Ava', lastName: 'Smith' },
+        { id: 'p2', firstName: 'Ben', lastName: 'Jones' },
+      ],
+    };
+    mockUseAmplifyQuery.mockImplementation((modelName: string) => ({
+      data: queryResults[modelName] ?? [],
+      isSynced: true,
+    }));
+    mockCreatePractice.mockResolvedValue({ id: 'pr-new' });
+    mockSetAttendance.mockResolvedValue(undefined);
+    mockDeletePractice.mockResolvedValue(undefined);
+  });
+
+  it('lists only the current season\'s practices for the selected team', async () => {
+    render(<PracticeSessions />);
+
+    expect(await screen.findByText(/Field 2 · Passing/)).toBeInTheDocument();
+    expect(screen.getByText('1/2 present')).toBeInTheDocument();
+    expect(screen.queryByText(/Old field/)).not.toBeInTheDocument();
+    expect(mockSetHelpContext).toHaveBeenCalledWith('practices');
+  });
+
+  it('schedules a practice with the team\'s coaches', async () => {
+    const user = userEvent.setup();
+    render(<PracticeSessions />);
+
+    await user.click(await screen.findByText('+ Schedule Practice'));
+    await user.type(screen.getByLabelText('Practice date and time'), '2030-06-05T18:00');
+    await user.type(screen.getByPlaceholderText('Location'), 'Park');
+    await user.click(screen.getByText('Create Practice'));
+
+    await waitFor(() => {
+      expect(mockCreatePractice).toHaveBeenCalledWith(
+        team,
+        expect.objectContaining({ practiceDate: new Date('2030-06-05T18:00').toISOString(), location: 'Park', durationMinutes: 60 }),
+        ['coach-1'],
+      );
+    });
+  });
+
+  it('cycles a player\'s attendance and marks the rest present', async () => {
+    const user = userEvent.setup();
+    render(<PracticeSessions />);
+
+    await user.click(await screen.findByText(/Field 2 · Passing/));
+    await user.click(screen.getByLabelText('Attendance for #7 Ava'));
+    expect(mockSetAttendance).toHaveBeenCalledWith(
+      practice, 'p1', 'absent', expect.objectContaining({ id: 'att-1' }), ['coach-1'],
+    );
+
+    await user.click(screen.getByText('Mark all present'));
+    await waitFor(() => {
+      expect(mockSetAttendance).toHaveBeenCalledWith(practice, 'p2', 'available', undefined, ['coach-1']);
+    });
+    expect(mockSetAttendance).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,299 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { PracticeAttendance, PracticeSession, Team } from '../types/schema';
+import { useAmplifyQuery } from '../hooks/useAmplifyQuery';
+import { useHelpFab } from '../contexts/HelpFabContext';
+import {
+  createPracticeSession,
+  deletePracticeSession,
+  setPracticeAttendance,
+} from '../services/practiceService';
+import { showWarning, showSuccess } from '../utils/toast';
+import { handleApiError } from '../utils/errorHandler';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+import { sortRosterByNumber } from '../utils/playerUtils';
+import { filterSeasonGames } from '../utils/seasonUtils';
+import type { AttendanceStatus } from '../utils/practiceAttendanceUtils';
+import { STATUS_CYCLE, getStatusColor, getStatusLabel } from './PlayerAvailabilityGrid';
+import { useConfirm } from './ConfirmModal';
+
+interface PracticeForm {
+  practiceDate: string; // datetime-local value
+  location: string;
+  focus: string;
+  durationMinutes: string;
+}
+
+const emptyForm: PracticeForm = { practiceDate: '', location: '', focus: '', durationMinutes: '60' };
+
+const formatPracticeDate = (iso: string) =>
+  new Date(iso).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' });
+
+const teamCoaches = (team: Team) => (team.coaches ?? []).filter((c): c is string => !!c);
+
+/**
+ * Schedules a team's practices for the current season and records who came.
+ * Attendance uses the same statuses as game availability; the season report
+ * and (optionally) the planner's starting lineup ranking read it back.
+ */
+export function PracticeSessions() {
+  const confirm = useConfirm();
+  const { setHelpContext } = useHelpFab();
+
+  // Register 'practices' help context while this screen is mounted.
+  // @help-content: practices
+  useEffect(() => {
+    setHelpContext('practices');
+    return () => setHelpContext(null);
+  }, [setHelpContext]);
+
+  const { data: teams } = useAmplifyQuery('Team');
+  const [teamId, setTeamId] = useState('');
+  const [form, setForm] = useState<PracticeForm>(emptyForm);
+  const [isCreating, setIsCreating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [openSessionId, setOpenSessionId] = useState<string | null>(null);
+
+  // Pick the only team automatically once teams load
+  useEffect(() => {
+    if (!teamId && teams.length === 1) setTeamId(teams[0].id);
+  }, [teams, teamId]);
+
+  const team = teams.find(t => t.id === teamId);
+
+  const { data: sessions } = useAmplifyQuery('PracticeSession', {
+    filter: { teamId: { eq: teamId } },
+  }, [teamId]);
+  const { data: attendance } = useAmplifyQuery('PracticeAttendance', {
+    filter: { teamId: { eq: teamId } },
+  }, [teamId]);
+  const { data: rosters } = useAmplifyQuery('TeamRoster', {
+    filter: { teamId: { eq: teamId } },
+  }, [teamId]);
+  const { data: players } = useAmplifyQuery('Player');
+
+  // Newest first; earlier seasons' practices stay in their season report
+  const seasonSessions = useMemo(
+    () => filterSeasonGames(sessions, team?.currentSeasonId ?? null, team?.currentSeasonId)
+      .sort((a, b) => b.practiceDate.localeCompare(a.practiceDate)),
+    [sessions, team?.currentSeasonId]
+  );
+  const sortedRosters = useMemo(() => sortRosterByNumber(rosters), [rosters]);
+
+  const sessionAttendance = (sessionId: string) => attendance.filter(a => a.practiceSessionId === sessionId);
+
+  const handleCreate = async () => {
+    if (!team) return;
+    if (!form.practiceDate) {
+      showWarning('Please choose a practice date and time');
+      return;
+    }
+    const duration = parseInt(form.durationMinutes, 10);
+    setIsSaving(true);
+    try {
+      const practice = await createPracticeSession(team, {
+        practiceDate: new Date(form.practiceDate).toISOString(),
+        location: form.location,
+        focus: form.focus,
+        durationMinutes: Number.isNaN(duration) ? undefined : duration,
+      }, teamCoaches(team));
+      trackEvent(AnalyticsEvents.PRACTICE_CREATED.category, AnalyticsEvents.PRACTICE_CREATED.action);
+      setForm(emptyForm);
+      setIsCreating(false);
+      setOpenSessionId(practice.id);
+    } catch (error) {
+      handleApiError(error, 'Failed to create practice');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (session: PracticeSession, playerId: string, existing: PracticeAttendance | undefined) => {
+    if (!team) return;
+    const currentIndex = STATUS_CYCLE.indexOf(existing?.status as AttendanceStatus);
+    const status = STATUS_CYCLE[(currentIndex + 1) % STATUS_CYCLE.length];
+    try {
+      await setPracticeAttendance(session, playerId, status, existing, teamCoaches(team));
+      trackEvent(AnalyticsEvents.PRACTICE_ATTENDANCE_MARKED.category, AnalyticsEvents.PRACTICE_ATTENDANCE_MARKED.action, status);
+    } catch (error) {
+      handleApiError(error, 'Failed to update attendance');
+    }
+  };
+
+  const handleMarkAllPresent = async (session: PracticeSession) => {
+    if (!team) return;
+    const marked = new Set(sessionAttendance(session.id).map(a => a.playerId));
+    const unmarked = sortedRosters.filter(r => !marked.has(r.playerId));
+    try {
+      await Promise.all(unmarked.map(r =>
+        setPracticeAttendance(session, r.playerId, 'available', undefined, teamCoaches(team))
+      ));
+      showSuccess(`${unmarked.length} player${unmarked.length === 1 ? '' : 's'} marked present`);
+    } catch (error) {
+      handleApiError(error, 'Failed to update attendance');
+    }
+  };
+
+  const handleDelete = async (session: PracticeSession) => {
+    const confirmed = await confirm({
+      title: 'Delete Practice',
+      message: `Delete the practice on ${formatPracticeDate(session.practiceDate)} and its attendance?`,
+      confirmText: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    try {
+      await deletePracticeSession(session.id, sessionAttendance(session.id));
+      trackEvent(AnalyticsEvents.PRACTICE_DELETED.category, AnalyticsEvents.PRACTICE_DELETED.action);
+    } catch (error) {
+      handleApiError(error, 'Failed to delete practice');
+    }
+  };
+
+  return (
+    <div className="practices-page">
+      <div className="reports-filter-pane">
+        <label htmlFor="practice-team-select" className="reports-filter-label">
+          🏃 Practices
+        </label>
+        <select
+          id="practice-team-select"
+          className="reports-team-select"
+          value={teamId}
+          onChange={(e) => {
+            setTeamId(e.target.value);
+            setOpenSessionId(null);
+          }}
+        >
+          <option value="">Select a team…</option>
+          {teams.map(t => (
+            <option key={t.id} value={t.id}>{t.name}</option>
+          ))}
+        </select>
+      </div>
+
+      {!team ? (
+        <p className="empty-state">Select a team to schedule practices and take attendance.</p>
+      ) : (
+        <>
+          {isCreating ? (
+            <div className="create-form">
+              <h3>New Practice</h3>
+              <input
+                type="datetime-local"
+                value={form.practiceDate}
+                onChange={(e) => setForm({ ...form, practiceDate: e.target.value })}
+                aria-label="Practice date and time"
+              />
+              <input
+                type="text"
+                placeholder="Location"
+                value={form.location}
+                onChange={(e) => setForm({ ...form, location: e.target.value })}
+                maxLength={100}
+              />
+              <input
+                type="text"
+                placeholder="Focus (e.g. Passing, Set pieces)"
+                value={form.focus}
+                onChange={(e) => setForm({ ...form, focus: e.target.value })}
+                maxLength={100}
+              />
+              <label>
+                Duration (minutes)
+                <input
+                  type="number"
+                  min={15}
+                  max={240}
+                  step={15}
+                  value={form.durationMinutes}
+                  onChange={(e) => setForm({ ...form, durationMinutes: e.target.value })}
+                />
+              </label>
+              <div className="form-actions">
+                <button onClick={handleCreate} className="btn-primary" disabled={isSaving}>
+                  {isSaving ? 'Saving...' : 'Create Practice'}
+                </button>
+                <button onClick={() => setIsCreating(false)} className="btn-secondary" disabled={isSaving}>
+                  Cancel
+                </button>
+              </div>
+            </div>
+          ) : (
+            <button onClick={() => setIsCreating(true)} className="btn-primary">
+              + Schedule Practice
+            </button>
+          )}
+
+          {seasonSessions.length === 0 ? (
+            <p className="empty-state">No practices scheduled this season.</p>
+          ) : (
+            <ul className="practice-list">
+              {seasonSessions.map(session => {
+                const records = sessionAttendance(session.id);
+                const present = records.filter(a => a.status === 'available' || a.status === 'late-arrival').length;
+                const isOpen = openSessionId === session.id;
+                return (
+                  <li key={session.id} className="practice-card">
+                    <button
+                      className="practice-card__header"
+                      onClick={() => setOpenSessionId(isOpen ? null : session.id)}
+                      aria-expanded={isOpen}
+                    >
+                      <span className="practice-card__date">{formatPracticeDate(session.practiceDate)}</span>
+                      <span className="practice-card__details">
+                        {[session.location, session.focus, session.durationMinutes ? `${session.durationMinutes} min` : null]
+                          .filter(Boolean)
+                          .join(' · ')}
+                      </span>
+                      <span className="practice-card__count">{present}/{sortedRosters.length} present</span>
+                    </button>
+
+                    {isOpen && (
+                      <div className="practice-card__attendance">
+                        <div className="availability-grid">
+                          {sortedRosters.map(roster => {
+                            const player = players.find(p => p.id === roster.playerId);
+                            const record = records.find(a => a.playerId === roster.playerId);
+                            const color = getStatusColor(record?.status ?? '');
+                            return (
+                              <button
+                                key={roster.id}
+                                className="availability-card"
+                                onClick={() => handleToggle(session, roster.playerId, record)}
+                                style={{ borderColor: color }}
+                                aria-label={`Attendance for #${roster.playerNumber} ${player?.firstName ?? ''}`}
+                              >
+                                <div className="availability-status" style={{ backgroundColor: color }}>
+                                  {getStatusLabel(record?.status ?? '')}
+                                </div>
+                                <div className="player-info">
+                                  <span className="player-number">#{roster.playerNumber}</span>
+                                  <span className="player-name">{player?.firstName} {player?.lastName}</span>
+                                </div>
+                              </button>
+                            );
+                          })}
+                        </div>
+                        <p className="availability-legend">
+                          Click player cards to cycle: Present → Absent → Late → Injured
+                        </p>
+                        <div className="form-actions">
+                          <button onClick={() => handleMarkAllPresent(session)} className="btn-secondary">
+                            Mark all present
+                          </button>
+                          <button onClick={() => handleDelete(session)} className="btn-delete">
+                            Delete Practice
+                          </button>
+                        </div>
+                      </div>
+                    )}
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
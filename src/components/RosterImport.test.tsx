@@ -0,0 +1,77 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor, fireEvent } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const { mockImportRoster, mockShowSuccess } = vi.hoisted(() => ({
+  mockImportRoster: vi.fn(),
+  mockShowSuccess: vi.fn(),
+}));
+
+vi.mock('../services/rosterImportService', () => ({
+  importRoster: mockImportRoster,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showSuccess: mockShowSuccess,
+  showWarning: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: { ROSTER_IMPORTED: { category: 'Player', action: 'Import Roster' } },
+}));
+
+import { RosterImport } from './RosterImport';
+
+const team = { id: 'team-1', name: 'Eagles', coaches: ['coach-1'] } as any;
+const players = [{ id: 'p-ava', firstName: 'Ava', lastName: 'Smith', birthYear: 2015 }] as any[];
+const rosters = [{ id: 'r1', teamId: 'team-1', playerId: 'p-x', playerNumber: 4 }] as any[];
+const positions = [{ id: 'pos-gk', abbreviation: 'GK', positionName: 'Goalkeeper' }] as any[];
+
+const renderImport = (onDone = vi.fn()) => render(
+  <RosterImport team={team} players={players} rosters={rosters} positions={positions} currentUserId="coach-1" onDone={onDone} />
+);
+
+describe('RosterImport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockImportRoster.mockResolvedValue({ playersCreated: 1, rosterAdded: 2 });
+  });
+
+  it('previews pasted rows and imports only the valid ones', async () => {
+    const user = userEvent.setup();
+    const onDone = vi.fn();
+    renderImport(onDone);
+
+    fireEvent.change(screen.getByLabelText('Roster spreadsheet cells'), {
+      target: { value: 'Name\tNumber\tBorn\tPos\nAva Smith\t7\t2015\tGK\nBen Jones\t9\t\t\nCara Lee\t4\t\t' },
+    });
+
+    expect(screen.getByText('2 of 3 rows ready to import')).toBeInTheDocument();
+    expect(screen.getByText('Existing player')).toBeInTheDocument();
+    expect(screen.getByText('New player')).toBeInTheDocument();
+    expect(screen.getByText('#4 is already taken on this team')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Import 2 Players'));
+
+    await waitFor(() => expect(onDone).toHaveBeenCalled());
+    const [, importedRows] = mockImportRoster.mock.calls[0];
+    expect(importedRows.map((r: { firstName: string }) => r.firstName)).toEqual(['Ava', 'Ben']);
+    expect(importedRows[0].positionIds).toEqual(['pos-gk']);
+    expect(mockShowSuccess).toHaveBeenCalledWith('2 players added to Eagles (1 already in your players)');
+  });
+
+  it('lets the coach remap a column', async () => {
+    const user = userEvent.setup();
+    renderImport();
+
+    fireEvent.change(screen.getByLabelText('Roster spreadsheet cells'), {
+      target: { value: 'Kid,Shirt\nAva Smith,7' },
+    });
+    expect(screen.getByText('0 of 1 rows ready to import')).toBeInTheDocument();
+
+    await user.selectOptions(screen.getByLabelText('Full name'), 'Kid');
+    expect(screen.getByText('1 of 1 rows ready to import')).toBeInTheDocument();
+  });
+});
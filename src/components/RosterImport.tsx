@@ -0,0 +1,155 @@
+import { useMemo, useState } from 'react';
+import type { FormationPosition, Player, Team, TeamRoster } from '../types/schema';
+import { importRoster } from '../services/rosterImportService';
+import { showSuccess, showWarning } from '../utils/toast';
+import { handleApiError } from '../utils/errorHandler';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+import {
+  ROSTER_IMPORT_FIELDS,
+  guessRosterColumns,
+  parseRosterTable,
+  planRosterImport,
+  type RosterColumnMapping,
+  type RosterImportField,
+} from '../utils/rosterImportUtils';
+
+interface RosterImportProps {
+  team: Team;
+  players: Player[];
+  rosters: TeamRoster[];
+  positions: FormationPosition[];
+  currentUserId: string;
+  onDone: () => void;
+}
+
+/**
+ * Fills a team's roster from pasted spreadsheet cells or a CSV file. Columns
+ * are mapped by header (and can be changed), and a preview flags invalid rows
+ * and players already in the pool before anything is created.
+ */
+export function RosterImport({ team, players, rosters, positions, currentUserId, onDone }: RosterImportProps) {
+  const [text, setText] = useState('');
+  const [mapping, setMapping] = useState<RosterColumnMapping | null>(null);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const table = useMemo(() => parseRosterTable(text), [text]);
+  const rows = useMemo(
+    () => (mapping ? planRosterImport(table, mapping, { teamId: team.id, rosters, players, positions }) : []),
+    [table, mapping, team.id, rosters, players, positions]
+  );
+  const importable = rows.filter(row => row.errors.length === 0);
+  const abbreviations = new Map(positions.map(p => [p.id, p.abbreviation]));
+
+  const handleText = (value: string) => {
+    setText(value);
+    const headers = parseRosterTable(value).headers;
+    setMapping(headers.length > 0 ? guessRosterColumns(headers) : null);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    handleText(await file.text());
+  };
+
+  const handleMapping = (field: RosterImportField, column: number) => {
+    if (mapping) setMapping({ ...mapping, [field]: column });
+  };
+
+  const handleImport = async () => {
+    if (importable.length === 0) {
+      showWarning('No valid rows to import');
+      return;
+    }
+    setIsImporting(true);
+    try {
+      const result = await importRoster(team, importable, currentUserId);
+      trackEvent(AnalyticsEvents.ROSTER_IMPORTED.category, AnalyticsEvents.ROSTER_IMPORTED.action);
+      showSuccess(
+        `${result.rosterAdded} player${result.rosterAdded === 1 ? '' : 's'} added to ${team.name}` +
+        (result.playersCreated < result.rosterAdded ? ` (${result.rosterAdded - result.playersCreated} already in your players)` : '')
+      );
+      onDone();
+    } catch (error) {
+      handleApiError(error, 'Failed to import roster');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="create-form roster-import">
+      <h5>Import Roster</h5>
+      <p className="roster-import__hint">
+        Paste cells from a spreadsheet or choose a CSV file. Include a header row such as Name, Number, Birth Year, Positions.
+      </p>
+      <textarea
+        value={text}
+        onChange={(e) => handleText(e.target.value)}
+        placeholder={'Name\tNumber\tBirth Year\tPositions\nAva Smith\t7\t2015\tGK'}
+        rows={5}
+        aria-label="Roster spreadsheet cells"
+      />
+      <label className="roster-import__file">
+        Or choose a file (.csv, .tsv)
+        <input type="file" accept=".csv,.tsv,.txt,text/csv" onChange={(e) => { void handleFile(e.target.files?.[0]); }} />
+      </label>
+
+      {mapping && (
+        <>
+          <div className="roster-import__mapping">
+            {ROSTER_IMPORT_FIELDS.map(({ field, label }) => (
+              <label key={field}>
+                {label}
+                <select value={mapping[field]} onChange={(e) => handleMapping(field, Number(e.target.value))}>
+                  <option value={-1}>— Not in file —</option>
+                  {table.headers.map((header, index) => (
+                    <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                  ))}
+                </select>
+              </label>
+            ))}
+          </div>
+
+          {rows.length > 0 && (
+            <table className="roster-import__preview">
+              <caption>{importable.length} of {rows.length} rows ready to import</caption>
+              <thead>
+                <tr>
+                  <th>#</th>
+                  <th>Player</th>
+                  <th>Born</th>
+                  <th>Positions</th>
+                  <th>Status</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr key={row.rowNumber} className={row.errors.length > 0 ? 'roster-import__row--skipped' : undefined}>
+                    <td>{row.playerNumber ?? '—'}</td>
+                    <td>{`${row.firstName} ${row.lastName}`.trim() || '—'}</td>
+                    <td>{row.birthYear ?? ''}</td>
+                    <td>{row.positionIds.map(id => abbreviations.get(id)).join(', ')}</td>
+                    <td>
+                      {row.errors.length > 0
+                        ? row.errors.join('; ')
+                        : [row.existingPlayer ? 'Existing player' : 'New player', ...row.warnings].join('; ')}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </>
+      )}
+
+      <div className="form-actions">
+        <button onClick={handleImport} className="btn-primary" disabled={isImporting || importable.length === 0}>
+          {isImporting ? 'Importing...' : `Import ${importable.length} Player${importable.length === 1 ? '' : 's'}`}
+        </button>
+        <button onClick={onDone} className="btn-secondary" disabled={isImporting}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,110 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const { mockImportSchedule, mockDownloadTextFile } = vi.hoisted(() => ({
+  mockImportSchedule: vi.fn(),
+  mockDownloadTextFile: vi.fn(),
+}));
+
+vi.mock('../services/scheduleService', () => ({
+  importSchedule: mockImportSchedule,
+}));
+
+vi.mock('../utils/reportExportUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/reportExportUtils')>()),
+  downloadTextFile: mockDownloadTextFile,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showWarning: vi.fn(),
+  showSuccess: vi.fn(),
+  showError: vi.fn(),
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  handleApiError: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: {
+    SCHEDULE_EXPORTED: { category: 'Schedule', action: 'Export Calendar' },
+    SCHEDULE_IMPORTED: { category: 'Schedule', action: 'Import Schedule' },
+  },
+}));
+
+import { ScheduleImportExport } from './ScheduleImportExport';
+import { showError, showSuccess } from '../utils/toast';
+
+const teams = [{ id: 'team-1', name: 'Hawks', coaches: ['coach-2'], halfLengthMinutes: 25, currentSeasonId: 'season-1' }] as any[];
+const games = [
+  { id: 'g1', teamId: 'team-1', opponent: 'Rapids', isHome: true, gameDate: new Date(2030, 5, 1, 9).toISOString(), status: 'scheduled' },
+  { id: 'g2', teamId: 'team-2', opponent: 'Owls', isHome: true, gameDate: new Date(2030, 5, 2, 9).toISOString(), status: 'scheduled' },
+] as any[];
+
+const renderPanel = () => {
+  const onDone = vi.fn();
+  render(<ScheduleImportExport teams={teams} games={games} currentUserId="coach-1" onDone={onDone} />);
+  return { onDone };
+};
+
+const csvFile = (text: string) => new File([text], 'league.csv', { type: 'text/csv' });
+
+describe('ScheduleImportExport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockImportSchedule.mockResolvedValue({ created: 1, updated: 1 });
+  });
+
+  it("downloads the selected team's games as a calendar", async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.click(screen.getByRole('button', { name: 'Download calendar (.ics)' }));
+
+    expect(mockDownloadTextFile).toHaveBeenCalledWith('hawks-schedule.ics', expect.any(String), 'text/calendar');
+    const ics = mockDownloadTextFile.mock.calls[0][1] as string;
+    expect(ics).toContain('SUMMARY:Hawks vs Rapids');
+    expect(ics).not.toContain('Owls');
+  });
+
+  it('previews an import and applies the selected rows', async () => {
+    const user = userEvent.setup();
+    const { onDone } = renderPanel();
+
+    await user.upload(
+      screen.getByLabelText('Schedule file (.ics or .csv)'),
+      csvFile('Date,Time,Opponent\n2030-06-01,10:00,Rapids\n2030-06-08,9:00,Comets\n2030-06-15,9:00,Bears\n'),
+    );
+
+    expect(await screen.findByRole('table')).toBeInTheDocument();
+    expect(screen.getAllByText('New game')).toHaveLength(2);
+    expect(screen.getByText(/Time change/)).toBeInTheDocument();
+
+    await user.click(screen.getByRole('checkbox', { name: /Import Bears/ }));
+    await user.click(screen.getByRole('button', { name: 'Import 2 games' }));
+
+    await waitFor(() => expect(mockImportSchedule).toHaveBeenCalled());
+    const [team, rows, coaches] = mockImportSchedule.mock.calls[0];
+    expect(team.id).toBe('team-1');
+    expect(rows.map((row: any) => [row.game.opponent, row.action])).toEqual([
+      ['Rapids', 'update-time'],
+      ['Comets', 'create'],
+    ]);
+    expect(coaches).toEqual(['coach-2', 'coach-1']);
+    expect(showSuccess).toHaveBeenCalledWith('1 game added, 1 time updated');
+    expect(onDone).toHaveBeenCalled();
+  });
+
+  it('reports files it cannot read', async () => {
+    const user = userEvent.setup();
+    renderPanel();
+
+    await user.upload(screen.getByLabelText('Schedule file (.ics or .csv)'), csvFile('Field,Referee\nA,B\n'));
+
+    await waitFor(() => expect(showError).toHaveBeenCalledWith(expect.stringContaining('Date column')));
+    expect(screen.queryByRole('table')).not.toBeInTheDocument();
+  });
+});
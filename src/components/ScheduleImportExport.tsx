@@ -0,0 +1,194 @@
+import { useState } from 'react';
+import type { Game, Team } from '../types/schema';
+import { importSchedule } from '../services/scheduleService';
+import { showError, showSuccess, showWarning } from '../utils/toast';
+import { handleApiError } from '../utils/errorHandler';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+import { getPeriodCount, getTotalGameMinutes } from '../utils/periodUtils';
+import { buildExportFilename, downloadTextFile } from '../utils/reportExportUtils';
+import {
+  buildScheduleIcs,
+  parseScheduleFile,
+  planScheduleImport,
+  type ScheduleImportRow,
+} from '../utils/scheduleCalendarUtils';
+
+interface PreviewRow extends ScheduleImportRow {
+  included: boolean;
+}
+
+interface ScheduleImportExportProps {
+  teams: Team[];
+  games: Game[];
+  currentUserId: string | undefined;
+  onDone: () => void;
+}
+
+const formatKickoff = (iso: string | null | undefined) =>
+  iso
+    ? new Date(iso).toLocaleString(undefined, { weekday: 'short', month: 'short', day: 'numeric', hour: 'numeric', minute: '2-digit' })
+    : 'No date';
+
+/**
+ * Downloads a team's games as an .ics calendar for families, and imports a
+ * league schedule (.ics or CSV) after a preview that flags games already
+ * scheduled and kick-off times that moved.
+ */
+export function ScheduleImportExport({ teams, games, currentUserId, onDone }: ScheduleImportExportProps) {
+  const [teamId, setTeamId] = useState(teams.length === 1 ? teams[0].id : '');
+  const [fileName, setFileName] = useState('');
+  const [rows, setRows] = useState<PreviewRow[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+
+  const team = teams.find(t => t.id === teamId);
+  const teamGames = games.filter(g => g.teamId === teamId);
+  const selected = rows.filter(row => row.included);
+
+  const handleExport = () => {
+    if (!team) return;
+    const dated = teamGames.filter(g => g.gameDate);
+    if (dated.length === 0) {
+      showWarning('This team has no dated games to export');
+      return;
+    }
+    const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+    const ics = buildScheduleIcs(team.name, dated, getTotalGameMinutes(team.halfLengthMinutes ?? 30, periodCount));
+    downloadTextFile(buildExportFilename(team.name, null, 'schedule', 'ics'), ics, 'text/calendar');
+    trackEvent(AnalyticsEvents.SCHEDULE_EXPORTED.category, AnalyticsEvents.SCHEDULE_EXPORTED.action);
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    setRows([]);
+    setFileName(file?.name ?? '');
+    if (!file || !team) return;
+    try {
+      const imported = parseScheduleFile(await file.text(), team.name);
+      if (imported.length === 0) {
+        showWarning('No games found in that file');
+        return;
+      }
+      setRows(planScheduleImport(imported, teamGames).map(row => ({ ...row, included: row.action !== 'unchanged' })));
+    } catch (error) {
+      showError(error instanceof Error ? error.message : 'Could not read that schedule file');
+    }
+  };
+
+  const handleImport = async () => {
+    if (!currentUserId) {
+      showWarning('User not found. Please refresh.');
+      return;
+    }
+    if (!team || selected.length === 0) return;
+
+    // Same stale-team guard as scheduling a single game
+    const coaches = (team.coaches ?? []).filter((c): c is string => !!c);
+    if (!coaches.includes(currentUserId)) coaches.push(currentUserId);
+
+    setIsImporting(true);
+    try {
+      const { created, updated } = await importSchedule(team, selected, coaches);
+      trackEvent(AnalyticsEvents.SCHEDULE_IMPORTED.category, AnalyticsEvents.SCHEDULE_IMPORTED.action);
+      showSuccess(`${created} game${created === 1 ? '' : 's'} added, ${updated} time${updated === 1 ? '' : 's'} updated`);
+      onDone();
+    } catch (error) {
+      handleApiError(error, 'Failed to import schedule');
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <div className="create-form schedule-transfer">
+      <h3>Import / Export Schedule</h3>
+      <select
+        value={teamId}
+        onChange={(e) => {
+          setTeamId(e.target.value);
+          setRows([]);
+          setFileName('');
+        }}
+        aria-label="Team"
+      >
+        <option value="">Select Team *</option>
+        {teams.map((t) => (
+          <option key={t.id} value={t.id}>
+            {t.name}
+          </option>
+        ))}
+      </select>
+
+      <section className="schedule-transfer__section">
+        <h4>Share with families</h4>
+        <p className="schedule-transfer__hint">
+          Download the team's games as a calendar file that families can open in Google, Apple or Outlook
+          calendars. Send a fresh copy after changes; re-imported games update instead of doubling up.
+        </p>
+        <button className="btn-secondary" onClick={handleExport} disabled={!team}>
+          Download calendar (.ics)
+        </button>
+      </section>
+
+      <section className="schedule-transfer__section">
+        <h4>Import from league site</h4>
+        <label className="schedule-transfer__file">
+          Schedule file (.ics or .csv)
+          <input
+            type="file"
+            accept=".ics,.csv,text/calendar,text/csv"
+            disabled={!team}
+            onChange={(e) => { void handleFile(e.target.files?.[0]); }}
+          />
+        </label>
+
+        {rows.length > 0 && (
+          <table className="schedule-transfer__preview">
+            <caption>{fileName}</caption>
+            <thead>
+              <tr>
+                <th scope="col">Import</th>
+                <th scope="col">Kick-off</th>
+                <th scope="col">Opponent</th>
+                <th scope="col">H/A</th>
+                <th scope="col">Status</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((row, index) => (
+                <tr key={index} className={row.included ? undefined : 'schedule-transfer__row--skipped'}>
+                  <td>
+                    <input
+                      type="checkbox"
+                      checked={row.included}
+                      disabled={row.action === 'unchanged'}
+                      aria-label={`Import ${row.game.opponent} ${formatKickoff(row.game.gameDate)}`}
+                      onChange={(e) => setRows(prev => prev.map((r, i) => (i === index ? { ...r, included: e.target.checked } : r)))}
+                    />
+                  </td>
+                  <td>{formatKickoff(row.game.gameDate)}</td>
+                  <td>{row.game.opponent}</td>
+                  <td>{row.game.isHome ? 'Home' : 'Away'}</td>
+                  <td>
+                    {row.action === 'create' && 'New game'}
+                    {row.action === 'update-time' && `Time change (was ${formatKickoff(row.existingGame?.gameDate)})`}
+                    {row.action === 'unchanged' && 'Already scheduled'}
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </section>
+
+      <div className="form-actions">
+        {rows.length > 0 && (
+          <button className="btn-primary" onClick={() => { void handleImport(); }} disabled={isImporting || selected.length === 0}>
+            {isImporting ? 'Importing…' : `Import ${selected.length} game${selected.length === 1 ? '' : 's'}`}
+          </button>
+        )}
+        <button className="btn-secondary" onClick={onDone} disabled={isImporting}>
+          Close
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { render, screen, waitFor } from '@testing-library/react';
+import { render, screen, waitFor, within } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
 import { TeamReport } from './SeasonReport';
 
 const {
@@ -10,6 +11,8 @@ const {
   mockPlayTimeByGame,
   mockGoalList,
   mockGameNoteList,
+  mockGameEventList,
+  queryResults,
 } = vi.hoisted(() => ({
   mockUseAmplifyQuery: vi.fn(),
   mockSetHelpContext: vi.fn(),
@@ -18,6 +21,8 @@ const {
   mockPlayTimeByGame: vi.fn(),
   mockGoalList: vi.fn(),
   mockGameNoteList: vi.fn(),
+  mockGameEventList: vi.fn(),
+  queryResults: {} as Record<string, unknown[]>,
 }));
 
 vi.mock('aws-amplify/data', () => ({
@@ -28,6 +33,7 @@ vi.mock('aws-amplify/data', () => ({
       },
       Goal: { list: (...args: unknown[]) => mockGoalList(...args) },
       GameNote: { list: (...args: unknown[]) => mockGameNoteList(...args) },
+      GameEvent: { list: (...args: unknown[]) => mockGameEventList(...args) },
     },
     queries: {},
   })),
@@ -37,6 +43,10 @@ vi.mock('../hooks/useAmplifyQuery', () => ({
   useAmplifyQuery: (...args: unknown[]) => mockUseAmplifyQuery(...args),
 }));
 
+vi.mock('./HeadToHead', () => ({
+  HeadToHead: ({ games }: { games: unknown[] }) => <div data-testid="head-to-head">{games.length} games</div>,
+}));
+
 vi.mock('../contexts/HelpFabContext', () => ({
   useHelpFab: () => ({
     setHelpContext: mockSetHelpContext,
@@ -48,55 +58,35 @@ vi.mock('../utils/analytics', () => ({
   trackEvent: (...args: unknown[]) => mockTrackEvent(...args),
   AnalyticsEvents: {
     SEASON_REPORT_VIEWED: { category: 'season-report', action: 'viewed' },
+    SEASON_ROLLED_OVER: { category: 'season-report', action: 'rollover' },
   },
 }));
 
 describe('TeamReport', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    // Stable references per test, like the real observeQuery-backed hook
+    queryResults.TeamRoster = [{ id: 'roster-1', teamId: 'team-1', playerId: 'player-1', playerNumber: 10 }];
+    queryResults.Player = [{ id: 'player-1', firstName: 'Sam', lastName: 'Lee' }];
+    queryResults.Game = [
+      {
+        id: 'game-1',
+        teamId: 'team-1',
+        status: 'completed',
+        elapsedSeconds: 600,
+        ourScore: 1,
+        opponentScore: 0,
+        gameDate: '2030-06-01',
+        opponent: 'Rivals',
+      },
+    ];
+    queryResults.FormationPosition = [{ id: 'pos-1', positionName: 'Forward' }];
+    queryResults.Season = [];
 
-    mockUseAmplifyQuery.mockImplementation((modelName: string) => {
-      if (modelName === 'TeamRoster') {
-        return {
-          data: [{ id: 'roster-1', teamId: 'team-1', playerId: 'player-1', playerNumber: 10 }],
-          isSynced: true,
-        };
-      }
-
-      if (modelName === 'Player') {
-        return {
-          data: [{ id: 'player-1', firstName: 'Sam', lastName: 'Lee' }],
-          isSynced: true,
-        };
-      }
-
-      if (modelName === 'Game') {
-        return {
-          data: [
-            {
-              id: 'game-1',
-              teamId: 'team-1',
-              status: 'completed',
-              elapsedSeconds: 600,
-              ourScore: 1,
-              opponentScore: 0,
-              gameDate: '2030-06-01',
-              opponent: 'Rivals',
-            },
-          ],
-          isSynced: true,
-        };
-      }
-
-      if (modelName === 'FormationPosition') {
-        return {
-          data: [{ id: 'pos-1', positionName: 'Forward' }],
-          isSynced: true,
-        };
-      }
-
-      return { data: [], isSynced: true };
-    });
+    mockUseAmplifyQuery.mockImplementation((modelName: string) => ({
+      data: queryResults[modelName] ?? [],
+      isSynced: true,
+    }));
 
     mockPlayTimeByGame.mockResolvedValue({ data: [], nextToken: null });
     mockGoalList.mockResolvedValue({
@@ -104,12 +94,14 @@ describe('TeamReport', () => {
       nextToken: null,
     });
     mockGameNoteList.mockResolvedValue({ data: [], nextToken: null });
+    mockGameEventList.mockResolvedValue({ data: [], nextToken: null });
   });
 
   it('renders computed season totals and player row after data sync', async () => {
     render(
       <TeamReport
         team={{ id: 'team-1', name: 'Tigers', coaches: [] } as never}
+        onTeamUpdated={vi.fn()}
       />
     );
 
@@ -122,6 +114,147 @@ describe('TeamReport', () => {
       expect(screen.getByText('Total Goals')).toBeInTheDocument();
     });
 
+    expect(screen.getByTestId('head-to-head')).toHaveTextContent('1 games');
+    expect(screen.getByText('⬇️ Player CSV')).toBeInTheDocument();
+
     expect(mockTrackEvent).toHaveBeenCalledWith('season-report', 'viewed');
   });
+
+  it('shows plus/minus from goals scored while each player was on', async () => {
+    const user = userEvent.setup();
+    mockPlayTimeByGame.mockResolvedValue({
+      data: [{ id: 'ptr-1', gameId: 'game-1', playerId: 'player-1', positionId: 'pos-1', startGameSeconds: 0, endGameSeconds: 300 }],
+      nextToken: null,
+    });
+    mockGoalList.mockResolvedValue({
+      data: [
+        { id: 'goal-1', gameId: 'game-1', scoredByUs: true, scorerId: 'player-1', gameSeconds: 120, half: 1 },
+        { id: 'goal-2', gameId: 'game-1', scoredByUs: false, gameSeconds: 400, half: 1 },
+      ],
+      nextToken: null,
+    });
+    render(<TeamReport team={{ id: 'team-1', name: 'Tigers', coaches: [] } as never} onTeamUpdated={vi.fn()} />);
+
+    const row = (await screen.findByText(/Sam Lee/)).closest('tr')!;
+    await waitFor(() => {
+      expect(row.querySelector('.stat-plus-minus')).toHaveTextContent('+1');
+    });
+
+    await user.click(row);
+    expect(await screen.findByText('➕ On-Field Goals')).toBeInTheDocument();
+    expect(screen.getByText('Per 60 minutes').nextSibling).toHaveTextContent('+12');
+  });
+
+  it('shows lineup combinations in their own tab', async () => {
+    const user = userEvent.setup();
+    render(<TeamReport team={{ id: 'team-1', name: 'Tigers', coaches: [] } as never} onTeamUpdated={vi.fn()} />);
+
+    await user.click(await screen.findByRole('tab', { name: 'Combinations' }));
+
+    expect(screen.getByLabelText('Min. minutes together')).toBeInTheDocument();
+    expect(screen.queryByText(/Sam Lee/)).not.toBeInTheDocument();
+  });
+
+  it('shows shots, keeper save percentage and per-game team totals', async () => {
+    const user = userEvent.setup();
+    queryResults.FormationPosition = [{ id: 'pos-gk', positionName: 'Goalkeeper', abbreviation: 'GK' }];
+    mockPlayTimeByGame.mockResolvedValue({
+      data: [{ id: 'ptr-1', gameId: 'game-1', playerId: 'player-1', positionId: 'pos-gk', startGameSeconds: 0, endGameSeconds: 600 }],
+      nextToken: null,
+    });
+    mockGoalList.mockResolvedValue({
+      data: [{ id: 'goal-1', gameId: 'game-1', scoredByUs: false, gameSeconds: 400, half: 1 }],
+      nextToken: null,
+    });
+    mockGameEventList.mockResolvedValue({
+      data: [
+        { id: 'e1', gameId: 'game-1', eventType: 'save', forUs: true, gameSeconds: 100, half: 1 },
+        { id: 'e2', gameId: 'game-1', eventType: 'save', forUs: true, gameSeconds: 200, half: 1 },
+        { id: 'e3', gameId: 'game-1', eventType: 'save', forUs: true, gameSeconds: 300, half: 1 },
+        { id: 'e4', gameId: 'game-1', eventType: 'shot-off-target', forUs: true, playerId: 'player-1', gameSeconds: 500, half: 1 },
+      ],
+      nextToken: null,
+    });
+    render(<TeamReport team={{ id: 'team-1', name: 'Tigers', coaches: [] } as never} onTeamUpdated={vi.fn()} />);
+
+    const row = (await screen.findByText(/Sam Lee/)).closest('tr')!;
+    await waitFor(() => {
+      expect(row.querySelector('.stat-shots')).toHaveTextContent('1');
+    });
+
+    await user.click(row);
+    expect(await screen.findByText('🥅 Shots & Saves')).toBeInTheDocument();
+    expect(screen.getByText('Save %').nextSibling).toHaveTextContent('75%');
+
+    await user.click(screen.getByRole('tab', { name: 'Match Stats' }));
+    expect(screen.getByText('Total').closest('tr')).toHaveTextContent('Total0–11–10–10–00–00–03–0');
+  });
+
+  describe('seasons', () => {
+    beforeEach(() => {
+      queryResults.Season = [
+        { id: 'spring', teamId: 'team-1', name: 'Spring 2030', startDate: '2030-03-01', archived: false },
+        {
+          id: 'fall',
+          teamId: 'team-1',
+          name: 'Fall 2029',
+          startDate: '2029-08-20',
+          archived: true,
+          roster: JSON.stringify([{ playerId: 'player-1', playerNumber: 4 }]),
+        },
+      ];
+      queryResults.Game = [
+        { id: 'game-1', teamId: 'team-1', seasonId: null, status: 'completed', elapsedSeconds: 600, ourScore: 1, opponentScore: 0, gameDate: '2030-06-01', opponent: 'Rivals' },
+        { id: 'game-2', teamId: 'team-1', seasonId: 'fall', status: 'completed', elapsedSeconds: 600, ourScore: 0, opponentScore: 2, gameDate: '2029-10-01', opponent: 'Rapids' },
+      ];
+      mockGoalList.mockImplementation(async ({ filter }: { filter: { gameId: { eq: string } } }) => ({
+        data: filter.gameId.eq === 'game-1'
+          ? [{ id: 'goal-1', gameId: 'game-1', scorerId: 'player-1', gameSeconds: 120, half: 1 }]
+          : [],
+        nextToken: null,
+      }));
+    });
+
+    const renderSeasonReport = () => render(
+      <TeamReport
+        team={{ id: 'team-1', name: 'Tigers', coaches: [], currentSeasonId: 'spring' } as never}
+        onTeamUpdated={vi.fn()}
+      />
+    );
+
+    it('defaults to the current season and switches to an archived one', async () => {
+      const user = userEvent.setup();
+      renderSeasonReport();
+
+      await waitFor(() => {
+        expect(screen.getByText('1-0-0')).toBeInTheDocument();
+      });
+      expect(screen.getByText(/#10/)).toBeInTheDocument();
+      expect(screen.getByTestId('head-to-head')).toHaveTextContent('2 games');
+
+      await user.selectOptions(screen.getByLabelText('Season'), 'fall');
+
+      await waitFor(() => {
+        expect(screen.getByText('0-1-0')).toBeInTheDocument();
+      });
+      // Archived seasons list the roster they were closed with
+      expect(screen.getByText(/#4/)).toBeInTheDocument();
+    });
+
+    it('compares a player across seasons in their details', async () => {
+      const user = userEvent.setup();
+      renderSeasonReport();
+
+      await waitFor(() => {
+        expect(screen.getByText(/Sam Lee/)).toBeInTheDocument();
+      });
+      await user.click(screen.getByText(/Sam Lee/));
+
+      expect(await screen.findByText('📈 Season by Season')).toBeInTheDocument();
+      const springRow = screen.getByRole('cell', { name: 'Spring 2030' }).closest('tr')!;
+      expect(within(springRow).getAllByRole('cell')[3]).toHaveTextContent('1');
+      const fallRow = screen.getByRole('cell', { name: 'Fall 2029' }).closest('tr')!;
+      expect(within(fallRow).getAllByRole('cell')[3]).toHaveTextContent('-');
+    });
+  });
 });
@@ -1,7 +1,7 @@
 import { useEffect, useState, useRef, useMemo } from "react";
 import { generateClient } from "aws-amplify/data";
 import type { Schema } from "../../amplify/data/resource";
-import type { Team, Player, TeamRoster, Goal, GameNote, PlayTimeRecord, Game } from '../types/schema';
+import type { Team, Player, TeamRoster, Goal, GameNote, GameEvent, PlayTimeRecord, Game, Season } from '../types/schema';
 import { handleApiError } from "../utils/errorHandler";
 import { trackEvent, AnalyticsEvents } from "../utils/analytics";
 import { sortRosterByNumber } from "../utils/playerUtils";
@@ -19,15 +19,34 @@ import {
   calculatePlayerRedCards,
   calculateRecord,
 } from "../utils/gameCalculations";
+import { calculatePlayerPlusMinus, formatPlusMinus, type PlusMinusStats } from "../utils/plusMinusCalculations";
+import {
+  calculateKeeperSaves,
+  calculatePlayerShots,
+  type KeeperSaveStats,
+  type PlayerShotStats,
+} from "../utils/gameEventUtils";
 import { useAmplifyQuery } from "../hooks/useAmplifyQuery";
+import { formatPeriodLabel, getPeriodCount } from "../utils/periodUtils";
+import { formatGameMinute, getGameClock } from "../utils/gameTimeUtils";
 import { useHelpFab } from "../contexts/HelpFabContext";
 import { buildFlatDebugSnapshot } from "../utils/debugUtils";
 import type { SeasonReportDebugContext } from "../types/debug";
+import { filterSeasonGames, parseSeasonRoster, sortSeasons } from "../utils/seasonUtils";
+import type { ReportExportRow, ReportExportSummary } from "../utils/reportExportUtils";
+import { HeadToHead } from "./HeadToHead";
+import { LineupCombinations } from "./LineupCombinations";
+import { MatchStats } from "./MatchStats";
+import { PracticeAttendanceReport } from "./PracticeAttendanceReport";
+import { SeasonReportExport } from "./SeasonReportExport";
+import { SeasonRolloverForm } from "./SeasonRolloverForm";
 
 const client = generateClient<Schema>();
 
 interface TeamReportProps {
   team: Team;
+  /** Called with the updated team after a season rollover */
+  onTeamUpdated: (team: Team) => void;
 }
 
 interface PlayerStats {
@@ -40,19 +59,64 @@ interface PlayerStats {
   redCards: number;
   totalPlayTimeSeconds: number;
   gamesPlayed: number;
+  playTimeByPosition: Map<string, number>;
+  plusMinus: PlusMinusStats;
+  shots: PlayerShotStats;
 }
 
 interface PlayerDetails {
   player: Player;
-  goals: Array<{ game: Game; minute: number; half: number }>;
-  assists: Array<{ game: Game; minute: number; half: number }>;
-  goldStars: Array<{ game: Game; minute: number; half: number }>;
-  yellowCards: Array<{ game: Game; minute: number; half: number }>;
-  redCards: Array<{ game: Game; minute: number; half: number }>;
+  goals: Array<{ game: Game; minute: string; half: number }>;
+  assists: Array<{ game: Game; minute: string; half: number }>;
+  goldStars: Array<{ game: Game; minute: string; half: number }>;
+  yellowCards: Array<{ game: Game; minute: string; half: number }>;
+  redCards: Array<{ game: Game; minute: string; half: number }>;
   playTimeByPosition: Map<string, number>;
+  plusMinus: PlusMinusStats;
+  shots: PlayerShotStats;
+  keeper: KeeperSaveStats;
+  seasonComparison: SeasonComparisonRow[];
+}
+
+interface SeasonComparisonRow {
+  season: Season;
+  gamesPlayed: number;
+  totalPlayTimeSeconds: number;
+  goals: number;
+  assists: number;
+}
+
+const REPORT_TAB_LABELS = {
+  players: 'Players',
+  combinations: 'Combinations',
+  match: 'Match Stats',
+  practice: 'Practice',
+} as const;
+
+/**
+ * Closes any play time records left open in completed games.
+ * This is a safety net for when closeActivePlayTimeRecords didn't find all
+ * records during the DynamoDB Scan (no GSI on gameId, eventually consistent
+ * reads), so completed games still report the right play time.
+ */
+function closeCompletedGameRecords(records: PlayTimeRecord[], games: Game[]): PlayTimeRecord[] {
+  const completedGameEndTimes = new Map<string, number>();
+  games.forEach(g => {
+    if (g.status === 'completed' && g.elapsedSeconds != null) {
+      completedGameEndTimes.set(g.id, g.elapsedSeconds);
+    }
+  });
+
+  return records.map(r => {
+    if ((r.endGameSeconds === null || r.endGameSeconds === undefined) && completedGameEndTimes.has(r.gameId)) {
+      return { ...r, endGameSeconds: completedGameEndTimes.get(r.gameId)! };
+    }
+    return r;
+  });
 }
 
-export function TeamReport({ team }: TeamReportProps) {
+export function TeamReport({ team, onTeamUpdated }: TeamReportProps) {
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
   const { setHelpContext, setDebugContext } = useHelpFab();
 
   // Register 'season-reports' help context while this screen is mounted.
@@ -67,10 +131,17 @@ export function TeamReport({ team }: TeamReportProps) {
   const [selectedRoster, setSelectedRoster] = useState<TeamRoster | null>(null);
   const [playerDetails, setPlayerDetails] = useState<PlayerDetails | null>(null);
   const [loadingDetails, setLoadingDetails] = useState(false);
+  const [showRollover, setShowRollover] = useState(false);
+  const [reportTab, setReportTab] = useState<keyof typeof REPORT_TAB_LABELS>('players');
+
+  // Default to the current season; a team with no seasons yet sees every game
+  const currentSeasonId = team.currentSeasonId ?? null;
+  const [selectedSeasonId, setSelectedSeasonId] = useState<string | null>(currentSeasonId);
 
   // Store full data for details view
   const [allGoals, setAllGoals] = useState<Goal[]>([]);
   const [allNotes, setAllNotes] = useState<GameNote[]>([]);
+  const [allEvents, setAllEvents] = useState<GameEvent[]>([]);
   const [allPlayTimeRecords, setAllPlayTimeRecords] = useState<PlayTimeRecord[]>([]);
 
   // Phase 1: Subscribe to team-scoped data and simple models
@@ -78,14 +149,50 @@ export function TeamReport({ team }: TeamReportProps) {
     filter: { teamId: { eq: team.id } },
   }, [team.id]);
   const { data: players, isSynced: playersSynced } = useAmplifyQuery('Player');
-  const { data: allGames, isSynced: gamesSynced } = useAmplifyQuery('Game', {
+  const { data: teamGames, isSynced: gamesSynced } = useAmplifyQuery('Game', {
     filter: { teamId: { eq: team.id } },
   }, [team.id]);
   const { data: allPositions, isSynced: positionsSynced } = useAmplifyQuery('FormationPosition');
+  const { data: seasonRecords, isSynced: seasonsSynced } = useAmplifyQuery('Season', {
+    filter: { teamId: { eq: team.id } },
+  }, [team.id]);
+  const { data: practiceSessions } = useAmplifyQuery('PracticeSession', {
+    filter: { teamId: { eq: team.id } },
+  }, [team.id]);
+  const { data: practiceAttendance } = useAmplifyQuery('PracticeAttendance', {
+    filter: { teamId: { eq: team.id } },
+  }, [team.id]);
+
+  const seasons = useMemo(() => sortSeasons(seasonRecords), [seasonRecords]);
+  const selectedSeason = seasons.find(s => s.id === selectedSeasonId) ?? null;
+
+  // Stats cover the selected season; Phase 2 still loads every team game so
+  // player details can compare seasons.
+  const allGames = useMemo(
+    () => filterSeasonGames(teamGames, selectedSeasonId, currentSeasonId),
+    [teamGames, selectedSeasonId, currentSeasonId]
+  );
+  const seasonPractices = useMemo(
+    () => filterSeasonGames(practiceSessions, selectedSeasonId, currentSeasonId),
+    [practiceSessions, selectedSeasonId, currentSeasonId]
+  );
+
+  // An archived season lists the roster it was closed with, not today's
+  const reportRosters = useMemo((): TeamRoster[] => {
+    const snapshot = selectedSeason?.archived ? parseSeasonRoster(selectedSeason.roster) : [];
+    if (!selectedSeason || snapshot.length === 0) return teamRosters;
+    return snapshot.map(entry => ({
+      ...teamRosters.find(r => r.playerId === entry.playerId),
+      id: `${selectedSeason.id}:${entry.playerId}`,
+      teamId: team.id,
+      playerId: entry.playerId,
+      playerNumber: entry.playerNumber,
+    }) as TeamRoster);
+  }, [selectedSeason, teamRosters, team.id]);
 
   // Track sync status for Phase 2 data (fetched via list(), not observeQuery)
   const [phase2Synced, setPhase2Synced] = useState(false);
-  const allSynced = rostersSynced && playersSynced && gamesSynced && positionsSynced && phase2Synced;
+  const allSynced = rostersSynced && playersSynced && gamesSynced && positionsSynced && seasonsSynced && phase2Synced;
 
   const seasonReportDebugContext = useMemo((): SeasonReportDebugContext => ({
     teamIdPrefix: team.id.slice(0, 8),
@@ -119,8 +226,8 @@ export function TeamReport({ team }: TeamReportProps) {
   // unfiltered observeQuery() scans that can miss records under heavy pagination.
   const gameDataLoadedRef = useRef(false);
   useEffect(() => {
-    if (!gamesSynced || allGames.length === 0) return;
-    // Reload game-specific data whenever allGames changes
+    if (!gamesSynced || teamGames.length === 0) return;
+    // Reload game-specific data whenever teamGames changes
     gameDataLoadedRef.current = false;
 
     // Paginated list helper for a single gameId
@@ -265,15 +372,32 @@ export function TeamReport({ team }: TeamReportProps) {
       return items;
     }
 
+    async function fetchEventsForGame(gameId: string): Promise<GameEvent[]> {
+      const items: GameEvent[] = [];
+      let nextToken: string | null | undefined = undefined;
+      do {
+        const opts: { filter: { gameId: { eq: string } }; nextToken?: string; limit?: number } = {
+          filter: { gameId: { eq: gameId } },
+          limit: 1000,
+        };
+        if (nextToken) opts.nextToken = nextToken;
+        const res = await client.models.GameEvent.list(opts);
+        if (res.data) items.push(...res.data);
+        nextToken = res.nextToken;
+      } while (nextToken);
+      return items;
+    }
+
     const loadGameData = async () => {
       try {
-        const gameIds = allGames.map(g => g.id);
+        const gameIds = teamGames.map(g => g.id);
 
-        // Fetch PlayTimeRecords, Goals, and GameNotes for all games in parallel
-        const [playTimeResults, goalResults, noteResults] = await Promise.all([
+        // Fetch PlayTimeRecords, Goals, GameNotes and GameEvents for all games in parallel
+        const [playTimeResults, goalResults, noteResults, eventResults] = await Promise.all([
           Promise.all(gameIds.map(fetchPlayTimeForGame)),
           Promise.all(gameIds.map(fetchGoalsForGame)),
           Promise.all(gameIds.map(fetchNotesForGame)),
+          Promise.all(gameIds.map(fetchEventsForGame)),
         ]);
 
         const allPlayTime = playTimeResults.flat();
@@ -283,6 +407,7 @@ export function TeamReport({ team }: TeamReportProps) {
         setAllPlayTimeRecords(allPlayTime);
         setAllGoals(allGoalsData);
         setAllNotes(allNotesData);
+        setAllEvents(eventResults.flat());
 
         setPhase2Synced(true);
         gameDataLoadedRef.current = true;
@@ -303,52 +428,38 @@ export function TeamReport({ team }: TeamReportProps) {
     }, 2000);
 
     return () => clearTimeout(reloadTimer);
-  }, [gamesSynced, allGames]);
+  }, [gamesSynced, teamGames]);
 
   // Recalculate stats only after ALL subscriptions have fully synced
   // This prevents showing incorrect stats from partial observeQuery page loads
   useEffect(() => {
     if (allSynced) {
       setLoading(false);
-      if (teamRosters.length > 0 && players.length > 0 && allGames.length > 0) {
+      if (reportRosters.length > 0 && players.length > 0 && allGames.length > 0) {
         calculateStats();
+      } else {
+        // e.g. a newly started season with no games yet
+        setPlayerStats([]);
       }
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [allSynced, allPlayTimeRecords, teamRosters, players, allGames, allGoals, allNotes]);
+  }, [allSynced, allPlayTimeRecords, reportRosters, players, allGames, allGoals, allNotes, allEvents]);
 
   const calculateStats = () => {
     const teamGameIds = new Set(allGames.map(g => g.id));
-    
-    // Build a map of gameId → elapsedSeconds for completed games.
-    // This is used as a safety net: if closeActivePlayTimeRecords missed closing
-    // some records (e.g., due to DynamoDB Scan pagination without a GSI on gameId),
-    // we can still calculate correct play time for completed games.
-    const completedGameEndTimes = new Map<string, number>();
-    allGames.forEach(g => {
-      if (g.status === 'completed' && g.elapsedSeconds != null) {
-        completedGameEndTimes.set(g.id, g.elapsedSeconds);
-      }
-    });
-    
-    // Fix up any unclosed records in completed games before calculating stats.
-    // This handles the case where closeActivePlayTimeRecords didn't find all records
-    // during the DynamoDB Scan (no GSI on gameId, eventually consistent reads).
-    const fixedPlayTimeRecords = allPlayTimeRecords.map(r => {
-      if ((r.endGameSeconds === null || r.endGameSeconds === undefined) && completedGameEndTimes.has(r.gameId)) {
-        const gameEndTime = completedGameEndTimes.get(r.gameId)!;
-        return { ...r, endGameSeconds: gameEndTime };
-      }
-      return r;
-    });
 
-    const stats: PlayerStats[] = teamRosters.map((roster) => {
+    // Fix up any unclosed records in completed games before calculating stats
+    const fixedPlayTimeRecords = closeCompletedGameRecords(allPlayTimeRecords, allGames);
+    const positionsMap = new Map(allPositions.map(p => [p.id, { positionName: p.positionName }]));
+
+    const stats: PlayerStats[] = reportRosters.map((roster) => {
       const player = players.find(p => p.id === roster.playerId);
       if (!player) return null;
       
       // Filter data for this team's games only
       const teamGoals = allGoals.filter(g => g && teamGameIds.has(g.gameId));
       const teamNotes = allNotes.filter(n => n && teamGameIds.has(n.gameId));
+      const teamEvents = allEvents.filter(e => e && teamGameIds.has(e.gameId));
       const playerPlayTime = fixedPlayTimeRecords.filter(r => 
         r && r.playerId === player.id && teamGameIds.has(r.gameId)
       );
@@ -366,6 +477,12 @@ export function TeamReport({ team }: TeamReportProps) {
       // Use shared utility to count games played
       const gamesPlayed = countGamesPlayed(player.id, playerPlayTime);
 
+      // Minutes per position feed the fairness exports
+      const playTimeByPosition = calculatePlayTimeByPosition(player.id, playerPlayTime, positionsMap);
+
+      // Goals for/against while this player was on the field
+      const plusMinus = calculatePlayerPlusMinus(player.id, teamGoals, playerPlayTime);
+
       return {
         player,
         roster,
@@ -376,6 +493,9 @@ export function TeamReport({ team }: TeamReportProps) {
         redCards,
         totalPlayTimeSeconds,
         gamesPlayed,
+        playTimeByPosition,
+        plusMinus,
+        shots: calculatePlayerShots(player.id, teamEvents, teamGoals),
       };
     }).filter(Boolean) as PlayerStats[];
 
@@ -395,12 +515,18 @@ export function TeamReport({ team }: TeamReportProps) {
       const teamGameIds = new Set(allGames.map(g => g.id));
       const teamGoals = allGoals.filter(g => g && teamGameIds.has(g.gameId));
       
+      // Minutes are shown on each game's own clock so added time reads as "30+2'"
+      const formatMinute = (gameId: string, seconds: number, half: number) => {
+        const game = allGames.find(g => g.id === gameId);
+        return formatGameMinute(seconds, half, game ? getGameClock(game, team.halfLengthMinutes, periodCount) : undefined);
+      };
+
       // Get goals scored by this player using utility
       const playerGoalsList = teamGoals.filter(g => g.scorerId === player.id);
       const playerGoals = playerGoalsList
         .map(g => ({
           game: allGames.find(game => game.id === g.gameId)!,
-          minute: Math.floor((g.gameSeconds || 0) / 60),
+          minute: formatMinute(g.gameId, g.gameSeconds || 0, g.half || 1),
           half: g.half || 1,
         }))
         .sort((a, b) => (a.game.gameDate || '').localeCompare(b.game.gameDate || ''));
@@ -410,7 +536,7 @@ export function TeamReport({ team }: TeamReportProps) {
       const playerAssists = playerAssistsList
         .map(g => ({
           game: allGames.find(game => game.id === g.gameId)!,
-          minute: Math.floor((g.gameSeconds || 0) / 60),
+          minute: formatMinute(g.gameId, g.gameSeconds || 0, g.half || 1),
           half: g.half || 1,
         }))
         .sort((a, b) => (a.game.gameDate || '').localeCompare(b.game.gameDate || ''));
@@ -423,7 +549,7 @@ export function TeamReport({ team }: TeamReportProps) {
         .filter(n => n.noteType === 'gold-star')
         .map(n => ({
           game: allGames.find(game => game.id === n.gameId)!,
-          minute: Math.floor((n.gameSeconds || 0) / 60),
+          minute: formatMinute(n.gameId, n.gameSeconds || 0, n.half || 1),
           half: n.half || 1,
         }))
         .sort((a, b) => (a.game.gameDate || '').localeCompare(b.game.gameDate || ''));
@@ -432,7 +558,7 @@ export function TeamReport({ team }: TeamReportProps) {
         .filter(n => n.noteType === 'yellow-card')
         .map(n => ({
           game: allGames.find(game => game.id === n.gameId)!,
-          minute: Math.floor((n.gameSeconds || 0) / 60),
+          minute: formatMinute(n.gameId, n.gameSeconds || 0, n.half || 1),
           half: n.half || 1,
         }))
         .sort((a, b) => (a.game.gameDate || '').localeCompare(b.game.gameDate || ''));
@@ -441,28 +567,17 @@ export function TeamReport({ team }: TeamReportProps) {
         .filter(n => n.noteType === 'red-card')
         .map(n => ({
           game: allGames.find(game => game.id === n.gameId)!,
-          minute: Math.floor((n.gameSeconds || 0) / 60),
+          minute: formatMinute(n.gameId, n.gameSeconds || 0, n.half || 1),
           half: n.half || 1,
         }))
         .sort((a, b) => (a.game.gameDate || '').localeCompare(b.game.gameDate || ''));
 
       // Calculate play time by position using shared utility
       // Fix up unclosed records for completed games (same as calculateStats)
-      const completedGameEndTimes = new Map<string, number>();
-      allGames.forEach(g => {
-        if (g.status === 'completed' && g.elapsedSeconds != null) {
-          completedGameEndTimes.set(g.id, g.elapsedSeconds);
-        }
-      });
-      const playerPlayTime = allPlayTimeRecords
-        .filter(r => r && r.playerId === player.id && teamGameIds.has(r.gameId))
-        .map(r => {
-          if ((r.endGameSeconds === null || r.endGameSeconds === undefined) && completedGameEndTimes.has(r.gameId)) {
-            return { ...r, endGameSeconds: completedGameEndTimes.get(r.gameId)! };
-          }
-          return r;
-        });
- 
+      const fixedPlayTimeRecords = closeCompletedGameRecords(allPlayTimeRecords, teamGames);
+      const playerPlayTime = fixedPlayTimeRecords
+        .filter(r => r && r.playerId === player.id && teamGameIds.has(r.gameId));
+
       // Create position map with position names
       const positionsMap = new Map(
         allPositions.map(p => [p.id, { positionName: p.positionName }])
@@ -476,6 +591,29 @@ export function TeamReport({ team }: TeamReportProps) {
         positionsMap
       );
 
+      // Shots and, for anyone who played in goal, saves against goals conceded
+      const teamEvents = allEvents.filter(e => e && teamGameIds.has(e.gameId));
+      const keeperPositions = new Map(allPositions.map(p => [p.id, { abbreviation: p.abbreviation }]));
+      const teamPlayTime = fixedPlayTimeRecords.filter(r => r && teamGameIds.has(r.gameId));
+
+      // Compare every season the team has played, newest first
+      const seasonComparison = seasons.length > 1
+        ? seasons.map((season) => {
+            const seasonGameIds = new Set(filterSeasonGames(teamGames, season.id, currentSeasonId).map(g => g.id));
+            const seasonGoals = allGoals.filter(g => g && seasonGameIds.has(g.gameId));
+            const seasonPlayTime = fixedPlayTimeRecords.filter(r =>
+              r && r.playerId === player.id && seasonGameIds.has(r.gameId)
+            );
+            return {
+              season,
+              gamesPlayed: countGamesPlayed(player.id, seasonPlayTime),
+              totalPlayTimeSeconds: calculatePlayerPlayTime(player.id, seasonPlayTime),
+              goals: calculatePlayerGoals(player.id, seasonGoals),
+              assists: calculatePlayerAssists(player.id, seasonGoals),
+            };
+          })
+        : [];
+
       setPlayerDetails({
         player,
         goals: playerGoals,
@@ -484,6 +622,10 @@ export function TeamReport({ team }: TeamReportProps) {
         yellowCards,
         redCards,
         playTimeByPosition,
+        plusMinus: calculatePlayerPlusMinus(player.id, teamGoals, playerPlayTime),
+        shots: calculatePlayerShots(player.id, teamEvents, teamGoals),
+        keeper: calculateKeeperSaves(player.id, teamEvents, teamGoals, teamPlayTime, keeperPositions),
+        seasonComparison,
       });
     } catch (error) {
       handleApiError(error, 'Failed to load player details');
@@ -492,12 +634,99 @@ export function TeamReport({ team }: TeamReportProps) {
     }
   };
 
+  const exportSummary = useMemo((): ReportExportSummary => ({
+    teamName: team.name,
+    seasonName: selectedSeason?.name ?? null,
+    record: calculateRecord(allGames),
+    completedGames: allGames.filter(g => g.status === 'completed').length,
+    generatedAt: new Date(),
+  }), [team.name, selectedSeason, allGames]);
+
+  const exportRows = useMemo((): ReportExportRow[] => playerStats.map(stat => ({
+    playerNumber: stat.roster.playerNumber,
+    playerName: `${stat.player.firstName} ${stat.player.lastName}`,
+    gamesPlayed: stat.gamesPlayed,
+    totalPlayTimeSeconds: stat.totalPlayTimeSeconds,
+    goals: stat.goals,
+    assists: stat.assists,
+    goldStars: stat.goldStars,
+    yellowCards: stat.yellowCards,
+    redCards: stat.redCards,
+    playTimeByPosition: stat.playTimeByPosition,
+  })), [playerStats]);
+
+  // Inputs for the Combinations tab
+  const seasonPlayTimeRecords = useMemo(
+    () => closeCompletedGameRecords(allPlayTimeRecords, allGames),
+    [allPlayTimeRecords, allGames]
+  );
+  const positionsById = useMemo(
+    () => new Map(allPositions.map(p => [p.id, { abbreviation: p.abbreviation }])),
+    [allPositions]
+  );
+  const playerLabels = useMemo(() => new Map(reportRosters.map(roster => {
+    const player = players.find(p => p.id === roster.playerId);
+    return [roster.playerId, `#${roster.playerNumber} ${player?.firstName ?? 'Unknown'}`];
+  })), [reportRosters, players]);
+
+  const closePlayerDetails = () => {
+    setSelectedPlayer(null);
+    setPlayerDetails(null);
+  };
+
+  const handleSeasonChange = (seasonId: string) => {
+    setSelectedSeasonId(seasonId || null);
+    closePlayerDetails();
+  };
+
+  const handleRolledOver = (season: Season) => {
+    setShowRollover(false);
+    onTeamUpdated({ ...team, currentSeasonId: season.id });
+    setSelectedSeasonId(season.id);
+    closePlayerDetails();
+  };
+
   return (
     <div className="season-report">
       <div className="report-header">
         <h1>Season Report: {team.name}</h1>
+        <div className="season-controls">
+          {seasons.length > 0 && (
+            <select
+              id="season-select"
+              className="season-select"
+              aria-label="Season"
+              value={selectedSeasonId ?? ''}
+              onChange={(e) => handleSeasonChange(e.target.value)}
+            >
+              {seasons.map((season) => (
+                <option key={season.id} value={season.id}>
+                  {season.name}{season.id === currentSeasonId ? ' (current)' : ''}
+                </option>
+              ))}
+              <option value="">All seasons</option>
+            </select>
+          )}
+          {!showRollover && (
+            <button onClick={() => setShowRollover(true)} className="btn-secondary" disabled={!allSynced}>
+              Start New Season
+            </button>
+          )}
+        </div>
       </div>
 
+      {showRollover && (
+        <SeasonRolloverForm
+          team={team}
+          currentSeason={seasons.find(s => s.id === currentSeasonId) ?? null}
+          games={teamGames}
+          rosters={teamRosters}
+          practices={practiceSessions}
+          onRolledOver={handleRolledOver}
+          onCancel={() => setShowRollover(false)}
+        />
+      )}
+
       {loading ? (
         <div className="loading-state">Loading season statistics...</div>
       ) : (
@@ -533,182 +762,325 @@ export function TeamReport({ team }: TeamReportProps) {
             </div>
           </div>
 
-          <div className="stats-table-container">
-            <table className="stats-table">
-              <thead>
-                <tr>
-                  <th className="player-name">Player</th>
-                  <th>GP</th>
-                  <th>Time</th>
-                  <th>⚽<span className="col-label"> Goals</span></th>
-                  <th>🎯<span className="col-label"> Assists</span></th>
-                  <th>⭐<span className="col-label"> Stars</span></th>
-                  <th>🟨<span className="col-label"> Yellow</span></th>
-                  <th>🟥<span className="col-label"> Red</span></th>
-                </tr>
-              </thead>
-              <tbody>
-                {playerStats.map((stat) => (
-                  <tr
-                    key={stat.player.id}
-                    onClick={() => {
-                      setSelectedRoster(stat.roster);
-                      void loadPlayerDetails(stat.player);
-                    }}
-                    className={`clickable-row ${selectedPlayer?.id === stat.player.id ? 'selected' : ''}`}
-                  >
-                    <td className="player-name">
-                      {stat.roster.playerNumber !== undefined ? `#${stat.roster.playerNumber} ` : ''}
-                      {stat.player.firstName} {stat.player.lastName}
-                    </td>
-                    <td>{stat.gamesPlayed}</td>
-                    <td>{formatPlayTime(stat.totalPlayTimeSeconds, 'long')}</td>
-                    <td className="stat-goals">{stat.goals || '-'}</td>
-                    <td className="stat-assists">{stat.assists || '-'}</td>
-                    <td className="stat-stars">{stat.goldStars || '-'}</td>
-                    <td className="stat-yellow">{stat.yellowCards || '-'}</td>
-                    <td className="stat-red">{stat.redCards || '-'}</td>
+          {playerStats.length > 0 && <SeasonReportExport summary={exportSummary} rows={exportRows} />}
+
+          {/* Tab Nav */}
+          <nav className="planner-tab-nav report-tab-nav" role="tablist">
+            {(['players', 'combinations', 'match', 'practice'] as const).map((tab) => (
+              <button
+                key={tab}
+                role="tab"
+                aria-selected={reportTab === tab}
+                className={`planner-tab ${reportTab === tab ? 'planner-tab--active' : ''}`}
+                onClick={() => setReportTab(tab)}
+              >
+                {REPORT_TAB_LABELS[tab]}
+              </button>
+            ))}
+          </nav>
+
+          {reportTab === 'players' && (
+            <>
+            <div className="stats-table-container">
+              <table className="stats-table">
+                <thead>
+                  <tr>
+                    <th className="player-name">Player</th>
+                    <th>GP</th>
+                    <th>Time</th>
+                    <th title="Goals for minus goals against while on the field">+/-</th>
+                    <th title="Shots, goals included">🥅<span className="col-label"> Shots</span></th>
+                    <th>⚽<span className="col-label"> Goals</span></th>
+                    <th>🎯<span className="col-label"> Assists</span></th>
+                    <th>⭐<span className="col-label"> Stars</span></th>
+                    <th>🟨<span className="col-label"> Yellow</span></th>
+                    <th>🟥<span className="col-label"> Red</span></th>
                   </tr>
-                ))}
-              </tbody>
-            </table>
-          </div>
-
-          {playerStats.length === 0 && (
-            <p className="empty-state">No player statistics available yet.</p>
-          )}
+                </thead>
+                <tbody>
+                  {playerStats.map((stat) => (
+                    <tr
+                      key={stat.player.id}
+                      onClick={() => {
+                        setSelectedRoster(stat.roster);
+                        void loadPlayerDetails(stat.player);
+                      }}
+                      className={`clickable-row ${selectedPlayer?.id === stat.player.id ? 'selected' : ''}`}
+                    >
+                      <td className="player-name">
+                        {stat.roster.playerNumber !== undefined ? `#${stat.roster.playerNumber} ` : ''}
+                        {stat.player.firstName} {stat.player.lastName}
+                      </td>
+                      <td>{stat.gamesPlayed}</td>
+                      <td>{formatPlayTime(stat.totalPlayTimeSeconds, 'long')}</td>
+                      <td className="stat-plus-minus">
+                        {stat.gamesPlayed > 0 ? formatPlusMinus(stat.plusMinus.plusMinus) : '-'}
+                      </td>
+                      <td className="stat-shots">{stat.shots.shots || '-'}</td>
+                      <td className="stat-goals">{stat.goals || '-'}</td>
+                      <td className="stat-assists">{stat.assists || '-'}</td>
+                      <td className="stat-stars">{stat.goldStars || '-'}</td>
+                      <td className="stat-yellow">{stat.yellowCards || '-'}</td>
+                      <td className="stat-red">{stat.redCards || '-'}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
 
-          {selectedPlayer && (
-            <div className="player-details-section">
-              <div className="details-header">
-                <h2>
-                  {selectedPlayer.firstName} {selectedPlayer.lastName} 
-                  {selectedRoster?.playerNumber !== undefined && ` #${selectedRoster.playerNumber}`}
-                </h2>
-                <button onClick={() => setSelectedPlayer(null)} className="btn-secondary">
-                  Close Details
-                </button>
-              </div>
+            {playerStats.length === 0 && (
+              <p className="empty-state">No player statistics available yet.</p>
+            )}
+
+            {selectedPlayer && (
+              <div className="player-details-section">
+                <div className="details-header">
+                  <h2>
+                    {selectedPlayer.firstName} {selectedPlayer.lastName} 
+                    {selectedRoster?.playerNumber !== undefined && ` #${selectedRoster.playerNumber}`}
+                  </h2>
+                  <button onClick={closePlayerDetails} className="btn-secondary">
+                    Close Details
+                  </button>
+                </div>
 
-              {loadingDetails ? (
-                <div className="loading-state">Loading player details...</div>
-              ) : playerDetails ? (
-                <div className="details-content">
-                  {/* Play Time by Position */}
-                  {playerDetails.playTimeByPosition.size > 0 && (
-                    <div className="details-card">
-                      <h3>⏱️ Play Time by Position</h3>
-                      <div className="position-time-list">
-                        {Array.from(playerDetails.playTimeByPosition.entries())
-                          .sort((a, b) => b[1] - a[1])
-                          .map(([position, seconds]) => (
-                            <div key={position} className="position-time-item">
-                              <span className="position-name">{position}</span>
-                              <span className="position-time">{formatPlayTime(seconds, 'long')}</span>
-                            </div>
-                          ))}
+                {loadingDetails ? (
+                  <div className="loading-state">Loading player details...</div>
+                ) : playerDetails ? (
+                  <div className="details-content">
+                    {/* Play Time by Position */}
+                    {playerDetails.playTimeByPosition.size > 0 && (
+                      <div className="details-card">
+                        <h3>⏱️ Play Time by Position</h3>
+                        <div className="position-time-list">
+                          {Array.from(playerDetails.playTimeByPosition.entries())
+                            .sort((a, b) => b[1] - a[1])
+                            .map(([position, seconds]) => (
+                              <div key={position} className="position-time-item">
+                                <span className="position-name">{position}</span>
+                                <span className="position-time">{formatPlayTime(seconds, 'long')}</span>
+                              </div>
+                            ))}
+                        </div>
                       </div>
-                    </div>
-                  )}
-
-                  {/* Goals */}
-                  {playerDetails.goals.length > 0 && (
-                    <div className="details-card">
-                      <h3>⚽ Goals ({playerDetails.goals.length})</h3>
-                      <div className="event-list">
-                        {playerDetails.goals.map((goal, idx) => (
-                          <div key={idx} className="event-item">
-                            <span className="event-game">
-                              vs {goal.game.opponent} ({goal.game.gameDate ? new Date(goal.game.gameDate).toLocaleDateString() : 'N/A'})
-                            </span>
-                            <span className="event-time">
-                              {goal.minute}' (Half {goal.half})
-                            </span>
+                    )}
+
+                    {/* On-field goal differential */}
+                    {playerDetails.plusMinus.per60 !== null && (
+                      <div className="details-card">
+                        <h3>➕ On-Field Goals</h3>
+                        <div className="position-time-list">
+                          <div className="position-time-item">
+                            <span className="position-name">Scored while on</span>
+                            <span className="position-time">{playerDetails.plusMinus.goalsFor}</span>
                           </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Assists */}
-                  {playerDetails.assists.length > 0 && (
-                    <div className="details-card">
-                      <h3>🎯 Assists ({playerDetails.assists.length})</h3>
-                      <div className="event-list">
-                        {playerDetails.assists.map((assist, idx) => (
-                          <div key={idx} className="event-item">
-                            <span className="event-game">
-                              vs {assist.game.opponent} ({assist.game.gameDate ? new Date(assist.game.gameDate).toLocaleDateString() : 'N/A'})
-                            </span>
-                            <span className="event-time">
-                              {assist.minute}' (Half {assist.half})
-                            </span>
+                          <div className="position-time-item">
+                            <span className="position-name">Conceded while on</span>
+                            <span className="position-time">{playerDetails.plusMinus.goalsAgainst}</span>
                           </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Gold Stars */}
-                  {playerDetails.goldStars.length > 0 && (
-                    <div className="details-card">
-                      <h3>⭐ Gold Stars ({playerDetails.goldStars.length})</h3>
-                      <div className="event-list">
-                        {playerDetails.goldStars.map((star, idx) => (
-                          <div key={idx} className="event-item">
-                            <span className="event-game">
-                              vs {star.game.opponent} ({star.game.gameDate ? new Date(star.game.gameDate).toLocaleDateString() : 'N/A'})
-                            </span>
-                            <span className="event-time">
-                              {star.minute}' (Half {star.half})
-                            </span>
+                          <div className="position-time-item">
+                            <span className="position-name">Plus/minus</span>
+                            <span className="position-time">{formatPlusMinus(playerDetails.plusMinus.plusMinus)}</span>
                           </div>
-                        ))}
-                      </div>
-                    </div>
-                  )}
-
-                  {/* Yellow Cards */}
-                  {playerDetails.yellowCards.length > 0 && (
-                    <div className="details-card">
-                      <h3>🟨 Yellow Cards ({playerDetails.yellowCards.length})</h3>
-                      <div className="event-list">
-                        {playerDetails.yellowCards.map((card, idx) => (
-                          <div key={idx} className="event-item">
-                            <span className="event-game">
-                              vs {card.game.opponent} ({card.game.gameDate ? new Date(card.game.gameDate).toLocaleDateString() : 'N/A'})
-                            </span>
-                            <span className="event-time">
-                              {card.minute}' (Half {card.half})
-                            </span>
+                          <div className="position-time-item">
+                            <span className="position-name">Per 60 minutes</span>
+                            <span className="position-time">{formatPlusMinus(playerDetails.plusMinus.per60)}</span>
                           </div>
-                        ))}
+                        </div>
                       </div>
-                    </div>
-                  )}
-
-                  {/* Red Cards */}
-                  {playerDetails.redCards.length > 0 && (
-                    <div className="details-card">
-                      <h3>🟥 Red Cards ({playerDetails.redCards.length})</h3>
-                      <div className="event-list">
-                        {playerDetails.redCards.map((card, idx) => (
-                          <div key={idx} className="event-item">
-                            <span className="event-game">
-                              vs {card.game.opponent} ({card.game.gameDate ? new Date(card.game.gameDate).toLocaleDateString() : 'N/A'})
-                            </span>
-                            <span className="event-time">
-                              {card.minute}' (Half {card.half})
-                            </span>
-                          </div>
-                        ))}
+                    )}
+
+                    {/* Shooting and goalkeeping */}
+                    {(playerDetails.shots.shots > 0 || playerDetails.keeper.savePercentage !== null) && (
+                      <div className="details-card">
+                        <h3>🥅 Shots &amp; Saves</h3>
+                        <div className="position-time-list">
+                          {playerDetails.shots.shots > 0 && (
+                            <>
+                              <div className="position-time-item">
+                                <span className="position-name">Shots</span>
+                                <span className="position-time">{playerDetails.shots.shots}</span>
+                              </div>
+                              <div className="position-time-item">
+                                <span className="position-name">On target</span>
+                                <span className="position-time">{playerDetails.shots.shotsOnTarget}</span>
+                              </div>
+                            </>
+                          )}
+                          {playerDetails.keeper.savePercentage !== null && (
+                            <>
+                              <div className="position-time-item">
+                                <span className="position-name">Saves</span>
+                                <span className="position-time">{playerDetails.keeper.saves}</span>
+                              </div>
+                              <div className="position-time-item">
+                                <span className="position-name">Conceded in goal</span>
+                                <span className="position-time">{playerDetails.keeper.goalsAgainst}</span>
+                              </div>
+                              <div className="position-time-item">
+                                <span className="position-name">Save %</span>
+                                <span className="position-time">{playerDetails.keeper.savePercentage}%</span>
+                              </div>
+                            </>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  )}
-                </div>
-              ) : null}
-            </div>
+                    )}
+
+                    {/* Season by Season */}
+                    {playerDetails.seasonComparison.length > 0 && (
+                      <div className="details-card">
+                        <h3>📈 Season by Season</h3>
+                        <table className="stats-table season-comparison-table">
+                          <thead>
+                            <tr>
+                              <th className="player-name">Season</th>
+                              <th>GP</th>
+                              <th>Time</th>
+                              <th>⚽</th>
+                              <th>🎯</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {playerDetails.seasonComparison.map((row) => (
+                              <tr key={row.season.id} className={row.season.id === selectedSeasonId ? 'selected' : ''}>
+                                <td className="player-name">{row.season.name}</td>
+                                <td>{row.gamesPlayed}</td>
+                                <td>{formatPlayTime(row.totalPlayTimeSeconds, 'long')}</td>
+                                <td>{row.goals || '-'}</td>
+                                <td>{row.assists || '-'}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </div>
+                    )}
+
+                    {/* Goals */}
+                    {playerDetails.goals.length > 0 && (
+                      <div className="details-card">
+                        <h3>⚽ Goals ({playerDetails.goals.length})</h3>
+                        <div className="event-list">
+                          {playerDetails.goals.map((goal, idx) => (
+                            <div key={idx} className="event-item">
+                              <span className="event-game">
+                                vs {goal.game.opponent} ({goal.game.gameDate ? new Date(goal.game.gameDate).toLocaleDateString() : 'N/A'})
+                              </span>
+                              <span className="event-time">
+                                {goal.minute} ({formatPeriodLabel(goal.half, periodCount)})
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Assists */}
+                    {playerDetails.assists.length > 0 && (
+                      <div className="details-card">
+                        <h3>🎯 Assists ({playerDetails.assists.length})</h3>
+                        <div className="event-list">
+                          {playerDetails.assists.map((assist, idx) => (
+                            <div key={idx} className="event-item">
+                              <span className="event-game">
+                                vs {assist.game.opponent} ({assist.game.gameDate ? new Date(assist.game.gameDate).toLocaleDateString() : 'N/A'})
+                              </span>
+                              <span className="event-time">
+                                {assist.minute} ({formatPeriodLabel(assist.half, periodCount)})
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Gold Stars */}
+                    {playerDetails.goldStars.length > 0 && (
+                      <div className="details-card">
+                        <h3>⭐ Gold Stars ({playerDetails.goldStars.length})</h3>
+                        <div className="event-list">
+                          {playerDetails.goldStars.map((star, idx) => (
+                            <div key={idx} className="event-item">
+                              <span className="event-game">
+                                vs {star.game.opponent} ({star.game.gameDate ? new Date(star.game.gameDate).toLocaleDateString() : 'N/A'})
+                              </span>
+                              <span className="event-time">
+                                {star.minute} ({formatPeriodLabel(star.half, periodCount)})
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Yellow Cards */}
+                    {playerDetails.yellowCards.length > 0 && (
+                      <div className="details-card">
+                        <h3>🟨 Yellow Cards ({playerDetails.yellowCards.length})</h3>
+                        <div className="event-list">
+                          {playerDetails.yellowCards.map((card, idx) => (
+                            <div key={idx} className="event-item">
+                              <span className="event-game">
+                                vs {card.game.opponent} ({card.game.gameDate ? new Date(card.game.gameDate).toLocaleDateString() : 'N/A'})
+                              </span>
+                              <span className="event-time">
+                                {card.minute} ({formatPeriodLabel(card.half, periodCount)})
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+
+                    {/* Red Cards */}
+                    {playerDetails.redCards.length > 0 && (
+                      <div className="details-card">
+                        <h3>🟥 Red Cards ({playerDetails.redCards.length})</h3>
+                        <div className="event-list">
+                          {playerDetails.redCards.map((card, idx) => (
+                            <div key={idx} className="event-item">
+                              <span className="event-game">
+                                vs {card.game.opponent} ({card.game.gameDate ? new Date(card.game.gameDate).toLocaleDateString() : 'N/A'})
+                              </span>
+                              <span className="event-time">
+                                {card.minute} ({formatPeriodLabel(card.half, periodCount)})
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                ) : null}
+              </div>
+            )}
+            </>
           )}
+
+          {reportTab === 'combinations' && (
+            <LineupCombinations
+              games={allGames}
+              playTimeRecords={seasonPlayTimeRecords}
+              goals={allGoals}
+              positions={positionsById}
+              playerLabels={playerLabels}
+            />
+          )}
+
+          {reportTab === 'match' && (
+            <MatchStats games={allGames} goals={allGoals} gameEvents={allEvents} />
+          )}
+
+          {reportTab === 'practice' && (
+            <PracticeAttendanceReport
+              practices={seasonPractices}
+              attendance={practiceAttendance}
+              playerLabels={playerLabels}
+            />
+          )}
+
+          {/* Head-to-head history spans every season */}
+          <HeadToHead team={team} games={teamGames} notes={allNotes} />
         </div>
       )}
     </div>
@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const { mockDownload, mockTrackEvent } = vi.hoisted(() => ({
+  mockDownload: vi.fn(),
+  mockTrackEvent: vi.fn(),
+}));
+
+vi.mock('../utils/reportExportUtils', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('../utils/reportExportUtils')>()),
+  downloadTextFile: mockDownload,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showWarning: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: mockTrackEvent,
+  AnalyticsEvents: { SEASON_REPORT_EXPORTED: { category: 'report', action: 'export' } },
+}));
+
+import { SeasonReportExport } from './SeasonReportExport';
+import { showWarning } from '../utils/toast';
+
+const summary = {
+  teamName: 'Eagles',
+  seasonName: 'Fall 2025',
+  record: { wins: 1, losses: 0, ties: 0 },
+  completedGames: 1,
+  generatedAt: new Date('2025-11-01T12:00:00Z'),
+};
+
+const rows = [{
+  playerNumber: 10,
+  playerName: 'Sam Lee',
+  gamesPlayed: 1,
+  totalPlayTimeSeconds: 1800,
+  goals: 1,
+  assists: 0,
+  goldStars: 0,
+  yellowCards: 0,
+  redCards: 0,
+  playTimeByPosition: new Map([['Forward', 1800]]),
+}];
+
+describe('SeasonReportExport', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('downloads the player table and the position breakdown as CSV', async () => {
+    const user = userEvent.setup();
+    render(<SeasonReportExport summary={summary} rows={rows} />);
+
+    await user.click(screen.getByText('⬇️ Player CSV'));
+    expect(mockDownload).toHaveBeenCalledWith(
+      'eagles-fall-2025-player-stats.csv',
+      expect.stringContaining('10,Sam Lee,1,30,30,1,0,0,0,0'),
+      'text/csv;charset=utf-8',
+    );
+
+    await user.click(screen.getByText('⬇️ Positions CSV'));
+    expect(mockDownload).toHaveBeenCalledWith(
+      'eagles-fall-2025-positions.csv',
+      expect.stringContaining('10,Sam Lee,Forward,30,100'),
+      'text/csv;charset=utf-8',
+    );
+    expect(mockTrackEvent).toHaveBeenCalledWith('report', 'export', 'position-csv');
+  });
+
+  it('writes the printable summary into a new window and prints it', async () => {
+    const user = userEvent.setup();
+    const printWindow = {
+      document: { write: vi.fn(), close: vi.fn() },
+      focus: vi.fn(),
+      print: vi.fn(),
+    };
+    const openSpy = vi.spyOn(window, 'open').mockReturnValue(printWindow as unknown as Window);
+    render(<SeasonReportExport summary={summary} rows={rows} />);
+
+    await user.click(screen.getByText('🖨️ Print / PDF'));
+
+    expect(printWindow.document.write).toHaveBeenCalledWith(expect.stringContaining('Eagles — Fall 2025 Report'));
+    expect(printWindow.print).toHaveBeenCalled();
+    openSpy.mockRestore();
+  });
+
+  it('warns when the browser blocks the print window', async () => {
+    const user = userEvent.setup();
+    const openSpy = vi.spyOn(window, 'open').mockReturnValue(null);
+    render(<SeasonReportExport summary={summary} rows={rows} />);
+
+    await user.click(screen.getByText('🖨️ Print / PDF'));
+
+    expect(showWarning).toHaveBeenCalledWith('Allow pop-ups for this site to print the report');
+    openSpy.mockRestore();
+  });
+});
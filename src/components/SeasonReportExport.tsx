@@ -0,0 +1,71 @@
+import {
+  buildExportFilename,
+  buildPlayerStatsCsv,
+  buildPositionBreakdownCsv,
+  buildPrintableReportHtml,
+  downloadTextFile,
+  type ReportExportRow,
+  type ReportExportSummary,
+} from '../utils/reportExportUtils';
+import { showWarning } from '../utils/toast';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+
+interface SeasonReportExportProps {
+  summary: ReportExportSummary;
+  rows: ReportExportRow[];
+}
+
+/**
+ * Export buttons for the season report: player table CSV, minutes-per-position
+ * CSV and a printable summary the browser can save as PDF.
+ */
+export function SeasonReportExport({ summary, rows }: SeasonReportExportProps) {
+  const track = (format: string) => {
+    trackEvent(AnalyticsEvents.SEASON_REPORT_EXPORTED.category, AnalyticsEvents.SEASON_REPORT_EXPORTED.action, format);
+  };
+
+  const handlePlayerCsv = () => {
+    downloadTextFile(
+      buildExportFilename(summary.teamName, summary.seasonName, 'player-stats', 'csv'),
+      buildPlayerStatsCsv(rows),
+      'text/csv;charset=utf-8',
+    );
+    track('player-csv');
+  };
+
+  const handlePositionCsv = () => {
+    downloadTextFile(
+      buildExportFilename(summary.teamName, summary.seasonName, 'positions', 'csv'),
+      buildPositionBreakdownCsv(rows),
+      'text/csv;charset=utf-8',
+    );
+    track('position-csv');
+  };
+
+  const handlePrint = () => {
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      showWarning('Allow pop-ups for this site to print the report');
+      return;
+    }
+    printWindow.document.write(buildPrintableReportHtml(summary, rows));
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+    track('print');
+  };
+
+  return (
+    <div className="report-export">
+      <button onClick={handlePlayerCsv} className="btn-secondary">
+        ⬇️ Player CSV
+      </button>
+      <button onClick={handlePositionCsv} className="btn-secondary">
+        ⬇️ Positions CSV
+      </button>
+      <button onClick={handlePrint} className="btn-secondary">
+        🖨️ Print / PDF
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,99 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const { mockRollover, mockConfirm } = vi.hoisted(() => ({
+  mockRollover: vi.fn(),
+  mockConfirm: vi.fn(),
+}));
+
+vi.mock('../services/seasonService', () => ({
+  rolloverSeason: mockRollover,
+}));
+
+vi.mock('./ConfirmModal', () => ({
+  useConfirm: () => mockConfirm,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showWarning: vi.fn(),
+  showSuccess: vi.fn(),
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  handleApiError: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: { SEASON_ROLLED_OVER: { category: 'report', action: 'rollover' } },
+}));
+
+import { SeasonRolloverForm } from './SeasonRolloverForm';
+import { showSuccess, showWarning } from '../utils/toast';
+
+const team = { id: 'team-1', name: 'Eagles', coaches: ['coach-1'], currentSeasonId: null } as any;
+const games = [{ id: 'g1', teamId: 'team-1', status: 'completed' }] as any[];
+const rosters = [{ id: 'r1', teamId: 'team-1', playerId: 'p1', playerNumber: 10 }] as any[];
+const spring = { id: 'spring', teamId: 'team-1', name: 'Spring 2026' };
+
+describe('SeasonRolloverForm', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockConfirm.mockResolvedValue(true);
+    mockRollover.mockResolvedValue({ season: spring, archivedGames: 1, movedGames: 0 });
+  });
+
+  it('requires a season name', async () => {
+    const user = userEvent.setup();
+    render(<SeasonRolloverForm team={team} currentSeason={null} games={games} rosters={rosters} onRolledOver={vi.fn()} onCancel={vi.fn()} />);
+
+    await user.click(screen.getByText('Start Season'));
+
+    expect(showWarning).toHaveBeenCalledWith('Please enter a name for the new season');
+    expect(mockRollover).not.toHaveBeenCalled();
+  });
+
+  it('names past games and starts the new season after confirmation', async () => {
+    const user = userEvent.setup();
+    const onRolledOver = vi.fn();
+    render(<SeasonRolloverForm team={team} currentSeason={null} games={games} rosters={rosters} onRolledOver={onRolledOver} onCancel={vi.fn()} />);
+
+    await user.type(screen.getByPlaceholderText('Season Name * (e.g. Spring 2026)'), 'Spring 2026');
+    await user.type(screen.getByPlaceholderText('Name for past games (e.g. Fall 2025)'), 'Fall 2025');
+    await user.click(screen.getByText('Start Season'));
+
+    expect(mockConfirm).toHaveBeenCalledWith(expect.objectContaining({
+      message: 'Start Spring 2026? Completed games are archived in Fall 2025 and the roster carries forward.',
+    }));
+    await waitFor(() => {
+      expect(onRolledOver).toHaveBeenCalledWith(spring);
+    });
+    expect(mockRollover).toHaveBeenCalledWith(
+      team,
+      null,
+      { name: 'Spring 2026', startDate: '', endDate: '' },
+      games,
+      rosters,
+      'Fall 2025',
+      [],
+    );
+    expect(showSuccess).toHaveBeenCalledWith('Spring 2026 started (1 game archived)');
+  });
+
+  it('does not ask for a past-games name when the team already has a season', () => {
+    render(
+      <SeasonRolloverForm
+        team={{ ...team, currentSeasonId: 'fall' }}
+        currentSeason={{ id: 'fall', name: 'Fall 2025' } as any}
+        games={games}
+        rosters={rosters}
+        onRolledOver={vi.fn()}
+        onCancel={vi.fn()}
+      />
+    );
+
+    expect(screen.queryByPlaceholderText('Name for past games (e.g. Fall 2025)')).not.toBeInTheDocument();
+  });
+});
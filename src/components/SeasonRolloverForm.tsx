@@ -0,0 +1,110 @@
+import { useState } from 'react';
+import type { Game, PracticeSession, Season, Team, TeamRoster } from '../types/schema';
+import { rolloverSeason } from '../services/seasonService';
+import { showWarning, showSuccess } from '../utils/toast';
+import { handleApiError } from '../utils/errorHandler';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+import { useConfirm } from './ConfirmModal';
+
+interface SeasonRolloverFormProps {
+  team: Team;
+  currentSeason: Season | null;
+  games: Game[];
+  rosters: TeamRoster[];
+  practices?: PracticeSession[];
+  onRolledOver: (season: Season) => void;
+  onCancel: () => void;
+}
+
+/**
+ * Closes the current season and starts the next one with the same roster.
+ * Completed games are archived with the closing season; unplayed games move on.
+ */
+export function SeasonRolloverForm({ team, currentSeason, games, rosters, practices = [], onRolledOver, onCancel }: SeasonRolloverFormProps) {
+  const confirm = useConfirm();
+  const [name, setName] = useState('');
+  const [startDate, setStartDate] = useState('');
+  const [endDate, setEndDate] = useState('');
+  const [closingName, setClosingName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Teams that played before seasons existed name the season their old games belong to
+  const needsClosingName = !currentSeason && (games.length > 0 || practices.length > 0);
+
+  const handleRollover = async () => {
+    if (!name.trim()) {
+      showWarning('Please enter a name for the new season');
+      return;
+    }
+
+    const closingLabel = currentSeason?.name ?? (closingName.trim() || 'Earlier games');
+    const confirmed = await confirm({
+      title: 'Start New Season',
+      message: needsClosingName || currentSeason
+        ? `Start ${name.trim()}? Completed games are archived in ${closingLabel} and the roster carries forward.`
+        : `Start ${name.trim()}? The roster carries forward.`,
+      confirmText: 'Start Season',
+    });
+    if (!confirmed) return;
+
+    setIsSaving(true);
+    try {
+      const result = await rolloverSeason(
+        team,
+        currentSeason,
+        { name, startDate, endDate },
+        games,
+        rosters,
+        closingName.trim() || undefined,
+        practices,
+      );
+      trackEvent(AnalyticsEvents.SEASON_ROLLED_OVER.category, AnalyticsEvents.SEASON_ROLLED_OVER.action);
+      showSuccess(`${result.season.name} started (${result.archivedGames} game${result.archivedGames === 1 ? '' : 's'} archived)`);
+      onRolledOver(result.season);
+    } catch (error) {
+      handleApiError(error, 'Failed to start new season');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="create-form season-rollover-form">
+      <h3>New Season</h3>
+      <input
+        type="text"
+        placeholder="Season Name * (e.g. Spring 2026)"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        maxLength={100}
+      />
+      <div className="tournament-form__dates">
+        <label>
+          Starts
+          <input type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+        </label>
+        <label>
+          Ends
+          <input type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+        </label>
+      </div>
+      {needsClosingName && (
+        <input
+          type="text"
+          placeholder="Name for past games (e.g. Fall 2025)"
+          value={closingName}
+          onChange={(e) => setClosingName(e.target.value)}
+          maxLength={100}
+        />
+      )}
+      <div className="form-actions">
+        <button onClick={handleRollover} className="btn-primary" disabled={isSaving}>
+          {isSaving ? 'Starting…' : 'Start Season'}
+        </button>
+        <button onClick={onCancel} className="btn-secondary" disabled={isSaving}>
+          Cancel
+        </button>
+      </div>
+    </div>
+  );
+}
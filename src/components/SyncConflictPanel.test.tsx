@@ -0,0 +1,56 @@
+import { describe, it, expect, vi } from 'vitest';
+import { render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { SyncConflictPanel } from './SyncConflictPanel';
+import type { SyncConflict } from '../services/offlineQueueService';
+
+function conflict(overrides: Partial<SyncConflict> = {}): SyncConflict {
+  return {
+    id: 'q1',
+    mutation: {
+      id: 'q1',
+      model: 'Game',
+      operation: 'update',
+      payload: { id: 'g1', status: 'completed' },
+      enqueuedAt: 1,
+      retryCount: 0,
+    },
+    fields: [{ field: 'status', local: 'completed', server: 'in-progress' }],
+    mergedPayload: { id: 'g1' },
+    serverUpdatedAt: '2026-05-01T10:05:00.000Z',
+    detectedAt: 2,
+    ...overrides,
+  };
+}
+
+describe('SyncConflictPanel', () => {
+  it('renders nothing without conflicts', () => {
+    const { container } = render(<SyncConflictPanel conflicts={[]} onResolve={vi.fn()} />);
+    expect(container).toBeEmptyDOMElement();
+  });
+
+  it('shows both values of each disputed field and resolves with the chosen side', async () => {
+    const onResolve = vi.fn().mockResolvedValue(undefined);
+    render(<SyncConflictPanel conflicts={[conflict()]} onResolve={onResolve} />);
+
+    const panel = screen.getByLabelText('Sync conflicts');
+    expect(panel).toHaveTextContent('Another coach changed this game while you were offline');
+    expect(panel).toHaveTextContent('Status: yours completed, theirs in progress');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Keep mine' }));
+    expect(onResolve).toHaveBeenCalledWith('q1', 'keep-mine');
+
+    await userEvent.click(screen.getByRole('button', { name: 'Keep theirs' }));
+    expect(onResolve).toHaveBeenCalledWith('q1', 'keep-theirs');
+  });
+
+  it('only offers to discard changes to a game that no longer exists', async () => {
+    const onResolve = vi.fn().mockResolvedValue(undefined);
+    render(<SyncConflictPanel conflicts={[conflict({ fields: [], serverUpdatedAt: null })]} onResolve={onResolve} />);
+
+    expect(screen.getByText(/no longer exists/)).toBeInTheDocument();
+    expect(screen.queryByRole('button', { name: 'Keep mine' })).not.toBeInTheDocument();
+    await userEvent.click(screen.getByRole('button', { name: 'Discard' }));
+    expect(onResolve).toHaveBeenCalledWith('q1', 'keep-theirs');
+  });
+});
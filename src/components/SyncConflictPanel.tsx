@@ -0,0 +1,94 @@
+import { useState } from 'react';
+import type { SyncConflict } from '../services/offlineQueueService';
+import type { ConflictChoice } from '../services/offlineConflictService';
+import { handleApiError } from '../utils/errorHandler';
+import './SyncConflictPanel.css';
+
+interface SyncConflictPanelProps {
+  conflicts: SyncConflict[];
+  onResolve: (id: string, choice: ConflictChoice) => Promise<void>;
+}
+
+const FIELD_LABELS: Record<string, string> = {
+  status: 'Status',
+  currentHalf: 'Period',
+  lastStartTime: 'Clock started',
+  addedTimeMode: 'Added time mode',
+  shootoutOurScore: 'Our shootout score',
+  shootoutOpponentScore: 'Their shootout score',
+};
+
+function formatValue(field: string, value: unknown): string {
+  if (value === null || value === undefined) return '—';
+  if (typeof value === 'boolean') return value ? 'On' : 'Off';
+  if (field === 'lastStartTime' && typeof value === 'string') {
+    return new Date(value).toLocaleTimeString([], { hour: 'numeric', minute: '2-digit' });
+  }
+  if (field === 'status' && typeof value === 'string') return value.replace('-', ' ');
+  return String(value);
+}
+
+/**
+ * Lists queued game updates that clashed with another coach's changes and
+ * lets the coach keep their own values or the server's for each one
+ */
+export function SyncConflictPanel({ conflicts, onResolve }: SyncConflictPanelProps) {
+  const [resolvingId, setResolvingId] = useState<string | null>(null);
+
+  if (conflicts.length === 0) return null;
+
+  const resolve = async (id: string, choice: ConflictChoice) => {
+    setResolvingId(id);
+    try {
+      await onResolve(id, choice);
+    } catch (error) {
+      handleApiError(error, 'Failed to resolve the sync conflict');
+    } finally {
+      setResolvingId(null);
+    }
+  };
+
+  return (
+    <section className="sync-conflicts" aria-label="Sync conflicts">
+      <p className="sync-conflicts__title">
+        ⚠️ Another coach changed this game while you were offline
+      </p>
+      {conflicts.map((conflict) => (
+        <div key={conflict.id} className="sync-conflicts__item">
+          {conflict.fields.length === 0 ? (
+            <p>This game no longer exists, so your offline changes to it can't be saved.</p>
+          ) : (
+            <ul className="sync-conflicts__fields">
+              {conflict.fields.map(({ field, local, server }) => (
+                <li key={field}>
+                  <strong>{FIELD_LABELS[field] ?? field}:</strong>{' '}
+                  yours {formatValue(field, local)}, theirs {formatValue(field, server)}
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="sync-conflicts__actions">
+            {conflict.fields.length > 0 && (
+              <button
+                type="button"
+                className="btn-secondary"
+                onClick={() => void resolve(conflict.id, 'keep-mine')}
+                disabled={resolvingId !== null}
+              >
+                Keep mine
+              </button>
+            )}
+            <button
+              type="button"
+              className="btn-secondary"
+              onClick={() => void resolve(conflict.id, 'keep-theirs')}
+              disabled={resolvingId !== null}
+            >
+              {conflict.fields.length > 0 ? 'Keep theirs' : 'Discard'}
+            </button>
+          </div>
+        </div>
+      ))}
+    </section>
+  );
+}
@@ -0,0 +1,186 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+
+const {
+  mockNavigate,
+  mockConfirm,
+  mockCopyGamePlan,
+  mockFetchRunningMinutes,
+  mockSaveAvailability,
+  mockDeleteTournament,
+  queryResults,
+} = vi.hoisted(() => ({
+  mockNavigate: vi.fn(),
+  mockConfirm: vi.fn(),
+  mockCopyGamePlan: vi.fn(),
+  mockFetchRunningMinutes: vi.fn(),
+  mockSaveAvailability: vi.fn(),
+  mockDeleteTournament: vi.fn(),
+  queryResults: { Game: [] as object[], GamePlan: [] as object[] },
+}));
+
+vi.mock('react-router-dom', () => ({
+  useNavigate: () => mockNavigate,
+}));
+
+vi.mock('../hooks/useAmplifyQuery', () => ({
+  useAmplifyQuery: (modelName: 'Game' | 'GamePlan') => ({ data: queryResults[modelName], isSynced: true }),
+}));
+
+vi.mock('../hooks/useTeamData', () => ({
+  useTeamData: () => ({
+    players: [
+      { id: 'p1', playerNumber: 10, firstName: 'Alice', lastName: 'Smith' },
+      { id: 'p2', playerNumber: 7, firstName: 'Bob', lastName: 'Jones' },
+    ],
+    positions: [],
+  }),
+}));
+
+vi.mock('./ConfirmModal', () => ({
+  useConfirm: () => mockConfirm,
+}));
+
+vi.mock('../services/rotationPlannerService', () => ({
+  copyGamePlan: mockCopyGamePlan,
+  fetchTournamentRunningMinutes: mockFetchRunningMinutes,
+}));
+
+vi.mock('../services/tournamentService', () => ({
+  saveTournamentAvailability: mockSaveAvailability,
+  deleteTournament: mockDeleteTournament,
+}));
+
+vi.mock('../utils/toast', () => ({
+  showSuccess: vi.fn(),
+  showWarning: vi.fn(),
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  handleApiError: vi.fn(),
+  logError: vi.fn(),
+}));
+
+vi.mock('../utils/analytics', () => ({
+  trackEvent: vi.fn(),
+  AnalyticsEvents: {
+    COPY_PLAN_FROM_GAME: { category: 'plan', action: 'copy' },
+    TOURNAMENT_AVAILABILITY_SAVED: { category: 'tournament', action: 'availability' },
+  },
+}));
+
+import { TournamentSummary } from './TournamentSummary';
+import { showWarning } from '../utils/toast';
+
+const team = { id: 'team-1', name: 'Eagles', coaches: ['coach-1'], halfLengthMinutes: 20 } as any;
+const tournament = {
+  id: 'tournament-1',
+  teamId: 'team-1',
+  name: 'Fall Cup',
+  format: 'pool',
+  startDate: '2025-10-04',
+  availability: JSON.stringify([{ playerId: 'p2', status: 'absent' }]),
+  coaches: ['coach-1'],
+} as any;
+
+const game = (overrides: Record<string, unknown>) => ({
+  teamId: 'team-1',
+  tournamentId: 'tournament-1',
+  status: 'scheduled',
+  ourScore: 0,
+  opponentScore: 0,
+  ...overrides,
+});
+
+const renderSummary = (overrides: Record<string, unknown> = {}) => {
+  const onBack = vi.fn();
+  render(<TournamentSummary tournament={{ ...tournament, ...overrides }} team={team} onBack={onBack} />);
+  return { onBack };
+};
+
+describe('TournamentSummary', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    queryResults.Game = [
+      game({ id: 'g1', opponent: 'Hawks', tournamentStage: 'Pool A', gameDate: '2025-10-04T09:00:00Z', status: 'completed', ourScore: 2, opponentScore: 1 }),
+      game({ id: 'g2', opponent: 'Owls', tournamentStage: 'Pool A', gameDate: '2025-10-04T11:00:00Z', status: 'completed', ourScore: 1, opponentScore: 1, shootoutOurScore: 3, shootoutOpponentScore: 4 }),
+      game({ id: 'g3', opponent: 'Falcons', tournamentStage: 'Final', gameDate: '2025-10-04T15:00:00Z' }),
+    ];
+    queryResults.GamePlan = [];
+    mockFetchRunningMinutes.mockResolvedValue(new Map([['p1', 40], ['p2', 25.4]]));
+    mockSaveAvailability.mockResolvedValue(1);
+  });
+
+  it('shows the overall record and each pool with its results', () => {
+    renderSummary();
+
+    expect(screen.getByText('🏆 Fall Cup')).toBeInTheDocument();
+    expect(screen.getByLabelText('Tournament record')).toHaveTextContent('1W – 1L – 0T');
+    expect(screen.getByText('Pool Results')).toBeInTheDocument();
+    expect(screen.getByText(/1W 1L 0T • GF 3 GA 2/)).toBeInTheDocument();
+    expect(screen.getByText('1 – 1 (3–4 pens)')).toBeInTheDocument();
+    expect(screen.getByText('Final')).toBeInTheDocument();
+  });
+
+  it('labels the results as a bracket for knockout tournaments', () => {
+    renderSummary({ format: 'bracket' });
+    expect(screen.getByText('Bracket')).toBeInTheDocument();
+  });
+
+  it('lists running minutes per player across the tournament', async () => {
+    renderSummary();
+
+    await waitFor(() => expect(screen.getByText('40 min')).toBeInTheDocument());
+    expect(screen.getByText('25 min')).toBeInTheDocument();
+    expect(mockFetchRunningMinutes).toHaveBeenCalledWith(
+      expect.arrayContaining([expect.objectContaining({ id: 'g1' })]),
+      20,
+      2,
+    );
+  });
+
+  it('saves the event availability for every player', async () => {
+    const user = userEvent.setup();
+    renderSummary();
+
+    await user.selectOptions(screen.getAllByRole('combobox')[0], 'injured');
+    await user.click(screen.getByText('Save Availability'));
+
+    expect(mockSaveAvailability).toHaveBeenCalledWith(
+      expect.objectContaining({ id: 'tournament-1' }),
+      [{ playerId: 'p1', status: 'injured' }, { playerId: 'p2', status: 'absent' }],
+      queryResults.Game,
+    );
+  });
+
+  it('copies the previous game plan into an unplanned game', async () => {
+    const user = userEvent.setup();
+    mockCopyGamePlan.mockResolvedValue(null);
+    renderSummary();
+
+    await user.click(screen.getByText('Copy previous plan'));
+
+    expect(mockCopyGamePlan).toHaveBeenCalledWith('g2', 'g3', ['coach-1']);
+    expect(showWarning).toHaveBeenCalledWith('The game vs Owls has no plan yet');
+  });
+
+  it('hides the copy button once the game has a plan', () => {
+    queryResults.GamePlan = [{ id: 'plan-3', gameId: 'g3' }];
+    renderSummary();
+    expect(screen.queryByText('Copy previous plan')).not.toBeInTheDocument();
+  });
+
+  it('deletes the tournament after confirmation', async () => {
+    const user = userEvent.setup();
+    mockConfirm.mockResolvedValue(true);
+    mockDeleteTournament.mockResolvedValue(undefined);
+    const { onBack } = renderSummary();
+
+    await user.click(screen.getByText('Delete Tournament'));
+
+    await waitFor(() => expect(onBack).toHaveBeenCalled());
+    expect(mockDeleteTournament).toHaveBeenCalledWith('tournament-1', queryResults.Game);
+  });
+});
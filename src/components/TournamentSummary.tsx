@@ -0,0 +1,278 @@
+import { useEffect, useMemo, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import type { Game, Team, Tournament, TournamentAvailabilityEntry } from '../types/schema';
+import { useAmplifyQuery } from '../hooks/useAmplifyQuery';
+import { useTeamData } from '../hooks/useTeamData';
+import { useConfirm } from './ConfirmModal';
+import { copyGamePlan, fetchTournamentRunningMinutes } from '../services/rotationPlannerService';
+import { saveTournamentAvailability, deleteTournament } from '../services/tournamentService';
+import { calculateRecord, formatShootoutResult, getResultLabel } from '../utils/gameCalculations';
+import { groupTournamentGames, parseTournamentAvailability, sortTournamentGames } from '../utils/tournamentUtils';
+import { getPeriodCount } from '../utils/periodUtils';
+import { GAME_CONFIG } from '../constants/gameConfig';
+import { showSuccess, showWarning } from '../utils/toast';
+import { handleApiError, logError } from '../utils/errorHandler';
+import { trackEvent, AnalyticsEvents } from '../utils/analytics';
+
+type AvailabilityStatus = TournamentAvailabilityEntry['status'];
+
+const STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  'available': 'Available',
+  'absent': 'Absent',
+  'injured': 'Injured',
+  'late-arrival': 'Late arrival',
+};
+
+function formatKickOff(iso: string | null | undefined): string {
+  if (!iso) return 'Time TBD';
+  return new Date(iso).toLocaleString('en-US', {
+    weekday: 'short',
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+function formatDateRange(tournament: Tournament): string {
+  if (!tournament.startDate) return '';
+  if (!tournament.endDate || tournament.endDate === tournament.startDate) return tournament.startDate;
+  return `${tournament.startDate} – ${tournament.endDate}`;
+}
+
+interface TournamentSummaryProps {
+  tournament: Tournament;
+  team: Team;
+  onBack: () => void;
+}
+
+/**
+ * Tournament summary: pool or bracket results, running minutes across the
+ * event, and the one availability list that applies to every game.
+ */
+export function TournamentSummary({ tournament, team, onBack }: TournamentSummaryProps) {
+  const navigate = useNavigate();
+  const confirm = useConfirm();
+  const { players } = useTeamData(team.id, team.formationId);
+
+  const { data: games } = useAmplifyQuery('Game', {
+    filter: { tournamentId: { eq: tournament.id } },
+  }, [tournament.id]);
+  const { data: gamePlans } = useAmplifyQuery('GamePlan');
+
+  const [availability, setAvailability] = useState<Map<string, AvailabilityStatus>>(
+    () => new Map(parseTournamentAvailability(tournament.availability).map(e => [e.playerId, e.status]))
+  );
+  const [isSavingAvailability, setIsSavingAvailability] = useState(false);
+  const [runningMinutes, setRunningMinutes] = useState<Map<string, number>>(new Map());
+  const [copyingGameId, setCopyingGameId] = useState<string | null>(null);
+
+  const orderedGames = useMemo(() => sortTournamentGames(games), [games]);
+  const stages = useMemo(() => groupTournamentGames(games), [games]);
+  const record = calculateRecord(games);
+  const plannedGameIds = new Set(gamePlans.map(p => p.gameId));
+  const periodCount = getPeriodCount(team.gameFormat, team.periodCount);
+  const teamPeriodLength = team.halfLengthMinutes ?? GAME_CONFIG.DEFAULT_HALF_LENGTH_MINUTES;
+
+  // Re-total whenever a game changes state or a plan is added
+  const totalsKey = orderedGames.map(g => `${g.id}:${g.status}`).join(',') + `|${gamePlans.length}`;
+  useEffect(() => {
+    let cancelled = false;
+    fetchTournamentRunningMinutes(orderedGames, teamPeriodLength, periodCount)
+      .then((totals) => {
+        if (!cancelled) setRunningMinutes(totals);
+      })
+      .catch((error) => logError('TournamentSummary.runningMinutes', error));
+    return () => {
+      cancelled = true;
+    };
+  }, [totalsKey, teamPeriodLength, periodCount]); // eslint-disable-line react-hooks/exhaustive-deps
+
+  const openGame = (game: Game, plan = false) => {
+    void navigate(plan ? `/game/${game.id}/plan` : `/game/${game.id}`, {
+      state: JSON.parse(JSON.stringify({ game, team })),
+    });
+  };
+
+  const handleCopyPreviousPlan = async (game: Game, previous: Game) => {
+    setCopyingGameId(game.id);
+    try {
+      const plan = await copyGamePlan(previous.id, game.id, (team.coaches ?? []).filter((c): c is string => !!c));
+      if (!plan) {
+        showWarning(`The game vs ${previous.opponent} has no plan yet`);
+        return;
+      }
+      showSuccess(`Plan copied from the game vs ${previous.opponent}`);
+      trackEvent(AnalyticsEvents.COPY_PLAN_FROM_GAME.category, AnalyticsEvents.COPY_PLAN_FROM_GAME.action);
+    } catch (error) {
+      handleApiError(error, 'Failed to copy game plan');
+    } finally {
+      setCopyingGameId(null);
+    }
+  };
+
+  const handleSaveAvailability = async () => {
+    setIsSavingAvailability(true);
+    try {
+      const entries: TournamentAvailabilityEntry[] = players.map(p => ({
+        playerId: p.id,
+        status: availability.get(p.id) ?? 'available',
+      }));
+      const applied = await saveTournamentAvailability(tournament, entries, games);
+      trackEvent(AnalyticsEvents.TOURNAMENT_AVAILABILITY_SAVED.category, AnalyticsEvents.TOURNAMENT_AVAILABILITY_SAVED.action);
+      showSuccess(`Availability saved and applied to ${applied} upcoming game${applied === 1 ? '' : 's'}`);
+    } catch (error) {
+      handleApiError(error, 'Failed to save tournament availability');
+    } finally {
+      setIsSavingAvailability(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    const confirmed = await confirm({
+      title: 'Delete Tournament',
+      message: 'Delete this tournament? Its games are kept and move back to your regular games list.',
+      confirmText: 'Delete',
+      variant: 'danger',
+    });
+    if (!confirmed) return;
+    try {
+      await deleteTournament(tournament.id, games);
+      onBack();
+    } catch (error) {
+      handleApiError(error, 'Failed to delete tournament');
+    }
+  };
+
+  const minutesRows = players
+    .map(p => ({ player: p, minutes: Math.round(runningMinutes.get(p.id) ?? 0) }))
+    .sort((a, b) => b.minutes - a.minutes);
+
+  return (
+    <div className="tournament-summary">
+      <button onClick={onBack} className="btn-link">← Back to Games</button>
+
+      <header className="tournament-summary__header">
+        <h2>🏆 {tournament.name}</h2>
+        <p className="game-meta">
+          {[team.name, formatDateRange(tournament), tournament.location].filter(Boolean).join(' • ')}
+        </p>
+        <p className="tournament-summary__record" aria-label="Tournament record">
+          {record.wins}W – {record.losses}L – {record.ties}T
+        </p>
+      </header>
+
+      <section className="games-group">
+        <h3 className="games-group-title">
+          {tournament.format === 'bracket' ? 'Bracket' : 'Pool Results'}
+        </h3>
+        {games.length === 0 && <p className="empty-message">No games in this tournament yet.</p>}
+        <div className={tournament.format === 'bracket' ? 'tournament-bracket' : 'tournament-pools'}>
+          {stages.map((group) => (
+            <div key={group.stage} className="tournament-stage">
+              <h4 className="tournament-stage__title">
+                {group.stage}
+                {tournament.format !== 'bracket' && (
+                  <span className="tournament-stage__table">
+                    {group.record.wins}W {group.record.losses}L {group.record.ties}T
+                    {' • '}GF {group.goalsFor} GA {group.goalsAgainst}
+                  </span>
+                )}
+              </h4>
+              {group.games.map((game) => {
+                const result = getResultLabel(game);
+                const shootout = formatShootoutResult(game);
+                const isScheduled = (game.status || 'scheduled') === 'scheduled';
+                const index = orderedGames.findIndex(g => g.id === game.id);
+                const previous = index > 0 ? orderedGames[index - 1] : null;
+                return (
+                  <div key={game.id} className="tournament-game">
+                    <div className="tournament-game__info">
+                      <strong>
+                        {result && <span className={`tournament-result tournament-result--${result}`}>{result}</span>}
+                        {' '}vs {game.opponent}
+                      </strong>
+                      <span className="game-meta">
+                        {result
+                          ? `${game.ourScore ?? 0} – ${game.opponentScore ?? 0}${shootout ? ` (${shootout})` : ''}`
+                          : formatKickOff(game.gameDate)}
+                      </span>
+                    </div>
+                    <div className="tournament-game__actions">
+                      {isScheduled && (
+                        <button className="plan-button" onClick={() => openGame(game, true)}>
+                          📋 Plan
+                        </button>
+                      )}
+                      {isScheduled && previous && !plannedGameIds.has(game.id) && (
+                        <button
+                          className="btn-secondary"
+                          onClick={() => { void handleCopyPreviousPlan(game, previous); }}
+                          disabled={copyingGameId === game.id}
+                        >
+                          Copy previous plan
+                        </button>
+                      )}
+                      <button className="open-game-button" onClick={() => openGame(game)}>
+                        {result ? 'View' : '▶ Open'}
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </section>
+
+      <section className="games-group">
+        <h3 className="games-group-title">Minutes Across the Tournament</h3>
+        <p className="tournament-summary__note">
+          Played games count recorded minutes; upcoming games count their plan. Auto-generated
+          rotations use these totals to even out playing time over the whole event.
+        </p>
+        <table className="tournament-minutes">
+          <tbody>
+            {minutesRows.map(({ player, minutes }) => (
+              <tr key={player.id}>
+                <td>#{player.playerNumber} {player.firstName} {player.lastName}</td>
+                <td>{minutes} min</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </section>
+
+      <section className="games-group">
+        <h3 className="games-group-title">Availability for the Event</h3>
+        <div className="tournament-availability">
+          {players.map((player) => (
+            <label key={player.id} className="tournament-availability__row">
+              <span>#{player.playerNumber} {player.firstName} {player.lastName}</span>
+              <select
+                value={availability.get(player.id) ?? 'available'}
+                onChange={(e) => {
+                  const status = e.target.value as AvailabilityStatus;
+                  setAvailability(prev => new Map(prev).set(player.id, status));
+                }}
+              >
+                {(Object.keys(STATUS_LABELS) as AvailabilityStatus[]).map((status) => (
+                  <option key={status} value={status}>{STATUS_LABELS[status]}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+        <button
+          className="btn-primary"
+          onClick={() => { void handleSaveAvailability(); }}
+          disabled={isSavingAvailability || players.length === 0}
+        >
+          {isSavingAvailability ? 'Saving…' : 'Save Availability'}
+        </button>
+      </section>
+
+      <button className="btn-delete" onClick={() => { void handleDelete(); }}>
+        Delete Tournament
+      </button>
+    </div>
+  );
+}
@@ -323,6 +323,19 @@ describe('teamFormReducer', () => {
     expect(result.gameFormat).toBe(DEFAULT_FORM_VALUES.gameFormat);
   });
 
+  it('EDIT_TEAM loads the league rule profile and SET_LEAGUE_RULES replaces it', () => {
+    const team = {
+      name: 'Hawks',
+      maxPlayersOnField: 7,
+      leagueRules: JSON.stringify({ preset: 'min-play', rules: [] }),
+    } as any;
+    const edited = teamFormReducer(initialTeamForm, { type: 'EDIT_TEAM', team });
+    expect(edited.leagueRules).toEqual({ preset: 'min-play', rules: [{ type: 'min-play', value: 50 }] });
+
+    const custom = { preset: 'custom' as const, rules: [{ type: 'break-subs' as const }] };
+    expect(teamFormReducer(edited, { type: 'SET_LEAGUE_RULES', leagueRules: custom }).leagueRules).toBe(custom);
+  });
+
   it('TOGGLE_EXPAND toggles the expanded team id', () => {
     const result1 = teamFormReducer(initialTeamForm, { type: 'TOGGLE_EXPAND', teamId: 'team-1' });
     expect(result1.expandedTeamId).toBe('team-1');
@@ -351,6 +364,7 @@ describe('rosterFormReducer', () => {
       selectedPlayer: '',
       playerNumber: '',
       preferredPositions: [],
+      positionConstraints: [],
       editFirstName: '',
       editLastName: '',
     });
@@ -380,10 +394,19 @@ describe('rosterFormReducer', () => {
     expect(result.preferredPositions).toEqual(['GK', 'CB']);
   });
 
+  it('SET_POSITION_CONSTRAINTS replaces the constraints', () => {
+    const result = rosterFormReducer(initialRosterForm, {
+      type: 'SET_POSITION_CONSTRAINTS',
+      constraints: [{ group: 'GOALKEEPER', rule: 'never' }],
+    });
+    expect(result.positionConstraints).toEqual([{ group: 'GOALKEEPER', rule: 'never' }]);
+  });
+
   it('EDIT_ROSTER populates form from roster and player', () => {
     const roster = {
       playerNumber: 10,
       preferredPositions: 'GK, CB',
+      positionConstraints: JSON.stringify([{ group: 'STRIKER', rule: 'max', rotations: 2 }]),
       playerId: 'p-1',
     } as any;
     const result = rosterFormReducer(initialRosterForm, {
@@ -395,6 +418,7 @@ describe('rosterFormReducer', () => {
     expect(result.editing).toBe(roster);
     expect(result.playerNumber).toBe('10');
     expect(result.preferredPositions).toEqual(['GK', 'CB']);
+    expect(result.positionConstraints).toEqual([{ group: 'STRIKER', rule: 'max', rotations: 2 }]);
     expect(result.editFirstName).toBe('Alice');
     expect(result.editLastName).toBe('Smith');
     expect(result.isAdding).toBe(false);
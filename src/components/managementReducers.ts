@@ -1,5 +1,7 @@
 import { DEFAULT_FORM_VALUES } from '../constants/gameConfig';
-import type { Team, Player, TeamRoster, Formation } from '../types/schema';
+import type { Team, Player, TeamRoster, Formation, LeagueRuleProfile, PositionConstraint } from '../types/schema';
+import { parsePositionConstraints } from '../utils/positionConstraintUtils';
+import { NO_LEAGUE_RULES, parseLeagueRuleProfile } from '../utils/leagueRuleUtils';
 
 // ============================================================
 // Player Form Reducer
@@ -145,12 +147,18 @@ export interface TeamFormState {
   selectedFormation: string;
   sport: string;
   gameFormat: string;
+  periodCount: string;
+  fairnessWindow: string;
+  fairnessWindowGames: string;
+  starterRanking: string;
+  leagueRules: LeagueRuleProfile;
   expandedTeamId: string | null;
 }
 
 export type TeamFormAction =
   | { type: 'START_CREATE' }
-  | { type: 'SET_FIELD'; field: 'name' | 'maxPlayers' | 'halfLength' | 'selectedFormation' | 'sport' | 'gameFormat'; value: string }
+  | { type: 'SET_FIELD'; field: 'name' | 'maxPlayers' | 'halfLength' | 'selectedFormation' | 'sport' | 'gameFormat' | 'periodCount' | 'fairnessWindow' | 'fairnessWindowGames' | 'starterRanking'; value: string }
+  | { type: 'SET_LEAGUE_RULES'; leagueRules: LeagueRuleProfile }
   | { type: 'EDIT_TEAM'; team: Team }
   | { type: 'TOGGLE_EXPAND'; teamId: string }
   | { type: 'RESET' };
@@ -164,6 +172,11 @@ export const initialTeamForm: TeamFormState = {
   selectedFormation: '',
   sport: DEFAULT_FORM_VALUES.sport,
   gameFormat: DEFAULT_FORM_VALUES.gameFormat,
+  periodCount: DEFAULT_FORM_VALUES.periodCount,
+  fairnessWindow: DEFAULT_FORM_VALUES.fairnessWindow,
+  fairnessWindowGames: DEFAULT_FORM_VALUES.fairnessWindowGames,
+  starterRanking: DEFAULT_FORM_VALUES.starterRanking,
+  leagueRules: NO_LEAGUE_RULES,
   expandedTeamId: null,
 };
 
@@ -173,6 +186,8 @@ export function teamFormReducer(state: TeamFormState, action: TeamFormAction): T
       return { ...initialTeamForm, isCreating: true, expandedTeamId: state.expandedTeamId };
     case 'SET_FIELD':
       return { ...state, [action.field]: action.value };
+    case 'SET_LEAGUE_RULES':
+      return { ...state, leagueRules: action.leagueRules };
     case 'EDIT_TEAM':
       return {
         ...state,
@@ -184,6 +199,11 @@ export function teamFormReducer(state: TeamFormState, action: TeamFormAction): T
         selectedFormation: action.team.formationId || '',
         sport: action.team.sport || DEFAULT_FORM_VALUES.sport,
         gameFormat: action.team.gameFormat || DEFAULT_FORM_VALUES.gameFormat,
+        periodCount: (action.team.periodCount ?? parseInt(DEFAULT_FORM_VALUES.periodCount)).toString(),
+        fairnessWindow: action.team.fairnessWindow || DEFAULT_FORM_VALUES.fairnessWindow,
+        fairnessWindowGames: (action.team.fairnessWindowGames ?? parseInt(DEFAULT_FORM_VALUES.fairnessWindowGames)).toString(),
+        starterRanking: action.team.starterRanking || DEFAULT_FORM_VALUES.starterRanking,
+        leagueRules: parseLeagueRuleProfile(action.team.leagueRules),
       };
     case 'TOGGLE_EXPAND':
       return { ...state, expandedTeamId: state.expandedTeamId === action.teamId ? null : action.teamId };
@@ -204,6 +224,7 @@ export interface RosterFormState {
   selectedPlayer: string;
   playerNumber: string;
   preferredPositions: string[];
+  positionConstraints: PositionConstraint[];
   editFirstName: string;
   editLastName: string;
 }
@@ -212,6 +233,7 @@ export type RosterFormAction =
   | { type: 'START_ADD' }
   | { type: 'SET_FIELD'; field: 'selectedPlayer' | 'playerNumber' | 'editFirstName' | 'editLastName'; value: string }
   | { type: 'SET_PREFERRED_POSITIONS'; positions: string[] }
+  | { type: 'SET_POSITION_CONSTRAINTS'; constraints: PositionConstraint[] }
   | { type: 'EDIT_ROSTER'; roster: TeamRoster; firstName: string; lastName: string }
   | { type: 'RESET' };
 
@@ -221,6 +243,7 @@ export const initialRosterForm: RosterFormState = {
   selectedPlayer: '',
   playerNumber: '',
   preferredPositions: [],
+  positionConstraints: [],
   editFirstName: '',
   editLastName: '',
 };
@@ -233,6 +256,8 @@ export function rosterFormReducer(state: RosterFormState, action: RosterFormActi
       return { ...state, [action.field]: action.value };
     case 'SET_PREFERRED_POSITIONS':
       return { ...state, preferredPositions: action.positions };
+    case 'SET_POSITION_CONSTRAINTS':
+      return { ...state, positionConstraints: action.constraints };
     case 'EDIT_ROSTER':
       return {
         isAdding: false,
@@ -240,6 +265,7 @@ export function rosterFormReducer(state: RosterFormState, action: RosterFormActi
         selectedPlayer: '',
         playerNumber: action.roster.playerNumber?.toString() || '',
         preferredPositions: action.roster.preferredPositions ? action.roster.preferredPositions.split(', ') : [],
+        positionConstraints: parsePositionConstraints(action.roster.positionConstraints),
         editFirstName: action.firstName,
         editLastName: action.lastName,
       };
@@ -8,10 +8,11 @@ import type { Game, Team } from '../../types/schema';
 // Hoisted mocks
 // ---------------------------------------------------------------------------
 
-const { mockGameGet, mockTeamGet, mockNavigate } = vi.hoisted(() => ({
+const { mockGameGet, mockTeamGet, mockNavigate, mockGetCachedGameSnapshot } = vi.hoisted(() => ({
   mockGameGet: vi.fn(),
   mockTeamGet: vi.fn(),
   mockNavigate: vi.fn(),
+  mockGetCachedGameSnapshot: vi.fn(),
 }));
 
 vi.mock('aws-amplify/data', () => ({
@@ -37,6 +38,10 @@ vi.mock('../GameManagement', () => ({
   ),
 }));
 
+vi.mock('../../services/gameReadCacheService', () => ({
+  getCachedGameSnapshot: mockGetCachedGameSnapshot,
+}));
+
 vi.mock('../../utils/errorHandler', () => ({
   logError: vi.fn(),
   handleApiError: vi.fn(),
@@ -83,6 +88,8 @@ function setupNoState() {
 describe('GameManagementRoute', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.restoreAllMocks();
+    mockGetCachedGameSnapshot.mockResolvedValue(undefined);
   });
 
   it('renders GameManagement immediately when game + team are in location.state', () => {
@@ -161,4 +168,30 @@ describe('GameManagementRoute', () => {
     expect(mockGameGet).not.toHaveBeenCalled();
     expect(mockTeamGet).not.toHaveBeenCalled();
   });
+
+  it('opens the copy saved on this device when offline', async () => {
+    setupNoState();
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    mockGetCachedGameSnapshot.mockResolvedValue({ game: fakeGame, team: fakeTeam });
+
+    render(<GameManagementRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('game-management')).toBeInTheDocument(),
+    );
+    expect(mockGetCachedGameSnapshot).toHaveBeenCalledWith('game-1');
+    expect(mockGameGet).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the saved copy when the fetch fails', async () => {
+    setupNoState();
+    mockGameGet.mockRejectedValue(new Error('Network error'));
+    mockGetCachedGameSnapshot.mockResolvedValue({ game: fakeGame, team: fakeTeam });
+
+    render(<GameManagementRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('game-management')).toBeInTheDocument(),
+    );
+  });
 });
@@ -4,6 +4,7 @@ import { generateClient } from "aws-amplify/data";
 import type { Schema } from "../../../amplify/data/resource";
 import type { Game, Team } from "../../types/schema";
 import { logError } from "../../utils/errorHandler";
+import { getCachedGameSnapshot } from "../../services/gameReadCacheService";
 import { GameManagement } from "../GameManagement";
 
 const client = generateClient<Schema>();
@@ -13,7 +14,8 @@ const client = generateClient<Schema>();
  * 
  * Two-tier loading strategy:
  * 1. From in-app navigation: game + team passed via location.state → instant render
- * 2. From direct URL (bookmark, refresh): fetches Game + Team by ID from DynamoDB
+ * 2. From direct URL (bookmark, refresh): fetches Game + Team by ID from DynamoDB,
+ *    or uses the copy saved by the game read cache when offline or the fetch fails
  */
 export function GameManagementRoute() {
   const { gameId } = useParams<{ gameId: string }>();
@@ -41,6 +43,18 @@ export function GameManagementRoute() {
         return;
       }
 
+      // Saved copy of the game, when there is one on this device
+      const loadFromCache = async () => {
+        const cached = await getCachedGameSnapshot(gameId).catch(() => undefined);
+        if (!cached) return false;
+        setGame(cached.game);
+        setTeam(cached.team);
+        setLoading(false);
+        return true;
+      };
+
+      if (!navigator.onLine && await loadFromCache()) return;
+
       try {
         const gameResponse = await client.models.Game.get({ id: gameId });
         if (!gameResponse.data) {
@@ -61,6 +75,7 @@ export function GameManagementRoute() {
         setTeam(teamResponse.data as Team);
         setLoading(false);
       } catch (err) {
+        if (await loadFromCache()) return;
         logError("GameManagementRoute.loadFromUrl", err);
         setError(true);
         setLoading(false);
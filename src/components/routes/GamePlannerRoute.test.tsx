@@ -8,10 +8,11 @@ import type { Game, Team } from '../../types/schema';
 // Hoisted mocks
 // ---------------------------------------------------------------------------
 
-const { mockGameGet, mockTeamGet, mockNavigate } = vi.hoisted(() => ({
+const { mockGameGet, mockTeamGet, mockNavigate, mockGetCachedGameSnapshot } = vi.hoisted(() => ({
   mockGameGet: vi.fn(),
   mockTeamGet: vi.fn(),
   mockNavigate: vi.fn(),
+  mockGetCachedGameSnapshot: vi.fn(),
 }));
 
 vi.mock('aws-amplify/data', () => ({
@@ -37,6 +38,10 @@ vi.mock('../GamePlanner', () => ({
   ),
 }));
 
+vi.mock('../../services/gameReadCacheService', () => ({
+  getCachedGameSnapshot: mockGetCachedGameSnapshot,
+}));
+
 vi.mock('../../utils/errorHandler', () => ({
   logError: vi.fn(),
   handleApiError: vi.fn(),
@@ -75,6 +80,8 @@ function setupNoState() {
 describe('GamePlannerRoute', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.restoreAllMocks();
+    mockGetCachedGameSnapshot.mockResolvedValue(undefined);
   });
 
   it('renders GamePlanner immediately when game + team are in location.state', () => {
@@ -152,4 +159,30 @@ describe('GamePlannerRoute', () => {
     expect(mockGameGet).not.toHaveBeenCalled();
     expect(mockTeamGet).not.toHaveBeenCalled();
   });
+
+  it('opens the copy saved on this device when offline', async () => {
+    setupNoState();
+    vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+    mockGetCachedGameSnapshot.mockResolvedValue({ game: fakeGame, team: fakeTeam });
+
+    render(<GamePlannerRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('game-planner')).toBeInTheDocument(),
+    );
+    expect(mockGetCachedGameSnapshot).toHaveBeenCalledWith('game-1');
+    expect(mockGameGet).not.toHaveBeenCalled();
+  });
+
+  it('falls back to the saved copy when the fetch fails', async () => {
+    setupNoState();
+    mockGameGet.mockRejectedValue(new Error('Network error'));
+    mockGetCachedGameSnapshot.mockResolvedValue({ game: fakeGame, team: fakeTeam });
+
+    render(<GamePlannerRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('game-planner')).toBeInTheDocument(),
+    );
+  });
 });
@@ -4,6 +4,7 @@ import { generateClient } from "aws-amplify/data";
 import type { Schema } from "../../../amplify/data/resource";
 import type { Game, Team } from "../../types/schema";
 import { logError } from "../../utils/errorHandler";
+import { getCachedGameSnapshot } from "../../services/gameReadCacheService";
 import { GamePlanner } from "../GamePlanner";
 
 const client = generateClient<Schema>();
@@ -13,7 +14,8 @@ const client = generateClient<Schema>();
  * 
  * Two-tier loading strategy:
  * 1. From in-app navigation: game + team passed via location.state → instant render
- * 2. From direct URL (bookmark, refresh): fetches Game + Team by ID from DynamoDB
+ * 2. From direct URL (bookmark, refresh): fetches Game + Team by ID from DynamoDB,
+ *    or uses the copy saved by the game read cache when offline or the fetch fails
  */
 export function GamePlannerRoute() {
   const { gameId } = useParams<{ gameId: string }>();
@@ -38,6 +40,18 @@ export function GamePlannerRoute() {
         return;
       }
 
+      // Saved copy of the game, when there is one on this device
+      const loadFromCache = async () => {
+        const cached = await getCachedGameSnapshot(gameId).catch(() => undefined);
+        if (!cached) return false;
+        setGame(cached.game);
+        setTeam(cached.team);
+        setLoading(false);
+        return true;
+      };
+
+      if (!navigator.onLine && await loadFromCache()) return;
+
       try {
         const gameResponse = await client.models.Game.get({ id: gameId });
         if (!gameResponse.data) {
@@ -58,6 +72,7 @@ export function GamePlannerRoute() {
         setTeam(teamResponse.data as Team);
         setLoading(false);
       } catch (err) {
+        if (await loadFromCache()) return;
         logError("GamePlannerRoute.loadFromUrl", err);
         setError(true);
         setLoading(false);
@@ -0,0 +1,72 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import { GameSummaryRoute } from './GameSummaryRoute';
+import type { GameSummarySnapshot } from '../../services/gameSummaryService';
+
+// ---------------------------------------------------------------------------
+// Hoisted mocks
+// ---------------------------------------------------------------------------
+
+const { mockLoadGameSummary, mockNavigate } = vi.hoisted(() => ({
+  mockLoadGameSummary: vi.fn(),
+  mockNavigate: vi.fn(),
+}));
+
+vi.mock('../../services/gameSummaryService', () => ({
+  loadGameSummary: mockLoadGameSummary,
+}));
+
+vi.mock('react-router-dom', () => ({
+  useParams: vi.fn(() => ({ gameId: 'game-1' })),
+  useNavigate: vi.fn(() => mockNavigate),
+}));
+
+vi.mock('../GameSummary', () => ({
+  GameSummary: ({ snapshot, fromCache, onBack }: { snapshot: GameSummarySnapshot; fromCache: boolean; onBack: () => void }) => (
+    <div data-testid="game-summary">
+      {snapshot.gameId}-{fromCache ? 'cached' : 'live'}
+      <button onClick={onBack}>Back</button>
+    </div>
+  ),
+}));
+
+vi.mock('../../utils/errorHandler', () => ({
+  logError: vi.fn(),
+  handleApiError: vi.fn(),
+}));
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('GameSummaryRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('loads the summary for the game in the URL', async () => {
+    const user = userEvent.setup();
+    mockLoadGameSummary.mockResolvedValue({ snapshot: { gameId: 'game-1' }, fromCache: true });
+
+    render(<GameSummaryRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('game-summary')).toHaveTextContent('game-1-cached'),
+    );
+    expect(mockLoadGameSummary).toHaveBeenCalledWith('game-1');
+
+    await user.click(screen.getByRole('button', { name: 'Back' }));
+    expect(mockNavigate).toHaveBeenCalledWith('/game/game-1');
+  });
+
+  it('renders an error state when nothing could be loaded', async () => {
+    mockLoadGameSummary.mockRejectedValue(new Error('Network error'));
+
+    render(<GameSummaryRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByText(/Game summary not available/)).toBeInTheDocument(),
+    );
+  });
+});
@@ -0,0 +1,75 @@
+import { useState, useEffect } from "react";
+import { useParams, useNavigate } from "react-router-dom";
+import { loadGameSummary, type GameSummaryResult } from "../../services/gameSummaryService";
+import { logError } from "../../utils/errorHandler";
+import { GameSummary } from "../GameSummary";
+
+/**
+ * Route wrapper for /game/:gameId/summary
+ *
+ * There is no location.state tier here: the page needs every record of the
+ * game, which gameSummaryService loads from the API or, when offline, from
+ * the copy saved on the device.
+ */
+export function GameSummaryRoute() {
+  const { gameId } = useParams<{ gameId: string }>();
+  const navigate = useNavigate();
+
+  const [result, setResult] = useState<GameSummaryResult | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function load() {
+      if (!gameId) {
+        setError(true);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const loaded = await loadGameSummary(gameId);
+        if (cancelled) return;
+        setResult(loaded);
+        setLoading(false);
+      } catch (err) {
+        logError("GameSummaryRoute.load", err);
+        if (cancelled) return;
+        setError(true);
+        setLoading(false);
+      }
+    }
+
+    void load();
+    return () => { cancelled = true; };
+  }, [gameId]);
+
+  if (loading) {
+    return (
+      <div style={{ padding: "2rem", textAlign: "center" }}>
+        <p>Loading game summary...</p>
+      </div>
+    );
+  }
+
+  if (error || !result) {
+    return (
+      <div className="empty-state">
+        <p>Game summary not available. Open it once while online to save it for offline use.</p>
+        <button onClick={() => navigate("/")} className="btn-primary">
+          Back to Games
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <GameSummary
+      snapshot={result.snapshot}
+      fromCache={result.fromCache}
+      onBack={() => navigate(`/game/${result.snapshot.gameId}`)}
+    />
+  );
+}
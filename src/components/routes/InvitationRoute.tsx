@@ -36,7 +36,7 @@ export function InvitationRoute() {
         </header>
         <InvitationAcceptance
           invitationId={invitationId}
-          onComplete={() => navigate("/")}
+          onComplete={(acceptedRole) => navigate(acceptedRole === "PARENT" ? "/family" : "/")}
         />
       </main>
     </ConfirmProvider>
@@ -94,6 +94,12 @@ export function SeasonReportRoute() {
     }
   };
 
+  // Keep the selector in step with changes made inside the report (e.g. season rollover)
+  const handleTeamUpdated = (updated: Team) => {
+    setSelectedTeam(updated);
+    setTeams((prev) => prev.map((t) => (t.id === updated.id ? updated : t)));
+  };
+
   if (teamsLoading || teamLoading) {
     return (
       <div style={{ padding: "2rem", textAlign: "center" }}>
@@ -126,7 +132,7 @@ export function SeasonReportRoute() {
 
       {/* Report content */}
       {selectedTeam ? (
-        <TeamReport key={selectedTeam.id} team={selectedTeam} />
+        <TeamReport key={selectedTeam.id} team={selectedTeam} onTeamUpdated={handleTeamUpdated} />
       ) : (
         <div className="empty-state">
           {teams.length === 0 ? (
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { render, screen, waitFor } from '@testing-library/react';
+import { TournamentRoute } from './TournamentRoute';
+import type { Team, Tournament } from '../../types/schema';
+
+// ---------------------------------------------------------------------------
+// Hoisted mocks
+// ---------------------------------------------------------------------------
+
+const { mockTournamentGet, mockTeamGet, mockNavigate } = vi.hoisted(() => ({
+  mockTournamentGet: vi.fn(),
+  mockTeamGet: vi.fn(),
+  mockNavigate: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: vi.fn(() => ({
+    models: {
+      Tournament: { get: mockTournamentGet },
+      Team: { get: mockTeamGet },
+    },
+  })),
+}));
+
+vi.mock('react-router-dom', () => ({
+  useParams: vi.fn(),
+  useLocation: vi.fn(),
+  useNavigate: vi.fn(() => mockNavigate),
+}));
+
+vi.mock('../TournamentSummary', () => ({
+  TournamentSummary: ({ tournament, team }: { tournament: Tournament; team: Team }) => (
+    <div data-testid="tournament-summary">
+      {tournament.id}-{team.id}
+    </div>
+  ),
+}));
+
+vi.mock('../../utils/errorHandler', () => ({
+  logError: vi.fn(),
+  handleApiError: vi.fn(),
+}));
+
+import { useParams, useLocation } from 'react-router-dom';
+
+const mockUseParams = vi.mocked(useParams);
+const mockUseLocation = vi.mocked(useLocation);
+
+const fakeTournament: Tournament = { id: 'tournament-1', teamId: 'team-1', name: 'Fall Cup' } as Tournament;
+const fakeTeam: Team = { id: 'team-1', name: 'Eagles' } as Team;
+
+function setupRoute(state: { tournament: Tournament; team: Team } | null) {
+  mockUseParams.mockReturnValue({ tournamentId: 'tournament-1' });
+  mockUseLocation.mockReturnValue({
+    state,
+    pathname: '/tournament/tournament-1',
+    search: '',
+    hash: '',
+    key: 'default',
+  } as ReturnType<typeof useLocation>);
+}
+
+// ---------------------------------------------------------------------------
+// Tests
+// ---------------------------------------------------------------------------
+
+describe('TournamentRoute', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('renders the summary immediately when tournament + team are in location.state', () => {
+    setupRoute({ tournament: fakeTournament, team: fakeTeam });
+
+    render(<TournamentRoute />);
+
+    expect(screen.getByTestId('tournament-summary')).toBeInTheDocument();
+    expect(mockTournamentGet).not.toHaveBeenCalled();
+  });
+
+  it('fetches tournament and team by ID when location.state is absent', async () => {
+    setupRoute(null);
+    mockTournamentGet.mockResolvedValue({ data: fakeTournament });
+    mockTeamGet.mockResolvedValue({ data: fakeTeam });
+
+    render(<TournamentRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByTestId('tournament-summary')).toBeInTheDocument(),
+    );
+    expect(mockTournamentGet).toHaveBeenCalledWith({ id: 'tournament-1' });
+    expect(mockTeamGet).toHaveBeenCalledWith({ id: 'team-1' });
+  });
+
+  it('renders error state when the tournament is not found', async () => {
+    setupRoute(null);
+    mockTournamentGet.mockResolvedValue({ data: null });
+
+    render(<TournamentRoute />);
+
+    await waitFor(() =>
+      expect(screen.getByText('Tournament not found.')).toBeInTheDocument(),
+    );
+  });
+});
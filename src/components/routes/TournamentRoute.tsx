@@ -0,0 +1,95 @@
+import { useState, useEffect } from "react";
+import { useParams, useLocation, useNavigate } from "react-router-dom";
+import { generateClient } from "aws-amplify/data";
+import type { Schema } from "../../../amplify/data/resource";
+import type { Team, Tournament } from "../../types/schema";
+import { logError } from "../../utils/errorHandler";
+import { TournamentSummary } from "../TournamentSummary";
+
+const client = generateClient<Schema>();
+
+/**
+ * Route wrapper for /tournament/:tournamentId
+ *
+ * Same two-tier loading as GameManagementRoute: tournament + team from
+ * location.state when navigating in-app, otherwise fetched by ID.
+ */
+export function TournamentRoute() {
+  const { tournamentId } = useParams<{ tournamentId: string }>();
+  const location = useLocation();
+  const navigate = useNavigate();
+
+  const stateTournament = (location.state as { tournament?: Tournament })?.tournament;
+  const stateTeam = (location.state as { team?: Team })?.team;
+
+  const [tournament, setTournament] = useState<Tournament | null>(stateTournament || null);
+  const [team, setTeam] = useState<Team | null>(stateTeam || null);
+  const [loading, setLoading] = useState(!stateTournament || !stateTeam);
+  const [error, setError] = useState(false);
+
+  useEffect(() => {
+    if (stateTournament && stateTeam) return;
+
+    async function loadFromUrl() {
+      if (!tournamentId) {
+        setError(true);
+        setLoading(false);
+        return;
+      }
+
+      try {
+        const tournamentResponse = await client.models.Tournament.get({ id: tournamentId });
+        if (!tournamentResponse.data) {
+          setError(true);
+          setLoading(false);
+          return;
+        }
+
+        const fetchedTournament = tournamentResponse.data as Tournament;
+        const teamResponse = await client.models.Team.get({ id: fetchedTournament.teamId });
+        if (!teamResponse.data) {
+          setError(true);
+          setLoading(false);
+          return;
+        }
+
+        setTournament(fetchedTournament);
+        setTeam(teamResponse.data as Team);
+        setLoading(false);
+      } catch (err) {
+        logError("TournamentRoute.loadFromUrl", err);
+        setError(true);
+        setLoading(false);
+      }
+    }
+
+    void loadFromUrl();
+  }, [tournamentId, stateTournament, stateTeam]);
+
+  if (loading) {
+    return (
+      <div style={{ padding: "2rem", textAlign: "center" }}>
+        <p>Loading tournament...</p>
+      </div>
+    );
+  }
+
+  if (error || !tournament || !team) {
+    return (
+      <div className="empty-state">
+        <p>Tournament not found.</p>
+        <button onClick={() => navigate("/")} className="btn-primary">
+          Back to Games
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <TournamentSummary
+      tournament={tournament}
+      team={team}
+      onBack={() => navigate("/")}
+    />
+  );
+}
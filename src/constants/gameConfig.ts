@@ -15,6 +15,10 @@ export const GAME_CONFIG = {
   ROTATION_CALCULATION: {
     // Minimum players needed per rotation group for fair distribution
     MIN_PLAYERS_PER_GROUP: 3,
+    // Cap on the head start season fairness can give a player who is behind
+    MAX_SEASON_CATCH_UP_MINUTES: 10,
+    // Cap on the head start tournament running totals can give a player who is behind
+    MAX_TOURNAMENT_CATCH_UP_MINUTES: 15,
   },
 } as const;
 
@@ -26,4 +30,8 @@ export const DEFAULT_FORM_VALUES = {
   halfLength: '25',
   sport: 'Soccer',
   gameFormat: 'Halves',
+  periodCount: '3', // used when gameFormat is 'Periods'
+  fairnessWindow: 'game',
+  fairnessWindowGames: '3',
+  starterRanking: 'position',
 };
@@ -2,7 +2,7 @@
  * Tests for src/help.ts — HELP_CONTENT registry validation.
  *
  * These tests enforce the content authoring guidelines:
- * - All 13 HelpScreenKey values are present
+ * - All 14 HelpScreenKey values are present
  * - Each article has required fields with non-empty content
  * - Tasks ≤ 4 per screen, each with ≥ 1 step and ≤ 6 steps
  * - Tips ≤ 3 per screen, each with non-empty text
@@ -20,6 +20,7 @@ const ALL_KEYS: HelpScreenKey[] = [
   'game-completed',
   'game-planner',
   'season-reports',
+  'practices',
   'manage-teams',
   'manage-players',
   'manage-formations',
@@ -29,8 +30,8 @@ const ALL_KEYS: HelpScreenKey[] = [
 ];
 
 describe('HELP_CONTENT registry', () => {
-  it('contains exactly 13 entries', () => {
-    expect(Object.keys(HELP_CONTENT)).toHaveLength(13);
+  it('contains exactly 14 entries', () => {
+    expect(Object.keys(HELP_CONTENT)).toHaveLength(14);
   });
 
   it.each(ALL_KEYS)('contains an entry for key "%s"', (key) => {
@@ -38,6 +38,8 @@ export type HelpScreenKey =
   | 'game-planner'
   // Season Reports
   | 'season-reports'
+  // Practices
+  | 'practices'
   // Management — five sub-sections matching activeSection values
   | 'manage-teams'
   | 'manage-players'
@@ -109,7 +111,7 @@ interface ScreenHelpContent {
 
 /**
  * The complete registry of all help articles, keyed by HelpScreenKey.
- * TypeScript enforces that all 13 keys are present.
+ * TypeScript enforces that all 14 keys are present.
  */
 type HelpContentRegistry = Record<HelpScreenKey, ScreenHelpContent>;
 
@@ -118,7 +120,7 @@ type HelpContentRegistry = Record<HelpScreenKey, ScreenHelpContent>;
 // ---------------------------------------------------------------------------
 
 /**
- * The complete registry of all 13 screen help articles.
+ * The complete registry of all 14 screen help articles.
  * TypeScript's Record type ensures a compile error if any key is missing.
  */
 export const HELP_CONTENT: HelpContentRegistry = {
@@ -135,6 +137,7 @@ export const HELP_CONTENT: HelpContentRegistry = {
           'Enter the opponent name and choose a date and time.',
           'Toggle "Home Game" on if you are playing at your home field.',
           'Tap "Create" to save the game.',
+          'No signal? Create it anyway and build its plan — it shows "Waiting to sync" until you reconnect.',
         ],
       },
       {
@@ -151,10 +154,20 @@ export const HELP_CONTENT: HelpContentRegistry = {
           'Tap "Delete Game" and confirm.',
         ],
       },
+      {
+        title: 'Set up a tournament weekend',
+        steps: [
+          'Tap "+ New Tournament" and pick your team.',
+          'Name the event and add each game with its opponent, kick-off and stage.',
+          'Tap "Create Tournament", then set availability once for the whole event.',
+          'Plan each game as usual — auto-generate balances minutes across the tournament.',
+        ],
+      },
     ],
     tips: [
       { text: 'Active and in-progress games always appear at the top of the list.' },
       { text: 'Completed games appear at the bottom, sorted most recent first.' },
+      { text: 'Use "Import / Export Schedule" to load a league schedule (.ics or CSV) in one go, or download a calendar file for families. Re-importing only adds new games and updates moved kick-offs.' },
     ],
     relatedScreens: ['game-scheduled', 'manage-teams'],
   },
@@ -200,6 +213,7 @@ export const HELP_CONTENT: HelpContentRegistry = {
     tips: [
       { text: 'Setting availability before kick-off enables fair rotation calculations.' },
       { text: 'Late Arrival players are included in rotations from their expected arrival time.' },
+      { text: 'Knockout game? Use "Edit Game" to add extra time and a penalty shootout.' },
     ],
     relatedScreens: ['game-planner', 'game-in-progress'],
   },
@@ -236,17 +250,20 @@ export const HELP_CONTENT: HelpContentRegistry = {
         ],
       },
       {
-        title: 'Find the next player to bring on',
+        title: 'Log shots, saves and corners',
         steps: [
-          'Go to the Bench tab.',
-          'Players are sorted by least play time — bring on the player at the top.',
+          'Go to the Goals tab.',
+          'Choose Us or the opponent under Match Events.',
+          'Optionally pick the player who took the shot or made the save.',
+          'Tap the event — it is stamped with the game clock, even offline.',
+          'Tap Undo if you hit the wrong button.',
         ],
       },
     ],
     tips: [
       { text: 'The rotation widget shows when the next planned rotation is due.' },
       { text: 'Bench tab automatically sorts by least play time to guide fair rotation.' },
-      { text: 'Pause the timer during stoppages to keep play-time records accurate.' },
+      { text: 'Pause the timer during stoppages. If the referee plays on past the end of a period, turn on "Play added time" so those minutes count.' },
     ],
     relatedScreens: ['game-planner', 'game-halftime'],
   },
@@ -297,6 +314,26 @@ export const HELP_CONTENT: HelpContentRegistry = {
         steps: [
           'The completed game screen shows a play-time summary for each player.',
           'Scroll down to see all players and their minutes played.',
+          'The +/- column is goals for minus goals against while each player was on.',
+        ],
+      },
+      {
+        title: 'Review the game summary',
+        steps: [
+          'Tap "View Game Summary" at the bottom of the completed game.',
+          'Read the timeline of goals, substitutions, notes and breaks.',
+          'Check the score progression chart and minutes by position.',
+          'Tap Print to print it or save it as a PDF.',
+        ],
+      },
+      {
+        title: 'Share the result with families',
+        steps: [
+          'Find the Share Recap card on the completed game screen.',
+          'Pick what to include: scorers, assists, goal minutes, gold stars or cards.',
+          'Leave Privacy mode on for chats with people outside the team: it shows first names only and no cards.',
+          'Tap Share to send it to a group chat, or Copy to paste it yourself.',
+          'Tap "Save as team default" to use the same choices after every game.',
         ],
       },
       {
@@ -309,6 +346,7 @@ export const HELP_CONTENT: HelpContentRegistry = {
     ],
     tips: [
       { text: 'Play-time data from this game feeds the Season Report automatically.' },
+      { text: 'The game summary is saved on this device after the game syncs, so it opens offline too.' },
       { text: 'Completed games cannot be restarted. Contact support if ended in error.' },
     ],
     relatedScreens: ['season-reports', 'home'],
@@ -341,6 +379,8 @@ export const HELP_CONTENT: HelpContentRegistry = {
           'Set your starting lineup and confirm availability first.',
           'Tap "Calculate Rotations".',
           'The planner distributes minutes fairly across available players.',
+          'Position rules from the roster (such as "Never in goal") are followed; any the plan can\'t meet are listed for you to review before it is saved.',
+          'If the team has league rules, the plan is checked against them too and any problems are shown above the timeline.',
           'Review the rotation timeline and adjust if needed.',
         ],
       },
@@ -356,7 +396,7 @@ export const HELP_CONTENT: HelpContentRegistry = {
     tips: [
       { text: 'The rotation interval (default 10 min) controls how often swaps happen per half.' },
       { text: 'Late Arrival players are automatically included from their arrival minute.' },
-      { text: 'Changes made here are reflected in the in-game rotation widget.' },
+      { text: 'Changes made here are reflected in the in-game rotation widget and saved on this device, so the game and its plan open at the field with no signal.' },
     ],
     relatedScreens: ['game-scheduled', 'game-in-progress'],
   },
@@ -370,43 +410,96 @@ export const HELP_CONTENT: HelpContentRegistry = {
         title: 'Read a player\'s season stats',
         steps: [
           'Find the player row in the stats table.',
-          'Columns show total play time, goals, assists, gold stars, and cards.',
+          'Columns show total play time, +/- while on the field, shots, goals, assists, gold stars, and cards.',
           'Tap the player row to expand their game-by-game breakdown.',
+          'Use Player CSV, Positions CSV or Print / PDF to share the season.',
         ],
       },
       {
-        title: 'Sort the stats table',
+        title: 'Find your best combinations',
         steps: [
-          'Tap a column header (e.g., "Play Time" or "Goals") to sort by that column.',
-          'Tap again to reverse the sort order.',
+          'Tap the Combinations tab.',
+          'Pick a unit: back line, midfield, front line or all outfield players.',
+          'Set the minimum minutes together to hide short stints.',
+          'Sort by plus/minus to see which groups do best together.',
         ],
       },
       {
-        title: 'Filter by team',
+        title: 'Filter by team or season',
         steps: [
           'If you manage multiple teams, use the team selector at the top.',
           'Select a team to show stats for that team only.',
+          'Use the season selector to view an earlier season, or "All seasons".',
+          'Tap a player to compare their seasons side by side.',
+        ],
+      },
+      {
+        title: 'Review your record against an opponent',
+        steps: [
+          'Scroll to Head-to-Head below the stats table.',
+          'If older games are listed as not matched, tap "Match Past Games" once.',
+          'Tap an opponent to see past meetings and the coaching notes from them.',
+          'Add club, colors or scouting notes and tap Save.',
         ],
       },
     ],
     tips: [
-      { text: 'Only completed games are included in season totals.' },
-      { text: 'Gold stars and cards are tracked per game and summed here.' },
+      { text: 'Only completed games are included in season totals. The Practice tab shows training attendance.' },
+      { text: 'The Match Stats tab shows shots, corners, fouls and saves for each game. Keeper save % is in the player details.' },
+      { text: 'Tap "Start New Season" to archive finished games and keep your roster.' },
     ],
     relatedScreens: ['game-completed', 'home'],
   },
 
+  // @help-content: practices
+  'practices': {
+    screenTitle: 'Practices',
+    overview: 'Schedule your team\'s practices and record who came. Attendance counts toward the season report and, if you choose, the order of starting lineup candidates.',
+    tasks: [
+      {
+        title: 'Schedule a practice',
+        steps: [
+          'Select your team at the top.',
+          'Tap "+ Schedule Practice".',
+          'Set the date and time, and optionally the location, focus and length.',
+          'Tap Create Practice.',
+        ],
+      },
+      {
+        title: 'Take attendance',
+        steps: [
+          'Tap a practice to open its attendance.',
+          'Tap "Mark all present" if most of the team came.',
+          'Tap a player card to cycle: Present → Absent → Late → Injured.',
+        ],
+      },
+      {
+        title: 'Rank starters by practice attendance',
+        steps: [
+          'Go to Manage → Teams and edit your team.',
+          'Set Starting Lineup Ranking to "Practice attendance".',
+          'In the game planner, starting lineup options list the best attenders first, after players who prefer the position.',
+        ],
+      },
+    ],
+    tips: [
+      { text: 'Injuries are excused: they don\'t lower a player\'s attendance rate.' },
+      { text: 'Only practices that have already started count toward attendance.' },
+    ],
+    relatedScreens: ['season-reports', 'manage-teams'],
+  },
+
   // @help-content: manage-teams
   'manage-teams': {
     screenTitle: 'Management — Teams',
-    overview: 'Create and configure your teams, including half length, maximum players on field, and the formation used for lineups.',
+    overview: 'Create and configure your teams, including period length, maximum players on field, and the formation used for lineups.',
     tasks: [
       {
         title: 'Create a new team',
         steps: [
           'Tap "+ Add Team".',
           'Enter the team name.',
-          'Set the half length in minutes.',
+          'Choose halves, quarters or custom periods, and set the length of each in minutes.',
           'Set the maximum number of players on the field.',
           'Choose a formation from the list.',
           'Tap "Save" to create the team.',
@@ -417,9 +510,19 @@ export const HELP_CONTENT: HelpContentRegistry = {
         steps: [
           'Tap the team name to expand its settings.',
           'Tap "Edit" to change the team details.',
+          'Under "League Rules", pick a preset such as "Rec league", or "Custom rules" to set your own. The planner, Bench tab and completed game check them.',
           'Update the fields and tap "Save".',
         ],
       },
+      {
+        title: 'Import a roster from a spreadsheet',
+        steps: [
+          'Tap the team name to expand it, then tap "Import Roster (CSV)".',
+          'Paste cells copied from a spreadsheet, or choose a CSV file. Include a header row.',
+          'Check the column choices and the preview. Rows with problems are skipped.',
+          'Players already in your list are reused, not duplicated. Tap "Import".',
+        ],
+      },
       {
         title: 'Delete a team',
         steps: [
@@ -430,7 +533,8 @@ export const HELP_CONTENT: HelpContentRegistry = {
       },
     ],
     tips: [
-      { text: 'Half length and max players affect the rotation planner\'s calculations.' },
+      { text: 'Game format, period length and max players affect the rotation planner\'s calculations.' },
+      { text: 'The game clock pauses at the end of every period, and the planner schedules a lineup change at each break.' },
       { text: 'You can share a team with another coach from the Sharing tab.' },
     ],
     relatedScreens: ['manage-formations', 'manage-sharing'],
@@ -571,6 +675,14 @@ export const HELP_CONTENT: HelpContentRegistry = {
           'The current app version is shown at the bottom of this section.',
         ],
       },
+      {
+        title: 'Check changes made offline',
+        steps: [
+          'Tap "Review offline changes" under Offline Changes, or "Review" on the offline banner during a game.',
+          'Each change waiting on this device is listed with its state: waiting, failed, held for another account, or gave up.',
+          'Tap "Retry" to send it again, "Export" to save a copy, or "Discard" to drop it.',
+        ],
+      },
       {
         title: 'Report a bug or give feedback',
         steps: [
@@ -1,5 +1,6 @@
 import { useEffect, useRef } from 'react';
 import { formatPlayTime } from '../utils/playTimeCalculations';
+import { formatPeriodLabel } from '../utils/periodUtils';
 
 const NOTIFICATION_TAG = 'teamtrack-live-game';
 const UPDATE_INTERVAL_MS = 30_000;
@@ -13,8 +14,10 @@ export interface UseGameNotificationParams {
   opponent: string;
   ourScore: number;
   opponentScore: number;
-  /** Current game half (1 or 2) */
+  /** Current game period (1-based) */
   currentHalf: number;
+  /** Number of periods in the game; defaults to 2 (halves) */
+  periodCount?: number;
   /** Elapsed game time in seconds */
   currentTime: number;
 }
@@ -38,14 +41,15 @@ export function useGameNotification({
   ourScore,
   opponentScore,
   currentHalf,
+  periodCount = 2,
   currentTime,
 }: UseGameNotificationParams): void {
   // Keep latest param values accessible inside setInterval closure
   // without needing to restart the interval on every render.
   const paramsRef = useRef({
-    teamName, opponent, ourScore, opponentScore, currentHalf, currentTime,
+    teamName, opponent, ourScore, opponentScore, currentHalf, periodCount, currentTime,
   });
-  paramsRef.current = { teamName, opponent, ourScore, opponentScore, currentHalf, currentTime };
+  paramsRef.current = { teamName, opponent, ourScore, opponentScore, currentHalf, periodCount, currentTime };
 
   // Permission request effect — fires when requestPermissionNow becomes true
   useEffect(() => {
@@ -77,9 +81,9 @@ export function useGameNotification({
       } catch {
         return;
       }
-      const { teamName: t, opponent: o, ourScore: us, opponentScore: them, currentHalf: half, currentTime: time } = paramsRef.current;
+      const { teamName: t, opponent: o, ourScore: us, opponentScore: them, currentHalf: half, periodCount: periods, currentTime: time } = paramsRef.current;
       const title = `${t} vs ${o}`;
-      const halfLabel = half === 2 ? 'H2' : 'H1';
+      const halfLabel = formatPeriodLabel(half, periods, 'short');
       const timeStr = formatPlayTime(time, 'short');
       const body = `${us} – ${them}  ·  ${halfLabel} ${timeStr}`;
       try {
@@ -0,0 +1,67 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderHook, act } from '@testing-library/react';
+
+const { mockGetCached, mockRefresh } = vi.hoisted(() => ({
+  mockGetCached: vi.fn(),
+  mockRefresh: vi.fn(),
+}));
+
+vi.mock('../services/gameReadCacheService', () => ({
+  getCachedGameSnapshot: mockGetCached,
+  refreshGameSnapshot: mockRefresh,
+}));
+
+import { useGameReadCache } from './useGameReadCache';
+
+const setOnline = (online: boolean) => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+
+describe('useGameReadCache', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    mockGetCached.mockResolvedValue({ savedAt: 100 });
+    mockRefresh.mockResolvedValue({ savedAt: 500 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('reports the saved copy and refreshes it once live changes settle', async () => {
+    setOnline(true);
+    const { result, rerender } = renderHook(({ key }) => useGameReadCache('game-1', key), {
+      initialProps: { key: 'a' },
+    });
+
+    await act(async () => {});
+    expect(result.current.savedAt).toBe(100);
+
+    rerender({ key: 'b' });
+    await act(async () => { await vi.advanceTimersByTimeAsync(2000); });
+
+    expect(mockRefresh).toHaveBeenCalledTimes(1);
+    expect(mockRefresh).toHaveBeenCalledWith('game-1');
+    expect(result.current.savedAt).toBe(500);
+  });
+
+  it('never refreshes while offline', async () => {
+    setOnline(false);
+    const { result } = renderHook(() => useGameReadCache('game-1', 'a'));
+
+    await act(async () => { await vi.advanceTimersByTimeAsync(5000); });
+
+    expect(result.current.isOnline).toBe(false);
+    expect(result.current.savedAt).toBe(100);
+    expect(mockRefresh).not.toHaveBeenCalled();
+  });
+
+  it('reports null when nothing is saved for the game', async () => {
+    setOnline(false);
+    mockGetCached.mockResolvedValue(undefined);
+    const { result } = renderHook(() => useGameReadCache('game-1'));
+
+    await act(async () => {});
+    expect(result.current.savedAt).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+import { useEffect, useState } from 'react';
+import { useNetworkStatus } from './useNetworkStatus';
+import { getCachedGameSnapshot, refreshGameSnapshot } from '../services/gameReadCacheService';
+
+/** Wait for a burst of live changes to settle before refetching the snapshot */
+const REFRESH_DEBOUNCE_MS = 2000;
+
+/**
+ * Keeps a game's offline snapshot fresh while online and reports how old the
+ * saved copy is, for the staleness notice on the game and game plan pages.
+ *
+ * @param gameId - Game whose snapshot to keep
+ * @param refreshKey - Changes whenever the live data changes (e.g. plan
+ *   updatedAt), so the snapshot is refetched after edits
+ * @returns Network status and when the saved snapshot was fetched (null when
+ *   nothing is saved for this game)
+ */
+export function useGameReadCache(
+  gameId: string,
+  refreshKey = '',
+): { isOnline: boolean; savedAt: number | null } {
+  const { isOnline } = useNetworkStatus();
+  const [savedAt, setSavedAt] = useState<number | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    getCachedGameSnapshot(gameId)
+      .then(snapshot => { if (!cancelled) setSavedAt(snapshot?.savedAt ?? null); })
+      .catch(() => { /* IndexedDB unavailable — nothing to report */ });
+    return () => { cancelled = true; };
+  }, [gameId]);
+
+  useEffect(() => {
+    if (!isOnline) return;
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      refreshGameSnapshot(gameId)
+        .then(snapshot => { if (!cancelled) setSavedAt(snapshot.savedAt); })
+        .catch(error => console.warn('[useGameReadCache] Failed to save game for offline use:', error));
+    }, REFRESH_DEBOUNCE_MS);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [gameId, isOnline, refreshKey]);
+
+  return { isOnline, savedAt };
+}
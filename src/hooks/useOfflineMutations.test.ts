@@ -6,44 +6,74 @@ import { renderHook, act } from '@testing-library/react';
 
 const {
   mockGameUpdate,
+  mockGameCreate,
+  mockGamePlanCreate,
+  mockPlannedRotationCreate,
   mockPlayTimeRecordCreate,
   mockCreateSecureGameNote,
   mockUpdateSecureGameNote,
   mockDeleteSecureGameNote,
   mockPlayerAvailabilityCreate,
   mockPlayerAvailabilityUpdate,
+  mockGameEventCreate,
   mockEnqueue,
-  mockDequeueAll,
+  mockClaimPending,
+  mockRemovePending,
   mockRequeueFailed,
   mockRequeuePreserved,
   mockPendingCount,
   mockDeduplicateGameUpdates,
+  mockSaveConflicts,
+  mockListConflicts,
+  mockDeadLetterCount,
+  mockPlanQueuedReplay,
+  mockResolveConflict,
   mockFetchAuthSession,
   mockShowWarning,
   mockUseNetworkStatus,
+  mockGetBackgroundSyncReport,
+  mockClearBackgroundSyncReport,
+  mockRequestBackgroundSync,
+  backgroundSyncListeners,
 } = vi.hoisted(() => ({
   mockGameUpdate: vi.fn(),
+  mockGameCreate: vi.fn(),
+  mockGamePlanCreate: vi.fn(),
+  mockPlannedRotationCreate: vi.fn(),
   mockPlayTimeRecordCreate: vi.fn(),
   mockCreateSecureGameNote: vi.fn(),
   mockUpdateSecureGameNote: vi.fn(),
   mockDeleteSecureGameNote: vi.fn(),
   mockPlayerAvailabilityCreate: vi.fn(),
   mockPlayerAvailabilityUpdate: vi.fn(),
+  mockGameEventCreate: vi.fn(),
   mockEnqueue: vi.fn(),
-  mockDequeueAll: vi.fn(),
+  mockClaimPending: vi.fn(),
+  mockRemovePending: vi.fn(),
   mockRequeueFailed: vi.fn(),
   mockRequeuePreserved: vi.fn(),
   mockPendingCount: vi.fn(),
   mockDeduplicateGameUpdates: vi.fn(),
+  mockSaveConflicts: vi.fn(),
+  mockListConflicts: vi.fn(),
+  mockDeadLetterCount: vi.fn(),
+  mockPlanQueuedReplay: vi.fn(),
+  mockResolveConflict: vi.fn(),
   mockFetchAuthSession: vi.fn(),
   mockShowWarning: vi.fn(),
   mockUseNetworkStatus: vi.fn(),
+  mockGetBackgroundSyncReport: vi.fn(),
+  mockClearBackgroundSyncReport: vi.fn(),
+  mockRequestBackgroundSync: vi.fn(),
+  backgroundSyncListeners: [] as Array<(report: unknown) => void>,
 }));
 
 vi.mock('aws-amplify/data', () => ({
   generateClient: vi.fn(() => ({
     models: {
-      Game: { update: mockGameUpdate },
+      Game: { update: mockGameUpdate, create: mockGameCreate },
+      GamePlan: { create: mockGamePlanCreate },
+      PlannedRotation: { create: mockPlannedRotationCreate },
       PlayTimeRecord: {
         create: mockPlayTimeRecordCreate,
         update: vi.fn().mockResolvedValue({ data: {} }),
@@ -55,6 +85,7 @@ vi.mock('aws-amplify/data', () => ({
         update: vi.fn().mockResolvedValue({ data: {} }),
       },
       Goal: { create: vi.fn().mockResolvedValue({ data: {} }) },
+      GameEvent: { create: mockGameEventCreate },
       GameNote: {
         delete: vi.fn(),
       },
@@ -77,11 +108,30 @@ vi.mock('aws-amplify/auth', () => ({
 
 vi.mock('../services/offlineQueueService', () => ({
   enqueue: mockEnqueue,
-  dequeueAll: mockDequeueAll,
+  claimPending: mockClaimPending,
+  removePending: mockRemovePending,
   requeueFailed: mockRequeueFailed,
   requeuePreserved: mockRequeuePreserved,
   pendingCount: mockPendingCount,
   deduplicateGameUpdates: mockDeduplicateGameUpdates,
+  saveConflicts: mockSaveConflicts,
+  listConflicts: mockListConflicts,
+  deadLetterCount: mockDeadLetterCount,
+  getBackgroundSyncReport: mockGetBackgroundSyncReport,
+  clearBackgroundSyncReport: mockClearBackgroundSyncReport,
+}));
+
+vi.mock('../services/backgroundSyncService', () => ({
+  requestBackgroundSync: mockRequestBackgroundSync,
+  onBackgroundSyncReport: (listener: (report: unknown) => void) => {
+    backgroundSyncListeners.push(listener);
+    return () => backgroundSyncListeners.splice(backgroundSyncListeners.indexOf(listener), 1);
+  },
+}));
+
+vi.mock('../services/offlineConflictService', () => ({
+  planQueuedReplay: mockPlanQueuedReplay,
+  resolveConflict: mockResolveConflict,
 }));
 
 vi.mock('../utils/toast', () => ({
@@ -138,6 +188,9 @@ describe('useOfflineMutations', () => {
     // Default mock behaviour
     setupOnline();
     mockGameUpdate.mockResolvedValue({ data: {} });
+    mockGameCreate.mockResolvedValue({ data: {} });
+    mockGamePlanCreate.mockResolvedValue({ data: {} });
+    mockPlannedRotationCreate.mockResolvedValue({ data: {} });
     mockPlayTimeRecordCreate.mockResolvedValue({ data: {} });
     mockCreateSecureGameNote.mockResolvedValue({ data: {} });
     mockUpdateSecureGameNote.mockResolvedValue({ data: {} });
@@ -146,11 +199,20 @@ describe('useOfflineMutations', () => {
     mockPlayerAvailabilityUpdate.mockResolvedValue({ data: {} });
     mockFetchAuthSession.mockResolvedValue(DEFAULT_SESSION);
     mockEnqueue.mockResolvedValue(undefined);
-    mockDequeueAll.mockResolvedValue([]);
+    mockClaimPending.mockResolvedValue([]);
+    mockRemovePending.mockResolvedValue(undefined);
     mockPendingCount.mockResolvedValue(0);
     mockDeduplicateGameUpdates.mockResolvedValue(undefined);
     mockRequeueFailed.mockResolvedValue(undefined);
     mockRequeuePreserved.mockResolvedValue(undefined);
+    mockSaveConflicts.mockResolvedValue(undefined);
+    mockListConflicts.mockResolvedValue([]);
+    mockDeadLetterCount.mockResolvedValue(0);
+    mockPlanQueuedReplay.mockImplementation(async (item: unknown) => ({ kind: 'replay', item }));
+    mockResolveConflict.mockResolvedValue(undefined);
+    mockGetBackgroundSyncReport.mockResolvedValue(undefined);
+    mockClearBackgroundSyncReport.mockResolvedValue(undefined);
+    mockRequestBackgroundSync.mockResolvedValue(undefined);
   });
 
   // ── Baseline state ──────────────────────────────────────────────────────
@@ -171,6 +233,43 @@ describe('useOfflineMutations', () => {
     expect(result.current.pendingCount).toBe(0);
   });
 
+  it('exposes the dead-letter count from IndexedDB', async () => {
+    mockDeadLetterCount.mockResolvedValue(2);
+    const { result } = renderHook(() => useOfflineMutations());
+    await flush();
+    expect(result.current.deadLetterCount).toBe(2);
+  });
+
+  it('shows what the service worker synced until the coach dismisses it', async () => {
+    const report = { syncedCount: 3, remainingCount: 0, conflictCount: 0, failureMessage: null, finishedAt: 1 };
+    mockGetBackgroundSyncReport.mockResolvedValue(report);
+    const { result } = renderHook(() => useOfflineMutations());
+    await flush();
+
+    expect(result.current.backgroundSyncReport).toEqual(report);
+
+    await act(async () => {
+      await result.current.dismissBackgroundSyncReport();
+    });
+    expect(result.current.backgroundSyncReport).toBeNull();
+    expect(mockClearBackgroundSyncReport).toHaveBeenCalled();
+  });
+
+  it('refreshes the counts when the service worker reports a drain', async () => {
+    const { result } = renderHook(() => useOfflineMutations());
+    await flush();
+    mockPendingCount.mockResolvedValue(2);
+    const report = { syncedCount: 1, remainingCount: 2, conflictCount: 0, failureMessage: null, finishedAt: 1 };
+
+    await act(async () => {
+      backgroundSyncListeners.forEach(listener => listener(report));
+    });
+    await flush();
+
+    expect(result.current.backgroundSyncReport).toEqual(report);
+    expect(result.current.pendingCount).toBe(2);
+  });
+
   // ── Online path ─────────────────────────────────────────────────────────
 
   describe('online path — mutations call the API directly', () => {
@@ -369,6 +468,73 @@ describe('useOfflineMutations', () => {
       expect(mockPlayerAvailabilityCreate).not.toHaveBeenCalled();
     });
 
+    it('asks the service worker to sync the queue with the current tokens', async () => {
+      setupOffline();
+      const { result } = renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        await result.current.mutations.updateGame('g1', { status: 'completed' });
+      });
+
+      expect(mockRequestBackgroundSync).toHaveBeenCalledWith(DEFAULT_SESSION.tokens);
+    });
+
+    it('createGame and createGamePlan are queued with the ids made on the device', async () => {
+      setupOffline();
+      const { result } = renderHook(() => useOfflineMutations());
+      const now = new Date().toISOString();
+
+      await act(async () => {
+        await result.current.mutations.createGame({ id: 'game-new', teamId: 't1', opponent: 'Rapids' });
+        await result.current.mutations.createGamePlan({
+          id: 'plan-new',
+          gameId: 'game-new',
+          rotationIntervalMinutes: 10,
+          totalRotations: 4,
+          createdAt: now,
+          updatedAt: now,
+        });
+      });
+
+      expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'Game',
+        operation: 'create',
+        payload: expect.objectContaining({ id: 'game-new' }),
+      }));
+      expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({
+        model: 'GamePlan',
+        operation: 'create',
+        payload: expect.objectContaining({ id: 'plan-new', gameId: 'game-new' }),
+      }));
+      expect(mockGameCreate).not.toHaveBeenCalled();
+    });
+
+    it('createGameEvent is queued while offline', async () => {
+      setupOffline();
+      const { result } = renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        await result.current.mutations.createGameEvent({
+          gameId: 'g1',
+          eventType: 'shot-on-target',
+          forUs: true,
+          playerId: 'p1',
+          gameSeconds: 640,
+          half: 1,
+          timestamp: new Date().toISOString(),
+        });
+      });
+
+      expect(mockEnqueue).toHaveBeenCalledWith(
+        expect.objectContaining({
+          model: 'GameEvent',
+          operation: 'create',
+          payload: expect.objectContaining({ eventType: 'shot-on-target', gameSeconds: 640 }),
+        })
+      );
+      expect(mockGameEventCreate).not.toHaveBeenCalled();
+    });
+
     it('queues GameNote update and delete while offline', async () => {
       setupOffline();
       const { result } = renderHook(() => useOfflineMutations());
@@ -390,6 +556,26 @@ describe('useOfflineMutations', () => {
       expect(mockDeleteSecureGameNote).not.toHaveBeenCalled();
     });
 
+    it('queued Game updates carry the server updatedAt and values of the game on screen', async () => {
+      setupOffline();
+      const { result } = renderHook(() =>
+        useOfflineMutations({ game: { id: 'g1', updatedAt: '2026-05-01T10:00:00.000Z', status: 'in-progress', elapsedSeconds: 1500 } })
+      );
+
+      await act(async () => {
+        await result.current.mutations.updateGame('g1', { status: 'completed', elapsedSeconds: 1530, lastStartTime: null });
+        await result.current.mutations.updateGame('g2', { elapsedSeconds: 30 });
+      });
+
+      expect(mockEnqueue).toHaveBeenNthCalledWith(1, expect.objectContaining({
+        payload: { id: 'g1', status: 'completed', elapsedSeconds: 1530, lastStartTime: null },
+        baseUpdatedAt: '2026-05-01T10:00:00.000Z',
+        baseValues: { status: 'in-progress', elapsedSeconds: 1500, lastStartTime: null },
+      }));
+      expect(mockEnqueue.mock.calls[1][0]).not.toHaveProperty('baseUpdatedAt');
+      expect(mockEnqueue.mock.calls[1][0]).not.toHaveProperty('baseValues');
+    });
+
     it('still enqueues even when fetchAuthSession fails (no ownerSub)', async () => {
       setupOffline();
       mockFetchAuthSession.mockRejectedValue(new Error('Session expired'));
@@ -409,7 +595,7 @@ describe('useOfflineMutations', () => {
 
   describe('drainQueue — triggered on reconnect', () => {
     it('deduplicates then replays queued mutations via the Amplify client', async () => {
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'Game',
@@ -429,12 +615,12 @@ describe('useOfflineMutations', () => {
       await flush();
 
       expect(mockDeduplicateGameUpdates).toHaveBeenCalled();
-      expect(mockDequeueAll).toHaveBeenCalled();
+      expect(mockClaimPending).toHaveBeenCalled();
       expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', elapsedSeconds: 60 });
     });
 
     it('replays queued GameNote writes through the secure custom mutations', async () => {
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'GameNote',
@@ -499,7 +685,7 @@ describe('useOfflineMutations', () => {
     });
 
     it('requeues malformed legacy GameNote delete payloads with canonical validation code', async () => {
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'GameNote',
@@ -519,13 +705,13 @@ describe('useOfflineMutations', () => {
       await flush();
 
       expect(mockRequeueFailed).toHaveBeenCalledWith(
-        expect.arrayContaining([expect.objectContaining({ id: 'q1' })])
+        expect.arrayContaining([expect.objectContaining({ id: 'q1', lastError: expect.any(String) })])
       );
       expect(mockDeleteSecureGameNote).not.toHaveBeenCalled();
     });
 
     it('replays queued PlayerAvailability updates via the Amplify client', async () => {
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'PlayerAvailability',
@@ -551,6 +737,33 @@ describe('useOfflineMutations', () => {
       });
     });
 
+    it('replays queued GameEvent creates via the Amplify client', async () => {
+      mockGameEventCreate.mockResolvedValue({ data: {} });
+      mockClaimPending.mockResolvedValue([
+        {
+          id: 'q1',
+          model: 'GameEvent',
+          operation: 'create',
+          payload: { gameId: 'g1', eventType: 'corner', forUs: false, gameSeconds: 300, half: 1, timestamp: 't' },
+          enqueuedAt: 1,
+          retryCount: 0,
+          ownerSub: DEFAULT_SUB,
+        },
+      ]);
+
+      renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        capturedOnReconnect?.();
+      });
+      await flush();
+
+      expect(mockGameEventCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ gameId: 'g1', eventType: 'corner', forUs: false })
+      );
+      expect(mockRequeueFailed).not.toHaveBeenCalled();
+    });
+
     it('shows a warning and resets isSyncing when auth refresh fails', async () => {
       mockFetchAuthSession.mockRejectedValue(new Error('Auth error'));
       const { result } = renderHook(() => useOfflineMutations());
@@ -564,6 +777,23 @@ describe('useOfflineMutations', () => {
       expect(result.current.isSyncing).toBe(false);
     });
 
+    it('does not replay anything when the session has no signed-in coach', async () => {
+      mockFetchAuthSession.mockResolvedValue({ tokens: undefined });
+      mockClaimPending.mockResolvedValue([
+        { id: 'q1', model: 'Game', operation: 'update', payload: { id: 'g1' }, enqueuedAt: 1, retryCount: 0 },
+      ]);
+      const { result } = renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        capturedOnReconnect?.();
+      });
+      await flush();
+
+      expect(mockClaimPending).not.toHaveBeenCalled();
+      expect(mockShowWarning).toHaveBeenCalled();
+      expect(result.current.isSyncing).toBe(false);
+    });
+
     it('resets isSyncing to false via the finally block when drain throws unexpectedly', async () => {
       mockDeduplicateGameUpdates.mockRejectedValue(new Error('IDB failure'));
       const { result } = renderHook(() => useOfflineMutations());
@@ -583,7 +813,7 @@ describe('useOfflineMutations', () => {
       mockFetchAuthSession.mockResolvedValue({
         tokens: { idToken: { payload: { sub: 'user-B' } } },
       });
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'Game',
@@ -613,7 +843,7 @@ describe('useOfflineMutations', () => {
     });
 
     it('replays mutations with no ownerSub regardless of current user', async () => {
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'Game',
@@ -637,7 +867,7 @@ describe('useOfflineMutations', () => {
 
     it('requeues mutations that fail to replay', async () => {
       mockGameUpdate.mockRejectedValue(new Error('API error'));
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'Game',
@@ -661,8 +891,52 @@ describe('useOfflineMutations', () => {
       );
     });
 
+    it('replays a game created offline before its plan and rotations', async () => {
+      const calls: string[] = [];
+      mockGameCreate.mockImplementation(async () => { calls.push('Game'); return { data: {} }; });
+      mockGamePlanCreate.mockImplementation(async () => { calls.push('GamePlan'); return { data: {} }; });
+      mockPlannedRotationCreate.mockImplementation(async () => { calls.push('PlannedRotation'); return { data: {} }; });
+      mockClaimPending.mockResolvedValue([
+        { id: 'q1', model: 'PlannedRotation', operation: 'create', payload: { id: 'r1', gamePlanId: 'plan-1' }, enqueuedAt: 3, retryCount: 0, ownerSub: DEFAULT_SUB },
+        { id: 'q2', model: 'GamePlan', operation: 'create', payload: { id: 'plan-1', gameId: 'g1' }, enqueuedAt: 2, retryCount: 0, ownerSub: DEFAULT_SUB },
+        { id: 'q3', model: 'Game', operation: 'create', payload: { id: 'g1', opponent: 'Rapids' }, enqueuedAt: 1, retryCount: 0, ownerSub: DEFAULT_SUB },
+      ]);
+
+      renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        capturedOnReconnect?.();
+      });
+      await flush();
+
+      expect(calls).toEqual(['Game', 'GamePlan', 'PlannedRotation']);
+      expect(mockRequeueFailed).not.toHaveBeenCalled();
+    });
+
+    it('holds back the plan of a game the server rejects and reports both', async () => {
+      mockGameCreate.mockResolvedValue({ data: null, errors: [{ message: 'Unauthorized' }] });
+      mockClaimPending.mockResolvedValue([
+        { id: 'q1', model: 'Game', operation: 'create', payload: { id: 'g1', opponent: 'Rapids' }, enqueuedAt: 1, retryCount: 0, ownerSub: DEFAULT_SUB },
+        { id: 'q2', model: 'GamePlan', operation: 'create', payload: { id: 'plan-1', gameId: 'g1' }, enqueuedAt: 2, retryCount: 0, ownerSub: DEFAULT_SUB },
+      ]);
+
+      renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        capturedOnReconnect?.();
+      });
+      await flush();
+
+      expect(mockGamePlanCreate).not.toHaveBeenCalled();
+      expect(mockRequeueFailed).toHaveBeenCalledWith([expect.objectContaining({ id: 'q1' })]);
+      expect(mockRequeueFailed).toHaveBeenCalledWith([
+        expect.objectContaining({ id: 'q2', lastError: 'Held back: its game did not sync' }),
+      ]);
+      expect(mockShowWarning).toHaveBeenCalledWith(expect.stringContaining('New game vs Rapids'));
+    });
+
     it('requeues (and does not execute) items with a disallowed model name', async () => {
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'EvilModel',
@@ -681,7 +955,7 @@ describe('useOfflineMutations', () => {
       });
       await flush();
 
-      // executeSingleMutation throws for unknown models → item gets requeued
+      // The drain throws for unknown models → item gets requeued
       expect(mockRequeueFailed).toHaveBeenCalled();
       expect(mockGameUpdate).not.toHaveBeenCalled();
     });
@@ -714,10 +988,80 @@ describe('useOfflineMutations', () => {
     });
   });
 
+  describe('drainQueue — conflicts with another coach', () => {
+    const staleItem = {
+      id: 'q1',
+      model: 'Game',
+      operation: 'update',
+      payload: { id: 'g1', status: 'completed' },
+      enqueuedAt: 1,
+      retryCount: 0,
+      ownerSub: DEFAULT_SUB,
+      baseUpdatedAt: '2026-05-01T10:00:00.000Z',
+    };
+    const conflict = {
+      id: 'q1',
+      mutation: staleItem,
+      fields: [{ field: 'status', local: 'completed', server: 'in-progress' }],
+      mergedPayload: { id: 'g1' },
+      serverUpdatedAt: '2026-05-01T10:05:00.000Z',
+      detectedAt: 2,
+    };
+
+    it('holds an update that clashes with the server as a conflict instead of replaying it', async () => {
+      mockClaimPending.mockResolvedValue([staleItem]);
+      mockPlanQueuedReplay.mockResolvedValue({ kind: 'conflict', conflict });
+      mockListConflicts.mockResolvedValueOnce([]).mockResolvedValue([conflict]);
+
+      const { result } = renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        capturedOnReconnect?.();
+      });
+      await flush();
+
+      expect(mockGameUpdate).not.toHaveBeenCalled();
+      expect(mockRequeueFailed).not.toHaveBeenCalled();
+      expect(mockSaveConflicts).toHaveBeenCalledWith([conflict]);
+      expect(result.current.conflicts).toEqual([conflict]);
+    });
+
+    it('replays the merged payload the conflict check returns', async () => {
+      mockClaimPending.mockResolvedValue([staleItem]);
+      mockPlanQueuedReplay.mockResolvedValue({
+        kind: 'replay',
+        item: { ...staleItem, payload: { id: 'g1', elapsedSeconds: 1500 } },
+      });
+
+      renderHook(() => useOfflineMutations());
+
+      await act(async () => {
+        capturedOnReconnect?.();
+      });
+      await flush();
+
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', elapsedSeconds: 1500 });
+    });
+
+    it('resolveConflict settles the conflict and drops it from the list', async () => {
+      mockListConflicts.mockResolvedValue([conflict]);
+      const { result } = renderHook(() => useOfflineMutations());
+      await flush();
+      expect(result.current.conflicts).toHaveLength(1);
+
+      await act(async () => {
+        await result.current.resolveConflict('q1', 'keep-mine');
+      });
+
+      expect(mockResolveConflict).toHaveBeenCalledWith(conflict, 'keep-mine');
+      expect(result.current.conflicts).toEqual([]);
+    });
+  });
+
   describe('drainQueue — triggered on startup (mount-time drain)', () => {
     it('drains the queue on mount when online and there are pending items', async () => {
       mockPendingCount.mockResolvedValue(1);
-      mockDequeueAll.mockResolvedValue([
+      mockClaimPending.mockResolvedValue([
         {
           id: 'q1',
           model: 'Game',
@@ -734,7 +1078,7 @@ describe('useOfflineMutations', () => {
       await flush();
 
       expect(mockDeduplicateGameUpdates).toHaveBeenCalled();
-      expect(mockDequeueAll).toHaveBeenCalled();
+      expect(mockClaimPending).toHaveBeenCalled();
       expect(mockGameUpdate).toHaveBeenCalledWith({
         id: 'g1',
         status: 'completed',
@@ -750,7 +1094,7 @@ describe('useOfflineMutations', () => {
       renderHook(() => useOfflineMutations());
       await flush();
 
-      expect(mockDequeueAll).not.toHaveBeenCalled();
+      expect(mockClaimPending).not.toHaveBeenCalled();
       expect(mockGameUpdate).not.toHaveBeenCalled();
     });
 
@@ -761,7 +1105,7 @@ describe('useOfflineMutations', () => {
       renderHook(() => useOfflineMutations());
       await flush();
 
-      expect(mockDequeueAll).not.toHaveBeenCalled();
+      expect(mockClaimPending).not.toHaveBeenCalled();
       expect(mockGameUpdate).not.toHaveBeenCalled();
     });
   });
@@ -1,25 +1,42 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
 import { generateClient } from 'aws-amplify/data';
-import { fetchAuthSession } from 'aws-amplify/auth';
+import { fetchAuthSession, type AuthTokens } from 'aws-amplify/auth';
 import type { Schema } from '../../amplify/data/resource';
+import type { GameEventType } from '../types/schema';
 import { showWarning } from '../utils/toast';
+import { formatSyncFailureReport } from '../utils/offlineQueueUtils';
 import {
   enqueue,
-  dequeueAll,
-  requeueFailed,
-  requeuePreserved,
   pendingCount as getQueuePendingCount,
-  deduplicateGameUpdates,
+  listConflicts,
+  deadLetterCount as getDeadLetterCount,
+  getBackgroundSyncReport,
+  clearBackgroundSyncReport,
+  type BackgroundSyncReport,
   type QueuedMutation,
+  type SyncConflict,
 } from '../services/offlineQueueService';
+import { onBackgroundSyncReport, requestBackgroundSync } from '../services/backgroundSyncService';
+import { drainOfflineQueue, type QueuedMutationHandler } from '../services/offlineDrainService';
+import {
+  resolveConflict as resolveQueuedConflict,
+  type ConflictChoice,
+} from '../services/offlineConflictService';
 import { useNetworkStatus } from './useNetworkStatus';
 
 const client = generateClient<Schema>();
 
 type LineupAssignmentCreateInput = Parameters<typeof client.models.LineupAssignment.create>[0];
 type GoalCreateInput = Parameters<typeof client.models.Goal.create>[0];
+type ShootoutKickCreateInput = Parameters<typeof client.models.ShootoutKick.create>[0];
+type GameEventCreateInput = Parameters<typeof client.models.GameEvent.create>[0];
 type PlayerAvailabilityCreateInput = Parameters<typeof client.models.PlayerAvailability.create>[0];
 type PlayerAvailabilityUpdateInput = Parameters<typeof client.models.PlayerAvailability.update>[0];
+type GameCreateInput = Parameters<typeof client.models.Game.create>[0];
+type GamePlanCreateInput = Parameters<typeof client.models.GamePlan.create>[0];
+type GamePlanUpdateInput = Parameters<typeof client.models.GamePlan.update>[0];
+type PlannedRotationCreateInput = Parameters<typeof client.models.PlannedRotation.create>[0];
+type PlannedRotationUpdateInput = Parameters<typeof client.models.PlannedRotation.update>[0];
 
 // ── Typed input fields for each live-game mutation ──────────────────────────
 
@@ -28,8 +45,13 @@ export interface GameUpdateFields {
   currentHalf?: number | null;
   lastStartTime?: string | null;
   elapsedSeconds?: number | null;
+  addedTimeMode?: boolean | null;
+  addedTimeSeconds?: Array<number | null> | null;
   ourScore?: number | null;
   opponentScore?: number | null;
+  shootoutOurScore?: number | null;
+  shootoutOpponentScore?: number | null;
+  halfLengthMinutes?: number | null;
 }
 
 export interface PlayTimeRecordCreateFields {
@@ -84,6 +106,27 @@ export interface GoalUpdateFields {
   notes?: string | null;
 }
 
+export interface ShootoutKickCreateFields {
+  gameId: string;
+  kickNumber: number;
+  scoredByUs: boolean;
+  takerId?: string | null;
+  scored: boolean;
+  timestamp: string;
+  coaches?: string[] | null;
+}
+
+export interface GameEventCreateFields {
+  gameId: string;
+  eventType: GameEventType;
+  forUs: boolean;
+  playerId?: string | null;
+  gameSeconds: number;
+  half: number;
+  timestamp: string;
+  coaches?: string[] | null;
+}
+
 export interface GameNoteCreateFields {
   gameId: string;
   noteType: 'coaching-point' | 'gold-star' | 'yellow-card' | 'red-card' | 'other';
@@ -104,17 +147,20 @@ export interface GameNoteUpdateFields {
 }
 
 export interface PlayerAvailabilityCreateFields {
+  id?: string; // client-generated when marked offline, so later edits can find it
   gameId: string;
   playerId: string;
   status: string;
   markedAt: string;
   coaches?: string[] | null;
+  availableFromMinute?: number | null;
   availableUntilMinute?: number | null;
   notes?: string | null;
 }
 
 export interface PlayerAvailabilityUpdateFields {
   status?: string | null;
+  availableFromMinute?: number | null;
   availableUntilMinute?: number | null;
   markedAt?: string | null;
   notes?: string | null;
@@ -128,6 +174,59 @@ export interface QueuedSubstitutionCreateFields {
   coaches?: string[] | null;
 }
 
+// ── Typed input fields for game planning, which also works offline ──────────
+// Creates carry a client-generated id, so a plan and its rotations can point
+// at a game that has not reached the server yet.
+
+export interface GameCreateFields {
+  id: string;
+  teamId: string;
+  opponentId?: string | null;
+  opponent: string;
+  isHome: boolean;
+  gameDate?: string | null;
+  seasonId?: string | null;
+  coaches?: string[] | null;
+}
+
+export interface GamePlanCreateFields {
+  id: string;
+  gameId: string;
+  rotationIntervalMinutes: number;
+  totalRotations: number;
+  startingLineup?: string | null;
+  halftimeLineup?: string | null;
+  keeperPlan?: string | null;
+  createdAt: string;
+  updatedAt: string;
+  coaches?: string[] | null;
+}
+
+export interface GamePlanUpdateFields {
+  rotationIntervalMinutes?: number;
+  totalRotations?: number;
+  startingLineup?: string | null;
+  halftimeLineup?: string | null;
+  keeperPlan?: string | null;
+  updatedAt?: string;
+}
+
+export interface PlannedRotationCreateFields {
+  id: string;
+  gamePlanId: string;
+  rotationNumber: number;
+  gameMinute: number;
+  half: number;
+  plannedSubstitutions: string;
+  coaches?: string[] | null;
+}
+
+export interface PlannedRotationUpdateFields {
+  gameMinute?: number;
+  half?: number;
+  plannedSubstitutions?: string;
+}
+
 export interface GameMutationInput {
   updateGame: (id: string, fields: GameUpdateFields) => Promise<void>;
   createPlayTimeRecord: (fields: PlayTimeRecordCreateFields) => Promise<void>;
@@ -139,6 +238,10 @@ export interface GameMutationInput {
   createGoal: (fields: GoalCreateFields) => Promise<void>;
   deleteGoal: (id: string) => Promise<void>;
   updateGoal: (id: string, fields: GoalUpdateFields) => Promise<void>;
+  createShootoutKick: (fields: ShootoutKickCreateFields) => Promise<void>;
+  deleteShootoutKick: (id: string) => Promise<void>;
+  createGameEvent: (fields: GameEventCreateFields) => Promise<void>;
+  deleteGameEvent: (id: string) => Promise<void>;
   createGameNote: (fields: GameNoteCreateFields) => Promise<void>;
   updateGameNote: (id: string, fields: GameNoteUpdateFields) => Promise<void>;
   deleteGameNote: (id: string) => Promise<void>;
@@ -146,6 +249,20 @@ export interface GameMutationInput {
   updatePlayerAvailability: (id: string, fields: PlayerAvailabilityUpdateFields) => Promise<void>;
   createQueuedSubstitution: (fields: QueuedSubstitutionCreateFields) => Promise<void>;
   deleteQueuedSubstitution: (id: string) => Promise<void>;
+  createGame: (fields: GameCreateFields) => Promise<void>;
+  createGamePlan: (fields: GamePlanCreateFields) => Promise<void>;
+  updateGamePlan: (id: string, fields: GamePlanUpdateFields) => Promise<void>;
+  deleteGamePlan: (id: string) => Promise<void>;
+  createPlannedRotation: (fields: PlannedRotationCreateFields) => Promise<void>;
+  updatePlannedRotation: (id: string, fields: PlannedRotationUpdateFields) => Promise<void>;
+  deletePlannedRotation: (id: string) => Promise<void>;
+}
+
+export interface UseOfflineMutationsOptions {
+  /** Server copy of the game on screen. Game updates queued while offline carry
+   * its `updatedAt` and its values for the fields they change, so replay can
+   * tell whether another coach changed the game, and which fields. */
+  game?: { id: string; updatedAt?: string | null } & GameUpdateFields;
 }
 
 export interface UseOfflineMutationsResult {
@@ -153,12 +270,19 @@ export interface UseOfflineMutationsResult {
   isOnline: boolean;
   pendingCount: number;
   isSyncing: boolean;
+  /** Queued mutations that failed every retry and wait in the dead-letter store */
+  deadLetterCount: number;
+  /** Queued updates that clashed with another coach's changes */
+  conflicts: SyncConflict[];
+  resolveConflict: (id: string, choice: ConflictChoice) => Promise<void>;
+  /** Replays the queue now instead of waiting for a reconnect */
+  syncNow: () => Promise<void>;
+  /** What the service worker synced while the app was closed, until dismissed */
+  backgroundSyncReport: BackgroundSyncReport | null;
+  dismissBackgroundSyncReport: () => Promise<void>;
 }
 
-// ── Replay a single queued mutation against the live API ─────────────────────
-
-const ALLOWED_MODELS = new Set(['Game', 'PlayTimeRecord', 'Substitution', 'LineupAssignment', 'Goal', 'GameNote', 'PlayerAvailability', 'QueuedSubstitution']);
-const ALLOWED_OPS = new Set(['create', 'update', 'delete']);
+// ── Replay queued GameNote writes ────────────────────────────────────────────
 
 function getSafeErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message) {
@@ -227,7 +351,7 @@ function shouldRetryUpdateWithoutLastStartTime(fields: GameUpdateFields, errors:
 function isCriticalLastStartTimeTransition(fields: GameUpdateFields): boolean {
   const hasNonEmptyLastStartTime =
     typeof fields.lastStartTime === 'string' && fields.lastStartTime.trim().length > 0;
-  return hasNonEmptyLastStartTime && (fields.status === 'in-progress' || fields.currentHalf === 2);
+  return hasNonEmptyLastStartTime && (fields.status === 'in-progress' || (fields.currentHalf ?? 1) > 1);
 }
 
 type SecureGameNoteCreatePayload = {
@@ -306,49 +430,66 @@ async function executeSecureDeleteGameNote(payload: { id: string }): Promise<voi
   }
 }
 
-async function executeSingleMutation(item: QueuedMutation): Promise<void> {
-  if (!ALLOWED_MODELS.has(item.model) || !ALLOWED_OPS.has(item.operation)) {
-    throw new Error(`Disallowed model/operation in offline queue: ${item.model}.${item.operation}`);
-  }
-  if (item.model === 'GameNote' && item.operation === 'create') {
-    await executeSecureCreateGameNote(item.payload as unknown as GameNoteCreateFields & { authorId?: unknown });
-    return;
-  }
-  if (item.model === 'GameNote' && item.operation === 'update') {
-    await executeSecureUpdateGameNote(item.payload as unknown as { id: string } & GameNoteUpdateFields & { authorId?: unknown });
-    return;
-  }
-  if (item.model === 'GameNote' && item.operation === 'delete') {
-    const translatedPayload = translateLegacyGameNoteDeletePayload(item.payload);
-    await executeSecureDeleteGameNote(translatedPayload);
-    return;
-  }
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const m = (client.models as Record<string, any>)[item.model];
-  if (!m) throw new Error(`Unknown model in offline queue: ${item.model}`);
+// GameNote writes go through the secure custom mutations, so the author is set server-side
+async function replayGameNoteMutation(item: QueuedMutation): Promise<void> {
   switch (item.operation) {
-    case 'create': await m.create(item.payload); return;
-    case 'update': await m.update(item.payload); return;
-    case 'delete': await m.delete(item.payload); return;
+    case 'create':
+      await executeSecureCreateGameNote(item.payload as unknown as GameNoteCreateFields & { authorId?: unknown });
+      return;
+    case 'update':
+      await executeSecureUpdateGameNote(item.payload as unknown as { id: string } & GameNoteUpdateFields & { authorId?: unknown });
+      return;
+    case 'delete':
+      await executeSecureDeleteGameNote(translateLegacyGameNoteDeletePayload(item.payload));
+      return;
   }
 }
 
+const REPLAY_HANDLERS: ReadonlyMap<string, QueuedMutationHandler> = new Map([['GameNote', replayGameNoteMutation]]);
+
 // ── Hook ─────────────────────────────────────────────────────────────────────
 
-export function useOfflineMutations(): UseOfflineMutationsResult {
+export function useOfflineMutations(options: UseOfflineMutationsOptions = {}): UseOfflineMutationsResult {
   const [queuedCount, setQueuedCount] = useState(0);
   const [isSyncing, setIsSyncing] = useState(false);
+  const [conflicts, setConflicts] = useState<SyncConflict[]>([]);
+  const [deadLetters, setDeadLetters] = useState(0);
+  const [backgroundSyncReport, setBackgroundSyncReport] = useState<BackgroundSyncReport | null>(null);
 
   // Ref so mutation callbacks don't need to re-create when isOnline changes
   const isOnlineRef = useRef(navigator.onLine);
 
-  // Load initial count from IndexedDB on mount (persists across reloads)
+  // Ref so updateGame reads the latest server version without re-creating
+  const gameVersionRef = useRef(options.game);
+  const game = options.game;
+  useEffect(() => {
+    gameVersionRef.current = game;
+  }, [game]);
+
+  // Load initial count and unresolved conflicts from IndexedDB on mount (persists across reloads)
   useEffect(() => {
     void getQueuePendingCount()
       .then(setQueuedCount)
       .catch(() => setQueuedCount(0));
+    void listConflicts()
+      .then(setConflicts)
+      .catch(() => setConflicts([]));
+    void getDeadLetterCount()
+      .then(setDeadLetters)
+      .catch(() => setDeadLetters(0));
+    void getBackgroundSyncReport()
+      .then(report => setBackgroundSyncReport(report ?? null))
+      .catch(() => setBackgroundSyncReport(null));
   }, []);
 
+  // The service worker drained the queue while this page was open
+  useEffect(() => onBackgroundSyncReport(report => {
+    setBackgroundSyncReport(report);
+    void getQueuePendingCount().then(setQueuedCount).catch(() => {});
+    void listConflicts().then(setConflicts).catch(() => {});
+    void getDeadLetterCount().then(setDeadLetters).catch(() => {});
+  }), []);
+
   const drainQueue = useCallback(async () => {
     setIsSyncing(true);
     let session;
@@ -360,50 +501,25 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
       return;
     }
 
-    // Extract the current user's identity to guard against cross-user replay
-    // on shared devices (security fix: MAJOR-1).
+    // Queued writes are only replayed as the coach who made them, so a shared
+    // device can't replay one coach's writes with another's session.
     const currentSub = session.tokens?.idToken?.payload?.sub as string | undefined;
+    if (!currentSub) {
+      showWarning('Please reconnect and refresh to sync offline changes');
+      setIsSyncing(false);
+      return;
+    }
 
     try {
-      await deduplicateGameUpdates();
-      const items = await dequeueAll();
-
-      // Separate cross-user items (must not count toward retryCount) from
-      // items that genuinely failed to execute (should increment retryCount).
-      const crossUserHold: QueuedMutation[] = [];
-      const actuallyFailed: QueuedMutation[] = [];
-
-      for (const item of items) {
-        // Skip mutations queued by a different user session. Put them in
-        // crossUserHold so they are restored as-is (retryCount unchanged).
-        if (item.ownerSub && currentSub && item.ownerSub !== currentSub) {
-          console.warn('Skipping queued mutation from a different user session — preserving for later replay.');
-          crossUserHold.push(item);
-          continue;
-        }
-        try {
-          await executeSingleMutation(item);
-        } catch (err) {
-          actuallyFailed.push(item);
-          console.warn(
-            `[useOfflineMutations] Failed to replay queued mutation ${item.model}.${item.operation}: ${getSafeErrorMessage(err)}`
-          );
-        }
+      const { rejected, heldBackCount, conflictCount } = await drainOfflineQueue(currentSub, REPLAY_HANDLERS);
+      if (rejected.length > 0) {
+        showWarning(formatSyncFailureReport(rejected, heldBackCount));
       }
-
-      // Restore cross-user items without touching retryCount so they are never
-      // dropped by MAX_RETRIES before the correct user can replay them.
-      if (crossUserHold.length > 0) {
-        await requeuePreserved(crossUserHold);
-      }
-
-      // Increment retryCount only for genuinely-failed execution attempts.
-      if (actuallyFailed.length > 0) {
-        await requeueFailed(actuallyFailed);
+      setDeadLetters(await getDeadLetterCount());
+      if (conflictCount > 0) {
+        setConflicts(await listConflicts());
       }
-
-      const remaining = await getQueuePendingCount();
-      setQueuedCount(remaining);
+      setQueuedCount(await getQueuePendingCount());
     } catch (err) {
       console.error(`[useOfflineMutations] Unexpected error during offline queue drain: ${getSafeErrorMessage(err)}`);
     } finally {
@@ -444,7 +560,8 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
       model: string,
       operation: 'create' | 'update' | 'delete',
       payload: Record<string, unknown>,
-      directFn: () => Promise<void>
+      directFn: () => Promise<void>,
+      base?: Pick<QueuedMutation, 'baseUpdatedAt' | 'baseValues'>
     ): Promise<void> => {
       if (isOnlineRef.current) {
         await directFn();
@@ -452,14 +569,18 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
         // Capture the current user's sub so drain can reject items from other
         // sessions on shared devices (security fix: MAJOR-1).
         let ownerSub: string | undefined;
+        let tokens: AuthTokens | undefined;
         try {
           const session = await fetchAuthSession();
+          tokens = session.tokens;
           ownerSub = session.tokens?.idToken?.payload?.sub as string | undefined;
         } catch {
           // Unable to identify user — enqueue anyway; drain will check sub.
         }
-        await enqueue({ model, operation, payload, ownerSub });
+        await enqueue({ model, operation, payload, ownerSub, ...base });
         setQueuedCount((prev) => prev + 1);
+        // Syncs it from the service worker even if the app is closed before reconnecting
+        void requestBackgroundSync(tokens).catch(() => {});
       }
     },
     []
@@ -469,6 +590,15 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
 
   const updateGame = useCallback(
     async (id: string, fields: GameUpdateFields): Promise<void> => {
+      const version = gameVersionRef.current;
+      const base = version?.id === id && version.updatedAt
+        ? {
+            baseUpdatedAt: version.updatedAt,
+            baseValues: Object.fromEntries(
+              (Object.keys(fields) as Array<keyof GameUpdateFields>).map(field => [field, version[field] ?? null])
+            ),
+          }
+        : undefined;
       await enqueueOrRun(
         'Game', 'update',
         { id, ...fields } as Record<string, unknown>,
@@ -510,7 +640,8 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
             console.error(`[updateGame] GraphQL error for game ${id}: ${msg}`);
             throw new Error(`[updateGame] ${msg}`);
           }
-        }
+        },
+        base
       );
     },
     [enqueueOrRun]
@@ -638,6 +769,62 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
     [enqueueOrRun]
   );
 
+  const createShootoutKick = useCallback(
+    async (fields: ShootoutKickCreateFields): Promise<void> => {
+      await enqueueOrRun(
+        'ShootoutKick', 'create',
+        fields as unknown as Record<string, unknown>,
+        async () => {
+          const result = await client.models.ShootoutKick.create(fields as ShootoutKickCreateInput);
+          assertNoGraphQLErrors(result, 'Failed to record shootout kick');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const deleteShootoutKick = useCallback(
+    async (id: string): Promise<void> => {
+      await enqueueOrRun(
+        'ShootoutKick', 'delete',
+        { id },
+        async () => {
+          const result = await client.models.ShootoutKick.delete({ id });
+          assertNoGraphQLErrors(result, 'Failed to delete shootout kick');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const createGameEvent = useCallback(
+    async (fields: GameEventCreateFields): Promise<void> => {
+      await enqueueOrRun(
+        'GameEvent', 'create',
+        fields as unknown as Record<string, unknown>,
+        async () => {
+          const result = await client.models.GameEvent.create(fields as GameEventCreateInput);
+          assertNoGraphQLErrors(result, 'Failed to record game event');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const deleteGameEvent = useCallback(
+    async (id: string): Promise<void> => {
+      await enqueueOrRun(
+        'GameEvent', 'delete',
+        { id },
+        async () => {
+          const result = await client.models.GameEvent.delete({ id });
+          assertNoGraphQLErrors(result, 'Failed to delete game event');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
   const createGameNote = useCallback(
     async (fields: GameNoteCreateFields): Promise<void> => {
       const { authorId: _strippedAuthorId, coaches: _strippedCoaches, ...safeFields } = fields as GameNoteCreateFields & {
@@ -737,6 +924,104 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
     [enqueueOrRun]
   );
 
+  const createGame = useCallback(
+    async (fields: GameCreateFields): Promise<void> => {
+      await enqueueOrRun(
+        'Game', 'create',
+        { ...fields } as Record<string, unknown>,
+        async () => {
+          const result = await client.models.Game.create(fields as GameCreateInput);
+          assertNoGraphQLErrors(result, 'Failed to create game');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const createGamePlan = useCallback(
+    async (fields: GamePlanCreateFields): Promise<void> => {
+      await enqueueOrRun(
+        'GamePlan', 'create',
+        { ...fields } as Record<string, unknown>,
+        async () => {
+          const result = await client.models.GamePlan.create(fields as GamePlanCreateInput);
+          assertNoGraphQLErrors(result, 'Failed to create game plan');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const updateGamePlan = useCallback(
+    async (id: string, fields: GamePlanUpdateFields): Promise<void> => {
+      await enqueueOrRun(
+        'GamePlan', 'update',
+        { id, ...fields } as Record<string, unknown>,
+        async () => {
+          const result = await client.models.GamePlan.update({ id, ...fields } as GamePlanUpdateInput);
+          assertNoGraphQLErrors(result, 'Failed to update game plan');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const deleteGamePlan = useCallback(
+    async (id: string): Promise<void> => {
+      await enqueueOrRun(
+        'GamePlan', 'delete',
+        { id },
+        async () => {
+          const result = await client.models.GamePlan.delete({ id });
+          assertNoGraphQLErrors(result, 'Failed to delete game plan');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const createPlannedRotation = useCallback(
+    async (fields: PlannedRotationCreateFields): Promise<void> => {
+      await enqueueOrRun(
+        'PlannedRotation', 'create',
+        { ...fields } as Record<string, unknown>,
+        async () => {
+          const result = await client.models.PlannedRotation.create(fields as PlannedRotationCreateInput);
+          assertNoGraphQLErrors(result, 'Failed to create planned rotation');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const updatePlannedRotation = useCallback(
+    async (id: string, fields: PlannedRotationUpdateFields): Promise<void> => {
+      await enqueueOrRun(
+        'PlannedRotation', 'update',
+        { id, ...fields } as Record<string, unknown>,
+        async () => {
+          const result = await client.models.PlannedRotation.update({ id, ...fields } as PlannedRotationUpdateInput);
+          assertNoGraphQLErrors(result, 'Failed to update planned rotation');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
+  const deletePlannedRotation = useCallback(
+    async (id: string): Promise<void> => {
+      await enqueueOrRun(
+        'PlannedRotation', 'delete',
+        { id },
+        async () => {
+          const result = await client.models.PlannedRotation.delete({ id });
+          assertNoGraphQLErrors(result, 'Failed to delete planned rotation');
+        }
+      );
+    },
+    [enqueueOrRun]
+  );
+
   const mutations = useMemo(
     (): GameMutationInput => ({
       updateGame,
@@ -749,6 +1034,10 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
       createGoal,
       deleteGoal,
       updateGoal,
+      createShootoutKick,
+      deleteShootoutKick,
+      createGameEvent,
+      deleteGameEvent,
       createGameNote,
       updateGameNote,
       deleteGameNote,
@@ -756,15 +1045,53 @@ export function useOfflineMutations(): UseOfflineMutationsResult {
       updatePlayerAvailability,
       createQueuedSubstitution,
       deleteQueuedSubstitution,
+      createGame,
+      createGamePlan,
+      updateGamePlan,
+      deleteGamePlan,
+      createPlannedRotation,
+      updatePlannedRotation,
+      deletePlannedRotation,
     }),
     [
       updateGame, createPlayTimeRecord, updatePlayTimeRecord, createSubstitution,
       createLineupAssignment, deleteLineupAssignment, updateLineupAssignment,
-      createGoal, deleteGoal, updateGoal, createGameNote, updateGameNote, deleteGameNote,
+      createGoal, deleteGoal, updateGoal, createShootoutKick, deleteShootoutKick,
+      createGameEvent, deleteGameEvent, createGameNote, updateGameNote, deleteGameNote,
       createPlayerAvailability, updatePlayerAvailability,
       createQueuedSubstitution, deleteQueuedSubstitution,
+      createGame, createGamePlan, updateGamePlan, deleteGamePlan,
+      createPlannedRotation, updatePlannedRotation, deletePlannedRotation,
     ]
   );
 
-  return { mutations, isOnline, pendingCount: queuedCount, isSyncing };
+  const resolveConflict = useCallback(
+    async (id: string, choice: ConflictChoice): Promise<void> => {
+      const conflict = conflicts.find(c => c.id === id);
+      if (!conflict) return;
+      await resolveQueuedConflict(conflict, choice);
+      setConflicts(prev => prev.filter(c => c.id !== id));
+      setQueuedCount(await getQueuePendingCount());
+      if (isOnlineRef.current) void drainQueue();
+    },
+    [conflicts, drainQueue]
+  );
+
+  const dismissBackgroundSyncReport = useCallback(async (): Promise<void> => {
+    setBackgroundSyncReport(null);
+    await clearBackgroundSyncReport();
+  }, []);
+
+  return {
+    mutations,
+    isOnline,
+    pendingCount: queuedCount,
+    isSyncing,
+    deadLetterCount: deadLetters,
+    conflicts,
+    resolveConflict,
+    syncNow: drainQueue,
+    backgroundSyncReport,
+    dismissBackgroundSyncReport,
+  };
 }
@@ -4,24 +4,44 @@ import { useOfflineQueueDrain } from "./useOfflineQueueDrain";
 
 const {
   mockPendingCount,
-  mockDequeueAll,
+  mockClaimPending,
+  mockRemovePending,
   mockRequeueFailed,
   mockRequeuePreserved,
   mockDeduplicateGameUpdates,
+  mockSaveConflicts,
+  mockGameGet,
   mockFetchAuthSession,
   mockUseNetworkStatus,
   mockGameUpdate,
   mockGoalCreate,
+  mockGameCreate,
+  mockGamePlanCreate,
+  mockPlannedRotationCreate,
+  mockShowWarning,
+  mockShowSuccess,
+  mockShootoutKickCreate,
+  mockGameEventCreate,
 } = vi.hoisted(() => ({
   mockPendingCount: vi.fn(),
-  mockDequeueAll: vi.fn(),
+  mockClaimPending: vi.fn(),
+  mockRemovePending: vi.fn(),
   mockRequeueFailed: vi.fn(),
   mockRequeuePreserved: vi.fn(),
   mockDeduplicateGameUpdates: vi.fn(),
+  mockSaveConflicts: vi.fn(),
+  mockGameGet: vi.fn(),
   mockFetchAuthSession: vi.fn(),
   mockUseNetworkStatus: vi.fn(),
   mockGameUpdate: vi.fn(),
   mockGoalCreate: vi.fn(),
+  mockGameCreate: vi.fn(),
+  mockGamePlanCreate: vi.fn(),
+  mockPlannedRotationCreate: vi.fn(),
+  mockShowWarning: vi.fn(),
+  mockShowSuccess: vi.fn(),
+  mockShootoutKickCreate: vi.fn(),
+  mockGameEventCreate: vi.fn(),
 }));
 
 vi.mock("aws-amplify/auth", () => ({
@@ -31,33 +51,44 @@ vi.mock("aws-amplify/auth", () => ({
 vi.mock("aws-amplify/data", () => ({
   generateClient: vi.fn(() => ({
     models: {
-      Game: { create: vi.fn(), update: mockGameUpdate, delete: vi.fn() },
+      Game: { create: mockGameCreate, update: mockGameUpdate, delete: vi.fn(), get: mockGameGet },
       Goal: { create: mockGoalCreate, update: vi.fn(), delete: vi.fn() },
       PlayTimeRecord: { create: vi.fn(), update: vi.fn(), delete: vi.fn() },
       Substitution: { create: vi.fn(), update: vi.fn(), delete: vi.fn() },
       LineupAssignment: { create: vi.fn(), update: vi.fn(), delete: vi.fn() },
       PlayerAvailability: { create: vi.fn(), update: vi.fn(), delete: vi.fn() },
+      GamePlan: { create: mockGamePlanCreate, update: vi.fn(), delete: vi.fn() },
+      PlannedRotation: { create: mockPlannedRotationCreate, update: vi.fn(), delete: vi.fn() },
+      ShootoutKick: { create: mockShootoutKickCreate, update: vi.fn(), delete: vi.fn() },
+      GameEvent: { create: mockGameEventCreate, update: vi.fn(), delete: vi.fn() },
     },
   })),
 }));
 
+vi.mock("../utils/toast", () => ({
+  showWarning: (...args: unknown[]) => mockShowWarning(...args),
+  showSuccess: (...args: unknown[]) => mockShowSuccess(...args),
+}));
+
 vi.mock("./useNetworkStatus", () => ({
   useNetworkStatus: (...args: unknown[]) => mockUseNetworkStatus(...args),
 }));
 
 vi.mock("../services/offlineQueueService", () => ({
   pendingCount: (...args: unknown[]) => mockPendingCount(...args),
-  dequeueAll: (...args: unknown[]) => mockDequeueAll(...args),
+  claimPending: (...args: unknown[]) => mockClaimPending(...args),
+  removePending: (...args: unknown[]) => mockRemovePending(...args),
   requeueFailed: (...args: unknown[]) => mockRequeueFailed(...args),
   requeuePreserved: (...args: unknown[]) => mockRequeuePreserved(...args),
   deduplicateGameUpdates: (...args: unknown[]) => mockDeduplicateGameUpdates(...args),
+  saveConflicts: (...args: unknown[]) => mockSaveConflicts(...args),
 }));
 
 describe("useOfflineQueueDrain", () => {
   beforeEach(() => {
     vi.clearAllMocks();
     mockPendingCount.mockResolvedValue(0);
-    mockDequeueAll.mockResolvedValue([]);
+    mockClaimPending.mockResolvedValue([]);
     mockFetchAuthSession.mockResolvedValue({
       tokens: { idToken: { payload: { sub: "user-1" } } },
     });
@@ -70,7 +101,7 @@ describe("useOfflineQueueDrain", () => {
 
   it("drains queue on startup when online and pending items exist", async () => {
     mockPendingCount.mockResolvedValue(1);
-    mockDequeueAll.mockResolvedValue([
+    mockClaimPending.mockResolvedValue([
       {
         id: "q1",
         model: "Game",
@@ -86,8 +117,9 @@ describe("useOfflineQueueDrain", () => {
 
     await waitFor(() => {
       expect(mockDeduplicateGameUpdates).toHaveBeenCalled();
-      expect(mockDequeueAll).toHaveBeenCalled();
+      expect(mockClaimPending).toHaveBeenCalled();
       expect(mockGameUpdate).toHaveBeenCalledWith({ id: "game-1", elapsedSeconds: 120 });
+      expect(mockRemovePending).toHaveBeenCalledWith("q1");
     });
   });
 
@@ -101,7 +133,7 @@ describe("useOfflineQueueDrain", () => {
 
     await new Promise(resolve => setTimeout(resolve, 0));
     expect(mockPendingCount).not.toHaveBeenCalled();
-    expect(mockDequeueAll).not.toHaveBeenCalled();
+    expect(mockClaimPending).not.toHaveBeenCalled();
   });
 
   it("drains on reconnect callback from network hook", async () => {
@@ -111,7 +143,7 @@ describe("useOfflineQueueDrain", () => {
     });
 
     mockPendingCount.mockResolvedValue(1);
-    mockDequeueAll.mockResolvedValue([
+    mockClaimPending.mockResolvedValue([
       {
         id: "q1",
         model: "Goal",
@@ -136,7 +168,7 @@ describe("useOfflineQueueDrain", () => {
 
   it("preserves non-drainable and cross-user items without replaying them", async () => {
     mockPendingCount.mockResolvedValue(2);
-    mockDequeueAll.mockResolvedValue([
+    mockClaimPending.mockResolvedValue([
       {
         id: "q1",
         model: "GameNote",
@@ -165,6 +197,29 @@ describe("useOfflineQueueDrain", () => {
     });
   });
 
+  it("replays queued shootout kicks and match events", async () => {
+    mockPendingCount.mockResolvedValue(2);
+    mockShootoutKickCreate.mockResolvedValue({ data: {} });
+    mockGameEventCreate.mockResolvedValue({ data: {} });
+    const kick = { gameId: "game-1", kickNumber: 1, scoredByUs: true, scored: true, timestamp: "2026-05-01T11:40:00.000Z" };
+    const corner = {
+      gameId: "game-1", eventType: "corner", forUs: true, gameSeconds: 1200, half: 1, timestamp: "2026-05-01T10:20:00.000Z",
+    };
+    mockClaimPending.mockResolvedValue([
+      { id: "q1", model: "ShootoutKick", operation: "create", payload: kick, ownerSub: "user-1", enqueuedAt: 1, retryCount: 0 },
+      { id: "q2", model: "GameEvent", operation: "create", payload: corner, ownerSub: "user-1", enqueuedAt: 2, retryCount: 0 },
+    ]);
+
+    renderHook(() => useOfflineQueueDrain());
+
+    await waitFor(() => {
+      expect(mockShootoutKickCreate).toHaveBeenCalledWith(kick);
+      expect(mockGameEventCreate).toHaveBeenCalledWith(corner);
+    });
+    expect(mockRequeuePreserved).not.toHaveBeenCalled();
+    expect(mockRequeueFailed).not.toHaveBeenCalled();
+  });
+
   it("requeues failed drainable mutations for retry", async () => {
     mockPendingCount.mockResolvedValue(1);
     mockGameUpdate.mockRejectedValue(new Error("boom"));
@@ -177,7 +232,7 @@ describe("useOfflineQueueDrain", () => {
       enqueuedAt: Date.now(),
       retryCount: 0,
     };
-    mockDequeueAll.mockResolvedValue([failedItem]);
+    mockClaimPending.mockResolvedValue([failedItem]);
 
     renderHook(() => useOfflineQueueDrain());
 
@@ -188,10 +243,92 @@ describe("useOfflineQueueDrain", () => {
     });
   });
 
+  it("replays an offline-created game before its plan and rotations", async () => {
+    mockPendingCount.mockResolvedValue(3);
+    const calls: string[] = [];
+    mockGameCreate.mockImplementation(async () => { calls.push("Game"); return { data: {} }; });
+    mockGamePlanCreate.mockImplementation(async () => { calls.push("GamePlan"); return { data: {} }; });
+    mockPlannedRotationCreate.mockImplementation(async () => { calls.push("PlannedRotation"); return { data: {} }; });
+    const base = { ownerSub: "user-1", retryCount: 0 };
+    mockClaimPending.mockResolvedValue([
+      { ...base, id: "q1", model: "PlannedRotation", operation: "create", payload: { id: "r1", gamePlanId: "plan-1" }, enqueuedAt: 1 },
+      { ...base, id: "q2", model: "GamePlan", operation: "create", payload: { id: "plan-1", gameId: "game-1" }, enqueuedAt: 2 },
+      { ...base, id: "q3", model: "Game", operation: "create", payload: { id: "game-1", opponent: "Eagles" }, enqueuedAt: 3 },
+    ]);
+
+    renderHook(() => useOfflineQueueDrain());
+
+    await waitFor(() => {
+      expect(calls).toEqual(["Game", "GamePlan", "PlannedRotation"]);
+    });
+    expect(mockRequeueFailed).not.toHaveBeenCalled();
+    expect(mockShowWarning).not.toHaveBeenCalled();
+  });
+
+  it("holds back the plan of a game the server rejected and reports it", async () => {
+    mockPendingCount.mockResolvedValue(3);
+    mockGameCreate.mockResolvedValue({ data: null, errors: [{ message: "Not Authorized" }] });
+    const base = { ownerSub: "user-1", retryCount: 0 };
+    mockClaimPending.mockResolvedValue([
+      { ...base, id: "q1", model: "Game", operation: "create", payload: { id: "game-1", opponent: "Eagles" }, enqueuedAt: 1 },
+      { ...base, id: "q2", model: "GamePlan", operation: "create", payload: { id: "plan-1", gameId: "game-1" }, enqueuedAt: 2 },
+      { ...base, id: "q3", model: "PlannedRotation", operation: "create", payload: { id: "r1", gamePlanId: "plan-1" }, enqueuedAt: 3 },
+    ]);
+
+    renderHook(() => useOfflineQueueDrain());
+
+    await waitFor(() => {
+      expect(mockRequeueFailed).toHaveBeenCalledWith([
+        expect.objectContaining({ id: "q3", lastError: "Held back: its game plan did not sync" }),
+      ]);
+    });
+    expect(mockRequeueFailed).toHaveBeenCalledWith([expect.objectContaining({ id: "q1", lastError: "Not Authorized" })]);
+    expect(mockRequeueFailed).toHaveBeenCalledWith([
+      expect.objectContaining({ id: "q2", lastError: "Held back: its game did not sync" }),
+    ]);
+    expect(mockGamePlanCreate).not.toHaveBeenCalled();
+    expect(mockPlannedRotationCreate).not.toHaveBeenCalled();
+    expect(mockShowWarning).toHaveBeenCalledWith(
+      "1 offline change was rejected: New game vs Eagles. 2 changes that depend on it are waiting too. Review them on the Offline Changes screen."
+    );
+  });
+
+  it("holds a stale game update that clashes with another coach's change as a conflict", async () => {
+    mockPendingCount.mockResolvedValue(1);
+    mockGameGet.mockResolvedValue({
+      data: { id: "game-1", status: "in-progress", updatedAt: "2026-05-01T10:05:00.000Z" },
+    });
+    mockClaimPending.mockResolvedValue([
+      {
+        id: "q1",
+        model: "Game",
+        operation: "update",
+        payload: { id: "game-1", status: "completed" },
+        ownerSub: "user-1",
+        enqueuedAt: Date.now(),
+        retryCount: 0,
+        baseUpdatedAt: "2026-05-01T10:00:00.000Z",
+      },
+    ]);
+
+    renderHook(() => useOfflineQueueDrain());
+
+    await waitFor(() => {
+      expect(mockSaveConflicts).toHaveBeenCalledWith([
+        expect.objectContaining({
+          id: "q1",
+          fields: [{ field: "status", local: "completed", server: "in-progress" }],
+        }),
+      ]);
+    });
+    expect(mockGameUpdate).not.toHaveBeenCalled();
+    expect(mockRequeueFailed).not.toHaveBeenCalled();
+  });
+
   it("skips drain when auth session is unavailable", async () => {
     mockPendingCount.mockResolvedValue(1);
     mockFetchAuthSession.mockRejectedValue(new Error("not-authenticated"));
-    mockDequeueAll.mockResolvedValue([
+    mockClaimPending.mockResolvedValue([
       {
         id: "q1",
         model: "Game",
@@ -209,7 +346,7 @@ describe("useOfflineQueueDrain", () => {
       expect(mockFetchAuthSession).toHaveBeenCalled();
     });
 
-    expect(mockDequeueAll).not.toHaveBeenCalled();
+    expect(mockClaimPending).not.toHaveBeenCalled();
     expect(mockGameUpdate).not.toHaveBeenCalled();
   });
 
@@ -225,7 +362,7 @@ describe("useOfflineQueueDrain", () => {
     });
 
     mockPendingCount.mockResolvedValue(1);
-    mockDequeueAll.mockResolvedValue([
+    mockClaimPending.mockResolvedValue([
       {
         id: "q1",
         model: "Game",
@@ -258,4 +395,24 @@ describe("useOfflineQueueDrain", () => {
       await updatePromise;
     });
   });
+
+  it("reports a drain the service worker ran while the page was open", async () => {
+    const serviceWorker = new EventTarget();
+    Object.defineProperty(window.navigator, "serviceWorker", { value: serviceWorker, configurable: true });
+    const report = { syncedCount: 2, remainingCount: 0, conflictCount: 0, failureMessage: null, finishedAt: 1 };
+
+    const { unmount } = renderHook(() => useOfflineQueueDrain());
+    act(() => {
+      serviceWorker.dispatchEvent(new MessageEvent("message", { data: { type: "teamtrack-background-sync", report } }));
+      serviceWorker.dispatchEvent(new MessageEvent("message", {
+        data: { type: "teamtrack-background-sync", report: { ...report, failureMessage: "1 offline change was rejected" } },
+      }));
+    });
+
+    expect(mockShowSuccess).toHaveBeenCalledWith("Synced 2 offline changes");
+    expect(mockShowWarning).toHaveBeenCalledWith("1 offline change was rejected");
+
+    unmount();
+    Reflect.deleteProperty(window.navigator, "serviceWorker");
+  });
 });
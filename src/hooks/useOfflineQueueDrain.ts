@@ -1,29 +1,11 @@
 import { useEffect, useRef } from 'react';
 import { fetchAuthSession } from 'aws-amplify/auth';
-import { generateClient } from 'aws-amplify/data';
-import type { Schema } from '../../amplify/data/resource';
 import { useNetworkStatus } from './useNetworkStatus';
-import {
-  pendingCount,
-  dequeueAll,
-  requeueFailed,
-  requeuePreserved,
-  deduplicateGameUpdates,
-  type QueuedMutation,
-} from '../services/offlineQueueService';
-
-const client = generateClient<Schema>();
-
-// Excludes GameNote — those use a custom secure mutation handled by GameManagement.
-const DRAINABLE_MODELS = new Set([
-  'Game',
-  'PlayTimeRecord',
-  'Substitution',
-  'LineupAssignment',
-  'Goal',
-  'PlayerAvailability',
-]);
-const ALLOWED_OPS = new Set(['create', 'update', 'delete']);
+import { pendingCount } from '../services/offlineQueueService';
+import { drainOfflineQueue } from '../services/offlineDrainService';
+import { onBackgroundSyncReport } from '../services/backgroundSyncService';
+import { formatSyncFailureReport } from '../utils/offlineQueueUtils';
+import { showSuccess, showWarning } from '../utils/toast';
 
 function getSafeErrorMessage(error: unknown): string {
   if (error instanceof Error && error.message) return error.message;
@@ -31,20 +13,6 @@ function getSafeErrorMessage(error: unknown): string {
   return 'Unknown error';
 }
 
-async function executeQueuedMutation(item: QueuedMutation): Promise<void> {
-  if (!DRAINABLE_MODELS.has(item.model) || !ALLOWED_OPS.has(item.operation)) {
-    throw new Error(`Disallowed model/operation in drain: ${item.model}.${item.operation}`);
-  }
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  const m = (client.models as Record<string, any>)[item.model];
-  if (!m) throw new Error(`Unknown model in drain: ${item.model}`);
-  switch (item.operation) {
-    case 'create': await m.create(item.payload); return;
-    case 'update': await m.update(item.payload); return;
-    case 'delete': await m.delete(item.payload); return;
-  }
-}
-
 async function drainQueue(): Promise<void> {
   let session;
   try {
@@ -57,36 +25,10 @@ async function drainQueue(): Promise<void> {
   if (!currentSub) return;
 
   try {
-    await deduplicateGameUpdates();
-    const items = await dequeueAll();
-
-    const crossUserHold: QueuedMutation[] = [];
-    const actuallyFailed: QueuedMutation[] = [];
-    // Items for models this drain can't handle (e.g. GameNote) are put back as-is
-    const nonDrainable: QueuedMutation[] = [];
-
-    for (const item of items) {
-      if (!DRAINABLE_MODELS.has(item.model)) {
-        nonDrainable.push(item);
-        continue;
-      }
-      if (item.ownerSub && item.ownerSub !== currentSub) {
-        crossUserHold.push(item);
-        continue;
-      }
-      try {
-        await executeQueuedMutation(item);
-      } catch (err) {
-        actuallyFailed.push(item);
-        console.warn(
-          `[useOfflineQueueDrain] Failed to replay ${item.model}.${item.operation}: ${getSafeErrorMessage(err)}`
-        );
-      }
+    const { rejected, heldBackCount } = await drainOfflineQueue(currentSub);
+    if (rejected.length > 0) {
+      showWarning(formatSyncFailureReport(rejected, heldBackCount));
     }
-
-    if (nonDrainable.length > 0) await requeuePreserved(nonDrainable);
-    if (crossUserHold.length > 0) await requeuePreserved(crossUserHold);
-    if (actuallyFailed.length > 0) await requeueFailed(actuallyFailed);
   } catch (err) {
     console.error(`[useOfflineQueueDrain] Unexpected error during drain: ${getSafeErrorMessage(err)}`);
   }
@@ -97,7 +39,8 @@ async function drainQueue(): Promise<void> {
  * reconnect, even when GameManagement is not mounted. This ensures that
  * end-game mutations queued while offline are replayed when the user is back
  * on the Home screen (fixes games persisting as in-progress after ending
- * while offline).
+ * while offline). Also reports drains the service worker ran in the
+ * background while a page is open.
  */
 export function useOfflineQueueDrain(): void {
   const isDrainingRef = useRef(false);
@@ -127,4 +70,13 @@ export function useOfflineQueueDrain(): void {
       void maybeDrain();
     },
   });
+
+  // Drains the service worker ran while this page was open
+  useEffect(() => onBackgroundSyncReport(report => {
+    if (report.failureMessage) {
+      showWarning(report.failureMessage);
+    } else if (report.syncedCount > 0) {
+      showSuccess(`Synced ${report.syncedCount} offline change${report.syncedCount !== 1 ? 's' : ''}`);
+    }
+  }), []);
 }
@@ -0,0 +1,83 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { renderHook, waitFor } from '@testing-library/react';
+import type { Team } from '../types/schema';
+import { useQuarterLengthMigration } from './useQuarterLengthMigration';
+
+const { mockTeamUpdate, mockConfirm, mockHandleApiError } = vi.hoisted(() => ({
+  mockTeamUpdate: vi.fn(),
+  mockConfirm: vi.fn(),
+  mockHandleApiError: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: vi.fn(() => ({
+    models: { Team: { update: mockTeamUpdate } },
+  })),
+}));
+
+vi.mock('../components/ConfirmModal', () => ({
+  useConfirm: () => mockConfirm,
+}));
+
+vi.mock('../utils/errorHandler', () => ({
+  handleApiError: mockHandleApiError,
+}));
+
+function makeTeam(overrides: Partial<Team>): Team {
+  return { id: 'team-1', name: 'Eagles', gameFormat: 'Quarters', periodCount: null, halfLengthMinutes: 25, ...overrides } as Team;
+}
+
+describe('useQuarterLengthMigration', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTeamUpdate.mockResolvedValue({ data: {}, errors: undefined });
+  });
+
+  it('halves the stored length when the coach accepts', async () => {
+    mockConfirm.mockResolvedValue(true);
+
+    renderHook(() => useQuarterLengthMigration([makeTeam({})], true));
+
+    await waitFor(() => expect(mockTeamUpdate).toHaveBeenCalledWith({ id: 'team-1', periodCount: 4, halfLengthMinutes: 13 }));
+    expect(mockConfirm).toHaveBeenCalledWith(expect.objectContaining({ confirmText: 'Use 13 min quarters' }));
+  });
+
+  it('keeps the length but still marks the team when the coach declines', async () => {
+    mockConfirm.mockResolvedValue(false);
+
+    renderHook(() => useQuarterLengthMigration([makeTeam({})], true));
+
+    await waitFor(() => expect(mockTeamUpdate).toHaveBeenCalledWith({ id: 'team-1', periodCount: 4 }));
+  });
+
+  it('asks only about quarter teams saved without a period count, once', async () => {
+    mockConfirm.mockResolvedValue(true);
+    const teams = [
+      makeTeam({}),
+      makeTeam({ id: 'team-2', periodCount: 4 }),
+      makeTeam({ id: 'team-3', gameFormat: 'Halves' }),
+    ];
+
+    const { rerender } = renderHook(({ list }) => useQuarterLengthMigration(list, true), { initialProps: { list: teams } });
+    await waitFor(() => expect(mockTeamUpdate).toHaveBeenCalledTimes(1));
+    rerender({ list: [...teams] });
+
+    expect(mockConfirm).toHaveBeenCalledTimes(1);
+    expect(mockTeamUpdate).toHaveBeenCalledTimes(1);
+  });
+
+  it('waits for teams to sync before asking', () => {
+    renderHook(() => useQuarterLengthMigration([makeTeam({})], false));
+
+    expect(mockConfirm).not.toHaveBeenCalled();
+  });
+
+  it('reports a failed save', async () => {
+    mockConfirm.mockResolvedValue(true);
+    mockTeamUpdate.mockResolvedValue({ data: null, errors: [{ message: 'Unauthorized' }] });
+
+    renderHook(() => useQuarterLengthMigration([makeTeam({})], true));
+
+    await waitFor(() => expect(mockHandleApiError).toHaveBeenCalledWith(expect.any(Error), 'Failed to update quarter length'));
+  });
+});
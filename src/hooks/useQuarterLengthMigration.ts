@@ -0,0 +1,56 @@
+/**
+ * useQuarterLengthMigration Hook
+ *
+ * Quarters teams saved before quarters were timed one at a time stored a half
+ * length in halfLengthMinutes, so their games would now run twice as long.
+ * Asks the coach once per team whether to halve the stored length, then saves
+ * periodCount 4 either way so the question is not asked again.
+ */
+
+import { useEffect, useRef } from 'react';
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { Team } from '../types/schema';
+import { useConfirm } from '../components/ConfirmModal';
+import { isLegacyQuarterTeam } from '../utils/periodUtils';
+import { handleApiError } from '../utils/errorHandler';
+
+const client = generateClient<Schema>();
+
+export function useQuarterLengthMigration(teams: Team[], isSynced: boolean) {
+  const confirm = useConfirm();
+  // Teams already asked about in this session, so a slow save can't prompt twice
+  const askedRef = useRef(new Set<string>());
+
+  useEffect(() => {
+    if (!isSynced) return;
+    const pending = teams.filter(team => isLegacyQuarterTeam(team) && !askedRef.current.has(team.id));
+    if (pending.length === 0) return;
+    pending.forEach(team => askedRef.current.add(team.id));
+
+    void (async () => {
+      // One prompt at a time; the confirm modal shows a single question
+      for (const team of pending) {
+        const storedLength = team.halfLengthMinutes ?? 30;
+        const quarterLength = Math.max(1, Math.round(storedLength / 2));
+        const convert = await confirm({
+          title: `${team.name}: quarter length`,
+          message: `Quarters are now timed one quarter at a time. ${team.name} has ${storedLength} min saved from when it was timed by the half, so games would run ${storedLength * 4} minutes. Switch to 4 × ${quarterLength} min quarters?`,
+          confirmText: `Use ${quarterLength} min quarters`,
+          cancelText: `Keep ${storedLength} min quarters`,
+          variant: 'warning',
+        });
+        try {
+          const { errors } = await client.models.Team.update({
+            id: team.id,
+            periodCount: 4,
+            ...(convert ? { halfLengthMinutes: quarterLength } : {}),
+          });
+          if (errors?.length) throw new Error(errors[0].message);
+        } catch (error) {
+          handleApiError(error, 'Failed to update quarter length');
+        }
+      }
+    })();
+  }, [teams, isSynced, confirm]);
+}
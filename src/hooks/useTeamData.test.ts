@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { renderHook, waitFor } from '@testing-library/react';
 import { useTeamData } from './useTeamData';
 
@@ -10,10 +10,16 @@ const {
   mockTeamRosterObserveQuery,
   mockPlayerObserveQuery,
   mockFormationPositionObserveQuery,
+  mockGetCachedTeamSnapshot,
 } = vi.hoisted(() => ({
   mockTeamRosterObserveQuery: vi.fn(),
   mockPlayerObserveQuery: vi.fn(),
   mockFormationPositionObserveQuery: vi.fn(),
+  mockGetCachedTeamSnapshot: vi.fn(),
+}));
+
+vi.mock('../services/gameReadCacheService', () => ({
+  getCachedTeamSnapshot: mockGetCachedTeamSnapshot,
 }));
 
 vi.mock('aws-amplify/data', () => ({
@@ -76,6 +82,11 @@ describe('useTeamData', () => {
     mockTeamRosterObserveQuery.mockReturnValue(createRosterObservable([]));
     mockPlayerObserveQuery.mockReturnValue(createPlayerObservable([]));
     mockFormationPositionObserveQuery.mockReturnValue(createPositionObservable([]));
+    mockGetCachedTeamSnapshot.mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
   });
 
   it('returns { players: [], positions: [] } when teamId is null', () => {
@@ -147,9 +158,14 @@ describe('useTeamData', () => {
     });
   });
 
-  it('merges roster data with player data — playerNumber and preferredPositions come from roster', async () => {
+  it('merges roster data with player data — playerNumber, preferredPositions and positionConstraints come from roster', async () => {
     const rosters = [
-      { playerId: 'player-1', playerNumber: 7, preferredPositions: ['Forward'] },
+      {
+        playerId: 'player-1',
+        playerNumber: 7,
+        preferredPositions: ['Forward'],
+        positionConstraints: JSON.stringify([{ group: 'GOALKEEPER', rule: 'never' }]),
+      },
     ];
     const players = [{ id: 'player-1', firstName: 'Sam', lastName: 'Smith' }];
 
@@ -168,6 +184,7 @@ describe('useTeamData', () => {
       lastName: 'Smith',
       playerNumber: 7,
       preferredPositions: ['Forward'],
+      positionConstraints: [{ group: 'GOALKEEPER', rule: 'never' }],
     });
   });
 
@@ -411,4 +428,38 @@ describe('useTeamData', () => {
 
     expect(result.current.players[0].id).toBe('player-1');
   });
+
+  describe('offline', () => {
+    const saved = {
+      team: { id: 'team-1', formationId: 'formation-1' },
+      players: [{ id: 'p1', firstName: 'Ava', lastName: 'Smith', playerNumber: 7 }],
+      positions: [{ id: 'pos-1', positionName: 'Goalkeeper', sortOrder: 1 }],
+    };
+
+    it('starts from the copy saved on this device', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      mockGetCachedTeamSnapshot.mockResolvedValue(saved);
+
+      const { result } = renderHook(() => useTeamData('team-1', 'formation-1'));
+
+      await waitFor(() => expect(result.current.players).toEqual(saved.players));
+      expect(result.current.positions).toEqual(saved.positions);
+      expect(mockGetCachedTeamSnapshot).toHaveBeenCalledWith('team-1');
+    });
+
+    it('skips saved positions from a different formation', async () => {
+      vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+      mockGetCachedTeamSnapshot.mockResolvedValue(saved);
+
+      const { result } = renderHook(() => useTeamData('team-1', 'formation-2'));
+
+      await waitFor(() => expect(result.current.players).toEqual(saved.players));
+      expect(result.current.positions).toEqual([]);
+    });
+
+    it('does not read the saved copy while online', () => {
+      renderHook(() => useTeamData('team-1', 'formation-1'));
+      expect(mockGetCachedTeamSnapshot).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -2,6 +2,8 @@ import { useEffect, useState } from "react";
 import { generateClient } from "aws-amplify/data";
 import type { Schema } from "../../amplify/data/resource";
 import { sortRosterByNumber } from "../utils/playerUtils";
+import { parsePositionConstraints } from "../utils/positionConstraintUtils";
+import { getCachedTeamSnapshot } from "../services/gameReadCacheService";
 import type { FormationPosition, PlayerWithRoster } from "../types/schema";
 
 export type { PlayerWithRoster } from "../types/schema";
@@ -11,6 +13,8 @@ const client = generateClient<Schema>();
 /**
  * Custom hook to load team roster and formation positions with real-time updates.
  * Handles DynamoDB eventual consistency automatically using observeQuery.
+ * When the device is offline, starts from the copy saved by the game read
+ * cache, since observeQuery cannot reach AppSync.
  * 
  * @param teamId - The team ID to load roster for
  * @param formationId - The formation ID to load positions for
@@ -23,6 +27,22 @@ export function useTeamData(teamId: string, formationId: string | null | undefin
   useEffect(() => {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     let playerSub: any;
+    let cancelled = false;
+    // Set once the saved copy is showing, so empty offline results don't clear it
+    let usingCache = false;
+    let hasLivePlayers = false;
+    let hasLivePositions = false;
+
+    if (!navigator.onLine) {
+      getCachedTeamSnapshot(teamId)
+        .then((snapshot) => {
+          if (cancelled || !snapshot) return;
+          usingCache = true;
+          if (!hasLivePlayers) setPlayers(snapshot.players);
+          if (!hasLivePositions && snapshot.team.formationId === formationId) setPositions(snapshot.positions);
+        })
+        .catch(() => { /* nothing saved on this device */ });
+    }
     
     // Set up reactive subscription for roster and players (handles eventual consistency)
     const rosterSub = client.models.TeamRoster.observeQuery({
@@ -56,16 +76,19 @@ export function useTeamData(teamId: string, formationId: string | null | undefin
                     ...player,
                     playerNumber: roster.playerNumber,
                     preferredPositions: roster.preferredPositions || undefined,
+                    positionConstraints: parsePositionConstraints(roster.positionConstraints),
                   };
                 })
                 .filter((p) => p !== null) as PlayerWithRoster[];
 
+              if (usingCache && playersWithRoster.length === 0) return;
+              hasLivePlayers = playersWithRoster.length > 0;
               setPlayers(playersWithRoster);
             },
           });
         } else {
           // No roster entries, set empty players
-          setPlayers([]);
+          if (!usingCache) setPlayers([]);
         }
       },
     });
@@ -79,12 +102,15 @@ export function useTeamData(teamId: string, formationId: string | null | undefin
       }).subscribe({
         next: (data) => {
           const sortedPositions = [...data.items].sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0));
+          if (usingCache && sortedPositions.length === 0) return;
+          hasLivePositions = sortedPositions.length > 0;
           setPositions(sortedPositions);
         },
       });
     }
     
     return () => {
+      cancelled = true;
       rosterSub.unsubscribe();
       if (playerSub) playerSub.unsubscribe();
       if (positionSub) positionSub.unsubscribe();
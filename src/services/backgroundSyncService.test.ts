@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const {
+  mockGetAuth,
+  mockSaveAuth,
+  mockClearAuth,
+  mockSaveReport,
+  mockPendingCount,
+  mockDrain,
+} = vi.hoisted(() => ({
+  mockGetAuth: vi.fn(),
+  mockSaveAuth: vi.fn(),
+  mockClearAuth: vi.fn(),
+  mockSaveReport: vi.fn(),
+  mockPendingCount: vi.fn(),
+  mockDrain: vi.fn(),
+}));
+
+vi.mock('./offlineQueueService', () => ({
+  getBackgroundSyncAuth: mockGetAuth,
+  saveBackgroundSyncAuth: mockSaveAuth,
+  clearBackgroundSyncAuth: mockClearAuth,
+  saveBackgroundSyncReport: mockSaveReport,
+  pendingCount: mockPendingCount,
+}));
+
+vi.mock('./offlineDrainService', () => ({
+  drainOfflineQueue: mockDrain,
+}));
+
+import {
+  OFFLINE_SYNC_TAG,
+  backgroundSyncTokenProvider,
+  requestBackgroundSync,
+  runBackgroundSync,
+} from './backgroundSyncService';
+import type { AuthTokens } from 'aws-amplify/auth';
+
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+const HANDOFF = { sub: 'coach-1', accessToken: 'access-jwt', expiresAt: NOW + 60_000 };
+
+function registration() {
+  return {
+    sync: { register: vi.fn().mockResolvedValue(undefined) },
+    periodicSync: {
+      register: vi.fn().mockResolvedValue(undefined),
+      unregister: vi.fn().mockResolvedValue(undefined),
+    },
+  };
+}
+
+describe('backgroundSyncService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(NOW);
+    mockGetAuth.mockResolvedValue(HANDOFF);
+    mockPendingCount.mockResolvedValue(0);
+    mockDrain.mockResolvedValue({ syncedCount: 0, rejected: [], heldBackCount: 0, conflictCount: 0, preservedCount: 0 });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    Reflect.deleteProperty(navigator, 'serviceWorker');
+  });
+
+  describe('requestBackgroundSync', () => {
+    it('hands over the access token and registers a one-off and a periodic sync', async () => {
+      const reg = registration();
+      Object.defineProperty(navigator, 'serviceWorker', { configurable: true, value: { ready: Promise.resolve(reg) } });
+      const tokens = {
+        accessToken: { payload: { sub: 'coach-1', exp: NOW / 1000 + 3600 }, toString: () => 'access-jwt' },
+        idToken: { payload: { sub: 'coach-1' }, toString: () => 'id-jwt' },
+      } as AuthTokens;
+
+      await requestBackgroundSync(tokens);
+
+      expect(mockSaveAuth).toHaveBeenCalledWith({ sub: 'coach-1', accessToken: 'access-jwt', expiresAt: NOW + 3_600_000 });
+      expect(reg.sync.register).toHaveBeenCalledWith(OFFLINE_SYNC_TAG);
+      expect(reg.periodicSync.register).toHaveBeenCalledWith(OFFLINE_SYNC_TAG, { minInterval: 15 * 60 * 1000 });
+    });
+
+    it('does nothing without a service worker or a signed-in coach', async () => {
+      await requestBackgroundSync(undefined);
+
+      expect(mockSaveAuth).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runBackgroundSync', () => {
+    it('drains as the coach who handed over the token and saves a report', async () => {
+      mockPendingCount.mockResolvedValueOnce(3).mockResolvedValueOnce(1);
+      mockDrain.mockResolvedValue({
+        syncedCount: 2,
+        rejected: [{ id: 'q1', model: 'Goal', operation: 'create', payload: { gameId: 'g1' }, enqueuedAt: 1, retryCount: 0 }],
+        heldBackCount: 0,
+        conflictCount: 0,
+        preservedCount: 0,
+      });
+
+      const report = await runBackgroundSync();
+
+      expect(mockDrain).toHaveBeenCalledWith('coach-1');
+      expect(report).toMatchObject({ syncedCount: 2, remainingCount: 1, conflictCount: 0, finishedAt: NOW });
+      expect(report?.failureMessage).toMatch(/^1 offline change was rejected/);
+      expect(mockSaveReport).toHaveBeenCalledWith(report);
+      // Something is still queued, so the handoff stays for the next attempt
+      expect(mockClearAuth).not.toHaveBeenCalled();
+    });
+
+    it('clears the handoff and stops periodic syncs once the queue is empty', async () => {
+      mockPendingCount.mockResolvedValueOnce(2).mockResolvedValueOnce(0);
+      mockDrain.mockResolvedValue({ syncedCount: 2, rejected: [], heldBackCount: 0, conflictCount: 0, preservedCount: 0 });
+      const reg = registration();
+
+      const report = await runBackgroundSync(reg as unknown as ServiceWorkerRegistration);
+
+      expect(report?.failureMessage).toBeNull();
+      expect(mockClearAuth).toHaveBeenCalled();
+      expect(reg.periodicSync.unregister).toHaveBeenCalledWith(OFFLINE_SYNC_TAG);
+    });
+
+    it('also finishes when only writes the worker puts back are left', async () => {
+      mockPendingCount.mockResolvedValueOnce(3).mockResolvedValueOnce(1);
+      mockDrain.mockResolvedValue({ syncedCount: 2, rejected: [], heldBackCount: 0, conflictCount: 0, preservedCount: 1 });
+      const reg = registration();
+
+      const report = await runBackgroundSync(reg as unknown as ServiceWorkerRegistration);
+
+      expect(report?.remainingCount).toBe(1);
+      expect(mockClearAuth).toHaveBeenCalled();
+      expect(reg.periodicSync.unregister).toHaveBeenCalledWith(OFFLINE_SYNC_TAG);
+    });
+
+    it('leaves the queue for the app once the handed-over token has expired', async () => {
+      mockGetAuth.mockResolvedValue({ ...HANDOFF, expiresAt: NOW - 1 });
+      mockPendingCount.mockResolvedValue(4);
+
+      expect(await runBackgroundSync()).toBeNull();
+      expect(mockDrain).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('backgroundSyncTokenProvider', () => {
+    it('serves the handed-over token until it expires', async () => {
+      const tokens = await backgroundSyncTokenProvider.getTokens();
+      expect(tokens?.accessToken.toString()).toBe('access-jwt');
+
+      mockGetAuth.mockResolvedValue({ ...HANDOFF, expiresAt: NOW });
+      expect(await backgroundSyncTokenProvider.getTokens()).toBeNull();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+import type { AuthTokens, CredentialsAndIdentityIdProvider, TokenProvider } from 'aws-amplify/auth';
+import {
+  clearBackgroundSyncAuth,
+  getBackgroundSyncAuth,
+  pendingCount,
+  saveBackgroundSyncAuth,
+  saveBackgroundSyncReport,
+  type BackgroundSyncReport,
+} from './offlineQueueService';
+import { drainOfflineQueue } from './offlineDrainService';
+import { formatSyncFailureReport } from '../utils/offlineQueueUtils';
+
+/**
+ * Background Sync Service
+ *
+ * Lets the service worker replay the offline queue after the app is closed,
+ * so co-coaches see queued goals and substitutions without waiting for this
+ * device to reopen the app. When a write is queued, the page hands the worker
+ * the coach's access token and registers a Background Sync, plus a Periodic
+ * Background Sync where the browser allows it. The worker drains the queue
+ * through the same service as the app and leaves a report behind.
+ */
+
+export const OFFLINE_SYNC_TAG = 'teamtrack-offline-drain';
+
+/** Type of the message the service worker posts to open pages after a drain */
+export const BACKGROUND_SYNC_MESSAGE = 'teamtrack-background-sync';
+
+export interface BackgroundSyncMessage {
+  type: typeof BACKGROUND_SYNC_MESSAGE;
+  report: BackgroundSyncReport;
+}
+
+/** Browsers treat this as a lower bound and space periodic syncs out further */
+const PERIODIC_SYNC_MIN_INTERVAL_MS = 15 * 60 * 1000;
+
+// The Background Sync APIs are not in the DOM typings yet
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register(tag: string): Promise<void> };
+  periodicSync?: {
+    register(tag: string, options: { minInterval: number }): Promise<void>;
+    unregister(tag: string): Promise<void>;
+  };
+}
+
+/**
+ * Hands the service worker what it needs to drain the queue and asks the
+ * browser to wake it once the device is back online. Does nothing where
+ * service workers are unavailable; the app drains on its next start instead.
+ * @param tokens - Tokens of the signed-in coach, from fetchAuthSession
+ */
+export async function requestBackgroundSync(tokens: AuthTokens | undefined): Promise<void> {
+  if (!('serviceWorker' in navigator)) return;
+  const sub = tokens?.idToken?.payload.sub;
+  const exp = tokens?.accessToken.payload.exp;
+  if (!tokens || !sub || !exp) return;
+
+  await saveBackgroundSyncAuth({ sub, accessToken: tokens.accessToken.toString(), expiresAt: exp * 1000 });
+
+  const registration = await navigator.serviceWorker.ready as SyncCapableRegistration;
+  await registration.sync?.register(OFFLINE_SYNC_TAG);
+  // Needs the site to be installed and the browser to grant the permission
+  await registration.periodicSync
+    ?.register(OFFLINE_SYNC_TAG, { minInterval: PERIODIC_SYNC_MIN_INTERVAL_MS })
+    .catch(() => { /* Not granted — the one-off sync and the next app start still drain */ });
+}
+
+/**
+ * Calls the listener with each report the service worker posts while a page
+ * is open.
+ * @returns Unsubscribe function
+ */
+export function onBackgroundSyncReport(listener: (report: BackgroundSyncReport) => void): () => void {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    const message = event.data as Partial<BackgroundSyncMessage> | null;
+    if (message?.type === BACKGROUND_SYNC_MESSAGE && message.report) listener(message.report);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+}
+
+/**
+ * Gives Amplify in the service worker the access token the page handed over,
+ * until it expires. There is no refresh token, so an expired handoff means
+ * no token and the drain waits for the app.
+ */
+export const backgroundSyncTokenProvider: TokenProvider = {
+  async getTokens() {
+    const auth = await getBackgroundSyncAuth();
+    if (!auth || auth.expiresAt <= Date.now()) return null;
+    return {
+      accessToken: {
+        payload: { sub: auth.sub, exp: Math.floor(auth.expiresAt / 1000) },
+        toString: () => auth.accessToken,
+      },
+    };
+  },
+};
+
+/** The data API only needs user pool tokens, so no identity pool credentials are fetched */
+export const backgroundSyncCredentialsProvider: CredentialsAndIdentityIdProvider = {
+  getCredentialsAndIdentityId: async () => undefined,
+  clearCredentialsAndIdentityId: () => {},
+};
+
+/**
+ * Drains the queue from the service worker and saves the outcome for the
+ * app's offline banner. The handoff is cleared once nothing is left that the
+ * worker can sync.
+ * @param registration - The worker's registration, to stop periodic syncs
+ *   once the queue is empty
+ * @returns The saved report, or null when there was nothing to do or the
+ *   handed-over token has expired
+ */
+export async function runBackgroundSync(
+  registration?: SyncCapableRegistration
+): Promise<BackgroundSyncReport | null> {
+  const auth = await getBackgroundSyncAuth();
+  if (!auth || auth.expiresAt <= Date.now()) return null;
+
+  if (await pendingCount() > 0) {
+    const result = await drainOfflineQueue(auth.sub);
+    const report: BackgroundSyncReport = {
+      syncedCount: result.syncedCount,
+      remainingCount: await pendingCount(),
+      conflictCount: result.conflictCount,
+      failureMessage: result.rejected.length > 0
+        ? formatSyncFailureReport(result.rejected, result.heldBackCount)
+        : null,
+      finishedAt: Date.now(),
+    };
+    await saveBackgroundSyncReport(report);
+    // What was put back untouched (GameNote writes, another coach's) waits for the app, not for another wake-up
+    if (report.remainingCount <= result.preservedCount) await finishBackgroundSync(registration);
+    return report;
+  }
+
+  await finishBackgroundSync(registration);
+  return null;
+}
+
+async function finishBackgroundSync(registration?: SyncCapableRegistration): Promise<void> {
+  await clearBackgroundSyncAuth();
+  await registration?.periodicSync?.unregister(OFFLINE_SYNC_TAG).catch(() => {});
+}
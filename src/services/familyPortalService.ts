@@ -0,0 +1,62 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+
+const client = generateClient<Schema>();
+
+// DTOs returned by the getFamilyPortal Lambda. Parents have no model-level
+// access, so this is the only shape of game data a PARENT user ever receives.
+
+export interface FamilyPortalChild {
+  playerId: string;
+  firstName: string;
+  lastName: string | null;
+  playerNumber: number | null;
+}
+
+export interface FamilyPortalChildStats {
+  playerId: string;
+  playTimeSeconds: number;
+  goals: number;
+  assists: number;
+}
+
+export interface FamilyPortalGame {
+  gameId: string;
+  opponent: string;
+  isHome: boolean;
+  gameDate: string | null;
+  status: string;
+  ourScore: number | null;
+  opponentScore: number | null;
+  shootoutOurScore: number | null;
+  shootoutOpponentScore: number | null;
+  children: FamilyPortalChildStats[];
+}
+
+export interface FamilyPortalTeam {
+  teamId: string;
+  teamName: string;
+  children: FamilyPortalChild[];
+  upcomingGames: FamilyPortalGame[];
+  completedGames: FamilyPortalGame[];
+}
+
+/**
+ * Load the read-only family portal for the current user.
+ * Returns an empty list when the user is not linked to any team as a parent.
+ */
+export async function fetchFamilyPortal(): Promise<FamilyPortalTeam[]> {
+  const result = await client.queries.getFamilyPortal();
+
+  if (result.errors && result.errors.length > 0) {
+    throw new Error(result.errors[0].message || 'Failed to load family view');
+  }
+
+  let parsed: unknown = result.data;
+  if (typeof result.data === 'string') {
+    parsed = JSON.parse(result.data) as unknown;
+  }
+
+  const teams = (parsed as { teams?: unknown } | null)?.teams;
+  return Array.isArray(teams) ? (teams as FamilyPortalTeam[]) : [];
+}
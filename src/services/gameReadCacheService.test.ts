@@ -0,0 +1,168 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { store, dbMock, mockGameGet, mockTeamGet, mockPlayerGet, listMocks } = vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const store = new Map<string, any>();
+  const dbMock = {
+    get: vi.fn(async (_store: string, key: string) => store.get(key)),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    put: vi.fn(async (_store: string, value: any) => { store.set(value.gameId, value); }),
+    getAll: vi.fn(async () => [...store.values()]),
+    delete: vi.fn(async (_store: string, key: string) => { store.delete(key); }),
+  };
+  const list = () => vi.fn().mockResolvedValue({ data: [], nextToken: null });
+  return {
+    store,
+    dbMock,
+    mockGameGet: vi.fn(),
+    mockTeamGet: vi.fn(),
+    mockPlayerGet: vi.fn(),
+    listMocks: {
+      TeamRoster: list(),
+      FormationPosition: list(),
+      GamePlan: list(),
+      PlannedRotation: list(),
+      LineupAssignment: list(),
+      PlayerAvailability: list(),
+    },
+  };
+});
+
+vi.mock('idb', () => ({
+  openDB: vi.fn().mockResolvedValue(dbMock),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      Game: { get: mockGameGet },
+      Team: { get: mockTeamGet },
+      Player: { get: mockPlayerGet },
+      ...Object.fromEntries(Object.entries(listMocks).map(([name, list]) => [name, { list }])),
+    },
+  }),
+}));
+
+import {
+  cacheGameSnapshot,
+  cacheNewGameSnapshot,
+  getCachedTeamSnapshot,
+  patchCachedGameSnapshot,
+  refreshGameSnapshot,
+  type GameReadSnapshot,
+} from './gameReadCacheService';
+
+function snapshot(gameId: string, teamId: string, savedAt: number): GameReadSnapshot {
+  return {
+    gameId,
+    game: { id: gameId, teamId } as GameReadSnapshot['game'],
+    team: { id: teamId } as GameReadSnapshot['team'],
+    players: [],
+    positions: [],
+    gamePlan: null,
+    plannedRotations: [],
+    lineup: [],
+    availabilities: [],
+    savedAt,
+  };
+}
+
+describe('gameReadCacheService', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.clearAllMocks();
+    Object.values(listMocks).forEach(list => list.mockResolvedValue({ data: [], nextToken: null }));
+    mockGameGet.mockResolvedValue({ data: { id: 'game-1', teamId: 'team-1', opponent: 'Eagles', team: () => null } });
+    mockTeamGet.mockResolvedValue({ data: { id: 'team-1', formationId: 'f1' } });
+    mockPlayerGet.mockImplementation(async ({ id }: { id: string }) => ({ data: { id, firstName: id.toUpperCase() } }));
+  });
+
+  it('saves the roster, positions, plan, rotations and lineup of a game', async () => {
+    listMocks.TeamRoster.mockResolvedValue({
+      data: [
+        { playerId: 'p2', playerNumber: 12, positionConstraints: '[{"group":"GOALKEEPER","rule":"never"}]' },
+        { playerId: 'p1', playerNumber: 7 },
+      ],
+      nextToken: null,
+    });
+    listMocks.FormationPosition.mockResolvedValue({
+      data: [{ id: 'pos-b', sortOrder: 2 }, { id: 'pos-a', sortOrder: 1 }],
+      nextToken: null,
+    });
+    listMocks.GamePlan.mockResolvedValue({ data: [{ id: 'plan-1', gameId: 'game-1' }], nextToken: null });
+    listMocks.PlannedRotation
+      .mockResolvedValueOnce({ data: [{ id: 'r2', rotationNumber: 2 }], nextToken: 'page-2' })
+      .mockResolvedValueOnce({ data: [{ id: 'r1', rotationNumber: 1 }], nextToken: null });
+    listMocks.LineupAssignment.mockResolvedValue({ data: [{ id: 'l1', playerId: 'p1' }], nextToken: null });
+    listMocks.PlayerAvailability.mockResolvedValue({ data: [{ id: 'a1', playerId: 'p2', status: 'absent' }], nextToken: null });
+
+    const saved = await refreshGameSnapshot('game-1');
+
+    expect(saved.players.map(p => [p.id, p.playerNumber])).toEqual([['p1', 7], ['p2', 12]]);
+    expect(saved.players[1].positionConstraints).toEqual([{ group: 'GOALKEEPER', rule: 'never' }]);
+    expect(saved.positions.map(p => p.id)).toEqual(['pos-a', 'pos-b']);
+    expect(saved.gamePlan?.id).toBe('plan-1');
+    expect(saved.plannedRotations.map(r => r.id)).toEqual(['r1', 'r2']);
+    expect(listMocks.PlannedRotation.mock.calls[0][0]).toMatchObject({ filter: { gamePlanId: { eq: 'plan-1' } } });
+    expect(saved.lineup).toEqual([{ id: 'l1', playerId: 'p1' }]);
+    expect(saved.availabilities).toEqual([{ id: 'a1', playerId: 'p2', status: 'absent' }]);
+    // Lazy loaders are stripped before the copy is stored
+    expect(typeof store.get('game-1').game.team).toBe('undefined');
+  });
+
+  it('skips the rotations when the game has no plan', async () => {
+    const saved = await refreshGameSnapshot('game-1');
+
+    expect(saved.gamePlan).toBeNull();
+    expect(saved.plannedRotations).toEqual([]);
+    expect(listMocks.PlannedRotation).not.toHaveBeenCalled();
+  });
+
+  it('finds the newest saved copy of a team', async () => {
+    await cacheGameSnapshot(snapshot('old', 'team-1', 100));
+    await cacheGameSnapshot(snapshot('new', 'team-1', 300));
+    await cacheGameSnapshot(snapshot('other', 'team-2', 500));
+
+    expect((await getCachedTeamSnapshot('team-1'))?.gameId).toBe('new');
+    expect(await getCachedTeamSnapshot('team-3')).toBeUndefined();
+  });
+
+  it('saves a game created offline with the team roster from another saved game', async () => {
+    const teamGame = snapshot('old', 'team-1', 100);
+    teamGame.players = [{ id: 'p1', playerNumber: 7 } as GameReadSnapshot['players'][number]];
+    teamGame.positions = [{ id: 'pos-a' } as GameReadSnapshot['positions'][number]];
+    teamGame.team = { id: 'team-1', formationId: 'f1' } as GameReadSnapshot['team'];
+    await cacheGameSnapshot(teamGame);
+
+    const saved = await cacheNewGameSnapshot(
+      { id: 'new-game', teamId: 'team-1' } as GameReadSnapshot['game'],
+      { id: 'team-1', formationId: 'f1' } as GameReadSnapshot['team'],
+    );
+
+    expect(saved.players.map(p => p.id)).toEqual(['p1']);
+    expect(saved.positions.map(p => p.id)).toEqual(['pos-a']);
+    expect(store.get('new-game').gamePlan).toBeNull();
+  });
+
+  it('writes offline plan edits into a saved game and keeps its savedAt', async () => {
+    await cacheGameSnapshot(snapshot('game-1', 'team-1', 100));
+
+    await patchCachedGameSnapshot('game-1', {
+      gamePlan: { id: 'plan-1', gameId: 'game-1' } as GameReadSnapshot['gamePlan'],
+    });
+    await patchCachedGameSnapshot('missing', { plannedRotations: [] });
+
+    expect(store.get('game-1').gamePlan.id).toBe('plan-1');
+    expect(store.get('game-1').savedAt).toBe(100);
+    expect(store.has('missing')).toBe(false);
+  });
+
+  it('keeps only the 30 most recently saved games', async () => {
+    for (let i = 0; i < 31; i++) {
+      await cacheGameSnapshot(snapshot(`game-${i}`, 'team-1', i));
+    }
+
+    expect(store.size).toBe(30);
+    expect(store.has('game-0')).toBe(false);
+  });
+});
@@ -0,0 +1,174 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type {
+  FormationPosition,
+  Game,
+  GamePlan,
+  LineupAssignment,
+  PlannedRotation,
+  Player,
+  PlayerAvailability,
+  PlayerWithRoster,
+  Team,
+  TeamRoster,
+} from '../types/schema';
+import { listAll } from '../utils/listAll';
+import { sortRosterByNumber } from '../utils/playerUtils';
+import { parsePositionConstraints } from '../utils/positionConstraintUtils';
+import { getSnapshot, listSnapshots, saveSnapshot } from './gameSnapshotStore';
+
+const client = generateClient<Schema>();
+
+/**
+ * Game Read Cache Service
+ *
+ * Keeps a copy of everything the game and game plan pages read — team,
+ * roster, formation positions, the game, its lineup, availability, plan and
+ * planned rotations — in IndexedDB. The copy is refreshed while online; when the
+ * device is offline, observeQuery cannot reach AppSync and the pages fall back
+ * to it. Games and plans made offline are written into the copy as well.
+ */
+
+export interface GameReadSnapshot {
+  gameId: string;
+  game: Game;
+  team: Team;
+  players: PlayerWithRoster[];
+  positions: FormationPosition[];
+  gamePlan: GamePlan | null;
+  plannedRotations: PlannedRotation[];
+  /** Starters synced from the plan, so a scheduled game can be started offline */
+  lineup: LineupAssignment[];
+  availabilities: PlayerAvailability[];
+  /** Epoch ms when the snapshot was fetched */
+  savedAt: number;
+}
+
+/** Only the most recently refreshed games are kept on the device */
+const MAX_CACHED_GAMES = 30;
+
+/**
+ * Fetches a game and what its pages read from the API
+ */
+export async function fetchGameReadSnapshot(gameId: string): Promise<GameReadSnapshot> {
+  const gameResponse = await client.models.Game.get({ id: gameId });
+  if (!gameResponse.data) throw new Error('Game not found');
+  const game = gameResponse.data as Game;
+
+  const teamResponse = await client.models.Team.get({ id: game.teamId });
+  if (!teamResponse.data) throw new Error('Team not found');
+  const team = teamResponse.data as Team;
+
+  const byGame = { gameId: { eq: gameId } };
+  const [rosters, positions, gamePlans, lineup, availabilities] = await Promise.all([
+    listAll<TeamRoster>(client.models.TeamRoster, { teamId: { eq: team.id } }),
+    team.formationId
+      ? listAll<FormationPosition>(client.models.FormationPosition, { formationId: { eq: team.formationId } })
+      : Promise.resolve([]),
+    listAll<GamePlan>(client.models.GamePlan, byGame),
+    listAll<LineupAssignment>(client.models.LineupAssignment, byGame),
+    listAll<PlayerAvailability>(client.models.PlayerAvailability, byGame),
+  ]);
+
+  const gamePlan = gamePlans[0] ?? null;
+  const plannedRotations = gamePlan
+    ? await listAll<PlannedRotation>(client.models.PlannedRotation, { gamePlanId: { eq: gamePlan.id } })
+    : [];
+
+  const sortedRosters = sortRosterByNumber([...rosters]);
+  const playerResponses: Array<{ data: Player | null }> = await Promise.all(
+    sortedRosters.map(roster => client.models.Player.get({ id: roster.playerId }))
+  );
+  const players = sortedRosters.flatMap((roster, index): PlayerWithRoster[] => {
+    const player = playerResponses[index].data;
+    if (!player) return [];
+    return [{
+      ...player,
+      playerNumber: roster.playerNumber,
+      preferredPositions: roster.preferredPositions || undefined,
+      positionConstraints: parsePositionConstraints(roster.positionConstraints),
+    }];
+  });
+
+  return {
+    gameId,
+    game,
+    team,
+    players,
+    positions: [...positions].sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0)),
+    gamePlan,
+    plannedRotations: [...plannedRotations].sort((a, b) => a.rotationNumber - b.rotationNumber),
+    lineup,
+    availabilities,
+    savedAt: Date.now(),
+  };
+}
+
+export async function getCachedGameSnapshot(gameId: string): Promise<GameReadSnapshot | undefined> {
+  return getSnapshot('games', gameId);
+}
+
+/**
+ * The most recently saved snapshot of any game of a team, for the roster and
+ * formation positions the team pages share.
+ */
+export async function getCachedTeamSnapshot(teamId: string): Promise<GameReadSnapshot | undefined> {
+  const cached = await listSnapshots('games');
+  return cached
+    .filter(snapshot => snapshot.team.id === teamId)
+    .sort((a, b) => b.savedAt - a.savedAt)[0];
+}
+
+/**
+ * Saves a snapshot and drops the oldest ones beyond MAX_CACHED_GAMES.
+ */
+export async function cacheGameSnapshot(snapshot: GameReadSnapshot): Promise<void> {
+  await saveSnapshot('games', snapshot, MAX_CACHED_GAMES);
+}
+
+/**
+ * Fetches and saves a game's snapshot so its pages open offline later.
+ * @returns The saved snapshot
+ */
+export async function refreshGameSnapshot(gameId: string): Promise<GameReadSnapshot> {
+  const snapshot = await fetchGameReadSnapshot(gameId);
+  await cacheGameSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Saves a game created offline, with the roster and positions of the team's
+ * newest saved game, so its plan can be built before it reaches the server.
+ * @returns The saved snapshot
+ */
+export async function cacheNewGameSnapshot(game: Game, team: Team): Promise<GameReadSnapshot> {
+  const teamSnapshot = await getCachedTeamSnapshot(team.id);
+  const snapshot: GameReadSnapshot = {
+    gameId: game.id,
+    game,
+    team,
+    players: teamSnapshot?.players ?? [],
+    positions: teamSnapshot && teamSnapshot.team.formationId === team.formationId ? teamSnapshot.positions : [],
+    gamePlan: null,
+    plannedRotations: [],
+    lineup: [],
+    availabilities: [],
+    savedAt: Date.now(),
+  };
+  await cacheGameSnapshot(snapshot);
+  return snapshot;
+}
+
+/**
+ * Writes offline edits into a saved game, keeping its savedAt so the
+ * staleness notice still reflects when the server copy was fetched.
+ * Does nothing when the game is not saved on this device.
+ */
+export async function patchCachedGameSnapshot(
+  gameId: string,
+  patch: Partial<Pick<GameReadSnapshot, 'gamePlan' | 'plannedRotations' | 'availabilities'>>,
+): Promise<void> {
+  const cached = await getSnapshot('games', gameId);
+  if (!cached) return;
+  await saveSnapshot('games', { ...cached, ...patch }, MAX_CACHED_GAMES);
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { stores, dbMock } = vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const stores = new Map<string, Map<string, any>>();
+  const storeFor = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    return stores.get(name)!;
+  };
+  const dbMock = {
+    get: vi.fn(async (name: string, key: string) => storeFor(name).get(key)),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    put: vi.fn(async (name: string, value: any) => { storeFor(name).set(value.gameId, value); }),
+    getAll: vi.fn(async (name: string) => [...storeFor(name).values()]),
+    delete: vi.fn(async (name: string, key: string) => { storeFor(name).delete(key); }),
+    transaction: vi.fn(() => ({
+      objectStore: (name: string) => ({ clear: async () => { storeFor(name).clear(); } }),
+      done: Promise.resolve(),
+    })),
+  };
+  return { stores, dbMock };
+});
+
+vi.mock('idb', () => ({
+  openDB: vi.fn().mockResolvedValue(dbMock),
+}));
+
+import { clearGameSnapshots, getSnapshot, listSnapshots, saveSnapshot } from './gameSnapshotStore';
+import type { GameReadSnapshot } from './gameReadCacheService';
+import type { GameSummarySnapshot } from './gameSummaryService';
+
+const game = (gameId: string, savedAt: number) => ({ gameId, savedAt }) as GameReadSnapshot;
+const summary = (gameId: string, savedAt: number) => ({ gameId, savedAt }) as GameSummarySnapshot;
+
+describe('gameSnapshotStore', () => {
+  beforeEach(() => {
+    stores.clear();
+    vi.clearAllMocks();
+  });
+
+  it('saves a plain copy of the snapshot', async () => {
+    const withLoader = { ...game('game-1', 1), team: { id: 'team-1', coaches: () => Promise.resolve([]) } };
+
+    await saveSnapshot('games', withLoader as unknown as GameReadSnapshot, 10);
+
+    expect(await getSnapshot('games', 'game-1')).toEqual({ gameId: 'game-1', savedAt: 1, team: { id: 'team-1' } });
+  });
+
+  it('drops the oldest snapshots of the same kind beyond the limit', async () => {
+    await saveSnapshot('summaries', summary('game-1', 1), 2);
+    for (let i = 1; i <= 3; i++) {
+      await saveSnapshot('games', game(`game-${i}`, i), 2);
+    }
+
+    expect((await listSnapshots('games')).map(s => s.gameId)).toEqual(['game-2', 'game-3']);
+    expect(await getSnapshot('summaries', 'game-1')).toBeDefined();
+  });
+
+  it('clears every kind of snapshot at once', async () => {
+    await saveSnapshot('games', game('game-1', 1), 10);
+    await saveSnapshot('summaries', summary('game-1', 1), 10);
+
+    await clearGameSnapshots();
+
+    expect(dbMock.transaction).toHaveBeenCalledWith(['games', 'summaries'], 'readwrite');
+    expect(await listSnapshots('games')).toEqual([]);
+    expect(await listSnapshots('summaries')).toEqual([]);
+  });
+});
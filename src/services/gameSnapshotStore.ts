@@ -0,0 +1,90 @@
+import { openDB, type DBSchema, type IDBPDatabase, type StoreNames, type StoreValue } from 'idb';
+import type { GameReadSnapshot } from './gameReadCacheService';
+import type { GameSummarySnapshot } from './gameSummaryService';
+
+/**
+ * Game Snapshot Store
+ *
+ * The IndexedDB database behind every per-game copy of server data kept for
+ * offline use: what the game and plan pages read (gameReadCacheService) and
+ * the completed-game summary (gameSummaryService). Each kind of snapshot is a
+ * store keyed by gameId. Sign-out clears every store here, so a new kind only
+ * needs adding to GameSnapshotDB and SNAPSHOT_KINDS.
+ */
+
+interface GameSnapshotDB extends DBSchema {
+  games: {
+    key: string;
+    value: GameReadSnapshot;
+  };
+  summaries: {
+    key: string;
+    value: GameSummarySnapshot;
+  };
+}
+
+export type GameSnapshotKind = StoreNames<GameSnapshotDB>;
+
+const DB_NAME = 'teamtrack-game-cache';
+const DB_VERSION = 2;
+const SNAPSHOT_KINDS: GameSnapshotKind[] = ['games', 'summaries'];
+
+let dbPromise: Promise<IDBPDatabase<GameSnapshotDB>> | null = null;
+
+function getDB(): Promise<IDBPDatabase<GameSnapshotDB>> {
+  if (!dbPromise) {
+    dbPromise = openDB<GameSnapshotDB>(DB_NAME, DB_VERSION, {
+      upgrade(db) {
+        for (const kind of SNAPSHOT_KINDS) {
+          if (!db.objectStoreNames.contains(kind)) {
+            db.createObjectStore(kind, { keyPath: 'gameId' });
+          }
+        }
+      },
+    });
+  }
+  return dbPromise;
+}
+
+export async function getSnapshot<K extends GameSnapshotKind>(
+  kind: K,
+  gameId: string
+): Promise<StoreValue<GameSnapshotDB, K> | undefined> {
+  const db = await getDB();
+  return db.get(kind, gameId);
+}
+
+export async function listSnapshots<K extends GameSnapshotKind>(kind: K): Promise<StoreValue<GameSnapshotDB, K>[]> {
+  const db = await getDB();
+  return db.getAll(kind);
+}
+
+/**
+ * Saves a snapshot and drops the oldest of its kind beyond `maxSnapshots`.
+ */
+export async function saveSnapshot<K extends GameSnapshotKind>(
+  kind: K,
+  snapshot: StoreValue<GameSnapshotDB, K>,
+  maxSnapshots: number
+): Promise<void> {
+  const db = await getDB();
+  // Model instances carry lazy-loader functions for relationships, which
+  // IndexedDB cannot clone. A JSON round trip keeps only the plain fields.
+  await db.put(kind, JSON.parse(JSON.stringify(snapshot)) as StoreValue<GameSnapshotDB, K>);
+
+  const saved: Array<{ gameId: string; savedAt: number }> = await db.getAll(kind);
+  const stale = saved
+    .sort((a, b) => b.savedAt - a.savedAt)
+    .slice(maxSnapshots);
+  await Promise.all(stale.map(s => db.delete(kind, s.gameId)));
+}
+
+/**
+ * Deletes every saved snapshot of every kind. Called on sign-out so the next
+ * coach on this device can't open another coach's games offline.
+ */
+export async function clearGameSnapshots(): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction(SNAPSHOT_KINDS, 'readwrite');
+  await Promise.all([...SNAPSHOT_KINDS.map(kind => tx.objectStore(kind).clear()), tx.done]);
+}
@@ -0,0 +1,113 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const { store, dbMock, mockGameGet, mockTeamGet, mockPlayerGet, listMocks } = vi.hoisted(() => {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const store = new Map<string, any>();
+  const dbMock = {
+    get: vi.fn(async (_store: string, key: string) => store.get(key)),
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    put: vi.fn(async (_store: string, value: any) => { store.set(value.gameId, value); }),
+    getAll: vi.fn(async () => [...store.values()]),
+    delete: vi.fn(async (_store: string, key: string) => { store.delete(key); }),
+  };
+  const list = () => vi.fn().mockResolvedValue({ data: [], nextToken: null });
+  return {
+    store,
+    dbMock,
+    mockGameGet: vi.fn(),
+    mockTeamGet: vi.fn(),
+    mockPlayerGet: vi.fn(),
+    listMocks: {
+      TeamRoster: list(),
+      FormationPosition: list(),
+      PlayTimeRecord: list(),
+      Goal: list(),
+      GameNote: list(),
+      Substitution: list(),
+      GameEvent: list(),
+    },
+  };
+});
+
+vi.mock('idb', () => ({
+  openDB: vi.fn().mockResolvedValue(dbMock),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      Game: { get: mockGameGet },
+      Team: { get: mockTeamGet },
+      Player: { get: mockPlayerGet },
+      ...Object.fromEntries(Object.entries(listMocks).map(([name, list]) => [name, { list }])),
+    },
+  }),
+}));
+
+import { loadGameSummary, cacheGameSummary, type GameSummarySnapshot } from './gameSummaryService';
+
+const setOnline = (online: boolean) => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(online);
+
+describe('gameSummaryService', () => {
+  beforeEach(() => {
+    store.clear();
+    vi.clearAllMocks();
+    Object.values(listMocks).forEach(list => list.mockResolvedValue({ data: [], nextToken: null }));
+    mockGameGet.mockResolvedValue({ data: { id: 'game-1', teamId: 'team-1', opponent: 'Eagles', team: () => null } });
+    mockTeamGet.mockResolvedValue({ data: { id: 'team-1', formationId: 'f1' } });
+    mockPlayerGet.mockResolvedValue({ data: { id: 'p1', firstName: 'Alice' } });
+    listMocks.TeamRoster.mockResolvedValue({ data: [{ playerId: 'p1', playerNumber: 10 }], nextToken: null });
+    setOnline(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('fetches every page of the game records and saves a plain copy', async () => {
+    listMocks.Goal
+      .mockResolvedValueOnce({ data: [{ id: 'g1' }], nextToken: 'page-2' })
+      .mockResolvedValueOnce({ data: [{ id: 'g2' }], nextToken: null });
+
+    const { snapshot, fromCache } = await loadGameSummary('game-1');
+
+    expect(fromCache).toBe(false);
+    expect(snapshot.goals.map(g => g.id)).toEqual(['g1', 'g2']);
+    expect(snapshot.players).toEqual([expect.objectContaining({ id: 'p1', playerNumber: 10 })]);
+    expect(listMocks.FormationPosition.mock.calls[0][0]).toMatchObject({ filter: { formationId: { eq: 'f1' } } });
+    expect(typeof store.get('game-1').game.team).toBe('undefined');
+  });
+
+  it('uses the saved copy when the request fails', async () => {
+    store.set('game-1', { gameId: 'game-1', savedAt: 1, goals: [{ id: 'cached' }] });
+    mockGameGet.mockRejectedValue(new Error('Network error'));
+
+    const { snapshot, fromCache } = await loadGameSummary('game-1');
+
+    expect(fromCache).toBe(true);
+    expect(snapshot.goals).toEqual([{ id: 'cached' }]);
+  });
+
+  it('skips the network while offline when a copy is saved', async () => {
+    setOnline(false);
+    store.set('game-1', { gameId: 'game-1', savedAt: 1 });
+
+    await expect(loadGameSummary('game-1')).resolves.toMatchObject({ fromCache: true });
+    expect(mockGameGet).not.toHaveBeenCalled();
+  });
+
+  it('rethrows when nothing is saved for the game', async () => {
+    mockGameGet.mockRejectedValue(new Error('Network error'));
+
+    await expect(loadGameSummary('game-1')).rejects.toThrow('Network error');
+  });
+
+  it('keeps only the most recent summaries', async () => {
+    for (let i = 0; i < 21; i++) {
+      await cacheGameSummary({ gameId: `game-${i}`, savedAt: i } as GameSummarySnapshot);
+    }
+
+    expect(store.size).toBe(20);
+    expect(store.has('game-0')).toBe(false);
+  });
+});
@@ -0,0 +1,149 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type {
+  FormationPosition,
+  Game,
+  GameEvent,
+  GameNote,
+  Goal,
+  Player,
+  PlayerWithRoster,
+  PlayTimeRecord,
+  Substitution,
+  Team,
+  TeamRoster,
+} from '../types/schema';
+import { listAll } from '../utils/listAll';
+import { getSnapshot, saveSnapshot } from './gameSnapshotStore';
+
+const client = generateClient<Schema>();
+
+/**
+ * Game Summary Service
+ *
+ * Loads everything the completed-game summary page needs in one go and keeps
+ * a copy in IndexedDB. AppSync requests are not covered by the service
+ * worker's runtime cache, so this snapshot is what lets a coach review a
+ * game with no signal.
+ */
+
+export interface GameSummarySnapshot {
+  gameId: string;
+  game: Game;
+  team: Team;
+  players: PlayerWithRoster[];
+  positions: FormationPosition[];
+  playTimeRecords: PlayTimeRecord[];
+  goals: Goal[];
+  gameNotes: GameNote[];
+  substitutions: Substitution[];
+  gameEvents: GameEvent[];
+  /** Epoch ms when the snapshot was fetched */
+  savedAt: number;
+}
+
+export interface GameSummaryResult {
+  snapshot: GameSummarySnapshot;
+  /** True when the network was unavailable and the saved copy was used */
+  fromCache: boolean;
+}
+
+/** Only the most recent games are kept on the device */
+const MAX_CACHED_SUMMARIES = 20;
+
+/**
+ * Fetches a game and all of its records from the API
+ */
+export async function fetchGameSummary(gameId: string): Promise<GameSummarySnapshot> {
+  const gameResponse = await client.models.Game.get({ id: gameId });
+  if (!gameResponse.data) throw new Error('Game not found');
+  const game = gameResponse.data as Game;
+
+  const teamResponse = await client.models.Team.get({ id: game.teamId });
+  if (!teamResponse.data) throw new Error('Team not found');
+  const team = teamResponse.data as Team;
+
+  const byGame = { gameId: { eq: gameId } };
+  const [rosters, positions, playTimeRecords, goals, gameNotes, substitutions, gameEvents] = await Promise.all([
+    listAll<TeamRoster>(client.models.TeamRoster, { teamId: { eq: team.id } }),
+    team.formationId
+      ? listAll<FormationPosition>(client.models.FormationPosition, { formationId: { eq: team.formationId } })
+      : Promise.resolve([]),
+    listAll<PlayTimeRecord>(client.models.PlayTimeRecord, byGame),
+    listAll<Goal>(client.models.Goal, byGame),
+    listAll<GameNote>(client.models.GameNote, byGame),
+    listAll<Substitution>(client.models.Substitution, byGame),
+    listAll<GameEvent>(client.models.GameEvent, byGame),
+  ]);
+
+  const playerResponses: Array<{ data: Player | null }> = await Promise.all(
+    rosters.map(roster => client.models.Player.get({ id: roster.playerId }))
+  );
+  const players = rosters.flatMap((roster, index): PlayerWithRoster[] => {
+    const player = playerResponses[index].data;
+    if (!player) return [];
+    return [{
+      ...player,
+      playerNumber: roster.playerNumber,
+      preferredPositions: roster.preferredPositions || undefined,
+    }];
+  });
+
+  return {
+    gameId,
+    game,
+    team,
+    players,
+    positions: [...positions].sort((a, b) => (a.sortOrder || 0) - (b.sortOrder || 0)),
+    playTimeRecords,
+    goals,
+    gameNotes,
+    substitutions,
+    gameEvents,
+    savedAt: Date.now(),
+  };
+}
+
+export async function getCachedGameSummary(gameId: string): Promise<GameSummarySnapshot | undefined> {
+  return getSnapshot('summaries', gameId);
+}
+
+/**
+ * Saves a snapshot and drops the oldest ones beyond MAX_CACHED_SUMMARIES.
+ */
+export async function cacheGameSummary(snapshot: GameSummarySnapshot): Promise<void> {
+  await saveSnapshot('summaries', snapshot, MAX_CACHED_SUMMARIES);
+}
+
+/**
+ * Fetches and saves a game's summary so it is available offline later.
+ */
+export async function prefetchGameSummary(gameId: string): Promise<void> {
+  await cacheGameSummary(await fetchGameSummary(gameId));
+}
+
+/**
+ * Loads a game's summary from the API, refreshing the saved copy, and falls
+ * back to the saved copy when offline or when the request fails.
+ * @throws When the game cannot be fetched and nothing is saved on the device
+ */
+export async function loadGameSummary(gameId: string): Promise<GameSummaryResult> {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    const cached = await getCachedGameSummary(gameId);
+    if (cached) return { snapshot: cached, fromCache: true };
+  }
+
+  try {
+    const snapshot = await fetchGameSummary(gameId);
+    try {
+      await cacheGameSummary(snapshot);
+    } catch (cacheError) {
+      console.warn('[gameSummaryService] Failed to save summary for offline use:', cacheError);
+    }
+    return { snapshot, fromCache: false };
+  } catch (error) {
+    const cached = await getCachedGameSummary(gameId).catch(() => undefined);
+    if (cached) return { snapshot: cached, fromCache: true };
+    throw error;
+  }
+}
@@ -4,6 +4,7 @@ import {
   acceptTeamInvitation,
   declineTeamInvitation,
   revokeCoachAccess,
+  revokeParentAccess,
   getUserPendingInvitations,
 } from './invitationService';
 
@@ -16,6 +17,8 @@ const {
   mockTeamUpdate,
   mockTeamInvitationCreate,
   mockTeamInvitationUpdate,
+  mockTeamRosterList,
+  mockTeamRosterUpdate,
   mockAcceptInvitation,
   mockGetUserInvitations,
   mockGetCurrentUser,
@@ -24,6 +27,8 @@ const {
   mockTeamUpdate: vi.fn(),
   mockTeamInvitationCreate: vi.fn(),
   mockTeamInvitationUpdate: vi.fn(),
+  mockTeamRosterList: vi.fn(),
+  mockTeamRosterUpdate: vi.fn(),
   mockAcceptInvitation: vi.fn(),
   mockGetUserInvitations: vi.fn(),
   mockGetCurrentUser: vi.fn(),
@@ -40,6 +45,10 @@ vi.mock('aws-amplify/data', () => ({
         create: mockTeamInvitationCreate,
         update: mockTeamInvitationUpdate,
       },
+      TeamRoster: {
+        list: mockTeamRosterList,
+        update: mockTeamRosterUpdate,
+      },
     },
     mutations: {
       acceptInvitation: mockAcceptInvitation,
@@ -138,6 +147,24 @@ describe('invitationService', () => {
         sendTeamInvitation('team-1', 'test@test.com', 'COACH')
       ).rejects.toThrow('Team not found');
     });
+
+    it('stores the linked player on PARENT invitations', async () => {
+      mockTeamGet.mockResolvedValue({ data: { id: 'team-1', name: 'Test Team', coaches: ['coach-1'] } });
+      mockTeamInvitationCreate.mockResolvedValue({ data: { id: 'inv-1' } });
+
+      await sendTeamInvitation('team-1', 'parent@test.com', 'PARENT', 'player-7');
+
+      expect(mockTeamInvitationCreate).toHaveBeenCalledWith(
+        expect.objectContaining({ role: 'PARENT', playerId: 'player-7' })
+      );
+    });
+
+    it('throws if a PARENT invitation has no linked player', async () => {
+      await expect(
+        sendTeamInvitation('team-1', 'parent@test.com', 'PARENT')
+      ).rejects.toThrow('Select the player this parent will follow');
+      expect(mockTeamInvitationCreate).not.toHaveBeenCalled();
+    });
   });
 
   describe('acceptTeamInvitation', () => {
@@ -217,6 +244,51 @@ describe('invitationService', () => {
     });
   });
 
+  describe('revokeParentAccess', () => {
+    it('unlinks the parent from the team and every followed roster entry', async () => {
+      mockTeamGet.mockResolvedValue({ data: { id: 'team-1', parents: ['parent-1', 'parent-2'] } });
+      mockTeamRosterList.mockResolvedValue({
+        data: [
+          { id: 'roster-1', parents: ['parent-1'] },
+          { id: 'roster-2', parents: ['parent-2'] },
+          { id: 'roster-3', parents: null },
+        ],
+      });
+      mockTeamRosterUpdate.mockResolvedValue({ data: {} });
+      mockTeamUpdate.mockResolvedValue({ data: {} });
+
+      await revokeParentAccess('team-1', 'parent-1');
+
+      expect(mockTeamRosterList).toHaveBeenCalledWith(expect.objectContaining({ filter: { teamId: { eq: 'team-1' } } }));
+      expect(mockTeamRosterUpdate).toHaveBeenCalledTimes(1);
+      expect(mockTeamRosterUpdate).toHaveBeenCalledWith({ id: 'roster-1', parents: [] });
+      expect(mockTeamUpdate).toHaveBeenCalledWith({ id: 'team-1', parents: ['parent-2'] });
+    });
+
+    it('unlinks the parent from roster entries past the first page', async () => {
+      mockTeamGet.mockResolvedValue({ data: { id: 'team-1', parents: ['parent-1'] } });
+      mockTeamRosterList
+        .mockResolvedValueOnce({ data: [{ id: 'roster-1', parents: ['parent-1'] }], nextToken: 'page-2' })
+        .mockResolvedValueOnce({ data: [{ id: 'roster-2', parents: ['parent-1'] }], nextToken: null });
+      mockTeamRosterUpdate.mockResolvedValue({ data: {} });
+      mockTeamUpdate.mockResolvedValue({ data: {} });
+
+      await revokeParentAccess('team-1', 'parent-1');
+
+      expect(mockTeamRosterList).toHaveBeenLastCalledWith(expect.objectContaining({ nextToken: 'page-2' }));
+      expect(mockTeamRosterUpdate).toHaveBeenCalledWith({ id: 'roster-2', parents: [] });
+    });
+
+    it('throws if userId is not a parent on the team', async () => {
+      mockTeamGet.mockResolvedValue({ data: { id: 'team-1', parents: ['parent-2'] } });
+
+      await expect(revokeParentAccess('team-1', 'parent-1')).rejects.toThrow(
+        'User is not a parent on this team'
+      );
+      expect(mockTeamUpdate).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getUserPendingInvitations', () => {
     it('calls the custom getUserInvitations query', async () => {
       mockGetUserInvitations.mockResolvedValue({
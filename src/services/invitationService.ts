@@ -1,20 +1,28 @@
 import { generateClient } from 'aws-amplify/data';
 import type { Schema } from '../../amplify/data/resource';
 import { getCurrentUser } from 'aws-amplify/auth';
+import type { TeamRoster } from '../types/schema';
+import { listAll } from '../utils/listAll';
 
 const client = generateClient<Schema>();
 
 export type InvitationRole = 'OWNER' | 'COACH' | 'PARENT';
 
 /**
- * Send an invitation to join a team
+ * Send an invitation to join a team.
+ * PARENT invitations must name the child (`playerId`) the family member may follow.
  */
 export async function sendTeamInvitation(
   teamId: string,
   email: string,
-  role: InvitationRole
+  role: InvitationRole,
+  playerId?: string
 ) {
   try {
+    if (role === 'PARENT' && !playerId) {
+      throw new Error('Select the player this parent will follow');
+    }
+
     const user = await getCurrentUser();
     const now = new Date();
     const expiresAt = new Date(now.getTime() + 7 * 24 * 60 * 60 * 1000); // 7 days
@@ -30,6 +38,7 @@ export async function sendTeamInvitation(
       teamName: teamResponse.data.name,
       email: email.toLowerCase(),
       role,
+      ...(role === 'PARENT' ? { playerId } : {}),
       status: 'PENDING',
       invitedBy: user.userId,
       invitedAt: now.toISOString(),
@@ -127,6 +136,48 @@ export async function revokeCoachAccess(teamId: string, userId: string) {
   }
 }
 
+/**
+ * Revoke a parent's read-only access by unlinking them from the team and from
+ * every roster entry they follow.
+ */
+export async function revokeParentAccess(teamId: string, userId: string) {
+  try {
+    const teamResponse = await client.models.Team.get({ id: teamId });
+    const team = teamResponse.data;
+
+    if (!team) {
+      throw new Error('Team not found');
+    }
+
+    const parents = (team.parents || []).filter((id): id is string => !!id);
+    if (!parents.includes(userId)) {
+      throw new Error('User is not a parent on this team');
+    }
+
+    const rosters = await listAll<TeamRoster>(client.models.TeamRoster, { teamId: { eq: teamId } });
+    const linkedRosters = rosters.filter((roster) =>
+      (roster.parents || []).includes(userId)
+    );
+
+    await Promise.all(linkedRosters.map((roster) =>
+      client.models.TeamRoster.update({
+        id: roster.id,
+        parents: (roster.parents || []).filter((id) => id !== userId),
+      })
+    ));
+
+    await client.models.Team.update({
+      id: teamId,
+      parents: parents.filter((id) => id !== userId),
+    });
+
+    return true;
+  } catch (error) {
+    console.error('Error revoking parent access:', error);
+    throw error;
+  }
+}
+
 /**
  * Get pending invitations for the current user
  */
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const { mockGameGet, mockGoalList, mockEnqueue, mockRemoveConflict } = vi.hoisted(() => ({
+  mockGameGet: vi.fn(),
+  mockGoalList: vi.fn(),
+  mockEnqueue: vi.fn(),
+  mockRemoveConflict: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: vi.fn(() => ({
+    models: {
+      Game: { get: mockGameGet },
+      Goal: { list: mockGoalList },
+    },
+  })),
+}));
+
+vi.mock('./offlineQueueService', () => ({
+  enqueue: mockEnqueue,
+  removeConflict: mockRemoveConflict,
+}));
+
+import { mergeStaleGameUpdate, planQueuedReplay, resolveConflict } from './offlineConflictService';
+import type { QueuedMutation, SyncConflict } from './offlineQueueService';
+
+const BASE = '2026-05-01T10:00:00.000Z';
+const LATER = '2026-05-01T10:05:00.000Z';
+
+function queued(payload: Record<string, unknown>, overrides: Partial<QueuedMutation> = {}): QueuedMutation {
+  return {
+    id: 'q1',
+    model: 'Game',
+    operation: 'update',
+    payload: { id: 'g1', ...payload },
+    enqueuedAt: 1,
+    retryCount: 0,
+    ownerSub: 'user-A',
+    baseUpdatedAt: BASE,
+    ...overrides,
+  };
+}
+
+describe('mergeStaleGameUpdate', () => {
+  it('recounts the score from goals instead of trusting either side', () => {
+    const goals = [{ scoredByUs: true }, { scoredByUs: true }, { scoredByUs: false }];
+    expect(mergeStaleGameUpdate(
+      { id: 'g1', ourScore: 1, opponentScore: 0 },
+      { ourScore: 1, opponentScore: 1 },
+      goals
+    )).toEqual({ payload: { id: 'g1', ourScore: 2 }, conflicts: [] });
+  });
+
+  it('keeps the larger elapsed time together with its lastStartTime', () => {
+    expect(mergeStaleGameUpdate(
+      { id: 'g1', elapsedSeconds: 900, lastStartTime: null },
+      { elapsedSeconds: 600, lastStartTime: '2026-05-01T10:04:00.000Z' },
+      []
+    ).payload).toEqual({ id: 'g1', elapsedSeconds: 900, lastStartTime: null });
+
+    expect(mergeStaleGameUpdate(
+      { id: 'g1', elapsedSeconds: 500, lastStartTime: null },
+      { elapsedSeconds: 600, lastStartTime: '2026-05-01T10:04:00.000Z' },
+      []
+    ).payload).toEqual({ id: 'g1' });
+  });
+
+  it('takes the larger added time per period', () => {
+    expect(mergeStaleGameUpdate(
+      { id: 'g1', addedTimeSeconds: [120, null] },
+      { addedTimeSeconds: [60, 90] },
+      []
+    ).payload).toEqual({ id: 'g1', addedTimeSeconds: [120, 90] });
+  });
+
+  it('reports other fields that differ and ignores ones that already match', () => {
+    expect(mergeStaleGameUpdate(
+      { id: 'g1', status: 'completed', currentHalf: 2 },
+      { status: 'in-progress', currentHalf: 2 },
+      []
+    )).toEqual({
+      payload: { id: 'g1' },
+      conflicts: [{ field: 'status', local: 'completed', server: 'in-progress' }],
+    });
+  });
+
+  it('applies a field only this device changed when the server moved on elsewhere', () => {
+    // A co-coach logged a goal; nobody else touched the status
+    expect(mergeStaleGameUpdate(
+      { id: 'g1', status: 'completed' },
+      { status: 'in-progress', ourScore: 1 },
+      [{ scoredByUs: true }],
+      { status: 'in-progress' }
+    )).toEqual({ payload: { id: 'g1', status: 'completed' }, conflicts: [] });
+  });
+
+  it('reports a field both sides changed', () => {
+    expect(mergeStaleGameUpdate(
+      { id: 'g1', status: 'completed' },
+      { status: 'halftime' },
+      [],
+      { status: 'in-progress' }
+    ).conflicts).toEqual([{ field: 'status', local: 'completed', server: 'halftime' }]);
+  });
+});
+
+describe('planQueuedReplay', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGoalList.mockResolvedValue({ data: [], nextToken: null });
+  });
+
+  it('replays items without a base version unchanged, without reading the server', async () => {
+    const item = queued({ elapsedSeconds: 30 }, { baseUpdatedAt: undefined });
+    await expect(planQueuedReplay(item)).resolves.toEqual({ kind: 'replay', item });
+    expect(mockGameGet).not.toHaveBeenCalled();
+  });
+
+  it('replays as-is when the server has not changed since the update was queued', async () => {
+    mockGameGet.mockResolvedValue({ data: { id: 'g1', updatedAt: BASE, elapsedSeconds: 0 } });
+    const item = queued({ elapsedSeconds: 30 });
+    await expect(planQueuedReplay(item)).resolves.toEqual({ kind: 'replay', item });
+  });
+
+  it('replays the merged payload when the server moved on in mergeable ways', async () => {
+    mockGameGet.mockResolvedValue({ data: { id: 'g1', updatedAt: LATER, elapsedSeconds: 600, ourScore: 0 } });
+    mockGoalList.mockResolvedValue({ data: [{ scoredByUs: true }], nextToken: null });
+
+    const decision = await planQueuedReplay(queued({ elapsedSeconds: 900, ourScore: 3 }));
+
+    expect(decision).toEqual({
+      kind: 'replay',
+      item: expect.objectContaining({ payload: { id: 'g1', elapsedSeconds: 900, ourScore: 1 } }),
+    });
+    expect(mockGoalList).toHaveBeenCalledWith(expect.objectContaining({ filter: { gameId: { eq: 'g1' } } }));
+  });
+
+  it('skips the write when the server already has everything', async () => {
+    mockGameGet.mockResolvedValue({ data: { id: 'g1', updatedAt: LATER, elapsedSeconds: 1200 } });
+    await expect(planQueuedReplay(queued({ elapsedSeconds: 900 }))).resolves.toEqual({ kind: 'skip' });
+  });
+
+  it('returns a conflict for fields it cannot merge', async () => {
+    mockGameGet.mockResolvedValue({ data: { id: 'g1', updatedAt: LATER, status: 'halftime', elapsedSeconds: 600 } });
+
+    const decision = await planQueuedReplay(queued({ status: 'completed', elapsedSeconds: 900 }));
+
+    expect(decision).toEqual({
+      kind: 'conflict',
+      conflict: expect.objectContaining({
+        id: 'q1',
+        fields: [{ field: 'status', local: 'completed', server: 'halftime' }],
+        mergedPayload: { id: 'g1', elapsedSeconds: 900 },
+        serverUpdatedAt: LATER,
+      }),
+    });
+  });
+
+  it('replays an offline end of game when the server only changed the score', async () => {
+    mockGameGet.mockResolvedValue({ data: { id: 'g1', updatedAt: LATER, status: 'in-progress', ourScore: 1, elapsedSeconds: 2400 } });
+
+    const decision = await planQueuedReplay(queued(
+      { status: 'completed', elapsedSeconds: 3000 },
+      { baseValues: { status: 'in-progress', elapsedSeconds: 2400 } }
+    ));
+
+    expect(decision).toEqual({
+      kind: 'replay',
+      item: expect.objectContaining({ payload: { id: 'g1', status: 'completed', elapsedSeconds: 3000 } }),
+    });
+  });
+
+  it('returns a conflict with no fields when the game is gone', async () => {
+    mockGameGet.mockResolvedValue({ data: null });
+    const decision = await planQueuedReplay(queued({ status: 'completed' }));
+    expect(decision).toEqual({
+      kind: 'conflict',
+      conflict: expect.objectContaining({ fields: [], serverUpdatedAt: null }),
+    });
+  });
+});
+
+describe('resolveConflict', () => {
+  const conflict: SyncConflict = {
+    id: 'q1',
+    mutation: queued({ status: 'completed', elapsedSeconds: 900 }),
+    fields: [{ field: 'status', local: 'completed', server: 'halftime' }],
+    mergedPayload: { id: 'g1', elapsedSeconds: 900 },
+    serverUpdatedAt: LATER,
+    detectedAt: 2,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockEnqueue.mockResolvedValue(undefined);
+    mockRemoveConflict.mockResolvedValue(undefined);
+  });
+
+  it('keep-mine queues the merged update with this device values, based on the server copy', async () => {
+    await resolveConflict(conflict, 'keep-mine');
+    expect(mockEnqueue).toHaveBeenCalledWith({
+      model: 'Game',
+      operation: 'update',
+      payload: { id: 'g1', elapsedSeconds: 900, status: 'completed' },
+      ownerSub: 'user-A',
+      baseUpdatedAt: LATER,
+      baseValues: { status: 'halftime' },
+    });
+    expect(mockRemoveConflict).toHaveBeenCalledWith('q1');
+  });
+
+  it('keep-theirs queues only the merged part', async () => {
+    await resolveConflict(conflict, 'keep-theirs');
+    expect(mockEnqueue).toHaveBeenCalledWith(expect.objectContaining({ payload: { id: 'g1', elapsedSeconds: 900 } }));
+  });
+
+  it('queues nothing when there is nothing left to write', async () => {
+    await resolveConflict({ ...conflict, mergedPayload: { id: 'g1' } }, 'keep-theirs');
+    await resolveConflict({ ...conflict, fields: [], serverUpdatedAt: null }, 'keep-theirs');
+    expect(mockEnqueue).not.toHaveBeenCalled();
+    expect(mockRemoveConflict).toHaveBeenCalledTimes(2);
+  });
+});
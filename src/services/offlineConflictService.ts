@@ -0,0 +1,189 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import { listAll } from '../utils/listAll';
+import type { Goal } from '../types/schema';
+import {
+  enqueue,
+  removeConflict,
+  type ConflictField,
+  type QueuedMutation,
+  type SyncConflict,
+} from './offlineQueueService';
+
+const client = generateClient<Schema>();
+
+/**
+ * Offline Conflict Service
+ *
+ * Replaying a queued Game update as-is would overwrite whatever another coach
+ * saved while this device was offline. Before replay, a queued update that
+ * carries a `baseUpdatedAt` is checked against the server copy. If the server
+ * has moved on, the fields that can be settled without asking are merged:
+ * - the score is recounted from the Goal records
+ * - the clock takes the larger elapsed time, with its matching lastStartTime
+ * - added time takes the larger value per period
+ * - any other field the server still has at its base value takes this device's value
+ * Fields both sides changed become a SyncConflict for the coach to resolve.
+ */
+
+export type ConflictChoice = 'keep-mine' | 'keep-theirs';
+
+export type ReplayDecision =
+  | { kind: 'replay'; item: QueuedMutation }
+  | { kind: 'skip' }
+  | { kind: 'conflict'; conflict: SyncConflict };
+
+export interface GameUpdateMerge {
+  payload: Record<string, unknown>;
+  conflicts: ConflictField[];
+}
+
+const SCORE_FIELDS = new Set(['ourScore', 'opponentScore']);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function maxPerPeriod(local: unknown, server: unknown): Array<number | null> {
+  const a = Array.isArray(local) ? (local as Array<number | null>) : [];
+  const b = Array.isArray(server) ? (server as Array<number | null>) : [];
+  return Array.from({ length: Math.max(a.length, b.length) }, (_, i) => {
+    if (a[i] == null) return b[i] ?? null;
+    if (b[i] == null) return a[i];
+    return Math.max(a[i] as number, b[i] as number);
+  });
+}
+
+/**
+ * Merges a queued Game update into a server copy that changed after it was queued.
+ * Only fields the queued update sets are considered; fields that already
+ * match the server are left out of the merged payload.
+ * @param local - Queued update payload, including the game id
+ * @param server - Current server copy of the game
+ * @param goals - The game's Goal records, used to recount the score
+ * @param base - The queued update's base values; a field without one that
+ *   differs from the server is reported as a conflict
+ */
+export function mergeStaleGameUpdate(
+  local: Record<string, unknown>,
+  server: Record<string, unknown>,
+  goals: Array<{ scoredByUs?: boolean | null }>,
+  base: Record<string, unknown> = {}
+): GameUpdateMerge {
+  const payload: Record<string, unknown> = { id: local.id };
+  const conflicts: ConflictField[] = [];
+  const hasLocalClock = Object.prototype.hasOwnProperty.call(local, 'elapsedSeconds');
+  const localClockAhead = hasLocalClock
+    && ((local.elapsedSeconds as number | null) ?? 0) > ((server.elapsedSeconds as number | null) ?? 0);
+  const recounted: Record<string, number> = {
+    ourScore: goals.filter(g => g.scoredByUs).length,
+    opponentScore: goals.filter(g => !g.scoredByUs).length,
+  };
+
+  for (const [field, value] of Object.entries(local)) {
+    if (field === 'id') continue;
+
+    if (SCORE_FIELDS.has(field)) {
+      if (!sameValue(recounted[field], server[field])) payload[field] = recounted[field];
+      continue;
+    }
+    if (field === 'elapsedSeconds' || (field === 'lastStartTime' && hasLocalClock)) {
+      if (localClockAhead) payload[field] = value;
+      continue;
+    }
+    if (field === 'addedTimeSeconds') {
+      const merged = maxPerPeriod(value, server[field]);
+      if (!sameValue(merged, server[field])) payload[field] = merged;
+      continue;
+    }
+    if (sameValue(value, server[field])) continue;
+    // Only this device changed it, so there is nothing to ask about
+    if (Object.prototype.hasOwnProperty.call(base, field) && sameValue(base[field], server[field])) {
+      payload[field] = value;
+      continue;
+    }
+    conflicts.push({ field, local: value ?? null, server: server[field] ?? null });
+  }
+
+  return { payload, conflicts };
+}
+
+function isStale(serverUpdatedAt: string | null | undefined, baseUpdatedAt: string): boolean {
+  if (!serverUpdatedAt) return false;
+  return Date.parse(serverUpdatedAt) > Date.parse(baseUpdatedAt);
+}
+
+/**
+ * Decides how a queued mutation should be replayed. Anything other than a
+ * Game update with a `baseUpdatedAt` is replayed unchanged.
+ * @returns The (possibly merged) item to replay, a skip when the server already
+ *   has everything it would write, or a conflict the coach has to resolve
+ */
+export async function planQueuedReplay(item: QueuedMutation): Promise<ReplayDecision> {
+  if (item.model !== 'Game' || item.operation !== 'update' || !item.baseUpdatedAt) {
+    return { kind: 'replay', item };
+  }
+
+  const gameId = item.payload.id as string;
+  const { data: server } = await client.models.Game.get({ id: gameId });
+  const conflictFrom = (fields: ConflictField[], mergedPayload: Record<string, unknown>): ReplayDecision => ({
+    kind: 'conflict',
+    conflict: {
+      id: item.id,
+      mutation: item,
+      fields,
+      mergedPayload,
+      serverUpdatedAt: server?.updatedAt ?? null,
+      detectedAt: Date.now(),
+    },
+  });
+
+  if (!server) return conflictFrom([], { id: gameId });
+  if (!isStale(server.updatedAt, item.baseUpdatedAt)) return { kind: 'replay', item };
+
+  const needsGoals = Object.keys(item.payload).some(field => SCORE_FIELDS.has(field));
+  const goals = needsGoals ? await listAll<Goal>(client.models.Goal, { gameId: { eq: gameId } }) : [];
+  const { payload, conflicts } = mergeStaleGameUpdate(
+    item.payload,
+    server as unknown as Record<string, unknown>,
+    goals,
+    item.baseValues
+  );
+
+  if (conflicts.length > 0) return conflictFrom(conflicts, payload);
+  if (Object.keys(payload).length === 1) return { kind: 'skip' };
+  return { kind: 'replay', item: { ...item, payload } };
+}
+
+/**
+ * Settles a conflict by queueing what the coach chose. "Keep mine" writes the
+ * merged update plus this device's values for the disputed fields; "keep
+ * theirs" writes only the merged part, or nothing if that part is empty.
+ * The new entry is based on the server copy the conflict was found against,
+ * so it replays without conflicting again unless the server changes one of
+ * the disputed fields again.
+ */
+export async function resolveConflict(conflict: SyncConflict, choice: ConflictChoice): Promise<void> {
+  if (conflict.serverUpdatedAt) {
+    const payload = choice === 'keep-mine'
+      ? {
+          ...conflict.mergedPayload,
+          ...Object.fromEntries(conflict.fields.map(({ field, local }) => [field, local])),
+        }
+      : conflict.mergedPayload;
+
+    if (Object.keys(payload).length > 1) {
+      await enqueue({
+        model: conflict.mutation.model,
+        operation: conflict.mutation.operation,
+        payload,
+        ownerSub: conflict.mutation.ownerSub,
+        baseUpdatedAt: conflict.serverUpdatedAt,
+        ...(choice === 'keep-mine'
+          ? { baseValues: Object.fromEntries(conflict.fields.map(({ field, server }) => [field, server])) }
+          : {}),
+      });
+    }
+  }
+  await removeConflict(conflict.id);
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+// ── In-memory IDB ────────────────────────────────────────────────────────────
+// The real queue service runs against these maps, so the tests see exactly
+// what a drain leaves behind in the store.
+
+const { stores, idb, mockGoalCreate } = vi.hoisted(() => ({
+  stores: new Map<string, Map<IDBValidKey, unknown>>(),
+  idb: { broken: false },
+  mockGoalCreate: vi.fn(),
+}));
+
+vi.mock('idb', () => {
+  const storeFor = (name: string) => {
+    if (!stores.has(name)) stores.set(name, new Map());
+    return stores.get(name)!;
+  };
+  const api = (name: string) => ({
+    getAll: async () => [...storeFor(name).values()],
+    get: async (key: IDBValidKey) => storeFor(name).get(key),
+    put: async (value: { id?: string }, key?: IDBValidKey) => {
+      if (idb.broken) throw new Error('UnknownError');
+      storeFor(name).set(key ?? value.id!, value);
+    },
+    add: async (value: { id: string }) => {
+      storeFor(name).set(value.id, value);
+    },
+    delete: async (key: IDBValidKey) => {
+      if (idb.broken) throw new Error('UnknownError');
+      storeFor(name).delete(key);
+    },
+    count: async () => storeFor(name).size,
+  });
+  const db = {
+    transaction: (names: string | string[]) => ({
+      store: api([names].flat()[0]),
+      objectStore: api,
+      done: Promise.resolve(),
+    }),
+    getAll: (name: string) => api(name).getAll(),
+    get: (name: string, key: IDBValidKey) => api(name).get(key),
+    put: (name: string, value: { id?: string }, key?: IDBValidKey) => api(name).put(value, key),
+    add: (name: string, value: { id: string }) => api(name).add(value),
+    delete: (name: string, key: IDBValidKey) => api(name).delete(key),
+    count: (name: string) => api(name).count(),
+  };
+  return { openDB: vi.fn().mockResolvedValue(db) };
+});
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: vi.fn(() => ({
+    models: {
+      Goal: { create: mockGoalCreate },
+    },
+  })),
+}));
+
+import { drainOfflineQueue } from './offlineDrainService';
+import { enqueue, listPending } from './offlineQueueService';
+
+const NOW = Date.parse('2026-10-19T10:00:00Z');
+
+async function queueGoals(count: number): Promise<void> {
+  for (let i = 1; i <= count; i++) {
+    vi.setSystemTime(NOW + i);
+    await enqueue({ model: 'Goal', operation: 'create', payload: { id: `goal-${i}`, gameId: 'g1' }, ownerSub: 'coach-1' });
+  }
+}
+
+describe('drainOfflineQueue', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.useFakeTimers({ toFake: ['Date'] });
+    stores.clear();
+    idb.broken = false;
+    mockGoalCreate.mockResolvedValue({ data: {} });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('removes each write once it has synced', async () => {
+    await queueGoals(2);
+
+    const result = await drainOfflineQueue('coach-1');
+
+    expect(result.syncedCount).toBe(2);
+    expect(await listPending()).toEqual([]);
+  });
+
+  it('keeps the writes it had not reached when the browser stops it partway', async () => {
+    await queueGoals(3);
+    // The second replay never returns, as when the browser ends the sync event
+    mockGoalCreate
+      .mockResolvedValueOnce({ data: {} })
+      .mockReturnValueOnce(new Promise(() => {}));
+
+    void drainOfflineQueue('coach-1');
+    await vi.waitFor(() => expect(mockGoalCreate).toHaveBeenCalledTimes(2));
+
+    expect((await listPending()).map(item => item.payload.id)).toEqual(['goal-2', 'goal-3']);
+
+    // Once the claim lapses the next drain replays what is left
+    vi.setSystemTime(NOW + 11 * 60 * 1000);
+    mockGoalCreate.mockResolvedValue({ data: {} });
+    const result = await drainOfflineQueue('coach-1');
+
+    expect(result.syncedCount).toBe(2);
+    expect(await listPending()).toEqual([]);
+  });
+
+  it('keeps the rest of the queue when a drain rejects partway through', async () => {
+    await queueGoals(3);
+    // Storage starts failing while the second write replays
+    mockGoalCreate
+      .mockResolvedValueOnce({ data: {} })
+      .mockImplementationOnce(async () => {
+        idb.broken = true;
+        return { data: {} };
+      });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    await expect(drainOfflineQueue('coach-1')).rejects.toThrow('UnknownError');
+    idb.broken = false;
+
+    expect(mockGoalCreate).toHaveBeenCalledTimes(2);
+    expect((await listPending()).map(item => item.payload.id)).toEqual(['goal-2', 'goal-3']);
+  });
+
+  it('updates a rejected write in place and keeps going', async () => {
+    await queueGoals(2);
+    mockGoalCreate
+      .mockResolvedValueOnce({ data: null, errors: [{ message: 'Not Authorized' }] })
+      .mockResolvedValueOnce({ data: {} });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    const result = await drainOfflineQueue('coach-1');
+
+    expect(result.rejected).toHaveLength(1);
+    expect(await listPending()).toEqual([
+      expect.objectContaining({ payload: { id: 'goal-1', gameId: 'g1' }, retryCount: 1, lastError: 'Not Authorized' }),
+    ]);
+  });
+
+  it('puts another coach\'s writes back without a claim', async () => {
+    await queueGoals(1);
+
+    const result = await drainOfflineQueue('coach-2');
+
+    expect(result.preservedCount).toBe(1);
+    expect(mockGoalCreate).not.toHaveBeenCalled();
+    expect(await listPending()).toEqual([expect.not.objectContaining({ claimedUntil: expect.anything() })]);
+  });
+});
@@ -0,0 +1,162 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import {
+  claimPending,
+  removePending,
+  requeueFailed,
+  requeuePreserved,
+  deduplicateGameUpdates,
+  saveConflicts,
+  type QueuedMutation,
+} from './offlineQueueService';
+import { planQueuedReplay } from './offlineConflictService';
+import { getHeldBackReason, markRejected, orderForReplay } from '../utils/offlineReplayUtils';
+
+const client = generateClient<Schema>();
+
+/**
+ * Offline Drain Service
+ *
+ * Replays the offline queue through the generated models client. Used by the
+ * app shell on startup and reconnect, and by the service worker's background
+ * sync while the app is closed, so both apply the same allow-list and
+ * ownerSub checks. useOfflineMutations drains through it too, passing a
+ * handler for the models it replays through custom mutations.
+ *
+ * Each item stays queued until its own outcome is written, so a drain the
+ * browser stops partway (a sync event has a time limit) loses nothing.
+ */
+
+// Plain CRUD models replayed through the generated client
+export const DRAINABLE_MODELS = new Set([
+  'Game',
+  'PlayTimeRecord',
+  'Substitution',
+  'LineupAssignment',
+  'Goal',
+  'ShootoutKick',
+  'GameEvent',
+  'PlayerAvailability',
+  'QueuedSubstitution',
+  'GamePlan',
+  'PlannedRotation',
+]);
+// GameNote uses custom secure mutations; without a handler for it the drain puts it back as-is
+const HANDLER_ONLY_MODELS = new Set(['GameNote']);
+const ALLOWED_OPS = new Set(['create', 'update', 'delete']);
+
+/** Replays one queued write for a model that doesn't go through the generated client */
+export type QueuedMutationHandler = (item: QueuedMutation) => Promise<void>;
+
+export interface OfflineDrainResult {
+  /** Writes the server has now, including ones it already had */
+  syncedCount: number;
+  /** Writes the server rejected; they stay queued for a retry */
+  rejected: QueuedMutation[];
+  /** Writes held back because a record they depend on did not sync */
+  heldBackCount: number;
+  conflictCount: number;
+  /** Writes put back untouched: another coach's, or ones with no handler here */
+  preservedCount: number;
+}
+
+function getSafeErrorMessage(error: unknown): string {
+  if (error instanceof Error && error.message) return error.message;
+  if (typeof error === 'string') return error;
+  return 'Unknown error';
+}
+
+async function executeQueuedMutation(
+  item: QueuedMutation,
+  handlers: ReadonlyMap<string, QueuedMutationHandler>
+): Promise<void> {
+  const handler = handlers.get(item.model);
+  if ((!handler && !DRAINABLE_MODELS.has(item.model)) || !ALLOWED_OPS.has(item.operation)) {
+    throw new Error(`Disallowed model/operation in drain: ${item.model}.${item.operation}`);
+  }
+  if (handler) {
+    await handler(item);
+    return;
+  }
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const m = (client.models as Record<string, any>)[item.model];
+  if (!m) throw new Error(`Unknown model in drain: ${item.model}`);
+  const result: { errors?: Array<{ message?: string | null }> } | undefined = await m[item.operation](item.payload);
+  // Rejections come back as GraphQL errors rather than exceptions
+  const message = result?.errors?.[0]?.message;
+  if (message) throw new Error(message);
+}
+
+/**
+ * Replays every queued write the signed-in coach made. Writes from another
+ * coach on a shared device, and GameNote writes when no handler is given, are
+ * put back untouched. Unknown models fail like any rejected write. Each item
+ * leaves the queue only once it has synced or moved to the conflict store.
+ * @param currentSub - Cognito sub of the signed-in coach
+ * @param handlers - Replay functions by model name, for models the generated
+ *   client can't replay
+ */
+export async function drainOfflineQueue(
+  currentSub: string,
+  handlers: ReadonlyMap<string, QueuedMutationHandler> = new Map()
+): Promise<OfflineDrainResult> {
+  await deduplicateGameUpdates();
+  const items = await claimPending();
+
+  // Creates that did not land, so writes that depend on them are held back
+  const rejectedCreates = new Map<string, string>();
+  const rejected: QueuedMutation[] = [];
+  let heldBackCount = 0;
+  let syncedCount = 0;
+  // Stale updates the merge could not settle wait for the coach, not for a retry
+  let conflictCount = 0;
+  // Another coach's writes, and GameNote items with no handler, are put back as-is
+  let preservedCount = 0;
+
+  // Games and plans created offline replay before the records that point at them
+  for (const item of orderForReplay(items)) {
+    if ((HANDLER_ONLY_MODELS.has(item.model) && !handlers.has(item.model))
+      || (item.ownerSub && item.ownerSub !== currentSub)) {
+      await requeuePreserved([item]);
+      markRejected(item, rejectedCreates);
+      preservedCount++;
+      continue;
+    }
+    const heldBackReason = getHeldBackReason(item, rejectedCreates);
+    if (heldBackReason) {
+      await requeueFailed([{ ...item, lastError: heldBackReason }]);
+      markRejected(item, rejectedCreates);
+      heldBackCount++;
+      continue;
+    }
+    try {
+      const decision = await planQueuedReplay(item);
+      if (decision.kind === 'conflict') {
+        await saveConflicts([decision.conflict]);
+        await removePending(item.id);
+        conflictCount++;
+        continue;
+      }
+      if (decision.kind === 'replay') {
+        await executeQueuedMutation(decision.item, handlers);
+      }
+      await removePending(item.id);
+      syncedCount++;
+    } catch (err) {
+      await requeueFailed([{ ...item, lastError: getSafeErrorMessage(err) }]);
+      rejected.push(item);
+      markRejected(item, rejectedCreates);
+      console.warn(
+        `[offlineDrainService] Failed to replay ${item.model}.${item.operation}: ${getSafeErrorMessage(err)}`
+      );
+    }
+  }
+
+  return {
+    syncedCount,
+    rejected,
+    heldBackCount,
+    conflictCount,
+    preservedCount,
+  };
+}
@@ -4,24 +4,37 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 // All mock functions are created here via vi.hoisted so they are available
 // inside vi.mock() factory (which is also hoisted before module imports).
 
-const { store, txApi, dbMock } = vi.hoisted(() => {
+const { store, deadStore, txApi, deadTxApi, dbMock } = vi.hoisted(() => {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   const s = new Map<string, any>();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const dead = new Map<string, any>();
 
   const txApi = {
     getAll: vi.fn(),
     clear: vi.fn(),
     put: vi.fn(),
     delete: vi.fn(),
+    get: vi.fn(),
+  };
+
+  const deadTxApi = {
+    put: vi.fn(),
+    get: vi.fn(),
+    delete: vi.fn(),
   };
 
   const dbMock = {
     count: vi.fn(),
     add: vi.fn(),
+    get: vi.fn(),
+    put: vi.fn(),
+    getAll: vi.fn(),
+    delete: vi.fn(),
     transaction: vi.fn(),
   };
 
-  return { store: s, txApi, dbMock };
+  return { store: s, deadStore: dead, txApi, deadTxApi, dbMock };
 });
 
 vi.mock('idb', () => ({
@@ -31,12 +44,23 @@ vi.mock('idb', () => ({
 // Import AFTER vi.mock so the module receives the mocked idb.
 import {
   enqueue,
-  dequeueAll,
+  claimPending,
   requeueFailed,
   requeuePreserved,
   pendingCount,
   deduplicateGameUpdates,
+  saveConflicts,
+  listConflicts,
+  removeConflict,
+  listPending,
+  removePending,
+  resetRetries,
+  listDeadLetters,
+  deadLetterCount,
+  removeDeadLetter,
+  restoreDeadLetter,
   type QueuedMutation,
+  type SyncConflict,
 } from './offlineQueueService';
 
 // ── Test helpers ─────────────────────────────────────────────────────────────
@@ -61,9 +85,13 @@ describe('offlineQueueService', () => {
   beforeEach(() => {
     vi.clearAllMocks();
     store.clear();
+    deadStore.clear();
+
+    // The dead-letter store gets its own map; every other store shares `store`.
+    const storeFor = (name: string) => (name === 'dead-letter' ? deadStore : store);
 
     // Re-wire implementations each time because vi.clearAllMocks() removes them.
-    dbMock.count.mockImplementation(() => Promise.resolve(store.size));
+    dbMock.count.mockImplementation((name: string) => Promise.resolve(storeFor(name).size));
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     dbMock.add.mockImplementation((_storeName: string, item: any) => {
       store.set(item.id as string, item);
@@ -71,8 +99,20 @@ describe('offlineQueueService', () => {
     });
     dbMock.transaction.mockReturnValue({
       store: txApi,
+      objectStore: (name: string) => (name === 'dead-letter' ? deadTxApi : txApi),
       done: Promise.resolve(),
     });
+    txApi.get.mockImplementation((id: string) => Promise.resolve(store.get(id)));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    deadTxApi.put.mockImplementation((item: any) => {
+      deadStore.set(item.id as string, item);
+      return Promise.resolve();
+    });
+    deadTxApi.get.mockImplementation((id: string) => Promise.resolve(deadStore.get(id)));
+    deadTxApi.delete.mockImplementation((id: string) => {
+      deadStore.delete(id);
+      return Promise.resolve();
+    });
     txApi.getAll.mockImplementation(() =>
       Promise.resolve([...store.values()])
     );
@@ -89,6 +129,18 @@ describe('offlineQueueService', () => {
       store.delete(id);
       return Promise.resolve();
     });
+    // The conflict store shares the in-memory map; tests use distinct ids.
+    dbMock.getAll.mockImplementation((name: string) => Promise.resolve([...storeFor(name).values()]));
+    dbMock.get.mockImplementation((name: string, id: string) => Promise.resolve(storeFor(name).get(id)));
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    dbMock.put.mockImplementation((name: string, item: any) => {
+      storeFor(name).set(item.id as string, item);
+      return Promise.resolve();
+    });
+    dbMock.delete.mockImplementation((name: string, id: string) => {
+      storeFor(name).delete(id);
+      return Promise.resolve();
+    });
   });
 
   // ── enqueue ──────────────────────────────────────────────────────────────
@@ -144,30 +196,37 @@ describe('offlineQueueService', () => {
     });
   });
 
-  // ── dequeueAll ───────────────────────────────────────────────────────────
+  // ── claimPending ─────────────────────────────────────────────────────────
 
-  describe('dequeueAll', () => {
+  describe('claimPending', () => {
     it('returns items sorted oldest-first by enqueuedAt', async () => {
       const newer = makeItem({ id: 'newer', enqueuedAt: 2000 });
       const older = makeItem({ id: 'older', enqueuedAt: 1000 });
       store.set(newer.id, newer);
       store.set(older.id, older);
 
-      const result = await dequeueAll();
+      const result = await claimPending();
 
       expect(result).toHaveLength(2);
       expect(result[0].id).toBe('older');
       expect(result[1].id).toBe('newer');
     });
 
-    it('clears the store after dequeuing', async () => {
+    it('leaves claimed items in the store', async () => {
       store.set('x', makeItem({ id: 'x' }));
-      await dequeueAll();
-      expect(store.size).toBe(0);
+      const [claimed] = await claimPending();
+      expect(store.get('x')?.claimedUntil).toBeGreaterThan(Date.now());
+      expect(claimed.claimedUntil).toBeUndefined();
+    });
+
+    it('skips items another drain has claimed until the claim lapses', async () => {
+      store.set('live', makeItem({ id: 'live', claimedUntil: Date.now() + 60_000 }));
+      store.set('lapsed', makeItem({ id: 'lapsed', claimedUntil: Date.now() - 1 }));
+      expect((await claimPending()).map(i => i.id)).toEqual(['lapsed']);
     });
 
     it('returns an empty array when the store is empty', async () => {
-      expect(await dequeueAll()).toEqual([]);
+      expect(await claimPending()).toEqual([]);
     });
   });
 
@@ -180,20 +239,32 @@ describe('offlineQueueService', () => {
       expect(store.get(item.id)?.retryCount).toBe(2);
     });
 
-    it('drops items that have reached MAX_RETRIES (5)', async () => {
-      const maxed = makeItem({ id: 'maxed', retryCount: 5 });
+    it('releases the claim of an item it puts back', async () => {
+      const item = makeItem({ claimedUntil: Date.now() + 60_000 });
+      store.set(item.id, item);
+      await requeueFailed([item]);
+      expect(store.get(item.id)?.claimedUntil).toBeUndefined();
+    });
+
+    it('moves items that have reached MAX_RETRIES (5) to the dead-letter store', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const maxed = makeItem({ id: 'maxed', retryCount: 5, lastError: 'Unauthorized' });
       const underLimit = makeItem({ id: 'ok', retryCount: 2 });
       await requeueFailed([maxed, underLimit]);
       expect(store.has('maxed')).toBe(false);
       expect(store.has('ok')).toBe(true);
+      expect(deadStore.get('maxed')).toMatchObject({ retryCount: 5, lastError: 'Unauthorized' });
+      expect(deadStore.get('maxed')?.failedAt).toBeGreaterThan(0);
     });
 
-    it('drops all items when every item has exceeded max retries', async () => {
+    it('empties the queue when every item has exceeded max retries', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
       await requeueFailed([
         makeItem({ retryCount: 5 }),
         makeItem({ retryCount: 10 }),
       ]);
       expect(store.size).toBe(0);
+      expect(deadStore.size).toBe(2);
     });
 
     it('does nothing when the list is empty', async () => {
@@ -280,6 +351,16 @@ describe('offlineQueueService', () => {
       expect(store.size).toBe(2);
     });
 
+    it('leaves updates another drain is replaying alone', async () => {
+      const inFlight = makeItem({ id: 'in-flight', enqueuedAt: 100, payload: { id: 'game-A' }, claimedUntil: Date.now() + 60_000 });
+      const later = makeItem({ id: 'later', enqueuedAt: 200, payload: { id: 'game-A' } });
+      for (const i of [inFlight, later]) store.set(i.id, i);
+
+      await deduplicateGameUpdates();
+
+      expect(store.size).toBe(2);
+    });
+
     it('does not remove a single Game.update entry', async () => {
       const only = makeItem({ id: 'only', enqueuedAt: 100, payload: { id: 'game-A' } });
       store.set(only.id, only);
@@ -292,5 +373,134 @@ describe('offlineQueueService', () => {
     it('no-ops on an empty queue', async () => {
       await expect(deduplicateGameUpdates()).resolves.toBeUndefined();
     });
+
+    it('keeps fields set only by earlier entries and the earliest baseUpdatedAt', async () => {
+      const halftime = makeItem({
+        id: 'halftime',
+        enqueuedAt: 100,
+        payload: { id: 'game-A', status: 'halftime', elapsedSeconds: 1500 },
+        baseUpdatedAt: '2026-05-01T10:00:00.000Z',
+      });
+      const resume = makeItem({
+        id: 'resume',
+        enqueuedAt: 200,
+        payload: { id: 'game-A', elapsedSeconds: 1510, lastStartTime: 'T' },
+        baseUpdatedAt: '2026-05-01T10:01:00.000Z',
+      });
+      for (const i of [halftime, resume]) store.set(i.id, i);
+
+      await deduplicateGameUpdates();
+
+      expect(store.size).toBe(1);
+      expect(store.get('resume')).toEqual(expect.objectContaining({
+        payload: { id: 'game-A', status: 'halftime', elapsedSeconds: 1510, lastStartTime: 'T' },
+        baseUpdatedAt: '2026-05-01T10:00:00.000Z',
+      }));
+    });
+
+    it('keeps the base value from the first entry that changed each field', async () => {
+      const halftime = makeItem({
+        id: 'halftime',
+        enqueuedAt: 100,
+        payload: { id: 'game-A', status: 'halftime', elapsedSeconds: 1500 },
+        baseUpdatedAt: '2026-05-01T10:00:00.000Z',
+        baseValues: { status: 'in-progress', elapsedSeconds: 1200 },
+      });
+      const resume = makeItem({
+        id: 'resume',
+        enqueuedAt: 200,
+        payload: { id: 'game-A', status: 'in-progress', currentHalf: 2 },
+        baseUpdatedAt: '2026-05-01T10:00:00.000Z',
+        baseValues: { status: 'halftime', currentHalf: 1 },
+      });
+      for (const i of [halftime, resume]) store.set(i.id, i);
+
+      await deduplicateGameUpdates();
+
+      expect(store.get('resume')?.baseValues).toEqual({ status: 'in-progress', elapsedSeconds: 1200, currentHalf: 1 });
+    });
+  });
+
+  // ── conflicts ────────────────────────────────────────────────────────────
+
+  describe('conflict store', () => {
+    function makeConflict(id: string, detectedAt: number): SyncConflict {
+      return {
+        id,
+        mutation: makeItem({ id }),
+        fields: [{ field: 'status', local: 'completed', server: 'in-progress' }],
+        mergedPayload: { id: 'game-1' },
+        serverUpdatedAt: '2026-05-01T10:05:00.000Z',
+        detectedAt,
+      };
+    }
+
+    it('saves conflicts and lists them oldest first', async () => {
+      await saveConflicts([makeConflict('c2', 200), makeConflict('c1', 100)]);
+      expect((await listConflicts()).map(c => c.id)).toEqual(['c1', 'c2']);
+    });
+
+    it('removes a resolved conflict', async () => {
+      await saveConflicts([makeConflict('c1', 100)]);
+      await removeConflict('c1');
+      expect(await listConflicts()).toEqual([]);
+    });
+
+    it('does not open a transaction for an empty list', async () => {
+      await saveConflicts([]);
+      expect(dbMock.transaction).not.toHaveBeenCalled();
+    });
+  });
+
+  // ── inspector helpers ────────────────────────────────────────────────────
+
+  describe('pending items', () => {
+    it('lists pending items oldest first', async () => {
+      store.set('b', makeItem({ id: 'b', enqueuedAt: 200 }));
+      store.set('a', makeItem({ id: 'a', enqueuedAt: 100 }));
+      expect((await listPending()).map(i => i.id)).toEqual(['a', 'b']);
+    });
+
+    it('removes a single pending item', async () => {
+      store.set('a', makeItem({ id: 'a' }));
+      await removePending('a');
+      expect(store.size).toBe(0);
+    });
+
+    it('resets the retry count and clears the last error', async () => {
+      store.set('a', makeItem({ id: 'a', retryCount: 3, lastError: 'Network error' }));
+      await resetRetries('a');
+      expect(store.get('a')?.retryCount).toBe(0);
+      expect(store.get('a')).not.toHaveProperty('lastError');
+    });
+
+    it('ignores a reset for an item that already synced', async () => {
+      await resetRetries('missing');
+      expect(dbMock.put).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('dead-letter store', () => {
+    it('lists, counts and removes dead letters', async () => {
+      deadStore.set('late', { ...makeItem({ id: 'late' }), failedAt: 200 });
+      deadStore.set('early', { ...makeItem({ id: 'early' }), failedAt: 100 });
+
+      expect((await listDeadLetters()).map(i => i.id)).toEqual(['early', 'late']);
+      expect(await deadLetterCount()).toBe(2);
+
+      await removeDeadLetter('early');
+      expect(await deadLetterCount()).toBe(1);
+    });
+
+    it('restores a dead letter to the queue with a fresh retry count', async () => {
+      deadStore.set('d', { ...makeItem({ id: 'd', retryCount: 5, lastError: 'Forbidden' }), failedAt: 100 });
+
+      await restoreDeadLetter('d');
+
+      expect(deadStore.has('d')).toBe(false);
+      expect(store.get('d')).toMatchObject({ id: 'd', retryCount: 0 });
+      expect(store.get('d')).not.toHaveProperty('failedAt');
+      expect(store.get('d')).not.toHaveProperty('lastError');
+    });
   });
 });
@@ -10,11 +10,80 @@ export interface QueuedMutation {
   /** Cognito sub of the user who enqueued this mutation. Used to discard items
    * that were queued by a different user on a shared device. */
   ownerSub?: string;
+  /** Server `updatedAt` of the record this update was based on. Replay compares
+   * it with the server copy to spot edits another coach made in the meantime. */
+  baseUpdatedAt?: string;
+  /** What the record held, as of `baseUpdatedAt`, for each field this update
+   * changes. Replay only asks the coach about fields both sides changed. */
+  baseValues?: Record<string, unknown>;
+  /** Error message from the most recent failed replay */
+  lastError?: string;
+  /** Epoch ms until which a drain is replaying this item. Other drains skip
+   * it until then, and a drain that was cut off gives it up once it passes. */
+  claimedUntil?: number;
+}
+
+/** A queued mutation that failed every retry, kept so the coach can still act on it */
+export interface DeadLetterMutation extends QueuedMutation {
+  failedAt: number;
+}
+
+/** One field a stale queued update and the server copy disagree on */
+export interface ConflictField {
+  field: string;
+  local: unknown;
+  server: unknown;
+}
+
+/**
+ * A queued update replay could not merge on its own. It waits here, out of the
+ * retry loop, until the coach keeps their version or the server's.
+ */
+export interface SyncConflict {
+  /** Same id as the queued mutation it came from */
+  id: string;
+  mutation: QueuedMutation;
+  /** Fields that disagree; empty when the record no longer exists on the server */
+  fields: ConflictField[];
+  /** The safely-merged part of the update (always includes the record id) */
+  mergedPayload: Record<string, unknown>;
+  /** Server `updatedAt` the conflict was detected against; null when the record is gone */
+  serverUpdatedAt: string | null;
+  detectedAt: number;
+}
+
+/**
+ * What the service worker needs to replay the queue while the app is closed.
+ * Only the access token is handed over, never the refresh token, so background
+ * sync stops once it expires and the app drains the rest when it next opens.
+ */
+export interface BackgroundSyncAuth {
+  /** Cognito sub of the signed-in coach, checked against each item's ownerSub */
+  sub: string;
+  accessToken: string;
+  /** Epoch ms when the access token expires */
+  expiresAt: number;
+}
+
+/** Outcome of the last queue drain the service worker ran */
+export interface BackgroundSyncReport {
+  syncedCount: number;
+  /** Writes still queued: failed, held back, or queued by another coach */
+  remainingCount: number;
+  /** Stale updates held for the coach to resolve */
+  conflictCount: number;
+  /** Plain-language list of what the server rejected, if anything */
+  failureMessage: string | null;
+  finishedAt: number;
 }
 
 const DB_NAME = 'teamtrack-offline';
 const STORE_NAME = 'pending-mutations';
-const DB_VERSION = 1;
+const CONFLICT_STORE_NAME = 'sync-conflicts';
+const DEAD_LETTER_STORE_NAME = 'dead-letter';
+/** Key-value store shared with the service worker: the auth handoff and the last report */
+const BACKGROUND_SYNC_STORE_NAME = 'background-sync';
+const DB_VERSION = 4;
 
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 let dbPromise: Promise<IDBPDatabase<any>> | null = null;
@@ -27,6 +96,15 @@ function getDB(): Promise<IDBPDatabase<any>> {
         if (!db.objectStoreNames.contains(STORE_NAME)) {
           db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         }
+        if (!db.objectStoreNames.contains(CONFLICT_STORE_NAME)) {
+          db.createObjectStore(CONFLICT_STORE_NAME, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DEAD_LETTER_STORE_NAME)) {
+          db.createObjectStore(DEAD_LETTER_STORE_NAME, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(BACKGROUND_SYNC_STORE_NAME)) {
+          db.createObjectStore(BACKGROUND_SYNC_STORE_NAME);
+        }
       },
     });
   }
@@ -52,46 +130,76 @@ export async function enqueue(
   await db.add(STORE_NAME, mutation);
 }
 
-export async function dequeueAll(): Promise<QueuedMutation[]> {
+/** Longer than the browser lets a sync event run, so a live drain keeps its claim */
+const CLAIM_TTL_MS = 10 * 60 * 1000;
+
+function withoutClaim(item: QueuedMutation): QueuedMutation {
+  const { claimedUntil: _claimedUntil, ...rest } = item;
+  void _claimedUntil;
+  return rest;
+}
+
+function isClaimed(item: QueuedMutation, now: number): boolean {
+  return item.claimedUntil !== undefined && item.claimedUntil > now;
+}
+
+/**
+ * Claims every item no other drain is replaying and returns them oldest first.
+ * Items stay in the store until the drain removes or puts back each one, so a
+ * drain the browser stops partway loses nothing: its claims lapse and the next
+ * drain replays what is left.
+ */
+export async function claimPending(): Promise<QueuedMutation[]> {
   const db = await getDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
-  const items = await tx.store.getAll();
-  await tx.store.clear();
+  const now = Date.now();
+  const all: QueuedMutation[] = await tx.store.getAll();
+  const claimable = all.filter(item => !isClaimed(item, now));
+  for (const item of claimable) {
+    await tx.store.put({ ...item, claimedUntil: now + CLAIM_TTL_MS });
+  }
   await tx.done;
-  return items.sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+  return claimable.map(withoutClaim).sort((a, b) => a.enqueuedAt - b.enqueuedAt);
 }
 
-const MAX_RETRIES = 5;
+export const MAX_RETRIES = 5;
 
+/**
+ * Puts failed items back with an incremented retryCount, releasing any claim.
+ * Items that have used up MAX_RETRIES move to the dead-letter store instead of
+ * being dropped.
+ */
 export async function requeueFailed(items: QueuedMutation[]): Promise<void> {
   const db = await getDB();
-  const tx = db.transaction(STORE_NAME, 'readwrite');
-  let dropped = 0;
+  const tx = db.transaction([STORE_NAME, DEAD_LETTER_STORE_NAME], 'readwrite');
+  let deadLettered = 0;
   for (const item of items) {
     if (item.retryCount >= MAX_RETRIES) {
-      dropped++;
-      console.warn(`Dropping permanently-failed mutation after ${MAX_RETRIES} retries:`, item.model, item.operation);
+      deadLettered++;
+      const deadLetter: DeadLetterMutation = { ...withoutClaim(item), failedAt: Date.now() };
+      await tx.objectStore(DEAD_LETTER_STORE_NAME).put(deadLetter);
+      await tx.objectStore(STORE_NAME).delete(item.id);
       continue;
     }
-    await tx.store.put({ ...item, retryCount: item.retryCount + 1 });
+    await tx.objectStore(STORE_NAME).put({ ...withoutClaim(item), retryCount: item.retryCount + 1 });
   }
   await tx.done;
-  if (dropped > 0) {
-    console.warn(`Dropped ${dropped} queued mutation(s) that exceeded max retry count.`);
+  if (deadLettered > 0) {
+    console.warn(`Moved ${deadLettered} queued mutation(s) to the dead-letter store after ${MAX_RETRIES} retries.`);
   }
 }
 
 /**
- * Restores items to the queue exactly as-is, without incrementing retryCount.
- * Used to preserve cross-user mutations that were skipped (not failed) so they
- * can be replayed when the correct user returns.
+ * Restores items to the queue as-is, without incrementing retryCount, and
+ * releases any claim. Used to preserve cross-user mutations that were skipped
+ * (not failed) so they can be replayed when the correct user returns.
  */
 export async function requeuePreserved(items: QueuedMutation[]): Promise<void> {
   if (items.length === 0) return;
   const db = await getDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
   for (const item of items) {
-    await tx.store.put(item); // put back unchanged — retryCount must not increment
+    await tx.store.put(withoutClaim(item)); // put back unchanged — retryCount must not increment
   }
   await tx.done;
 }
@@ -101,17 +209,75 @@ export async function pendingCount(): Promise<number> {
   return db.count(STORE_NAME);
 }
 
+/** Reads the queue without removing anything, oldest first */
+export async function listPending(): Promise<QueuedMutation[]> {
+  const db = await getDB();
+  const items: QueuedMutation[] = await db.getAll(STORE_NAME);
+  return items.sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+}
+
+export async function removePending(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete(STORE_NAME, id);
+}
+
+/** Gives a queued item a fresh set of retries */
+export async function resetRetries(id: string): Promise<void> {
+  const db = await getDB();
+  const item: QueuedMutation | undefined = await db.get(STORE_NAME, id);
+  if (!item) return;
+  const { lastError: _lastError, ...rest } = item;
+  void _lastError;
+  await db.put(STORE_NAME, { ...rest, retryCount: 0 });
+}
+
+export async function listDeadLetters(): Promise<DeadLetterMutation[]> {
+  const db = await getDB();
+  const items: DeadLetterMutation[] = await db.getAll(DEAD_LETTER_STORE_NAME);
+  return items.sort((a, b) => a.failedAt - b.failedAt);
+}
+
+export async function deadLetterCount(): Promise<number> {
+  const db = await getDB();
+  return db.count(DEAD_LETTER_STORE_NAME);
+}
+
+export async function removeDeadLetter(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete(DEAD_LETTER_STORE_NAME, id);
+}
+
+/** Moves a dead-lettered item back into the queue with a fresh set of retries */
+export async function restoreDeadLetter(id: string): Promise<void> {
+  const db = await getDB();
+  const tx = db.transaction([STORE_NAME, DEAD_LETTER_STORE_NAME], 'readwrite');
+  const item: DeadLetterMutation | undefined = await tx.objectStore(DEAD_LETTER_STORE_NAME).get(id);
+  if (item) {
+    const { failedAt: _failedAt, lastError: _lastError, ...mutation } = item;
+    void _failedAt;
+    void _lastError;
+    await tx.objectStore(STORE_NAME).put({ ...mutation, retryCount: 0 });
+    await tx.objectStore(DEAD_LETTER_STORE_NAME).delete(id);
+  }
+  await tx.done;
+}
+
 /**
- * Collapses multiple Game.update entries for the same gameId into one (latest wins).
+ * Collapses multiple Game.update entries for the same gameId into one.
  * Prevents hundreds of timer-sync entries from replaying after a long offline period.
+ * The latest entry survives with every field the earlier ones set (later values
+ * win), the earliest `baseUpdatedAt` and, per field, the base value recorded by
+ * the first entry that changed it, so replay still sees what it was based on.
  */
 export async function deduplicateGameUpdates(): Promise<void> {
   const db = await getDB();
   const tx = db.transaction(STORE_NAME, 'readwrite');
   const all = await tx.store.getAll();
 
+  // Updates another drain is replaying are left alone; it removes them when done
+  const now = Date.now();
   const gameUpdates = all.filter(
-    (item) => item.model === 'Game' && item.operation === 'update'
+    (item) => item.model === 'Game' && item.operation === 'update' && !isClaimed(item, now)
   );
 
   const byGameId = new Map<string, QueuedMutation[]>();
@@ -124,12 +290,85 @@ export async function deduplicateGameUpdates(): Promise<void> {
 
   for (const [, entries] of byGameId) {
     if (entries.length <= 1) continue;
-    // Keep the entry with the highest enqueuedAt; delete the rest
-    const sorted = [...entries].sort((a, b) => b.enqueuedAt - a.enqueuedAt);
-    for (const item of sorted.slice(1)) {
+    const sorted = [...entries].sort((a, b) => a.enqueuedAt - b.enqueuedAt);
+    const latest = sorted[sorted.length - 1];
+    const payload = Object.assign({}, ...sorted.map(item => item.payload)) as Record<string, unknown>;
+    const baseUpdatedAt = sorted.find(item => item.baseUpdatedAt)?.baseUpdatedAt;
+    // A later entry's base for a field is this device's own earlier value, so only the first counts
+    const baseValues: Record<string, unknown> = {};
+    const seenFields = new Set<string>();
+    for (const item of sorted) {
+      for (const field of Object.keys(item.payload)) {
+        if (field === 'id' || seenFields.has(field)) continue;
+        seenFields.add(field);
+        if (item.baseValues && Object.prototype.hasOwnProperty.call(item.baseValues, field)) {
+          baseValues[field] = item.baseValues[field];
+        }
+      }
+    }
+    for (const item of sorted.slice(0, -1)) {
       await tx.store.delete(item.id);
     }
+    const { baseValues: _latestBaseValues, ...rest } = latest;
+    void _latestBaseValues;
+    await tx.store.put({
+      ...rest,
+      payload,
+      ...(baseUpdatedAt ? { baseUpdatedAt } : {}),
+      ...(Object.keys(baseValues).length > 0 ? { baseValues } : {}),
+    });
   }
 
   await tx.done;
 }
+
+export async function saveConflicts(conflicts: SyncConflict[]): Promise<void> {
+  if (conflicts.length === 0) return;
+  const db = await getDB();
+  const tx = db.transaction(CONFLICT_STORE_NAME, 'readwrite');
+  for (const conflict of conflicts) {
+    await tx.store.put(conflict);
+  }
+  await tx.done;
+}
+
+export async function listConflicts(): Promise<SyncConflict[]> {
+  const db = await getDB();
+  const conflicts: SyncConflict[] = await db.getAll(CONFLICT_STORE_NAME);
+  return conflicts.sort((a, b) => a.detectedAt - b.detectedAt);
+}
+
+export async function removeConflict(id: string): Promise<void> {
+  const db = await getDB();
+  await db.delete(CONFLICT_STORE_NAME, id);
+}
+
+export async function saveBackgroundSyncAuth(auth: BackgroundSyncAuth): Promise<void> {
+  const db = await getDB();
+  await db.put(BACKGROUND_SYNC_STORE_NAME, auth, 'auth');
+}
+
+export async function getBackgroundSyncAuth(): Promise<BackgroundSyncAuth | undefined> {
+  const db = await getDB();
+  return db.get(BACKGROUND_SYNC_STORE_NAME, 'auth');
+}
+
+export async function clearBackgroundSyncAuth(): Promise<void> {
+  const db = await getDB();
+  await db.delete(BACKGROUND_SYNC_STORE_NAME, 'auth');
+}
+
+export async function saveBackgroundSyncReport(report: BackgroundSyncReport): Promise<void> {
+  const db = await getDB();
+  await db.put(BACKGROUND_SYNC_STORE_NAME, report, 'report');
+}
+
+export async function getBackgroundSyncReport(): Promise<BackgroundSyncReport | undefined> {
+  const db = await getDB();
+  return db.get(BACKGROUND_SYNC_STORE_NAME, 'report');
+}
+
+export async function clearBackgroundSyncReport(): Promise<void> {
+  const db = await getDB();
+  await db.delete(BACKGROUND_SYNC_STORE_NAME, 'report');
+}
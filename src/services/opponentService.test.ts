@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Game, Opponent } from '../types/schema';
+
+const {
+  mockOpponentList,
+  mockOpponentCreate,
+  mockOpponentUpdate,
+  mockOpponentDelete,
+  mockGameUpdate,
+} = vi.hoisted(() => ({
+  mockOpponentList: vi.fn(),
+  mockOpponentCreate: vi.fn(),
+  mockOpponentUpdate: vi.fn(),
+  mockOpponentDelete: vi.fn(),
+  mockGameUpdate: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      Opponent: {
+        list: mockOpponentList,
+        create: mockOpponentCreate,
+        update: mockOpponentUpdate,
+        delete: mockOpponentDelete,
+      },
+      Game: { update: mockGameUpdate },
+    },
+  }),
+}));
+
+import {
+  listTeamOpponents,
+  findOrCreateOpponent,
+  updateOpponent,
+  deleteOpponent,
+  linkGamesToOpponents,
+} from './opponentService';
+
+const opponent = (overrides: Partial<Opponent> = {}) => ({ id: 'opp-1', teamId: 'team-1', name: 'Rapids', ...overrides }) as Opponent;
+const game = (overrides: Partial<Game> = {}) => ({ id: 'g1', teamId: 'team-1', opponent: 'Rapids', ...overrides }) as Game;
+
+describe('opponentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockOpponentCreate.mockImplementation(async (input: { name: string }) => ({
+      data: { id: `new-${input.name.toLowerCase()}`, ...input },
+    }));
+  });
+
+  describe('listTeamOpponents', () => {
+    it('pages through the team\'s opponents', async () => {
+      mockOpponentList
+        .mockResolvedValueOnce({ data: [opponent()], nextToken: 'next' })
+        .mockResolvedValueOnce({ data: [opponent({ id: 'opp-2', name: 'Eagles' })], nextToken: null });
+
+      const result = await listTeamOpponents('team-1');
+
+      expect(result.map(o => o.id)).toEqual(['opp-1', 'opp-2']);
+      expect(mockOpponentList).toHaveBeenLastCalledWith(expect.objectContaining({
+        filter: { teamId: { eq: 'team-1' } },
+        nextToken: 'next',
+      }));
+    });
+  });
+
+  describe('findOrCreateOpponent', () => {
+    it('returns the fuzzy match without creating anything', async () => {
+      const existing = opponent();
+      const result = await findOrCreateOpponent('team-1', { name: 'rapids u11' }, [existing], ['coach-1']);
+
+      expect(result).toBe(existing);
+      expect(mockOpponentCreate).not.toHaveBeenCalled();
+    });
+
+    it('creates a new opponent with its details when nothing matches', async () => {
+      await findOrCreateOpponent('team-1', { name: ' Hawks ', club: 'Hawks SC', colors: '' }, [opponent()], ['coach-1']);
+
+      expect(mockOpponentCreate).toHaveBeenCalledWith({
+        teamId: 'team-1',
+        name: 'Hawks',
+        club: 'Hawks SC',
+        coaches: ['coach-1'],
+      });
+    });
+  });
+
+  describe('updateOpponent', () => {
+    it('copies a rename onto the linked games only', async () => {
+      await updateOpponent(
+        opponent(),
+        { name: 'Rapids SC', notes: 'Press high' },
+        [game({ opponentId: 'opp-1' }), game({ id: 'g2', opponentId: 'opp-2' })],
+      );
+
+      expect(mockOpponentUpdate).toHaveBeenCalledWith({
+        id: 'opp-1',
+        name: 'Rapids SC',
+        club: null,
+        colors: null,
+        notes: 'Press high',
+      });
+      expect(mockGameUpdate).toHaveBeenCalledTimes(1);
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', opponent: 'Rapids SC' });
+    });
+
+    it('leaves games alone when the name is unchanged', async () => {
+      await updateOpponent(opponent(), { name: 'Rapids', club: 'Rapids FC' }, [game({ opponentId: 'opp-1' })]);
+
+      expect(mockGameUpdate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('deleteOpponent', () => {
+    it('unlinks the games before deleting the opponent', async () => {
+      await deleteOpponent('opp-1', [game({ opponentId: 'opp-1' }), game({ id: 'g2', opponentId: 'opp-2' })]);
+
+      expect(mockGameUpdate).toHaveBeenCalledTimes(1);
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', opponentId: null });
+      expect(mockOpponentDelete).toHaveBeenCalledWith({ id: 'opp-1' });
+    });
+  });
+
+  describe('linkGamesToOpponents', () => {
+    it('matches spellings of one team onto a single opponent', async () => {
+      const result = await linkGamesToOpponents(
+        'team-1',
+        [
+          game({ id: 'g1', opponent: 'Rapids U11' }),
+          game({ id: 'g2', opponent: 'rapids' }),
+          game({ id: 'g3', opponent: 'Eagles' }),
+          game({ id: 'g4', opponent: 'Eagles FC' }),
+          game({ id: 'g5', opponent: 'Lions', opponentId: 'opp-9' }),
+        ],
+        [opponent()],
+        ['coach-1'],
+      );
+
+      expect(result).toEqual({ linked: 4, created: 1 });
+      expect(mockOpponentCreate).toHaveBeenCalledTimes(1);
+      expect(mockOpponentCreate).toHaveBeenCalledWith(expect.objectContaining({ name: 'Eagles' }));
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', opponentId: 'opp-1' });
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g2', opponentId: 'opp-1' });
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g3', opponentId: 'new-eagles' });
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g4', opponentId: 'new-eagles' });
+      expect(mockGameUpdate).not.toHaveBeenCalledWith(expect.objectContaining({ id: 'g5' }));
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { Game, Opponent } from '../types/schema';
+import { findMatchingOpponent } from '../utils/opponentUtils';
+import { listAll } from '../utils/listAll';
+
+const client = generateClient<Schema>();
+
+export interface OpponentDetails {
+  name: string;
+  club?: string;
+  colors?: string;
+  notes?: string;
+}
+
+/**
+ * Lists a team's opponent directory
+ * @param teamId - Team whose opponents to list
+ * @returns Every opponent for the team
+ */
+export async function listTeamOpponents(teamId: string): Promise<Opponent[]> {
+  return listAll<Opponent>(client.models.Opponent, { teamId: { eq: teamId } });
+}
+
+/**
+ * Adds an opponent to a team's directory
+ * @param teamId - Team that plays this opponent
+ * @param details - Name plus optional club, colors and notes
+ * @param coaches - Coach authorization, copied from the team
+ * @returns The created opponent
+ */
+export async function createOpponent(
+  teamId: string,
+  details: OpponentDetails,
+  coaches: string[]
+): Promise<Opponent> {
+  const result = await client.models.Opponent.create({
+    teamId,
+    name: details.name.trim(),
+    ...(details.club?.trim() ? { club: details.club.trim() } : {}),
+    ...(details.colors?.trim() ? { colors: details.colors.trim() } : {}),
+    ...(details.notes?.trim() ? { notes: details.notes.trim() } : {}),
+    coaches,
+  });
+
+  if (!result.data) {
+    throw new Error('Failed to create opponent');
+  }
+  return result.data;
+}
+
+/**
+ * Returns the directory entry for an opponent name, creating one when the
+ * name does not fuzzily match anyone the team has played
+ * @param teamId - Team that plays this opponent
+ * @param details - Opponent as typed by the coach
+ * @param opponents - The team's current directory
+ * @param coaches - Coach authorization for a newly created opponent
+ * @returns The matched or newly created opponent
+ */
+export async function findOrCreateOpponent(
+  teamId: string,
+  details: OpponentDetails,
+  opponents: Opponent[],
+  coaches: string[]
+): Promise<Opponent> {
+  return findMatchingOpponent(details.name, opponents) ?? createOpponent(teamId, details, coaches);
+}
+
+/**
+ * Updates an opponent's details. A rename is copied onto the display name of
+ * every game linked to the opponent.
+ * @param opponent - Opponent being edited
+ * @param details - New name, club, colors and notes
+ * @param games - The team's games; only those linked to this opponent are touched
+ */
+export async function updateOpponent(
+  opponent: Opponent,
+  details: OpponentDetails,
+  games: Game[]
+): Promise<void> {
+  const name = details.name.trim();
+  await client.models.Opponent.update({
+    id: opponent.id,
+    name,
+    club: details.club?.trim() || null,
+    colors: details.colors?.trim() || null,
+    notes: details.notes?.trim() || null,
+  });
+
+  if (name === opponent.name) return;
+  await Promise.all(
+    games
+      .filter(g => g.opponentId === opponent.id)
+      .map(g => client.models.Game.update({ id: g.id, opponent: name }))
+  );
+}
+
+/**
+ * Deletes an opponent from the directory. Its games keep their display name
+ * and are unlinked first, so they can be matched again later.
+ * @param opponentId - Opponent to delete
+ * @param games - The team's games
+ */
+export async function deleteOpponent(opponentId: string, games: Game[]): Promise<void> {
+  await Promise.all(
+    games
+      .filter(g => g.opponentId === opponentId)
+      .map(g => client.models.Game.update({ id: g.id, opponentId: null }))
+  );
+  await client.models.Opponent.delete({ id: opponentId });
+}
+
+/**
+ * Migrates games that only have a free-text opponent name onto the directory.
+ * Names are fuzzily matched, so "Rapids U11", "rapids" and "Rapids" end up on
+ * one opponent; names with no match get a new directory entry.
+ * @param teamId - Team whose games to link
+ * @param games - The team's games; games already linked are skipped
+ * @param opponents - The team's current directory
+ * @param coaches - Coach authorization for newly created opponents
+ * @returns How many games were linked and how many opponents were created
+ */
+export async function linkGamesToOpponents(
+  teamId: string,
+  games: Game[],
+  opponents: Opponent[],
+  coaches: string[]
+): Promise<{ linked: number; created: number }> {
+  const directory = [...opponents];
+  let linked = 0;
+  let created = 0;
+
+  // Sequential so two spellings of a new name share the entry created for the first
+  for (const game of games) {
+    if (game.opponentId || !game.opponent?.trim()) continue;
+
+    let opponent = findMatchingOpponent(game.opponent, directory);
+    if (!opponent) {
+      opponent = await createOpponent(teamId, { name: game.opponent }, coaches);
+      directory.push(opponent);
+      created++;
+    }
+
+    await client.models.Game.update({ id: game.id, opponentId: opponent.id });
+    linked++;
+  }
+
+  return { linked, created };
+}
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const {
+  mockSessionCreate,
+  mockSessionDelete,
+  mockSessionList,
+  mockAttendanceCreate,
+  mockAttendanceUpdate,
+  mockAttendanceDelete,
+  mockAttendanceList,
+} = vi.hoisted(() => ({
+  mockSessionCreate: vi.fn(),
+  mockSessionDelete: vi.fn(),
+  mockSessionList: vi.fn(),
+  mockAttendanceCreate: vi.fn(),
+  mockAttendanceUpdate: vi.fn(),
+  mockAttendanceDelete: vi.fn(),
+  mockAttendanceList: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      PracticeSession: { create: mockSessionCreate, delete: mockSessionDelete, list: mockSessionList },
+      PracticeAttendance: {
+        create: mockAttendanceCreate,
+        update: mockAttendanceUpdate,
+        delete: mockAttendanceDelete,
+        list: mockAttendanceList,
+      },
+    },
+  }),
+}));
+
+import {
+  createPracticeSession,
+  setPracticeAttendance,
+  deletePracticeSession,
+  fetchPracticeAttendanceRates,
+} from './practiceService';
+
+describe('practiceService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSessionCreate.mockResolvedValue({ data: { id: 'practice-1' } });
+    mockSessionDelete.mockResolvedValue({ data: {} });
+    mockAttendanceCreate.mockResolvedValue({ data: {} });
+    mockAttendanceUpdate.mockResolvedValue({ data: {} });
+    mockAttendanceDelete.mockResolvedValue({ data: {} });
+  });
+
+  describe('createPracticeSession', () => {
+    it('creates the practice in the current season and drops blank details', async () => {
+      const practice = await createPracticeSession(
+        { id: 'team-1', currentSeasonId: 'season-1' },
+        { practiceDate: '2030-06-01T17:00:00.000Z', location: '  Field 2 ', focus: '', durationMinutes: 60 },
+        ['coach-1'],
+      );
+
+      expect(practice).toEqual({ id: 'practice-1' });
+      expect(mockSessionCreate).toHaveBeenCalledWith({
+        teamId: 'team-1',
+        practiceDate: '2030-06-01T17:00:00.000Z',
+        location: 'Field 2',
+        durationMinutes: 60,
+        seasonId: 'season-1',
+        coaches: ['coach-1'],
+      });
+    });
+
+    it('throws when the practice is not created', async () => {
+      mockSessionCreate.mockResolvedValue({ data: null });
+      await expect(
+        createPracticeSession({ id: 'team-1' }, { practiceDate: '2030-06-01T17:00:00.000Z' }, ['coach-1']),
+      ).rejects.toThrow('Failed to create practice');
+    });
+  });
+
+  describe('setPracticeAttendance', () => {
+    it('creates a record the first time and updates it afterwards', async () => {
+      const session = { id: 'practice-1', teamId: 'team-1' };
+
+      await setPracticeAttendance(session, 'p1', 'late-arrival', undefined, ['coach-1']);
+      expect(mockAttendanceCreate).toHaveBeenCalledWith(expect.objectContaining({
+        practiceSessionId: 'practice-1',
+        teamId: 'team-1',
+        playerId: 'p1',
+        status: 'late-arrival',
+        coaches: ['coach-1'],
+      }));
+
+      await setPracticeAttendance(session, 'p1', 'available', { id: 'att-1' }, ['coach-1']);
+      expect(mockAttendanceUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 'att-1', status: 'available' }));
+      expect(mockAttendanceCreate).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('deletePracticeSession', () => {
+    it('deletes attendance before the practice', async () => {
+      const order: string[] = [];
+      mockAttendanceDelete.mockImplementation(async ({ id }: { id: string }) => { order.push(id); return { data: {} }; });
+      mockSessionDelete.mockImplementation(async ({ id }: { id: string }) => { order.push(id); return { data: {} }; });
+
+      await deletePracticeSession('practice-1', [{ id: 'att-1' }, { id: 'att-2' }]);
+
+      expect(order).toEqual(['att-1', 'att-2', 'practice-1']);
+    });
+  });
+
+  describe('fetchPracticeAttendanceRates', () => {
+    it('only counts practices from the current season', async () => {
+      mockSessionList.mockResolvedValue({
+        data: [
+          { id: 's1', seasonId: 'season-2', practiceDate: '2020-01-01T17:00:00.000Z' },
+          { id: 's2', seasonId: null, practiceDate: '2020-01-02T17:00:00.000Z' },
+          { id: 's3', seasonId: 'season-1', practiceDate: '2020-01-03T17:00:00.000Z' },
+        ],
+        nextToken: null,
+      });
+      mockAttendanceList.mockResolvedValue({
+        data: [
+          { practiceSessionId: 's1', playerId: 'p1', status: 'available' },
+          { practiceSessionId: 's2', playerId: 'p1', status: 'absent' },
+          { practiceSessionId: 's3', playerId: 'p1', status: 'available' },
+          { practiceSessionId: 's3', playerId: 'p2', status: 'available' },
+        ],
+        nextToken: null,
+      });
+
+      const rates = await fetchPracticeAttendanceRates({ id: 'team-1', currentSeasonId: 'season-2' });
+
+      expect(mockSessionList).toHaveBeenCalledWith(expect.objectContaining({ filter: { teamId: { eq: 'team-1' } } }));
+      expect(rates).toEqual(new Map([['p1', 0.5]]));
+    });
+  });
+});
@@ -0,0 +1,104 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { PracticeAttendance, PracticeSession, Team } from '../types/schema';
+import { filterSeasonGames } from '../utils/seasonUtils';
+import { listAll } from '../utils/listAll';
+import { summarizePracticeAttendance, type AttendanceStatus } from '../utils/practiceAttendanceUtils';
+
+const client = generateClient<Schema>();
+
+export interface PracticeDetails {
+  practiceDate: string; // ISO timestamp
+  location?: string;
+  focus?: string;
+  durationMinutes?: number;
+}
+
+/**
+ * Schedules a practice in the team's current season
+ * @param team - Team practising
+ * @param details - Date, location, focus and length
+ * @param coaches - Coach authorization
+ * @returns The created practice
+ */
+export async function createPracticeSession(
+  team: Pick<Team, 'id' | 'currentSeasonId'>,
+  details: PracticeDetails,
+  coaches: string[]
+): Promise<PracticeSession> {
+  const result = await client.models.PracticeSession.create({
+    teamId: team.id,
+    practiceDate: details.practiceDate,
+    ...(details.location?.trim() ? { location: details.location.trim() } : {}),
+    ...(details.focus?.trim() ? { focus: details.focus.trim() } : {}),
+    ...(details.durationMinutes ? { durationMinutes: details.durationMinutes } : {}),
+    ...(team.currentSeasonId ? { seasonId: team.currentSeasonId } : {}),
+    coaches,
+  });
+  if (!result.data) {
+    throw new Error('Failed to create practice');
+  }
+  return result.data;
+}
+
+/**
+ * Records one player's attendance at a practice, updating their existing record if there is one
+ * @param session - Practice being marked
+ * @param playerId - Player ID
+ * @param status - Attendance status (same values as game availability)
+ * @param existing - The player's current record for this practice, if any
+ * @param coaches - Coach authorization
+ */
+export async function setPracticeAttendance(
+  session: Pick<PracticeSession, 'id' | 'teamId'>,
+  playerId: string,
+  status: AttendanceStatus,
+  existing: Pick<PracticeAttendance, 'id'> | undefined,
+  coaches: string[]
+): Promise<void> {
+  const markedAt = new Date().toISOString();
+  if (existing) {
+    await client.models.PracticeAttendance.update({ id: existing.id, status, markedAt });
+    return;
+  }
+  await client.models.PracticeAttendance.create({
+    practiceSessionId: session.id,
+    teamId: session.teamId,
+    playerId,
+    status,
+    markedAt,
+    coaches,
+  });
+}
+
+/**
+ * Deletes a practice together with its attendance records
+ * @param sessionId - Practice to delete
+ * @param attendance - The practice's attendance records, deleted first
+ */
+export async function deletePracticeSession(
+  sessionId: string,
+  attendance: Array<Pick<PracticeAttendance, 'id'>>
+): Promise<void> {
+  await Promise.all(attendance.map(record => client.models.PracticeAttendance.delete({ id: record.id })));
+  await client.models.PracticeSession.delete({ id: sessionId });
+}
+
+/**
+ * Loads each player's practice attendance rate for the team's current season,
+ * used by the planner to rank starting lineup candidates
+ * @param team - Team whose practices count
+ * @returns Attendance rate per player ID; players with nothing recorded are absent from the map
+ */
+export async function fetchPracticeAttendanceRates(
+  team: Pick<Team, 'id' | 'currentSeasonId'>
+): Promise<Map<string, number | null>> {
+  const [sessions, attendance] = await Promise.all([
+    listAll<PracticeSession>(client.models.PracticeSession, { teamId: { eq: team.id } }),
+    listAll<PracticeAttendance>(client.models.PracticeAttendance, { teamId: { eq: team.id } }),
+  ]);
+
+  const seasonSessions = filterSeasonGames(sessions, team.currentSeasonId ?? null, team.currentSeasonId);
+  const summaries = summarizePracticeAttendance(seasonSessions, attendance);
+  return new Map([...summaries.values()].map(summary => [summary.playerId, summary.rate]));
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { RosterImportRow } from '../utils/rosterImportUtils';
+
+const { mockPlayerCreate, mockPlayerUpdate, mockRosterCreate } = vi.hoisted(() => ({
+  mockPlayerCreate: vi.fn(),
+  mockPlayerUpdate: vi.fn(),
+  mockRosterCreate: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      Player: { create: mockPlayerCreate, update: mockPlayerUpdate },
+      TeamRoster: { create: mockRosterCreate },
+    },
+  }),
+}));
+
+import { importRoster } from './rosterImportService';
+
+const row = (overrides: Partial<RosterImportRow>): RosterImportRow => ({
+  rowNumber: 1,
+  firstName: 'Ava',
+  lastName: 'Smith',
+  playerNumber: 7,
+  birthYear: undefined,
+  positionIds: [],
+  errors: [],
+  warnings: [],
+  ...overrides,
+});
+
+describe('rosterImportService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockPlayerCreate.mockResolvedValue({ data: { id: 'p-new' } });
+    mockPlayerUpdate.mockResolvedValue({ data: {} });
+    mockRosterCreate.mockResolvedValue({ data: { id: 'r-new' } });
+  });
+
+  describe('importRoster', () => {
+    it('creates new players, shares matched ones and adds everyone to the roster', async () => {
+      const result = await importRoster(
+        { id: 'team-1', coaches: ['coach-1', 'coach-2'] },
+        [
+          row({ birthYear: 2015, positionIds: ['pos-gk', 'pos-cb'] }),
+          row({
+            firstName: 'Ben', lastName: 'Jones', playerNumber: 9,
+            existingPlayer: { id: 'p-ben', firstName: 'Ben', lastName: 'Jones', coaches: ['coach-9'] } as RosterImportRow['existingPlayer'],
+          }),
+          row({ firstName: 'Cara', playerNumber: 4, errors: ['#4 is already taken on this team'] }),
+        ],
+        'coach-1',
+      );
+
+      expect(result).toEqual({ playersCreated: 1, rosterAdded: 2 });
+      expect(mockPlayerCreate).toHaveBeenCalledWith({
+        firstName: 'Ava', lastName: 'Smith', birthYear: 2015, coaches: ['coach-1', 'coach-2'],
+      });
+      expect(mockPlayerUpdate).toHaveBeenCalledWith({ id: 'p-ben', coaches: ['coach-9', 'coach-1', 'coach-2'] });
+      expect(mockRosterCreate).toHaveBeenCalledWith({
+        teamId: 'team-1', playerId: 'p-new', playerNumber: 7, preferredPositions: 'pos-gk, pos-cb', coaches: ['coach-1', 'coach-2'],
+      });
+      expect(mockRosterCreate).toHaveBeenCalledWith(expect.objectContaining({ playerId: 'p-ben', playerNumber: 9 }));
+      expect(mockRosterCreate).toHaveBeenCalledTimes(2);
+    });
+
+    it('throws when a player cannot be created', async () => {
+      mockPlayerCreate.mockResolvedValue({ data: null });
+      await expect(importRoster({ id: 'team-1', coaches: [] }, [row({})], 'coach-1'))
+        .rejects.toThrow('Failed to create player Ava Smith');
+      expect(mockRosterCreate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,72 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { Team } from '../types/schema';
+import type { RosterImportRow } from '../utils/rosterImportUtils';
+
+const client = generateClient<Schema>();
+
+export interface RosterImportResult {
+  playersCreated: number;
+  rosterAdded: number;
+}
+
+/**
+ * Applies a reviewed roster import. Rows matched to a pool player reuse that
+ * player (granting the team's coaches access); other rows create a new player.
+ * Every row then gets a roster entry with its number and preferred positions.
+ * @param team - Team whose roster is filled
+ * @param rows - Rows from planRosterImport without errors
+ * @param currentUserId - Importing coach, added to new players' coaches
+ * @returns How many players were created and added to the roster
+ */
+export async function importRoster(
+  team: Pick<Team, 'id' | 'coaches'>,
+  rows: RosterImportRow[],
+  currentUserId: string
+): Promise<RosterImportResult> {
+  const teamCoaches = (team.coaches ?? []).filter((c): c is string => !!c);
+  const coaches = teamCoaches.includes(currentUserId) ? teamCoaches : [...teamCoaches, currentUserId];
+  const importable = rows.flatMap(row =>
+    row.errors.length === 0 && row.playerNumber !== null ? [{ ...row, playerNumber: row.playerNumber }] : []
+  );
+
+  const resolvePlayerId = async (row: RosterImportRow): Promise<string> => {
+    if (row.existingPlayer) {
+      const existingCoaches = (row.existingPlayer.coaches ?? []).filter((c): c is string => !!c);
+      const merged = Array.from(new Set([...existingCoaches, ...coaches]));
+      if (merged.length !== existingCoaches.length) {
+        await client.models.Player.update({ id: row.existingPlayer.id, coaches: merged });
+      }
+      return row.existingPlayer.id;
+    }
+    const created = await client.models.Player.create({
+      firstName: row.firstName,
+      lastName: row.lastName,
+      ...(row.birthYear !== undefined ? { birthYear: row.birthYear } : {}),
+      coaches,
+    });
+    if (!created.data) {
+      throw new Error(`Failed to create player ${row.firstName} ${row.lastName}`);
+    }
+    return created.data.id;
+  };
+
+  await Promise.all(importable.map(async (row) => {
+    const playerId = await resolvePlayerId(row);
+    const roster = await client.models.TeamRoster.create({
+      teamId: team.id,
+      playerId,
+      playerNumber: row.playerNumber,
+      preferredPositions: row.positionIds.length > 0 ? row.positionIds.join(', ') : undefined,
+      coaches: teamCoaches,
+    });
+    if (!roster.data) {
+      throw new Error(`Failed to add ${row.firstName} ${row.lastName} to the roster`);
+    }
+  }));
+
+  return {
+    playersCreated: importable.filter(row => !row.existingPlayer).length,
+    rosterAdded: importable.length,
+  };
+}
@@ -4,19 +4,50 @@ import {
   calculateFairRotations,
   calculatePlayTime,
   validateRotationPlan,
+  findPlanLeagueRuleViolations,
   calculateRotationMinute,
   updatePlayerAvailability,
+  selectFairnessGames,
+  calculateSeasonCatchUpMinutes,
+  collectAvailableGames,
+  fetchSeasonCatchUpMinutes,
+  selectEarlierTournamentGames,
+  calculateTournamentCatchUpMinutes,
+  fetchTournamentCatchUpMinutes,
+  parseKeeperPlan,
+  getKeeperSwapMinutes,
   type SimpleRoster,
   type PlannedSubstitution,
 } from './rotationPlannerService';
 
+const {
+  mockGameList,
+  mockPlayTimeRecordList,
+  mockGamePlanList,
+  mockPlannedRotationList,
+  mockPlayerAvailabilityList,
+  mockTeamRosterList,
+} = vi.hoisted(() => ({
+  mockGameList: vi.fn(),
+  mockPlayTimeRecordList: vi.fn(),
+  mockGamePlanList: vi.fn(),
+  mockPlannedRotationList: vi.fn(),
+  mockPlayerAvailabilityList: vi.fn().mockResolvedValue({ data: [] }),
+  mockTeamRosterList: vi.fn().mockResolvedValue({ data: [] }),
+}));
+
 // Mock the Amplify client so updatePlayerAvailability validation tests don't hit the network
 vi.mock('../../amplify/data/resource', () => ({ default: {} }));
 vi.mock('aws-amplify/data', () => ({
   generateClient: () => ({
     models: {
+      Game: { list: mockGameList },
+      PlayTimeRecord: { list: mockPlayTimeRecordList },
+      GamePlan: { list: mockGamePlanList },
+      PlannedRotation: { list: mockPlannedRotationList },
+      TeamRoster: { list: mockTeamRosterList },
       PlayerAvailability: {
-        list:   vi.fn().mockResolvedValue({ data: [] }),
+        list:   mockPlayerAvailabilityList,
         create: vi.fn().mockResolvedValue({ data: {} }),
         update: vi.fn().mockResolvedValue({ data: {} }),
       },
@@ -1483,6 +1514,11 @@ describe('rotationPlannerService', () => {
       expect(calculateRotationMinute(1, 1, 10, 20)).toBe(10);
       expect(calculateRotationMinute(2, 1, 10, 20)).toBe(30); // 20 + 10
     });
+
+    it('should place rotations inside each quarter', () => {
+      // 4 × 12-min quarters, 6-min intervals, 1 rotation per quarter
+      expect([1, 2, 3, 4].map(rotNum => calculateRotationMinute(rotNum, 1, 6, 12, 4))).toEqual([6, 18, 30, 42]);
+    });
   });
 
   describe('Spec Compliance — TC-01 through TC-10', () => {
@@ -2165,6 +2201,644 @@ describe('rotationPlannerService', () => {
     });
   });
 
+  describe('quarters', () => {
+    const players: SimpleRoster[] = Array.from({ length: 9 }, (_, i) => ({
+      id: `r${i + 1}`,
+      playerId: `p${i + 1}`,
+      playerNumber: i + 1,
+    }));
+    const startingLineup = [
+      { playerId: 'p1', positionId: 'gk' },
+      ...[2, 3, 4, 5, 6, 7].map(n => ({ playerId: `p${n}`, positionId: `pos${n}` })),
+    ];
+
+    it('gets every bench player on the field across a 4-quarter game', () => {
+      // 4 × 12-min quarters, 6-min interval → [R, Q2, R, HT, R, Q4, R]
+      const { rotations } = calculateFairRotations(players, startingLineup, 7, 1, 7, 'gk', undefined, {
+        rotationIntervalMinutes: 6,
+        halfLengthMinutes: 12,
+        periodCount: 4,
+      });
+
+      expect(rotations).toHaveLength(7);
+      const subbedIn = new Set(rotations.flatMap(r => r.substitutions.map(s => s.playerInId)));
+      expect(subbedIn).toContain('p8');
+      expect(subbedIn).toContain('p9');
+    });
+  });
+
+  describe('keeper plan', () => {
+    const players: SimpleRoster[] = Array.from({ length: 8 }, (_, i) => ({
+      id: `r${i + 1}`,
+      playerId: `p${i + 1}`,
+      playerNumber: i + 1,
+    }));
+    const startingLineup = [
+      { playerId: 'p1', positionId: 'gk' },
+      ...[2, 3, 4, 5, 6, 7].map(n => ({ playerId: `p${n}`, positionId: `pos${n}` })),
+    ];
+
+    const keeperSubs = (rotations: Array<{ substitutions: PlannedSubstitution[] }>) =>
+      rotations.flatMap((rotation, index) =>
+        rotation.substitutions.filter(sub => sub.positionId === 'gk').map(sub => ({ index, ...sub })));
+
+    it('parses stored plans and rejects malformed ones', () => {
+      expect(parseKeeperPlan(JSON.stringify({ eligibleKeeperIds: ['p1', 'p2'], schedule: 'half' })))
+        .toEqual({ eligibleKeeperIds: ['p1', 'p2'], schedule: 'half' });
+      expect(parseKeeperPlan({ eligibleKeeperIds: ['p1'], schedule: 'minutes', intervalMinutes: 8 }))
+        .toEqual({ eligibleKeeperIds: ['p1'], schedule: 'minutes', intervalMinutes: 8 });
+      expect(parseKeeperPlan('not json')).toBeNull();
+      expect(parseKeeperPlan({ eligibleKeeperIds: [], schedule: 'half' })).toEqual({ eligibleKeeperIds: [], schedule: 'half' });
+      expect(parseKeeperPlan({ schedule: 'half' })).toBeNull();
+      expect(parseKeeperPlan({ eligibleKeeperIds: ['p1'], schedule: 'weekly' })).toBeNull();
+      expect(parseKeeperPlan(null)).toBeNull();
+    });
+
+    it('derives swap minutes for each schedule', () => {
+      expect(getKeeperSwapMinutes({ eligibleKeeperIds: ['p1'], schedule: 'half' }, 25)).toEqual([25]);
+      expect(getKeeperSwapMinutes({ eligibleKeeperIds: ['p1'], schedule: 'quarter' }, 20)).toEqual([10, 20, 30]);
+      expect(getKeeperSwapMinutes({ eligibleKeeperIds: ['p1'], schedule: 'minutes', intervalMinutes: 15 }, 20)).toEqual([15, 30]);
+      expect(getKeeperSwapMinutes({ eligibleKeeperIds: ['p1'], schedule: 'minutes' }, 20)).toEqual([]);
+    });
+
+    it('swaps the keeper at halftime for a per-half schedule', () => {
+      const { rotations } = calculateFairRotations(players, startingLineup, 3, 1, 7, 'gk', undefined, {
+        rotationIntervalMinutes: 10,
+        halfLengthMinutes: 20,
+        keeperPlan: { eligibleKeeperIds: ['p1', 'p8'], schedule: 'half' },
+      });
+
+      const swaps = keeperSubs(rotations);
+      expect(swaps).toHaveLength(1);
+      expect(swaps[0]).toMatchObject({ index: 1, playerOutId: 'p1', playerInId: 'p8' });
+    });
+
+    it('gives every listed keeper a turn on a per-quarter schedule', () => {
+      const { rotations } = calculateFairRotations(players, startingLineup, 7, 3, 7, 'gk', undefined, {
+        rotationIntervalMinutes: 5,
+        halfLengthMinutes: 20,
+        keeperPlan: { eligibleKeeperIds: ['p1', 'p2', 'p8'], schedule: 'quarter' },
+      });
+
+      const swaps = keeperSubs(rotations);
+      expect(swaps.map(s => s.index)).toEqual([1, 3, 5]);
+      expect(new Set(['p1', ...swaps.map(s => s.playerInId)])).toEqual(new Set(['p1', 'p2', 'p8']));
+    });
+
+    it('moves the old keeper into the outfield spot when the new keeper is on the field', () => {
+      const { rotations } = calculateFairRotations(players, startingLineup, 3, 1, 7, 'gk', undefined, {
+        rotationIntervalMinutes: 10,
+        halfLengthMinutes: 20,
+        keeperPlan: { eligibleKeeperIds: ['p1', 'p3'], schedule: 'minutes', intervalMinutes: 10 },
+      });
+
+      expect(rotations[0].substitutions).toEqual(expect.arrayContaining([
+        { playerOutId: 'p1', playerInId: 'p3', positionId: 'gk' },
+        { playerOutId: 'p3', playerInId: 'p1', positionId: 'pos3' },
+      ]));
+    });
+
+    it('warns when no other keeper is available for a scheduled swap', () => {
+      const { warnings } = calculateFairRotations(players, startingLineup, 3, 1, 7, 'gk', undefined, {
+        rotationIntervalMinutes: 10,
+        halfLengthMinutes: 20,
+        keeperPlan: { eligibleKeeperIds: ['p1'], schedule: 'half' },
+      });
+
+      expect(warnings).toContain('No eligible keeper available for the swap at minute 20.');
+    });
+
+    it('warns when a listed keeper gets no time in goal', () => {
+      const { warnings } = calculateFairRotations(players, startingLineup, 3, 1, 7, 'gk', undefined, {
+        rotationIntervalMinutes: 10,
+        halfLengthMinutes: 20,
+        keeperPlan: { eligibleKeeperIds: ['p1', 'p2', 'p8'], schedule: 'half' },
+      });
+
+      const unused = warnings.filter(w => w.endsWith('is on the keeper list but gets no time in goal'));
+      expect(unused).toHaveLength(1);
+    });
+
+    it('counts keeper minutes separately in calculatePlayTime', () => {
+      const playTime = calculatePlayTime(
+        [{ rotationNumber: 1, gameMinute: 20, plannedSubstitutions: JSON.stringify([
+          { playerOutId: 'p1', playerInId: 'p3', positionId: 'gk' },
+          { playerOutId: 'p3', playerInId: 'p1', positionId: 'pos3' },
+        ]) } as any],
+        [{ playerId: 'p1', positionId: 'gk' }, { playerId: 'p3', positionId: 'pos3' }],
+        20,
+        40,
+        'gk',
+      );
+
+      expect(playTime.get('p1')).toMatchObject({ totalMinutes: 40, keeperMinutes: 20 });
+      expect(playTime.get('p3')).toMatchObject({ totalMinutes: 40, keeperMinutes: 20 });
+    });
+
+    it('flags players subbed into goal who are not on the keeper list', () => {
+      const errors = validateRotationPlan(
+        [{ rotationNumber: 1, plannedSubstitutions: JSON.stringify([
+          { playerOutId: 'p1', playerInId: 'p4', positionId: 'gk' },
+        ]) } as any],
+        7,
+        'gk',
+        { eligibleKeeperIds: ['p1', 'p2'], schedule: 'half' },
+      );
+
+      expect(errors).toContain('Rotation 1: Player p4 is not on the keeper list');
+    });
+
+    it('counts keeper minutes when validating a keeper plan', () => {
+      const rotations = [{ rotationNumber: 1, gameMinute: 20, plannedSubstitutions: JSON.stringify([
+        { playerOutId: 'p1', playerInId: 'p3', positionId: 'gk' },
+        { playerOutId: 'p3', playerInId: 'p1', positionId: 'pos3' },
+      ]) }] as any;
+      const keeperPlan = { eligibleKeeperIds: ['p1', 'p3', 'p4'], schedule: 'half' as const };
+      const planContext = {
+        startingLineup: [{ playerId: 'p1', positionId: 'gk' }, { playerId: 'p3', positionId: 'pos3' }],
+        totalGameMinutes: 40,
+      };
+
+      expect(validateRotationPlan(rotations, 7, 'gk', keeperPlan, planContext))
+        .toEqual(['Player p4 is on the keeper list but gets no time in goal']);
+      expect(validateRotationPlan(rotations, 7, 'gk', keeperPlan, {
+        ...planContext,
+        players: [{ playerId: 'p1', playerNumber: 1 }, { playerId: 'p3', playerNumber: 3 }],
+      })).toEqual([]);
+    });
+  });
+
+  describe('position constraints', () => {
+    const positions = [
+      { id: 'gk', abbreviation: 'GK' },
+      { id: 'd1', abbreviation: 'CB' },
+      { id: 'd2', abbreviation: 'CB' },
+      { id: 'm1', abbreviation: 'CM' },
+      { id: 'm2', abbreviation: 'CM' },
+      { id: 's1', abbreviation: 'ST' },
+    ];
+    const startingLineup = [
+      { playerId: 'p1', positionId: 'gk' },
+      { playerId: 'p2', positionId: 'd1' },
+      { playerId: 'p3', positionId: 'd2' },
+      { playerId: 'p4', positionId: 'm1' },
+      { playerId: 'p5', positionId: 'm2' },
+      { playerId: 'p6', positionId: 's1' },
+    ];
+    const makePlayers = (count: number, overrides: Record<string, Partial<SimpleRoster>> = {}): SimpleRoster[] =>
+      Array.from({ length: count }, (_, i) => ({
+        id: `r${i + 1}`,
+        playerId: `p${i + 1}`,
+        playerNumber: i + 1,
+        ...overrides[`p${i + 1}`],
+      }));
+    // 2 × 20-min halves, 10-min interval → [R, HT, R]
+    const options = { rotationIntervalMinutes: 10, halfLengthMinutes: 20, positions };
+
+    it('never puts a player in goal when they are ruled out of it, even from the keeper plan', () => {
+      const players = makePlayers(8, {
+        p7: { preferredPositions: 'gk', positionConstraints: [{ group: 'GOALKEEPER', rule: 'never' }] },
+      });
+
+      const { rotations, warnings } = calculateFairRotations(players, startingLineup, 3, 1, 6, 'gk', undefined, {
+        ...options,
+        keeperPlan: { eligibleKeeperIds: ['p1', 'p7'], schedule: 'half' },
+      });
+
+      const intoGoal = rotations.flatMap(r => r.substitutions).filter(s => s.positionId === 'gk');
+      expect(intoGoal.map(s => s.playerInId)).not.toContain('p7');
+      expect(warnings).toContain('No eligible keeper available for the swap at minute 20.');
+    });
+
+    it('takes a player off once they reach their maximum rotations in a group', () => {
+      const players = makePlayers(8, {
+        p4: { positionConstraints: [{ group: 'MIDFIELDER', rule: 'max', rotations: 1 }] },
+      });
+
+      const { rotations, warnings } = calculateFairRotations(players, startingLineup, 3, 1, 6, 'gk', undefined, options);
+
+      expect(rotations[0].substitutions.map(s => s.playerOutId)).toContain('p4');
+      const intoMidfield = rotations.flatMap(r => r.substitutions).filter(s => s.positionId.startsWith('m'));
+      expect(intoMidfield.map(s => s.playerInId)).not.toContain('p4');
+      expect(warnings.filter(w => w.startsWith('#4'))).toEqual([]);
+    });
+
+    it('moves a player into a group they must play at least once', () => {
+      const players = makePlayers(8, {
+        p5: { positionConstraints: [{ group: 'DEFENDER', rule: 'min', rotations: 1 }] },
+      });
+
+      const { rotations, warnings } = calculateFairRotations(players, startingLineup, 3, 1, 6, 'gk', undefined, options);
+
+      const p5OnDefense = rotations
+        .flatMap(r => r.substitutions)
+        .some(s => s.playerInId === 'p5' && (s.positionId === 'd1' || s.positionId === 'd2'));
+      expect(p5OnDefense).toBe(true);
+      expect(warnings.filter(w => w.startsWith('#5'))).toEqual([]);
+    });
+
+    it('warns when a constraint cannot be met', () => {
+      const players = makePlayers(6, {
+        p2: { positionConstraints: [{ group: 'DEFENDER', rule: 'never' }] },
+      });
+
+      const { warnings } = calculateFairRotations(players, startingLineup, 3, 1, 6, 'gk', undefined, options);
+
+      expect(warnings).toContain('#2 should never play on defense (planned: 4 rotations)');
+    });
+
+    it('reports constraint violations from validateRotationPlan', () => {
+      const rotations = [
+        { rotationNumber: 1, plannedSubstitutions: JSON.stringify([
+          { playerOutId: 'p6', playerInId: 'p7', positionId: 's1' },
+        ]) },
+        { rotationNumber: 2, plannedSubstitutions: JSON.stringify([]) },
+      ] as any;
+
+      const errors = validateRotationPlan(rotations, 6, 'gk', null, {
+        startingLineup,
+        positions,
+        players: [
+          { playerId: 'p7', playerNumber: 7, positionConstraints: [{ group: 'STRIKER', rule: 'max', rotations: 1 }] },
+          { playerId: 'p3', playerNumber: 3, positionConstraints: [{ group: 'STRIKER', rule: 'min', rotations: 1 }] },
+        ],
+      });
+
+      expect(errors).toEqual([
+        '#7 should play at most 1 rotation as striker (planned: 2)',
+        '#3 should play at least 1 rotation as striker (planned: 0)',
+      ]);
+    });
+  });
+
+  describe('league rules', () => {
+    // 2 × 20 minute halves; rotation 1 at 10', halftime at 20', rotation 3 at 30'
+    const lineup = [{ playerId: 'p1', positionId: 'a' }, { playerId: 'p2', positionId: 'b' }];
+    const players = [
+      { playerId: 'p1', playerNumber: 1 },
+      { playerId: 'p2', playerNumber: 2 },
+      { playerId: 'p3', playerNumber: 3 },
+    ];
+    const rotation = (rotationNumber: number, gameMinute: number, subs: unknown[]) =>
+      ({ rotationNumber, gameMinute, plannedSubstitutions: JSON.stringify(subs) });
+
+    it('reports league rule violations from validateRotationPlan', () => {
+      const rotations = [
+        rotation(1, 10, [{ playerOutId: 'p2', playerInId: 'p3', positionId: 'b' }]),
+        rotation(2, 20, []),
+        rotation(3, 30, [{ playerOutId: 'p3', playerInId: 'p2', positionId: 'b' }]),
+      ] as any;
+
+      const errors = validateRotationPlan(rotations, 2, undefined, null, {
+        startingLineup: lineup,
+        totalGameMinutes: 40,
+        periodCount: 2,
+        players,
+        leagueRules: [{ type: 'min-play', value: 60 }, { type: 'break-subs' }],
+      });
+
+      expect(errors).toEqual([
+        '#2 plays 50% of the game, below the 60% minimum',
+        '#3 plays 50% of the game, below the 60% minimum',
+        "Subs at 10' fall during play; this league allows them only at stoppages or breaks",
+        "Subs at 30' fall during play; this league allows them only at stoppages or breaks",
+      ]);
+    });
+
+    it('finds players who sit whole periods in a row', () => {
+      const rotations = [rotation(1, 10, []), rotation(2, 20, []), rotation(3, 30, [])] as any;
+
+      const violations = findPlanLeagueRuleViolations(rotations, lineup, [{ type: 'bench-periods', value: 2 }], {
+        totalGameMinutes: 40,
+        periodCount: 2,
+        players,
+      });
+
+      expect(violations.map(v => v.message)).toEqual(['#3 sits H1 and H2 in a row']);
+    });
+
+    it('measures late arrivals only against the time they are there for', () => {
+      const rotations = [
+        rotation(1, 10, []),
+        rotation(2, 20, []),
+        rotation(3, 30, [{ playerOutId: 'p2', playerInId: 'p3', positionId: 'b' }]),
+      ] as any;
+
+      const violations = findPlanLeagueRuleViolations(
+        rotations,
+        lineup,
+        [{ type: 'bench-periods', value: 2 }, { type: 'min-play', value: 50 }],
+        { totalGameMinutes: 40, periodCount: 2, players: [...players.slice(0, 2), { ...players[2], availableFromMinute: 30 }] },
+      );
+
+      expect(violations).toEqual([]);
+    });
+  });
+
+  describe('selectFairnessGames', () => {
+    const games = [
+      { id: 'g1', status: 'completed', gameDate: '2025-09-01T10:00:00Z' },
+      { id: 'g2', status: 'completed', gameDate: '2025-09-15T10:00:00Z' },
+      { id: 'g3', status: 'scheduled', gameDate: '2025-09-20T10:00:00Z' },
+      { id: 'g4', status: 'completed', gameDate: '2025-09-08T10:00:00Z' },
+      { id: 'current', status: 'completed', gameDate: '2025-09-22T10:00:00Z' },
+    ];
+
+    it('returns nothing for the single-game window', () => {
+      expect(selectFairnessGames(games, 'current', 'game')).toEqual([]);
+    });
+
+    it('returns the last N completed games, newest first, excluding the current game', () => {
+      expect(selectFairnessGames(games, 'current', 'recent', 2).map(g => g.id)).toEqual(['g2', 'g4']);
+    });
+
+    it('returns every completed game for the season window', () => {
+      expect(selectFairnessGames(games, 'current', 'season').map(g => g.id)).toEqual(['g2', 'g4', 'g1']);
+    });
+  });
+
+  describe('calculateSeasonCatchUpMinutes', () => {
+    const record = (gameId: string, playerId: string, minutes: number, end: number | null = minutes * 60) => ({
+      gameId,
+      playerId,
+      startGameSeconds: 0,
+      endGameSeconds: end,
+    });
+
+    it('gives players behind their share a negative seed and everyone else zero', () => {
+      // Team average per game = (40 + 30 + 20) / 3 = 30
+      const seeds = calculateSeasonCatchUpMinutes([
+        record('g1', 'p1', 40),
+        record('g1', 'p2', 30),
+        record('g1', 'p3', 20),
+      ], ['p1', 'p2', 'p3']);
+
+      expect(seeds.get('p1')).toBe(0);
+      expect(seeds.get('p2')).toBe(0);
+      expect(seeds.get('p3')).toBeCloseTo(-10, 5);
+    });
+
+    it('measures the share per game played so missed games are not counted as deficit', () => {
+      // p2 only played g1, at the team's per-game average
+      const seeds = calculateSeasonCatchUpMinutes([
+        record('g1', 'p1', 30),
+        record('g2', 'p1', 30),
+        record('g1', 'p2', 30),
+      ], ['p1', 'p2', 'p3']);
+
+      expect(seeds.get('p2')).toBe(0);
+      expect(seeds.get('p3')).toBe(0);
+    });
+
+    it('caps the head start and ignores open records', () => {
+      const seeds = calculateSeasonCatchUpMinutes([
+        record('g1', 'p1', 50),
+        record('g1', 'p2', 50),
+        record('g1', 'p3', 5),
+        record('g1', 'p3', 45, null),
+      ], ['p3'], new Map(), 8);
+
+      expect(seeds.get('p3')).toBe(-8);
+    });
+
+    it('counts a game spent on the bench toward the player\'s share', () => {
+      // g1 has 60 minutes between three available players: 20 each. p3 never came on
+      const seeds = calculateSeasonCatchUpMinutes([
+        record('g1', 'p1', 30),
+        record('g1', 'p2', 30),
+      ], ['p1', 'p2', 'p3'], new Map([['p3', new Set(['g1'])]]), 30);
+
+      expect(seeds.get('p1')).toBe(0);
+      expect(seeds.get('p2')).toBe(0);
+      expect(seeds.get('p3')).toBe(-20);
+    });
+  });
+
+  describe('collectAvailableGames', () => {
+    const games = [
+      { id: 'g1', gameDate: '2025-09-01T10:00:00Z' },
+      { id: 'g2', gameDate: '2025-09-08T10:00:00Z' },
+    ];
+
+    it('counts games a player was not marked absent or injured for', () => {
+      const available = collectAvailableGames(games, [], [
+        { gameId: 'g1', playerId: 'p2', status: 'absent' },
+        { gameId: 'g2', playerId: 'p2', status: 'injured' },
+        { gameId: 'g2', playerId: 'p3', status: 'late-arrival' },
+      ], ['p1', 'p2', 'p3']);
+
+      expect([...available.get('p1')!]).toEqual(['g1', 'g2']);
+      expect(available.has('p2')).toBe(false);
+      expect([...available.get('p3')!]).toEqual(['g1', 'g2']);
+    });
+
+    it('skips games from before the player joined unless they played in them', () => {
+      const available = collectAvailableGames(
+        games,
+        [{ gameId: 'g1', playerId: 'p2' }],
+        [],
+        ['p1', 'p2'],
+        new Map([['p1', '2025-09-05T00:00:00Z'], ['p2', '2025-09-05T00:00:00Z']]),
+      );
+
+      expect([...available.get('p1')!]).toEqual(['g2']);
+      expect([...available.get('p2')!].sort()).toEqual(['g1', 'g2']);
+    });
+  });
+
+  describe('fetchSeasonCatchUpMinutes', () => {
+    it('does not load anything for the single-game window', async () => {
+      mockGameList.mockClear();
+
+      await expect(fetchSeasonCatchUpMinutes('team-1', 'current', 'game', 3, ['p1'])).resolves.toBeUndefined();
+      expect(mockGameList).not.toHaveBeenCalled();
+    });
+
+    it('loads play time only for games inside the window', async () => {
+      mockGameList.mockResolvedValue({
+        data: [
+          { id: 'g1', status: 'completed', gameDate: '2025-09-01T10:00:00Z' },
+          { id: 'g2', status: 'completed', gameDate: '2025-09-15T10:00:00Z' },
+        ],
+        nextToken: null,
+      });
+      mockPlayTimeRecordList.mockReset();
+      mockPlayTimeRecordList.mockResolvedValue({
+        data: [
+          { gameId: 'g2', playerId: 'p1', startGameSeconds: 0, endGameSeconds: 1800 },
+          { gameId: 'g2', playerId: 'p2', startGameSeconds: 0, endGameSeconds: 600 },
+        ],
+        nextToken: null,
+      });
+
+      const seeds = await fetchSeasonCatchUpMinutes('team-1', 'current', 'recent', 1, ['p1', 'p2']);
+
+      expect(mockGameList).toHaveBeenCalledWith(expect.objectContaining({ filter: { teamId: { eq: 'team-1' } } }));
+      expect(mockPlayTimeRecordList).toHaveBeenCalledTimes(1);
+      expect(mockPlayTimeRecordList).toHaveBeenCalledWith(expect.objectContaining({ filter: { gameId: { eq: 'g2' } } }));
+      expect(seeds?.get('p1')).toBe(0);
+      expect(seeds?.get('p2')).toBe(-10);
+    });
+
+    it('owes minutes to a player who sat on the bench for a whole game', async () => {
+      mockGameList.mockResolvedValue({
+        data: [{ id: 'g1', status: 'completed', gameDate: '2025-09-01T10:00:00Z' }],
+        nextToken: null,
+      });
+      mockPlayTimeRecordList.mockReset();
+      mockPlayTimeRecordList.mockResolvedValue({
+        data: [
+          { gameId: 'g1', playerId: 'p1', startGameSeconds: 0, endGameSeconds: 600 },
+          { gameId: 'g1', playerId: 'p2', startGameSeconds: 0, endGameSeconds: 600 },
+        ],
+        nextToken: null,
+      });
+      mockPlayerAvailabilityList.mockResolvedValueOnce({
+        data: [{ gameId: 'g1', playerId: 'p4', status: 'absent' }],
+        nextToken: null,
+      });
+
+      const seeds = await fetchSeasonCatchUpMinutes('team-1', 'current', 'season', 3, ['p1', 'p2', 'p3', 'p4']);
+
+      expect(mockPlayerAvailabilityList).toHaveBeenCalledWith(expect.objectContaining({ filter: { gameId: { eq: 'g1' } } }));
+      // 20 minutes across p1, p2 and benched p3; absent p4 is owed nothing
+      expect(seeds?.get('p1')).toBe(0);
+      expect(seeds?.get('p3')).toBeCloseTo(-20 / 3, 5);
+      expect(seeds?.get('p4')).toBe(0);
+    });
+
+    it('ignores games from other seasons', async () => {
+      mockGameList.mockResolvedValue({
+        data: [
+          { id: 'current', status: 'scheduled', seasonId: null },
+          { id: 'last-fall', status: 'completed', seasonId: 'fall', gameDate: '2025-10-01T10:00:00Z' },
+          { id: 'this-spring', status: 'completed', seasonId: 'spring', gameDate: '2026-03-01T10:00:00Z' },
+          { id: 'unfiled', status: 'completed', seasonId: null, gameDate: '2026-03-08T10:00:00Z' },
+        ],
+        nextToken: null,
+      });
+      mockPlayTimeRecordList.mockReset();
+      mockPlayTimeRecordList.mockResolvedValue({ data: [], nextToken: null });
+
+      await fetchSeasonCatchUpMinutes('team-1', 'current', 'season', 3, ['p1'], 'spring');
+
+      const loadedGameIds = mockPlayTimeRecordList.mock.calls.map(([opts]) => opts.filter.gameId.eq);
+      expect(loadedGameIds.sort()).toEqual(['this-spring', 'unfiled']);
+    });
+  });
+
+  describe('selectEarlierTournamentGames', () => {
+    const games = [
+      { id: 'final', gameDate: '2025-10-04T16:00:00Z', createdAt: '2025-09-01T00:00:00Z' },
+      { id: 'pool-1', gameDate: '2025-10-04T09:00:00Z', createdAt: '2025-09-01T00:00:00Z' },
+      { id: 'pool-2', gameDate: '2025-10-04T11:00:00Z', createdAt: '2025-09-01T00:00:00Z' },
+    ];
+
+    it('returns the games played before the current one, in playing order', () => {
+      expect(selectEarlierTournamentGames(games, 'final').map(g => g.id)).toEqual(['pool-1', 'pool-2']);
+      expect(selectEarlierTournamentGames(games, 'pool-1')).toEqual([]);
+    });
+
+    it('orders undated games by creation time', () => {
+      const undated = [
+        { id: 'b', gameDate: null, createdAt: '2025-09-02T00:00:00Z' },
+        { id: 'a', gameDate: null, createdAt: '2025-09-01T00:00:00Z' },
+        { id: 'c', gameDate: null, createdAt: '2025-09-03T00:00:00Z' },
+      ];
+      expect(selectEarlierTournamentGames(undated, 'c').map(g => g.id)).toEqual(['a', 'b']);
+    });
+  });
+
+  describe('calculateTournamentCatchUpMinutes', () => {
+    it('seeds players behind the average running total and leaves the rest at zero', () => {
+      // Average of today's players = (40 + 30 + 20) / 3 = 30
+      const seeds = calculateTournamentCatchUpMinutes(
+        new Map([['p1', 40], ['p2', 30], ['p3', 20]]),
+        ['p1', 'p2', 'p3'],
+      );
+
+      expect(seeds.get('p1')).toBe(0);
+      expect(seeds.get('p2')).toBe(0);
+      expect(seeds.get('p3')).toBeCloseTo(-10, 5);
+    });
+
+    it('treats players with no minutes yet as behind and caps the head start', () => {
+      const seeds = calculateTournamentCatchUpMinutes(new Map([['p1', 60], ['p2', 60]]), ['p1', 'p2', 'p3'], 12);
+
+      expect(seeds.get('p3')).toBe(-12);
+    });
+  });
+
+  describe('fetchTournamentCatchUpMinutes', () => {
+    it('combines recorded minutes from played games with projected minutes from planned ones', async () => {
+      mockGameList.mockResolvedValue({
+        data: [
+          { id: 'g1', status: 'completed', gameDate: '2025-10-04T09:00:00Z' },
+          { id: 'g2', status: 'scheduled', gameDate: '2025-10-04T11:00:00Z', halfLengthMinutes: 10 },
+          { id: 'g3', status: 'scheduled', gameDate: '2025-10-04T13:00:00Z' },
+        ],
+        nextToken: null,
+      });
+      mockPlayTimeRecordList.mockReset();
+      mockPlayTimeRecordList.mockResolvedValue({
+        data: [
+          { gameId: 'g1', playerId: 'p1', startGameSeconds: 0, endGameSeconds: 1200 },
+          { gameId: 'g1', playerId: 'p2', startGameSeconds: 0, endGameSeconds: 1200 },
+        ],
+        nextToken: null,
+      });
+      mockGamePlanList.mockResolvedValue({
+        data: [{
+          id: 'plan-2',
+          rotationIntervalMinutes: 10,
+          startingLineup: JSON.stringify([{ playerId: 'p1', positionId: 'pos1' }, { playerId: 'p2', positionId: 'pos2' }]),
+        }],
+      });
+      mockPlannedRotationList.mockResolvedValue({
+        data: [{
+          rotationNumber: 1,
+          gameMinute: 10,
+          plannedSubstitutions: JSON.stringify([{ playerOutId: 'p2', playerInId: 'p3', positionId: 'pos2' }]),
+        }],
+      });
+
+      // g1: p1 20, p2 20. g2 (2 x 10 min): p1 20, p2 10, p3 10. Totals 40 / 30 / 10, average 26.67
+      const seeds = await fetchTournamentCatchUpMinutes('tournament-1', 'g3', ['p1', 'p2', 'p3'], 20, 2);
+
+      expect(mockGameList).toHaveBeenCalledWith(expect.objectContaining({ filter: { tournamentId: { eq: 'tournament-1' } } }));
+      expect(mockPlayTimeRecordList).toHaveBeenCalledTimes(1);
+      expect(mockGamePlanList).toHaveBeenCalledWith(expect.objectContaining({ filter: { gameId: { eq: 'g2' } } }));
+      expect(seeds.get('p1')).toBe(0);
+      expect(seeds.get('p2')).toBe(0);
+      expect(seeds.get('p3')).toBe(-15);
+    });
+
+    it('finds a game plan that is past the first page', async () => {
+      mockGameList.mockResolvedValue({
+        data: [
+          { id: 'g1', status: 'scheduled', gameDate: '2025-10-04T09:00:00Z' },
+          { id: 'g2', status: 'scheduled', gameDate: '2025-10-04T11:00:00Z' },
+        ],
+        nextToken: null,
+      });
+      mockGamePlanList.mockReset();
+      mockGamePlanList
+        .mockResolvedValueOnce({ data: [], nextToken: 'page-2' })
+        .mockResolvedValueOnce({
+          data: [{ id: 'plan-1', rotationIntervalMinutes: 10, startingLineup: JSON.stringify([{ playerId: 'p1', positionId: 'pos1' }]) }],
+          nextToken: null,
+        });
+      mockPlannedRotationList.mockResolvedValue({ data: [], nextToken: null });
+
+      const seeds = await fetchTournamentCatchUpMinutes('tournament-1', 'g2', ['p1', 'p2'], 20, 2);
+
+      expect(mockGamePlanList).toHaveBeenLastCalledWith(expect.objectContaining({ nextToken: 'page-2' }));
+      // p1 is planned for all 40 minutes of g1, p2 for none; the 20 min deficit is capped at 15
+      expect(seeds.get('p1')).toBe(0);
+      expect(seeds.get('p2')).toBe(-15);
+    });
+  });
+
   describe('updatePlayerAvailability — input validation', () => {
     it('rejects a negative availableFromMinute', async () => {
       await expect(
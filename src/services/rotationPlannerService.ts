@@ -1,8 +1,38 @@
 import { generateClient } from "aws-amplify/data";
 import type { Schema } from "../../amplify/data/resource";
 import { GAME_CONFIG } from "../constants/gameConfig";
-import type { GamePlan, PlannedRotation, PlannedSubstitution } from "../types/schema";
-import { isPlayerInjured } from "../utils/availabilityUtils";
+import type {
+  Game,
+  GamePlan,
+  KeeperPlan,
+  LeagueRule,
+  PlannedRotation,
+  PlannedSubstitution,
+  PlayerAvailability,
+  PlayTimeRecord,
+  PositionConstraint,
+  TeamRoster,
+} from "../types/schema";
+import { isPlayerAvailable, isPlayerInjured } from "../utils/availabilityUtils";
+import { sortTournamentGames } from "../utils/tournamentUtils";
+import { filterSeasonGames, resolveGameSeasonId } from "../utils/seasonUtils";
+import { inferPositionGroup, type PositionGroup } from "../utils/formationUtils";
+import { listAll } from "../utils/listAll";
+import {
+  countGroupRotations,
+  findPositionConstraintViolations,
+  isBlockedFromGroup,
+  needsGroup,
+  type GroupRotationCounts,
+} from "../utils/positionConstraintUtils";
+import { buildRulePeriods, findLeagueRuleViolations, type LeagueRuleViolation, type TimeRange } from "../utils/leagueRuleUtils";
+import {
+  getHalftimeAfterPeriod,
+  getPeriodStartMinute,
+  getRotationPeriod,
+  getTotalGameMinutes,
+  isBreakRotation,
+} from "../utils/periodUtils";
 
 export type { PlannedSubstitution } from "../types/schema";
 
@@ -15,14 +45,17 @@ export interface SimpleRoster {
   preferredPositions?: string;
   availableFromMinute?: number;   // null/undefined = available from game start (0)
   availableUntilMinute?: number;  // null/undefined = available until game end
+  positionConstraints?: PositionConstraint[]; // hard rules; breaking one adds a warning
 }
 
 interface RotationOptions {
   rotationIntervalMinutes: number;
-  halfLengthMinutes: number;
+  halfLengthMinutes: number; // length of one period (a half unless periodCount says otherwise)
+  periodCount?: number; // number of periods in the game; defaults to 2 (halves)
   positions?: Array<{ id: string; abbreviation?: string | null }>;
   playerAvailabilities?: Array<{ playerId: string; status: string | null }>;
   initialPlayTimeMinutes?: Map<string, number>; // accumulated play time in minutes per playerId
+  keeperPlan?: KeeperPlan | null; // scheduled goalkeeper swaps; requires goaliePositionId
 }
 
 export interface RotationResult {
@@ -30,18 +63,6 @@ export interface RotationResult {
   warnings: string[];
 }
 
-type PositionGroup = 'GOALKEEPER' | 'STRIKER' | 'MIDFIELDER' | 'DEFENDER' | 'UNKNOWN';
-
-function inferPositionGroup(abbreviation?: string | null): PositionGroup {
-  if (!abbreviation) return 'UNKNOWN';
-  const upper = abbreviation.toUpperCase().trim();
-  if (['GK', 'G', 'GOL', 'GOAL'].includes(upper)) return 'GOALKEEPER';
-  if (['FW', 'FWD', 'ST', 'S', 'CF', 'LW', 'RW', 'W', 'WF'].includes(upper)) return 'STRIKER';
-  if (['MF', 'MID', 'CM', 'RM', 'LM', 'AM', 'DM', 'CAM', 'CDM'].includes(upper)) return 'MIDFIELDER';
-  if (['DF', 'DEF', 'CB', 'LB', 'RB', 'LWB', 'RWB'].includes(upper)) return 'DEFENDER';
-  return 'UNKNOWN';
-}
-
 const MAX_CONTINUOUS_ROTATIONS: Record<PositionGroup, number> = {
   GOALKEEPER: Infinity,
   STRIKER: 1,
@@ -53,51 +74,123 @@ const MAX_CONTINUOUS_ROTATIONS: Record<PositionGroup, number> = {
 interface PlayerPlayTime {
   playerId: string;
   totalMinutes: number;
+  keeperMinutes: number; // subset of totalMinutes spent in the goalkeeper position
   rotations: Array<{ rotationNumber: number; onField: boolean; positionId?: string }>;
 }
 
+/**
+ * Parses the JSON keeper plan stored on a GamePlan
+ * @param raw - GamePlan.keeperPlan value (JSON string or object)
+ * @returns The keeper plan, or null when missing or malformed
+ */
+export function parseKeeperPlan(raw: unknown): KeeperPlan | null {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return null;
+    }
+  }
+  if (!value || typeof value !== 'object') return null;
+
+  const candidate = value as Partial<KeeperPlan>;
+  if (!Array.isArray(candidate.eligibleKeeperIds)) return null;
+  const eligibleKeeperIds = candidate.eligibleKeeperIds.filter((id): id is string => typeof id === 'string');
+  if (candidate.schedule !== 'half' && candidate.schedule !== 'quarter' && candidate.schedule !== 'minutes') return null;
+
+  return {
+    eligibleKeeperIds,
+    schedule: candidate.schedule,
+    ...(candidate.schedule === 'minutes' ? { intervalMinutes: candidate.intervalMinutes } : {}),
+  };
+}
+
+/**
+ * Keepers on the plan who end up with no time in goal
+ * @param keeperPlan - Keeper plan
+ * @param keeperMinutes - Minutes in goal per player ID
+ * @param describePlayer - Label for a player in the message (e.g. "#7")
+ * @param playerIds - When set, only these keepers are checked (e.g. players available for the game)
+ * @returns One message per keeper without goal time
+ */
+export function findUnusedKeepers(
+  keeperPlan: KeeperPlan,
+  keeperMinutes: Map<string, number>,
+  describePlayer: (playerId: string) => string,
+  playerIds?: Set<string>
+): string[] {
+  return keeperPlan.eligibleKeeperIds
+    .filter(id => (!playerIds || playerIds.has(id)) && (keeperMinutes.get(id) ?? 0) <= 0)
+    .map(id => `${describePlayer(id)} is on the keeper list but gets no time in goal`);
+}
+
+/**
+ * Game minutes at which the keeper plan calls for a new goalkeeper
+ * @param keeperPlan - Keeper plan
+ * @param periodLengthMinutes - Length of each period in minutes
+ * @param periodCount - Number of periods in the game
+ * @returns Ascending swap minutes strictly inside the game
+ */
+export function getKeeperSwapMinutes(keeperPlan: KeeperPlan, periodLengthMinutes: number, periodCount = 2): number[] {
+  const totalGameMinutes = getTotalGameMinutes(periodLengthMinutes, periodCount);
+  switch (keeperPlan.schedule) {
+    case 'half':
+      return [totalGameMinutes / 2];
+    case 'quarter':
+      return [totalGameMinutes / 4, totalGameMinutes / 2, totalGameMinutes * 0.75];
+    case 'minutes': {
+      const interval = keeperPlan.intervalMinutes ?? 0;
+      if (!Number.isFinite(interval) || interval < 1) return [];
+      const minutes: number[] = [];
+      for (let m = interval; m < totalGameMinutes; m += interval) minutes.push(m);
+      return minutes;
+    }
+  }
+}
+
 /**
  * Calculate the game minute for a rotation
  * @param rotationNumber - The rotation number (1-indexed)
- * @param rotationsPerHalf - Number of rotations per half
+ * @param rotationsPerHalf - Number of rotations per period
  * @param rotationIntervalMinutes - Minutes between rotations
- * @param halfLengthMinutes - Length of each half in minutes
+ * @param halfLengthMinutes - Length of each period in minutes
+ * @param periodCount - Number of periods; rotations past the last period stay in it
  * @returns The game minute when this rotation should occur
  */
 export function calculateRotationMinute(
   rotationNumber: number,
   rotationsPerHalf: number,
   rotationIntervalMinutes: number,
-  halfLengthMinutes: number
+  halfLengthMinutes: number,
+  periodCount = 2
 ): number {
-  const half = rotationNumber <= rotationsPerHalf ? 1 : 2;
-  
-  if (half === 1) {
-    // First half: rotation 1 at 10 min, rotation 2 at 20 min, etc.
-    return rotationNumber * rotationIntervalMinutes;
-  } else {
-    // Second half: add half length to the rotation time within second half
-    const rotationInSecondHalf = rotationNumber - rotationsPerHalf;
-    return halfLengthMinutes + (rotationInSecondHalf * rotationIntervalMinutes);
-  }
+  // Period 1: rotation 1 at 10 min, rotation 2 at 20 min, etc.
+  // Later periods: add the elapsed periods to the rotation time within the period
+  const period = Math.min(periodCount, Math.ceil(rotationNumber / rotationsPerHalf));
+  const rotationInPeriod = rotationNumber - (period - 1) * rotationsPerHalf;
+  return getPeriodStartMinute(period, halfLengthMinutes) + (rotationInPeriod * rotationIntervalMinutes);
 }
 
 export function calculateFairRotations(
   availablePlayers: SimpleRoster[],
   startingLineup: Array<{ playerId: string; positionId: string }>,
   totalRotations: number,
+  /** Regular rotations per period; each period boundary adds one break rotation */
   rotationsPerHalf: number,
   maxPlayersOnField: number,
   /** Position ID of the goalkeeper slot — never auto-subbed in regular rotations */
   goaliePositionId?: string,
-  /** If the coach has already set a halftime lineup, keep it and plan second-half rotations from it */
+  /** If the coach has already set a halftime lineup, keep it and plan the following rotations from it */
   halftimeLineup?: Array<{ playerId: string; positionId: string }>,
   options?: RotationOptions
 ): RotationResult {
   const warnings: string[] = [];
   const rotationIntervalMinutes = options?.rotationIntervalMinutes ?? 5;
   const halfLengthMinutes = options?.halfLengthMinutes ?? 30;
-  const totalGameMinutes = halfLengthMinutes * 2;
+  const periodCount = options?.periodCount ?? 2;
+  const totalGameMinutes = getTotalGameMinutes(halfLengthMinutes, periodCount);
+  const halftimeAfterPeriod = getHalftimeAfterPeriod(periodCount);
 
   const filteredAvailablePlayers = availablePlayers.filter(
     (player) => !isPlayerInjured(player.playerId, options?.playerAvailabilities),
@@ -115,6 +208,8 @@ export function calculateFairRotations(
       positionGroupMap.set(pos.id, inferPositionGroup(pos.abbreviation));
     }
   }
+  const groupOf = (positionId: string): PositionGroup =>
+    positionId === goaliePositionId ? 'GOALKEEPER' : positionGroupMap.get(positionId) ?? 'UNKNOWN';
 
   const playerIds = filteredAvailablePlayers.map(p => p.playerId);
   const playerById = new Map<string, SimpleRoster>(filteredAvailablePlayers.map(p => [p.playerId, p]));
@@ -133,10 +228,28 @@ export function calculateFairRotations(
     return prefs ? prefs.has(positionId) : false;
   };
 
-  // GK preference: player has goaliePositionId in their preferredPositions
+  // Position constraints: rotations each player has spent in each group so far
+  const groupRotations: GroupRotationCounts = new Map();
+  const playedInGroup = (playerId: string, group: PositionGroup) => groupRotations.get(playerId)?.get(group) ?? 0;
+  const isBlockedFrom = (playerId: string, positionId: string): boolean => {
+    const group = groupOf(positionId);
+    return isBlockedFromGroup(playerById.get(playerId)?.positionConstraints ?? [], group, playedInGroup(playerId, group));
+  };
+  const needsPosition = (playerId: string, positionId: string): boolean => {
+    const group = groupOf(positionId);
+    return needsGroup(playerById.get(playerId)?.positionConstraints ?? [], group, playedInGroup(playerId, group));
+  };
+
+  // Keeper plan: scheduled swaps between the listed keepers (only with a known GK slot)
+  const keeperPlan = goaliePositionId ? options?.keeperPlan ?? null : null;
+  const keeperOrder = new Map((keeperPlan?.eligibleKeeperIds ?? []).map((id, index) => [id, index]));
+  const keeperSwapMinutes = keeperPlan ? getKeeperSwapMinutes(keeperPlan, halfLengthMinutes, periodCount) : [];
+
+  // GK preference: player has goaliePositionId in their preferredPositions, is on the keeper plan
+  // or still owes rotations in goal; a 'never in goal' constraint overrides all three
   const isGkPreferred = (playerId: string): boolean => {
-    if (!goaliePositionId) return false;
-    return prefersPosition(playerId, goaliePositionId);
+    if (!goaliePositionId || isBlockedFrom(playerId, goaliePositionId)) return false;
+    return keeperOrder.has(playerId) || prefersPosition(playerId, goaliePositionId) || needsPosition(playerId, goaliePositionId);
   };
 
   // Pre-loop validation
@@ -152,7 +265,7 @@ export function calculateFairRotations(
   const noSubsAvailable = filteredAvailablePlayers.length <= maxPlayersOnField;
 
   /**
-   * Assign bench candidates to positions respecting GK lock and preferences.
+   * Assign bench candidates to positions respecting GK lock, position constraints and preferences.
    * When gkLocked=true, only GK-preferred players may fill the GK position.
    */
   const assignPlayersToPositions = (
@@ -162,31 +275,37 @@ export function calculateFairRotations(
   ): Array<{ playerId: string; positionId: string }> => {
     const canFillPosition = (candidateId: string, posId: string): boolean => {
       if (gkLocked && posId === goaliePositionId && !isGkPreferred(candidateId)) return false;
-      return true;
+      return !isBlockedFrom(candidateId, posId);
     };
 
     let bestAssignments: Array<{ playerId: string; positionId: string }> = [];
     let bestFilledCount = -1;
+    let bestNeededCount = -1;
     let bestPreferredCount = -1;
     let bestPriorityScore = -1;
     const usedPlayers = new Set<string>();
     const currentAssignments: Array<{ playerId: string; positionId: string }> = [];
 
+    // Ranking: positions filled, then 'min' constraints served, then preferences, then bench priority
     const search = (
       positionIndex: number,
       filledCount: number,
+      neededCount: number,
       preferredCount: number,
       priorityScore: number,
     ) => {
       if (positionIndex >= positionsToFill.length) {
         const isBetter =
           filledCount > bestFilledCount ||
-          (filledCount === bestFilledCount && preferredCount > bestPreferredCount) ||
-          (filledCount === bestFilledCount && preferredCount === bestPreferredCount && priorityScore > bestPriorityScore);
+          (filledCount === bestFilledCount && neededCount > bestNeededCount) ||
+          (filledCount === bestFilledCount && neededCount === bestNeededCount && preferredCount > bestPreferredCount) ||
+          (filledCount === bestFilledCount && neededCount === bestNeededCount && preferredCount === bestPreferredCount &&
+            priorityScore > bestPriorityScore);
 
         if (isBetter) {
           bestAssignments = [...currentAssignments];
           bestFilledCount = filledCount;
+          bestNeededCount = neededCount;
           bestPreferredCount = preferredCount;
           bestPriorityScore = priorityScore;
         }
@@ -210,6 +329,7 @@ export function calculateFairRotations(
         search(
           positionIndex + 1,
           filledCount + 1,
+          neededCount + (needsPosition(candidate.id, positionId) ? 1 : 0),
           preferredCount + (prefersPosition(candidate.id, positionId) ? 1 : 0),
           priorityScore + (benchCandidates.length - candidateIndex),
         );
@@ -217,10 +337,10 @@ export function calculateFairRotations(
         usedPlayers.delete(candidate.id);
       }
 
-      search(positionIndex + 1, filledCount, preferredCount, priorityScore);
+      search(positionIndex + 1, filledCount, neededCount, preferredCount, priorityScore);
     };
 
-    search(0, 0, 0, 0);
+    search(0, 0, 0, 0, 0);
     return bestAssignments;
   };
 
@@ -238,35 +358,54 @@ export function calculateFairRotations(
   // Fatigue-based forced-off (MAX_CONTINUOUS_ROTATIONS) may be delayed by 1 rotation.
   // Rotations are reference-only; coaches may override.
 
-  // Consecutive on-field intervals (reset to 0 when benched or at halftime)
+  // Consecutive on-field intervals (reset to 0 when benched or at a period break)
   const continuousRotations = new Map<string, number>();
   playerIds.forEach(id => continuousRotations.set(id, 0));
 
-  // Half field tracking
-  const halfOnField = { first: new Set<string>(), second: new Set<string>() };
+  // Per-period field tracking (period number -> players who have been on the field)
+  const periodOnField = new Map<number, Set<string>>();
+
+  // Minutes each player has spent in goal, used to pick the next keeper
+  const keeperMinutes = new Map<string, number>();
+  // Game minute of the previous rotation (a break counts as the period boundary)
+  let previousSwapCheckMinute = 0;
 
   const rotations: Array<{ substitutions: PlannedSubstitution[] }> = [];
 
+  const recordGroupRotations = () => {
+    currentField.forEach(id => {
+      const group = groupOf(positionMap.get(id) ?? '');
+      if (!groupRotations.has(id)) groupRotations.set(id, new Map());
+      groupRotations.get(id)!.set(group, playedInGroup(id, group) + 1);
+    });
+  };
+
   for (let rotNum = 1; rotNum <= totalRotations; rotNum++) {
-    const isHalftime = rotNum === rotationsPerHalf + 1;
-    const isFirstHalf = rotNum <= rotationsPerHalf;
-    const isSecondHalf = rotNum > rotationsPerHalf + 1;
-    const isLastFirstHalfRotation = rotNum === rotationsPerHalf;
+    const period = Math.min(periodCount, getRotationPeriod(rotNum, rotationsPerHalf));
+    const isBreak = isBreakRotation(rotNum, rotationsPerHalf, periodCount);
+    const isHalftime = isBreak && period - 1 === halftimeAfterPeriod;
     const isLastRotation = rotNum === totalRotations;
+    const isLastPeriodRotation = !isBreak && (isLastRotation || isBreakRotation(rotNum + 1, rotationsPerHalf, periodCount));
+    // The interval that just elapsed belongs to the period a break rotation closes
+    const elapsedPeriod = isBreak ? period - 1 : period;
     const substitutions: PlannedSubstitution[] = [];
 
     // Step 1: Accumulate play time and update continuousRotations BEFORE computing subs
+    if (!periodOnField.has(elapsedPeriod)) periodOnField.set(elapsedPeriod, new Set());
     currentField.forEach(id => {
       playTimeMinutes.set(id, (playTimeMinutes.get(id) ?? 0) + rotationIntervalMinutes);
       continuousRotations.set(id, (continuousRotations.get(id) ?? 0) + 1);
-      if (isFirstHalf || isHalftime) halfOnField.first.add(id);
-      if (isSecondHalf) halfOnField.second.add(id);
+      periodOnField.get(elapsedPeriod)!.add(id);
+      if (goaliePositionId && positionMap.get(id) === goaliePositionId) {
+        keeperMinutes.set(id, (keeperMinutes.get(id) ?? 0) + rotationIntervalMinutes);
+      }
     });
+    recordGroupRotations();
 
     // Current game minute after this interval has elapsed
-    const currentGameMinute = rotNum <= rotationsPerHalf + 1
-      ? rotNum * rotationIntervalMinutes
-      : halfLengthMinutes + (rotNum - rotationsPerHalf - 1) * rotationIntervalMinutes;
+    const intervalsIntoPeriod = isBreak ? rotationsPerHalf + 1 : rotNum - (period - 1) * (rotationsPerHalf + 1);
+    const currentGameMinute = getPeriodStartMinute(elapsedPeriod, halfLengthMinutes)
+      + intervalsIntoPeriod * rotationIntervalMinutes;
 
     const minutesRemaining = totalGameMinutes - currentGameMinute;
 
@@ -279,9 +418,46 @@ export function calculateFairRotations(
       return currentGameMinute >= from && currentGameMinute < until;
     };
 
-    if (isHalftime) {
-      // --- Halftime handling ---
-      if (halftimeLineup && halftimeLineup.length > 0) {
+    // Keeper swap: runs before other subs so the new keeper is locked in goal.
+    // A coach-set halftime lineup already decides who is in goal after the break.
+    const swapCheckMinute = isBreak ? getPeriodStartMinute(period, halfLengthMinutes) : currentGameMinute;
+    const keeperSwapDue = keeperSwapMinutes.some(m => m > previousSwapCheckMinute && m <= swapCheckMinute);
+    previousSwapCheckMinute = swapCheckMinute;
+
+    if (goaliePositionId && keeperSwapDue && !(isHalftime && halftimeLineup && halftimeLineup.length > 0)) {
+      const currentKeeper = Array.from(currentField).find(id => positionMap.get(id) === goaliePositionId);
+      const nextKeeper = Array.from(keeperOrder.keys())
+        .filter(id => id !== currentKeeper && playerById.has(id) && isEligible(id) && !isBlockedFrom(id, goaliePositionId))
+        .sort((a, b) =>
+          (keeperMinutes.get(a) ?? 0) - (keeperMinutes.get(b) ?? 0)
+          || Number(currentField.has(a)) - Number(currentField.has(b))
+          || keeperOrder.get(a)! - keeperOrder.get(b)!
+        )[0];
+
+      if (!currentKeeper || !nextKeeper) {
+        warnings.push(`No eligible keeper available for the swap at minute ${swapCheckMinute}.`);
+      } else {
+        const vacatedPosition = currentField.has(nextKeeper) ? positionMap.get(nextKeeper) : undefined;
+        substitutions.push({ playerOutId: currentKeeper, playerInId: nextKeeper, positionId: goaliePositionId });
+        currentField.add(nextKeeper);
+        positionMap.set(nextKeeper, goaliePositionId);
+        continuousRotations.set(nextKeeper, 0);
+
+        if (vacatedPosition) {
+          // New keeper came from the field: the old keeper takes their outfield spot
+          substitutions.push({ playerOutId: nextKeeper, playerInId: currentKeeper, positionId: vacatedPosition });
+          positionMap.set(currentKeeper, vacatedPosition);
+        } else {
+          currentField.delete(currentKeeper);
+          positionMap.delete(currentKeeper);
+        }
+        continuousRotations.set(currentKeeper, 0);
+      }
+    }
+
+    if (isBreak) {
+      // --- Period break handling ---
+      if (isHalftime && halftimeLineup && halftimeLineup.length > 0) {
         // Coach-set lineup: diff and apply
         const currentPosToPlayer = new Map<string, string>();
         for (const [playerId, positionId] of positionMap.entries()) {
@@ -304,7 +480,7 @@ export function calculateFairRotations(
           if (!currentField.has(pid)) positionMap.delete(pid);
         }
       } else {
-        // Auto-compute halftime with GK lock
+        // Auto-compute the break lineup with GK lock
         const benchPlayers = playerIds.filter(id => !currentField.has(id));
         const eligibleBench = benchPlayers.filter(id => isEligible(id));
         const benchWithTime = eligibleBench
@@ -313,13 +489,15 @@ export function calculateFairRotations(
 
         const hasGkBench = goaliePositionId ? benchWithTime.some(p => isGkPreferred(p.id)) : false;
 
+        // Players who have used up a 'max' constraint at their position go off first
         const fieldWithTime = Array.from(currentField)
           .map(pid => ({
             id: pid,
             time: playTimeMinutes.get(pid) ?? 0,
             isGk: goaliePositionId ? positionMap.get(pid) === goaliePositionId : false,
+            isBlocked: isBlockedFrom(pid, positionMap.get(pid)!),
           }))
-          .sort((a, b) => b.time - a.time);
+          .sort((a, b) => Number(b.isBlocked) - Number(a.isBlocked) || b.time - a.time);
 
         const subsNeeded = Math.min(maxPlayersOnField, benchWithTime.length);
         const positionsToFill: string[] = [];
@@ -329,8 +507,9 @@ export function calculateFairRotations(
         for (const fp of fieldWithTime) {
           if (swapped >= subsNeeded) break;
           const pos = positionMap.get(fp.id)!;
-          // GK can only be swapped if there's a GK-preferred bench candidate
-          if (fp.isGk && !hasGkBench) continue;
+          // GK can only be swapped if there's a GK-preferred bench candidate;
+          // with a keeper plan the keeper only changes on the plan's schedule
+          if (fp.isGk && (keeperPlan || !hasGkBench)) continue;
           positionsToFill.push(pos);
           playersOut.push(fp.id);
           swapped++;
@@ -352,7 +531,7 @@ export function calculateFairRotations(
         }
       }
 
-      // Reset continuousRotations at halftime
+      // Reset continuousRotations at every break
       playerIds.forEach(id => continuousRotations.set(id, 0));
 
     } else {
@@ -374,6 +553,14 @@ export function calculateFairRotations(
           }
         }
 
+        // Forced-off: a position constraint rules out another rotation at this position
+        for (const id of currentField) {
+          if (forcedOff.includes(id)) continue;
+          const pos = positionMap.get(id);
+          if (!pos || pos === goaliePositionId) continue;
+          if (isBlockedFrom(id, pos)) forcedOff.push(id);
+        }
+
         // Fatigue-based forced-off (only when position data available)
         if (options?.positions) {
           for (const id of currentField) {
@@ -409,13 +596,13 @@ export function calculateFairRotations(
           const isAtRisk = played + minutesRemaining <= threshold;
 
           // Proactive (one-rotation look-ahead): if this player is skipped this rotation
-          // AND the next rotation is also a regular rotation (not halftime, not last), they
+          // AND the next rotation is also a regular rotation (not a break, not last), they
           // will arrive at the next rotation already unable to meet the threshold.
-          // Guard: halftime immediately follows (isLastFirstHalfRotation) → halftime
+          // Guard: a break immediately follows (isLastPeriodRotation) → the break
           // guarantees all bench players come on, so proactive mustOn is not needed there.
           const isProactive =
             !isLastRotation &&
-            !isLastFirstHalfRotation &&
+            !isLastPeriodRotation &&
             played + minutesRemaining - rotationIntervalMinutes <= threshold;
 
           if (isAtRisk || isProactive) {
@@ -423,17 +610,17 @@ export function calculateFairRotations(
           }
         }
 
-        // Per-half coverage: last rotation of each half — prioritize players not yet on field
-        const notYetInHalf: string[] = [];
-        if (isLastFirstHalfRotation || (isLastRotation && isSecondHalf)) {
-          const halfSet = isLastFirstHalfRotation ? halfOnField.first : halfOnField.second;
+        // Per-period coverage: last rotation of each period — prioritize players not yet on field
+        const notYetInPeriod: string[] = [];
+        if (isLastPeriodRotation && !(isLastRotation && period === 1)) {
+          const periodSet = periodOnField.get(period) ?? new Set<string>();
           for (const id of eligibleBench) {
-            if (!halfSet.has(id) && !mustOn.includes(id)) notYetInHalf.push(id);
+            if (!periodSet.has(id) && !mustOn.includes(id)) notYetInPeriod.push(id);
           }
         }
 
         // Build prioritized bench list
-        const priorityBench = [...mustOn, ...notYetInHalf].filter((id, i, a) => a.indexOf(id) === i);
+        const priorityBench = [...mustOn, ...notYetInPeriod].filter((id, i, a) => a.indexOf(id) === i);
         const normalBench = eligibleBench.filter(id => !priorityBench.includes(id));
 
         const sortedBench = [
@@ -487,6 +674,29 @@ export function calculateFairRotations(
           }
         }
       }
+
+      // Position swap: an outfield player still short of a 'min' constraint trades places
+      // with a teammate in that group who doesn't need it (players just subbed stay put)
+      const moved = new Set(substitutions.flatMap(s => [s.playerOutId, s.playerInId]));
+      for (const id of currentField) {
+        const from = positionMap.get(id);
+        if (moved.has(id) || !from || from === goaliePositionId || needsPosition(id, from)) continue;
+        const partner = Array.from(currentField).find(other => {
+          const to = positionMap.get(other);
+          return other !== id && !moved.has(other) && !!to && to !== goaliePositionId &&
+            needsPosition(id, to) && !needsPosition(other, to) && !isBlockedFrom(id, to) && !isBlockedFrom(other, from);
+        });
+        if (!partner) continue;
+        const to = positionMap.get(partner)!;
+        substitutions.push(
+          { playerOutId: partner, playerInId: id, positionId: to },
+          { playerOutId: id, playerInId: partner, positionId: from },
+        );
+        positionMap.set(id, to);
+        positionMap.set(partner, from);
+        moved.add(id);
+        moved.add(partner);
+      }
     }
 
     // Reset continuousRotations for players who went to bench
@@ -497,22 +707,207 @@ export function calculateFairRotations(
     rotations.push({ substitutions });
   }
 
+  // The field after the last rotation plays one more interval
+  recordGroupRotations();
+  const finalKeeper = Array.from(currentField).find(id => goaliePositionId && positionMap.get(id) === goaliePositionId);
+  if (finalKeeper) keeperMinutes.set(finalKeeper, (keeperMinutes.get(finalKeeper) ?? 0) + rotationIntervalMinutes);
+
+  warnings.push(...findPositionConstraintViolations(filteredAvailablePlayers, groupRotations));
+  if (keeperPlan) {
+    warnings.push(...findUnusedKeepers(
+      keeperPlan,
+      keeperMinutes,
+      id => `#${playerById.get(id)?.playerNumber ?? '?'}`,
+      new Set(playerIds),
+    ));
+  }
+
   return { rotations, warnings };
 }
 
+/**
+ * Which past games count toward fairness when generating rotations.
+ * 'game' balances the current game in isolation, 'recent' looks at the last N
+ * completed games, and 'season' at every completed game for the team.
+ */
+export type FairnessWindow = 'game' | 'recent' | 'season';
+
+export const DEFAULT_FAIRNESS_WINDOW_GAMES = 3;
+
+/**
+ * Picks the completed games that fall inside the team's fairness window
+ * @param games - All games for the team
+ * @param currentGameId - The game being planned (never included)
+ * @param fairnessWindow - Window mode from the team settings
+ * @param windowGames - Number of games for the 'recent' window
+ * @returns Completed games, most recent first
+ */
+export function selectFairnessGames<TGame extends Pick<Game, 'id' | 'status' | 'gameDate'>>(
+  games: TGame[],
+  currentGameId: string,
+  fairnessWindow: FairnessWindow,
+  windowGames: number = DEFAULT_FAIRNESS_WINDOW_GAMES
+): TGame[] {
+  if (fairnessWindow === 'game') return [];
+
+  const completed = games
+    .filter(g => g.id !== currentGameId && g.status === 'completed')
+    .sort((a, b) => new Date(b.gameDate ?? 0).getTime() - new Date(a.gameDate ?? 0).getTime());
+
+  return fairnessWindow === 'recent' ? completed.slice(0, Math.max(1, windowGames)) : completed;
+}
+
+/**
+ * Games in the fairness window each player could have played in: the ones
+ * they played in, plus the ones they were on the roster for and not marked
+ * absent or injured. As on the game pages, no availability record means
+ * available.
+ * @param games - Games inside the window
+ * @param records - PlayTimeRecords from those games
+ * @param availabilities - PlayerAvailability records from those games
+ * @param playerIds - Players available for the game being planned
+ * @param joinedAt - When each player joined the roster (TeamRoster.createdAt)
+ * @returns Map of player ID to the IDs of the games they were available for
+ */
+export function collectAvailableGames(
+  games: Array<Pick<Game, 'id' | 'gameDate'>>,
+  records: Array<Pick<PlayTimeRecord, 'gameId' | 'playerId'>>,
+  availabilities: Array<Pick<PlayerAvailability, 'gameId' | 'playerId' | 'status'>>,
+  playerIds: string[],
+  joinedAt: Map<string, string> = new Map()
+): Map<string, Set<string>> {
+  const availableGames = new Map<string, Set<string>>();
+  const add = (playerId: string, gameId: string) => {
+    if (!availableGames.has(playerId)) availableGames.set(playerId, new Set());
+    availableGames.get(playerId)!.add(gameId);
+  };
+
+  for (const record of records) add(record.playerId, record.gameId);
+  for (const game of games) {
+    const gameAvailabilities = availabilities.filter(a => a.gameId === game.id);
+    const kickOff = game.gameDate ? new Date(game.gameDate).getTime() : null;
+    for (const playerId of playerIds) {
+      const joined = joinedAt.get(playerId);
+      if (joined && kickOff !== null && new Date(joined).getTime() > kickOff) continue;
+      if (isPlayerAvailable(playerId, gameAvailabilities)) add(playerId, game.id);
+    }
+  }
+  return availableGames;
+}
+
+/**
+ * Turns past play time into catch-up seeds for calculateFairRotations.
+ *
+ * A player's share is the team's average minutes per available player per
+ * game, times the number of games that player was available for — including
+ * games they sat out on the bench. Players behind their share get a negative
+ * seed (capped) so the planner treats them as having played less; players at
+ * or above their share get 0 so the in-game 50% rule is unchanged.
+ * @param records - PlayTimeRecords from the games inside the window
+ * @param playerIds - Players available for the game being planned
+ * @param availableGames - From collectAvailableGames; without it only games
+ *   a player appeared in count
+ * @param maxCatchUpMinutes - Largest head start any player can receive
+ * @returns Map of player ID to seed minutes (0 or negative)
+ */
+export function calculateSeasonCatchUpMinutes(
+  records: Array<Pick<PlayTimeRecord, 'gameId' | 'playerId' | 'startGameSeconds' | 'endGameSeconds'>>,
+  playerIds: string[],
+  availableGames: Map<string, Set<string>> = new Map(),
+  maxCatchUpMinutes: number = GAME_CONFIG.ROTATION_CALCULATION.MAX_SEASON_CATCH_UP_MINUTES
+): Map<string, number> {
+  const minutesByPlayer = new Map<string, number>();
+  const gamesByPlayer = new Map<string, Set<string>>();
+  const countGame = (playerId: string, gameId: string) => {
+    if (!gamesByPlayer.has(playerId)) gamesByPlayer.set(playerId, new Set());
+    gamesByPlayer.get(playerId)!.add(gameId);
+  };
+
+  for (const record of records) {
+    if (record.endGameSeconds === null || record.endGameSeconds === undefined) continue;
+    const minutes = Math.max(0, record.endGameSeconds - record.startGameSeconds) / 60;
+    minutesByPlayer.set(record.playerId, (minutesByPlayer.get(record.playerId) ?? 0) + minutes);
+    countGame(record.playerId, record.gameId);
+  }
+  availableGames.forEach((gameIds, playerId) => gameIds.forEach(gameId => countGame(playerId, gameId)));
+
+  let totalMinutes = 0;
+  let totalPlayerGames = 0;
+  gamesByPlayer.forEach((gameIds, id) => {
+    totalMinutes += minutesByPlayer.get(id) ?? 0;
+    totalPlayerGames += gameIds.size;
+  });
+  const teamAverage = totalPlayerGames > 0 ? totalMinutes / totalPlayerGames : 0;
+
+  const seeds = new Map<string, number>();
+  for (const id of playerIds) {
+    const gamesPlayed = gamesByPlayer.get(id)?.size ?? 0;
+    const deficit = teamAverage * gamesPlayed - (minutesByPlayer.get(id) ?? 0);
+    seeds.set(id, deficit > 0 ? -Math.min(deficit, maxCatchUpMinutes) : 0);
+  }
+  return seeds;
+}
+
+/**
+ * Orders a tournament's games by kick-off and returns the ones before the
+ * game being planned. Games without a date fall back to their creation time.
+ * @param games - Every game in the tournament
+ * @param currentGameId - The game being planned (never included)
+ * @returns Earlier games, in playing order
+ */
+export function selectEarlierTournamentGames<TGame extends Pick<Game, 'id' | 'gameDate' | 'createdAt'>>(
+  games: TGame[],
+  currentGameId: string
+): TGame[] {
+  const ordered = sortTournamentGames(games);
+  const currentIndex = ordered.findIndex(g => g.id === currentGameId);
+  return currentIndex === -1 ? ordered : ordered.slice(0, currentIndex);
+}
+
+/**
+ * Turns tournament running totals into catch-up seeds for calculateFairRotations.
+ *
+ * Unlike the season window, a tournament shares one availability list, so every
+ * player available today is expected to have had the same share of the earlier
+ * games: the average running total of those players. Players behind it get a
+ * negative seed (capped); everyone else gets 0.
+ * @param runningTotals - Minutes per player across the tournament's earlier games
+ * @param playerIds - Players available for the game being planned
+ * @param maxCatchUpMinutes - Largest head start any player can receive
+ * @returns Map of player ID to seed minutes (0 or negative)
+ */
+export function calculateTournamentCatchUpMinutes(
+  runningTotals: Map<string, number>,
+  playerIds: string[],
+  maxCatchUpMinutes: number = GAME_CONFIG.ROTATION_CALCULATION.MAX_TOURNAMENT_CATCH_UP_MINUTES
+): Map<string, number> {
+  const average = playerIds.length > 0
+    ? playerIds.reduce((sum, id) => sum + (runningTotals.get(id) ?? 0), 0) / playerIds.length
+    : 0;
+
+  const seeds = new Map<string, number>();
+  for (const id of playerIds) {
+    const deficit = average - (runningTotals.get(id) ?? 0);
+    seeds.set(id, deficit > 0 ? -Math.min(deficit, maxCatchUpMinutes) : 0);
+  }
+  return seeds;
+}
+
 /**
  * Calculates projected play time for each player based on rotation plan
  * @param rotations - Array of planned rotations
  * @param startingLineup - Initial lineup
  * @param rotationIntervalMinutes - Minutes between rotations
  * @param totalGameMinutes - Total game length
+ * @param goaliePositionId - Goalkeeper position; time there is also counted as keeperMinutes
  * @returns Map of player ID to projected minutes
  */
 export function calculatePlayTime(
   rotations: PlannedRotation[],
   startingLineup: Array<{ playerId: string; positionId: string }>,
   _rotationIntervalMinutes: number,
-  totalGameMinutes: number
+  totalGameMinutes: number,
+  goaliePositionId?: string
 ): Map<string, PlayerPlayTime> {
   const playTime = new Map<string, PlayerPlayTime>();
   const allPlayerIds = new Set<string>();
@@ -524,10 +919,14 @@ export function calculatePlayTime(
     playTime.set(s.playerId, {
       playerId: s.playerId,
       totalMinutes: 0,
+      keeperMinutes: 0,
       rotations: [],
     });
   });
   
+  // Current position of every on-field player
+  const positionOf = new Map(startingLineup.map(s => [s.playerId, s.positionId]));
+
   // Add first rotation state
   currentField.forEach(id => {
     const pt = playTime.get(id)!;
@@ -555,14 +954,17 @@ export function calculatePlayTime(
     subs.forEach(sub => {
       if (!incomingPlayerIds.has(sub.playerOutId)) {
         currentField.delete(sub.playerOutId);
+        positionOf.delete(sub.playerOutId);
       }
       currentField.add(sub.playerInId);
+      positionOf.set(sub.playerInId, sub.positionId);
       
       allPlayerIds.add(sub.playerInId);
       if (!playTime.has(sub.playerInId)) {
         playTime.set(sub.playerInId, {
           playerId: sub.playerInId,
           totalMinutes: 0,
+          keeperMinutes: 0,
           rotations: [],
         });
       }
@@ -574,7 +976,7 @@ export function calculatePlayTime(
       pt.rotations.push({
         rotationNumber: rotation.rotationNumber,
         onField: currentField.has(id),
-        positionId: subs.find(s => s.playerInId === id)?.positionId,
+        positionId: currentField.has(id) ? positionOf.get(id) : undefined,
       });
     });
   });
@@ -583,10 +985,12 @@ export function calculatePlayTime(
   allPlayerIds.forEach(playerId => {
     const pt = playTime.get(playerId)!;
     let minutes = 0;
+    let keeperMinutes = 0;
     
     pt.rotations.forEach((rotation, index) => {
       if (rotation.onField) {
         const nextRotation = pt.rotations[index + 1];
+        const minutesBefore = minutes;
         
         // Get the current rotation's game minute
         const currentRotationObj = rotation.rotationNumber === 0 
@@ -609,24 +1013,107 @@ export function calculatePlayTime(
           // Last segment - play until end
           minutes += totalGameMinutes - currentMinute;
         }
+
+        if (goaliePositionId && rotation.positionId === goaliePositionId) {
+          keeperMinutes += minutes - minutesBefore;
+        }
       }
     });
     
     pt.totalMinutes = minutes;
+    pt.keeperMinutes = keeperMinutes;
   });
   
   return playTime;
 }
 
+/**
+ * League rule violations in a planned game
+ * @param rotations - Planned rotations
+ * @param startingLineup - Players on the field at kick-off
+ * @param rules - The team's league rules
+ * @param game - Game length, period count and the players the rules apply to
+ * @returns One violation per player and rule (per mid-period rotation for 'break-subs')
+ */
+export function findPlanLeagueRuleViolations(
+  rotations: PlannedRotation[],
+  startingLineup: Array<{ playerId: string; positionId: string }>,
+  rules: LeagueRule[],
+  game: {
+    totalGameMinutes: number;
+    periodCount: number;
+    players: Array<Pick<SimpleRoster, 'playerId' | 'playerNumber' | 'availableFromMinute' | 'availableUntilMinute'>>;
+  }
+): LeagueRuleViolation[] {
+  if (rules.length === 0 || game.totalGameMinutes <= 0) return [];
+
+  const totalSeconds = game.totalGameMinutes * 60;
+  const minuteOf = new Map(rotations.map(r => [r.rotationNumber, r.gameMinute]));
+  const playTime = calculatePlayTime(rotations, startingLineup, 0, game.totalGameMinutes);
+
+  const stints = new Map<string, TimeRange[]>();
+  playTime.forEach(pt => {
+    const ranges: TimeRange[] = [];
+    pt.rotations.forEach((entry, index) => {
+      if (!entry.onField) return;
+      const next = pt.rotations[index + 1];
+      ranges.push({
+        start: (entry.rotationNumber === 0 ? 0 : minuteOf.get(entry.rotationNumber) ?? 0) * 60,
+        end: next ? (minuteOf.get(next.rotationNumber) ?? game.totalGameMinutes) * 60 : totalSeconds,
+      });
+    });
+    stints.set(pt.playerId, ranges);
+  });
+
+  const substitutionTimes = rotations
+    .filter(r => {
+      try {
+        return (JSON.parse(r.plannedSubstitutions as string) as unknown[]).length > 0;
+      } catch {
+        return false;
+      }
+    })
+    .map(r => r.gameMinute * 60);
+
+  const numbers = new Map(game.players.map(p => [p.playerId, p.playerNumber]));
+  return findLeagueRuleViolations(rules, {
+    playerIds: game.players.map(p => p.playerId),
+    stints,
+    periods: buildRulePeriods(totalSeconds / game.periodCount, game.periodCount),
+    periodCount: game.periodCount,
+    substitutionTimes,
+    availability: new Map(game.players.map(p => [p.playerId, {
+      start: (p.availableFromMinute ?? 0) * 60,
+      end: (p.availableUntilMinute ?? game.totalGameMinutes) * 60,
+    }])),
+    describePlayer: id => `#${numbers.get(id) ?? '?'}`,
+  });
+}
+
 /**
  * Validates a rotation plan for common issues
  * @param rotations - Planned rotations to validate
  * @param maxPlayersOnField - Maximum players allowed on field
+ * @param goaliePositionId - Goalkeeper position, checked against the keeper plan
+ * @param keeperPlan - When set, only its eligible keepers may be subbed into goal
+ * @param planContext - Starting lineup and game details for the checks that follow players through the game:
+ *   keeper minutes (with keeperPlan and totalGameMinutes), position constraints (with players) and
+ *   league rules (with leagueRules, players and totalGameMinutes)
  * @returns Array of validation errors (empty if valid)
  */
 export function validateRotationPlan(
   rotations: PlannedRotation[],
-  maxPlayersOnField: number
+  maxPlayersOnField: number,
+  goaliePositionId?: string,
+  keeperPlan?: KeeperPlan | null,
+  planContext?: {
+    startingLineup: Array<{ playerId: string; positionId: string }>;
+    totalGameMinutes?: number;
+    positions?: Array<{ id: string; abbreviation?: string | null }>;
+    players?: Array<Pick<SimpleRoster, 'playerId' | 'playerNumber' | 'positionConstraints' | 'availableFromMinute' | 'availableUntilMinute'>>;
+    periodCount?: number;
+    leagueRules?: LeagueRule[];
+  }
 ): string[] {
   const errors: string[] = [];
   
@@ -637,6 +1124,7 @@ export function validateRotationPlan(
   
   // Track field state
   const fieldState = new Set<string>();
+  const substitutionsByRotation: PlannedSubstitution[][] = [];
   
   rotations.forEach((rotation, index) => {
     let subs: PlannedSubstitution[] = [];
@@ -646,6 +1134,7 @@ export function validateRotationPlan(
       errors.push(`Rotation ${rotation.rotationNumber}: Failed to parse substitutions data`);
       return;
     }
+    substitutionsByRotation.push(subs);
 
     // Check for duplicate subs in same rotation
     const playerOutIds = subs.map(s => s.playerOutId);
@@ -667,8 +1156,16 @@ export function validateRotationPlan(
         errors.push(`Rotation ${rotation.rotationNumber}: Player ${sub.playerOutId} not on field`);
       }
       
-      // Apply substitution
-      fieldState.delete(sub.playerOutId);
+      if (
+        goaliePositionId && keeperPlan &&
+        sub.positionId === goaliePositionId &&
+        !keeperPlan.eligibleKeeperIds.includes(sub.playerInId)
+      ) {
+        errors.push(`Rotation ${rotation.rotationNumber}: Player ${sub.playerInId} is not on the keeper list`);
+      }
+
+      // Apply substitution; a player subbed both out and in is only changing position
+      if (!playerInIds.includes(sub.playerOutId)) fieldState.delete(sub.playerOutId);
       fieldState.add(sub.playerInId);
     });
     
@@ -677,6 +1174,38 @@ export function validateRotationPlan(
       errors.push(`Rotation ${rotation.rotationNumber}: Too many players on field (${fieldState.size})`);
     }
   });
+
+  const players = planContext?.players;
+
+  if (planContext && goaliePositionId && keeperPlan && planContext.totalGameMinutes) {
+    const playTime = calculatePlayTime(rotations, planContext.startingLineup, 0, planContext.totalGameMinutes, goaliePositionId);
+    const keeperMinutes = new Map(Array.from(playTime.values()).map(pt => [pt.playerId, pt.keeperMinutes]));
+    const numbers = new Map(players?.map(p => [p.playerId, p.playerNumber]));
+    errors.push(...findUnusedKeepers(
+      keeperPlan,
+      keeperMinutes,
+      id => (numbers.has(id) ? `#${numbers.get(id)}` : `Player ${id}`),
+      players ? new Set(players.map(p => p.playerId)) : undefined,
+    ));
+  }
+
+  if (planContext && players) {
+    const groups = new Map((planContext.positions ?? []).map(p => [p.id, inferPositionGroup(p.abbreviation)]));
+    const counts = countGroupRotations(
+      planContext.startingLineup,
+      substitutionsByRotation,
+      positionId => (positionId === goaliePositionId ? 'GOALKEEPER' : groups.get(positionId) ?? 'UNKNOWN'),
+    );
+    errors.push(...findPositionConstraintViolations(players, counts));
+  }
+
+  if (planContext?.leagueRules && players && planContext.totalGameMinutes) {
+    errors.push(...findPlanLeagueRuleViolations(rotations, planContext.startingLineup, planContext.leagueRules, {
+      totalGameMinutes: planContext.totalGameMinutes,
+      periodCount: planContext.periodCount ?? 2,
+      players,
+    }).map(v => v.message));
+  }
   
   return errors;
 }
@@ -716,6 +1245,7 @@ export async function copyGamePlan(
     totalRotations: sourcePlan.totalRotations,
     startingLineup: sourcePlan.startingLineup,
     halftimeLineup: sourcePlan.halftimeLineup,
+    keeperPlan: sourcePlan.keeperPlan,
     createdAt: new Date().toISOString(),
     updatedAt: new Date().toISOString(),
     coaches,
@@ -745,6 +1275,137 @@ export async function copyGamePlan(
   return newPlan;
 }
 
+function listAllPlayTimeRecords(gameId: string): Promise<PlayTimeRecord[]> {
+  return listAll<PlayTimeRecord>(client.models.PlayTimeRecord, { gameId: { eq: gameId } });
+}
+
+/**
+ * Loads past play time and availability for the team's fairness window and
+ * converts them to catch-up seeds for calculateFairRotations. Only games from
+ * the same season as the game being planned count.
+ * @param teamId - Team ID
+ * @param currentGameId - The game being planned
+ * @param fairnessWindow - Window mode from the team settings
+ * @param windowGames - Number of games for the 'recent' window
+ * @param playerIds - Players available for the game being planned
+ * @param currentSeasonId - Team.currentSeasonId, the season of games with no seasonId
+ * @returns Seed minutes per player, or undefined when the window is 'game'
+ */
+export async function fetchSeasonCatchUpMinutes(
+  teamId: string,
+  currentGameId: string,
+  fairnessWindow: FairnessWindow,
+  windowGames: number,
+  playerIds: string[],
+  currentSeasonId?: string | null
+): Promise<Map<string, number> | undefined> {
+  if (fairnessWindow === 'game') return undefined;
+
+  const games = await listAll<Game>(client.models.Game, { teamId: { eq: teamId } });
+
+  const currentGame = games.find(g => g.id === currentGameId);
+  const seasonGames = currentGame
+    ? filterSeasonGames(games, resolveGameSeasonId(currentGame, currentSeasonId), currentSeasonId)
+    : games;
+  const windowed = selectFairnessGames(seasonGames, currentGameId, fairnessWindow, windowGames);
+
+  const [recordsPerGame, availabilitiesPerGame, rosters] = await Promise.all([
+    Promise.all(windowed.map(g => listAllPlayTimeRecords(g.id))),
+    Promise.all(windowed.map(g => listAll<PlayerAvailability>(client.models.PlayerAvailability, { gameId: { eq: g.id } }))),
+    listAll<TeamRoster>(client.models.TeamRoster, { teamId: { eq: teamId } }),
+  ]);
+  const records = recordsPerGame.flat();
+  const joinedAt = new Map(rosters.map(roster => [roster.playerId, roster.createdAt]));
+  const availableGames = collectAvailableGames(windowed, records, availabilitiesPerGame.flat(), playerIds, joinedAt);
+
+  return calculateSeasonCatchUpMinutes(records, playerIds, availableGames);
+}
+
+async function fetchProjectedMinutes(game: Game, totalGameMinutes: number): Promise<Map<string, number>> {
+  const minutes = new Map<string, number>();
+  const [plan] = await listAll<GamePlan>(client.models.GamePlan, { gameId: { eq: game.id } });
+  if (!plan) return minutes;
+
+  let startingLineup: Array<{ playerId: string; positionId: string }> = [];
+  try {
+    const parsed = JSON.parse((plan.startingLineup as string) ?? '[]') as unknown;
+    if (Array.isArray(parsed)) startingLineup = parsed as typeof startingLineup;
+  } catch {
+    return minutes;
+  }
+
+  const plannedRotations = await listAll<PlannedRotation>(client.models.PlannedRotation, { gamePlanId: { eq: plan.id } });
+  const projected = calculatePlayTime(
+    plannedRotations,
+    startingLineup,
+    plan.rotationIntervalMinutes,
+    totalGameMinutes
+  );
+  projected.forEach((pt, playerId) => minutes.set(playerId, pt.totalMinutes));
+  return minutes;
+}
+
+/**
+ * Adds up minutes per player across tournament games. Games that have
+ * started count their recorded play time; games still to be played count the
+ * minutes their saved plan projects, so coaches planning the whole event in
+ * advance get running totals before a ball is kicked.
+ * @param games - Tournament games to total
+ * @param teamPeriodLengthMinutes - Team default period length (games may override it)
+ * @param periodCount - Periods per game
+ * @returns Map of player ID to total minutes
+ */
+export async function fetchTournamentRunningMinutes(
+  games: Game[],
+  teamPeriodLengthMinutes: number,
+  periodCount: number
+): Promise<Map<string, number>> {
+  const perGame = await Promise.all(games.map(async (game): Promise<Map<string, number>> => {
+    if ((game.status || 'scheduled') === 'scheduled') {
+      const totalGameMinutes = getTotalGameMinutes(game.halfLengthMinutes ?? teamPeriodLengthMinutes, periodCount);
+      return fetchProjectedMinutes(game, totalGameMinutes);
+    }
+
+    const minutes = new Map<string, number>();
+    for (const record of await listAllPlayTimeRecords(game.id)) {
+      if (record.endGameSeconds === null || record.endGameSeconds === undefined) continue;
+      const recorded = Math.max(0, record.endGameSeconds - record.startGameSeconds) / 60;
+      minutes.set(record.playerId, (minutes.get(record.playerId) ?? 0) + recorded);
+    }
+    return minutes;
+  }));
+
+  const totals = new Map<string, number>();
+  for (const minutes of perGame) {
+    minutes.forEach((value, playerId) => totals.set(playerId, (totals.get(playerId) ?? 0) + value));
+  }
+  return totals;
+}
+
+/**
+ * Loads the running totals from the tournament's earlier games and converts
+ * them to catch-up seeds for calculateFairRotations
+ * @param tournamentId - Tournament the game belongs to
+ * @param currentGameId - The game being planned
+ * @param playerIds - Players available for the game being planned
+ * @param teamPeriodLengthMinutes - Team default period length
+ * @param periodCount - Periods per game
+ * @returns Seed minutes per player
+ */
+export async function fetchTournamentCatchUpMinutes(
+  tournamentId: string,
+  currentGameId: string,
+  playerIds: string[],
+  teamPeriodLengthMinutes: number,
+  periodCount: number
+): Promise<Map<string, number>> {
+  const games = await listAll<Game>(client.models.Game, { tournamentId: { eq: tournamentId } });
+
+  const earlier = selectEarlierTournamentGames(games, currentGameId);
+  const runningTotals = await fetchTournamentRunningMinutes(earlier, teamPeriodLengthMinutes, periodCount);
+  return calculateTournamentCatchUpMinutes(runningTotals, playerIds);
+}
+
 /**
  * Updates player availability status
  * @param gameId - Game ID
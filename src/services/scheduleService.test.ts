@@ -0,0 +1,91 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const {
+  mockGameCreate,
+  mockGameUpdate,
+  mockListTeamOpponents,
+  mockFindOrCreateOpponent,
+} = vi.hoisted(() => ({
+  mockGameCreate: vi.fn(),
+  mockGameUpdate: vi.fn(),
+  mockListTeamOpponents: vi.fn(),
+  mockFindOrCreateOpponent: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      Game: { create: mockGameCreate, update: mockGameUpdate },
+    },
+  }),
+}));
+
+vi.mock('./opponentService', () => ({
+  listTeamOpponents: mockListTeamOpponents,
+  findOrCreateOpponent: mockFindOrCreateOpponent,
+}));
+
+import { importSchedule } from './scheduleService';
+
+describe('scheduleService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGameCreate.mockResolvedValue({ data: { id: 'game-new' } });
+    mockGameUpdate.mockResolvedValue({ data: {} });
+    mockListTeamOpponents.mockResolvedValue([]);
+    mockFindOrCreateOpponent.mockImplementation(async (_teamId: string, details: { name: string }) => ({
+      id: `opp-${details.name.toLowerCase()}`,
+      name: details.name,
+    }));
+  });
+
+  describe('importSchedule', () => {
+    it('creates new games in the current season and moves changed kick-offs', async () => {
+      const result = await importSchedule(
+        { id: 'team-1', currentSeasonId: 'season-1' },
+        [
+          { action: 'create', game: { opponent: 'Rapids', isHome: true, gameDate: '2030-06-01T09:00:00.000Z' } },
+          { action: 'create', game: { opponent: 'Owls', isHome: false, gameDate: null } },
+          {
+            action: 'update-time',
+            game: { opponent: 'Comets', isHome: true, gameDate: '2030-06-15T10:00:00.000Z' },
+            existingGame: { id: 'g1', opponent: 'Comets', isHome: true, gameDate: '2030-06-15T09:00:00.000Z', status: 'scheduled' },
+          },
+          { action: 'unchanged', game: { opponent: 'Bears', isHome: true, gameDate: null } },
+        ],
+        ['coach-1'],
+      );
+
+      expect(result).toEqual({ created: 2, updated: 1 });
+      expect(mockFindOrCreateOpponent).toHaveBeenCalledTimes(2);
+      expect(mockGameCreate).toHaveBeenCalledWith({
+        teamId: 'team-1',
+        opponentId: 'opp-rapids',
+        opponent: 'Rapids',
+        isHome: true,
+        gameDate: '2030-06-01T09:00:00.000Z',
+        seasonId: 'season-1',
+        coaches: ['coach-1'],
+      });
+      expect(mockGameCreate.mock.calls[1][0]).not.toHaveProperty('gameDate');
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', gameDate: '2030-06-15T10:00:00.000Z' });
+    });
+
+    it('does not load the opponent directory when nothing is created', async () => {
+      await importSchedule({ id: 'team-1', currentSeasonId: null }, [], ['coach-1']);
+
+      expect(mockListTeamOpponents).not.toHaveBeenCalled();
+      expect(mockGameCreate).not.toHaveBeenCalled();
+    });
+
+    it('throws when a game cannot be created', async () => {
+      mockGameCreate.mockResolvedValue({ data: null });
+
+      await expect(importSchedule(
+        { id: 'team-1' },
+        [{ action: 'create', game: { opponent: 'Rapids', isHome: true, gameDate: null } }],
+        ['coach-1'],
+      )).rejects.toThrow('Failed to create game vs Rapids');
+    });
+  });
+});
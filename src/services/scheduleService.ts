@@ -0,0 +1,63 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { Opponent, Team } from '../types/schema';
+import type { ScheduleImportRow } from '../utils/scheduleCalendarUtils';
+import { listTeamOpponents, findOrCreateOpponent } from './opponentService';
+
+const client = generateClient<Schema>();
+
+export interface ScheduleImportResult {
+  created: number;
+  updated: number;
+}
+
+/**
+ * Applies a reviewed schedule import: creates the new games in the team's
+ * current season and moves the kick-off of games whose time changed.
+ * Rows marked unchanged are skipped.
+ * @param team - Team the schedule belongs to
+ * @param rows - Rows from planScheduleImport, filtered to those the coach kept
+ * @param coaches - Coach authorization, copied onto every new game and opponent
+ * @returns How many games were created and updated
+ */
+export async function importSchedule(
+  team: Pick<Team, 'id' | 'currentSeasonId'>,
+  rows: ScheduleImportRow[],
+  coaches: string[]
+): Promise<ScheduleImportResult> {
+  const toCreate = rows.filter(row => row.action === 'create');
+  const toUpdate = rows.flatMap(row =>
+    row.action === 'update-time' && row.existingGame && row.game.gameDate
+      ? [{ id: row.existingGame.id, gameDate: row.game.gameDate }]
+      : []
+  );
+
+  // Resolved one at a time so a team met twice shares one directory entry
+  const directory = toCreate.length > 0 ? await listTeamOpponents(team.id) : [];
+  const opponents: Opponent[] = [];
+  for (const row of toCreate) {
+    const opponent = await findOrCreateOpponent(team.id, { name: row.game.opponent }, directory, coaches);
+    if (!directory.includes(opponent)) directory.push(opponent);
+    opponents.push(opponent);
+  }
+
+  await Promise.all([
+    ...toCreate.map(async (row, index) => {
+      const result = await client.models.Game.create({
+        teamId: team.id,
+        opponentId: opponents[index].id,
+        opponent: opponents[index].name,
+        isHome: row.game.isHome,
+        ...(row.game.gameDate ? { gameDate: row.game.gameDate } : {}),
+        ...(team.currentSeasonId ? { seasonId: team.currentSeasonId } : {}),
+        coaches,
+      });
+      if (!result.data) {
+        throw new Error(`Failed to create game vs ${row.game.opponent}`);
+      }
+    }),
+    ...toUpdate.map(update => client.models.Game.update(update)),
+  ]);
+
+  return { created: toCreate.length, updated: toUpdate.length };
+}
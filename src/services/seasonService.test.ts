@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Game, Season } from '../types/schema';
+
+const {
+  mockSeasonCreate,
+  mockSeasonUpdate,
+  mockGameUpdate,
+  mockTeamUpdate,
+  mockPracticeUpdate,
+} = vi.hoisted(() => ({
+  mockSeasonCreate: vi.fn(),
+  mockSeasonUpdate: vi.fn(),
+  mockGameUpdate: vi.fn(),
+  mockTeamUpdate: vi.fn(),
+  mockPracticeUpdate: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      Season: { create: mockSeasonCreate, update: mockSeasonUpdate },
+      Game: { update: mockGameUpdate },
+      Team: { update: mockTeamUpdate },
+      PracticeSession: { update: mockPracticeUpdate },
+    },
+  }),
+}));
+
+import { rolloverSeason } from './seasonService';
+
+const game = (overrides: Partial<Game>) => ({ id: 'g', teamId: 'team-1', status: 'completed', ...overrides }) as Game;
+const rosters = [{ playerId: 'p1', playerNumber: 10 }, { playerId: 'p2', playerNumber: 7 }];
+
+describe('seasonService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSeasonCreate.mockImplementation(async (input: { name: string }) => ({
+      data: { id: `season-${input.name.toLowerCase().replace(/\s+/g, '-')}`, ...input },
+    }));
+  });
+
+  describe('rolloverSeason', () => {
+    it('archives the current season with a roster snapshot and starts the next one', async () => {
+      const fall = { id: 'fall', teamId: 'team-1', name: 'Fall 2025', endDate: null } as unknown as Season;
+      const result = await rolloverSeason(
+        { id: 'team-1', coaches: ['coach-1'], currentSeasonId: 'fall' },
+        fall,
+        { name: 'Spring 2026', startDate: '2026-03-01' },
+        [
+          game({ id: 'g1', seasonId: 'fall' }),
+          game({ id: 'g2', seasonId: null }),
+          game({ id: 'g3', seasonId: null, status: 'scheduled' }),
+          game({ id: 'g4', seasonId: 'older' }),
+        ],
+        rosters,
+      );
+
+      expect(result).toEqual(expect.objectContaining({ archivedGames: 2, movedGames: 1 }));
+      expect(result.season.id).toBe('season-spring-2026');
+      expect(mockSeasonCreate).toHaveBeenCalledTimes(1);
+      expect(mockSeasonCreate).toHaveBeenCalledWith({
+        teamId: 'team-1',
+        name: 'Spring 2026',
+        startDate: '2026-03-01',
+        coaches: ['coach-1'],
+      });
+
+      expect(mockGameUpdate).toHaveBeenCalledTimes(2);
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g2', seasonId: 'fall' });
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g3', seasonId: 'season-spring-2026' });
+
+      expect(mockSeasonUpdate).toHaveBeenCalledWith({
+        id: 'fall',
+        archived: true,
+        endDate: '2026-03-01',
+        roster: JSON.stringify(rosters),
+      });
+      expect(mockTeamUpdate).toHaveBeenCalledWith({ id: 'team-1', currentSeasonId: 'season-spring-2026' });
+    });
+
+    it('files a team\'s existing games into a new closing season on the first rollover', async () => {
+      await rolloverSeason(
+        { id: 'team-1', coaches: ['coach-1'], currentSeasonId: null },
+        null,
+        { name: 'Spring 2026' },
+        [game({ id: 'g1' })],
+        rosters,
+        'Fall 2025',
+      );
+
+      expect(mockSeasonCreate).toHaveBeenNthCalledWith(1, expect.objectContaining({ name: 'Fall 2025' }));
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', seasonId: 'season-fall-2025' });
+      expect(mockSeasonUpdate).toHaveBeenCalledWith(expect.objectContaining({ id: 'season-fall-2025', archived: true }));
+    });
+
+    it('keeps held practices with the closing season and moves upcoming ones', async () => {
+      await rolloverSeason(
+        { id: 'team-1', coaches: ['coach-1'], currentSeasonId: null },
+        null,
+        { name: 'Spring 2026' },
+        [],
+        rosters,
+        'Fall 2025',
+        [
+          { id: 'pr1', seasonId: null, practiceDate: '2020-01-01T17:00:00.000Z' },
+          { id: 'pr2', seasonId: null, practiceDate: '2999-01-01T17:00:00.000Z' },
+        ],
+      );
+
+      expect(mockSeasonCreate).toHaveBeenNthCalledWith(1, expect.objectContaining({ name: 'Fall 2025' }));
+      expect(mockPracticeUpdate).toHaveBeenCalledWith({ id: 'pr1', seasonId: 'season-fall-2025' });
+      expect(mockPracticeUpdate).toHaveBeenCalledWith({ id: 'pr2', seasonId: 'season-spring-2026' });
+    });
+
+    it('only creates the new season when the team has no games yet', async () => {
+      await rolloverSeason(
+        { id: 'team-1', coaches: ['coach-1'], currentSeasonId: null },
+        null,
+        { name: 'Spring 2026' },
+        [],
+        rosters,
+      );
+
+      expect(mockSeasonCreate).toHaveBeenCalledTimes(1);
+      expect(mockSeasonUpdate).not.toHaveBeenCalled();
+      expect(mockTeamUpdate).toHaveBeenCalledWith({ id: 'team-1', currentSeasonId: 'season-spring-2026' });
+    });
+
+    it('throws when the new season cannot be created', async () => {
+      mockSeasonCreate.mockResolvedValue({ data: null });
+
+      await expect(rolloverSeason(
+        { id: 'team-1', coaches: [], currentSeasonId: null },
+        null,
+        { name: 'Spring 2026' },
+        [],
+        [],
+      )).rejects.toThrow('Failed to create season Spring 2026');
+      expect(mockTeamUpdate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { Game, PracticeSession, Season, SeasonRosterEntry, Team, TeamRoster } from '../types/schema';
+import { resolveGameSeasonId } from '../utils/seasonUtils';
+
+const client = generateClient<Schema>();
+
+export interface SeasonDetails {
+  name: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+}
+
+export interface SeasonRolloverResult {
+  season: Season;
+  archivedGames: number;
+  movedGames: number;
+}
+
+function todayIsoDate(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+async function createSeason(teamId: string, details: SeasonDetails, coaches: string[]): Promise<Season> {
+  const result = await client.models.Season.create({
+    teamId,
+    name: details.name.trim(),
+    ...(details.startDate ? { startDate: details.startDate } : {}),
+    ...(details.endDate ? { endDate: details.endDate } : {}),
+    coaches,
+  });
+  if (!result.data) {
+    throw new Error(`Failed to create season ${details.name}`);
+  }
+  return result.data;
+}
+
+/**
+ * Closes the team's current season and starts the next one.
+ *
+ * The closing season is archived with a snapshot of today's roster, so its
+ * report still lists the players (and numbers) it had. Completed games stay
+ * with the closing season and leave the Games list; games not yet played move
+ * to the new season. Practices follow the same rule: those already held stay,
+ * upcoming ones move. The roster itself carries forward unchanged.
+ *
+ * @param team - Team rolling over
+ * @param currentSeason - The season being closed; null when the team has none yet
+ * @param next - Name and dates of the new season
+ * @param games - All games for the team
+ * @param rosters - The team's current roster
+ * @param closingName - Name for the closing season when the team has none yet
+ * @param practices - All practice sessions for the team
+ * @returns The new season and how many games were archived or moved
+ */
+export async function rolloverSeason(
+  team: Pick<Team, 'id' | 'coaches' | 'currentSeasonId'>,
+  currentSeason: Season | null,
+  next: SeasonDetails,
+  games: Game[],
+  rosters: Array<Pick<TeamRoster, 'playerId' | 'playerNumber'>>,
+  closingName = 'Earlier games',
+  practices: Array<Pick<PracticeSession, 'id' | 'seasonId' | 'practiceDate'>> = []
+): Promise<SeasonRolloverResult> {
+  const coaches = (team.coaches ?? []).filter((c): c is string => !!c);
+  const closingGames = games.filter(g => resolveGameSeasonId(g, team.currentSeasonId) === (currentSeason?.id ?? null));
+  const closingPractices = practices.filter(p => resolveGameSeasonId(p, team.currentSeasonId) === (currentSeason?.id ?? null));
+  const now = Date.now();
+  const heldPractices = closingPractices.filter(p => new Date(p.practiceDate).getTime() <= now);
+
+  // A team without seasons only needs a closing season if it has games or practices to file away
+  const closing = currentSeason
+    ?? (closingGames.length > 0 || heldPractices.length > 0
+      ? await createSeason(team.id, { name: closingName }, coaches)
+      : null);
+
+  const season = await createSeason(team.id, next, coaches);
+
+  let archivedGames = 0;
+  let movedGames = 0;
+  await Promise.all(closingGames.map(async (game) => {
+    if (game.status === 'completed') {
+      if (!closing) return;
+      archivedGames++;
+      if (game.seasonId !== closing.id) {
+        await client.models.Game.update({ id: game.id, seasonId: closing.id });
+      }
+    } else {
+      movedGames++;
+      await client.models.Game.update({ id: game.id, seasonId: season.id });
+    }
+  }));
+
+  await Promise.all(closingPractices.map(async (practice) => {
+    const held = new Date(practice.practiceDate).getTime() <= now;
+    const seasonId = held ? closing?.id : season.id;
+    if (seasonId && practice.seasonId !== seasonId) {
+      await client.models.PracticeSession.update({ id: practice.id, seasonId });
+    }
+  }));
+
+  if (closing) {
+    const snapshot: SeasonRosterEntry[] = rosters.map(r => ({ playerId: r.playerId, playerNumber: r.playerNumber }));
+    await client.models.Season.update({
+      id: closing.id,
+      archived: true,
+      endDate: closing.endDate ?? next.startDate ?? todayIsoDate(),
+      roster: JSON.stringify(snapshot),
+    });
+  }
+
+  await client.models.Team.update({ id: team.id, currentSeasonId: season.id });
+
+  return { season, archivedGames, movedGames };
+}
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+const {
+  mockTournamentCreate,
+  mockTournamentUpdate,
+  mockTournamentDelete,
+  mockGameCreate,
+  mockGameUpdate,
+  mockUpdatePlayerAvailability,
+  mockListTeamOpponents,
+  mockFindOrCreateOpponent,
+} = vi.hoisted(() => ({
+  mockTournamentCreate: vi.fn(),
+  mockTournamentUpdate: vi.fn(),
+  mockTournamentDelete: vi.fn(),
+  mockGameCreate: vi.fn(),
+  mockGameUpdate: vi.fn(),
+  mockUpdatePlayerAvailability: vi.fn(),
+  mockListTeamOpponents: vi.fn(),
+  mockFindOrCreateOpponent: vi.fn(),
+}));
+
+vi.mock('aws-amplify/data', () => ({
+  generateClient: () => ({
+    models: {
+      Tournament: { create: mockTournamentCreate, update: mockTournamentUpdate, delete: mockTournamentDelete },
+      Game: { create: mockGameCreate, update: mockGameUpdate },
+    },
+  }),
+}));
+
+vi.mock('./rotationPlannerService', () => ({
+  updatePlayerAvailability: mockUpdatePlayerAvailability,
+}));
+
+vi.mock('./opponentService', () => ({
+  listTeamOpponents: mockListTeamOpponents,
+  findOrCreateOpponent: mockFindOrCreateOpponent,
+}));
+
+import { createTournament, saveTournamentAvailability, deleteTournament } from './tournamentService';
+
+describe('tournamentService', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockTournamentCreate.mockResolvedValue({ data: { id: 'tournament-1' } });
+    mockGameCreate.mockResolvedValue({ data: { id: 'game-new' } });
+    mockUpdatePlayerAvailability.mockResolvedValue(undefined);
+    mockListTeamOpponents.mockResolvedValue([]);
+    mockFindOrCreateOpponent.mockImplementation(async (_teamId: string, details: { name: string }) => ({
+      id: `opp-${details.name.trim().toLowerCase()}`,
+      name: details.name.trim(),
+    }));
+  });
+
+  describe('createTournament', () => {
+    it('creates the tournament and links every game to it', async () => {
+      const tournament = await createTournament(
+        'team-1',
+        { name: ' Fall Cup ', startDate: '2025-10-04', format: 'pool' },
+        [
+          { opponent: 'Eagles', isHome: true, gameDate: '2025-10-04T09:00:00.000Z', tournamentStage: 'Pool A' },
+          { opponent: 'Hawks', isHome: false, tournamentStage: '' },
+        ],
+        ['coach-1'],
+      );
+
+      expect(tournament.id).toBe('tournament-1');
+      expect(mockTournamentCreate).toHaveBeenCalledWith({
+        teamId: 'team-1',
+        name: 'Fall Cup',
+        startDate: '2025-10-04',
+        format: 'pool',
+        coaches: ['coach-1'],
+      });
+      expect(mockGameCreate).toHaveBeenCalledTimes(2);
+      expect(mockGameCreate).toHaveBeenCalledWith(expect.objectContaining({
+        tournamentId: 'tournament-1',
+        opponentId: 'opp-eagles',
+        opponent: 'Eagles',
+        tournamentStage: 'Pool A',
+        coaches: ['coach-1'],
+      }));
+      expect(mockGameCreate.mock.calls[1][0]).not.toHaveProperty('tournamentStage');
+    });
+
+    it('resolves each game against the team\'s opponent directory in order', async () => {
+      const directory = [{ id: 'opp-1', name: 'Rapids' }];
+      mockListTeamOpponents.mockResolvedValue(directory);
+
+      await createTournament(
+        'team-1',
+        { name: 'Cup', format: 'bracket' },
+        [
+          { opponent: 'Hawks', isHome: true },
+          { opponent: 'hawks u11', isHome: false },
+        ],
+        ['coach-1'],
+      );
+
+      expect(mockListTeamOpponents).toHaveBeenCalledWith('team-1');
+      expect(mockFindOrCreateOpponent).toHaveBeenNthCalledWith(1, 'team-1', { name: 'Hawks' }, directory, ['coach-1']);
+      expect(mockFindOrCreateOpponent).toHaveBeenNthCalledWith(2, 'team-1', { name: 'hawks u11' }, directory, ['coach-1']);
+    });
+
+    it('throws when the tournament cannot be created', async () => {
+      mockTournamentCreate.mockResolvedValue({ data: null });
+
+      await expect(createTournament('team-1', { name: 'Cup', format: 'bracket' }, [], ['coach-1']))
+        .rejects.toThrow('Failed to create tournament');
+      expect(mockGameCreate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('saveTournamentAvailability', () => {
+    it('stores the list and applies it only to games that have not started', async () => {
+      const applied = await saveTournamentAvailability(
+        { id: 'tournament-1', coaches: ['coach-1'] },
+        [{ playerId: 'p1', status: 'absent' }, { playerId: 'p2', status: 'available' }],
+        [{ id: 'g1', status: 'completed' }, { id: 'g2', status: 'scheduled' }, { id: 'g3', status: null }],
+      );
+
+      expect(applied).toBe(2);
+      expect(mockTournamentUpdate).toHaveBeenCalledWith({
+        id: 'tournament-1',
+        availability: JSON.stringify([{ playerId: 'p1', status: 'absent' }, { playerId: 'p2', status: 'available' }]),
+      });
+      expect(mockUpdatePlayerAvailability).toHaveBeenCalledTimes(4);
+      expect(mockUpdatePlayerAvailability).toHaveBeenCalledWith('g2', 'p1', 'absent', undefined, ['coach-1']);
+      expect(mockUpdatePlayerAvailability).not.toHaveBeenCalledWith('g1', expect.anything(), expect.anything(), undefined, ['coach-1']);
+    });
+  });
+
+  describe('deleteTournament', () => {
+    it('detaches the games before deleting the tournament', async () => {
+      await deleteTournament('tournament-1', [{ id: 'g1' }]);
+
+      expect(mockGameUpdate).toHaveBeenCalledWith({ id: 'g1', tournamentId: null, tournamentStage: null });
+      expect(mockTournamentDelete).toHaveBeenCalledWith({ id: 'tournament-1' });
+    });
+  });
+});
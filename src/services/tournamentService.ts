@@ -0,0 +1,122 @@
+import { generateClient } from 'aws-amplify/data';
+import type { Schema } from '../../amplify/data/resource';
+import type { Game, Opponent, Tournament, TournamentAvailabilityEntry, TournamentFormat } from '../types/schema';
+import { updatePlayerAvailability } from './rotationPlannerService';
+import { listTeamOpponents, findOrCreateOpponent } from './opponentService';
+
+const client = generateClient<Schema>();
+
+export interface TournamentDetails {
+  name: string;
+  startDate?: string; // YYYY-MM-DD
+  endDate?: string; // YYYY-MM-DD
+  location?: string;
+  format: TournamentFormat;
+}
+
+export interface TournamentGameDetails {
+  opponent: string;
+  gameDate?: string; // ISO timestamp
+  isHome: boolean;
+  tournamentStage?: string;
+}
+
+/**
+ * Creates a tournament and all of its games in one go
+ * @param teamId - Team playing the tournament
+ * @param details - Tournament name, dates, location and format
+ * @param games - Games to schedule inside the tournament
+ * @param coaches - Coach authorization, copied onto the tournament and every game
+ * @returns The created tournament
+ */
+export async function createTournament(
+  teamId: string,
+  details: TournamentDetails,
+  games: TournamentGameDetails[],
+  coaches: string[]
+): Promise<Tournament> {
+  const tournamentResult = await client.models.Tournament.create({
+    teamId,
+    name: details.name.trim(),
+    ...(details.startDate ? { startDate: details.startDate } : {}),
+    ...(details.endDate ? { endDate: details.endDate } : {}),
+    ...(details.location?.trim() ? { location: details.location.trim() } : {}),
+    format: details.format,
+    coaches,
+  });
+
+  const tournament = tournamentResult.data;
+  if (!tournament) {
+    throw new Error('Failed to create tournament');
+  }
+
+  // Resolved one at a time so a team met twice shares one directory entry
+  const directory = await listTeamOpponents(teamId);
+  const opponents: Opponent[] = [];
+  for (const game of games) {
+    const opponent = await findOrCreateOpponent(teamId, { name: game.opponent }, directory, coaches);
+    if (!directory.includes(opponent)) directory.push(opponent);
+    opponents.push(opponent);
+  }
+
+  await Promise.all(games.map(async (game, index) => {
+    const result = await client.models.Game.create({
+      teamId,
+      tournamentId: tournament.id,
+      opponentId: opponents[index].id,
+      opponent: opponents[index].name,
+      isHome: game.isHome,
+      ...(game.gameDate ? { gameDate: game.gameDate } : {}),
+      ...(game.tournamentStage?.trim() ? { tournamentStage: game.tournamentStage.trim() } : {}),
+      coaches,
+    });
+    if (!result.data) {
+      throw new Error(`Failed to create game vs ${game.opponent}`);
+    }
+  }));
+
+  return tournament;
+}
+
+/**
+ * Saves the event-wide availability list and copies it onto every tournament
+ * game that has not started, so the planner and game day screens see it
+ * @param tournament - Tournament being updated
+ * @param entries - Availability for every player on the roster
+ * @param games - The tournament's games
+ * @returns Number of games the list was applied to
+ */
+export async function saveTournamentAvailability(
+  tournament: Pick<Tournament, 'id' | 'coaches'>,
+  entries: TournamentAvailabilityEntry[],
+  games: Array<Pick<Game, 'id' | 'status'>>
+): Promise<number> {
+  await client.models.Tournament.update({
+    id: tournament.id,
+    availability: JSON.stringify(entries),
+  });
+
+  const unplayed = games.filter(g => (g.status || 'scheduled') === 'scheduled');
+  const coaches = (tournament.coaches ?? []).filter((c): c is string => !!c);
+  for (const game of unplayed) {
+    await Promise.all(entries.map(entry =>
+      updatePlayerAvailability(game.id, entry.playerId, entry.status, undefined, coaches)
+    ));
+  }
+  return unplayed.length;
+}
+
+/**
+ * Deletes a tournament. Its games are kept as ordinary games.
+ * @param tournamentId - Tournament to delete
+ * @param games - The tournament's games, detached before the delete
+ */
+export async function deleteTournament(
+  tournamentId: string,
+  games: Array<Pick<Game, 'id'>>
+): Promise<void> {
+  await Promise.all(games.map(game =>
+    client.models.Game.update({ id: game.id, tournamentId: null, tournamentStage: null })
+  ));
+  await client.models.Tournament.delete({ id: tournamentId });
+}
@@ -0,0 +1,96 @@
+/**
+ * Service Worker
+ *
+ * Precaches the app shell so the app opens offline, and drains the offline
+ * queue through Background Sync so writes made at the field reach the server
+ * even after the coach closes the app.
+ */
+import {
+  cleanupOutdatedCaches,
+  createHandlerBoundToURL,
+  precacheAndRoute,
+  type PrecacheEntry,
+} from 'workbox-precaching';
+import { NavigationRoute, registerRoute } from 'workbox-routing';
+import { NetworkFirst } from 'workbox-strategies';
+import { ExpirationPlugin } from 'workbox-expiration';
+import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { Amplify } from 'aws-amplify';
+import outputs from '../amplify_outputs.json';
+import {
+  BACKGROUND_SYNC_MESSAGE,
+  OFFLINE_SYNC_TAG,
+  backgroundSyncCredentialsProvider,
+  backgroundSyncTokenProvider,
+  runBackgroundSync,
+  type BackgroundSyncMessage,
+} from './services/backgroundSyncService';
+
+// The project compiles against the DOM lib, so the worker globals used here are declared locally
+interface WorkerExtendableEvent extends Event {
+  waitUntil(promise: Promise<unknown>): void;
+}
+
+interface WorkerSyncEvent extends WorkerExtendableEvent {
+  readonly tag: string;
+}
+
+interface WorkerScope {
+  __WB_MANIFEST: Array<PrecacheEntry | string>;
+  registration: ServiceWorkerRegistration;
+  clients: {
+    matchAll(options: { type: 'window'; includeUncontrolled: boolean }): Promise<Array<{ postMessage(message: unknown): void }>>;
+  };
+  skipWaiting(): Promise<void>;
+  addEventListener(type: 'sync' | 'periodicsync', listener: (event: WorkerSyncEvent) => void): void;
+  addEventListener(type: 'message', listener: (event: MessageEvent) => void): void;
+}
+
+declare const self: WorkerScope;
+
+cleanupOutdatedCaches();
+precacheAndRoute(self.__WB_MANIFEST);
+
+// Client-side routes all open the app shell
+registerRoute(new NavigationRoute(createHandlerBoundToURL('index.html'), {
+  allowlist: [/^\/(?!api\/).*/],
+}));
+
+registerRoute(
+  /^https:\/\/.*\.execute-api\..*\.amazonaws\.com\/.*/i,
+  new NetworkFirst({
+    cacheName: 'amplify-api-cache',
+    plugins: [
+      new ExpirationPlugin({ maxEntries: 50, maxAgeSeconds: 60 * 60 * 24 }),
+      new CacheableResponsePlugin({ statuses: [0, 200] }),
+    ],
+  })
+);
+
+// UpdatePrompt asks the waiting worker to take over when the coach accepts an update
+self.addEventListener('message', event => {
+  if ((event.data as { type?: string } | null)?.type === 'SKIP_WAITING') void self.skipWaiting();
+});
+
+// The worker has no Amplify session of its own; it uses the token the page handed over
+Amplify.configure(outputs, {
+  Auth: {
+    tokenProvider: backgroundSyncTokenProvider,
+    credentialsProvider: backgroundSyncCredentialsProvider,
+  },
+});
+
+async function syncOfflineQueue(): Promise<void> {
+  const report = await runBackgroundSync(self.registration);
+  if (!report) return;
+  const message: BackgroundSyncMessage = { type: BACKGROUND_SYNC_MESSAGE, report };
+  const clients = await self.clients.matchAll({ type: 'window', includeUncontrolled: true });
+  clients.forEach(client => client.postMessage(message));
+}
+
+// Periodic sync is the fallback for browsers that give up on a one-off sync
+for (const type of ['sync', 'periodicsync'] as const) {
+  self.addEventListener(type, event => {
+    if (event.tag === OFFLINE_SYNC_TAG) event.waitUntil(syncOfflineQueue());
+  });
+}
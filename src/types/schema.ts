@@ -3,13 +3,21 @@ import type { Schema } from "../../amplify/data/resource";
 // Data model types derived from Amplify schema
 export type Team = Schema["Team"]["type"];
 export type Game = Schema["Game"]["type"];
+export type Tournament = Schema["Tournament"]["type"];
+export type Opponent = Schema["Opponent"]["type"];
+export type Season = Schema["Season"]["type"];
+export type PracticeSession = Schema["PracticeSession"]["type"];
+export type PracticeAttendance = Schema["PracticeAttendance"]["type"];
 export type Player = Schema["Player"]["type"];
 export type TeamRoster = Schema["TeamRoster"]["type"];
 export type Formation = Schema["Formation"]["type"];
 export type FormationPosition = Schema["FormationPosition"]["type"];
 export type LineupAssignment = Schema["LineupAssignment"]["type"];
 export type PlayTimeRecord = Schema["PlayTimeRecord"]["type"];
+export type Substitution = Schema["Substitution"]["type"];
 export type Goal = Schema["Goal"]["type"];
+export type ShootoutKick = Schema["ShootoutKick"]["type"];
+export type GameEvent = Schema["GameEvent"]["type"];
 export type GameNote = Schema["GameNote"]["type"];
 export type GamePlan = Schema["GamePlan"]["type"];
 export type PlannedRotation = Schema["PlannedRotation"]["type"];
@@ -19,6 +27,7 @@ export type PlayerAvailability = Schema["PlayerAvailability"]["type"];
 export interface PlayerWithRoster extends Player {
   playerNumber?: number;
   preferredPositions?: string;
+  positionConstraints?: PositionConstraint[];
 }
 
 export interface PlannedSubstitution {
@@ -26,3 +35,72 @@ export interface PlannedSubstitution {
   playerInId: string;
   positionId: string;
 }
+
+export type TournamentFormat = 'pool' | 'bracket';
+
+/** One entry of the event-wide availability list stored as JSON on Tournament.availability */
+export interface TournamentAvailabilityEntry {
+  playerId: string;
+  status: 'available' | 'absent' | 'injured' | 'late-arrival';
+}
+
+/** One player in the roster snapshot stored as JSON on Season.roster */
+export interface SeasonRosterEntry {
+  playerId: string;
+  playerNumber: number;
+}
+
+/** Stored in GameEvent.eventType */
+export type GameEventType =
+  | 'shot-on-target'
+  | 'shot-off-target'
+  | 'save'
+  | 'corner'
+  | 'free-kick'
+  | 'offside'
+  | 'foul';
+
+/** Which details a shared game recap includes, stored as JSON on Team.recapSettings */
+export interface RecapSettings {
+  includeScorers: boolean;
+  includeAssists: boolean;
+  includeGoalMinutes: boolean;
+  includeGoldStars: boolean;
+  includeCards: boolean;
+  privacyMode: boolean; // first names only and no cards, whatever includeCards says
+}
+
+export type PositionConstraintGroup = 'GOALKEEPER' | 'DEFENDER' | 'MIDFIELDER' | 'STRIKER';
+export type PositionConstraintRule = 'never' | 'min' | 'max';
+
+/** Hard rotation rule for one player, stored as JSON on TeamRoster.positionConstraints */
+export interface PositionConstraint {
+  group: PositionConstraintGroup;
+  rule: PositionConstraintRule;
+  rotations?: number; // only used by 'min' and 'max'
+}
+
+export type LeagueRuleType = 'min-play' | 'bench-periods' | 'break-subs';
+
+/** One league playing-time rule, part of the profile stored on Team.leagueRules */
+export interface LeagueRule {
+  type: LeagueRuleType;
+  value?: number; // percent of the game for 'min-play', periods in a row for 'bench-periods'
+}
+
+export type LeagueRulePreset = 'none' | 'min-play' | 'rec-league' | 'stoppage-subs' | 'custom';
+
+/** League rule profile stored as JSON on Team.leagueRules; presets carry their own rules */
+export interface LeagueRuleProfile {
+  preset: LeagueRulePreset;
+  rules: LeagueRule[];
+}
+
+export type KeeperSchedule = 'half' | 'quarter' | 'minutes';
+
+/** Goalkeeper rotation plan stored as JSON on GamePlan.keeperPlan */
+export interface KeeperPlan {
+  eligibleKeeperIds: string[];
+  schedule: KeeperSchedule;
+  intervalMinutes?: number; // only used when schedule is 'minutes'
+}
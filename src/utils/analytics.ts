@@ -29,6 +29,7 @@ export const AnalyticsEvents = {
   PLAYER_ADDED: { category: 'Player', action: 'Add Player' },
   PLAYER_ADDED_TO_ROSTER: { category: 'Player', action: 'Add Player to Roster' },
   PLAYER_DELETED: { category: 'Player', action: 'Delete Player' },
+  ROSTER_IMPORTED: { category: 'Player', action: 'Import Roster' },
 
   // Formation
   FORMATION_CREATED: { category: 'Formation', action: 'Create Formation' },
@@ -44,12 +45,26 @@ export const AnalyticsEvents = {
   GAME_DELETED: { category: 'Game', action: 'Delete Game' },
   GAME_OPENED: { category: 'Game', action: 'Open Game' },
 
+  // Tournaments
+  TOURNAMENT_CREATED: { category: 'Tournament', action: 'Create Tournament' },
+  TOURNAMENT_AVAILABILITY_SAVED: { category: 'Tournament', action: 'Save Availability' },
+
+  // Schedule
+  SCHEDULE_EXPORTED: { category: 'Schedule', action: 'Export Calendar' },
+  SCHEDULE_IMPORTED: { category: 'Schedule', action: 'Import Schedule' },
+
+  // Practices
+  PRACTICE_CREATED: { category: 'Practice', action: 'Create Practice' },
+  PRACTICE_DELETED: { category: 'Practice', action: 'Delete Practice' },
+  PRACTICE_ATTENDANCE_MARKED: { category: 'Practice', action: 'Mark Attendance' },
+
   // In-game actions
   SUBSTITUTION_MADE: { category: 'GameDay', action: 'Substitution Made' },
   ALL_SUBSTITUTIONS_EXECUTED: { category: 'GameDay', action: 'All Substitutions Executed' },
   ROTATION_RECALCULATED: { category: 'GameDay', action: 'Rotation Recalculated' },
   ROTATION_WIDGET_OPENED: { category: 'GameDay', action: 'Rotation Widget Opened' },
   GOAL_RECORDED: { category: 'GameDay', action: 'Goal Recorded' },
+  GAME_EVENT_RECORDED: { category: 'GameDay', action: 'Game Event Recorded' },
   PLAYER_MARKED_INJURED: { category: 'GameDay', action: 'Player Marked Injured' },
   PLAYER_RECOVERED_FROM_INJURY: { category: 'GameDay', action: 'Player Recovered From Injury' },
 
@@ -63,11 +78,15 @@ export const AnalyticsEvents = {
 
   // Reports
   SEASON_REPORT_VIEWED: { category: 'Report', action: 'View Season Report' },
+  OPPONENTS_MATCHED: { category: 'Report', action: 'Match Opponents' },
+  SEASON_ROLLED_OVER: { category: 'Report', action: 'Start New Season' },
+  SEASON_REPORT_EXPORTED: { category: 'Report', action: 'Export Season Report' },
 
   // Sharing
   INVITATION_SENT: { category: 'Sharing', action: 'Send Invitation' },
   INVITATION_ACCEPTED: { category: 'Sharing', action: 'Accept Invitation' },
   INVITATION_DECLINED: { category: 'Sharing', action: 'Decline Invitation' },
+  GAME_RECAP_SHARED: { category: 'Sharing', action: 'Share Game Recap' },
 
   // Help
   HELP_OPENED: { category: 'Help', action: 'Open Help' },
@@ -0,0 +1,41 @@
+import { describe, it, expect } from 'vitest';
+import { parseCsv, findCsvColumn, detectCsvDelimiter } from './csvUtils';
+
+describe('parseCsv', () => {
+  it('splits rows and cells, honouring quotes', () => {
+    expect(parseCsv('\uFEFFDate,Opponent\r\n2030-06-01,"Rapids, U11"\n\n2030-06-08,"The ""Owls"""\n')).toEqual([
+      ['Date', 'Opponent'],
+      ['2030-06-01', 'Rapids, U11'],
+      ['2030-06-08', 'The "Owls"'],
+    ]);
+  });
+
+  it('keeps line breaks inside quoted cells and a last row without a newline', () => {
+    expect(parseCsv('a,"line 1\nline 2"\nb,c')).toEqual([
+      ['a', 'line 1\nline 2'],
+      ['b', 'c'],
+    ]);
+  });
+
+  it('splits on tabs for pasted spreadsheet cells', () => {
+    expect(parseCsv('Name\tNumber\nAva Smith, Jr\t7', '\t')).toEqual([
+      ['Name', 'Number'],
+      ['Ava Smith, Jr', '7'],
+    ]);
+  });
+});
+
+describe('detectCsvDelimiter', () => {
+  it('picks tabs only when the header line has them', () => {
+    expect(detectCsvDelimiter('Name\tNumber\nAva\t7')).toBe('\t');
+    expect(detectCsvDelimiter('Name,Number\n"Ava\tB",7')).toBe(',');
+  });
+});
+
+describe('findCsvColumn', () => {
+  it('matches headers loosely', () => {
+    expect(findCsvColumn(['Game Date', 'Home/Away', 'Opponent'], ['homeaway', 'h/a'])).toBe(1);
+    expect(findCsvColumn(['Game Date'], ['date', 'game date'])).toBe(0);
+    expect(findCsvColumn(['Field'], ['opponent'])).toBe(-1);
+  });
+});
@@ -0,0 +1,67 @@
+/**
+ * Parses CSV text into rows of cells (RFC 4180: quoted fields, doubled
+ * quotes, commas and line breaks inside quotes). Blank lines are dropped and
+ * a leading byte-order mark is ignored, so spreadsheet exports parse as-is.
+ * Pass a tab delimiter for TSV, e.g. cells pasted from a spreadsheet.
+ */
+export function parseCsv(text: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  const input = text.replace(/^\uFEFF/, '');
+
+  const endRow = () => {
+    row.push(field);
+    if (row.some(cell => cell.trim() !== '')) rows.push(row);
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) endRow();
+
+  return rows;
+}
+
+/**
+ * Finds the column whose header matches one of the given names,
+ * ignoring case, spaces and punctuation
+ * @returns Column index, or -1 when no header matches
+ */
+export function findCsvColumn(headers: string[], names: string[]): number {
+  const simplify = (value: string) => value.toLowerCase().replace(/[^a-z0-9]/g, '');
+  const wanted = new Set(names.map(simplify));
+  return headers.findIndex(header => wanted.has(simplify(header)));
+}
+
+/**
+ * Guesses the delimiter of pasted or uploaded table text: tabs when the
+ * header line has any (spreadsheet copy/paste), otherwise commas
+ */
+export function detectCsvDelimiter(text: string): ',' | '\t' {
+  const firstLine = text.replace(/^\uFEFF/, '').split(/\r?\n/, 1)[0] ?? '';
+  return firstLine.includes('\t') ? '\t' : ',';
+}
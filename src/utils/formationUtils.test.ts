@@ -1,5 +1,6 @@
 import { describe, it, expect } from 'vitest';
 import {
+  inferPositionGroup,
   computeFormationPositionDiff,
   scrubDeletedPositionPreferences,
   type ExistingFormationPosition,
@@ -17,6 +18,23 @@ function newPos(positionName: string, abbreviation: string): NewPositionFormData
   return { positionName, abbreviation };
 }
 
+// ---------------------------------------------------------------------------
+// inferPositionGroup
+// ---------------------------------------------------------------------------
+describe('inferPositionGroup', () => {
+  it('maps common abbreviations to their line, ignoring case and spaces', () => {
+    expect(inferPositionGroup('GK')).toBe('GOALKEEPER');
+    expect(inferPositionGroup(' cb ')).toBe('DEFENDER');
+    expect(inferPositionGroup('CAM')).toBe('MIDFIELDER');
+    expect(inferPositionGroup('rw')).toBe('STRIKER');
+  });
+
+  it('returns UNKNOWN for missing or unrecognized abbreviations', () => {
+    expect(inferPositionGroup(null)).toBe('UNKNOWN');
+    expect(inferPositionGroup('SW')).toBe('UNKNOWN');
+  });
+});
+
 // ---------------------------------------------------------------------------
 // computeFormationPositionDiff
 // ---------------------------------------------------------------------------
@@ -1,11 +1,28 @@
 /**
- * Formation Update Utilities
+ * Formation Utilities
  *
- * Pure helpers for computing in-place formation position diffs.
+ * Pure helpers for formation positions: inferring a position's line and
+ * computing in-place formation position diffs.
  * Using in-place updates (rather than delete + recreate) preserves
  * FormationPosition IDs, which are referenced by TeamRoster.preferredPositions.
  */
 
+export type PositionGroup = 'GOALKEEPER' | 'STRIKER' | 'MIDFIELDER' | 'DEFENDER' | 'UNKNOWN';
+
+/**
+ * Infers a position's line from its abbreviation (e.g. "CB" → DEFENDER).
+ * Used by the rotation planner and the lineup combination report.
+ */
+export function inferPositionGroup(abbreviation?: string | null): PositionGroup {
+  if (!abbreviation) return 'UNKNOWN';
+  const upper = abbreviation.toUpperCase().trim();
+  if (['GK', 'G', 'GOL', 'GOAL'].includes(upper)) return 'GOALKEEPER';
+  if (['FW', 'FWD', 'ST', 'S', 'CF', 'LW', 'RW', 'W', 'WF'].includes(upper)) return 'STRIKER';
+  if (['MF', 'MID', 'CM', 'RM', 'LM', 'AM', 'DM', 'CAM', 'CDM'].includes(upper)) return 'MIDFIELDER';
+  if (['DF', 'DEF', 'CB', 'LB', 'RB', 'LWB', 'RWB'].includes(upper)) return 'DEFENDER';
+  return 'UNKNOWN';
+}
+
 export interface ExistingFormationPosition {
   id: string;
   positionName: string;
@@ -6,6 +6,9 @@ import {
   calculatePlayerYellowCards,
   calculatePlayerRedCards,
   calculateRecord,
+  calculateShootoutScore,
+  formatShootoutResult,
+  getResultLabel,
   togglePreferredPosition,
 } from './gameCalculations';
 import type { Goal, GameNote } from '../types/schema';
@@ -140,6 +143,49 @@ describe('calculateRecord', () => {
   it('should return all zeros for empty array', () => {
     expect(calculateRecord([])).toEqual({ wins: 0, losses: 0, ties: 0 });
   });
+
+  it('should decide level games by the penalty shootout', () => {
+    const games = [
+      { status: 'completed', ourScore: 1, opponentScore: 1, shootoutOurScore: 4, shootoutOpponentScore: 3 },
+      { status: 'completed', ourScore: 0, opponentScore: 0, shootoutOurScore: 2, shootoutOpponentScore: 3 },
+      { status: 'completed', ourScore: 2, opponentScore: 2, shootoutOurScore: null, shootoutOpponentScore: null },
+    ];
+    expect(calculateRecord(games)).toEqual({ wins: 1, losses: 1, ties: 1 });
+  });
+});
+
+describe('Penalty shootouts', () => {
+  const kicks = [
+    { scoredByUs: true, scored: true, takerId: 'player-1' },
+    { scoredByUs: false, scored: true, takerId: null },
+    { scoredByUs: true, scored: false, takerId: 'player-2' },
+    { scoredByUs: false, scored: false, takerId: null },
+    { scoredByUs: true, scored: true, takerId: 'player-3' },
+  ];
+
+  it('should tally scored kicks for each side', () => {
+    expect(calculateShootoutScore(kicks)).toEqual({ ourScore: 2, opponentScore: 1 });
+  });
+
+  it('should format the shootout result only for games it decided', () => {
+    expect(formatShootoutResult({ ourScore: 1, opponentScore: 1, shootoutOurScore: 4, shootoutOpponentScore: 3 })).toBe('4–3 pens');
+    expect(formatShootoutResult({ ourScore: 2, opponentScore: 1, shootoutOurScore: null, shootoutOpponentScore: null })).toBeNull();
+  });
+});
+
+describe('getResultLabel', () => {
+  const game = { status: 'completed', ourScore: 0, opponentScore: 0 };
+
+  it('should label completed games and decide level games by the shootout', () => {
+    expect(getResultLabel({ ...game, ourScore: 2, opponentScore: 1 })).toBe('W');
+    expect(getResultLabel({ ...game, ourScore: 0, opponentScore: 1 })).toBe('L');
+    expect(getResultLabel({ ...game, ourScore: 1, opponentScore: 1 })).toBe('T');
+    expect(getResultLabel({ ...game, ourScore: 1, opponentScore: 1, shootoutOurScore: 3, shootoutOpponentScore: 4 })).toBe('L');
+  });
+
+  it('should return null for games that have not finished', () => {
+    expect(getResultLabel({ ...game, status: 'in-progress' })).toBeNull();
+  });
 });
 
 describe('togglePreferredPosition', () => {
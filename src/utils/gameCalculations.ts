@@ -1,4 +1,4 @@
-import type { Goal, GameNote, Game } from "../types/schema";
+import type { Goal, GameNote, Game, ShootoutKick } from "../types/schema";
 
 /**
  * Calculates total goals scored by a player
@@ -35,18 +35,72 @@ export function calculatePlayerRedCards(playerId: string, notes: GameNote[]): nu
   return notes.filter(n => n.playerId === playerId && n.noteType === 'red-card').length;
 }
 
+/**
+ * Calculates the penalty shootout tally from its kicks.
+ * Shootout kicks are never goals, so they do not count towards player goal totals.
+ */
+export function calculateShootoutScore(kicks: Pick<ShootoutKick, 'scoredByUs' | 'scored'>[]): { ourScore: number; opponentScore: number } {
+  return {
+    ourScore: kicks.filter(k => k.scoredByUs && k.scored).length,
+    opponentScore: kicks.filter(k => !k.scoredByUs && k.scored).length,
+  };
+}
+
+export type GameResultFields = Partial<Pick<Game, 'ourScore' | 'opponentScore' | 'shootoutOurScore' | 'shootoutOpponentScore'>>;
+
+/**
+ * Returns true when a level game was decided by a penalty shootout
+ */
+export function wasDecidedByShootout(game: GameResultFields): boolean {
+  return (game.ourScore ?? 0) === (game.opponentScore ?? 0) &&
+    game.shootoutOurScore != null &&
+    game.shootoutOpponentScore != null &&
+    game.shootoutOurScore !== game.shootoutOpponentScore;
+}
+
+/**
+ * Formats the shootout result of a game, e.g. "4–3 pens", or null when there was none
+ */
+export function formatShootoutResult(game: GameResultFields): string | null {
+  if (!wasDecidedByShootout(game)) return null;
+  return `${game.shootoutOurScore}–${game.shootoutOpponentScore} pens`;
+}
+
+/**
+ * Returns 1 for a win, -1 for a loss and 0 for a tie, with level games decided
+ * by the shootout
+ */
+function compareResult(game: GameResultFields): number {
+  if (wasDecidedByShootout(game)) {
+    return Math.sign((game.shootoutOurScore ?? 0) - (game.shootoutOpponentScore ?? 0));
+  }
+  return Math.sign((game.ourScore ?? 0) - (game.opponentScore ?? 0));
+}
+
 /**
  * Calculates win/loss/tie record from completed games.
+ * A level game won or lost on penalties counts as a win or loss.
  */
-export function calculateRecord(games: Pick<Game, 'status' | 'ourScore' | 'opponentScore'>[]): { wins: number; losses: number; ties: number } {
-  const completed = games.filter(g => g.status === 'completed');
+export function calculateRecord(games: Array<Pick<Game, 'status'> & GameResultFields>): { wins: number; losses: number; ties: number } {
+  const results = games.filter(g => g.status === 'completed').map(compareResult);
   return {
-    wins: completed.filter(g => (g.ourScore ?? 0) > (g.opponentScore ?? 0)).length,
-    losses: completed.filter(g => (g.ourScore ?? 0) < (g.opponentScore ?? 0)).length,
-    ties: completed.filter(g => (g.ourScore ?? 0) === (g.opponentScore ?? 0)).length,
+    wins: results.filter(r => r > 0).length,
+    losses: results.filter(r => r < 0).length,
+    ties: results.filter(r => r === 0).length,
   };
 }
 
+/**
+ * Returns 'W', 'L' or 'T' for a completed game, or null when it has not finished
+ */
+export function getResultLabel(game: Pick<Game, 'status'> & GameResultFields): 'W' | 'L' | 'T' | null {
+  if (game.status !== 'completed') return null;
+  const { wins, losses } = calculateRecord([game]);
+  if (wins > 0) return 'W';
+  if (losses > 0) return 'L';
+  return 'T';
+}
+
 /**
  * Toggles a position ID in a comma-separated preferredPositions string.
  * Returns the updated string, or undefined if empty.
@@ -0,0 +1,103 @@
+import { describe, it, expect } from 'vitest';
+import {
+  calculateGameEventTotals,
+  calculatePlayerShots,
+  calculateKeeperSaves,
+  findKeeperInGoal,
+} from './gameEventUtils';
+
+const event = (eventType: string, forUs: boolean, playerId: string | null = null, gameSeconds = 100, gameId = 'game-1') => ({
+  gameId, eventType, forUs, playerId, gameSeconds,
+});
+
+const goal = (gameSeconds: number, scoredByUs: boolean, scorerId: string | null = null, gameId = 'game-1') => ({
+  gameId, gameSeconds, scoredByUs, scorerId,
+});
+
+const record = (playerId: string, positionId: string, start: number, end: number | null, gameId = 'game-1') => ({
+  gameId, playerId, positionId, startGameSeconds: start, endGameSeconds: end,
+});
+
+const positions = new Map([
+  ['gk', { abbreviation: 'GK' }],
+  ['st', { abbreviation: 'ST' }],
+]);
+
+describe('calculateGameEventTotals', () => {
+  it('counts events per side and adds goals to shots on target', () => {
+    const totals = calculateGameEventTotals(
+      [
+        event('shot-on-target', true),
+        event('shot-off-target', true),
+        event('shot-off-target', false),
+        event('save', true),
+        event('corner', true),
+        event('corner', false),
+        event('free-kick', false),
+        event('offside', true),
+        event('foul', false),
+        event('foul', false),
+      ],
+      [goal(300, true), goal(500, false)],
+    );
+
+    expect(totals.us).toEqual({
+      goals: 1, shots: 3, shotsOnTarget: 2, saves: 1, corners: 1, freeKicks: 0, offsides: 1, fouls: 0,
+    });
+    expect(totals.them).toEqual({
+      goals: 1, shots: 2, shotsOnTarget: 1, saves: 0, corners: 1, freeKicks: 1, offsides: 0, fouls: 2,
+    });
+  });
+});
+
+describe('calculatePlayerShots', () => {
+  it('counts the player\'s attempts and goals', () => {
+    const stats = calculatePlayerShots(
+      'sam',
+      [event('shot-on-target', true, 'sam'), event('shot-off-target', true, 'sam'), event('shot-on-target', true, 'ana')],
+      [goal(300, true, 'sam'), goal(400, false)],
+    );
+
+    expect(stats).toEqual({ shots: 3, shotsOnTarget: 2 });
+  });
+});
+
+describe('findKeeperInGoal', () => {
+  it('finds whoever held the goalkeeper position at that second', () => {
+    const records = [record('kim', 'gk', 0, 600), record('lee', 'gk', 600, null), record('sam', 'st', 0, 1200)];
+
+    expect(findKeeperInGoal('game-1', 600, records, positions)).toBe('kim');
+    expect(findKeeperInGoal('game-1', 601, records, positions)).toBe('lee');
+    expect(findKeeperInGoal('game-2', 300, records, positions)).toBeNull();
+  });
+});
+
+describe('calculateKeeperSaves', () => {
+  const records = [record('kim', 'gk', 0, 600), record('lee', 'gk', 600, 1200), record('kim', 'st', 600, 1200)];
+
+  it('credits untagged saves to the keeper in goal and counts goals conceded in goal', () => {
+    const events = [
+      event('save', true, null, 200),
+      event('save', true, null, 300),
+      event('save', true, 'kim', 900),
+      event('save', true, null, 900),
+      event('save', false, null, 400),
+    ];
+    const goals = [goal(500, false), goal(1000, false), goal(700, true)];
+
+    expect(calculateKeeperSaves('kim', events, goals, records, positions)).toEqual({
+      saves: 3,
+      goalsAgainst: 1,
+      savePercentage: 75,
+    });
+    expect(calculateKeeperSaves('lee', events, goals, records, positions)).toEqual({
+      saves: 1,
+      goalsAgainst: 1,
+      savePercentage: 50,
+    });
+  });
+
+  it('has no save percentage when the keeper faced nothing', () => {
+    expect(calculateKeeperSaves('kim', [], [], records, positions).savePercentage).toBeNull();
+  });
+});
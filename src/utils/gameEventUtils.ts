@@ -0,0 +1,202 @@
+/**
+ * Game Event Utilities
+ *
+ * Counts the one-tap match events (shots, saves, corners, free kicks,
+ * offsides, fouls) recorded as GameEvent rows. Goals are always counted as
+ * shots on target, so coaches only tap "Shot" for attempts that did not go in.
+ * Saves without a player are credited to whoever was in goal at the time,
+ * using the same (start, end] stint rule as plus/minus.
+ */
+
+import type { GameEvent, GameEventType, Goal, PlayTimeRecord } from "../types/schema";
+import { inferPositionGroup } from "./formationUtils";
+
+export const GAME_EVENT_LABELS: Record<GameEventType, string> = {
+  'shot-on-target': 'Shot on target',
+  'shot-off-target': 'Shot off target',
+  save: 'Save',
+  corner: 'Corner',
+  'free-kick': 'Free kick',
+  offside: 'Offside',
+  foul: 'Foul',
+};
+
+export const GAME_EVENT_ICONS: Record<GameEventType, string> = {
+  'shot-on-target': '🎯',
+  'shot-off-target': '💨',
+  save: '🧤',
+  corner: '🚩',
+  'free-kick': '🦶',
+  offside: '⛳',
+  foul: '⚠️',
+};
+
+/** Button order in the live event bar */
+export const GAME_EVENT_TYPES = Object.keys(GAME_EVENT_LABELS) as GameEventType[];
+
+type EventFields = Pick<GameEvent, 'gameId' | 'eventType' | 'forUs' | 'playerId' | 'gameSeconds'>;
+type GoalFields = Pick<Goal, 'gameId' | 'gameSeconds' | 'scoredByUs' | 'scorerId'>;
+type RecordFields = Pick<PlayTimeRecord, 'gameId' | 'playerId' | 'positionId' | 'startGameSeconds' | 'endGameSeconds'>;
+type PositionLookup = Map<string, { abbreviation?: string | null }>;
+
+export interface SideEventTotals {
+  goals: number;
+  /** Every attempt: on target, off target and goals */
+  shots: number;
+  /** Shots on target, goals included */
+  shotsOnTarget: number;
+  saves: number;
+  corners: number;
+  freeKicks: number;
+  offsides: number;
+  fouls: number;
+}
+
+export interface GameEventTotals {
+  us: SideEventTotals;
+  them: SideEventTotals;
+}
+
+export interface PlayerShotStats {
+  shots: number;
+  shotsOnTarget: number;
+}
+
+export interface KeeperSaveStats {
+  saves: number;
+  /** Goals conceded while the player was in goal */
+  goalsAgainst: number;
+  /** Saves as a share of shots on target faced (0-100); null when none were faced */
+  savePercentage: number | null;
+}
+
+const emptySide = (): SideEventTotals => ({
+  goals: 0, shots: 0, shotsOnTarget: 0, saves: 0, corners: 0, freeKicks: 0, offsides: 0, fouls: 0,
+});
+
+/**
+ * Add up events and goals for both teams
+ *
+ * @param events - GameEvents to count (one game or many)
+ * @param goals - Goals for the same games
+ */
+export function calculateGameEventTotals(events: EventFields[], goals: GoalFields[]): GameEventTotals {
+  const totals: GameEventTotals = { us: emptySide(), them: emptySide() };
+
+  events.forEach(event => {
+    const side = event.forUs ? totals.us : totals.them;
+    switch (event.eventType as GameEventType) {
+      case 'shot-on-target':
+        side.shots++;
+        side.shotsOnTarget++;
+        break;
+      case 'shot-off-target':
+        side.shots++;
+        break;
+      case 'save':
+        side.saves++;
+        break;
+      case 'corner':
+        side.corners++;
+        break;
+      case 'free-kick':
+        side.freeKicks++;
+        break;
+      case 'offside':
+        side.offsides++;
+        break;
+      case 'foul':
+        side.fouls++;
+        break;
+    }
+  });
+
+  goals.forEach(goal => {
+    const side = goal.scoredByUs ? totals.us : totals.them;
+    side.goals++;
+    side.shots++;
+    side.shotsOnTarget++;
+  });
+
+  return totals;
+}
+
+/**
+ * Count a player's shots, goals included
+ *
+ * @param playerId - The player's ID
+ * @param events - GameEvents to search (any games)
+ * @param goals - Goals for the same games
+ */
+export function calculatePlayerShots(playerId: string, events: EventFields[], goals: GoalFields[]): PlayerShotStats {
+  const onTarget = events.filter(e => e.forUs && e.playerId === playerId && e.eventType === 'shot-on-target').length;
+  const offTarget = events.filter(e => e.forUs && e.playerId === playerId && e.eventType === 'shot-off-target').length;
+  const scored = goals.filter(g => g.scoredByUs && g.scorerId === playerId).length;
+
+  return {
+    shots: onTarget + offTarget + scored,
+    shotsOnTarget: onTarget + scored,
+  };
+}
+
+const isKeeperRecord = (record: RecordFields, positions: PositionLookup) =>
+  !!record.positionId && inferPositionGroup(positions.get(record.positionId)?.abbreviation) === 'GOALKEEPER';
+
+const coversSecond = (record: RecordFields, gameId: string, gameSeconds: number) =>
+  record.gameId === gameId &&
+  record.startGameSeconds < gameSeconds &&
+  (record.endGameSeconds === null || record.endGameSeconds === undefined || gameSeconds <= record.endGameSeconds);
+
+/**
+ * Find our goalkeeper at a moment in a game
+ *
+ * @returns The keeper's player ID, or null when nobody was in a goalkeeper position
+ */
+export function findKeeperInGoal(
+  gameId: string,
+  gameSeconds: number,
+  playTimeRecords: RecordFields[],
+  positions: PositionLookup
+): string | null {
+  const record = playTimeRecords.find(r => isKeeperRecord(r, positions) && coversSecond(r, gameId, gameSeconds));
+  return record?.playerId ?? null;
+}
+
+/**
+ * Calculate a goalkeeper's saves and save percentage
+ *
+ * Saves tagged with another player are skipped; untagged saves go to the
+ * keeper in goal at the time. Goals against only count while the player was
+ * in a goalkeeper position.
+ *
+ * @param playerId - The keeper's player ID
+ * @param events - GameEvents to search (any games)
+ * @param goals - Goals for the same games
+ * @param playTimeRecords - PlayTimeRecords for the same games
+ * @param positions - Map of position IDs to positions (abbreviation identifies the goalkeeper)
+ */
+export function calculateKeeperSaves(
+  playerId: string,
+  events: EventFields[],
+  goals: GoalFields[],
+  playTimeRecords: RecordFields[],
+  positions: PositionLookup
+): KeeperSaveStats {
+  const saves = events.filter(e =>
+    e.forUs &&
+    e.eventType === 'save' &&
+    (e.playerId ?? findKeeperInGoal(e.gameId, e.gameSeconds, playTimeRecords, positions)) === playerId
+  ).length;
+
+  const keeperRecords = playTimeRecords.filter(r => r.playerId === playerId && isKeeperRecord(r, positions));
+  const goalsAgainst = goals.filter(g =>
+    !g.scoredByUs && keeperRecords.some(r => coversSecond(r, g.gameId, g.gameSeconds))
+  ).length;
+
+  const faced = saves + goalsAgainst;
+  return {
+    saves,
+    goalsAgainst,
+    savePercentage: faced > 0 ? Math.round((saves / faced) * 100) : null,
+  };
+}
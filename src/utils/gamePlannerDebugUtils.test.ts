@@ -20,7 +20,7 @@ describe('buildDebugSnapshot', () => {
   it('includes rotation interval, half length, max players, and available count', () => {
     const result = buildDebugSnapshot(baseCtx);
     expect(result).toContain('Rotation interval: 10 min');
-    expect(result).toContain('Half length: 30 min');
+    expect(result).toContain('Period length: 30 min');
     expect(result).toContain('Max players on field: 7');
     expect(result).toContain('Available players: 9');
   });
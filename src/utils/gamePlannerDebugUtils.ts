@@ -8,7 +8,7 @@ export function buildDebugSnapshot(ctx: GamePlannerDebugContext): string {
   const lines = [
     '--- Game Planner Debug Snapshot ---',
     `Rotation interval: ${ctx.rotationIntervalMinutes} min`,
-    `Half length: ${ctx.halfLengthMinutes} min`,
+    `Period length: ${ctx.halfLengthMinutes} min`,
     `Max players on field: ${ctx.maxPlayersOnField}`,
     `Available players: ${ctx.availablePlayerCount}`,
     '',
@@ -1,5 +1,14 @@
 import type { PlannedRotation } from "../types/schema";
 import type { PlannedSubstitution } from "../services/rotationPlannerService";
+import { logError } from "./errorHandler";
+import {
+  formatPeriodLabel,
+  getBreakRotationNumber,
+  getHalftimeAfterPeriod,
+  getRotationGameMinute,
+  getRotationsPerPeriod,
+  getTotalRotations,
+} from "./periodUtils";
 
 export type RotationSelection = number | 'starting' | 'halftime';
 
@@ -10,16 +19,20 @@ export interface RotationTimelineItem {
   substitutionsCount: number;
   rotation?: PlannedRotation;
   gameMinute?: number;
-  variant: 'starting' | 'rotation' | 'halftime';
+  variant: 'starting' | 'rotation' | 'break' | 'halftime';
 }
 
-function parsePlannedSubstitutions(
+export function parsePlannedSubstitutions(
   plannedSubstitutions: PlannedRotation['plannedSubstitutions'],
+  errorContext?: string,
 ): PlannedSubstitution[] {
   try {
     const parsed = JSON.parse((plannedSubstitutions as string) ?? '[]') as unknown;
     return Array.isArray(parsed) ? parsed as PlannedSubstitution[] : [];
-  } catch {
+  } catch (error) {
+    if (errorContext) {
+      logError(errorContext, error);
+    }
     return [];
   }
 }
@@ -28,27 +41,23 @@ function getRotationSubstitutionsCount(rotation: Pick<PlannedRotation, 'plannedS
   return parsePlannedSubstitutions(rotation.plannedSubstitutions).length;
 }
 
-function getRotationsPerHalf(halfLengthMinutes: number, intervalMinutes: number): number {
-  return Math.max(0, Math.floor(halfLengthMinutes / intervalMinutes) - 1);
-}
-
-function getRotationMinute(
-  rotationNumber: number,
-  rotationsPerHalf: number,
-  halfLengthMinutes: number,
-  rotationIntervalMinutes: number,
-): number {
-  if (rotationNumber <= rotationsPerHalf) {
-    return rotationNumber * rotationIntervalMinutes;
+/**
+ * Timeline labels for the break rotations other than halftime, keyed by
+ * rotation number (e.g. 'Q2' for the break that starts the second quarter)
+ */
+export function getBreakRotationLabels(rotationsPerPeriod: number, periodCount: number): Map<number, string> {
+  const labels = new Map<number, string>();
+  for (let period = 1; period < periodCount; period++) {
+    if (period === getHalftimeAfterPeriod(periodCount)) continue;
+    labels.set(getBreakRotationNumber(period, rotationsPerPeriod), formatPeriodLabel(period + 1, periodCount, 'short'));
   }
-
-  const secondHalfIndex = rotationNumber - rotationsPerHalf - 1;
-  return halfLengthMinutes + (secondHalfIndex * rotationIntervalMinutes);
+  return labels;
 }
 
 export function buildRotationTimelineItems(
   rotations: PlannedRotation[],
   halftimeRotationNumber?: number,
+  breakRotationLabels: Map<number, string> = new Map(),
 ): RotationTimelineItem[] {
   const items: RotationTimelineItem[] = [
     {
@@ -71,10 +80,12 @@ export function buildRotationTimelineItems(
     return items;
   }
 
+  const seenHalftime = new Set<string>();
   for (const rotation of rotations) {
     const isHalftime = rotation.rotationNumber === halftimeRotationNumber;
     if (isHalftime) {
       const halftimeKey = rotation.id ? `halftime-${rotation.id}` : `halftime-${rotation.rotationNumber}-${rotation.gameMinute}`;
+      seenHalftime.add(halftimeKey);
       items.push({
         key: halftimeKey,
         label: 'HT',
@@ -86,16 +97,17 @@ export function buildRotationTimelineItems(
       continue;
     }
 
+    const breakLabel = breakRotationLabels.get(rotation.rotationNumber);
     items.push({
       key: rotation.id
         ? `rotation-${rotation.rotationNumber}-${rotation.id}`
         : `rotation-${rotation.rotationNumber}-${rotation.gameMinute}`,
-      label: `R${rotation.rotationNumber}`,
+      label: breakLabel ?? `R${rotation.rotationNumber}`,
       selection: rotation.rotationNumber,
       substitutionsCount: getRotationSubstitutionsCount(rotation),
       rotation,
       gameMinute: rotation.gameMinute,
-      variant: 'rotation',
+      variant: breakLabel ? 'break' : 'rotation',
     });
   }
 
@@ -115,10 +127,12 @@ export function buildRotationTimelineItems(
 export function buildPrePlanTimelineItems(
   halfLengthMinutes: number,
   rotationIntervalMinutes: number,
+  periodCount = 2,
 ): RotationTimelineItem[] {
-  const rotationsPerHalf = getRotationsPerHalf(halfLengthMinutes, rotationIntervalMinutes);
-  const halftimeRotationNumber = rotationsPerHalf > 0 ? rotationsPerHalf + 1 : 1;
-  const totalRotations = rotationsPerHalf * 2 + 1;
+  const rotationsPerHalf = getRotationsPerPeriod(halfLengthMinutes, rotationIntervalMinutes);
+  const halftimeRotationNumber = getBreakRotationNumber(getHalftimeAfterPeriod(periodCount), rotationsPerHalf);
+  const totalRotations = getTotalRotations(rotationsPerHalf, periodCount);
+  const breakRotationLabels = getBreakRotationLabels(rotationsPerHalf, periodCount);
 
   const items: RotationTimelineItem[] = [
     {
@@ -131,7 +145,7 @@ export function buildPrePlanTimelineItems(
   ];
 
   for (let rotationNumber = 1; rotationNumber <= totalRotations; rotationNumber++) {
-    const gameMinute = getRotationMinute(
+    const gameMinute = getRotationGameMinute(
       rotationNumber,
       rotationsPerHalf,
       halfLengthMinutes,
@@ -150,26 +164,27 @@ export function buildPrePlanTimelineItems(
       continue;
     }
 
+    const breakLabel = breakRotationLabels.get(rotationNumber);
     items.push({
       key: `rotation-${rotationNumber}-${gameMinute}-synthetic`,
-      label: `R${rotationNumber}`,
+      label: breakLabel ?? `R${rotationNumber}`,
       selection: rotationNumber,
       substitutionsCount: 0,
       gameMinute,
-      variant: 'rotation',
+      variant: breakLabel ? 'break' : 'rotation',
     });
   }
 
   return items;
 }
 
-function getSelectionKey(item: RotationTimelineItem): string {
+export function getSelectionKey(item: RotationTimelineItem): string {
   if (item.selection === 'starting') return 'starting';
   if (item.selection === 'halftime') return 'halftime';
   return `rotation-${item.selection}`;
 }
 
-function getSemanticSelectionKey(selectionKey: string): string | null {
+export function getSemanticSelectionKey(selectionKey: string): string | null {
   if (selectionKey === 'starting') return 'starting';
   if (selectionKey === 'halftime' || selectionKey.startsWith('halftime-')) return 'halftime';
 
@@ -185,7 +200,7 @@ function getSemanticSelectionKey(selectionKey: string): string | null {
   return null;
 }
 
-function findTimelineItemBySemanticKey(
+export function findTimelineItemBySemanticKey(
   timelineItems: RotationTimelineItem[],
   semanticSelectionKey: string,
 ): RotationTimelineItem | undefined {
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest';
+import { buildGameRecap, parseRecapSettings, DEFAULT_RECAP_SETTINGS } from './gameRecapUtils';
+
+const players = [
+  { id: 'p1', firstName: 'Alice', lastName: 'Smith' },
+  { id: 'p2', firstName: 'Bea', lastName: 'Jones' },
+  { id: 'p3', firstName: 'Cam', lastName: null },
+];
+
+const goal = (gameSeconds: number, half: number, scoredByUs: boolean, scorerId: string | null = null, assistId: string | null = null) => ({
+  gameSeconds, half, scoredByUs, scorerId, assistId,
+});
+
+const input = {
+  game: { opponent: 'Eagles', isHome: true, status: 'completed', ourScore: 3, opponentScore: 1 },
+  teamName: 'Hawks',
+  players,
+  goals: [
+    goal(2400, 2, true, 'p1', 'p2'),
+    goal(720, 1, true, 'p1', 'p2'),
+    goal(900, 1, false),
+    goal(3000, 2, true, null, 'p3'),
+  ],
+  notes: [
+    { noteType: 'gold-star', playerId: 'p2' },
+    { noteType: 'gold-star', playerId: 'p2' },
+    { noteType: 'yellow-card', playerId: 'p1' },
+    { noteType: 'coaching-point', playerId: null },
+  ],
+  clock: { periodLengthSeconds: 1800, addedTime: [120] },
+};
+
+const allOn = {
+  includeScorers: true,
+  includeAssists: true,
+  includeGoalMinutes: true,
+  includeGoldStars: true,
+  includeCards: true,
+  privacyMode: false,
+};
+
+describe('buildGameRecap', () => {
+  it('lists scorers with minutes, assists, gold stars and cards', () => {
+    const recap = buildGameRecap(input, allOn);
+
+    expect(recap.title).toBe('Hawks 3–1 Eagles');
+    expect(recap.text).toBe([
+      '⚽ Hawks 3–1 Eagles',
+      'Win · Home',
+      "Goals: Alice Smith 12', 38', Unassigned 48'",
+      'Assists: Bea Jones (2), Cam',
+      'Gold stars: Bea Jones',
+      'Cards: 🟨 Alice Smith',
+    ].join('\n'));
+  });
+
+  it('uses first names only and drops cards in privacy mode', () => {
+    const recap = buildGameRecap(input, { ...allOn, privacyMode: true });
+
+    expect(recap.text).toContain("Goals: Alice 12', 38'");
+    expect(recap.text).not.toContain('Smith');
+    expect(recap.text).not.toContain('Cards');
+  });
+
+  it('leaves out the sections the team turned off', () => {
+    const recap = buildGameRecap(input, {
+      ...allOn,
+      includeGoalMinutes: false,
+      includeAssists: false,
+      includeGoldStars: false,
+      includeCards: false,
+    });
+
+    expect(recap.text.split('\n').slice(2)).toEqual(['Goals: Alice Smith (2), Unassigned']);
+  });
+
+  it('mentions a shootout and escapes names in the HTML', () => {
+    const recap = buildGameRecap({
+      ...input,
+      game: { ...input.game, opponent: 'Eagles <U10>', ourScore: 1, opponentScore: 1, shootoutOurScore: 4, shootoutOpponentScore: 3 },
+      goals: [],
+    }, allOn);
+
+    expect(recap.text).toContain('Win · 4–3 pens · Home');
+    expect(recap.html).toContain('<h2>Hawks 1–1 Eagles &lt;U10&gt;</h2>');
+    expect(recap.html).toContain('<li><strong>Gold stars:</strong> Bea Jones</li>');
+  });
+});
+
+describe('parseRecapSettings', () => {
+  it('fills in defaults for missing or malformed settings', () => {
+    expect(parseRecapSettings(null)).toEqual(DEFAULT_RECAP_SETTINGS);
+    expect(parseRecapSettings('not json')).toEqual(DEFAULT_RECAP_SETTINGS);
+    expect(parseRecapSettings('{"includeCards":true,"privacyMode":"yes"}')).toEqual({
+      ...DEFAULT_RECAP_SETTINGS,
+      includeCards: true,
+    });
+  });
+});
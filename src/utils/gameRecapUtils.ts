@@ -0,0 +1,180 @@
+/**
+ * Game Recap Utilities
+ *
+ * Builds the short result message coaches paste into team group chats: the
+ * score, who scored and assisted, gold stars and (optionally) cards. Privacy
+ * mode uses first names only and leaves cards out, for chats that include
+ * people outside the team.
+ */
+
+import type { Game, GameNote, Goal, Player, RecapSettings } from "../types/schema";
+import { formatShootoutResult, getResultLabel } from "./gameCalculations";
+import { formatGameMinute, type GameClock } from "./gameTimeUtils";
+import { escapeHtml } from "./reportExportUtils";
+
+export const DEFAULT_RECAP_SETTINGS: RecapSettings = {
+  includeScorers: true,
+  includeAssists: true,
+  includeGoalMinutes: true,
+  includeGoldStars: true,
+  includeCards: false,
+  privacyMode: true,
+};
+
+export const RECAP_SETTING_LABELS: Record<Exclude<keyof RecapSettings, 'privacyMode'>, string> = {
+  includeScorers: 'Scorers',
+  includeAssists: 'Assists',
+  includeGoalMinutes: 'Goal minutes',
+  includeGoldStars: 'Gold stars',
+  includeCards: 'Cards',
+};
+
+type RecapGame = Pick<Game, 'opponent' | 'isHome' | 'status' | 'ourScore' | 'opponentScore' | 'shootoutOurScore' | 'shootoutOpponentScore'>;
+type RecapPlayer = Pick<Player, 'id' | 'firstName' | 'lastName'>;
+type RecapGoal = Pick<Goal, 'scoredByUs' | 'scorerId' | 'assistId' | 'gameSeconds' | 'half'>;
+type RecapNote = Pick<GameNote, 'noteType' | 'playerId'>;
+
+export interface GameRecapInput {
+  game: RecapGame;
+  teamName: string;
+  players: RecapPlayer[];
+  goals: RecapGoal[];
+  notes: RecapNote[];
+  /** Period length and added time, to show goal minutes like "30+2'" */
+  clock?: GameClock;
+}
+
+export interface GameRecap {
+  title: string;
+  text: string;
+  html: string;
+}
+
+interface RecapLine {
+  label: string;
+  value: string;
+}
+
+const RESULT_WORDS = { W: 'Win', L: 'Loss', T: 'Draw' } as const;
+
+/**
+ * Parses the JSON recap settings stored on a Team, filling in defaults for
+ * anything missing
+ * @param raw - Team.recapSettings value (JSON string or object)
+ */
+export function parseRecapSettings(raw: unknown): RecapSettings {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return DEFAULT_RECAP_SETTINGS;
+    }
+  }
+  if (!value || typeof value !== 'object') return DEFAULT_RECAP_SETTINGS;
+
+  const candidate = value as Partial<Record<keyof RecapSettings, unknown>>;
+  const settings = { ...DEFAULT_RECAP_SETTINGS };
+  (Object.keys(settings) as Array<keyof RecapSettings>).forEach(key => {
+    if (typeof candidate[key] === 'boolean') settings[key] = candidate[key] as boolean;
+  });
+  return settings;
+}
+
+/**
+ * Groups player IDs in first-seen order with how often each appeared
+ */
+function countInOrder(ids: string[]): Array<[string, number]> {
+  const counts = new Map<string, number>();
+  ids.forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1));
+  return [...counts.entries()];
+}
+
+/**
+ * Builds the plain-text and HTML recap of a completed game
+ */
+export function buildGameRecap(input: GameRecapInput, settings: RecapSettings): GameRecap {
+  const { game, teamName, players, goals, notes, clock } = input;
+  const playerById = new Map(players.map(p => [p.id, p]));
+
+  const nameOf = (playerId: string) => {
+    const player = playerById.get(playerId);
+    if (!player) return 'Unknown player';
+    return settings.privacyMode || !player.lastName
+      ? player.firstName
+      : `${player.firstName} ${player.lastName}`;
+  };
+
+  const ourScore = game.ourScore ?? 0;
+  const opponentScore = game.opponentScore ?? 0;
+  const result = getResultLabel(game);
+  const shootout = formatShootoutResult(game);
+  const title = `${teamName} ${ourScore}–${opponentScore} ${game.opponent}`;
+  const subtitle = [
+    result ? RESULT_WORDS[result] : null,
+    shootout,
+    game.isHome ? 'Home' : 'Away',
+  ].filter(Boolean).join(' · ');
+
+  const lines: RecapLine[] = [];
+  const ourGoals = goals
+    .filter(g => g.scoredByUs)
+    .sort((a, b) => a.gameSeconds - b.gameSeconds);
+
+  if (settings.includeScorers && ourGoals.length > 0) {
+    const minutesByScorer = new Map<string, string[]>();
+    ourGoals.forEach(goal => {
+      const key = goal.scorerId ?? '';
+      const minutes = minutesByScorer.get(key) ?? [];
+      minutes.push(formatGameMinute(goal.gameSeconds, goal.half, clock));
+      minutesByScorer.set(key, minutes);
+    });
+    const value = [...minutesByScorer.entries()]
+      .map(([scorerId, minutes]) => {
+        const name = scorerId ? nameOf(scorerId) : 'Unassigned';
+        if (settings.includeGoalMinutes) return `${name} ${minutes.join(', ')}`;
+        return minutes.length > 1 ? `${name} (${minutes.length})` : name;
+      })
+      .join(', ');
+    lines.push({ label: 'Goals', value });
+  }
+
+  const assists = countInOrder(ourGoals.flatMap(g => (g.assistId ? [g.assistId] : [])));
+  if (settings.includeAssists && assists.length > 0) {
+    lines.push({
+      label: 'Assists',
+      value: assists.map(([id, count]) => (count > 1 ? `${nameOf(id)} (${count})` : nameOf(id))).join(', '),
+    });
+  }
+
+  const goldStars = countInOrder(notes.flatMap(n => (n.noteType === 'gold-star' && n.playerId ? [n.playerId] : [])));
+  if (settings.includeGoldStars && goldStars.length > 0) {
+    lines.push({ label: 'Gold stars', value: goldStars.map(([id]) => nameOf(id)).join(', ') });
+  }
+
+  if (settings.includeCards && !settings.privacyMode) {
+    const cards = notes.flatMap(n => {
+      if (!n.playerId) return [];
+      if (n.noteType === 'yellow-card') return [`🟨 ${nameOf(n.playerId)}`];
+      if (n.noteType === 'red-card') return [`🟥 ${nameOf(n.playerId)}`];
+      return [];
+    });
+    if (cards.length > 0) lines.push({ label: 'Cards', value: cards.join(', ') });
+  }
+
+  const text = [
+    `⚽ ${title}`,
+    subtitle,
+    ...lines.map(line => `${line.label}: ${line.value}`),
+  ].join('\n');
+
+  const html = [
+    `<h2>${escapeHtml(title)}</h2>`,
+    `<p>${escapeHtml(subtitle)}</p>`,
+    ...(lines.length > 0
+      ? [`<ul>${lines.map(line => `<li><strong>${escapeHtml(line.label)}:</strong> ${escapeHtml(line.value)}</li>`).join('')}</ul>`]
+      : []),
+  ].join('\n');
+
+  return { title, text, html };
+}
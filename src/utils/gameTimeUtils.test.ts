@@ -1,5 +1,14 @@
 import { describe, it, expect } from 'vitest';
-import { formatGameTimeDisplay, formatMinutesSeconds, isoToDatetimeLocal } from './gameTimeUtils';
+import {
+  formatGameMinute,
+  formatGameTimeDisplay,
+  formatMinutesSeconds,
+  getAddedTimeInPeriod,
+  getPeriodEndSeconds,
+  isoToDatetimeLocal,
+  recordAddedTime,
+  toNominalSeconds,
+} from './gameTimeUtils';
 
 describe('formatGameTimeDisplay', () => {
   it('should format time for 1st half', () => {
@@ -30,6 +39,52 @@ describe('formatGameTimeDisplay', () => {
     expect(formatGameTimeDisplay(5400, 2)).toBe("90' (2nd Half)");
     expect(formatGameTimeDisplay(6000, 2)).toBe("100' (2nd Half)");
   });
+
+  it('should label quarters and custom periods', () => {
+    expect(formatGameTimeDisplay(1500, 3, 4)).toBe("25' (3rd Quarter)");
+    expect(formatGameTimeDisplay(600, 1, 3)).toBe("10' (1st Period)");
+  });
+
+  it('should show added time past the end of the period', () => {
+    const clock = { periodLengthSeconds: 1800 };
+    expect(formatGameTimeDisplay(1790, 1, 2, clock)).toBe("29' (1st Half)");
+    expect(formatGameTimeDisplay(1800, 1, 2, clock)).toBe("30' (1st Half)");
+    expect(formatGameTimeDisplay(1920, 1, 2, clock)).toBe("30+2' (1st Half)");
+    expect(formatGameTimeDisplay(3700, 2, 2, clock)).toBe("60+2' (2nd Half)");
+  });
+});
+
+describe('added time', () => {
+  // 30-min halves; the first half ran 2:30 over
+  const addedTime = [150];
+  const clock = { periodLengthSeconds: 1800, addedTime };
+
+  it('shifts later periods back onto the nominal clock', () => {
+    expect(toNominalSeconds(1950, 2, addedTime)).toBe(1800);
+    expect(toNominalSeconds(1950, 1, addedTime)).toBe(1950);
+    expect(formatGameMinute(1950, 1, clock)).toBe("30+3'");
+    expect(formatGameMinute(2550, 2, clock)).toBe("40'");
+    expect(formatGameMinute(2550, 2)).toBe("42'");
+  });
+
+  it('measures the added time of the current period', () => {
+    expect(getAddedTimeInPeriod(1700, 1, { periodLengthSeconds: 1800 })).toBe(0);
+    expect(getAddedTimeInPeriod(3840, 2, clock)).toBe(90);
+  });
+
+  it('records the added time of a period that just ended', () => {
+    expect(recordAddedTime(1, 1950, { periodLengthSeconds: 1800 })).toEqual([150]);
+    expect(recordAddedTime(2, 3780, clock)).toEqual([150, 30]);
+    expect(recordAddedTime(2, 3500, { periodLengthSeconds: 1800, addedTime: [] })).toEqual([0, 0]);
+  });
+
+  it('ends extra-time periods after their own length', () => {
+    // 2 × 30 min halves, then 2 × 10 min extra time
+    const extraTimeClock = { periodLengthSeconds: 1800, periodCount: 2, extraTimeLengthSeconds: 600 };
+    expect(getPeriodEndSeconds(3, extraTimeClock)).toBe(4200);
+    expect(getPeriodEndSeconds(4, extraTimeClock)).toBe(4800);
+    expect(formatGameTimeDisplay(4260, 3, 2, extraTimeClock)).toBe("70+1' (Extra Time 1)");
+  });
 });
 
 describe('formatMinutesSeconds', () => {
@@ -1,13 +1,112 @@
+import { formatPeriodLabel, getPeriodEndMinute } from './periodUtils';
+
+/**
+ * Added (stoppage) time per period as stored on Game.addedTimeSeconds,
+ * indexed by period - 1.
+ *
+ * Game.elapsedSeconds keeps counting real play time through added time, so
+ * play time records, goals and notes stay on one continuous clock. The
+ * nominal clock shown to coaches subtracts the added time of earlier periods.
+ */
+export type AddedTime = ReadonlyArray<number | null> | null | undefined;
+
+/** Period lengths and added time needed to show a nominal "30+2'" minute */
+export interface GameClock {
+  periodLengthSeconds: number;
+  addedTime?: AddedTime;
+  periodCount?: number; // regulation periods, defaults to 2
+  extraTimeLengthSeconds?: number; // length of each extra-time period
+}
+
+/**
+ * Builds the clock for a game from its per-game period length override,
+ * falling back to the team's period length
+ */
+export function getGameClock(
+  game: { halfLengthMinutes?: number | null; addedTimeSeconds?: AddedTime; extraTimeLengthMinutes?: number | null },
+  teamPeriodLengthMinutes?: number | null,
+  periodCount = 2,
+): GameClock {
+  return {
+    periodLengthSeconds: (game.halfLengthMinutes ?? teamPeriodLengthMinutes ?? 30) * 60,
+    addedTime: game.addedTimeSeconds,
+    periodCount,
+    extraTimeLengthSeconds: (game.extraTimeLengthMinutes ?? 0) * 60,
+  };
+}
+
+/**
+ * Nominal game second at which a period ends, including extra-time periods
+ */
+export function getPeriodEndSeconds(period: number, clock: GameClock): number {
+  return getPeriodEndMinute(
+    period,
+    clock.periodLengthSeconds / 60,
+    clock.periodCount ?? 2,
+    (clock.extraTimeLengthSeconds ?? 0) / 60,
+  ) * 60;
+}
+
+/**
+ * Total added time played in the periods before `period`
+ */
+export function getAddedTimeBefore(period: number, addedTime: AddedTime): number {
+  if (!addedTime) return 0;
+  return addedTime.slice(0, Math.max(0, period - 1)).reduce<number>((sum, s) => sum + (s ?? 0), 0);
+}
+
+/**
+ * Converts continuous game seconds to the nominal clock for a period,
+ * e.g. 40' played after 2 minutes of first-half added time reads as 38'.
+ */
+export function toNominalSeconds(seconds: number, period: number, addedTime: AddedTime): number {
+  return seconds - getAddedTimeBefore(period, addedTime);
+}
+
+/**
+ * Seconds played past the nominal end of a period (0 while inside it)
+ */
+export function getAddedTimeInPeriod(seconds: number, period: number, clock: GameClock): number {
+  return Math.max(0, toNominalSeconds(seconds, period, clock.addedTime) - getPeriodEndSeconds(period, clock));
+}
+
+/**
+ * Returns Game.addedTimeSeconds with the added time of a period that just ended
+ */
+export function recordAddedTime(period: number, seconds: number, clock: GameClock): number[] {
+  const { addedTime } = clock;
+  const next = Array.from({ length: Math.max(period, addedTime?.length ?? 0) }, (_, i) => addedTime?.[i] ?? 0);
+  next[period - 1] = getAddedTimeInPeriod(seconds, period, clock);
+  return next;
+}
+
+/**
+ * Formats the game minute of an event
+ * @param seconds - Continuous game time in seconds
+ * @param half - Period the event happened in (1-based)
+ * @param clock - Period length and added time; without it the raw minute is shown
+ * @returns "15'" or, in added time, "30+2'"
+ */
+export function formatGameMinute(seconds: number, half: number, clock?: GameClock): string {
+  if (!clock) return `${Math.floor(seconds / 60)}'`;
+  const nominal = toNominalSeconds(seconds, half, clock.addedTime);
+  const periodEnd = getPeriodEndSeconds(half, clock);
+  if (nominal > periodEnd) {
+    return `${Math.floor(periodEnd / 60)}+${Math.ceil((nominal - periodEnd) / 60)}'`;
+  }
+  return `${Math.floor(Math.max(0, nominal) / 60)}'`;
+}
+
 /**
  * Formats game time for display
  * @param seconds - Game time in seconds
- * @param half - Current half (1 or 2)
- * @returns Formatted string like "15' (1st Half)"
+ * @param half - Current period (1-based)
+ * @param periodCount - Number of periods in the game (2 = halves)
+ * @param clock - Period length and added time, to show added time as "30+2'"
+ * @returns Formatted string like "15' (1st Half)", "30' (3rd Quarter)" or "30+2' (1st Half)"
  */
-export function formatGameTimeDisplay(seconds: number, half: number): string {
-  const minutes = Math.floor(seconds / 60);
-  const halfText = half === 1 ? '1st' : '2nd';
-  return `${minutes}' (${halfText} Half)`;
+export function formatGameTimeDisplay(seconds: number, half: number, periodCount = 2, clock?: GameClock): string {
+  return `${formatGameMinute(seconds, half, clock)} (${formatPeriodLabel(half, periodCount)})`;
 }
 
 /**
@@ -0,0 +1,166 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildPlayedRuleCheckInput,
+  buildRulePeriods,
+  describeLeagueRule,
+  findLeagueRuleViolations,
+  getLeagueRuleAlerts,
+  parseLeagueRuleProfile,
+  type LeagueRuleCheckInput,
+} from './leagueRuleUtils';
+import type { PlayTimeRecord } from '../types/schema';
+
+// 4 × 10 minute quarters
+const periods = buildRulePeriods(600, 4);
+
+function input(overrides: Partial<LeagueRuleCheckInput> = {}): LeagueRuleCheckInput {
+  return {
+    playerIds: ['p1', 'p2'],
+    stints: new Map([
+      ['p1', [{ start: 0, end: 2400 }]],
+      ['p2', [{ start: 0, end: 600 }, { start: 1800, end: 2400 }]],
+    ]),
+    periods,
+    periodCount: 4,
+    substitutionTimes: [],
+    describePlayer: id => id.toUpperCase(),
+    ...overrides,
+  };
+}
+
+describe('parseLeagueRuleProfile', () => {
+  it('uses the current rules of a stored preset', () => {
+    expect(parseLeagueRuleProfile(JSON.stringify({ preset: 'rec-league', rules: [] }))).toEqual({
+      preset: 'rec-league',
+      rules: [{ type: 'min-play', value: 50 }, { type: 'bench-periods', value: 2 }],
+    });
+  });
+
+  it('keeps valid custom rules, one per type', () => {
+    expect(parseLeagueRuleProfile({
+      preset: 'custom',
+      rules: [
+        { type: 'min-play', value: 40 },
+        { type: 'min-play', value: 60 },
+        { type: 'bench-periods', value: 1 },
+        { type: 'break-subs' },
+        { type: 'shirt-colour', value: 3 },
+      ],
+    })).toEqual({ preset: 'custom', rules: [{ type: 'min-play', value: 40 }, { type: 'break-subs' }] });
+  });
+
+  it('falls back to no rules for missing or malformed values', () => {
+    expect(parseLeagueRuleProfile(null)).toEqual({ preset: 'none', rules: [] });
+    expect(parseLeagueRuleProfile('{oops')).toEqual({ preset: 'none', rules: [] });
+    expect(parseLeagueRuleProfile({ preset: 'nonsense' })).toEqual({ preset: 'none', rules: [] });
+  });
+});
+
+describe('describeLeagueRule', () => {
+  it('names the team period', () => {
+    expect(describeLeagueRule({ type: 'min-play', value: 50 })).toBe('Every player plays at least 50% of the game');
+    expect(describeLeagueRule({ type: 'bench-periods', value: 2 }, 4)).toBe('No player sits 2 quarters in a row');
+  });
+});
+
+describe('buildRulePeriods', () => {
+  it('shifts later periods by earlier added time', () => {
+    expect(buildRulePeriods(600, 2, [120])).toEqual([
+      { period: 1, start: 0, end: 720 },
+      { period: 2, start: 720, end: 1320 },
+    ]);
+  });
+});
+
+describe('findLeagueRuleViolations', () => {
+  it('reports players below the minimum share', () => {
+    expect(findLeagueRuleViolations([{ type: 'min-play', value: 60 }], input())).toEqual([
+      { type: 'min-play', playerId: 'p2', message: 'P2 plays 50% of the game, below the 60% minimum' },
+    ]);
+    expect(findLeagueRuleViolations([{ type: 'min-play', value: 50 }], input())).toEqual([]);
+  });
+
+  it('measures the minimum against the time a late arrival was available', () => {
+    const lateArrival = input({
+      stints: new Map([['p1', [{ start: 0, end: 2400 }]], ['p2', [{ start: 1200, end: 1800 }]]]),
+      availability: new Map([['p2', { start: 1200, end: 2400 }]]),
+    });
+    expect(findLeagueRuleViolations([{ type: 'min-play', value: 50 }], lateArrival)).toEqual([]);
+  });
+
+  it('reports players who sit too many periods in a row', () => {
+    expect(findLeagueRuleViolations([{ type: 'bench-periods', value: 2 }], input())).toEqual([
+      { type: 'bench-periods', playerId: 'p2', message: 'P2 sits Q2 and Q3 in a row' },
+    ]);
+    expect(findLeagueRuleViolations([{ type: 'bench-periods', value: 3 }], input())).toEqual([]);
+  });
+
+  it('reports substitutions made during play but not at period breaks', () => {
+    const violations = findLeagueRuleViolations([{ type: 'break-subs' }], input({ substitutionTimes: [300, 600, 1200] }));
+    expect(violations).toEqual([
+      {
+        type: 'break-subs',
+        message: "Subs at 5' fall during play; this league allows them only at stoppages or breaks",
+      },
+    ]);
+  });
+});
+
+describe('getLeagueRuleAlerts', () => {
+  it('tells the coach when a bench player has to come on to reach the minimum', () => {
+    const live = input({
+      stints: new Map([['p1', [{ start: 0, end: 1200 }]], ['p2', [{ start: 0, end: 300 }]]]),
+    });
+    const alerts = getLeagueRuleAlerts([{ type: 'min-play', value: 50 }], live, 1200, new Set(['p1']));
+    expect(alerts).toEqual([{
+      type: 'min-play',
+      playerId: 'p2',
+      deadlineSeconds: 1500,
+      message: "P2 will miss the 50% minimum unless subbed in by 25'",
+    }]);
+  });
+
+  it('flags players who can no longer reach the minimum, on the field or not', () => {
+    const live = input({ stints: new Map([['p1', [{ start: 2000, end: 2100 }]], ['p2', [{ start: 0, end: 1200 }]]]) });
+    expect(getLeagueRuleAlerts([{ type: 'min-play', value: 50 }], live, 2100, new Set(['p1'])).map(a => a.message))
+      .toEqual(['P1 can no longer reach the 50% minimum']);
+  });
+
+  it('tells the coach who must play this period after sitting the last one', () => {
+    const live = input({
+      stints: new Map([['p1', [{ start: 0, end: 1300 }]], ['p2', [{ start: 0, end: 600 }]]]),
+    });
+    expect(getLeagueRuleAlerts([{ type: 'bench-periods', value: 2 }], live, 1300, new Set(['p1']))).toEqual([{
+      type: 'bench-periods',
+      playerId: 'p2',
+      deadlineSeconds: 1800,
+      message: 'P2 has sat Q2 and must play in Q3',
+    }]);
+  });
+});
+
+describe('buildPlayedRuleCheckInput', () => {
+  const record = (playerId: string, start: number, end: number | null) =>
+    ({ playerId, startGameSeconds: start, endGameSeconds: end }) as PlayTimeRecord;
+
+  it('builds stints, substitution times and names from play time records', () => {
+    const built = buildPlayedRuleCheckInput({
+      players: [
+        { id: 'p1', firstName: 'Jordan', playerNumber: 7 },
+        { id: 'p2', firstName: 'Sam', playerNumber: 9 },
+        { id: 'p3', firstName: 'Alex', playerNumber: 4 },
+      ],
+      playTimeRecords: [record('p1', 0, 900), record('p2', 900, null)],
+      playerAvailabilities: [{ playerId: 'p3', status: 'absent', availableFromMinute: null, availableUntilMinute: null }],
+      currentSeconds: 1200,
+      clock: { periodLengthSeconds: 1500, periodCount: 2, addedTime: [60] },
+    });
+
+    expect(built.playerIds).toEqual(['p1', 'p2']);
+    expect(built.stints.get('p2')).toEqual([{ start: 900, end: 1200 }]);
+    expect(built.substitutionTimes).toEqual([900]);
+    expect(built.periods[1]).toEqual({ period: 2, start: 1560, end: 3060 });
+    expect(built.describePlayer('p1')).toBe('#7 Jordan');
+    expect(built.formatMinute?.(1620)).toBe("26'");
+  });
+});
@@ -0,0 +1,406 @@
+import type {
+  LeagueRule,
+  LeagueRulePreset,
+  LeagueRuleProfile,
+  LeagueRuleType,
+  PlayerAvailability,
+  PlayTimeRecord,
+} from '../types/schema';
+import { formatGameMinute, type AddedTime, type GameClock } from './gameTimeUtils';
+import { formatPeriodLabel, getPeriodName } from './periodUtils';
+
+export const LEAGUE_RULE_PRESETS: Array<{ preset: Exclude<LeagueRulePreset, 'custom'>; label: string; rules: LeagueRule[] }> = [
+  { preset: 'none', label: 'No league rules', rules: [] },
+  { preset: 'min-play', label: 'Minimum play (50%)', rules: [{ type: 'min-play', value: 50 }] },
+  {
+    preset: 'rec-league',
+    label: 'Rec league',
+    rules: [{ type: 'min-play', value: 50 }, { type: 'bench-periods', value: 2 }],
+  },
+  { preset: 'stoppage-subs', label: 'Subs at stoppages only', rules: [{ type: 'break-subs' }] },
+];
+
+export const LEAGUE_RULE_TYPES: Array<{ type: LeagueRuleType; label: string; defaultValue?: number }> = [
+  { type: 'min-play', label: 'Minimum play time', defaultValue: 50 },
+  { type: 'bench-periods', label: 'No sitting periods in a row', defaultValue: 2 },
+  { type: 'break-subs', label: 'Subs only at stoppages or breaks' },
+];
+
+export const NO_LEAGUE_RULES: LeagueRuleProfile = { preset: 'none', rules: [] };
+
+/** A period of the game, in the same clock as the stints being checked */
+export interface RulePeriod {
+  period: number;
+  start: number;
+  end: number;
+}
+
+/** Time range in game seconds */
+export interface TimeRange {
+  start: number;
+  end: number;
+}
+
+export interface LeagueRuleCheckInput {
+  /** Players the rules apply to (available for the game) */
+  playerIds: string[];
+  /** On-field time per player */
+  stints: Map<string, TimeRange[]>;
+  /** Regulation periods; extra time is outside league playing-time rules */
+  periods: RulePeriod[];
+  periodCount: number;
+  /** Game seconds at which players came on after kick-off */
+  substitutionTimes: number[];
+  /** Part of the game each player is available for (late arrivals, early leavers); missing = whole game */
+  availability?: Map<string, TimeRange>;
+  describePlayer: (playerId: string) => string;
+  /** Formats a game second for messages; defaults to the raw minute, e.g. "38'" */
+  formatMinute?: (seconds: number) => string;
+}
+
+export interface LeagueRuleViolation {
+  type: LeagueRuleType;
+  playerId?: string;
+  message: string;
+}
+
+/** In-game warning for a player who still has to come on to keep a rule */
+export interface LeagueRuleAlert {
+  type: LeagueRuleType;
+  playerId: string;
+  /** Latest game second the player can come on and still keep the rule */
+  deadlineSeconds?: number;
+  message: string;
+}
+
+const defaultFormatMinute = (seconds: number) => `${Math.floor(Math.max(0, seconds) / 60)}'`;
+
+function joinLabels(labels: string[]): string {
+  if (labels.length <= 1) return labels.join('');
+  return `${labels.slice(0, -1).join(', ')} and ${labels[labels.length - 1]}`;
+}
+
+function parseRule(entry: unknown): LeagueRule[] {
+  if (!entry || typeof entry !== 'object') return [];
+  const { type, value } = entry as Partial<LeagueRule>;
+  if (type === 'break-subs') return [{ type }];
+  if (typeof value !== 'number' || !Number.isInteger(value)) return [];
+  if (type === 'min-play' && value > 0 && value <= 100) return [{ type, value }];
+  if (type === 'bench-periods' && value >= 2) return [{ type, value }];
+  return [];
+}
+
+/**
+ * Parses the JSON league rule profile stored on a Team
+ * @param raw - Team.leagueRules value (JSON string or object)
+ * @returns The profile; a preset always uses its current rules, malformed custom rules are dropped
+ */
+export function parseLeagueRuleProfile(raw: unknown): LeagueRuleProfile {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return NO_LEAGUE_RULES;
+    }
+  }
+  if (!value || typeof value !== 'object') return NO_LEAGUE_RULES;
+
+  const { preset, rules } = value as Partial<LeagueRuleProfile>;
+  const presetEntry = LEAGUE_RULE_PRESETS.find(p => p.preset === preset);
+  if (presetEntry) return { preset: presetEntry.preset, rules: presetEntry.rules };
+  if (preset !== 'custom' || !Array.isArray(rules)) return NO_LEAGUE_RULES;
+
+  // One rule of each type; the first one wins
+  const parsed = rules.flatMap(parseRule);
+  return { preset, rules: parsed.filter((rule, i) => parsed.findIndex(r => r.type === rule.type) === i) };
+}
+
+/**
+ * Display name of a profile, e.g. "Rec league" or "Custom rules"
+ */
+export function getLeagueRuleProfileLabel(profile: LeagueRuleProfile): string {
+  if (profile.preset === 'custom') return 'Custom rules';
+  return LEAGUE_RULE_PRESETS.find(p => p.preset === profile.preset)?.label ?? 'No league rules';
+}
+
+/**
+ * Coach-facing wording, e.g. "Every player plays at least 50% of the game"
+ * or "No player sits 2 quarters in a row"
+ */
+export function describeLeagueRule(rule: LeagueRule, periodCount = 2): string {
+  switch (rule.type) {
+    case 'min-play':
+      return `Every player plays at least ${rule.value ?? 0}% of the game`;
+    case 'bench-periods': {
+      const periods = periodCount === 2 ? 'halves' : `${getPeriodName(periodCount).toLowerCase()}s`;
+      return `No player sits ${rule.value ?? 2} ${periods} in a row`;
+    }
+    case 'break-subs':
+      return 'Subs only at stoppages or the planned breaks';
+  }
+}
+
+/**
+ * Regulation periods on the continuous game clock, shifted by the added time
+ * played at the end of earlier periods
+ * @param periodLengthSeconds - Length of one period
+ * @param periodCount - Number of regulation periods
+ * @param addedTime - Game.addedTimeSeconds, indexed by period - 1
+ */
+export function buildRulePeriods(
+  periodLengthSeconds: number,
+  periodCount: number,
+  addedTime?: AddedTime,
+): RulePeriod[] {
+  const periods: RulePeriod[] = [];
+  let start = 0;
+  for (let period = 1; period <= periodCount; period++) {
+    const end = start + periodLengthSeconds + (addedTime?.[period - 1] ?? 0);
+    periods.push({ period, start, end });
+    start = end;
+  }
+  return periods;
+}
+
+/**
+ * On-field time per player from live PlayTimeRecords
+ * @param records - The game's play time records
+ * @param currentSeconds - Closes records still open (players on the field now)
+ */
+export function stintsFromPlayTimeRecords(records: PlayTimeRecord[], currentSeconds: number): Map<string, TimeRange[]> {
+  const stints = new Map<string, TimeRange[]>();
+  for (const record of records) {
+    const end = record.endGameSeconds ?? currentSeconds;
+    if (end <= record.startGameSeconds) continue;
+    const playerStints = stints.get(record.playerId) ?? [];
+    playerStints.push({ start: record.startGameSeconds, end });
+    stints.set(record.playerId, playerStints);
+  }
+  return stints;
+}
+
+/**
+ * Game seconds at which players came on after kick-off, from PlayTimeRecords
+ */
+export function getSubstitutionTimes(records: PlayTimeRecord[]): number[] {
+  return Array.from(new Set(records.map(r => r.startGameSeconds).filter(s => s > 0))).sort((a, b) => a - b);
+}
+
+/**
+ * Rule check input for a game being played or already played
+ * @param game.players - Roster; absent players and players injured before kick-off are left out
+ * @param game.currentSeconds - Game time now, or the final elapsed time of a completed game
+ * @param game.clock - Period length and added time, used for period bounds and "30+2'" minutes
+ */
+export function buildPlayedRuleCheckInput(game: {
+  players: Array<{ id: string; firstName: string; playerNumber?: number | null }>;
+  playTimeRecords: PlayTimeRecord[];
+  playerAvailabilities: Array<Pick<PlayerAvailability, 'playerId' | 'status' | 'availableFromMinute' | 'availableUntilMinute'>>;
+  currentSeconds: number;
+  clock: GameClock;
+}): LeagueRuleCheckInput {
+  const periodCount = game.clock.periodCount ?? 2;
+  const periods = buildRulePeriods(game.clock.periodLengthSeconds, periodCount, game.clock.addedTime);
+  const availabilityOf = new Map(game.playerAvailabilities.map(a => [a.playerId, a]));
+  const playerIds = game.players
+    .filter(p => {
+      const availability = availabilityOf.get(p.id);
+      if (availability?.status === 'absent') return false;
+      return availability?.status !== 'injured' || availability.availableUntilMinute != null;
+    })
+    .map(p => p.id);
+
+  const availability = new Map<string, TimeRange>();
+  game.playerAvailabilities.forEach(a => {
+    if (a.availableFromMinute == null && a.availableUntilMinute == null) return;
+    availability.set(a.playerId, {
+      start: (a.availableFromMinute ?? 0) * 60,
+      end: a.availableUntilMinute != null ? a.availableUntilMinute * 60 : Infinity,
+    });
+  });
+
+  const playerById = new Map(game.players.map(p => [p.id, p]));
+  return {
+    playerIds,
+    stints: stintsFromPlayTimeRecords(game.playTimeRecords, game.currentSeconds),
+    periods,
+    periodCount,
+    substitutionTimes: getSubstitutionTimes(game.playTimeRecords),
+    availability,
+    describePlayer: id => {
+      const player = playerById.get(id);
+      return player ? `#${player.playerNumber ?? '?'} ${player.firstName}` : 'A player';
+    },
+    formatMinute: seconds => formatGameMinute(
+      seconds,
+      periods.find(p => seconds < p.end)?.period ?? periodCount,
+      game.clock,
+    ),
+  };
+}
+
+function secondsInRange(stints: TimeRange[] | undefined, range: TimeRange): number {
+  return (stints ?? []).reduce(
+    (sum, stint) => sum + Math.max(0, Math.min(stint.end, range.end) - Math.max(stint.start, range.start)),
+    0,
+  );
+}
+
+function getPlayerWindow(input: LeagueRuleCheckInput, playerId: string): TimeRange {
+  const gameEnd = input.periods[input.periods.length - 1]?.end ?? 0;
+  const availability = input.availability?.get(playerId);
+  return {
+    start: Math.max(0, availability?.start ?? 0),
+    end: Math.min(gameEnd, availability?.end ?? gameEnd),
+  };
+}
+
+/** Periods the player is available for from start to end */
+function getCheckablePeriods(input: LeagueRuleCheckInput, playerId: string): RulePeriod[] {
+  const window = getPlayerWindow(input, playerId);
+  return input.periods.filter(p => p.start >= window.start && p.end <= window.end);
+}
+
+function getRequiredSeconds(rule: LeagueRule, window: TimeRange): number {
+  return Math.max(0, window.end - window.start) * (rule.value ?? 0) / 100;
+}
+
+function isAtBreak(seconds: number, periods: RulePeriod[]): boolean {
+  return periods.some(p => Math.abs(p.start - seconds) < 1 || Math.abs(p.end - seconds) < 1);
+}
+
+/**
+ * Lists every league rule a game breaks, planned or played
+ * @param rules - The team's league rules
+ * @param input - Who was on the field when, and the game's periods
+ * @returns One violation per player and rule (per substitution time for 'break-subs')
+ */
+export function findLeagueRuleViolations(rules: LeagueRule[], input: LeagueRuleCheckInput): LeagueRuleViolation[] {
+  const violations: LeagueRuleViolation[] = [];
+  const formatMinute = input.formatMinute ?? defaultFormatMinute;
+
+  for (const rule of rules) {
+    if (rule.type === 'min-play') {
+      for (const playerId of input.playerIds) {
+        const window = getPlayerWindow(input, playerId);
+        const played = secondsInRange(input.stints.get(playerId), window);
+        const required = getRequiredSeconds(rule, window);
+        if (required > 0 && played + 0.5 < required) {
+          const percent = Math.floor((played / (window.end - window.start)) * 100);
+          violations.push({
+            type: rule.type,
+            playerId,
+            message: `${input.describePlayer(playerId)} plays ${percent}% of the game, below the ${rule.value}% minimum`,
+          });
+        }
+      }
+    } else if (rule.type === 'bench-periods') {
+      const limit = rule.value ?? 2;
+      for (const playerId of input.playerIds) {
+        let run: RulePeriod[] = [];
+        let worst: RulePeriod[] = [];
+        for (const period of getCheckablePeriods(input, playerId)) {
+          const sat = secondsInRange(input.stints.get(playerId), period) === 0;
+          const continues = run.length > 0 && run[run.length - 1].period === period.period - 1;
+          run = sat ? (continues ? [...run, period] : [period]) : [];
+          if (run.length > worst.length) worst = run;
+        }
+        if (worst.length >= limit) {
+          const labels = worst.map(p => formatPeriodLabel(p.period, input.periodCount, 'short'));
+          violations.push({
+            type: rule.type,
+            playerId,
+            message: `${input.describePlayer(playerId)} sits ${joinLabels(labels)} in a row`,
+          });
+        }
+      }
+    } else {
+      for (const seconds of input.substitutionTimes) {
+        if (isAtBreak(seconds, input.periods)) continue;
+        violations.push({
+          type: rule.type,
+          message: `Subs at ${formatMinute(seconds)} fall during play; this league allows them only at stoppages or breaks`,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Warnings for bench players who must come on soon to keep the league rules,
+ * e.g. "Jordan will miss the 50% minimum unless subbed in by 38'"
+ * @param rules - The team's league rules
+ * @param input - Play so far; stints should be closed at currentSeconds
+ * @param currentSeconds - Game time now
+ * @param onFieldIds - Players on the field now
+ * @returns Alerts ordered by deadline, most urgent first
+ */
+export function getLeagueRuleAlerts(
+  rules: LeagueRule[],
+  input: LeagueRuleCheckInput,
+  currentSeconds: number,
+  onFieldIds: Set<string>,
+): LeagueRuleAlert[] {
+  const alerts: LeagueRuleAlert[] = [];
+  const formatMinute = input.formatMinute ?? defaultFormatMinute;
+  const currentPeriod = input.periods.find(p => currentSeconds >= p.start && currentSeconds < p.end);
+
+  for (const rule of rules) {
+    if (rule.type === 'min-play') {
+      for (const playerId of input.playerIds) {
+        const window = getPlayerWindow(input, playerId);
+        const needed = getRequiredSeconds(rule, window) - secondsInRange(input.stints.get(playerId), window);
+        if (needed <= 0) continue;
+
+        const remaining = window.end - Math.max(currentSeconds, window.start);
+        const deadlineSeconds = window.end - needed;
+        const name = input.describePlayer(playerId);
+        if (remaining < needed) {
+          alerts.push({
+            type: rule.type,
+            playerId,
+            deadlineSeconds,
+            message: `${name} can no longer reach the ${rule.value}% minimum`,
+          });
+        } else if (!onFieldIds.has(playerId)) {
+          alerts.push({
+            type: rule.type,
+            playerId,
+            deadlineSeconds,
+            message: `${name} will miss the ${rule.value}% minimum unless subbed in by ${formatMinute(deadlineSeconds)}`,
+          });
+        }
+      }
+    } else if (rule.type === 'bench-periods' && currentPeriod) {
+      const limit = rule.value ?? 2;
+      for (const playerId of input.playerIds) {
+        if (onFieldIds.has(playerId)) continue;
+        const stints = input.stints.get(playerId);
+        if (secondsInRange(stints, { start: currentPeriod.start, end: currentSeconds }) > 0) continue;
+
+        const checkable = getCheckablePeriods(input, playerId);
+        if (!checkable.some(p => p.period === currentPeriod.period)) continue;
+        const satBefore: RulePeriod[] = [];
+        for (let period = currentPeriod.period - 1; period >= 1; period--) {
+          const earlier = checkable.find(p => p.period === period);
+          if (!earlier || secondsInRange(stints, earlier) > 0) break;
+          satBefore.unshift(earlier);
+        }
+        if (satBefore.length < limit - 1) continue;
+
+        const labels = satBefore.map(p => formatPeriodLabel(p.period, input.periodCount, 'short'));
+        alerts.push({
+          type: rule.type,
+          playerId,
+          deadlineSeconds: currentPeriod.end,
+          message: `${input.describePlayer(playerId)} has sat ${joinLabels(labels)} and must play in ${formatPeriodLabel(currentPeriod.period, input.periodCount, 'short')}`,
+        });
+      }
+    }
+  }
+
+  return alerts.sort((a, b) => (a.deadlineSeconds ?? Infinity) - (b.deadlineSeconds ?? Infinity));
+}
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { calculateLineupCombinations } from './lineupCombinationUtils';
+
+const positions = new Map([
+  ['gk', { abbreviation: 'GK' }],
+  ['lb', { abbreviation: 'LB' }],
+  ['rb', { abbreviation: 'RB' }],
+  ['cm', { abbreviation: 'CM' }],
+  ['st', { abbreviation: 'ST' }],
+]);
+
+const record = (playerId: string, positionId: string, start: number, end: number | null, gameId = 'game-1') => ({
+  gameId,
+  playerId,
+  positionId,
+  startGameSeconds: start,
+  endGameSeconds: end,
+});
+
+const goal = (gameSeconds: number, scoredByUs: boolean, gameId = 'game-1') => ({ gameId, gameSeconds, scoredByUs });
+
+const game = (id: string, elapsedSeconds = 1200, status = 'completed') => ({ id, status, elapsedSeconds });
+
+describe('calculateLineupCombinations', () => {
+  // Keeper and striker play throughout; the right back is swapped at 600s
+  const records = [
+    record('keeper', 'gk', 0, 1200),
+    record('ana', 'lb', 0, 1200),
+    record('ben', 'rb', 0, 600),
+    record('cal', 'rb', 600, 1200),
+    record('dee', 'cm', 0, 1200),
+    record('eli', 'st', 0, 1200),
+  ];
+
+  it('splits the game into stints and credits each back line', () => {
+    const combos = calculateLineupCombinations(
+      [game('game-1')],
+      records,
+      [goal(300, true), goal(600, false), goal(900, true)],
+      positions,
+    );
+
+    const backLines = combos.filter(c => c.unit === 'defense');
+    expect(backLines).toEqual([
+      expect.objectContaining({ playerIds: ['ana', 'ben'], secondsTogether: 600, goalsFor: 1, goalsAgainst: 1, plusMinus: 0 }),
+      expect.objectContaining({ playerIds: ['ana', 'cal'], secondsTogether: 600, goalsFor: 1, goalsAgainst: 0, plusMinus: 1, per60: 6 }),
+    ]);
+  });
+
+  it('leaves out the goalkeeper and single-player lines', () => {
+    const combos = calculateLineupCombinations([game('game-1')], records, [], positions);
+
+    expect(combos.some(c => c.unit === 'midfield' || c.unit === 'attack')).toBe(false);
+    const field = combos.filter(c => c.unit === 'field');
+    expect(field.map(c => c.playerIds)).toEqual([
+      ['ana', 'ben', 'dee', 'eli'],
+      ['ana', 'cal', 'dee', 'eli'],
+    ]);
+  });
+
+  it('adds up a unit across games and closes open records at the final whistle', () => {
+    const combos = calculateLineupCombinations(
+      [game('game-1', 600), game('game-2', 900), game('game-3', 900, 'scheduled')],
+      [
+        record('ana', 'lb', 0, null, 'game-1'),
+        record('ben', 'rb', 0, 600, 'game-1'),
+        record('ana', 'lb', 0, 900, 'game-2'),
+        record('ben', 'rb', 300, 900, 'game-2'),
+        record('ana', 'lb', 0, 900, 'game-3'),
+        record('ben', 'rb', 0, 900, 'game-3'),
+      ],
+      [],
+      positions,
+    );
+
+    expect(combos.find(c => c.unit === 'defense')).toEqual(expect.objectContaining({
+      playerIds: ['ana', 'ben'],
+      secondsTogether: 1200,
+      gamesTogether: 2,
+    }));
+  });
+});
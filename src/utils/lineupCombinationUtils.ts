@@ -0,0 +1,145 @@
+/**
+ * Lineup Combination Utilities
+ *
+ * Splits each game into stints — stretches where nobody came on or went off —
+ * from overlapping PlayTimeRecord intervals, then credits each stint's minutes
+ * and goals to the units on the field: the back line, the midfield, the front
+ * line and the full set of outfield players. Goals follow the plus/minus rule
+ * (a goal at a substitution second belongs to the players going off).
+ */
+
+import type { Game, Goal, PlayTimeRecord } from "../types/schema";
+import { inferPositionGroup, type PositionGroup } from "./formationUtils";
+
+export type LineupUnit = 'defense' | 'midfield' | 'attack' | 'field';
+
+export const LINEUP_UNIT_LABELS: Record<LineupUnit, string> = {
+  defense: 'Back line',
+  midfield: 'Midfield',
+  attack: 'Front line',
+  field: 'Outfield players',
+};
+
+const UNIT_GROUPS: Partial<Record<PositionGroup, LineupUnit>> = {
+  DEFENDER: 'defense',
+  MIDFIELDER: 'midfield',
+  STRIKER: 'attack',
+};
+
+export interface LineupCombination {
+  /** Unit plus sorted player IDs */
+  key: string;
+  unit: LineupUnit;
+  playerIds: string[];
+  secondsTogether: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  plusMinus: number;
+  /** Goal differential per 60 minutes together; null when they never shared time */
+  per60: number | null;
+  /** Number of games the unit played together */
+  gamesTogether: number;
+}
+
+type GameFields = Pick<Game, 'id' | 'status' | 'elapsedSeconds'>;
+type GoalFields = Pick<Goal, 'gameId' | 'gameSeconds' | 'scoredByUs'>;
+type RecordFields = Pick<PlayTimeRecord, 'gameId' | 'playerId' | 'positionId' | 'startGameSeconds' | 'endGameSeconds'>;
+
+interface Accumulator {
+  unit: LineupUnit;
+  playerIds: string[];
+  secondsTogether: number;
+  goalsFor: number;
+  goalsAgainst: number;
+  gameIds: Set<string>;
+}
+
+/**
+ * Finds every unit that shared the field in completed games
+ *
+ * @param games - Games to analyze; only completed games are used
+ * @param playTimeRecords - PlayTimeRecords for those games
+ * @param goals - Goals for those games
+ * @param positions - Map of position IDs to positions (abbreviation decides the line)
+ * @returns One entry per unit and set of players, most minutes together first
+ */
+export function calculateLineupCombinations(
+  games: GameFields[],
+  playTimeRecords: RecordFields[],
+  goals: GoalFields[],
+  positions: Map<string, { abbreviation?: string | null }>
+): LineupCombination[] {
+  const combinations = new Map<string, Accumulator>();
+
+  const credit = (unit: LineupUnit, playerIds: string[], gameId: string, seconds: number, stintGoals: GoalFields[]) => {
+    // A lone player is not a combination
+    if (playerIds.length < 2) return;
+    const sorted = [...playerIds].sort();
+    const key = `${unit}:${sorted.join(',')}`;
+    const entry = combinations.get(key) ?? {
+      unit, playerIds: sorted, secondsTogether: 0, goalsFor: 0, goalsAgainst: 0, gameIds: new Set<string>(),
+    };
+    entry.secondsTogether += seconds;
+    entry.gameIds.add(gameId);
+    stintGoals.forEach(goal => {
+      if (goal.scoredByUs) entry.goalsFor++;
+      else entry.goalsAgainst++;
+    });
+    combinations.set(key, entry);
+  };
+
+  games
+    .filter(game => game.status === 'completed')
+    .forEach(game => {
+      const gameEnd = game.elapsedSeconds ?? 0;
+      const records = playTimeRecords
+        .filter(r => r.gameId === game.id)
+        .map(r => ({ ...r, end: Math.min(r.endGameSeconds ?? gameEnd, gameEnd) }))
+        .filter(r => r.end > r.startGameSeconds);
+      const gameGoals = goals.filter(g => g.gameId === game.id);
+
+      const boundaries = Array.from(new Set(records.flatMap(r => [r.startGameSeconds, r.end]))).sort((a, b) => a - b);
+
+      for (let i = 0; i < boundaries.length - 1; i++) {
+        const stintStart = boundaries[i];
+        const stintEnd = boundaries[i + 1];
+        const onField = records.filter(r => r.startGameSeconds <= stintStart && r.end >= stintEnd);
+        if (onField.length === 0) continue;
+
+        const stintGoals = gameGoals.filter(g => g.gameSeconds > stintStart && g.gameSeconds <= stintEnd);
+        const seconds = stintEnd - stintStart;
+
+        const units = new Map<LineupUnit, string[]>();
+        const outfield: string[] = [];
+        onField.forEach(r => {
+          const group = inferPositionGroup(r.positionId ? positions.get(r.positionId)?.abbreviation : null);
+          if (group === 'GOALKEEPER') return;
+          outfield.push(r.playerId);
+          const unit = UNIT_GROUPS[group];
+          if (unit) units.set(unit, [...(units.get(unit) ?? []), r.playerId]);
+        });
+
+        units.forEach((playerIds, unit) => credit(unit, playerIds, game.id, seconds, stintGoals));
+        credit('field', outfield, game.id, seconds, stintGoals);
+      }
+    });
+
+  return Array.from(combinations.entries())
+    .map(([key, entry]) => {
+      const plusMinus = entry.goalsFor - entry.goalsAgainst;
+      return {
+        key,
+        unit: entry.unit,
+        playerIds: entry.playerIds,
+        secondsTogether: entry.secondsTogether,
+        goalsFor: entry.goalsFor,
+        goalsAgainst: entry.goalsAgainst,
+        plusMinus,
+        per60: entry.secondsTogether > 0
+          ? Math.round((plusMinus / entry.secondsTogether) * 3600 * 10) / 10
+          : null,
+        gamesTogether: entry.gameIds.size,
+      };
+    })
+    .sort((a, b) => b.secondsTogether - a.secondsTogether);
+}
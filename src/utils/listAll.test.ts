@@ -0,0 +1,23 @@
+import { describe, it, expect, vi } from 'vitest';
+import { listAll } from './listAll';
+
+describe('listAll', () => {
+  it('follows nextToken until the last page', async () => {
+    const list = vi.fn()
+      .mockResolvedValueOnce({ data: [{ id: 'a' }], nextToken: 'page-2' })
+      .mockResolvedValueOnce({ data: [{ id: 'b' }], nextToken: null });
+
+    const records = await listAll({ list }, { gameId: { eq: 'game-1' } });
+
+    expect(records).toEqual([{ id: 'a' }, { id: 'b' }]);
+    expect(list).toHaveBeenNthCalledWith(1, { limit: 1000, filter: { gameId: { eq: 'game-1' } } });
+    expect(list).toHaveBeenNthCalledWith(2, { limit: 1000, filter: { gameId: { eq: 'game-1' } }, nextToken: 'page-2' });
+  });
+
+  it('lists without a filter', async () => {
+    const list = vi.fn().mockResolvedValue({ data: [] });
+
+    await expect(listAll({ list })).resolves.toEqual([]);
+    expect(list).toHaveBeenCalledWith({ limit: 1000 });
+  });
+});
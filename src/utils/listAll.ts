@@ -0,0 +1,36 @@
+/**
+ * The part of an Amplify model client that paginated listing needs. Declared
+ * with method syntax so `client.models.X` is assignable whatever its filter type.
+ */
+export interface ListableModel<T> {
+  list(options: {
+    filter?: Record<string, unknown>;
+    limit?: number;
+    nextToken?: string;
+  }): Promise<{ data: T[]; nextToken?: string | null }>;
+}
+
+/**
+ * Paginated list that fetches ALL records matching a filter.
+ * Amplify .list() returns at most one page (~100 items by default).
+ * We loop through all pages to ensure nothing is missed.
+ * @param model - Amplify model client, e.g. client.models.PlayTimeRecord
+ * @param filter - Optional list filter
+ * @returns Every matching record
+ */
+export async function listAll<T>(model: ListableModel<T>, filter?: Record<string, unknown>): Promise<T[]> {
+  const all: T[] = [];
+  let nextToken: string | null | undefined = undefined;
+
+  do {
+    const response: { data: T[]; nextToken?: string | null } = await model.list({
+      limit: 1000,
+      ...(filter ? { filter } : {}),
+      ...(nextToken ? { nextToken } : {}),
+    });
+    all.push(...response.data);
+    nextToken = response.nextToken;
+  } while (nextToken);
+
+  return all;
+}
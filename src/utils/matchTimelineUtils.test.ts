@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { buildMatchTimeline, buildScoreProgression } from './matchTimelineUtils';
+
+const goal = (id: string, gameSeconds: number, half: number, scoredByUs: boolean) => ({
+  id, gameSeconds, half, scoredByUs, scorerId: null, assistId: null, timestamp: `2030-06-01T10:${String(Math.floor(gameSeconds / 60)).padStart(2, '0')}:00Z`,
+});
+
+const sub = (id: string, gameSeconds: number | null, half: number) => ({
+  id, gameSeconds, half, playerInId: 'p1', playerOutId: 'p2', positionId: null,
+});
+
+const note = (id: string, gameSeconds: number | null, half: number | null, noteType = 'gold-star') => ({
+  id, gameSeconds, half, noteType, playerId: 'p1', notes: 'Great run',
+});
+
+const clock = { periodLengthSeconds: 1800, addedTime: [120, 60], periodCount: 2 };
+
+describe('buildScoreProgression', () => {
+  it('steps the score up goal by goal from 0–0', () => {
+    expect(buildScoreProgression([goal('g2', 2000, 2, false), goal('g1', 600, 1, true)])).toEqual([
+      { gameSeconds: 0, ourScore: 0, opponentScore: 0 },
+      { gameSeconds: 600, ourScore: 1, opponentScore: 0 },
+      { gameSeconds: 2000, ourScore: 1, opponentScore: 1 },
+    ]);
+  });
+});
+
+describe('buildMatchTimeline', () => {
+  it('merges goals, substitutions and in-game notes between kick-off, halftime and full time', () => {
+    const timeline = buildMatchTimeline(
+      { currentHalf: 2, elapsedSeconds: 3780 },
+      [goal('g1', 1850, 1, true), goal('g2', 2400, 2, false)],
+      [sub('s1', 1920, 2), sub('s2', 900, 1)],
+      [note('n1', 300, 1), note('n2', null, null, 'coaching-point')],
+      clock,
+      2,
+    );
+
+    expect(timeline.map(e => e.key)).toEqual([
+      'kickoff', 'note-n1', 'sub-s2', 'goal-g1', 'break-1', 'sub-s1', 'goal-g2', 'full-time',
+    ]);
+  });
+
+  it('puts the break after first-half added time and labels it', () => {
+    const timeline = buildMatchTimeline({ currentHalf: 2, elapsedSeconds: 3780 }, [], [], [], clock, 2);
+    const halftime = timeline.find(e => e.kind === 'break');
+
+    expect(halftime).toMatchObject({ gameSeconds: 1920, label: 'Halftime' });
+    expect(timeline[timeline.length - 1]).toMatchObject({ kind: 'full-time', gameSeconds: 3780, half: 2 });
+  });
+
+  it('carries the running score on each goal', () => {
+    const timeline = buildMatchTimeline(
+      { currentHalf: 2, elapsedSeconds: 3600 },
+      [goal('g1', 600, 1, true), goal('g2', 700, 1, true), goal('g3', 2500, 2, false)],
+      [],
+      [],
+      clock,
+      2,
+    );
+
+    const scores = timeline.flatMap(e => e.kind === 'goal' ? [`${e.ourScore}–${e.opponentScore}`] : []);
+    expect(scores).toEqual(['1–0', '2–0', '2–1']);
+  });
+
+  it('names every break in a quarters game', () => {
+    const timeline = buildMatchTimeline(
+      { currentHalf: 4, elapsedSeconds: 2880 },
+      [],
+      [],
+      [],
+      { periodLengthSeconds: 720, periodCount: 4 },
+      4,
+    );
+
+    expect(timeline.filter(e => e.kind === 'break').map(e => e.kind === 'break' && [e.label, e.gameSeconds])).toEqual([
+      ['End of 1st Quarter', 720],
+      ['Halftime', 1440],
+      ['End of 3rd Quarter', 2160],
+    ]);
+  });
+});
@@ -0,0 +1,140 @@
+/**
+ * Match Timeline Utilities
+ *
+ * Merges goals, substitutions and in-game notes of a finished game into one
+ * chronological list, with kick-off, period breaks and full time as markers.
+ * Everything sits on the continuous game clock (Game.elapsedSeconds), so a
+ * break falls after any added time played in the period before it.
+ */
+
+import type { Game, GameNote, Goal, Substitution } from "../types/schema";
+import { getAddedTimeBefore, getPeriodEndSeconds, type GameClock } from "./gameTimeUtils";
+import { formatBreakLabel } from "./periodUtils";
+
+type GoalFields = Pick<Goal, 'id' | 'gameSeconds' | 'half' | 'scoredByUs' | 'scorerId' | 'assistId' | 'timestamp'>;
+type SubstitutionFields = Pick<Substitution, 'id' | 'gameSeconds' | 'half' | 'playerInId' | 'playerOutId' | 'positionId'>;
+type NoteFields = Pick<GameNote, 'id' | 'gameSeconds' | 'half' | 'noteType' | 'playerId' | 'notes'>;
+type GameFields = Pick<Game, 'currentHalf' | 'elapsedSeconds'>;
+
+export interface ScorePoint {
+  gameSeconds: number;
+  ourScore: number;
+  opponentScore: number;
+}
+
+interface TimelineEntryBase {
+  key: string;
+  gameSeconds: number;
+  half: number;
+}
+
+export type TimelineEntry<G = GoalFields, S = SubstitutionFields, N = NoteFields> = TimelineEntryBase & (
+  | { kind: 'kickoff' }
+  | { kind: 'goal'; goal: G; ourScore: number; opponentScore: number }
+  | { kind: 'substitution'; substitution: S }
+  | { kind: 'note'; note: N }
+  | { kind: 'break'; label: string }
+  | { kind: 'full-time' }
+);
+
+/** Tie-break order for entries at the same second of the same period */
+const KIND_ORDER: Record<TimelineEntry['kind'], number> = {
+  kickoff: 0,
+  goal: 1,
+  note: 2,
+  substitution: 3,
+  break: 4,
+  'full-time': 5,
+};
+
+/**
+ * Goals in the order they were scored with the score after each one,
+ * starting from 0–0 at kick-off
+ */
+export function buildScoreProgression(goals: GoalFields[]): ScorePoint[] {
+  const points: ScorePoint[] = [{ gameSeconds: 0, ourScore: 0, opponentScore: 0 }];
+  [...goals]
+    .sort((a, b) => a.gameSeconds - b.gameSeconds || a.timestamp.localeCompare(b.timestamp))
+    .forEach(goal => {
+      const last = points[points.length - 1];
+      points.push({
+        gameSeconds: goal.gameSeconds,
+        ourScore: last.ourScore + (goal.scoredByUs ? 1 : 0),
+        opponentScore: last.opponentScore + (goal.scoredByUs ? 0 : 1),
+      });
+    });
+  return points;
+}
+
+/**
+ * Builds the chronological match timeline of a game.
+ * Pre-game coaching points (no game time) are left out; substitutions
+ * without a game time are placed at kick-off of their period.
+ * @param periodCount - Regulation periods, for naming the breaks
+ */
+export function buildMatchTimeline<G extends GoalFields, S extends SubstitutionFields, N extends NoteFields>(
+  game: GameFields,
+  goals: G[],
+  substitutions: S[],
+  notes: N[],
+  clock: GameClock,
+  periodCount: number,
+): TimelineEntry<G, S, N>[] {
+  const lastPeriod = Math.max(1, game.currentHalf ?? 1);
+  const entries: TimelineEntry<G, S, N>[] = [{ key: 'kickoff', kind: 'kickoff', gameSeconds: 0, half: 1 }];
+
+  for (let period = 1; period < lastPeriod; period++) {
+    entries.push({
+      key: `break-${period}`,
+      kind: 'break',
+      gameSeconds: getPeriodEndSeconds(period, clock) + getAddedTimeBefore(period + 1, clock.addedTime),
+      half: period,
+      label: formatBreakLabel(period, periodCount),
+    });
+  }
+
+  const progression = buildScoreProgression(goals);
+  const sortedGoals = [...goals].sort((a, b) => a.gameSeconds - b.gameSeconds || a.timestamp.localeCompare(b.timestamp));
+  sortedGoals.forEach((goal, index) => {
+    const score = progression[index + 1];
+    entries.push({
+      key: `goal-${goal.id}`,
+      kind: 'goal',
+      gameSeconds: goal.gameSeconds,
+      half: goal.half,
+      goal,
+      ourScore: score.ourScore,
+      opponentScore: score.opponentScore,
+    });
+  });
+
+  substitutions.forEach(substitution => {
+    entries.push({
+      key: `sub-${substitution.id}`,
+      kind: 'substitution',
+      gameSeconds: substitution.gameSeconds ?? 0,
+      half: substitution.half ?? 1,
+      substitution,
+    });
+  });
+
+  notes
+    .filter(note => note.gameSeconds !== null && note.gameSeconds !== undefined)
+    .forEach(note => {
+      entries.push({
+        key: `note-${note.id}`,
+        kind: 'note',
+        gameSeconds: note.gameSeconds as number,
+        half: note.half ?? 1,
+        note,
+      });
+    });
+
+  entries.push({ key: 'full-time', kind: 'full-time', gameSeconds: game.elapsedSeconds ?? 0, half: lastPeriod });
+
+  return entries.sort((a, b) =>
+    a.half - b.half
+    || a.gameSeconds - b.gameSeconds
+    || KIND_ORDER[a.kind] - KIND_ORDER[b.kind]
+  );
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeBackgroundSyncReport,
+  describeQueuedMutation,
+  formatSyncFailureReport,
+  getQueueItemState,
+  type QueueDescribeContext,
+} from './offlineQueueUtils';
+import type { QueuedMutation } from '../services/offlineQueueService';
+
+const context: QueueDescribeContext = {
+  playerLabels: new Map([['p7', '#7 Ava'], ['p12', '#12 Ben']]),
+  gameOpponents: new Map([['g1', 'Rivals FC']]),
+};
+
+function item(
+  model: string,
+  operation: QueuedMutation['operation'],
+  payload: Record<string, unknown>,
+  overrides: Partial<QueuedMutation> = {}
+): QueuedMutation {
+  return { id: 'q1', model, operation, payload, enqueuedAt: 1, retryCount: 0, ...overrides };
+}
+
+describe('describeQueuedMutation', () => {
+  it('describes substitutions with both players and the game clock', () => {
+    expect(describeQueuedMutation(
+      item('Substitution', 'create', { gameId: 'g1', playerOutId: 'p7', playerInId: 'p12', gameSeconds: 872 }),
+      context
+    )).toBe('Substitution: #7 Ava → #12 Ben at 14:32');
+  });
+
+  it('summarises game updates against the opponent', () => {
+    expect(describeQueuedMutation(
+      item('Game', 'update', { id: 'g1', status: 'completed', ourScore: 2, opponentScore: 1, elapsedSeconds: 3600 }),
+      context
+    )).toBe('Game vs Rivals FC: game ended, score 2–1, clock 60:00');
+    expect(describeQueuedMutation(item('Game', 'update', { id: 'g2', lastStartTime: null, elapsedSeconds: 90 }), context))
+      .toBe('Game: clock 01:30, clock paused');
+  });
+
+  it('names goals, events, notes and availability', () => {
+    expect(describeQueuedMutation(item('Goal', 'create', { scoredByUs: true, gameSeconds: 600, scorerId: 'p7' }), context))
+      .toBe('Goal for us at 10:00 by #7 Ava');
+    expect(describeQueuedMutation(item('Goal', 'create', { scoredByUs: false, gameSeconds: 60 }), context))
+      .toBe('Goal against at 01:00');
+    expect(describeQueuedMutation(
+      item('GameEvent', 'create', { eventType: 'corner', forUs: false, gameSeconds: 30 }),
+      context
+    )).toBe('Corner (opponent) at 00:30');
+    expect(describeQueuedMutation(item('GameNote', 'create', { noteType: 'gold-star', playerId: 'p12' }), context))
+      .toBe('Gold star for #12 Ben');
+    expect(describeQueuedMutation(item('PlayerAvailability', 'update', { id: 'a1', status: 'injured', playerId: 'p7' }), context))
+      .toBe('Availability: #7 Ava marked injured');
+  });
+
+  it('names games, plans and rotations created offline', () => {
+    expect(describeQueuedMutation(item('Game', 'create', { id: 'g9', opponent: 'Eagles' }), context))
+      .toBe('New game vs Eagles');
+    expect(describeQueuedMutation(item('GamePlan', 'create', { id: 'plan-1', gameId: 'g1' }), context))
+      .toBe('Game plan vs Rivals FC: created');
+    expect(describeQueuedMutation(item('GamePlan', 'update', { id: 'plan-2', gameId: 'g9' }), context))
+      .toBe('Game plan: edited');
+    expect(describeQueuedMutation(item('PlannedRotation', 'create', { id: 'r1', rotationNumber: 3 }), context))
+      .toBe('Rotation 3 added to a plan');
+    expect(describeQueuedMutation(item('PlannedRotation', 'delete', { id: 'r1' }), context))
+      .toBe('Rotation removed from a plan');
+  });
+
+  it('falls back to a generic player or model name', () => {
+    expect(describeQueuedMutation(item('PlayTimeRecord', 'create', { playerId: 'gone', startGameSeconds: 0 }), context))
+      .toBe('Play time: a player on the field at 00:00');
+    expect(describeQueuedMutation(item('Mystery', 'delete', {}), context)).toBe('Mystery delete');
+  });
+});
+
+describe('getQueueItemState', () => {
+  it('separates other accounts, failures and fresh items', () => {
+    expect(getQueueItemState(item('Goal', 'create', {}, { ownerSub: 'other' }), 'me')).toBe('held');
+    expect(getQueueItemState(item('Goal', 'create', {}, { ownerSub: 'me', retryCount: 2 }), 'me')).toBe('failed');
+    expect(getQueueItemState(item('Goal', 'create', {}, { ownerSub: 'me' }), 'me')).toBe('pending');
+    expect(getQueueItemState(item('Goal', 'create', {}), undefined)).toBe('pending');
+  });
+});
+
+describe('formatSyncFailureReport', () => {
+  it('names what the server rejected and counts what waits on it', () => {
+    expect(formatSyncFailureReport([item('Game', 'create', { id: 'g9', opponent: 'Eagles' })], 4)).toBe(
+      '1 offline change was rejected: New game vs Eagles. 4 changes that depend on it are waiting too. ' +
+      'Review them on the Offline Changes screen.'
+    );
+  });
+
+  it('lists at most three rejected changes', () => {
+    const rejected = [1, 2, 3, 4, 5].map(n => item('PlannedRotation', 'create', { rotationNumber: n }));
+
+    expect(formatSyncFailureReport(rejected, 0)).toBe(
+      '5 offline changes were rejected: Rotation 1 added to a plan; Rotation 2 added to a plan; ' +
+      'Rotation 3 added to a plan and 2 more. Review them on the Offline Changes screen.'
+    );
+  });
+});
+
+describe('describeBackgroundSyncReport', () => {
+  it('counts what synced and what still needs the coach', () => {
+    const report = { syncedCount: 1, remainingCount: 0, conflictCount: 0, failureMessage: null, finishedAt: 1 };
+
+    expect(describeBackgroundSyncReport(report)).toBe('Synced 1 change in the background');
+    expect(describeBackgroundSyncReport({ ...report, syncedCount: 4, conflictCount: 1, remainingCount: 2 }))
+      .toBe('Synced 4 changes in the background · 1 to review · 2 still waiting');
+  });
+});
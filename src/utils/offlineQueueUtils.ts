@@ -0,0 +1,190 @@
+/**
+ * Offline Queue Utilities
+ *
+ * Turns queued offline writes into sentences a coach can read on the sync
+ * screen ("Substitution: #7 → #12 at 14:32"), sorts them into the states
+ * the screen groups them by, and sums up a replay the server partly rejected
+ * or the service worker ran in the background.
+ */
+
+import type { GameEventType } from '../types/schema';
+import type { BackgroundSyncReport, QueuedMutation } from '../services/offlineQueueService';
+import { GAME_EVENT_LABELS } from './gameEventUtils';
+import { formatMinutesSeconds } from './gameTimeUtils';
+
+export type QueueItemState = 'pending' | 'failed' | 'held' | 'dead-letter';
+
+export const QUEUE_ITEM_STATE_LABELS: Record<QueueItemState, string> = {
+  pending: 'Waiting to sync',
+  failed: 'Failed, will retry',
+  held: 'Held for another account',
+  'dead-letter': 'Gave up after every retry',
+};
+
+export interface QueueDescribeContext {
+  /** "#7 Ava" per player id */
+  playerLabels: Map<string, string>;
+  /** Opponent name per game id */
+  gameOpponents: Map<string, string>;
+}
+
+const NOTE_TYPE_LABELS: Record<string, string> = {
+  'coaching-point': 'Coaching point',
+  'gold-star': 'Gold star',
+  'yellow-card': 'Yellow card',
+  'red-card': 'Red card',
+  other: 'Note',
+};
+
+const GAME_STATUS_LABELS: Record<string, string> = {
+  'in-progress': 'game in progress',
+  halftime: 'half time',
+  shootout: 'penalty shootout',
+  completed: 'game ended',
+};
+
+/**
+ * Which group a queued item belongs in on the sync screen
+ * @param item - Queued item from the pending queue
+ * @param currentSub - Cognito sub of the signed-in coach
+ */
+export function getQueueItemState(item: QueuedMutation, currentSub: string | undefined): QueueItemState {
+  if (item.ownerSub && currentSub && item.ownerSub !== currentSub) return 'held';
+  return item.retryCount > 0 ? 'failed' : 'pending';
+}
+
+function describeGameUpdate(payload: Record<string, unknown>): string {
+  const parts: string[] = [];
+  if (typeof payload.status === 'string') parts.push(GAME_STATUS_LABELS[payload.status] ?? payload.status);
+  if (typeof payload.currentHalf === 'number' && payload.status === 'in-progress') {
+    parts.push(`period ${payload.currentHalf}`);
+  }
+  if (typeof payload.ourScore === 'number' && typeof payload.opponentScore === 'number') {
+    parts.push(`score ${payload.ourScore}–${payload.opponentScore}`);
+  }
+  if (typeof payload.elapsedSeconds === 'number') {
+    parts.push(`clock ${formatMinutesSeconds(payload.elapsedSeconds)}`);
+  }
+  if (Object.prototype.hasOwnProperty.call(payload, 'lastStartTime') && !('status' in payload)) {
+    parts.push(payload.lastStartTime ? 'clock running' : 'clock paused');
+  }
+  if (typeof payload.addedTimeMode === 'boolean') {
+    parts.push(payload.addedTimeMode ? 'added time on' : 'added time off');
+  }
+  return parts.length > 0 ? parts.join(', ') : 'game details';
+}
+
+/**
+ * One plain-language line for a queued write
+ * @param item - Queued (or dead-lettered) mutation
+ * @param context - Player labels and opponents to name people and games
+ * @returns e.g. "Substitution: #7 Ava → #12 Ben at 14:32"
+ */
+export function describeQueuedMutation(
+  item: Pick<QueuedMutation, 'model' | 'operation' | 'payload'>,
+  context: QueueDescribeContext
+): string {
+  const { model, operation, payload } = item;
+  const player = (key: string) => {
+    const id = payload[key];
+    if (typeof id !== 'string' || id.length === 0) return null;
+    return context.playerLabels.get(id) ?? 'a player';
+  };
+  const at = (key: string) => {
+    const seconds = payload[key];
+    return typeof seconds === 'number' ? ` at ${formatMinutesSeconds(seconds)}` : '';
+  };
+
+  switch (model) {
+    case 'Game': {
+      if (operation === 'create') return `New game vs ${typeof payload.opponent === 'string' ? payload.opponent : 'an opponent'}`;
+      const opponent = context.gameOpponents.get(payload.id as string);
+      return `Game${opponent ? ` vs ${opponent}` : ''}: ${describeGameUpdate(payload)}`;
+    }
+    case 'GamePlan': {
+      if (operation === 'delete') return 'Game plan deleted';
+      const opponent = context.gameOpponents.get(payload.gameId as string);
+      return `Game plan${opponent ? ` vs ${opponent}` : ''}: ${operation === 'create' ? 'created' : 'edited'}`;
+    }
+    case 'PlannedRotation':
+      if (operation === 'delete') return 'Rotation removed from a plan';
+      if (operation === 'update') return 'Rotation edited';
+      return `Rotation ${payload.rotationNumber ?? ''} added to a plan`;
+    case 'Substitution':
+      return `Substitution: ${player('playerOutId') ?? 'a player'} → ${player('playerInId') ?? 'a player'}${at('gameSeconds')}`;
+    case 'PlayTimeRecord':
+      return operation === 'create'
+        ? `Play time: ${player('playerId') ?? 'a player'} on the field${at('startGameSeconds')}`
+        : `Play time: stint ended${at('endGameSeconds')}`;
+    case 'LineupAssignment':
+      if (operation === 'delete') return 'Lineup: player removed from a position';
+      return `Lineup: ${player('playerId') ?? 'a player'} ${operation === 'create' ? 'placed in a position' : 'moved into a position'}`;
+    case 'Goal':
+      if (operation === 'delete') return 'Goal removed';
+      if (operation === 'update') return `Goal edited${player('scorerId') ? `: scored by ${player('scorerId')}` : ''}`;
+      return payload.scoredByUs
+        ? `Goal for us${at('gameSeconds')}${player('scorerId') ? ` by ${player('scorerId')}` : ''}`
+        : `Goal against${at('gameSeconds')}`;
+    case 'ShootoutKick':
+      if (operation === 'delete') return 'Shootout kick removed';
+      return `Shootout kick ${payload.kickNumber ?? ''}${player('takerId') ? ` by ${player('takerId')}` : ''}: ${payload.scored ? 'scored' : 'missed'}`;
+    case 'GameEvent': {
+      if (operation === 'delete') return 'Match event removed';
+      const label = GAME_EVENT_LABELS[payload.eventType as GameEventType] ?? 'Match event';
+      return `${label}${payload.forUs === false ? ' (opponent)' : ''}${player('playerId') ? ` by ${player('playerId')}` : ''}${at('gameSeconds')}`;
+    }
+    case 'GameNote':
+      if (operation === 'delete') return 'Note deleted';
+      if (operation === 'update') return 'Note edited';
+      return `${NOTE_TYPE_LABELS[payload.noteType as string] ?? 'Note'}${player('playerId') ? ` for ${player('playerId')}` : ''}`;
+    case 'PlayerAvailability':
+      return typeof payload.status === 'string'
+        ? `Availability: ${player('playerId') ?? 'player'} marked ${payload.status}`
+        : 'Availability updated';
+    case 'QueuedSubstitution':
+      return operation === 'delete'
+        ? 'Sub queue: substitution removed'
+        : `Sub queue: ${player('playerId') ?? 'a player'} waiting to come on`;
+    default:
+      return `${model} ${operation}`;
+  }
+}
+
+/** Rejected changes named in the failure report before it switches to a count */
+const MAX_REPORTED_FAILURES = 3;
+
+/**
+ * Failure report shown after a replay the server partly rejected
+ * @param rejected - Writes the server refused in this replay
+ * @param heldBack - How many writes were not sent because something they
+ *   depend on (e.g. the game a plan belongs to) was refused
+ * @returns e.g. "1 offline change was rejected: New game vs Eagles. 3 changes
+ *   that depend on it are waiting too. Review them on the Offline Changes screen."
+ */
+export function formatSyncFailureReport(rejected: QueuedMutation[], heldBack: number): string {
+  const named = rejected
+    .slice(0, MAX_REPORTED_FAILURES)
+    .map(item => describeQueuedMutation(item, { playerLabels: new Map(), gameOpponents: new Map() }));
+  const more = rejected.length - named.length;
+  const list = more > 0 ? `${named.join('; ')} and ${more} more` : named.join('; ');
+  const parts = [
+    `${rejected.length} offline change${rejected.length !== 1 ? 's were' : ' was'} rejected: ${list}.`,
+  ];
+  if (heldBack > 0) {
+    parts.push(`${heldBack} change${heldBack !== 1 ? 's' : ''} that depend on ${rejected.length !== 1 ? 'them' : 'it'} ${heldBack !== 1 ? 'are' : 'is'} waiting too.`);
+  }
+  parts.push('Review them on the Offline Changes screen.');
+  return parts.join(' ');
+}
+
+/**
+ * One-line summary of what the service worker synced while the app was closed
+ * @example "Synced 4 changes in the background · 1 still waiting"
+ */
+export function describeBackgroundSyncReport(report: BackgroundSyncReport): string {
+  const changes = (count: number) => `${count} change${count !== 1 ? 's' : ''}`;
+  const parts = [`Synced ${changes(report.syncedCount)} in the background`];
+  if (report.conflictCount > 0) parts.push(`${report.conflictCount} to review`);
+  if (report.remainingCount > 0) parts.push(`${report.remainingCount} still waiting`);
+  return parts.join(' · ');
+}
@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { getHeldBackReason, getReplayDependencies, markRejected, orderForReplay } from './offlineReplayUtils';
+import type { QueuedMutation } from '../services/offlineQueueService';
+
+function item(
+  id: string,
+  model: string,
+  operation: QueuedMutation['operation'],
+  payload: Record<string, unknown>
+): QueuedMutation {
+  return { id, model, operation, payload, enqueuedAt: 1, retryCount: 0 };
+}
+
+describe('orderForReplay', () => {
+  it('puts new games first, then new plans, and keeps queue order for the rest', () => {
+    const ordered = orderForReplay([
+      item('a', 'PlayerAvailability', 'create', { gameId: 'g1' }),
+      item('b', 'PlannedRotation', 'create', { id: 'r1', gamePlanId: 'plan-1' }),
+      item('c', 'GamePlan', 'create', { id: 'plan-1', gameId: 'g1' }),
+      item('d', 'Game', 'update', { id: 'g0', status: 'completed' }),
+      item('e', 'Game', 'create', { id: 'g1' }),
+    ]);
+
+    expect(ordered.map(i => i.id)).toEqual(['e', 'c', 'a', 'b', 'd']);
+  });
+});
+
+describe('getReplayDependencies', () => {
+  it('lists parent ids, plus the record itself for updates and deletes', () => {
+    expect(getReplayDependencies(item('a', 'PlannedRotation', 'create', { id: 'r1', gamePlanId: 'plan-1' })))
+      .toEqual(['plan-1']);
+    expect(getReplayDependencies(item('b', 'GamePlan', 'update', { id: 'plan-1', startingLineup: '[]' })))
+      .toEqual(['plan-1']);
+    expect(getReplayDependencies(item('c', 'PlayerAvailability', 'update', { id: 'av-1', gameId: 'g1' })))
+      .toEqual(['g1', 'av-1']);
+  });
+});
+
+describe('getHeldBackReason', () => {
+  it('holds back every write that depends on a create that did not land', () => {
+    const rejected = new Map<string, string>();
+    markRejected(item('a', 'Game', 'create', { id: 'g1' }), rejected);
+    const plan = item('b', 'GamePlan', 'create', { id: 'plan-1', gameId: 'g1' });
+
+    expect(getHeldBackReason(plan, rejected)).toBe('Held back: its game did not sync');
+
+    markRejected(plan, rejected);
+    expect(getHeldBackReason(item('c', 'PlannedRotation', 'update', { id: 'r1', gamePlanId: 'plan-1' }), rejected))
+      .toBe('Held back: its game plan did not sync');
+    expect(getHeldBackReason(item('d', 'Goal', 'create', { gameId: 'g2' }), rejected)).toBeNull();
+  });
+
+  it('ignores failed updates, which nothing depends on', () => {
+    const rejected = new Map<string, string>();
+    markRejected(item('a', 'Game', 'update', { id: 'g1', status: 'completed' }), rejected);
+
+    expect(rejected.size).toBe(0);
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * Offline Replay Utilities
+ *
+ * Games, plans and rotations created offline get their ids on the device, so
+ * children can point at a parent the server has not seen yet. Replay sends
+ * parents first and holds back any write whose parent the server rejected,
+ * rather than leaving orphans behind.
+ */
+
+import type { QueuedMutation } from '../services/offlineQueueService';
+
+/** Creates of these models replay before everything else, in this order */
+const PARENT_CREATE_ORDER: Record<string, number> = {
+  Game: 0,
+  GamePlan: 1,
+};
+
+/** Payload fields that point at another record */
+const PARENT_ID_FIELDS = ['gameId', 'gamePlanId'] as const;
+
+const RECORD_LABELS: Record<string, string> = {
+  Game: 'game',
+  GamePlan: 'game plan',
+  PlannedRotation: 'rotation',
+  PlayerAvailability: 'availability',
+};
+
+function replayRank(item: QueuedMutation): number {
+  if (item.operation !== 'create') return Object.keys(PARENT_CREATE_ORDER).length;
+  return PARENT_CREATE_ORDER[item.model] ?? Object.keys(PARENT_CREATE_ORDER).length;
+}
+
+/**
+ * Sorts a batch so new games replay before their plans, and plans before
+ * everything else. Items of the same rank keep their queue order.
+ * @param items - Queued mutations, oldest first
+ */
+export function orderForReplay(items: QueuedMutation[]): QueuedMutation[] {
+  return items
+    .map((item, index) => ({ item, index }))
+    .sort((a, b) => replayRank(a.item) - replayRank(b.item) || a.index - b.index)
+    .map(({ item }) => item);
+}
+
+/**
+ * Ids of the records a queued write needs on the server before it can land:
+ * the game or plan it belongs to, and for updates and deletes the record itself.
+ */
+export function getReplayDependencies(item: QueuedMutation): string[] {
+  const ids: string[] = [];
+  for (const field of PARENT_ID_FIELDS) {
+    const id = item.payload[field];
+    if (typeof id === 'string' && id.length > 0) ids.push(id);
+  }
+  if (item.operation !== 'create' && typeof item.payload.id === 'string') ids.push(item.payload.id);
+  return ids;
+}
+
+/**
+ * Remembers a write that did not reach the server. Only creates matter: their
+ * id is what later writes in the batch depend on.
+ * @param item - Write that failed or was held back
+ * @param rejected - Record id → model of every create that did not land
+ */
+export function markRejected(item: QueuedMutation, rejected: Map<string, string>): void {
+  if (item.operation === 'create' && typeof item.payload.id === 'string') {
+    rejected.set(item.payload.id, item.model);
+  }
+}
+
+/**
+ * Why a write has to wait, when a record it depends on was not created
+ * @returns e.g. "Held back: its game did not sync", or null when it can replay
+ */
+export function getHeldBackReason(item: QueuedMutation, rejected: Map<string, string>): string | null {
+  for (const id of getReplayDependencies(item)) {
+    const model = rejected.get(id);
+    if (model) return `Held back: its ${RECORD_LABELS[model] ?? 'parent record'} did not sync`;
+  }
+  return null;
+}
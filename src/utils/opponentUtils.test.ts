@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import {
+  normalizeOpponentName,
+  findMatchingOpponent,
+  summarizeHeadToHead,
+} from './opponentUtils';
+
+describe('normalizeOpponentName', () => {
+  it('ignores case, punctuation, age groups and club suffixes', () => {
+    expect(normalizeOpponentName('Rapids U11')).toBe('rapids');
+    expect(normalizeOpponentName('rapids')).toBe('rapids');
+    expect(normalizeOpponentName('The Rapids F.C.')).toBe('rapids');
+    expect(normalizeOpponentName('Rapids U-11 Girls 2014')).toBe('rapids');
+  });
+
+  it('keeps a name made only of ignored words', () => {
+    expect(normalizeOpponentName('Soccer Club')).toBe('soccer club');
+  });
+
+  it('strips accents', () => {
+    expect(normalizeOpponentName('Atlético')).toBe('atletico');
+  });
+});
+
+describe('findMatchingOpponent', () => {
+  const opponents = [
+    { id: 'o1', name: 'Rapids' },
+    { id: 'o2', name: 'Eagles FC' },
+    { id: 'o3', name: 'Lions' },
+  ];
+
+  it('matches names that normalize to the same key', () => {
+    expect(findMatchingOpponent('rapids u11', opponents)?.id).toBe('o1');
+    expect(findMatchingOpponent('Eagles', opponents)?.id).toBe('o2');
+  });
+
+  it('tolerates a one-letter typo in longer names', () => {
+    expect(findMatchingOpponent('Rapds', opponents)?.id).toBe('o1');
+  });
+
+  it('does not match names two edits apart', () => {
+    expect(findMatchingOpponent('Eagels', opponents)).toBeUndefined();
+  });
+
+  it('requires an exact key for short names', () => {
+    expect(findMatchingOpponent('Lion', opponents)).toBeUndefined();
+  });
+
+  it('returns undefined for new or empty names', () => {
+    expect(findMatchingOpponent('Hawks', opponents)).toBeUndefined();
+    expect(findMatchingOpponent('  ', opponents)).toBeUndefined();
+  });
+});
+
+describe('summarizeHeadToHead', () => {
+  it('totals completed meetings and lists the most recent first', () => {
+    const summary = summarizeHeadToHead([
+      { id: 'g1', status: 'completed', gameDate: '2025-09-01T10:00:00Z', ourScore: 2, opponentScore: 1 },
+      { id: 'g2', status: 'completed', gameDate: '2025-10-01T10:00:00Z', ourScore: 0, opponentScore: 3 },
+      { id: 'g3', status: 'scheduled', gameDate: '2025-11-01T10:00:00Z', ourScore: 0, opponentScore: 0 },
+    ]);
+
+    expect(summary.meetings.map(g => g.id)).toEqual(['g3', 'g2', 'g1']);
+    expect(summary.record).toEqual({ wins: 1, losses: 1, ties: 0 });
+    expect(summary.goalsFor).toBe(2);
+    expect(summary.goalsAgainst).toBe(4);
+  });
+});
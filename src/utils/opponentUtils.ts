@@ -0,0 +1,101 @@
+import type { Game, Opponent } from "../types/schema";
+import { calculateRecord, type GameResultFields } from "./gameCalculations";
+
+// Words that describe which of a club's teams we played rather than who the club is
+const AGE_GROUP_PATTERN = /\b(?:u|under)\s*-?\s*\d{1,2}\b/g;
+const BIRTH_YEAR_PATTERN = /\b(?:19|20)\d{2}\b/g;
+const IGNORED_WORDS = new Set(['fc', 'sc', 'afc', 'cf', 'soccer', 'club', 'the', 'boys', 'girls', 'team']);
+
+// Names shorter than this must match exactly after normalizing; longer ones allow a one-letter typo
+const MIN_FUZZY_KEY_LENGTH = 5;
+
+type HeadToHeadGameFields = Pick<Game, 'id' | 'status' | 'gameDate'> & GameResultFields;
+
+export interface HeadToHeadSummary<TGame extends HeadToHeadGameFields> {
+  meetings: TGame[]; // Most recent first
+  record: { wins: number; losses: number; ties: number };
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+/**
+ * Reduces a free-text opponent name to a comparison key, so "Rapids U11",
+ * "rapids" and "The Rapids FC" all become "rapids"
+ */
+export function normalizeOpponentName(name: string): string {
+  const words = name
+    .toLowerCase()
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(AGE_GROUP_PATTERN, ' ')
+    .replace(BIRTH_YEAR_PATTERN, ' ')
+    .replace(/\./g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .split(' ')
+    .filter(Boolean);
+
+  const kept = words.filter(w => !IGNORED_WORDS.has(w));
+  // A name made only of ignored words ("Soccer Club") is still a name
+  return (kept.length > 0 ? kept : words).join(' ');
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/**
+ * Finds the directory entry a free-text opponent name refers to
+ * @param name - Opponent name as typed on a game
+ * @param opponents - The team's opponent directory
+ * @returns The matching opponent, or undefined when the name is new
+ */
+export function findMatchingOpponent<TOpponent extends Pick<Opponent, 'name'>>(
+  name: string,
+  opponents: TOpponent[]
+): TOpponent | undefined {
+  const key = normalizeOpponentName(name);
+  if (!key) return undefined;
+
+  const exact = opponents.find(o => normalizeOpponentName(o.name) === key);
+  if (exact || key.length < MIN_FUZZY_KEY_LENGTH) return exact;
+
+  let best: TOpponent | undefined;
+  let bestDistance = 2;
+  for (const opponent of opponents) {
+    const candidate = normalizeOpponentName(opponent.name);
+    if (candidate.length < MIN_FUZZY_KEY_LENGTH) continue;
+    const distance = editDistance(key, candidate);
+    if (distance < bestDistance) {
+      best = opponent;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+/**
+ * Summarizes every meeting with one opponent: record, goals and the games
+ * themselves, most recent first. Only completed games count towards the totals.
+ */
+export function summarizeHeadToHead<TGame extends HeadToHeadGameFields>(games: TGame[]): HeadToHeadSummary<TGame> {
+  const meetings = [...games].sort((a, b) => (b.gameDate ?? '').localeCompare(a.gameDate ?? ''));
+  const completed = meetings.filter(g => g.status === 'completed');
+  return {
+    meetings,
+    record: calculateRecord(meetings),
+    goalsFor: completed.reduce((sum, g) => sum + (g.ourScore ?? 0), 0),
+    goalsAgainst: completed.reduce((sum, g) => sum + (g.opponentScore ?? 0), 0),
+  };
+}
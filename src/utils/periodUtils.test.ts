@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatBreakLabel,
+  formatPeriodLabel,
+  formatPeriodStructure,
+  getBreakRotationNumber,
+  getHalftimeAfterPeriod,
+  getPeriodCount,
+  getPeriodEndMinute,
+  getRotationGameMinute,
+  getRotationPeriod,
+  getRotationsPerPeriod,
+  getTotalRotations,
+  isBreakRotation,
+  isExtraTimePeriod,
+  isLegacyQuarterTeam,
+} from './periodUtils';
+
+describe('getPeriodCount', () => {
+  it('maps game formats to a period count', () => {
+    expect(getPeriodCount('Halves')).toBe(2);
+    expect(getPeriodCount('Quarters')).toBe(4);
+    expect(getPeriodCount('Periods', 3)).toBe(3);
+  });
+
+  it('falls back to halves and clamps custom counts', () => {
+    expect(getPeriodCount(null)).toBe(2);
+    expect(getPeriodCount('Periods', null)).toBe(2);
+    expect(getPeriodCount('Periods', 1)).toBe(2);
+    expect(getPeriodCount('Periods', 12)).toBe(6);
+  });
+});
+
+describe('isLegacyQuarterTeam', () => {
+  it('flags quarter teams saved without a period count', () => {
+    expect(isLegacyQuarterTeam({ gameFormat: 'Quarters', periodCount: null })).toBe(true);
+    expect(isLegacyQuarterTeam({ gameFormat: 'Quarters', periodCount: 4 })).toBe(false);
+    expect(isLegacyQuarterTeam({ gameFormat: 'Halves', periodCount: null })).toBe(false);
+  });
+});
+
+describe('period labels', () => {
+  it('keeps the existing half labels', () => {
+    expect(formatPeriodLabel(1, 2)).toBe('1st Half');
+    expect(formatPeriodLabel(2, 2, 'spelled')).toBe('Second Half');
+    expect(formatPeriodLabel(2, 2, 'short')).toBe('H2');
+  });
+
+  it('labels quarters and generic periods', () => {
+    expect(formatPeriodLabel(3, 4)).toBe('3rd Quarter');
+    expect(formatPeriodLabel(4, 4, 'spelled')).toBe('Fourth Quarter');
+    expect(formatPeriodLabel(1, 3, 'short')).toBe('P1');
+  });
+
+  it('names the middle break halftime', () => {
+    expect(getHalftimeAfterPeriod(2)).toBe(1);
+    expect(getHalftimeAfterPeriod(4)).toBe(2);
+    expect(formatBreakLabel(2, 4)).toBe('Halftime');
+    expect(formatBreakLabel(1, 4)).toBe('End of 1st Quarter');
+  });
+
+  it('labels extra-time periods after regulation', () => {
+    expect(isExtraTimePeriod(2, 2)).toBe(false);
+    expect(isExtraTimePeriod(3, 2)).toBe(true);
+    expect(formatPeriodLabel(3, 2)).toBe('Extra Time 1');
+    expect(formatPeriodLabel(6, 4, 'short')).toBe('ET2');
+    expect(formatBreakLabel(2, 2)).toBe('End of Regulation');
+    expect(formatBreakLabel(3, 2)).toBe('End of Extra Time 1');
+  });
+
+  it('ends extra-time periods after their own length', () => {
+    expect(getPeriodEndMinute(2, 30, 2)).toBe(60);
+    expect(getPeriodEndMinute(3, 30, 2, 10)).toBe(70);
+    expect(getPeriodEndMinute(4, 30, 2, 10)).toBe(80);
+  });
+
+  it('describes the period structure', () => {
+    expect(formatPeriodStructure(2, 25)).toBe('25 min halves');
+    expect(formatPeriodStructure(4, 12)).toBe('4 × 12 min quarters');
+  });
+});
+
+describe('rotation schedule', () => {
+  it('matches the halves schedule: 10\', 20\', HT, 40\', 50\'', () => {
+    const perPeriod = getRotationsPerPeriod(30, 10);
+    expect(perPeriod).toBe(2);
+    expect(getTotalRotations(perPeriod, 2)).toBe(5);
+    expect([1, 2, 3, 4, 5].map(n => getRotationGameMinute(n, perPeriod, 30, 10))).toEqual([10, 20, 30, 40, 50]);
+    expect(getBreakRotationNumber(1, perPeriod)).toBe(3);
+  });
+
+  it('adds a break rotation at every quarter boundary', () => {
+    // 4 × 12 min quarters, 6-min interval → 1 rotation per quarter
+    const perPeriod = getRotationsPerPeriod(12, 6);
+    const total = getTotalRotations(perPeriod, 4);
+    expect(total).toBe(7);
+
+    const rotations = Array.from({ length: total }, (_, i) => i + 1);
+    expect(rotations.filter(n => isBreakRotation(n, perPeriod, 4))).toEqual([2, 4, 6]);
+    expect(rotations.map(n => getRotationGameMinute(n, perPeriod, 12, 6))).toEqual([6, 12, 18, 24, 30, 36, 42]);
+    expect(rotations.map(n => getRotationPeriod(n, perPeriod))).toEqual([1, 2, 2, 3, 3, 4, 4]);
+  });
+});
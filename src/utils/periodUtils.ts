@@ -0,0 +1,193 @@
+/**
+ * Period model for games split into N equal periods.
+ *
+ * A game has `periodCount` periods of `periodLengthMinutes` each (stored as
+ * Team/Game.halfLengthMinutes). Every period boundary is a break point: the
+ * clock pauses there and the planner schedules a break rotation. Game time is
+ * continuous, so period 3 of a 4×12 game starts at minute 24.
+ * Game.currentHalf holds the current period number (1-based).
+ *
+ * Knockout games may continue into extra-time periods numbered after the
+ * regulation periods (periodCount + 1, ...), each Game.extraTimeLengthMinutes long.
+ */
+
+export type GameFormat = 'Halves' | 'Quarters' | 'Periods';
+
+export const MIN_PERIOD_COUNT = 2;
+export const MAX_PERIOD_COUNT = 6;
+
+type PeriodLabelStyle = 'short' | 'ordinal' | 'spelled';
+
+const SPELLED_ORDINALS = ['First', 'Second', 'Third', 'Fourth', 'Fifth', 'Sixth'];
+
+function toOrdinal(n: number): string {
+  const mod100 = n % 100;
+  if (mod100 >= 11 && mod100 <= 13) return `${n}th`;
+  switch (n % 10) {
+    case 1: return `${n}st`;
+    case 2: return `${n}nd`;
+    case 3: return `${n}rd`;
+    default: return `${n}th`;
+  }
+}
+
+/**
+ * Number of periods for a team's game format
+ * @param gameFormat - Team.gameFormat ('Halves', 'Quarters' or 'Periods')
+ * @param periodCount - Team.periodCount, only used for the 'Periods' format
+ * @returns Period count, 2 when the format is missing or unknown
+ */
+export function getPeriodCount(gameFormat?: string | null, periodCount?: number | null): number {
+  if (gameFormat === 'Quarters') return 4;
+  if (gameFormat === 'Periods' && periodCount) {
+    return Math.min(MAX_PERIOD_COUNT, Math.max(MIN_PERIOD_COUNT, Math.floor(periodCount)));
+  }
+  return 2;
+}
+
+/**
+ * Whether a Quarters team was saved before quarters were timed one at a time.
+ * Those teams stored a half length in halfLengthMinutes; teams saved since
+ * carry periodCount 4.
+ */
+export function isLegacyQuarterTeam(team: { gameFormat?: string | null; periodCount?: number | null }): boolean {
+  return team.gameFormat === 'Quarters' && team.periodCount == null;
+}
+
+/**
+ * Singular name of one period: "Half", "Quarter" or "Period"
+ */
+export function getPeriodName(periodCount: number): string {
+  if (periodCount === 2) return 'Half';
+  if (periodCount === 4) return 'Quarter';
+  return 'Period';
+}
+
+/**
+ * Whether a period is an extra-time period of a knockout game
+ */
+export function isExtraTimePeriod(period: number, periodCount: number): boolean {
+  return period > periodCount;
+}
+
+/**
+ * Formats a period for display
+ * @param period - Period number (1-based)
+ * @param periodCount - Number of regulation periods in the game
+ * @param style - 'short' ("H1", "Q3", "ET1"), 'ordinal' ("1st Half") or 'spelled' ("First Half")
+ */
+export function formatPeriodLabel(period: number, periodCount: number, style: PeriodLabelStyle = 'ordinal'): string {
+  if (isExtraTimePeriod(period, periodCount)) {
+    const extraPeriod = period - periodCount;
+    return style === 'short' ? `ET${extraPeriod}` : `Extra Time ${extraPeriod}`;
+  }
+  const name = getPeriodName(periodCount);
+  if (style === 'short') return `${name[0]}${period}`;
+  if (style === 'spelled' && SPELLED_ORDINALS[period - 1]) return `${SPELLED_ORDINALS[period - 1]} ${name}`;
+  return `${toOrdinal(period)} ${name}`;
+}
+
+/**
+ * Period after which the long break (halftime) falls: the middle of the game
+ */
+export function getHalftimeAfterPeriod(periodCount: number): number {
+  return Math.max(1, Math.floor(periodCount / 2));
+}
+
+/**
+ * Label for the break that follows a period: "Halftime" for the long break,
+ * "End of Regulation" before extra time, otherwise e.g. "End of 1st Quarter"
+ */
+export function formatBreakLabel(periodJustEnded: number, periodCount: number): string {
+  if (periodJustEnded === getHalftimeAfterPeriod(periodCount)) return 'Halftime';
+  if (periodJustEnded === periodCount) return 'End of Regulation';
+  return `End of ${formatPeriodLabel(periodJustEnded, periodCount)}`;
+}
+
+/**
+ * Describes a team's period structure, e.g. "25 min halves" or "4 × 12 min quarters"
+ */
+export function formatPeriodStructure(periodCount: number, periodLengthMinutes: number): string {
+  const plural = periodCount === 2 ? 'halves' : `${getPeriodName(periodCount).toLowerCase()}s`;
+  return periodCount === 2
+    ? `${periodLengthMinutes} min ${plural}`
+    : `${periodCount} × ${periodLengthMinutes} min ${plural}`;
+}
+
+export function getTotalGameMinutes(periodLengthMinutes: number, periodCount: number): number {
+  return periodLengthMinutes * periodCount;
+}
+
+/**
+ * Game minute at which a period ends, including extra-time periods
+ */
+export function getPeriodEndMinute(
+  period: number,
+  periodLengthMinutes: number,
+  periodCount: number,
+  extraTimeLengthMinutes = 0,
+): number {
+  if (!isExtraTimePeriod(period, periodCount)) return period * periodLengthMinutes;
+  return periodCount * periodLengthMinutes + (period - periodCount) * extraTimeLengthMinutes;
+}
+
+/**
+ * Game minute at which a period starts
+ */
+export function getPeriodStartMinute(period: number, periodLengthMinutes: number): number {
+  return (period - 1) * periodLengthMinutes;
+}
+
+// --- Rotation schedule ---
+// Each period holds `rotationsPerPeriod` regular rotations, and every period
+// boundary adds one break rotation: [R1..Rn, BREAK, R1..Rn, BREAK, ..., R1..Rn].
+
+/**
+ * Regular (mid-period) rotations that fit in one period
+ */
+export function getRotationsPerPeriod(periodLengthMinutes: number, intervalMinutes: number): number {
+  return Math.max(0, Math.floor(periodLengthMinutes / intervalMinutes) - 1);
+}
+
+/**
+ * Total planned rotations, including one break rotation per period boundary
+ */
+export function getTotalRotations(rotationsPerPeriod: number, periodCount: number): number {
+  return rotationsPerPeriod * periodCount + (periodCount - 1);
+}
+
+/**
+ * Rotation number of the break rotation after a period
+ */
+export function getBreakRotationNumber(periodJustEnded: number, rotationsPerPeriod: number): number {
+  return periodJustEnded * (rotationsPerPeriod + 1);
+}
+
+/**
+ * Whether a rotation sits on a period boundary
+ */
+export function isBreakRotation(rotationNumber: number, rotationsPerPeriod: number, periodCount: number): boolean {
+  const slot = rotationsPerPeriod + 1;
+  return rotationNumber % slot === 0 && rotationNumber / slot < periodCount;
+}
+
+/**
+ * Period a rotation belongs to; break rotations belong to the period they start
+ */
+export function getRotationPeriod(rotationNumber: number, rotationsPerPeriod: number): number {
+  return Math.floor(rotationNumber / (rotationsPerPeriod + 1)) + 1;
+}
+
+/**
+ * Game minute of a rotation; break rotations fall exactly on the period boundary
+ */
+export function getRotationGameMinute(
+  rotationNumber: number,
+  rotationsPerPeriod: number,
+  periodLengthMinutes: number,
+  intervalMinutes: number,
+): number {
+  const period = getRotationPeriod(rotationNumber, rotationsPerPeriod);
+  const indexInPeriod = rotationNumber % (rotationsPerPeriod + 1);
+  return getPeriodStartMinute(period, periodLengthMinutes) + indexInPeriod * intervalMinutes;
+}
@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import {
+  wasOnFieldForGoal,
+  calculatePlayerPlusMinus,
+  formatPlusMinus,
+} from './plusMinusCalculations';
+
+const record = (playerId: string, start: number, end: number | null, gameId = 'game-1') => ({
+  gameId,
+  playerId,
+  startGameSeconds: start,
+  endGameSeconds: end,
+});
+
+const goal = (gameSeconds: number, scoredByUs: boolean, gameId = 'game-1') => ({ gameId, gameSeconds, scoredByUs });
+
+describe('wasOnFieldForGoal', () => {
+  const records = [record('p1', 0, 600), record('p2', 600, 1200)];
+
+  it('credits a goal at the substitution second to the player going off', () => {
+    expect(wasOnFieldForGoal('p1', goal(600, true), records)).toBe(true);
+    expect(wasOnFieldForGoal('p2', goal(600, true), records)).toBe(false);
+  });
+
+  it('only matches records from the goal\'s game', () => {
+    expect(wasOnFieldForGoal('p1', goal(300, true, 'game-2'), records)).toBe(false);
+  });
+
+  it('treats an open record as still on the field', () => {
+    expect(wasOnFieldForGoal('p3', goal(900, false), [record('p3', 300, null)])).toBe(true);
+  });
+});
+
+describe('calculatePlayerPlusMinus', () => {
+  it('counts goals for and against while on and the rate per 60 minutes', () => {
+    const records = [record('p1', 0, 1200), record('p1', 1800, 2400)];
+    const goals = [goal(100, true), goal(500, true), goal(1500, false), goal(2000, false), goal(2100, true)];
+
+    expect(calculatePlayerPlusMinus('p1', goals, records)).toEqual({
+      goalsFor: 3,
+      goalsAgainst: 1,
+      plusMinus: 2,
+      per60: 4,
+    });
+  });
+
+  it('uses the current game time for open records', () => {
+    const stats = calculatePlayerPlusMinus('p1', [goal(100, false)], [record('p1', 0, null)], 1800);
+    expect(stats.plusMinus).toBe(-1);
+    expect(stats.per60).toBe(-2);
+  });
+
+  it('has no rate for a player who did not play', () => {
+    expect(calculatePlayerPlusMinus('p9', [goal(100, true)], [])).toEqual({
+      goalsFor: 0,
+      goalsAgainst: 0,
+      plusMinus: 0,
+      per60: null,
+    });
+  });
+});
+
+describe('formatPlusMinus', () => {
+  it('always shows the sign', () => {
+    expect(formatPlusMinus(2)).toBe('+2');
+    expect(formatPlusMinus(0)).toBe('0');
+    expect(formatPlusMinus(-1)).toBe('−1');
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * Plus/Minus Calculation Utilities
+ *
+ * Credits every goal to the players who were on the field when it was scored,
+ * by matching Goal.gameSeconds against each player's PlayTimeRecord intervals.
+ * Used by SeasonReport (season totals) and the completed-game summary.
+ */
+
+import type { Goal, PlayTimeRecord } from "../types/schema";
+
+type GoalFields = Pick<Goal, 'gameId' | 'gameSeconds' | 'scoredByUs'>;
+type RecordFields = Pick<PlayTimeRecord, 'gameId' | 'playerId' | 'startGameSeconds' | 'endGameSeconds'>;
+
+export interface PlusMinusStats {
+  goalsFor: number;
+  goalsAgainst: number;
+  /** goalsFor - goalsAgainst */
+  plusMinus: number;
+  /** Goal differential per 60 minutes on the field; null when the player has no time */
+  per60: number | null;
+}
+
+/**
+ * Whether a player was on the field when a goal went in.
+ *
+ * A stint covers (start, end]: substitutions made at the same game second as a
+ * goal happen at the restart, so the player going off was on for the goal and
+ * the player coming on was not. Open records (live game) run until now.
+ *
+ * @param playerId - The player's ID
+ * @param goal - Goal to check
+ * @param playTimeRecords - PlayTimeRecords to search (any games/players)
+ */
+export function wasOnFieldForGoal(
+  playerId: string,
+  goal: GoalFields,
+  playTimeRecords: RecordFields[]
+): boolean {
+  return playTimeRecords.some(r =>
+    r.playerId === playerId &&
+    r.gameId === goal.gameId &&
+    r.startGameSeconds < goal.gameSeconds &&
+    (r.endGameSeconds === null || r.endGameSeconds === undefined || goal.gameSeconds <= r.endGameSeconds)
+  );
+}
+
+/**
+ * Calculate goals for and against while a player was on the field
+ *
+ * @param playerId - The player's ID
+ * @param goals - Goals to credit (any games; shootout kicks are never goals)
+ * @param playTimeRecords - PlayTimeRecords for the same games
+ * @param currentGameTime - Current game time in seconds (optional, for active records)
+ * @returns Goals for/against, plus/minus and the rate per 60 minutes
+ */
+export function calculatePlayerPlusMinus(
+  playerId: string,
+  goals: GoalFields[],
+  playTimeRecords: RecordFields[],
+  currentGameTime?: number
+): PlusMinusStats {
+  let goalsFor = 0;
+  let goalsAgainst = 0;
+  goals.forEach(goal => {
+    if (!wasOnFieldForGoal(playerId, goal, playTimeRecords)) return;
+    if (goal.scoredByUs) goalsFor++;
+    else goalsAgainst++;
+  });
+
+  const secondsOnField = playTimeRecords
+    .filter(r => r.playerId === playerId)
+    .reduce((sum, r) => {
+      const end = r.endGameSeconds ?? currentGameTime;
+      return end === undefined ? sum : sum + Math.max(0, end - r.startGameSeconds);
+    }, 0);
+
+  const plusMinus = goalsFor - goalsAgainst;
+  return {
+    goalsFor,
+    goalsAgainst,
+    plusMinus,
+    per60: secondsOnField > 0 ? Math.round((plusMinus / secondsOnField) * 3600 * 10) / 10 : null,
+  };
+}
+
+/**
+ * Format a plus/minus value with an explicit sign, e.g. "+2", "0", "−1"
+ */
+export function formatPlusMinus(value: number): string {
+  if (value > 0) return `+${value}`;
+  if (value < 0) return `−${Math.abs(value)}`;
+  return '0';
+}
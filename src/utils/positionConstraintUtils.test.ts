@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countGroupRotations,
+  describePositionConstraint,
+  findPositionConstraintViolations,
+  isBlockedFromGroup,
+  needsGroup,
+  parsePositionConstraints,
+} from './positionConstraintUtils';
+import type { PositionGroup } from './formationUtils';
+
+describe('parsePositionConstraints', () => {
+  it('reads a stored JSON string or array', () => {
+    const constraints = [
+      { group: 'GOALKEEPER', rule: 'never' },
+      { group: 'DEFENDER', rule: 'min', rotations: 1 },
+    ];
+    expect(parsePositionConstraints(JSON.stringify(constraints))).toEqual(constraints);
+    expect(parsePositionConstraints(constraints)).toEqual(constraints);
+  });
+
+  it('drops malformed entries', () => {
+    expect(parsePositionConstraints([
+      { group: 'WINGBACK', rule: 'never' },
+      { group: 'STRIKER', rule: 'max' },
+      { group: 'STRIKER', rule: 'max', rotations: -1 },
+      { group: 'STRIKER', rule: 'sometimes', rotations: 1 },
+      { group: 'GOALKEEPER', rule: 'never', rotations: 3 },
+      null,
+    ])).toEqual([{ group: 'GOALKEEPER', rule: 'never' }]);
+    expect(parsePositionConstraints('not json')).toEqual([]);
+    expect(parsePositionConstraints(null)).toEqual([]);
+  });
+});
+
+describe('describePositionConstraint', () => {
+  it('words each rule for coaches', () => {
+    expect(describePositionConstraint({ group: 'GOALKEEPER', rule: 'never' })).toBe('Never in goal');
+    expect(describePositionConstraint({ group: 'DEFENDER', rule: 'min', rotations: 1 })).toBe('At least 1 rotation on defense');
+    expect(describePositionConstraint({ group: 'STRIKER', rule: 'max', rotations: 2 })).toBe('At most 2 rotations as striker');
+  });
+});
+
+describe('isBlockedFromGroup / needsGroup', () => {
+  const constraints = [
+    { group: 'GOALKEEPER' as const, rule: 'never' as const },
+    { group: 'STRIKER' as const, rule: 'max' as const, rotations: 2 },
+    { group: 'DEFENDER' as const, rule: 'min' as const, rotations: 1 },
+  ];
+
+  it('blocks never groups and groups at their maximum', () => {
+    expect(isBlockedFromGroup(constraints, 'GOALKEEPER', 0)).toBe(true);
+    expect(isBlockedFromGroup(constraints, 'STRIKER', 1)).toBe(false);
+    expect(isBlockedFromGroup(constraints, 'STRIKER', 2)).toBe(true);
+    expect(isBlockedFromGroup(constraints, 'MIDFIELDER', 5)).toBe(false);
+  });
+
+  it('needs a group until its minimum is met', () => {
+    expect(needsGroup(constraints, 'DEFENDER', 0)).toBe(true);
+    expect(needsGroup(constraints, 'DEFENDER', 1)).toBe(false);
+    expect(needsGroup(constraints, 'STRIKER', 0)).toBe(false);
+  });
+});
+
+describe('countGroupRotations', () => {
+  const groups: Record<string, PositionGroup> = { gk: 'GOALKEEPER', d1: 'DEFENDER', s1: 'STRIKER' };
+  const groupOf = (positionId: string) => groups[positionId] ?? 'UNKNOWN';
+
+  it('counts the starting lineup and the field after each rotation', () => {
+    const counts = countGroupRotations(
+      [{ playerId: 'p1', positionId: 'gk' }, { playerId: 'p2', positionId: 'd1' }, { playerId: 'p3', positionId: 's1' }],
+      [
+        [{ playerOutId: 'p3', playerInId: 'p4', positionId: 's1' }],
+        // Position change: p2 and p4 trade places
+        [
+          { playerOutId: 'p4', playerInId: 'p2', positionId: 's1' },
+          { playerOutId: 'p2', playerInId: 'p4', positionId: 'd1' },
+        ],
+      ],
+      groupOf,
+    );
+
+    expect(counts.get('p1')?.get('GOALKEEPER')).toBe(3);
+    expect(Object.fromEntries(counts.get('p2')!)).toEqual({ DEFENDER: 2, STRIKER: 1 });
+    expect(counts.get('p3')?.get('STRIKER')).toBe(1);
+    expect(Object.fromEntries(counts.get('p4')!)).toEqual({ STRIKER: 1, DEFENDER: 1 });
+  });
+});
+
+describe('findPositionConstraintViolations', () => {
+  it('lists each broken rule with the planned count', () => {
+    const counts = new Map<string, Map<PositionGroup, number>>([
+      ['p1', new Map<PositionGroup, number>([['GOALKEEPER', 1]])],
+      ['p2', new Map<PositionGroup, number>([['STRIKER', 3]])],
+    ]);
+
+    expect(findPositionConstraintViolations([
+      { playerId: 'p1', playerNumber: 1, positionConstraints: [{ group: 'GOALKEEPER', rule: 'never' }] },
+      { playerId: 'p2', playerNumber: 2, positionConstraints: [
+        { group: 'STRIKER', rule: 'max', rotations: 2 },
+        { group: 'DEFENDER', rule: 'min', rotations: 1 },
+      ] },
+      { playerId: 'p3', playerNumber: 3 },
+    ], counts)).toEqual([
+      '#1 should never play in goal (planned: 1 rotation)',
+      '#2 should play at most 2 rotations as striker (planned: 3)',
+      '#2 should play at least 1 rotation on defense (planned: 0)',
+    ]);
+  });
+});
@@ -0,0 +1,155 @@
+import type {
+  PlannedSubstitution,
+  PositionConstraint,
+  PositionConstraintGroup,
+  PositionConstraintRule,
+} from '../types/schema';
+import type { PositionGroup } from './formationUtils';
+
+export const POSITION_CONSTRAINT_GROUPS: Array<{ group: PositionConstraintGroup; label: string; phrase: string }> = [
+  { group: 'GOALKEEPER', label: 'Goalkeeper', phrase: 'in goal' },
+  { group: 'DEFENDER', label: 'Defense', phrase: 'on defense' },
+  { group: 'MIDFIELDER', label: 'Midfield', phrase: 'in midfield' },
+  { group: 'STRIKER', label: 'Striker', phrase: 'as striker' },
+];
+
+export const POSITION_CONSTRAINT_RULES: Array<{ rule: PositionConstraintRule; label: string }> = [
+  { rule: 'never', label: 'Never' },
+  { rule: 'min', label: 'At least' },
+  { rule: 'max', label: 'At most' },
+];
+
+/** Rotations a player spent in each position group, keyed by playerId */
+export type GroupRotationCounts = Map<string, Map<PositionGroup, number>>;
+
+const groupPhrase = (group: PositionConstraintGroup) =>
+  POSITION_CONSTRAINT_GROUPS.find(g => g.group === group)?.phrase ?? group.toLowerCase();
+
+const rotationsText = (count: number) => `${count} rotation${count === 1 ? '' : 's'}`;
+
+/**
+ * Parses the JSON position constraints stored on a TeamRoster entry
+ * @param raw - TeamRoster.positionConstraints value (JSON string or array)
+ * @returns Valid constraints; malformed entries are dropped
+ */
+export function parsePositionConstraints(raw: unknown): PositionConstraint[] {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value.flatMap((entry): PositionConstraint[] => {
+    if (!entry || typeof entry !== 'object') return [];
+    const { group, rule, rotations } = entry as Partial<PositionConstraint>;
+    if (!POSITION_CONSTRAINT_GROUPS.some(g => g.group === group)) return [];
+    if (rule === 'never') return [{ group: group!, rule }];
+    if (rule !== 'min' && rule !== 'max') return [];
+    if (typeof rotations !== 'number' || !Number.isInteger(rotations) || rotations < 0) return [];
+    return [{ group: group!, rule, rotations }];
+  });
+}
+
+/**
+ * Short coach-facing wording, e.g. "Never in goal" or "At most 2 rotations as striker"
+ */
+export function describePositionConstraint(constraint: PositionConstraint): string {
+  const phrase = groupPhrase(constraint.group);
+  switch (constraint.rule) {
+    case 'never':
+      return `Never ${phrase}`;
+    case 'min':
+      return `At least ${rotationsText(constraint.rotations ?? 0)} ${phrase}`;
+    case 'max':
+      return `At most ${rotationsText(constraint.rotations ?? 0)} ${phrase}`;
+  }
+}
+
+/**
+ * Whether the constraints keep a player out of a group for the next rotation
+ * @param constraints - The player's constraints
+ * @param group - Position group of the slot being considered
+ * @param played - Rotations the player has already spent in that group
+ */
+export function isBlockedFromGroup(constraints: PositionConstraint[], group: PositionGroup, played: number): boolean {
+  return constraints.some(c =>
+    c.group === group && (c.rule === 'never' || (c.rule === 'max' && played >= (c.rotations ?? 0)))
+  );
+}
+
+/**
+ * Whether the player still needs rotations in a group to meet a 'min' constraint
+ */
+export function needsGroup(constraints: PositionConstraint[], group: PositionGroup, played: number): boolean {
+  return constraints.some(c => c.group === group && c.rule === 'min' && played < (c.rotations ?? 0));
+}
+
+/**
+ * Counts the rotations each player spends in each position group. The
+ * starting lineup is one rotation and the field after each set of
+ * substitutions is another, so a plan with N rotations covers N + 1.
+ * @param startingLineup - Players on the field at kick-off
+ * @param substitutionsByRotation - Substitutions for each rotation, in order
+ * @param groupOf - Position group for a position ID
+ */
+export function countGroupRotations(
+  startingLineup: Array<{ playerId: string; positionId: string }>,
+  substitutionsByRotation: PlannedSubstitution[][],
+  groupOf: (positionId: string) => PositionGroup
+): GroupRotationCounts {
+  const counts: GroupRotationCounts = new Map();
+  const positionOf = new Map(startingLineup.map(s => [s.playerId, s.positionId]));
+
+  const record = () => {
+    positionOf.forEach((positionId, playerId) => {
+      if (!counts.has(playerId)) counts.set(playerId, new Map());
+      const group = groupOf(positionId);
+      const playerCounts = counts.get(playerId)!;
+      playerCounts.set(group, (playerCounts.get(group) ?? 0) + 1);
+    });
+  };
+
+  record();
+  substitutionsByRotation.forEach(subs => {
+    // A player both subbed out and in within one rotation is changing position
+    const incoming = new Set(subs.map(s => s.playerInId));
+    subs.forEach(sub => {
+      if (!incoming.has(sub.playerOutId)) positionOf.delete(sub.playerOutId);
+    });
+    subs.forEach(sub => positionOf.set(sub.playerInId, sub.positionId));
+    record();
+  });
+
+  return counts;
+}
+
+/**
+ * Lists every constraint the counted rotations break, one message per rule
+ * @param players - Players with their jersey number and constraints
+ * @param counts - Rotations per player and group from countGroupRotations
+ */
+export function findPositionConstraintViolations(
+  players: Array<{ playerId: string; playerNumber: number; positionConstraints?: PositionConstraint[] }>,
+  counts: GroupRotationCounts
+): string[] {
+  const violations: string[] = [];
+  for (const player of players) {
+    for (const constraint of player.positionConstraints ?? []) {
+      const played = counts.get(player.playerId)?.get(constraint.group) ?? 0;
+      const limit = constraint.rotations ?? 0;
+      const phrase = groupPhrase(constraint.group);
+      if (constraint.rule === 'never' && played > 0) {
+        violations.push(`#${player.playerNumber} should never play ${phrase} (planned: ${rotationsText(played)})`);
+      } else if (constraint.rule === 'min' && played < limit) {
+        violations.push(`#${player.playerNumber} should play at least ${rotationsText(limit)} ${phrase} (planned: ${played})`);
+      } else if (constraint.rule === 'max' && played > limit) {
+        violations.push(`#${player.playerNumber} should play at most ${rotationsText(limit)} ${phrase} (planned: ${played})`);
+      }
+    }
+  }
+  return violations;
+}
@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import {
+  summarizePracticeAttendance,
+  formatAttendanceRate,
+  compareStartingCandidates,
+} from './practiceAttendanceUtils';
+
+const now = new Date('2030-06-10T12:00:00Z');
+const sessions = [
+  { id: 's1', practiceDate: '2030-06-01T17:00:00Z' },
+  { id: 's2', practiceDate: '2030-06-04T17:00:00Z' },
+  { id: 's3', practiceDate: '2030-06-08T17:00:00Z' },
+  { id: 's4', practiceDate: '2030-06-15T17:00:00Z' }, // not held yet
+];
+
+describe('summarizePracticeAttendance', () => {
+  it('counts held practices per player and excuses injuries', () => {
+    const summaries = summarizePracticeAttendance(sessions, [
+      { practiceSessionId: 's1', playerId: 'p1', status: 'available' },
+      { practiceSessionId: 's2', playerId: 'p1', status: 'late-arrival' },
+      { practiceSessionId: 's3', playerId: 'p1', status: 'absent' },
+      { practiceSessionId: 's4', playerId: 'p1', status: 'absent' },
+      { practiceSessionId: 's1', playerId: 'p2', status: 'injured' },
+      { practiceSessionId: 's2', playerId: 'p2', status: 'available' },
+      { practiceSessionId: 's1', playerId: 'p3', status: 'injured' },
+      { practiceSessionId: 'other', playerId: 'p3', status: 'available' },
+    ], now);
+
+    expect(summaries.get('p1')).toEqual({
+      playerId: 'p1', attended: 1, late: 1, absent: 1, injured: 0, recorded: 3, rate: 2 / 3,
+    });
+    expect(summaries.get('p2')?.rate).toBe(1);
+    expect(summaries.get('p3')).toEqual(expect.objectContaining({ injured: 1, recorded: 1, rate: null }));
+    expect(summaries.has('p4')).toBe(false);
+  });
+});
+
+describe('formatAttendanceRate', () => {
+  it('rounds to a whole percentage', () => {
+    expect(formatAttendanceRate(2 / 3)).toBe('67%');
+    expect(formatAttendanceRate(null)).toBe('—');
+  });
+});
+
+describe('compareStartingCandidates', () => {
+  const players = [
+    { id: 'a', playerNumber: 3 },
+    { id: 'b', playerNumber: 9, preferredPositions: 'pos-1' },
+    { id: 'c', playerNumber: 5 },
+    { id: 'd', playerNumber: 1 },
+  ];
+  const order = (rates?: Map<string, number | null>) =>
+    [...players].sort((x, y) => compareStartingCandidates(x, y, 'pos-1', rates)).map(p => p.id);
+
+  it('puts preferred positions first, then jersey number', () => {
+    expect(order()).toEqual(['b', 'd', 'a', 'c']);
+  });
+
+  it('ranks by practice attendance when rates are given', () => {
+    expect(order(new Map([['a', 0.5], ['c', 0.9], ['d', null]]))).toEqual(['b', 'c', 'a', 'd']);
+  });
+});
@@ -0,0 +1,82 @@
+import type { PracticeAttendance, PracticeSession } from '../types/schema';
+
+/** Attendance uses the same statuses as game availability */
+export type AttendanceStatus = 'available' | 'absent' | 'injured' | 'late-arrival';
+
+export interface PracticeAttendanceSummary {
+  playerId: string;
+  attended: number; // On time
+  late: number;
+  absent: number;
+  injured: number;
+  recorded: number; // Practices with a status for this player
+  rate: number | null; // Share of practices attended (on time or late), injuries excused; null with nothing to count
+}
+
+/**
+ * Totals each player's attendance over practices that have already started.
+ * Injured practices are excused: they count towards neither side of the rate.
+ */
+export function summarizePracticeAttendance(
+  sessions: Array<Pick<PracticeSession, 'id' | 'practiceDate'>>,
+  attendance: Array<Pick<PracticeAttendance, 'practiceSessionId' | 'playerId' | 'status'>>,
+  now: Date = new Date()
+): Map<string, PracticeAttendanceSummary> {
+  const heldSessionIds = new Set(
+    sessions.filter(s => new Date(s.practiceDate).getTime() <= now.getTime()).map(s => s.id)
+  );
+
+  const summaries = new Map<string, PracticeAttendanceSummary>();
+  for (const record of attendance) {
+    if (!heldSessionIds.has(record.practiceSessionId)) continue;
+    let summary = summaries.get(record.playerId);
+    if (!summary) {
+      summary = { playerId: record.playerId, attended: 0, late: 0, absent: 0, injured: 0, recorded: 0, rate: null };
+      summaries.set(record.playerId, summary);
+    }
+    summary.recorded++;
+    if (record.status === 'available') summary.attended++;
+    else if (record.status === 'late-arrival') summary.late++;
+    else if (record.status === 'injured') summary.injured++;
+    else summary.absent++;
+  }
+
+  for (const summary of summaries.values()) {
+    const counted = summary.recorded - summary.injured;
+    summary.rate = counted > 0 ? (summary.attended + summary.late) / counted : null;
+  }
+  return summaries;
+}
+
+/**
+ * Formats an attendance rate as a whole percentage, or an em dash when unknown
+ */
+export function formatAttendanceRate(rate: number | null | undefined): string {
+  return rate == null ? '—' : `${Math.round(rate * 100)}%`;
+}
+
+/**
+ * Orders starting lineup candidates: players who prefer the position first,
+ * then (when attendance rates are given) the best practice attendance, then
+ * jersey number. Players with no recorded practices rank after those with a rate.
+ */
+export function compareStartingCandidates<TPlayer extends { id: string; playerNumber?: number; preferredPositions?: string }>(
+  a: TPlayer,
+  b: TPlayer,
+  positionId: string,
+  attendanceRates?: Map<string, number | null>
+): number {
+  const prefers = (player: TPlayer) =>
+    player.preferredPositions?.split(',').map(s => s.trim()).includes(positionId) || false;
+  const aPreferred = prefers(a);
+  const bPreferred = prefers(b);
+  if (aPreferred !== bPreferred) return aPreferred ? -1 : 1;
+
+  if (attendanceRates) {
+    const aRate = attendanceRates.get(a.id) ?? -1;
+    const bRate = attendanceRates.get(b.id) ?? -1;
+    if (aRate !== bRate) return bRate - aRate;
+  }
+
+  return (a.playerNumber || 0) - (b.playerNumber || 0);
+}
@@ -0,0 +1,88 @@
+import { describe, it, expect } from 'vitest';
+import {
+  toCsv,
+  buildPlayerStatsCsv,
+  buildPositionBreakdownCsv,
+  buildPrintableReportHtml,
+  buildExportFilename,
+  type ReportExportRow,
+} from './reportExportUtils';
+
+const row = (overrides: Partial<ReportExportRow> = {}): ReportExportRow => ({
+  playerNumber: 10,
+  playerName: 'Sam Lee',
+  gamesPlayed: 4,
+  totalPlayTimeSeconds: 7200,
+  goals: 3,
+  assists: 1,
+  goldStars: 2,
+  yellowCards: 0,
+  redCards: 0,
+  playTimeByPosition: new Map([['Defender', 1800], ['Forward', 5400]]),
+  ...overrides,
+});
+
+describe('toCsv', () => {
+  it('quotes fields with commas, quotes or line breaks', () => {
+    expect(toCsv([['a,b', 'say "hi"', 'two\nlines', 3, null]])).toBe('"a,b","say ""hi""","two\nlines",3,\r\n');
+  });
+
+  it('keeps spreadsheet formulas from running', () => {
+    expect(toCsv([['=SUM(A1)', '@cmd', -1]])).toBe("'=SUM(A1),'@cmd,-1\r\n");
+  });
+});
+
+describe('buildPlayerStatsCsv', () => {
+  it('writes one row per player with minutes and per-game average', () => {
+    const csv = buildPlayerStatsCsv([row(), row({ playerNumber: null, playerName: 'Alex Kim', gamesPlayed: 0, totalPlayTimeSeconds: 0 })]);
+    const lines = csv.trim().split('\r\n');
+
+    expect(lines[0]).toBe('#,Player,Games Played,Minutes Played,Avg Minutes/Game,Goals,Assists,Gold Stars,Yellow Cards,Red Cards');
+    expect(lines[1]).toBe('10,Sam Lee,4,120,30,3,1,2,0,0');
+    expect(lines[2]).toBe(',Alex Kim,0,0,0,3,1,2,0,0');
+  });
+});
+
+describe('buildPositionBreakdownCsv', () => {
+  it('lists each position with its share of the player\'s time, most played first', () => {
+    const lines = buildPositionBreakdownCsv([row()]).trim().split('\r\n');
+
+    expect(lines).toEqual([
+      '#,Player,Position,Minutes,% of Player Time',
+      '10,Sam Lee,Forward,90,75',
+      '10,Sam Lee,Defender,30,25',
+    ]);
+  });
+});
+
+describe('buildPrintableReportHtml', () => {
+  const summary = {
+    teamName: 'Eagles',
+    seasonName: 'Fall 2025',
+    record: { wins: 3, losses: 1, ties: 0 },
+    completedGames: 4,
+    generatedAt: new Date('2025-11-01T12:00:00Z'),
+  };
+
+  it('includes the record, play time spread and positions', () => {
+    const html = buildPrintableReportHtml(summary, [row(), row({ playerName: 'Alex Kim', totalPlayTimeSeconds: 4800 })]);
+
+    expect(html).toContain('<title>Eagles — Fall 2025 Report</title>');
+    expect(html).toContain('<strong>3-1-0</strong>');
+    expect(html).toContain('20–30 min per game (team average 25)');
+    expect(html).toContain('Forward 90m · Defender 30m');
+  });
+
+  it('escapes names', () => {
+    const html = buildPrintableReportHtml(summary, [row({ playerName: '<b>Sam</b>' })]);
+    expect(html).toContain('&lt;b&gt;Sam&lt;/b&gt;');
+    expect(html).not.toContain('<b>Sam</b>');
+  });
+});
+
+describe('buildExportFilename', () => {
+  it('slugs the team and season names', () => {
+    expect(buildExportFilename('Eagles U11', 'Fall 2025', 'player-stats', 'csv')).toBe('eagles-u11-fall-2025-player-stats.csv');
+    expect(buildExportFilename('Eagles', null, 'positions', 'csv')).toBe('eagles-positions.csv');
+  });
+});
@@ -0,0 +1,205 @@
+export interface ReportExportRow {
+  playerNumber?: number | null;
+  playerName: string;
+  gamesPlayed: number;
+  totalPlayTimeSeconds: number;
+  goals: number;
+  assists: number;
+  goldStars: number;
+  yellowCards: number;
+  redCards: number;
+  /** Seconds played per position name */
+  playTimeByPosition: Map<string, number>;
+}
+
+export interface ReportExportSummary {
+  teamName: string;
+  /** Null when the team has no seasons and the report covers every game */
+  seasonName?: string | null;
+  record: { wins: number; losses: number; ties: number };
+  completedGames: number;
+  generatedAt: Date;
+}
+
+type CsvValue = string | number | null | undefined;
+
+const toMinutes = (seconds: number) => Math.round(seconds / 60);
+
+const averageMinutes = (row: Pick<ReportExportRow, 'gamesPlayed' | 'totalPlayTimeSeconds'>) =>
+  row.gamesPlayed > 0 ? Math.round((row.totalPlayTimeSeconds / 60 / row.gamesPlayed) * 10) / 10 : 0;
+
+const formatNumber = (playerNumber: number | null | undefined) =>
+  playerNumber !== null && playerNumber !== undefined ? playerNumber : '';
+
+function escapeCsvField(value: CsvValue): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  // Spreadsheets run cells that start with these as formulas
+  if (typeof value === 'string' && /^[=+\-@]/.test(text)) {
+    text = `'${text}`;
+  }
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Joins rows into CSV text, quoting fields that need it
+ * @param rows - Header and data rows
+ */
+export function toCsv(rows: CsvValue[][]): string {
+  return rows.map(row => row.map(escapeCsvField).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * CSV of the player stats table, one row per player
+ */
+export function buildPlayerStatsCsv(rows: ReportExportRow[]): string {
+  return toCsv([
+    ['#', 'Player', 'Games Played', 'Minutes Played', 'Avg Minutes/Game', 'Goals', 'Assists', 'Gold Stars', 'Yellow Cards', 'Red Cards'],
+    ...rows.map(row => [
+      formatNumber(row.playerNumber),
+      row.playerName,
+      row.gamesPlayed,
+      toMinutes(row.totalPlayTimeSeconds),
+      averageMinutes(row),
+      row.goals,
+      row.assists,
+      row.goldStars,
+      row.yellowCards,
+      row.redCards,
+    ]),
+  ]);
+}
+
+/**
+ * CSV of minutes per position, one row per player and position (most played first)
+ */
+export function buildPositionBreakdownCsv(rows: ReportExportRow[]): string {
+  const lines: CsvValue[][] = [['#', 'Player', 'Position', 'Minutes', '% of Player Time']];
+  rows.forEach(row => {
+    const total = Array.from(row.playTimeByPosition.values()).reduce((sum, s) => sum + s, 0);
+    Array.from(row.playTimeByPosition.entries())
+      .sort((a, b) => b[1] - a[1])
+      .forEach(([position, seconds]) => {
+        lines.push([
+          formatNumber(row.playerNumber),
+          row.playerName,
+          position,
+          toMinutes(seconds),
+          total > 0 ? Math.round((seconds / total) * 100) : 0,
+        ]);
+      });
+  });
+  return toCsv(lines);
+}
+
+export function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Standalone HTML page summarizing the season for printing (or saving as PDF):
+ * team record, play-time fairness spread and the full player table with
+ * minutes per position.
+ */
+export function buildPrintableReportHtml(summary: ReportExportSummary, rows: ReportExportRow[]): string {
+  const title = `${summary.teamName} — ${summary.seasonName ?? 'Season'} Report`;
+  const { wins, losses, ties } = summary.record;
+
+  // Fairness is judged on minutes per game among players who played
+  const averages = rows.filter(r => r.gamesPlayed > 0).map(averageMinutes);
+  const fairness = averages.length > 0
+    ? `${Math.min(...averages)}–${Math.max(...averages)} min per game (team average ${
+      Math.round((averages.reduce((sum, a) => sum + a, 0) / averages.length) * 10) / 10
+    })`
+    : 'No minutes recorded yet';
+
+  const playerRows = rows.map(row => {
+    const positions = Array.from(row.playTimeByPosition.entries())
+      .sort((a, b) => b[1] - a[1])
+      .map(([position, seconds]) => `${escapeHtml(position)} ${toMinutes(seconds)}m`)
+      .join(' · ');
+    return `<tr>
+<td>${escapeHtml(String(formatNumber(row.playerNumber)))}</td>
+<td>${escapeHtml(row.playerName)}</td>
+<td>${row.gamesPlayed}</td>
+<td>${toMinutes(row.totalPlayTimeSeconds)}</td>
+<td>${averageMinutes(row)}</td>
+<td>${row.goals}</td>
+<td>${row.assists}</td>
+<td>${row.goldStars}</td>
+<td>${row.yellowCards}</td>
+<td>${row.redCards}</td>
+<td>${positions || '–'}</td>
+</tr>`;
+  }).join('\n');
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2rem; color: #222; }
+h1 { margin-bottom: 0.25rem; }
+.meta { color: #666; margin-top: 0; }
+.summary { display: flex; gap: 2rem; margin: 1.5rem 0; }
+.summary div { font-size: 0.9em; color: #666; }
+.summary strong { display: block; font-size: 1.5em; color: #222; }
+table { width: 100%; border-collapse: collapse; font-size: 0.85em; }
+th, td { border: 1px solid #ccc; padding: 0.35rem 0.5rem; text-align: left; }
+th { background: #f2f2f2; }
+@media print { body { margin: 0; } tr { page-break-inside: avoid; } }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<p class="meta">Generated ${escapeHtml(summary.generatedAt.toLocaleDateString())}</p>
+<div class="summary">
+<div><strong>${wins}-${losses}-${ties}</strong>Record (W-L-T)</div>
+<div><strong>${summary.completedGames}</strong>Games completed</div>
+<div><strong>${escapeHtml(fairness)}</strong>Play time spread</div>
+</div>
+<table>
+<thead>
+<tr><th>#</th><th>Player</th><th>GP</th><th>Minutes</th><th>Avg/Game</th><th>Goals</th><th>Assists</th><th>Stars</th><th>Yellow</th><th>Red</th><th>Minutes by Position</th></tr>
+</thead>
+<tbody>
+${playerRows}
+</tbody>
+</table>
+</body>
+</html>
+`;
+}
+
+/**
+ * File name for an export, e.g. "eagles-fall-2025-player-stats.csv"
+ */
+export function buildExportFilename(teamName: string, seasonName: string | null | undefined, suffix: string, extension: string): string {
+  const slug = [teamName, seasonName, suffix]
+    .filter((part): part is string => !!part)
+    .join(' ')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'season-report'}.${extension}`;
+}
+
+/**
+ * Saves text content as a file through a temporary download link
+ */
+export function downloadTextFile(filename: string, content: string, mimeType: string): void {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  URL.revokeObjectURL(url);
+}
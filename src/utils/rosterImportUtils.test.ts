@@ -0,0 +1,75 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { describe, it, expect } from 'vitest';
+import {
+  parseRosterTable,
+  guessRosterColumns,
+  planRosterImport,
+  findMatchingPlayer,
+} from './rosterImportUtils';
+
+const positions = [
+  { id: 'pos-gk', abbreviation: 'GK', positionName: 'Goalkeeper' },
+  { id: 'pos-cb', abbreviation: 'CB', positionName: 'Center Back' },
+];
+const players = [
+  { id: 'p-ava', firstName: 'Ava', lastName: 'Smith', birthYear: 2015 },
+  { id: 'p-ben', firstName: 'Ben', lastName: 'Jones', birthYear: null },
+] as any[];
+const rosters = [{ id: 'r1', teamId: 'team-1', playerId: 'p-ben', playerNumber: 4 }] as any[];
+const context = { teamId: 'team-1', rosters, players, positions };
+
+describe('parseRosterTable', () => {
+  it('reads pasted tab-separated cells and CSV alike', () => {
+    expect(parseRosterTable('Name\t#\nAva Smith\t7')).toEqual({ headers: ['Name', '#'], rows: [['Ava Smith', '7']] });
+    expect(parseRosterTable('Name,#\n"Smith, Ava",7').rows).toEqual([['Smith, Ava', '7']]);
+  });
+});
+
+describe('guessRosterColumns', () => {
+  it('maps headers by alias and prefers separate name columns', () => {
+    expect(guessRosterColumns(['First Name', 'Last Name', 'Player', 'Jersey #', 'YOB', 'Position'])).toEqual({
+      firstName: 0, lastName: 1, fullName: -1, playerNumber: 3, birthYear: 4, positions: 5,
+    });
+    expect(guessRosterColumns(['Player Name', 'No.']).fullName).toBe(0);
+    expect(guessRosterColumns(['Player Name', 'No.']).playerNumber).toBe(1);
+  });
+});
+
+describe('findMatchingPlayer', () => {
+  it('matches names loosely and keeps different birth years apart', () => {
+    expect(findMatchingPlayer(players, ' ava ', 'SMITH', undefined)?.id).toBe('p-ava');
+    expect(findMatchingPlayer(players, 'Ava', 'Smith', 2016)).toBeUndefined();
+    expect(findMatchingPlayer(players, 'Ben', 'Jones', 2014)?.id).toBe('p-ben');
+  });
+});
+
+describe('planRosterImport', () => {
+  it('validates each row and matches existing players and positions', () => {
+    const table = parseRosterTable([
+      'Name,Number,Birth Year,Positions',
+      'Ava Smith,7,2015,GK / cb',
+      '"Lee, Cara",8,,Striker',
+      'Dan Park,4,2016,',
+      'Eve Stone,8,1890,',
+      'Ben Jones,9,,',
+      'Solo,x,,',
+    ].join('\n'));
+    const rows = planRosterImport(table, guessRosterColumns(table.headers), context);
+
+    expect(rows[0]).toEqual(expect.objectContaining({
+      firstName: 'Ava', lastName: 'Smith', playerNumber: 7, birthYear: 2015,
+      positionIds: ['pos-gk', 'pos-cb'], errors: [], warnings: [],
+    }));
+    expect(rows[0].existingPlayer?.id).toBe('p-ava');
+    expect(rows[1]).toEqual(expect.objectContaining({
+      firstName: 'Cara', lastName: 'Lee', existingPlayer: undefined, errors: [], warnings: ['Unknown position "Striker"'],
+    }));
+    expect(rows[2].errors).toEqual(['#4 is already taken on this team']);
+    expect(rows[3].errors).toEqual([
+      '#8 appears more than once in this file',
+      expect.stringContaining('Birth year must be between'),
+    ]);
+    expect(rows[4].errors).toEqual(['Already on this team\'s roster']);
+    expect(rows[5].errors).toEqual(['First and last name are required', '"x" is not a player number']);
+  });
+});
@@ -0,0 +1,190 @@
+import type { FormationPosition, Player, TeamRoster } from '../types/schema';
+import { detectCsvDelimiter, findCsvColumn, parseCsv } from './csvUtils';
+import {
+  BIRTH_YEAR_MAX_FN,
+  BIRTH_YEAR_MIN,
+  isPlayerNumberUnique,
+  isValidPlayerNumber,
+  parseBirthYear,
+} from './validation';
+
+export type RosterImportField = 'firstName' | 'lastName' | 'fullName' | 'playerNumber' | 'birthYear' | 'positions';
+
+/** Column index for each field; -1 when the file has no such column */
+export type RosterColumnMapping = Record<RosterImportField, number>;
+
+export const ROSTER_IMPORT_FIELDS: Array<{ field: RosterImportField; label: string; aliases: string[] }> = [
+  { field: 'firstName', label: 'First name', aliases: ['first name', 'first', 'given name', 'firstname'] },
+  { field: 'lastName', label: 'Last name', aliases: ['last name', 'last', 'surname', 'family name', 'lastname'] },
+  { field: 'fullName', label: 'Full name', aliases: ['name', 'player', 'player name', 'full name'] },
+  { field: 'playerNumber', label: 'Number', aliases: ['number', 'no', '#', 'jersey', 'jersey number', 'shirt'] },
+  { field: 'birthYear', label: 'Birth year', aliases: ['birth year', 'year', 'yob', 'born'] },
+  { field: 'positions', label: 'Positions', aliases: ['positions', 'position', 'preferred positions', 'pos'] },
+];
+
+export interface RosterImportTable {
+  headers: string[];
+  rows: string[][];
+}
+
+export interface RosterImportRow {
+  rowNumber: number; // 1-based data row, for messages
+  firstName: string;
+  lastName: string;
+  playerNumber: number | null;
+  birthYear: number | undefined;
+  positionIds: string[];
+  /** Player from the global pool this row matches; a new player is created otherwise */
+  existingPlayer?: Player;
+  errors: string[]; // Row is skipped
+  warnings: string[]; // Row imports, but something was dropped
+}
+
+interface RosterImportContext {
+  teamId: string;
+  rosters: TeamRoster[];
+  players: Player[];
+  positions: Array<Pick<FormationPosition, 'id' | 'abbreviation' | 'positionName'>>;
+}
+
+const simplifyName = (value: string | null | undefined) => (value ?? '').trim().toLowerCase().replace(/\s+/g, ' ');
+
+/**
+ * Splits pasted spreadsheet cells (tab-separated) or CSV text into a header
+ * row and data rows
+ */
+export function parseRosterTable(text: string): RosterImportTable {
+  const [headers = [], ...rows] = parseCsv(text, detectCsvDelimiter(text));
+  return { headers: headers.map(h => h.trim()), rows };
+}
+
+/**
+ * Maps each field to the column whose header looks like it. A full-name
+ * column is only used when there are no separate first/last name columns.
+ */
+export function guessRosterColumns(headers: string[]): RosterColumnMapping {
+  const mapping = Object.fromEntries(
+    ROSTER_IMPORT_FIELDS.map(({ field, aliases }) => [field, findCsvColumn(headers, aliases)])
+  ) as RosterColumnMapping;
+  if (mapping.firstName >= 0 && mapping.lastName >= 0) mapping.fullName = -1;
+  return mapping;
+}
+
+/**
+ * Splits "Ava Smith" into first and last name; "Smith, Ava" is read last-name first
+ */
+function splitFullName(fullName: string): { firstName: string; lastName: string } {
+  const name = fullName.trim().replace(/\s+/g, ' ');
+  const comma = name.indexOf(',');
+  if (comma >= 0) {
+    return { firstName: name.slice(comma + 1).trim(), lastName: name.slice(0, comma).trim() };
+  }
+  const space = name.lastIndexOf(' ');
+  return space < 0
+    ? { firstName: name, lastName: '' }
+    : { firstName: name.slice(0, space), lastName: name.slice(space + 1) };
+}
+
+/**
+ * Finds a pool player with the same name. A birth year on both sides must
+ * also agree, so two players who share a name in different age groups stay apart.
+ */
+export function findMatchingPlayer(
+  players: Player[],
+  firstName: string,
+  lastName: string,
+  birthYear: number | undefined
+): Player | undefined {
+  const first = simplifyName(firstName);
+  const last = simplifyName(lastName);
+  return players.find(p =>
+    simplifyName(p.firstName) === first &&
+    simplifyName(p.lastName) === last &&
+    (birthYear === undefined || p.birthYear == null || p.birthYear === birthYear)
+  );
+}
+
+/**
+ * Validates every data row against the team's roster and the player pool.
+ * Rows with errors are skipped on import; positions are matched by
+ * abbreviation (or full name) against the team's formation.
+ */
+export function planRosterImport(
+  table: RosterImportTable,
+  mapping: RosterColumnMapping,
+  context: RosterImportContext
+): RosterImportRow[] {
+  const cell = (row: string[], field: RosterImportField) =>
+    mapping[field] >= 0 ? (row[mapping[field]] ?? '').trim() : '';
+  const positionsByKey = new Map<string, string>();
+  context.positions.forEach(p => {
+    positionsByKey.set(p.abbreviation.toLowerCase(), p.id);
+    positionsByKey.set(p.positionName.toLowerCase(), p.id);
+  });
+
+  const seenNumbers = new Set<number>();
+  const seenPlayerIds = new Set<string>();
+
+  return table.rows.map((row, index) => {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    let firstName = cell(row, 'firstName');
+    let lastName = cell(row, 'lastName');
+    if (!firstName && !lastName && cell(row, 'fullName')) {
+      ({ firstName, lastName } = splitFullName(cell(row, 'fullName')));
+    }
+    if (!firstName || !lastName) errors.push('First and last name are required');
+
+    const numberText = cell(row, 'playerNumber').replace(/^#/, '');
+    const parsedNumber = numberText ? Number(numberText) : null;
+    const playerNumber = parsedNumber !== null && Number.isInteger(parsedNumber) ? parsedNumber : null;
+    if (playerNumber === null) {
+      errors.push(numberText ? `"${numberText}" is not a player number` : 'Player number is required');
+    } else if (!isValidPlayerNumber(playerNumber)) {
+      errors.push('Player number must be between 1 and 99');
+    } else if (!isPlayerNumberUnique(playerNumber, context.teamId, context.rosters)) {
+      errors.push(`#${playerNumber} is already taken on this team`);
+    } else if (seenNumbers.has(playerNumber)) {
+      errors.push(`#${playerNumber} appears more than once in this file`);
+    }
+    if (playerNumber !== null) seenNumbers.add(playerNumber);
+
+    const parsedYear = parseBirthYear(cell(row, 'birthYear'));
+    if (parsedYear === null) {
+      errors.push(`Birth year must be between ${BIRTH_YEAR_MIN} and ${BIRTH_YEAR_MAX_FN()}`);
+    }
+    const birthYear = parsedYear ?? undefined;
+
+    const positionIds: string[] = [];
+    cell(row, 'positions').split(/[,;/|]/).map(s => s.trim()).filter(Boolean).forEach(label => {
+      const id = positionsByKey.get(label.toLowerCase());
+      if (!id) warnings.push(`Unknown position "${label}"`);
+      else if (!positionIds.includes(id)) positionIds.push(id);
+    });
+
+    const existingPlayer = firstName && lastName
+      ? findMatchingPlayer(context.players, firstName, lastName, birthYear)
+      : undefined;
+    if (existingPlayer) {
+      if (context.rosters.some(r => r.teamId === context.teamId && r.playerId === existingPlayer.id)) {
+        errors.push('Already on this team\'s roster');
+      } else if (seenPlayerIds.has(existingPlayer.id)) {
+        errors.push('This player appears more than once in this file');
+      }
+      seenPlayerIds.add(existingPlayer.id);
+    }
+
+    return {
+      rowNumber: index + 1,
+      firstName,
+      lastName,
+      playerNumber,
+      birthYear,
+      positionIds,
+      existingPlayer,
+      errors,
+      warnings,
+    };
+  });
+}
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildScheduleIcs,
+  parseMatchup,
+  parseIcsSchedule,
+  parseCsvSchedule,
+  planScheduleImport,
+} from './scheduleCalendarUtils';
+
+const localIso = (y: number, m: number, d: number, h = 0, min = 0) => new Date(y, m - 1, d, h, min).toISOString();
+
+describe('buildScheduleIcs', () => {
+  it('writes one event per dated game with escaped text and folded lines', () => {
+    const ics = buildScheduleIcs('Hawks', [
+      { id: 'g2', opponent: 'Owls', isHome: false, gameDate: '2030-06-08T14:00:00.000Z', status: 'completed', ourScore: 2, opponentScore: 1 },
+      { id: 'g1', opponent: 'Rapids, Blue', isHome: true, gameDate: '2030-06-01T09:30:00.000Z', status: 'scheduled' },
+      { id: 'g3', opponent: 'Undated', isHome: true, gameDate: null, status: 'scheduled' },
+      { id: 'g4', opponent: 'A'.repeat(90), isHome: true, gameDate: '2030-06-15T09:00:00.000Z', status: 'scheduled' },
+    ] as never, 60, new Date('2030-05-01T00:00:00Z'));
+
+    const lines = ics.split('\r\n');
+    expect(lines[0]).toBe('BEGIN:VCALENDAR');
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(3);
+    expect(ics.indexOf('UID:g1@teamtrack')).toBeLessThan(ics.indexOf('UID:g2@teamtrack'));
+    expect(lines).toContain('DTSTART:20300601T093000Z');
+    expect(lines).toContain('DTEND:20300601T103000Z');
+    expect(lines).toContain('SUMMARY:Hawks vs Rapids\\, Blue');
+    expect(lines).toContain('SUMMARY:Hawks @ Owls');
+    expect(lines).toContain('DESCRIPTION:Away game\\nFinal: 2–1');
+    expect(ics).not.toContain('Undated');
+    expect(lines.every(line => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(parseIcsSchedule(ics, 'Hawks')[2].opponent).toBe('A'.repeat(90));
+  });
+});
+
+describe('parseMatchup', () => {
+  it('finds our side of the fixture', () => {
+    expect(parseMatchup('Hawks U10 vs Rapids', 'Hawks')).toEqual({ opponent: 'Rapids', isHome: true });
+    expect(parseMatchup('Rapids vs Hawks', 'Hawks')).toEqual({ opponent: 'Rapids', isHome: false });
+    expect(parseMatchup('Hawks @ Rapids', 'Hawks')).toEqual({ opponent: 'Rapids', isHome: false });
+    expect(parseMatchup('Rapids at Hawks', 'Hawks')).toEqual({ opponent: 'Rapids', isHome: true });
+    expect(parseMatchup('@ Owls', 'Hawks')).toEqual({ opponent: 'Owls', isHome: false });
+    expect(parseMatchup('Owls', 'Hawks')).toEqual({ opponent: 'Owls', isHome: true });
+  });
+});
+
+describe('parseIcsSchedule', () => {
+  it('reads UTC, local and all-day start times and skips cancelled events', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'DTSTART:20300601T093000Z',
+      'SUMMARY:Hawks vs Rap',
+      ' ids',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;TZID=America/Chicago:20300608T100000',
+      'SUMMARY:Owls vs Hawks',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART;VALUE=DATE:20300615',
+      'SUMMARY:Hawks @ Comets',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'DTSTART:20300622T093000Z',
+      'SUMMARY:Hawks vs Bears',
+      'STATUS:CANCELLED',
+      'END:VEVENT',
+      'END:VCALENDAR',
+    ].join('\r\n');
+
+    expect(parseIcsSchedule(ics, 'Hawks')).toEqual([
+      { opponent: 'Rapids', isHome: true, gameDate: '2030-06-01T09:30:00.000Z' },
+      { opponent: 'Owls', isHome: false, gameDate: localIso(2030, 6, 8, 10) },
+      { opponent: 'Comets', isHome: false, gameDate: localIso(2030, 6, 15) },
+    ]);
+  });
+});
+
+describe('parseCsvSchedule', () => {
+  it('reads opponent and home/away columns', () => {
+    const csv = 'Date,Time,Opponent,Home/Away\n2030-06-01,10:00 AM,Rapids,Home\n6/8/2030,1:30 PM,Owls,Away\n';
+    expect(parseCsvSchedule(csv, 'Hawks')).toEqual([
+      { opponent: 'Rapids', isHome: true, gameDate: localIso(2030, 6, 1, 10) },
+      { opponent: 'Owls', isHome: false, gameDate: localIso(2030, 6, 8, 13, 30) },
+    ]);
+  });
+
+  it('reads league-style home team and away team columns', () => {
+    const csv = 'Game Date,Home Team,Away Team\n2030-06-01 18:15,Hawks U10,Rapids\n2030-06-08,Owls,Hawks U10\n';
+    expect(parseCsvSchedule(csv, 'Hawks')).toEqual([
+      { opponent: 'Rapids', isHome: true, gameDate: localIso(2030, 6, 1, 18, 15) },
+      { opponent: 'Owls', isHome: false, gameDate: localIso(2030, 6, 8) },
+    ]);
+  });
+
+  it('rejects files without recognisable columns', () => {
+    expect(() => parseCsvSchedule('Field,Referee\nA,B\n', 'Hawks')).toThrow(/Date column/);
+  });
+});
+
+describe('planScheduleImport', () => {
+  const existing = [
+    { id: 'g1', opponent: 'Rapids U10', isHome: true, gameDate: localIso(2030, 6, 1, 9), status: 'scheduled' },
+    { id: 'g2', opponent: 'Owls', isHome: false, gameDate: localIso(2030, 6, 8, 10), status: 'completed' },
+  ];
+
+  it('creates new games, moves kick-off times and skips duplicates', () => {
+    const rows = planScheduleImport([
+      { opponent: 'Rapids', isHome: true, gameDate: localIso(2030, 6, 1, 10) },
+      { opponent: 'Owls', isHome: false, gameDate: localIso(2030, 6, 8, 11) },
+      { opponent: 'Comets', isHome: true, gameDate: localIso(2030, 6, 15, 9) },
+      { opponent: 'Comets', isHome: true, gameDate: localIso(2030, 6, 15, 9) },
+      { opponent: 'Rapids', isHome: true, gameDate: localIso(2030, 6, 22, 9) },
+    ], existing as never);
+
+    expect(rows.map(row => row.action)).toEqual(['update-time', 'unchanged', 'create', 'unchanged', 'create']);
+    expect(rows[0].existingGame?.id).toBe('g1');
+    expect(rows[3].existingGame).toBeUndefined();
+  });
+});
@@ -0,0 +1,322 @@
+/**
+ * Schedule Calendar Utilities
+ *
+ * Exports a team's games as an iCalendar (.ics) file and reads league
+ * schedules (.ics or CSV) back in. Imported rows are matched against the
+ * games already scheduled on the same day with the same opponent, so
+ * importing an updated schedule changes kick-off times instead of creating
+ * duplicates.
+ */
+
+import type { Game } from "../types/schema";
+import { findCsvColumn, parseCsv } from "./csvUtils";
+import { formatShootoutResult, getResultLabel } from "./gameCalculations";
+import { findMatchingOpponent, normalizeOpponentName } from "./opponentUtils";
+
+type CalendarGame = Pick<Game, 'id' | 'opponent' | 'isHome' | 'gameDate' | 'tournamentStage' | 'status'
+  | 'ourScore' | 'opponentScore' | 'shootoutOurScore' | 'shootoutOpponentScore'>;
+type ExistingGame = Pick<Game, 'id' | 'opponent' | 'isHome' | 'gameDate' | 'status'>;
+
+/** A game read from an imported schedule */
+export interface ImportedScheduleGame {
+  opponent: string;
+  isHome: boolean;
+  gameDate: string | null; // ISO timestamp; null when the schedule has no date
+}
+
+export type ScheduleImportAction = 'create' | 'update-time' | 'unchanged';
+
+export interface ScheduleImportRow {
+  game: ImportedScheduleGame;
+  action: ScheduleImportAction;
+  existingGame?: ExistingGame;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const MAX_LINE_OCTETS = 75;
+
+function escapeIcsText(text: string): string {
+  return text
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Folds a content line to 75 octets, continuing on lines that start with a space
+ */
+function foldIcsLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+function formatIcsDate(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+/**
+ * Builds an iCalendar file with one event per dated game. Event UIDs are
+ * derived from game IDs, so calendar apps update events on re-import.
+ * @param durationMinutes - Length of each event, normally the game length
+ */
+export function buildScheduleIcs(
+  teamName: string,
+  games: CalendarGame[],
+  durationMinutes: number,
+  now: Date = new Date(),
+): string {
+  const events = games
+    .filter((game): game is CalendarGame & { gameDate: string } => !!game.gameDate)
+    .sort((a, b) => a.gameDate.localeCompare(b.gameDate))
+    .flatMap(game => {
+      const start = new Date(game.gameDate);
+      const end = new Date(start.getTime() + durationMinutes * 60_000);
+      const result = getResultLabel(game);
+      const shootout = formatShootoutResult(game);
+      const description = [
+        game.isHome ? 'Home game' : 'Away game',
+        game.tournamentStage,
+        result ? `Final: ${game.ourScore ?? 0}–${game.opponentScore ?? 0}${shootout ? ` (${shootout})` : ''}` : null,
+      ].filter(Boolean).join('\n');
+      return [
+        'BEGIN:VEVENT',
+        `UID:${game.id}@teamtrack`,
+        `DTSTAMP:${formatIcsDate(now)}`,
+        `DTSTART:${formatIcsDate(start)}`,
+        `DTEND:${formatIcsDate(end)}`,
+        `SUMMARY:${escapeIcsText(`${teamName} ${game.isHome ? 'vs' : '@'} ${game.opponent}`)}`,
+        `DESCRIPTION:${escapeIcsText(description)}`,
+        'END:VEVENT',
+      ];
+    });
+
+  return [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//TeamTrack//Schedule//EN',
+    'CALSCALE:GREGORIAN',
+    `X-WR-CALNAME:${escapeIcsText(`${teamName} games`)}`,
+    ...events,
+    'END:VCALENDAR',
+  ].map(foldIcsLine).join('\r\n') + '\r\n';
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const MATCHUP_PATTERN = /^(.*?)\s+(vs\.?|v\.?|versus|@|at)\s+(.+)$/i;
+const OPPONENT_ONLY_PATTERN = /^(vs\.?|v\.?|versus|@|at)\s+(.+)$/i;
+
+/**
+ * Works out the opponent and home/away from an event title such as
+ * "Hawks vs Rapids", "Rapids @ Hawks" or "@ Rapids". The side matching the
+ * team name is us; without a match the first side is assumed to be us.
+ */
+export function parseMatchup(title: string, teamName: string): { opponent: string; isHome: boolean } {
+  const trimmed = title.trim();
+  const opponentOnly = trimmed.match(OPPONENT_ONLY_PATTERN);
+  if (opponentOnly) {
+    const away = /^(@|at)$/i.test(opponentOnly[1]);
+    return { opponent: opponentOnly[2].trim(), isHome: !away };
+  }
+
+  const matchup = trimmed.match(MATCHUP_PATTERN);
+  if (!matchup) return { opponent: trimmed, isHome: true };
+
+  const [, left, separator, right] = matchup;
+  const away = /^(@|at)$/i.test(separator);
+  const teamKey = normalizeOpponentName(teamName);
+  const weAreRight = !!teamKey && normalizeOpponentName(right) === teamKey && normalizeOpponentName(left) !== teamKey;
+  // "A vs B" lists the home side first; "A @ B" is A visiting B
+  return weAreRight
+    ? { opponent: left.trim(), isHome: away }
+    : { opponent: right.trim(), isHome: !away };
+}
+
+function unescapeIcsText(text: string): string {
+  return text.replace(/\\([\\;,nN])/g, (_, c: string) => (c === 'n' || c === 'N' ? '\n' : c));
+}
+
+/**
+ * Reads an iCalendar date or date-time. Times with a TZID or no zone are
+ * taken as device-local time, which matches the league for a local team.
+ */
+function parseIcsDate(value: string): string | null {
+  const match = value.match(/^(\d{4})(\d\d)(\d\d)(?:T(\d\d)(\d\d)(\d\d))?(Z?)$/);
+  if (!match) return null;
+  const [, y, mo, d, h = '0', mi = '0', s = '0', utc] = match;
+  const date = utc
+    ? new Date(Date.UTC(+y, +mo - 1, +d, +h, +mi, +s))
+    : new Date(+y, +mo - 1, +d, +h, +mi, +s);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Reads the games from an iCalendar file. Cancelled events are skipped.
+ */
+export function parseIcsSchedule(text: string, teamName: string): ImportedScheduleGame[] {
+  // Unfold continuation lines before reading properties
+  const lines = text.replace(/\r\n|\r/g, '\n').replace(/\n[ \t]/g, '').split('\n');
+  const games: ImportedScheduleGame[] = [];
+  let event: Record<string, string> | null = null;
+
+  for (const line of lines) {
+    if (line === 'BEGIN:VEVENT') {
+      event = {};
+      continue;
+    }
+    if (line === 'END:VEVENT') {
+      if (event?.SUMMARY && event.STATUS?.toUpperCase() !== 'CANCELLED') {
+        games.push({
+          ...parseMatchup(unescapeIcsText(event.SUMMARY), teamName),
+          gameDate: event.DTSTART ? parseIcsDate(event.DTSTART) : null,
+        });
+      }
+      event = null;
+      continue;
+    }
+    if (!event) continue;
+    const colon = line.indexOf(':');
+    if (colon < 0) continue;
+    const name = line.slice(0, colon).split(';')[0].toUpperCase();
+    event[name] = line.slice(colon + 1).trim();
+  }
+
+  return games;
+}
+
+/**
+ * Reads a date ("2030-06-01", "6/1/2030") and optional time ("10:00",
+ * "1:30 PM", "9am") as device-local time
+ */
+function parseCsvDateTime(dateText: string, timeText: string): string | null {
+  const iso = dateText.match(/(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const us = dateText.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+  let year: number, month: number, day: number;
+  if (iso) {
+    [year, month, day] = [+iso[1], +iso[2], +iso[3]];
+  } else if (us) {
+    [month, day, year] = [+us[1], +us[2], +us[3] < 100 ? 2000 + +us[3] : +us[3]];
+  } else {
+    const parsed = new Date(dateText);
+    if (Number.isNaN(parsed.getTime())) return null;
+    [year, month, day] = [parsed.getFullYear(), parsed.getMonth() + 1, parsed.getDate()];
+  }
+
+  // The time may sit in its own column or after the date in the same cell
+  const rest = timeText || dateText.replace(iso?.[0] ?? us?.[0] ?? '', '');
+  const time = rest.match(/(\d{1,2})(:\d\d)?\s*([ap])\.?m/i) ?? rest.match(/(\d{1,2})(:\d\d)/);
+  let hours = 0;
+  let minutes = 0;
+  if (time) {
+    hours = +time[1] % (time[3] ? 12 : 24);
+    minutes = time[2] ? +time[2].slice(1) : 0;
+    if (time[3]?.toLowerCase() === 'p') hours += 12;
+  }
+
+  const date = new Date(year, month - 1, day, hours, minutes);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+/**
+ * Reads the games from a CSV schedule. Needs a header row with a date column
+ * and either an opponent column (plus an optional home/away column) or
+ * separate home and away team columns.
+ * @throws When the columns cannot be recognised
+ */
+export function parseCsvSchedule(text: string, teamName: string): ImportedScheduleGame[] {
+  const [headers, ...rows] = parseCsv(text);
+  if (!headers) return [];
+
+  const dateCol = findCsvColumn(headers, ['date', 'game date', 'day', 'date time', 'start']);
+  const timeCol = findCsvColumn(headers, ['time', 'start time', 'kickoff', 'kick off']);
+  const opponentCol = findCsvColumn(headers, ['opponent', 'opponents', 'vs', 'versus', 'against', 'opposition']);
+  const homeAwayCol = findCsvColumn(headers, ['home/away', 'home away', 'h/a', 'venue', 'home or away']);
+  const homeTeamCol = findCsvColumn(headers, ['home team', 'home']);
+  const awayTeamCol = findCsvColumn(headers, ['away team', 'away', 'visitor', 'visiting team']);
+
+  if (dateCol < 0 || (opponentCol < 0 && (homeTeamCol < 0 || awayTeamCol < 0))) {
+    throw new Error('The CSV needs a Date column and an Opponent column (or Home Team and Away Team columns).');
+  }
+
+  const teamKey = normalizeOpponentName(teamName);
+  return rows.flatMap((row): ImportedScheduleGame[] => {
+    const cell = (index: number) => (index >= 0 ? (row[index] ?? '').trim() : '');
+    const gameDate = parseCsvDateTime(cell(dateCol), cell(timeCol));
+
+    if (opponentCol >= 0) {
+      const opponent = cell(opponentCol);
+      if (!opponent) return [];
+      return [{ opponent, isHome: !/^(a|away)\b/i.test(cell(homeAwayCol)), gameDate }];
+    }
+
+    const home = cell(homeTeamCol);
+    const away = cell(awayTeamCol);
+    if (!home || !away) return [];
+    const weAreAway = !!teamKey && normalizeOpponentName(away) === teamKey;
+    return [{ opponent: weAreAway ? home : away, isHome: !weAreAway, gameDate }];
+  });
+}
+
+/**
+ * Reads an imported schedule file, picking the parser by content
+ */
+export function parseScheduleFile(text: string, teamName: string): ImportedScheduleGame[] {
+  return /^\s*BEGIN:VCALENDAR/i.test(text)
+    ? parseIcsSchedule(text, teamName)
+    : parseCsvSchedule(text, teamName);
+}
+
+const localDay = (iso: string) => new Date(iso).toDateString();
+
+/**
+ * Matches imported games against the team's games: same calendar day (or
+ * both undated) and the same opponent is the same game. A matched scheduled
+ * game whose kick-off moved gets the new time; everything else that matched
+ * is left alone.
+ */
+export function planScheduleImport(imported: ImportedScheduleGame[], existing: ExistingGame[]): ScheduleImportRow[] {
+  const known: ExistingGame[] = [...existing];
+
+  return imported.map((game): ScheduleImportRow => {
+    const sameDay = known.filter(g =>
+      game.gameDate && g.gameDate ? localDay(g.gameDate) === localDay(game.gameDate) : !game.gameDate && !g.gameDate
+    );
+    const match = findMatchingOpponent(game.opponent, sameDay.map(g => ({ ...g, name: g.opponent })));
+
+    if (!match) {
+      // Later rows in the same file should see this one as already scheduled
+      known.push({ id: '', opponent: game.opponent, isHome: game.isHome, gameDate: game.gameDate, status: 'scheduled' });
+      return { game, action: 'create' };
+    }
+
+    const timeChanged = !!game.gameDate && !!match.gameDate
+      && new Date(match.gameDate).getTime() !== new Date(game.gameDate).getTime();
+    const canUpdate = match.id !== '' && (match.status ?? 'scheduled') === 'scheduled';
+    return {
+      game,
+      action: timeChanged && canUpdate ? 'update-time' : 'unchanged',
+      ...(match.id ? { existingGame: match } : {}),
+    };
+  });
+}
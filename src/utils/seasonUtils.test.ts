@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import {
+  resolveGameSeasonId,
+  filterSeasonGames,
+  parseSeasonRoster,
+  sortSeasons,
+} from './seasonUtils';
+
+describe('resolveGameSeasonId', () => {
+  it('uses the game\'s own season when it has one', () => {
+    expect(resolveGameSeasonId({ seasonId: 'fall' }, 'spring')).toBe('fall');
+  });
+
+  it('places games without a season in the current season', () => {
+    expect(resolveGameSeasonId({ seasonId: null }, 'spring')).toBe('spring');
+    expect(resolveGameSeasonId({}, undefined)).toBeNull();
+  });
+});
+
+describe('filterSeasonGames', () => {
+  const games = [
+    { id: 'g1', seasonId: 'fall' },
+    { id: 'g2', seasonId: 'spring' },
+    { id: 'g3', seasonId: null },
+  ];
+
+  it('keeps the games of an archived season', () => {
+    expect(filterSeasonGames(games, 'fall', 'spring').map(g => g.id)).toEqual(['g1']);
+  });
+
+  it('includes unassigned games in the current season', () => {
+    expect(filterSeasonGames(games, 'spring', 'spring').map(g => g.id)).toEqual(['g2', 'g3']);
+  });
+
+  it('keeps every game when no season is selected', () => {
+    expect(filterSeasonGames(games, null, undefined)).toHaveLength(3);
+  });
+});
+
+describe('parseSeasonRoster', () => {
+  it('parses a JSON string and drops malformed entries', () => {
+    const raw = JSON.stringify([
+      { playerId: 'p1', playerNumber: 10 },
+      { playerId: 'p2' },
+      { playerNumber: 7 },
+    ]);
+    expect(parseSeasonRoster(raw)).toEqual([{ playerId: 'p1', playerNumber: 10 }]);
+  });
+
+  it('returns an empty list for missing or invalid JSON', () => {
+    expect(parseSeasonRoster(null)).toEqual([]);
+    expect(parseSeasonRoster('{not json')).toEqual([]);
+  });
+});
+
+describe('sortSeasons', () => {
+  it('sorts newest first, falling back to creation time', () => {
+    const sorted = sortSeasons([
+      { id: 'fall-24', startDate: '2024-08-20', createdAt: '2024-08-01T00:00:00Z' },
+      { id: 'undated', startDate: null, createdAt: '2025-01-10T00:00:00Z' },
+      { id: 'fall-25', startDate: '2025-08-20', createdAt: '2025-08-01T00:00:00Z' },
+    ]);
+    expect(sorted.map(s => s.id)).toEqual(['fall-25', 'undated', 'fall-24']);
+  });
+});
@@ -0,0 +1,61 @@
+import type { Game, Season, SeasonRosterEntry } from "../types/schema";
+
+/**
+ * Returns the season a game belongs to. Games with no seasonId were created
+ * before the team's seasons existed (or outside a season-aware screen) and
+ * count towards the current season until a rollover files them away.
+ * @param game - Game to place
+ * @param currentSeasonId - Team.currentSeasonId
+ */
+export function resolveGameSeasonId(
+  game: Pick<Game, 'seasonId'>,
+  currentSeasonId: string | null | undefined
+): string | null {
+  return game.seasonId ?? currentSeasonId ?? null;
+}
+
+/**
+ * Filters a team's games down to one season
+ * @param games - All games for the team
+ * @param seasonId - Season to keep; null keeps every game (team has no seasons yet)
+ * @param currentSeasonId - Team.currentSeasonId
+ */
+export function filterSeasonGames<TGame extends Pick<Game, 'seasonId'>>(
+  games: TGame[],
+  seasonId: string | null,
+  currentSeasonId: string | null | undefined
+): TGame[] {
+  if (!seasonId) return games;
+  return games.filter(g => resolveGameSeasonId(g, currentSeasonId) === seasonId);
+}
+
+/**
+ * Parses the roster snapshot stored on an archived Season
+ * @param raw - Season.roster value (JSON string or array)
+ * @returns Valid entries; malformed ones are dropped
+ */
+export function parseSeasonRoster(raw: unknown): SeasonRosterEntry[] {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value.filter((entry): entry is SeasonRosterEntry =>
+    typeof entry === 'object' && entry !== null &&
+    typeof (entry as SeasonRosterEntry).playerId === 'string' &&
+    typeof (entry as SeasonRosterEntry).playerNumber === 'number'
+  );
+}
+
+/**
+ * Sorts seasons newest first (start date, then creation time)
+ */
+export function sortSeasons<TSeason extends Pick<Season, 'startDate' | 'createdAt'>>(seasons: TSeason[]): TSeason[] {
+  const key = (s: TSeason) => s.startDate ?? s.createdAt ?? '';
+  return [...seasons].sort((a, b) => key(b).localeCompare(key(a)));
+}
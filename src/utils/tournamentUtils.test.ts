@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseTournamentAvailability,
+  groupTournamentGames,
+  DEFAULT_TOURNAMENT_STAGE,
+} from './tournamentUtils';
+
+const game = (overrides: Record<string, unknown> = {}) => ({
+  id: 'g1',
+  status: 'completed',
+  gameDate: '2025-10-04T09:00:00Z',
+  createdAt: '2025-09-01T00:00:00Z',
+  tournamentStage: 'Pool A',
+  ourScore: 0,
+  opponentScore: 0,
+  ...overrides,
+});
+
+describe('parseTournamentAvailability', () => {
+  it('parses a JSON string and drops malformed entries', () => {
+    const raw = JSON.stringify([
+      { playerId: 'p1', status: 'absent' },
+      { playerId: 'p2', status: 'on-holiday' },
+      { status: 'injured' },
+    ]);
+    expect(parseTournamentAvailability(raw)).toEqual([{ playerId: 'p1', status: 'absent' }]);
+  });
+
+  it('returns an empty list for missing or invalid JSON', () => {
+    expect(parseTournamentAvailability(null)).toEqual([]);
+    expect(parseTournamentAvailability('{not json')).toEqual([]);
+  });
+});
+
+describe('groupTournamentGames', () => {
+  it('groups games by stage in playing order with a record and goal tally', () => {
+    const groups = groupTournamentGames([
+      game({ id: 'final', tournamentStage: 'Final', gameDate: '2025-10-04T16:00:00Z', status: 'scheduled' }),
+      game({ id: 'a2', gameDate: '2025-10-04T11:00:00Z', ourScore: 1, opponentScore: 1 }),
+      game({ id: 'a1', ourScore: 3, opponentScore: 1 }),
+    ]);
+
+    expect(groups.map(g => g.stage)).toEqual(['Pool A', 'Final']);
+    expect(groups[0].games.map(g => g.id)).toEqual(['a1', 'a2']);
+    expect(groups[0].record).toEqual({ wins: 1, losses: 0, ties: 1 });
+    expect(groups[0].goalsFor).toBe(4);
+    expect(groups[0].goalsAgainst).toBe(2);
+    expect(groups[1].record).toEqual({ wins: 0, losses: 0, ties: 0 });
+  });
+
+  it('puts games without a stage in the default group', () => {
+    const groups = groupTournamentGames([game({ tournamentStage: null }), game({ id: 'g2', tournamentStage: '  ' })]);
+    expect(groups).toHaveLength(1);
+    expect(groups[0].stage).toBe(DEFAULT_TOURNAMENT_STAGE);
+  });
+});
@@ -0,0 +1,74 @@
+import type { Game, TournamentAvailabilityEntry } from "../types/schema";
+import { calculateRecord, type GameResultFields } from "./gameCalculations";
+
+/** Stage label used for tournament games that were not given one */
+export const DEFAULT_TOURNAMENT_STAGE = 'Games';
+
+const AVAILABILITY_STATUSES: ReadonlyArray<TournamentAvailabilityEntry['status']> = [
+  'available', 'absent', 'injured', 'late-arrival',
+];
+
+type TournamentGameFields = Pick<Game, 'id' | 'status' | 'gameDate' | 'createdAt' | 'tournamentStage'> & GameResultFields;
+
+export interface TournamentStageGroup<TGame extends TournamentGameFields> {
+  stage: string;
+  games: TGame[];
+  record: { wins: number; losses: number; ties: number };
+  goalsFor: number;
+  goalsAgainst: number;
+}
+
+/**
+ * Parses the JSON availability list stored on a Tournament
+ * @param raw - Tournament.availability value (JSON string or array)
+ * @returns Valid entries; malformed ones are dropped
+ */
+export function parseTournamentAvailability(raw: unknown): TournamentAvailabilityEntry[] {
+  let value: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      value = JSON.parse(raw) as unknown;
+    } catch {
+      return [];
+    }
+  }
+  if (!Array.isArray(value)) return [];
+
+  return value.filter((entry): entry is TournamentAvailabilityEntry =>
+    typeof entry === 'object' && entry !== null &&
+    typeof (entry as TournamentAvailabilityEntry).playerId === 'string' &&
+    AVAILABILITY_STATUSES.includes((entry as TournamentAvailabilityEntry).status)
+  );
+}
+
+/**
+ * Sorts tournament games into playing order (kick-off time, then creation time)
+ */
+export function sortTournamentGames<TGame extends Pick<Game, 'gameDate' | 'createdAt'>>(games: TGame[]): TGame[] {
+  const kickOff = (g: TGame) => new Date(g.gameDate ?? g.createdAt ?? 0).getTime();
+  return [...games].sort((a, b) => kickOff(a) - kickOff(b));
+}
+
+/**
+ * Groups tournament games by stage (pool or bracket round) in playing order,
+ * with the record and goal tally for each stage
+ */
+export function groupTournamentGames<TGame extends TournamentGameFields>(games: TGame[]): TournamentStageGroup<TGame>[] {
+  const groups = new Map<string, TGame[]>();
+  for (const game of sortTournamentGames(games)) {
+    const stage = game.tournamentStage?.trim() || DEFAULT_TOURNAMENT_STAGE;
+    if (!groups.has(stage)) groups.set(stage, []);
+    groups.get(stage)!.push(game);
+  }
+
+  return Array.from(groups.entries()).map(([stage, stageGames]) => {
+    const completed = stageGames.filter(g => g.status === 'completed');
+    return {
+      stage,
+      games: stageGames,
+      record: calculateRecord(stageGames),
+      goalsFor: completed.reduce((sum, g) => sum + (g.ourScore ?? 0), 0),
+      goalsAgainst: completed.reduce((sum, g) => sum + (g.opponentScore ?? 0), 0),
+    };
+  });
+}
@@ -173,6 +173,41 @@ describe('validateTeamFormData', () => {
     const result = validateTeamFormData({ ...valid, halfLength: '0' });
     expect(result).toHaveProperty('error');
   });
+
+  it('should parse the fairness game count for the recent window', () => {
+    const result = validateTeamFormData({ ...valid, fairnessWindow: 'recent', fairnessWindowGames: '5' });
+    expect(result).toEqual({ maxPlayersNum: 7, halfLengthNum: 25, fairnessWindowGamesNum: 5 });
+  });
+
+  it('should return an error when the recent window has no valid game count', () => {
+    const result = validateTeamFormData({ ...valid, fairnessWindow: 'recent', fairnessWindowGames: '0' });
+    expect(result).toHaveProperty('error');
+  });
+
+  it('should fall back to the default game count for other windows', () => {
+    const result = validateTeamFormData({ ...valid, fairnessWindow: 'season', fairnessWindowGames: '' });
+    expect(result).toEqual({ maxPlayersNum: 7, halfLengthNum: 25, fairnessWindowGamesNum: 3 });
+  });
+
+  it('should parse the period count for the custom periods format', () => {
+    const result = validateTeamFormData({ ...valid, gameFormat: 'Periods', periodCount: '3' });
+    expect(result).toEqual({ maxPlayersNum: 7, halfLengthNum: 25, periodCountNum: 3 });
+  });
+
+  it('should return an error when the period count is out of range', () => {
+    expect(validateTeamFormData({ ...valid, gameFormat: 'Periods', periodCount: '1' })).toHaveProperty('error');
+    expect(validateTeamFormData({ ...valid, gameFormat: 'Periods', periodCount: '7' })).toHaveProperty('error');
+  });
+
+  it('should ignore the period count for halves', () => {
+    const result = validateTeamFormData({ ...valid, gameFormat: 'Halves', periodCount: '5' });
+    expect(result).toEqual({ maxPlayersNum: 7, halfLengthNum: 25 });
+  });
+
+  it('should save four periods for quarters so the length reads as a quarter length', () => {
+    const result = validateTeamFormData({ ...valid, gameFormat: 'Quarters', periodCount: '' });
+    expect(result).toEqual({ maxPlayersNum: 7, halfLengthNum: 25, periodCountNum: 4 });
+  });
 });
 
 // ---------------------------------------------------------------------------
@@ -1,4 +1,6 @@
 import type { TeamRoster } from "../types/schema";
+import { DEFAULT_FORM_VALUES } from "../constants/gameConfig";
+import { MAX_PERIOD_COUNT, MIN_PERIOD_COUNT } from "./periodUtils";
 
 // ---------------------------------------------------------------------------
 // Birth Year
@@ -25,21 +27,50 @@ export function parseBirthYear(raw: string): number | undefined | null {
 export interface TeamFormValidationResult {
   maxPlayersNum: number;
   halfLengthNum: number;
+  fairnessWindowGamesNum?: number;
+  periodCountNum?: number; // set for the 'Periods' and 'Quarters' game formats
 }
 
 /**
  * Validates team form data (pure, no side effects).
  * Returns { error } on failure or parsed numbers on success.
+ * The fairness game count is only checked when the 'recent' window is selected;
+ * otherwise an unparseable value falls back to the default. The period count
+ * is only checked for the 'Periods' game format.
  */
 export function validateTeamFormData(
-  form: { name: string; maxPlayers: string; halfLength: string }
+  form: {
+    name: string; maxPlayers: string; halfLength: string;
+    fairnessWindow?: string; fairnessWindowGames?: string;
+    gameFormat?: string; periodCount?: string;
+  }
 ): { error: string } | TeamFormValidationResult {
   if (!form.name.trim()) return { error: 'Please enter team name' };
   const maxPlayersNum = parseInt(form.maxPlayers);
   if (isNaN(maxPlayersNum) || maxPlayersNum < 1) return { error: 'Please enter a valid number of players' };
   const halfLengthNum = parseInt(form.halfLength);
-  if (isNaN(halfLengthNum) || halfLengthNum < 1) return { error: 'Please enter a valid half length' };
-  return { maxPlayersNum, halfLengthNum };
+  if (isNaN(halfLengthNum) || halfLengthNum < 1) return { error: 'Please enter a valid period length' };
+
+  let periods: { periodCountNum?: number } = {};
+  if (form.gameFormat === 'Periods') {
+    const periodCountNum = parseInt(form.periodCount ?? '');
+    if (isNaN(periodCountNum) || periodCountNum < MIN_PERIOD_COUNT || periodCountNum > MAX_PERIOD_COUNT) {
+      return { error: `Please enter between ${MIN_PERIOD_COUNT} and ${MAX_PERIOD_COUNT} periods` };
+    }
+    periods = { periodCountNum };
+  } else if (form.gameFormat === 'Quarters') {
+    // Marks the length as a quarter length, see isLegacyQuarterTeam
+    periods = { periodCountNum: 4 };
+  }
+  if (form.fairnessWindowGames === undefined) return { maxPlayersNum, halfLengthNum, ...periods };
+
+  const parsedGames = parseInt(form.fairnessWindowGames);
+  const gamesValid = !isNaN(parsedGames) && parsedGames >= 1;
+  if (form.fairnessWindow === 'recent' && !gamesValid) {
+    return { error: 'Please enter how many games to balance across' };
+  }
+  const fairnessWindowGamesNum = gamesValid ? parsedGames : parseInt(DEFAULT_FORM_VALUES.fairnessWindowGames);
+  return { maxPlayersNum, halfLengthNum, fairnessWindowGamesNum, ...periods };
 }
 
 // ---------------------------------------------------------------------------
@@ -80,6 +80,10 @@ export default defineConfig({
   plugins: [
     react(),
     VitePWA({
+      // A custom worker, so it can drain the offline queue through Background Sync
+      strategies: 'injectManifest',
+      srcDir: 'src',
+      filename: 'sw.ts',
       registerType: 'prompt',
       includeAssets: ['soccer_app_192.png', 'soccer_app_512.png'],
       devOptions: {
@@ -110,30 +114,9 @@ export default defineConfig({
           }
         ]
       },
-      workbox: {
+      injectManifest: {
         globPatterns: ['**/*.{js,css,html,ico,png,svg}'],
-        cleanupOutdatedCaches: true,
-        skipWaiting: false,
-        clientsClaim: false,
-        navigateFallback: 'index.html',
-        navigateFallbackAllowlist: [/^\/(?!api\/).*/],
-        runtimeCaching: [
-          {
-            urlPattern: /^https:\/\/.*\.execute-api\..*\.amazonaws\.com\/.*/i,
-            handler: 'NetworkFirst',
-            options: {
-              cacheName: 'amplify-api-cache',
-              expiration: {
-                maxEntries: 50,
-                maxAgeSeconds: 60 * 60 * 24 // 24 hours
-              },
-              cacheableResponse: {
-                statuses: [0, 200]
-              }
-            }
-          }
-        ]
-      }
+      },
     })
   ],
 })